@@ -0,0 +1,456 @@
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'react-toastify';
+import RouteProtection from '../../../components/RouteProtection';
+import Loading from '@/app/components/Loading';
+import {
+  Business,
+  BusinessRole,
+  getBusinesses,
+  createBusiness,
+  updateBusiness,
+  deleteBusiness,
+  setBusinessMember,
+  removeBusinessMember
+} from '../../../lib/business-api';
+import { getUsers } from '../../../lib/users-api';
+import { User } from '../../../lib/types';
+
+const ROLES: BusinessRole[] = ['buyer', 'approver', 'viewer'];
+
+const emptyForm = {
+  name: '',
+  approval_threshold: '',
+  notes: ''
+};
+
+const emptyMember = {
+  user_id: '',
+  role: 'buyer' as BusinessRole
+};
+
+export default function BusinessesPage() {
+  const t = useTranslations('businesses');
+  const [businesses, setBusinesses] = useState<Business[]>([]);
+  const [customers, setCustomers] = useState<User[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // Business form
+  const [isFormOpen, setFormOpen] = useState(false);
+  const [editingBusiness, setEditingBusiness] = useState<Business | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const [newMember, setNewMember] = useState(emptyMember);
+
+  const inputClass = 'mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm';
+
+  const loadBusinesses = async () => {
+    setBusinesses(await getBusinesses());
+  };
+
+  useEffect(() => {
+    async function loadData() {
+      try {
+        setLoading(true);
+        const [allBusinesses, allUsers] = await Promise.all([getBusinesses(), getUsers()]);
+        setBusinesses(allBusinesses);
+        setCustomers(allUsers.filter(user => user.role === 'customer'));
+      } catch (err: any) {
+        console.error('Error loading businesses:', err);
+        toast.error(`${t('loadError')}: ${err.message}`);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadData();
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const openForm = (business: Business | null) => {
+    setEditingBusiness(business);
+    setFormData(business ? {
+      name: business.name,
+      approval_threshold: business.approval_threshold?.toString() ?? '',
+      notes: business.notes || ''
+    } : emptyForm);
+    setFormOpen(true);
+  };
+
+  const handleSubmitBusiness = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast.error(t('nameRequired'));
+      return;
+    }
+
+    const threshold = formData.approval_threshold.trim() ? parseFloat(formData.approval_threshold) : null;
+    if (threshold !== null && (isNaN(threshold) || threshold < 0)) {
+      toast.error(t('invalidThreshold'));
+      return;
+    }
+
+    const businessData = {
+      name: formData.name.trim(),
+      approval_threshold: threshold,
+      notes: formData.notes.trim() || null
+    };
+
+    setSaving(true);
+    try {
+      if (editingBusiness) {
+        await updateBusiness(editingBusiness.id, businessData);
+        toast.success(t('updateSuccess'));
+      } else {
+        const created = await createBusiness({
+          name: businessData.name,
+          approval_threshold: businessData.approval_threshold ?? undefined,
+          notes: businessData.notes ?? undefined
+        });
+        toast.success(t('createSuccess'));
+        setSelectedId(created.id);
+      }
+      await loadBusinesses();
+      setFormOpen(false);
+    } catch (err: any) {
+      console.error('Error saving business:', err);
+      toast.error(`${t('saveError')}: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteBusiness = async (business: Business) => {
+    if (!confirm(t('deleteConfirm', { name: business.name }))) return;
+
+    setSaving(true);
+    try {
+      await deleteBusiness(business.id);
+      toast.success(t('deleteSuccess'));
+      if (selectedId === business.id) setSelectedId(null);
+      await loadBusinesses();
+    } catch (err: any) {
+      console.error('Error deleting business:', err);
+      toast.error(`${t('deleteError')}: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSetMember = async (userId: string, role: BusinessRole) => {
+    if (!selectedId) return;
+
+    setSaving(true);
+    try {
+      await setBusinessMember(selectedId, userId, role);
+      await loadBusinesses();
+      toast.success(t('memberSaved'));
+    } catch (err: any) {
+      console.error('Error saving business member:', err);
+      toast.error(`${t('saveError')}: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddMember = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!newMember.user_id) {
+      toast.error(t('userRequired'));
+      return;
+    }
+
+    // A user belongs to one business, so adding them elsewhere moves them
+    const otherBusiness = businesses.find(business =>
+      business.id !== selectedId && business.members?.some(member => member.user_id === newMember.user_id)
+    );
+    if (otherBusiness && !confirm(t('moveConfirm', { business: otherBusiness.name }))) return;
+
+    await handleSetMember(newMember.user_id, newMember.role);
+    setNewMember(emptyMember);
+  };
+
+  const handleRemoveMember = async (userId: string) => {
+    setSaving(true);
+    try {
+      await removeBusinessMember(userId);
+      await loadBusinesses();
+    } catch (err: any) {
+      console.error('Error removing business member:', err);
+      toast.error(`${t('saveError')}: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <Loading />;
+  }
+
+  const selectedBusiness = businesses.find(business => business.id === selectedId) || null;
+  const memberIds = new Set(selectedBusiness?.members?.map(member => member.user_id) || []);
+
+  return (
+    <RouteProtection>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="bg-white/80 backdrop-blur-lg rounded-lg shadow-2xl border border-white/20 p-4 lg:p-6">
+          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between">
+            <div>
+              <h1 className="text-xl lg:text-xl font-bold bg-gradient-to-r from-emerald-600 to-teal-600 bg-clip-text text-transparent">
+                {t('title')}
+              </h1>
+              <p className="mt-1 text-gray-600 text-base">{t('subtitle')}</p>
+            </div>
+            <div className="mt-4 lg:mt-0">
+              <button
+                onClick={() => openForm(null)}
+                className="px-4 py-2 bg-gradient-to-r from-emerald-500 to-teal-600 text-white rounded-lg hover:from-emerald-600 hover:to-teal-700 transition-all duration-200 shadow-lg hover:shadow-xl font-medium flex items-center space-x-2 text-sm"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                </svg>
+                <span>{t('newBusiness')}</span>
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Businesses */}
+          <div className="bg-white/80 backdrop-blur-lg rounded-lg shadow-2xl border border-white/20 overflow-hidden self-start">
+            <div className="px-4 py-3 border-b border-gray-100">
+              <h3 className="text-base font-semibold text-gray-900">{t('businesses')}</h3>
+            </div>
+            {businesses.length === 0 ? (
+              <p className="p-6 text-center text-sm text-gray-500">{t('empty')}</p>
+            ) : (
+              <div className="divide-y divide-gray-100">
+                {businesses.map(business => (
+                  <button
+                    key={business.id}
+                    onClick={() => setSelectedId(business.id)}
+                    className={`w-full text-left p-4 hover:bg-emerald-50/50 transition-colors duration-200 ${selectedId === business.id ? 'bg-emerald-50' : ''}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-semibold text-gray-900 text-sm">{business.name}</span>
+                      <span className="text-xs text-gray-500">{t('memberCount', { count: business.members?.length || 0 })}</span>
+                    </div>
+                    <div className="text-xs text-gray-600 mt-1">
+                      {business.approval_threshold != null
+                        ? t('thresholdValue', { amount: business.approval_threshold.toFixed(2) })
+                        : t('noThreshold')}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Selected Business */}
+          <div className="lg:col-span-2">
+            {!selectedBusiness ? (
+              <div className="bg-white/80 backdrop-blur-lg rounded-lg shadow-2xl border border-white/20 p-8 text-center text-sm text-gray-500">
+                {t('selectBusiness')}
+              </div>
+            ) : (
+              <div className="bg-white/80 backdrop-blur-lg rounded-lg shadow-2xl border border-white/20 overflow-hidden">
+                <div className="p-4 border-b border-gray-100 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-900">{selectedBusiness.name}</h3>
+                    <p className="text-sm text-gray-600">
+                      {selectedBusiness.approval_threshold != null
+                        ? t('thresholdValue', { amount: selectedBusiness.approval_threshold.toFixed(2) })
+                        : t('noThreshold')}
+                    </p>
+                    {selectedBusiness.notes && <p className="text-xs text-gray-500 mt-1">{selectedBusiness.notes}</p>}
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => openForm(selectedBusiness)}
+                      className="px-3 py-1 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors font-medium text-xs"
+                      disabled={saving}
+                    >
+                      {t('edit')}
+                    </button>
+                    <button
+                      onClick={() => handleDeleteBusiness(selectedBusiness)}
+                      className="px-3 py-1 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors font-medium text-xs"
+                      disabled={saving}
+                    >
+                      {t('delete')}
+                    </button>
+                  </div>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-100 text-sm">
+                    <thead className="bg-gradient-to-r from-emerald-50 to-teal-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">{t('user')}</th>
+                        <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">{t('role')}</th>
+                        <th className="px-4 py-2 text-right text-xs font-semibold text-gray-700 uppercase">{t('actions')}</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {(selectedBusiness.members || []).length === 0 && (
+                        <tr>
+                          <td colSpan={3} className="px-4 py-6 text-center text-gray-500">{t('noMembers')}</td>
+                        </tr>
+                      )}
+                      {(selectedBusiness.members || []).map(member => (
+                        <tr key={member.user_id}>
+                          <td className="px-4 py-2">
+                            <div className="font-medium text-gray-900">{member.user?.name}</div>
+                            <div className="text-xs text-gray-500">{member.user?.email}</div>
+                          </td>
+                          <td className="px-4 py-2">
+                            <select
+                              className="rounded-lg border border-gray-300 px-2 py-1 text-sm"
+                              value={member.role}
+                              onChange={e => handleSetMember(member.user_id, e.target.value as BusinessRole)}
+                              disabled={saving}
+                            >
+                              {ROLES.map(role => (
+                                <option key={role} value={role}>{t(`roles.${role}`)}</option>
+                              ))}
+                            </select>
+                          </td>
+                          <td className="px-4 py-2 text-right">
+                            <button
+                              onClick={() => handleRemoveMember(member.user_id)}
+                              className="px-3 py-1 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors font-medium text-xs"
+                              disabled={saving}
+                            >
+                              {t('remove')}
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {/* Add Member */}
+                <form onSubmit={handleAddMember} className="p-4 border-t border-gray-100 grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+                  <div className="sm:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700">{t('user')}</label>
+                    <select
+                      className={inputClass}
+                      value={newMember.user_id}
+                      onChange={e => setNewMember({ ...newMember, user_id: e.target.value })}
+                      disabled={saving}
+                    >
+                      <option value="">{t('selectUser')}</option>
+                      {customers
+                        .filter(user => !memberIds.has(user.id))
+                        .map(user => (
+                          <option key={user.id} value={user.id}>
+                            {user.name} ({user.email})
+                          </option>
+                        ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">{t('role')}</label>
+                    <select
+                      className={inputClass}
+                      value={newMember.role}
+                      onChange={e => setNewMember({ ...newMember, role: e.target.value as BusinessRole })}
+                      disabled={saving}
+                    >
+                      {ROLES.map(role => (
+                        <option key={role} value={role}>{t(`roles.${role}`)}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <button
+                    type="submit"
+                    className="px-4 py-2 rounded bg-green-600 text-white font-semibold hover:bg-green-700 disabled:bg-green-300 text-sm"
+                    disabled={saving}
+                  >
+                    {t('addMember')}
+                  </button>
+                  <p className="sm:col-span-4 text-xs text-gray-500">{t('rolesHelp')}</p>
+                </form>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Business Form */}
+        {isFormOpen && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-30">
+            <div className="bg-white rounded-xl shadow-xl w-full max-w-lg p-6 relative animate-fadeIn max-h-[90vh] overflow-y-auto">
+              <button
+                className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 text-2xl"
+                onClick={() => setFormOpen(false)}
+                disabled={saving}
+              >
+                &times;
+              </button>
+              <h2 className="text-xl font-bold mb-4">{editingBusiness ? t('editBusiness') : t('newBusiness')}</h2>
+              <form onSubmit={handleSubmitBusiness} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">{t('name')}</label>
+                  <input
+                    type="text"
+                    className={inputClass}
+                    value={formData.name}
+                    onChange={e => setFormData({ ...formData, name: e.target.value })}
+                    required
+                    disabled={saving}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">{t('approvalThreshold')}</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    className={inputClass}
+                    value={formData.approval_threshold}
+                    onChange={e => setFormData({ ...formData, approval_threshold: e.target.value })}
+                    disabled={saving}
+                  />
+                  <p className="mt-1 text-xs text-gray-400">{t('approvalThresholdHelp')}</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">{t('notes')}</label>
+                  <textarea
+                    className={inputClass}
+                    rows={2}
+                    value={formData.notes}
+                    onChange={e => setFormData({ ...formData, notes: e.target.value })}
+                    disabled={saving}
+                  />
+                </div>
+                <div className="flex justify-end space-x-2 pt-2">
+                  <button
+                    type="button"
+                    className="px-4 py-2 rounded border border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+                    onClick={() => setFormOpen(false)}
+                    disabled={saving}
+                  >
+                    {t('cancel')}
+                  </button>
+                  <button
+                    type="submit"
+                    className="px-4 py-2 rounded bg-green-600 text-white font-semibold hover:bg-green-700 disabled:bg-green-300"
+                    disabled={saving}
+                  >
+                    {saving ? t('saving') : t('save')}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        )}
+      </div>
+    </RouteProtection>
+  );
+}
@@ -0,0 +1,349 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'react-toastify';
+import RouteProtection from '../../../components/RouteProtection';
+import Loading from '@/app/components/Loading';
+import {
+  Complaint,
+  ComplaintStatus,
+  ComplaintStockAction,
+  getComplaints,
+  getComplaintPhotoUrls,
+  resolveComplaint,
+  issueCreditNote,
+  isComplaintResolved
+} from '../../../lib/complaint-api';
+import { formatCurrency } from '../../../lib/utils';
+
+const statusStyles: Record<ComplaintStatus, string> = {
+  open: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-emerald-100 text-emerald-700',
+  rejected: 'bg-red-100 text-red-700'
+};
+
+const STOCK_ACTIONS: ComplaintStockAction[] = ['none', 'restock', 'write_off'];
+
+export default function ComplaintsPage() {
+  const t = useTranslations('complaints');
+  const [complaints, setComplaints] = useState<Complaint[]>([]);
+  const [statusFilter, setStatusFilter] = useState<ComplaintStatus | ''>('open');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // Reviewing
+  const [reviewing, setReviewing] = useState<Complaint | null>(null);
+  const [photoUrls, setPhotoUrls] = useState<string[]>([]);
+  const [stockActions, setStockActions] = useState<Record<string, ComplaintStockAction>>({});
+  const [notes, setNotes] = useState('');
+
+  const loadComplaints = async () => {
+    setComplaints(await getComplaints(statusFilter || undefined));
+  };
+
+  useEffect(() => {
+    async function loadData() {
+      try {
+        setLoading(true);
+        await loadComplaints();
+      } catch (err: any) {
+        console.error('Error loading complaints:', err);
+        toast.error(`${t('loadError')}: ${err.message}`);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadData();
+  }, [statusFilter]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const openReview = async (complaint: Complaint) => {
+    setReviewing(complaint);
+    setStockActions(Object.fromEntries((complaint.items || []).map(item => [item.id, item.stock_action || 'none'])));
+    setNotes(complaint.resolution_notes || '');
+    setPhotoUrls([]);
+
+    try {
+      setPhotoUrls(await getComplaintPhotoUrls(complaint.photo_paths || []));
+    } catch (err: any) {
+      console.error('Error loading complaint photos:', err);
+      toast.error(`${t('admin.photosError')}: ${err.message}`);
+    }
+  };
+
+  const handleIssueCreditNote = async (complaint: Complaint) => {
+    setSaving(true);
+    try {
+      const url = await issueCreditNote(complaint);
+      await loadComplaints();
+      window.open(url, '_blank');
+      toast.success(t('admin.creditNoteIssued'));
+    } catch (err: any) {
+      console.error('Error issuing credit note:', err);
+      toast.error(`${t('admin.creditNoteError')}: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleResolve = async (approve: boolean) => {
+    if (!reviewing) return;
+    if (!approve && !confirm(t('admin.rejectConfirm'))) return;
+
+    setSaving(true);
+    let resolved: Complaint;
+    try {
+      resolved = await resolveComplaint(reviewing.id, approve, stockActions, notes.trim());
+      toast.success(t(approve ? 'admin.approved' : 'admin.rejected'));
+      setReviewing(null);
+      await loadComplaints();
+    } catch (err: any) {
+      console.error('Error resolving complaint:', err);
+      if (isComplaintResolved(err)) {
+        toast.error(t('admin.alreadyResolved'));
+        setReviewing(null);
+        await loadComplaints();
+      } else {
+        toast.error(`${t('admin.resolveError')}: ${err.message}`);
+      }
+      return;
+    } finally {
+      setSaving(false);
+    }
+
+    // The complaint stays approved if the credit note fails; it can be issued again from the list
+    if (approve) {
+      await handleIssueCreditNote(resolved);
+    }
+  };
+
+  if (loading) {
+    return <Loading />;
+  }
+
+  return (
+    <RouteProtection>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="bg-white/80 backdrop-blur-lg rounded-lg shadow-2xl border border-white/20 p-4 lg:p-6">
+          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between">
+            <div>
+              <h1 className="text-xl lg:text-xl font-bold bg-gradient-to-r from-emerald-600 to-teal-600 bg-clip-text text-transparent">
+                {t('admin.title')}
+              </h1>
+              <p className="mt-1 text-gray-600 text-base">{t('admin.subtitle')}</p>
+            </div>
+            <div className="mt-4 lg:mt-0">
+              <select
+                className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                value={statusFilter}
+                onChange={e => setStatusFilter(e.target.value as ComplaintStatus | '')}
+              >
+                <option value="">{t('admin.allStatuses')}</option>
+                {(Object.keys(statusStyles) as ComplaintStatus[]).map(status => (
+                  <option key={status} value={status}>{t(`status.${status}`)}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+
+        {complaints.length === 0 ? (
+          <div className="bg-white/80 backdrop-blur-lg rounded-lg shadow-2xl border border-white/20 p-8 text-center text-sm text-gray-500">
+            {t('admin.empty')}
+          </div>
+        ) : (
+          complaints.map(complaint => (
+            <div key={complaint.id} className="bg-white/80 backdrop-blur-lg rounded-lg shadow-2xl border border-white/20 overflow-hidden">
+              <div className="p-4 border-b border-gray-100 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <h3 className="text-lg font-semibold text-gray-900">{complaint.customer?.name || complaint.customer?.email}</h3>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusStyles[complaint.status]}`}>
+                      {t(`status.${complaint.status}`)}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {t('orderNumber', { order: complaint.order_id.substring(0, 8) })}
+                    {complaint.created_at && ` · ${t('openedOn', { date: new Date(complaint.created_at).toLocaleDateString() })}`}
+                    {complaint.resolved_at && ` · ${t('admin.resolvedOn', { date: new Date(complaint.resolved_at).toLocaleDateString() })}`}
+                    {complaint.photo_paths.length > 0 && ` · ${t('admin.photoCount', { count: complaint.photo_paths.length })}`}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {complaint.status === 'open' && (
+                    <button
+                      onClick={() => openReview(complaint)}
+                      className="px-3 py-1 bg-emerald-100 text-emerald-700 rounded-lg hover:bg-emerald-200 transition-colors font-medium text-xs"
+                      disabled={saving}
+                    >
+                      {t('admin.review')}
+                    </button>
+                  )}
+                  {complaint.status === 'approved' && (
+                    <button
+                      onClick={() => handleIssueCreditNote(complaint)}
+                      className="px-3 py-1 bg-purple-100 text-purple-700 rounded-lg hover:bg-purple-200 transition-colors font-medium text-xs"
+                      disabled={saving}
+                    >
+                      {complaint.credit_note_id ? t('admin.downloadCreditNote') : t('admin.issueCreditNote')}
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-100 text-sm">
+                  <thead className="bg-gradient-to-r from-emerald-50 to-teal-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">{t('admin.product')}</th>
+                      <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">{t('admin.reason')}</th>
+                      <th className="px-4 py-2 text-right text-xs font-semibold text-gray-700 uppercase">{t('admin.quantity')}</th>
+                      {complaint.status === 'approved' && (
+                        <>
+                          <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">{t('admin.stockAction')}</th>
+                          <th className="px-4 py-2 text-right text-xs font-semibold text-gray-700 uppercase">{t('admin.credit')}</th>
+                        </>
+                      )}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {(complaint.items || []).map(item => (
+                      <tr key={item.id}>
+                        <td className="px-4 py-2">
+                          <div className="font-medium text-gray-900">{item.order_item?.product?.name_en}</div>
+                          <div className="text-xs text-gray-500">{item.order_item?.product?.sku}</div>
+                        </td>
+                        <td className="px-4 py-2 text-gray-600">{t(`reasons.${item.reason}`)}</td>
+                        <td className="px-4 py-2 text-right">
+                          {item.quantity}
+                          <span className="ml-1 text-xs text-gray-500">{item.order_item?.pack?.name || item.order_item?.product?.unit}</span>
+                        </td>
+                        {complaint.status === 'approved' && (
+                          <>
+                            <td className="px-4 py-2 text-gray-600">{t(`admin.stockActions.${item.stock_action || 'none'}`)}</td>
+                            <td className="px-4 py-2 text-right text-gray-900">{formatCurrency(item.credit_amount ?? 0)}</td>
+                          </>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {(complaint.description || complaint.resolution_notes || complaint.status === 'approved') && (
+                <div className="px-4 py-3 border-t border-gray-100 text-sm space-y-1">
+                  {complaint.description && <p className="text-gray-600">{complaint.description}</p>}
+                  {complaint.resolution_notes && (
+                    <p className="text-gray-600"><span className="font-medium">{t('resolutionNotes')}:</span> {complaint.resolution_notes}</p>
+                  )}
+                  {complaint.status === 'approved' && (
+                    <p className="text-right font-semibold text-gray-900">{t('admin.totalCredit')}: {formatCurrency(complaint.credit_amount ?? 0)}</p>
+                  )}
+                </div>
+              )}
+            </div>
+          ))
+        )}
+
+        {/* Review Form */}
+        {reviewing && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-30">
+            <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl p-6 relative animate-fadeIn max-h-[90vh] overflow-y-auto">
+              <button
+                className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 text-2xl"
+                onClick={() => setReviewing(null)}
+                disabled={saving}
+              >
+                &times;
+              </button>
+              <h2 className="text-xl font-bold mb-1">
+                {t('admin.reviewTitle', { customer: reviewing.customer?.name || reviewing.customer?.email || '' })}
+              </h2>
+              <p className="text-gray-500 mb-4 text-sm">{t('admin.reviewHelp')}</p>
+
+              {reviewing.description && (
+                <p className="mb-4 text-sm text-gray-700 bg-gray-50 rounded-lg p-3">{reviewing.description}</p>
+              )}
+
+              {photoUrls.length > 0 && (
+                <div className="mb-4 grid grid-cols-2 sm:grid-cols-3 gap-2">
+                  {photoUrls.map(url => (
+                    <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                      <img src={url} alt={t('admin.photo')} className="h-32 w-full object-cover rounded-lg border border-gray-200" />
+                    </a>
+                  ))}
+                </div>
+              )}
+
+              <div className="space-y-3">
+                {(reviewing.items || []).map(item => (
+                  <div key={item.id} className="grid grid-cols-1 sm:grid-cols-3 gap-2 items-center bg-gray-50 rounded-lg p-3">
+                    <div className="sm:col-span-2">
+                      <div className="font-medium text-sm text-gray-900">{item.order_item?.product?.name_en}</div>
+                      <div className="text-xs text-gray-500">
+                        {item.quantity} {item.order_item?.pack?.name || item.order_item?.product?.unit} · {t(`reasons.${item.reason}`)}
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-500">{t('admin.stockAction')}</label>
+                      <select
+                        className="block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                        value={stockActions[item.id] ?? 'none'}
+                        onChange={e => setStockActions(prev => ({ ...prev, [item.id]: e.target.value as ComplaintStockAction }))}
+                        disabled={saving}
+                      >
+                        {STOCK_ACTIONS.map(action => (
+                          <option key={action} value={action}>{t(`admin.stockActions.${action}`)}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                ))}
+
+                <div>
+                  <label className="block text-xs text-gray-500">{t('resolutionNotes')}</label>
+                  <textarea
+                    className="block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                    rows={3}
+                    value={notes}
+                    onChange={e => setNotes(e.target.value)}
+                    placeholder={t('admin.notesPlaceholder')}
+                    disabled={saving}
+                  />
+                </div>
+
+                <div className="flex justify-end space-x-2 pt-2">
+                  <button
+                    type="button"
+                    className="px-4 py-2 rounded border border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+                    onClick={() => setReviewing(null)}
+                    disabled={saving}
+                  >
+                    {t('admin.cancel')}
+                  </button>
+                  <button
+                    type="button"
+                    className="px-4 py-2 rounded bg-red-600 text-white font-semibold hover:bg-red-700 disabled:bg-red-300"
+                    onClick={() => handleResolve(false)}
+                    disabled={saving}
+                  >
+                    {t('admin.reject')}
+                  </button>
+                  <button
+                    type="button"
+                    className="px-4 py-2 rounded bg-green-600 text-white font-semibold hover:bg-green-700 disabled:bg-green-300"
+                    onClick={() => handleResolve(true)}
+                    disabled={saving}
+                  >
+                    {saving ? t('admin.saving') : t('admin.approve')}
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </RouteProtection>
+  );
+}
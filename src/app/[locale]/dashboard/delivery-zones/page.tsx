@@ -0,0 +1,441 @@
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'react-toastify';
+import RouteProtection from '../../../components/RouteProtection';
+import Loading from '@/app/components/Loading';
+import Switch from '@/app/components/Switch';
+import {
+  DeliveryZone,
+  getDeliveryZones,
+  createDeliveryZone,
+  updateDeliveryZone,
+  deleteDeliveryZone,
+  findDeliveryZone,
+  parsePostcodeRanges,
+  parseZoneBoundary
+} from '../../../lib/delivery-zone-api';
+
+const emptyForm = {
+  name: '',
+  postcode_ranges: '',
+  boundary: '',
+  delivery_days: [] as number[],
+  order_cutoff_time: '',
+  min_order_value: '0',
+  delivery_fee: '0',
+  sort_order: '0',
+  is_active: true
+};
+
+const WEEKDAYS = [1, 2, 3, 4, 5, 6, 0];
+
+export default function DeliveryZonesPage() {
+  const t = useTranslations('deliveryZones');
+  const tSettings = useTranslations('settings');
+  const [zones, setZones] = useState<DeliveryZone[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // Zone form
+  const [isFormOpen, setFormOpen] = useState(false);
+  const [editingZone, setEditingZone] = useState<DeliveryZone | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  // Postcode lookup, to check which zone an address ends up in
+  const [testPostcode, setTestPostcode] = useState('');
+
+  const inputClass = 'mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm';
+
+  const weekdayName = (day: number) =>
+    tSettings(['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'][day]);
+
+  const loadZones = async () => {
+    setZones(await getDeliveryZones());
+  };
+
+  useEffect(() => {
+    async function loadData() {
+      try {
+        setLoading(true);
+        await loadZones();
+      } catch (err: any) {
+        console.error('Error loading delivery zones:', err);
+        toast.error(`${t('loadError')}: ${err.message}`);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadData();
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const openForm = (zone: DeliveryZone | null) => {
+    setEditingZone(zone);
+    setFormData(zone ? {
+      name: zone.name,
+      postcode_ranges: zone.postcode_ranges.join(', '),
+      boundary: (zone.boundary || []).map(([latitude, longitude]) => `${latitude}, ${longitude}`).join('\n'),
+      delivery_days: zone.delivery_days || [],
+      order_cutoff_time: zone.order_cutoff_time || '',
+      min_order_value: zone.min_order_value.toString(),
+      delivery_fee: zone.delivery_fee.toString(),
+      sort_order: zone.sort_order.toString(),
+      is_active: zone.is_active
+    } : emptyForm);
+    setFormOpen(true);
+  };
+
+  const handleSubmitZone = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast.error(t('nameRequired'));
+      return;
+    }
+
+    const postcodeRanges = parsePostcodeRanges(formData.postcode_ranges);
+    const boundary = formData.boundary.trim() ? parseZoneBoundary(formData.boundary) : undefined;
+
+    if (boundary === null || (boundary && boundary.length < 3)) {
+      toast.error(t('invalidBoundary'));
+      return;
+    }
+    if (postcodeRanges.length === 0 && !boundary) {
+      toast.error(t('areaRequired'));
+      return;
+    }
+
+    const minOrderValue = parseFloat(formData.min_order_value) || 0;
+    const deliveryFee = parseFloat(formData.delivery_fee) || 0;
+    if (minOrderValue < 0 || deliveryFee < 0) {
+      toast.error(t('invalidAmount'));
+      return;
+    }
+
+    const zoneData = {
+      name: formData.name.trim(),
+      postcode_ranges: postcodeRanges,
+      boundary,
+      delivery_days: formData.delivery_days.length > 0 ? formData.delivery_days : undefined,
+      order_cutoff_time: formData.order_cutoff_time || undefined,
+      min_order_value: minOrderValue,
+      delivery_fee: deliveryFee,
+      sort_order: parseInt(formData.sort_order) || 0,
+      is_active: formData.is_active
+    };
+
+    setSaving(true);
+    try {
+      if (editingZone) {
+        // Cleared fields are stored as null so the zone falls back to the settings again
+        await updateDeliveryZone(editingZone.id, {
+          ...zoneData,
+          boundary: zoneData.boundary ?? null,
+          delivery_days: zoneData.delivery_days ?? null,
+          order_cutoff_time: zoneData.order_cutoff_time ?? null
+        });
+        toast.success(t('updateSuccess'));
+      } else {
+        await createDeliveryZone(zoneData);
+        toast.success(t('createSuccess'));
+      }
+      await loadZones();
+      setFormOpen(false);
+    } catch (err: any) {
+      console.error('Error saving delivery zone:', err);
+      toast.error(`${t('saveError')}: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteZone = async (zone: DeliveryZone) => {
+    if (!confirm(t('deleteConfirm', { name: zone.name }))) return;
+
+    setSaving(true);
+    try {
+      await deleteDeliveryZone(zone.id);
+      toast.success(t('deleteSuccess'));
+      await loadZones();
+    } catch (err: any) {
+      console.error('Error deleting delivery zone:', err);
+      toast.error(`${t('deleteError')}: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleDay = (day: number) => {
+    setFormData(prev => ({
+      ...prev,
+      delivery_days: prev.delivery_days.includes(day)
+        ? prev.delivery_days.filter(d => d !== day)
+        : [...prev.delivery_days, day].sort((a, b) => a - b)
+    }));
+  };
+
+  if (loading) {
+    return <Loading />;
+  }
+
+  const testZone = testPostcode.trim() ? findDeliveryZone(zones, { postcode: testPostcode }) : undefined;
+
+  return (
+    <RouteProtection>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="bg-white/80 backdrop-blur-lg rounded-lg shadow-2xl border border-white/20 p-4 lg:p-6">
+          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between">
+            <div>
+              <h1 className="text-xl lg:text-xl font-bold bg-gradient-to-r from-emerald-600 to-teal-600 bg-clip-text text-transparent">
+                {t('title')}
+              </h1>
+              <p className="mt-1 text-gray-600 text-base">{t('subtitle')}</p>
+            </div>
+            <div className="mt-4 lg:mt-0">
+              <button
+                onClick={() => openForm(null)}
+                className="px-4 py-2 bg-gradient-to-r from-emerald-500 to-teal-600 text-white rounded-lg hover:from-emerald-600 hover:to-teal-700 transition-all duration-200 shadow-lg hover:shadow-xl font-medium flex items-center space-x-2 text-sm"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                </svg>
+                <span>{t('newZone')}</span>
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Zones */}
+        <div className="bg-white/80 backdrop-blur-lg rounded-lg shadow-2xl border border-white/20 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-100 text-sm">
+              <thead className="bg-gradient-to-r from-emerald-50 to-teal-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">{t('name')}</th>
+                  <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">{t('area')}</th>
+                  <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">{t('schedule')}</th>
+                  <th className="px-4 py-2 text-right text-xs font-semibold text-gray-700 uppercase">{t('minOrderValue')}</th>
+                  <th className="px-4 py-2 text-right text-xs font-semibold text-gray-700 uppercase">{t('deliveryFee')}</th>
+                  <th className="px-4 py-2 text-right text-xs font-semibold text-gray-700 uppercase">{t('actions')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {zones.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-6 text-center text-gray-500">{t('empty')}</td>
+                  </tr>
+                )}
+                {zones.map(zone => (
+                  <tr key={zone.id} className={zone.is_active ? '' : 'opacity-50'}>
+                    <td className="px-4 py-2">
+                      <div className="font-medium text-gray-900">{zone.name}</div>
+                      {!zone.is_active && <div className="text-xs text-gray-500">{t('inactive')}</div>}
+                    </td>
+                    <td className="px-4 py-2 text-gray-600">
+                      {zone.postcode_ranges.length > 0 && <div>{zone.postcode_ranges.join(', ')}</div>}
+                      {zone.boundary && (
+                        <div className="text-xs text-gray-500">{t('boundaryPoints', { count: zone.boundary.length })}</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-gray-600">
+                      <div>
+                        {zone.delivery_days?.length
+                          ? WEEKDAYS.filter(day => zone.delivery_days?.includes(day)).map(weekdayName).join(', ')
+                          : t('defaultDays')}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {t('cutoff', { time: zone.order_cutoff_time || t('defaultCutoff') })}
+                      </div>
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-900">{zone.min_order_value.toFixed(2)}</td>
+                    <td className="px-4 py-2 text-right text-gray-900">{zone.delivery_fee.toFixed(2)}</td>
+                    <td className="px-4 py-2 text-right whitespace-nowrap">
+                      <button
+                        onClick={() => openForm(zone)}
+                        className="px-3 py-1 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors font-medium text-xs mr-2"
+                        disabled={saving}
+                      >
+                        {t('edit')}
+                      </button>
+                      <button
+                        onClick={() => handleDeleteZone(zone)}
+                        className="px-3 py-1 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors font-medium text-xs"
+                        disabled={saving}
+                      >
+                        {t('delete')}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Postcode Lookup */}
+          <div className="p-4 border-t border-gray-100 flex flex-col sm:flex-row sm:items-center gap-3">
+            <label className="text-sm font-medium text-gray-700">{t('testPostcode')}</label>
+            <input
+              type="text"
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm sm:w-40"
+              value={testPostcode}
+              onChange={e => setTestPostcode(e.target.value)}
+            />
+            {testPostcode.trim() && (
+              <span className="text-sm text-gray-600">
+                {testZone ? t('testResult', { zone: testZone.name }) : t('testNoZone')}
+              </span>
+            )}
+          </div>
+        </div>
+
+        {/* Zone Form */}
+        {isFormOpen && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-30">
+            <div className="bg-white rounded-xl shadow-xl w-full max-w-lg p-6 relative animate-fadeIn max-h-[90vh] overflow-y-auto">
+              <button
+                className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 text-2xl"
+                onClick={() => setFormOpen(false)}
+                disabled={saving}
+              >
+                &times;
+              </button>
+              <h2 className="text-xl font-bold mb-4">{editingZone ? t('editZone') : t('newZone')}</h2>
+              <form onSubmit={handleSubmitZone} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">{t('name')}</label>
+                  <input
+                    type="text"
+                    className={inputClass}
+                    value={formData.name}
+                    onChange={e => setFormData({ ...formData, name: e.target.value })}
+                    required
+                    disabled={saving}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">{t('postcodeRanges')}</label>
+                  <input
+                    type="text"
+                    className={inputClass}
+                    value={formData.postcode_ranges}
+                    onChange={e => setFormData({ ...formData, postcode_ranges: e.target.value })}
+                    placeholder="10115-10999, 20095"
+                    disabled={saving}
+                  />
+                  <p className="mt-1 text-xs text-gray-500">{t('postcodeRangesHelp')}</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">{t('boundary')}</label>
+                  <textarea
+                    className={`${inputClass} font-mono`}
+                    rows={4}
+                    value={formData.boundary}
+                    onChange={e => setFormData({ ...formData, boundary: e.target.value })}
+                    placeholder={'52.5200, 13.4050\n52.5300, 13.4500\n52.4900, 13.4300'}
+                    disabled={saving}
+                  />
+                  <p className="mt-1 text-xs text-gray-500">{t('boundaryHelp')}</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">{t('deliveryDays')}</label>
+                  <div className="mt-1 flex flex-wrap gap-3">
+                    {WEEKDAYS.map(day => (
+                      <label key={day} className="flex items-center text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={formData.delivery_days.includes(day)}
+                          onChange={() => toggleDay(day)}
+                          className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
+                          disabled={saving}
+                        />
+                        <span className="ml-1">{weekdayName(day)}</span>
+                      </label>
+                    ))}
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500">{t('deliveryDaysHelp')}</p>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">{t('orderCutoffTime')}</label>
+                    <input
+                      type="time"
+                      className={inputClass}
+                      value={formData.order_cutoff_time}
+                      onChange={e => setFormData({ ...formData, order_cutoff_time: e.target.value })}
+                      disabled={saving}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">{t('sortOrder')}</label>
+                    <input
+                      type="number"
+                      className={inputClass}
+                      value={formData.sort_order}
+                      onChange={e => setFormData({ ...formData, sort_order: e.target.value })}
+                      disabled={saving}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">{t('minOrderValue')}</label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      className={inputClass}
+                      value={formData.min_order_value}
+                      onChange={e => setFormData({ ...formData, min_order_value: e.target.value })}
+                      disabled={saving}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">{t('deliveryFee')}</label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      className={inputClass}
+                      value={formData.delivery_fee}
+                      onChange={e => setFormData({ ...formData, delivery_fee: e.target.value })}
+                      disabled={saving}
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center justify-between bg-gray-50 rounded-lg p-3">
+                  <div>
+                    <span className="block font-medium text-sm">{t('active')}</span>
+                    <span className="block text-xs text-gray-400">{t('activeHelp')}</span>
+                  </div>
+                  <Switch
+                    checked={formData.is_active}
+                    onChange={() => setFormData({ ...formData, is_active: !formData.is_active })}
+                    size="sm"
+                  />
+                </div>
+                <div className="flex justify-end space-x-2 pt-2">
+                  <button
+                    type="button"
+                    className="px-4 py-2 rounded border border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+                    onClick={() => setFormOpen(false)}
+                    disabled={saving}
+                  >
+                    {t('cancel')}
+                  </button>
+                  <button
+                    type="submit"
+                    className="px-4 py-2 rounded bg-green-600 text-white font-semibold hover:bg-green-700 disabled:bg-green-300"
+                    disabled={saving}
+                  >
+                    {saving ? t('saving') : t('save')}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        )}
+      </div>
+    </RouteProtection>
+  );
+}
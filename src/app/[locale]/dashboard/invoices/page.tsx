@@ -182,9 +182,9 @@ export default function InvoicesPage() {
     }
   };
 
-  const handleDownload = async (path: string, fileName: string) => {
+  const handleDownload = async (path: string, fileName: string, bucket?: string) => {
     try {
-      await downloadInvoice(path, fileName);
+      await downloadInvoice(path, fileName, bucket);
     } catch (err) {
       console.error('Error downloading file:', err);
       toast.error(t('downloadError'));
@@ -244,7 +244,7 @@ export default function InvoicesPage() {
       
       // Get the PDF URL from Supabase storage
       const { data, error } = await supabase.storage
-        .from('products')
+        .from(invoice.bucket || 'products')
         .createSignedUrl(invoice.path, 60 * 60); // URL valid for 1 hour
 
       if (error) throw error;
@@ -400,6 +400,10 @@ export default function InvoicesPage() {
                     </div>
 
                     <div className="grid grid-cols-2 gap-3 text-xs text-gray-600">
+                      <div>
+                        <span className="font-medium">{t('labels.invoiceNumber')}:</span> {invoice.invoice_number || '-'}
+                        {invoice.credit_note_for && <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-purple-100 text-purple-700">{t('labels.creditNote')}</span>}
+                      </div>
                       <div>
                         <span className="font-medium">Date:</span> {new Date(invoice.created_at).toLocaleDateString()}
                       </div>
@@ -416,7 +420,7 @@ export default function InvoicesPage() {
                         {t('actions.preview')}
                       </button>
                       <button
-                        onClick={() => handleDownload(invoice.path, `invoice-${invoice.id}.pdf`)}
+                        onClick={() => handleDownload(invoice.path, `${invoice.invoice_number || `invoice-${invoice.id}`}.pdf`, invoice.bucket)}
                         className="px-3 py-1 bg-emerald-100 text-emerald-700 rounded-lg hover:bg-emerald-200 transition-colors font-medium text-xs"
                       >
                         {t('actions.download')}
@@ -453,6 +457,9 @@ export default function InvoicesPage() {
           <table className="min-w-full divide-y divide-gray-100">
             <thead className="bg-gradient-to-r from-emerald-50 to-teal-50">
               <tr>
+                <th className="px-6 py-2 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                  {t('labels.invoiceNumber')}
+                </th>
                 <th
                   className="px-6 py-2 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider cursor-pointer hover:bg-emerald-100 transition-colors duration-200"
                   onClick={() => handleSort('created_at')}
@@ -504,6 +511,10 @@ export default function InvoicesPage() {
               {invoices.length > 0 ? (
                 invoices.map((invoice) => (
                   <tr key={invoice.id} className="hover:bg-emerald-50/50 transition-colors duration-200">
+                    <td className="px-6 py-2 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {invoice.invoice_number || '-'}
+                      {invoice.credit_note_for && <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-purple-100 text-purple-700">{t('labels.creditNote')}</span>}
+                    </td>
                     <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-900">
                       {new Date(invoice.created_at).toLocaleDateString()}
                     </td>
@@ -536,7 +547,7 @@ export default function InvoicesPage() {
                           </svg>
                         </button>
                         <button
-                          onClick={() => handleDownload(invoice.path, `invoice-${invoice.id}.pdf`)}
+                          onClick={() => handleDownload(invoice.path, `${invoice.invoice_number || `invoice-${invoice.id}`}.pdf`, invoice.bucket)}
                           className="text-emerald-600 hover:text-emerald-900 p-2 hover:bg-emerald-50 rounded-lg transition-colors"
                           title={t('actions.download')}
                         >
@@ -568,7 +579,7 @@ export default function InvoicesPage() {
                 ))
               ) : (
                 <tr>
-                  <td colSpan={5} className="px-6 py-12 text-center">
+                  <td colSpan={6} className="px-6 py-12 text-center">
                     <div className="flex flex-col items-center">
                       <svg className="w-16 h-16 text-gray-400 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
@@ -47,6 +47,16 @@ export default function DashboardLayout({
         </svg>
       )
     },
+    {
+      name: t('navigation.priceLists'),
+      href: `${pathname?.split('/').slice(0, 3).join('/')}/price-lists` || '/dashboard/price-lists',
+      enabled: appSettings?.enable_products !== false,
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+        </svg>
+      )
+    },
     {
       name: t('navigation.orders'),
       href: `${pathname?.split('/').slice(0, 3).join('/')}/orders` || '/dashboard/orders',
@@ -67,6 +77,26 @@ export default function DashboardLayout({
         </svg>
       )
     },
+    {
+      name: t('navigation.purchaseOrders'),
+      href: `${pathname?.split('/').slice(0, 3).join('/')}/purchase-orders` || '/dashboard/purchase-orders',
+      enabled: appSettings?.enable_order_summary !== false,
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3h2l.4 2M7 13h10l4-8H5.4M7 13L5.4 5M7 13l-2.293 2.293c-.63.63-.184 1.707.707 1.707H17m0 0a2 2 0 100 4 2 2 0 000-4zm-8 2a2 2 0 11-4 0 2 2 0 014 0z" />
+        </svg>
+      )
+    },
+    {
+      name: t('navigation.suppliers'),
+      href: `${pathname?.split('/').slice(0, 3).join('/')}/suppliers` || '/dashboard/suppliers',
+      enabled: appSettings?.enable_products !== false,
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16V6a1 1 0 00-1-1H4a1 1 0 00-1 1v10a1 1 0 001 1h1m8-1a1 1 0 01-1 1H9m4-1V8a1 1 0 011-1h2.586a1 1 0 01.707.293l3.414 3.414a1 1 0 01.293.707V16a1 1 0 01-1 1h-1m-6-1a1 1 0 001 1h1M5 17a2 2 0 104 0m-4 0a2 2 0 114 0m6 0a2 2 0 104 0m-4 0a2 2 0 114 0" />
+        </svg>
+      )
+    },
     {
       name: t('navigation.users'),
       href: `${pathname?.split('/').slice(0, 3).join('/')}/users` || '/dashboard/users',
@@ -87,6 +117,16 @@ export default function DashboardLayout({
         </svg>
       )
     },
+    {
+      name: t('navigation.deliveryZones'),
+      href: `${pathname?.split('/').slice(0, 3).join('/')}/delivery-zones` || '/dashboard/delivery-zones',
+      enabled: appSettings?.enable_settings !== false,
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
+        </svg>
+      )
+    },
     {
       name: t('navigation.settings'),
       href: `${pathname?.split('/').slice(0, 3).join('/')}/settings` || '/dashboard/settings',
@@ -117,6 +157,26 @@ export default function DashboardLayout({
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17h6m-6-4h6m-7 8l-2 2-2-2-2 2-2-2V5a2 2 0 012-2h14a2 2 0 012 2v16l-2-2-2 2-2-2-2 2-2-2z" />
         </svg>
       )
+    },
+    {
+      name: t('navigation.complaints'),
+      href: `${pathname?.split('/').slice(0, 3).join('/')}/complaints` || '/dashboard/complaints',
+      enabled: appSettings?.enable_orders !== false,
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+        </svg>
+      )
+    },
+    {
+      name: t('navigation.businesses'),
+      href: `${pathname?.split('/').slice(0, 3).join('/')}/businesses` || '/dashboard/businesses',
+      enabled: appSettings?.enable_orders !== false,
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />
+        </svg>
+      )
     }
   ].filter(item => item.enabled); // Filter out disabled menu items
 
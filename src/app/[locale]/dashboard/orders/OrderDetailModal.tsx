@@ -1,48 +1,46 @@
 import { useState, useRef, useEffect } from 'react';
-import { Order, OrderItem } from '../../../lib/order-api';
+import { Order, OrderItem, OrderLineInput, OrderStatusHistoryEntry, getOrderStatusHistory, getOrderItemTotal, getOrderEditDeadline, isPickingStarted } from '../../../lib/order-api';
 import { AppSettings, getAppSettings, SUPPORTED_CURRENCIES } from '../../../lib/settings-api';
-import { getUserById } from '../../../lib/users-api';
+import { User, getUserById } from '../../../lib/users-api';
+import { getPackSku } from '../../../lib/product-api';
+import { formatDeliveryWindow } from '../../../lib/delivery-slot-api';
 import { useTranslations } from 'next-intl';
+import CatchWeightInput from '../../../components/CatchWeightInput';
+import OrderItemsEditor from '../../../components/OrderItemsEditor';
+import FulfilledQuantityInput from '../../../components/FulfilledQuantityInput';
+import SubstitutionForm from './SubstitutionForm';
 
 interface OrderDetailModalProps {
   order: Order | null;
   onClose: () => void;
+  onRecordActualQuantity?: (itemId: string, actualQuantity: number | null) => Promise<void>;
+  onUpdateItems?: (orderId: string, items: OrderLineInput[]) => Promise<void>;
+  onRecordFulfilledQuantity?: (itemId: string, fulfilledQuantity: number | null) => Promise<void>;
+  onSubstitute?: (itemId: string, substitute: OrderLineInput) => Promise<void>;
+  onRespondToSubstitution?: (itemId: string, accept: boolean) => Promise<void>;
 }
 
 
-// Driver interface
-interface Driver {
-  id: string;
-  email?: string;
-  name?: string;
-  phone?: string;
-  role: string;
-}
-
-// Ensure type safety with product info
-interface OrderItemWithProduct extends OrderItem {
-  product?: {
-    id: string;
-    name_en: string;
-    name_vi?: string;
-    name_tr?: string;
-    description?: string;
-    price: number;
-    unit: string;
-    sku: string;
-    image_url?: string;
-    category?: string;
-    is_active: boolean;
-    stock: number;
-  };
-}
-
-export default function OrderDetailModal({ order, onClose }: OrderDetailModalProps) {
+export default function OrderDetailModal({
+  order,
+  onClose,
+  onRecordActualQuantity,
+  onUpdateItems,
+  onRecordFulfilledQuantity,
+  onSubstitute,
+  onRespondToSubstitution
+}: OrderDetailModalProps) {
   const t = useTranslations('orders');
   const [activeTab, setActiveTab] = useState<'details' | 'invoice'>('details');
   const [appSettings, setAppSettings] = useState<AppSettings | null>(null);
-  const [driver, setDriver] = useState<Driver | null>(null);
+  const [driver, setDriver] = useState<User | null>(null);
   const [isLoadingDriver, setIsLoadingDriver] = useState(false);
+  const [statusHistory, setStatusHistory] = useState<OrderStatusHistoryEntry[]>([]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [editDeadline, setEditDeadline] = useState<Date | null>(null);
+  const [isEditingItems, setIsEditingItems] = useState(false);
+  const [substitutingItemId, setSubstitutingItemId] = useState<string | null>(null);
+  const [respondingItemId, setRespondingItemId] = useState<string | null>(null);
 
   // Handle escape key to close modal
   useEffect(() => {
@@ -100,10 +98,172 @@ export default function OrderDetailModal({ order, onClose }: OrderDetailModalPro
     loadDriver();
   }, [order?.assigned_driver_id]);
 
+  // Open orders can be changed until the cutoff before their delivery day
+  useEffect(() => {
+    if (!onUpdateItems || !order?.id || (order.status !== 'pending_approval' && order.status !== 'pending' && order.status !== 'processing')) {
+      setEditDeadline(null);
+      return;
+    }
+
+    getOrderEditDeadline(order.id)
+      .then(setEditDeadline)
+      .catch(() => setEditDeadline(null));
+  }, [order?.id, order?.status]);
+
+  // Load the status history, again whenever the status or the lines change
+  useEffect(() => {
+    async function loadStatusHistory() {
+      if (!order?.id) {
+        setStatusHistory([]);
+        return;
+      }
+
+      setIsLoadingHistory(true);
+      try {
+        const history = await getOrderStatusHistory(order.id);
+        setStatusHistory(history);
+      } catch (error) {
+        console.error('Error loading order status history:', error);
+        setStatusHistory([]);
+      } finally {
+        setIsLoadingHistory(false);
+      }
+    }
+
+    loadStatusHistory();
+  }, [order?.id, order?.status, order?.total_amount]);
+
   if (!order) return null;
 
-  // Cast items to our extended type to ensure type safety
-  const orderItemsExtended = order.items as OrderItemWithProduct[];
+  const orderItemsExtended = order.items;
+
+  // Catch-weight lines are weighed while the order is packed, up to delivery
+  const canRecordWeights = !!onRecordActualQuantity && (order.status === 'pending' || order.status === 'processing');
+
+  // Once picking has short-picked or substituted a line, the lines are picking's to change
+  const canEditItems = !!onUpdateItems && order.stock_status === 'reserved' && !isPickingStarted(order)
+    && !!editDeadline && editDeadline > new Date();
+
+  // Short picks and substitutions are recorded while stock is still reserved for the order
+  const canPick = (order.status === 'pending' || order.status === 'processing') && order.stock_status === 'reserved';
+  const substitutionPreference = order.customer?.substitution_preference || 'allow';
+
+  const handleUpdateItems = async (items: OrderLineInput[]) => {
+    await onUpdateItems!(order.id!, items);
+    setIsEditingItems(false);
+  };
+
+  const handleSubstitute = async (itemId: string, substitute: OrderLineInput) => {
+    await onSubstitute!(itemId, substitute);
+    setSubstitutingItemId(null);
+  };
+
+  const handleRespondToSubstitution = async (itemId: string, accept: boolean) => {
+    setRespondingItemId(itemId);
+    try {
+      await onRespondToSubstitution!(itemId, accept);
+    } finally {
+      setRespondingItemId(null);
+    }
+  };
+
+  const getSubstitutionBadge = (status: string) => {
+    const baseClasses = "ml-2 px-2 py-0.5 text-xs font-medium rounded-full";
+    switch (status) {
+      case 'proposed':
+        return `${baseClasses} bg-amber-100 text-amber-800`;
+      case 'accepted':
+        return `${baseClasses} bg-emerald-100 text-emerald-800`;
+      default:
+        return `${baseClasses} bg-gray-100 text-gray-600`;
+    }
+  };
+
+  // Substitute lines name the line they replace; open substitutes can be declined for the customer
+  const renderSubstitution = (item: OrderItem) => {
+    if (!item.substitute_for || !item.substitution_status) return null;
+
+    const replaced = order.items.find(other => other.id === item.substitute_for);
+    const canDecline = canPick && !!onRespondToSubstitution && item.substitution_status !== 'declined';
+
+    return (
+      <div className="text-xs text-gray-500">
+        {t('substitution.substituteFor', { product: replaced ? getProductName(replaced) : item.substitute_for })}
+        <span className={getSubstitutionBadge(item.substitution_status)}>
+          {t(`substitution.${item.substitution_status}`)}
+        </span>
+        {canDecline && (
+          <button
+            onClick={() => handleRespondToSubstitution(item.id!, false)}
+            disabled={respondingItemId === item.id}
+            className="ml-2 text-red-600 hover:text-red-800"
+          >
+            {t('substitution.remove')}
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  // Lines that could not be picked in full record what was picked and may get a substitute
+  const renderFulfilment = (item: OrderItem) => {
+    if (item.substitute_for || item.product?.is_catch_weight) return null;
+
+    const unit = item.pack?.name || item.product?.unit || '';
+    const canSubstitute = canPick && !!onSubstitute && item.fulfilled_quantity != null
+      && item.fulfilled_quantity < item.quantity && substitutionPreference !== 'never';
+
+    return (
+      <>
+        {canPick && onRecordFulfilledQuantity && item.id ? (
+          <FulfilledQuantityInput
+            item={item}
+            unit={unit}
+            onSave={fulfilledQuantity => onRecordFulfilledQuantity(item.id!, fulfilledQuantity)}
+          />
+        ) : item.fulfilled_quantity != null && (
+          <div className="text-xs text-gray-500">
+            {t('substitution.shortPicked', { quantity: item.fulfilled_quantity, unit })}
+          </div>
+        )}
+        {canSubstitute && substitutingItemId !== item.id && (
+          <button
+            onClick={() => setSubstitutingItemId(item.id!)}
+            className="mt-1 text-xs font-medium text-emerald-700 hover:text-emerald-900"
+          >
+            {t('substitution.substitute')}
+          </button>
+        )}
+        {substitutingItemId === item.id && (
+          <SubstitutionForm
+            item={item}
+            onSubmit={substitute => handleSubstitute(item.id!, substitute)}
+            onCancel={() => setSubstitutingItemId(null)}
+          />
+        )}
+      </>
+    );
+  };
+
+  const renderCatchWeight = (item: OrderItem) => {
+    if (!item.product?.is_catch_weight) return null;
+
+    if (canRecordWeights && item.id) {
+      return (
+        <CatchWeightInput
+          item={item}
+          unit={item.product.unit}
+          onSave={actualQuantity => onRecordActualQuantity!(item.id!, actualQuantity)}
+        />
+      );
+    }
+
+    return item.actual_quantity != null ? (
+      <div className="text-xs text-gray-500">
+        {t('catchWeight.delivered', { quantity: item.actual_quantity, unit: item.product.unit })}
+      </div>
+    ) : null;
+  };
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString();
@@ -112,6 +272,8 @@ export default function OrderDetailModal({ order, onClose }: OrderDetailModalPro
   const getStatusBadge = (status: string) => {
     const baseClasses = "px-3 py-1 inline-flex text-xs leading-5 font-semibold rounded-full";
     switch (status) {
+      case 'pending_approval':
+        return `${baseClasses} bg-orange-100 text-orange-800`;
       case 'pending':
         return `${baseClasses} bg-yellow-100 text-yellow-800`;
       case 'processing':
@@ -126,7 +288,7 @@ export default function OrderDetailModal({ order, onClose }: OrderDetailModalPro
   };
 
   // Get the product name in the appropriate language
-  const getProductName = (item: OrderItemWithProduct): string => {
+  const getProductName = (item: OrderItem): string => {
     if (!item.product) return `Product ID: ${item.product_id}`;
     return item.product.name_en;
   };
@@ -205,8 +367,12 @@ export default function OrderDetailModal({ order, onClose }: OrderDetailModalPro
                   <p className="text-sm"><span className="font-medium">Delivery Date:</span> 
                     <span className={`ml-1 px-2 py-0.5 text-xs font-medium rounded-full`}>
                       {order.delivery_date ? formatDate(order.delivery_date) : 'N/A'}
+                      {order.delivery_window_start && ` ${formatDeliveryWindow(order.delivery_window_start, order.delivery_window_end)}`}
                     </span>
                   </p>
+                  {!!order.delivery_fee && (
+                    <p className="text-sm"><span className="font-medium">Delivery Fee:</span> {currencySymbol}{Number(order.delivery_fee).toFixed(2)}</p>
+                  )}
                 </div>
 
                 <div className="bg-blue-50 rounded-lg p-4">
@@ -229,6 +395,9 @@ export default function OrderDetailModal({ order, onClose }: OrderDetailModalPro
                           <span className="font-medium">Address:</span> {order.customer.address}
                         </p>
                       )}
+                      <p className="text-sm">
+                        <span className="font-medium">{t('substitution.customerPreference')}:</span> {t(`substitution.preferences.${substitutionPreference}`)}
+                      </p>
                     </>
                   ) : (
                     <>
@@ -283,10 +452,31 @@ export default function OrderDetailModal({ order, onClose }: OrderDetailModalPro
 
               {/* Order Items */}
               <div className="bg-purple-50 rounded-lg p-4">
-                <h3 className="text-base font-semibold text-gray-800 mb-3 flex items-center">
-                  🛒 Order Items
-                </h3>
-                {orderItemsExtended.length === 0 ? (
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                  <h3 className="text-base font-semibold text-gray-800 flex items-center">
+                    🛒 Order Items
+                  </h3>
+                  {canEditItems && !isEditingItems && (
+                    <div className="flex items-center gap-3">
+                      <span className="text-xs text-gray-500">
+                        {t('itemsEditor.editableUntil', { deadline: formatDate(editDeadline!.toISOString()) })}
+                      </span>
+                      <button
+                        onClick={() => setIsEditingItems(true)}
+                        className="px-3 py-1 text-xs font-medium text-emerald-700 border border-emerald-300 rounded-lg hover:bg-emerald-50"
+                      >
+                        {t('itemsEditor.editItems')}
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {isEditingItems ? (
+                  <OrderItemsEditor
+                    items={orderItemsExtended}
+                    onSave={handleUpdateItems}
+                    onCancel={() => setIsEditingItems(false)}
+                  />
+                ) : orderItemsExtended.length === 0 ? (
                   <div className="p-8 text-center">
                     <svg className="w-8 h-8 text-gray-400 mx-auto mb-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
@@ -305,20 +495,27 @@ export default function OrderDetailModal({ order, onClose }: OrderDetailModalPro
                                 <h4 className="text-xs font-semibold text-gray-900 truncate">
                                   {getProductName(item)}
                                 </h4>
+                                {renderSubstitution(item)}
                                 {item.product?.sku && (
-                                  <p className="text-xs text-gray-500">SKU: {item.product.sku}</p>
+                                  <p className="text-xs text-gray-500">SKU: {item.pack ? getPackSku(item.product, item.pack) : item.product.sku}</p>
                                 )}
                               </div>
                               <div className="ml-3 text-right">
                                 <div className="text-xs font-bold text-emerald-600">
-                                  ${(item.unit_price * item.quantity).toFixed(2)}
+                                  ${getOrderItemTotal(item).toFixed(2)}
                                 </div>
                               </div>
                             </div>
                             <div className="flex justify-between text-xs text-gray-600">
                               <span>${item.unit_price.toFixed(2)} × {item.quantity} {item.product?.unit}</span>
-                              <span>{t('quantity')}: {item.quantity}</span>
+                              <span>
+                                {t('quantity')}: {item.pack
+                                  ? t('packQuantity', { quantity: item.quantity, pack: item.pack.name, baseQuantity: item.base_quantity ?? item.quantity * item.pack.base_quantity, unit: item.product?.unit || '' })
+                                  : item.quantity}
+                              </span>
                             </div>
+                            {renderCatchWeight(item)}
+                            {renderFulfilment(item)}
                           </div>
                         </div>
                       ))}
@@ -347,16 +544,28 @@ export default function OrderDetailModal({ order, onClose }: OrderDetailModalPro
                                 <div className="text-xs font-semibold text-gray-900">
                                   {getProductName(item)}
                                 </div>
+                                {renderSubstitution(item)}
+                                {item.lots?.map(itemLot => (
+                                  <div key={itemLot.lot_id} className="text-xs text-gray-500">
+                                    {t('lotAllocation', { lot: itemLot.lot?.lot_number || itemLot.lot_id.substring(0, 8), quantity: itemLot.quantity, unit: item.product?.unit || '' })}
+                                  </div>
+                                ))}
                               </td>
                               <td className="px-3 py-2">
                                 <div className="text-xs text-gray-600">
-                                  {item.product?.sku || t('notAvailable')}
+                                  {item.product?.sku
+                                    ? (item.pack ? getPackSku(item.product, item.pack) : item.product.sku)
+                                    : t('notAvailable')}
                                 </div>
                               </td>
                               <td className="px-3 py-2 text-right">
                                 <div className="text-xs font-medium text-gray-900">
-                                  {item.quantity} {item.product?.unit}
+                                  {item.pack
+                                    ? t('packQuantity', { quantity: item.quantity, pack: item.pack.name, baseQuantity: item.base_quantity ?? item.quantity * item.pack.base_quantity, unit: item.product?.unit || '' })
+                                    : `${item.quantity} ${item.product?.unit || ''}`}
                                 </div>
+                                {renderCatchWeight(item)}
+                                {renderFulfilment(item)}
                               </td>
                             </tr>
                           ))}
@@ -366,6 +575,66 @@ export default function OrderDetailModal({ order, onClose }: OrderDetailModalPro
                   </>
                 )}
               </div>
+
+              {/* Status History */}
+              <div className="bg-gray-50 rounded-lg p-4">
+                <h3 className="text-base font-semibold text-gray-800 mb-3 flex items-center">
+                  🕒 {t('statusHistory.title')}
+                </h3>
+                {isLoadingHistory ? (
+                  <p className="text-gray-500 text-xs">{t('statusHistory.loading')}</p>
+                ) : statusHistory.length === 0 ? (
+                  <p className="text-gray-500 text-xs">{t('statusHistory.empty')}</p>
+                ) : (
+                  <ol className="relative border-l border-gray-200 ml-2">
+                    {statusHistory.map((entry) => (
+                      <li key={entry.id} className="mb-4 ml-4 last:mb-0">
+                        <div className="absolute w-3 h-3 bg-emerald-500 rounded-full -left-1.5 mt-1.5 border border-white"></div>
+                        {entry.changes ? (
+                          <div className="text-xs text-gray-700">
+                            <span className="font-semibold">{t('statusHistory.itemsChanged')}</span>
+                            <ul className="mt-1 space-y-0.5">
+                              {entry.changes.items.map((change, index) => (
+                                <li key={index}>
+                                  {t('statusHistory.lineChange', {
+                                    product: change.pack_name ? `${change.product_name} (${change.pack_name})` : change.product_name,
+                                    from: change.from_quantity,
+                                    to: change.to_quantity
+                                  })}
+                                </li>
+                              ))}
+                            </ul>
+                            <p className="mt-1">
+                              {t('statusHistory.totalChange', {
+                                from: `${currencySymbol}${entry.changes.total_before.toFixed(2)}`,
+                                to: `${currencySymbol}${entry.changes.total_after.toFixed(2)}`
+                              })}
+                            </p>
+                          </div>
+                        ) : (
+                        <div className="flex flex-wrap items-center gap-2">
+                          {entry.from_status && (
+                            <>
+                              <span className={getStatusBadge(entry.from_status)}>{t(`status.${entry.from_status}`)}</span>
+                              <span className="text-gray-400 text-xs">→</span>
+                            </>
+                          )}
+                          <span className={getStatusBadge(entry.to_status)}>{t(`status.${entry.to_status}`)}</span>
+                        </div>
+                        )}
+                        <p className="text-xs text-gray-500 mt-1">
+                          {formatDate(entry.created_at)} · {t('statusHistory.by', {
+                            name: entry.user?.name || entry.user?.email || t('statusHistory.system')
+                          })}
+                        </p>
+                        {entry.reason && (
+                          <p className="text-sm text-gray-700 mt-1">{entry.reason}</p>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
             </div>
           </div>
         </div>
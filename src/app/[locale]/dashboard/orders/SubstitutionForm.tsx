@@ -0,0 +1,108 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { OrderItem, OrderLineInput, isSubstitutionRefused } from '../../../lib/order-api';
+import { Product, ProductPack, getStockShortage } from '../../../lib/product-api';
+import ProductPicker from '../../../components/ProductPicker';
+
+interface SubstitutionFormProps {
+  item: OrderItem;
+  onSubmit: (substitute: OrderLineInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Pick a substitute product and quantity for a short-picked order line. The quantity starts at
+ * what is missing when the substitute is sold in the same unit.
+ */
+export default function SubstitutionForm({ item, onSubmit, onCancel }: SubstitutionFormProps) {
+  const t = useTranslations('orders.substitution');
+  const [product, setProduct] = useState<Product | null>(null);
+  const [pack, setPack] = useState<ProductPack | undefined>();
+  const [quantity, setQuantity] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const missing = item.quantity - (item.fulfilled_quantity ?? item.quantity);
+
+  const handleSelect = (selected: Product, selectedPack?: ProductPack) => {
+    setProduct(selected);
+    setPack(selectedPack);
+    setQuantity(!selectedPack && !item.pack_id && selected.unit === item.product?.unit ? missing.toString() : '');
+  };
+
+  const handleSubmit = async () => {
+    const value = parseFloat(quantity);
+    if (!product || isNaN(value) || value <= 0) {
+      setErrorMessage(t('invalidQuantity'));
+      return;
+    }
+
+    setSaving(true);
+    setErrorMessage('');
+    try {
+      await onSubmit({ product_id: product.id, pack_id: pack?.id, quantity: value });
+    } catch (err: any) {
+      console.error('Error substituting order item:', err);
+      const shortage = getStockShortage(err);
+      setErrorMessage(
+        isSubstitutionRefused(err) ? t('refused')
+          : shortage ? t('insufficientStock', { available: shortage.available, product: shortage.product_name })
+          : err.message || t('saveError')
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-2 space-y-2 rounded-lg border border-amber-200 bg-amber-50 p-3 text-xs">
+      {product ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-semibold text-gray-900">
+            {product.name_en}{pack && ` (${pack.name})`}
+          </span>
+          <input
+            type="number"
+            step="any"
+            min="0"
+            value={quantity}
+            onChange={e => setQuantity(e.target.value)}
+            className="w-20 rounded-lg border border-gray-300 px-2 py-1 text-right text-sm"
+            disabled={saving}
+          />
+          <span className="text-gray-500">{pack?.name || product.unit}</span>
+          <button
+            onClick={() => setProduct(null)}
+            disabled={saving}
+            className="text-gray-500 hover:text-gray-700"
+          >
+            {t('change')}
+          </button>
+        </div>
+      ) : (
+        <ProductPicker onSelect={handleSelect} disabled={saving} />
+      )}
+
+      {errorMessage && <p className="text-red-600">{errorMessage}</p>}
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          disabled={saving}
+          className="px-3 py-1 font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+        >
+          {t('cancel')}
+        </button>
+        <button
+          onClick={handleSubmit}
+          disabled={saving || !product}
+          className="px-3 py-1 font-medium text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 disabled:opacity-50"
+        >
+          {saving ? t('saving') : t('submit')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -3,9 +3,11 @@
 import React, { useState, useEffect } from 'react';
 import { useTranslations } from 'next-intl';
 import RouteProtection from '../../../components/RouteProtection';
-import { getAllOrders, Order, updateOrderStatus, assignDriverToOrder, getOrderById } from '../../../lib/order-api';
+import { getAllOrders, Order, updateOrderStatus, assignDriverToOrder, getOrderById, canTransitionOrderStatus, recordActualQuantity, updateOrderItems, OrderLineInput, recordFulfilledQuantity, substituteOrderItem, respondToSubstitution } from '../../../lib/order-api';
 import { getAppSettings, AppSettings } from '../../../lib/settings-api';
-import { getOrderFilterRangeByDelivery, getNextDeliveryDate, formatDate } from '../../../lib/utils';
+import { formatDate } from '../../../lib/utils';
+import { getDeliverySchedule, getNextDeliveryDate, getOrderWindow } from '../../../lib/delivery-date';
+import { formatDeliveryWindow } from '../../../lib/delivery-slot-api';
 import { getDrivers } from '../../../lib/driver-api';
 import OrderDetailModal from './OrderDetailModal';
 import toast from 'react-hot-toast';
@@ -83,30 +85,34 @@ export default function OrdersPage() {
         // Get date range for delivery filter
         let dateRange = null;
         if (deliveryFilter) {
-          dateRange = getOrderFilterRangeByDelivery(
-            deliveryFilter,
-            settings?.order_cutoff_time || '18:00',
-            settings?.delivery_days || [1, 2, 3, 4, 5, 6]
-          );
+          dateRange = getOrderWindow(deliveryFilter, getDeliverySchedule(settings));
         }
 
-        // Get orders with pagination
-        const result = await getAllOrders({
-          limit: itemsPerPage,
-          offset: (currentPage - 1) * itemsPerPage,
-          sortBy: 'order_date',
-          sortDirection: 'desc',
-          status: statusFilter ? statusFilter as any : undefined,
-          search: searchQuery,
-          dateRange: dateRange ? {
-            from: dateRange.from.toISOString(),
-            to: dateRange.to.toISOString()
-          } : undefined
-        });
-        setOrders(result.orders);
-        setTotalPages(Math.ceil(result.count / itemsPerPage));
-        setTotalCount(result.count);
-        setTotalOrders(result.count);
+        if (deliveryFilter && !dateRange) {
+          // No deliveries go out that day
+          setOrders([]);
+          setTotalPages(0);
+          setTotalCount(0);
+          setTotalOrders(0);
+        } else {
+          // Get orders with pagination
+          const result = await getAllOrders({
+            limit: itemsPerPage,
+            offset: (currentPage - 1) * itemsPerPage,
+            sortBy: 'order_date',
+            sortDirection: 'desc',
+            status: statusFilter ? statusFilter as any : undefined,
+            search: searchQuery,
+            dateRange: dateRange ? {
+              from: dateRange.from.toISOString(),
+              to: dateRange.to.toISOString()
+            } : undefined
+          });
+          setOrders(result.orders);
+          setTotalPages(Math.ceil(result.count / itemsPerPage));
+          setTotalCount(result.count);
+          setTotalOrders(result.count);
+        }
 
         // Get available drivers
         const driversData = await getDrivers();
@@ -127,6 +133,10 @@ export default function OrdersPage() {
   // Format date for display
 
 
+  // Only offer the statuses the order can move to from where it is
+  const isStatusOptionDisabled = (order: Order, status: Order['status']) =>
+    status !== order.status && !canTransitionOrderStatus(order.status, status);
+
   // Handle status update
   const handleStatusUpdate = async (orderId: string, newStatus: Order['status']) => {
     try {
@@ -165,6 +175,94 @@ export default function OrdersPage() {
     }
   };
 
+  // Record the weighed quantity of a catch-weight line while packing
+  const handleRecordActualQuantity = async (itemId: string, actualQuantity: number | null) => {
+    if (!selectedOrder) return;
+
+    const totalAmount = await recordActualQuantity(itemId, actualQuantity);
+    const orderId = selectedOrder.id;
+
+    setSelectedOrder(prev => prev && {
+      ...prev,
+      total_amount: totalAmount,
+      items: prev.items.map(item => (
+        item.id === itemId ? { ...item, actual_quantity: actualQuantity ?? undefined } : item
+      ))
+    });
+    setOrders(prevOrders =>
+      prevOrders.map(order =>
+        order.id === orderId ? { ...order, total_amount: totalAmount } : order
+      )
+    );
+  };
+
+  // Errors are shown by the items editor in the modal, so they are passed on
+  const handleUpdateOrderItems = async (orderId: string, items: OrderLineInput[]) => {
+    const updatedOrder = await updateOrderItems(orderId, items);
+
+    setSelectedOrder(updatedOrder);
+    setOrders(prevOrders =>
+      prevOrders.map(order =>
+        order.id === orderId ? { ...order, total_amount: updatedOrder.total_amount } : order
+      )
+    );
+    toast.success(t('itemsEditor.saved'));
+  };
+
+  const handleRecordFulfilledQuantity = async (itemId: string, fulfilledQuantity: number | null) => {
+    if (!selectedOrder) return;
+
+    const totalAmount = await recordFulfilledQuantity(itemId, fulfilledQuantity);
+    const orderId = selectedOrder.id;
+
+    setSelectedOrder(prev => prev && {
+      ...prev,
+      total_amount: totalAmount,
+      items: prev.items.map(item => (
+        item.id === itemId ? { ...item, fulfilled_quantity: fulfilledQuantity } : item
+      ))
+    });
+    setOrders(prevOrders =>
+      prevOrders.map(order =>
+        order.id === orderId ? { ...order, total_amount: totalAmount } : order
+      )
+    );
+  };
+
+  // Substitutes add and remove lines, so the order is loaded again afterwards
+  const refreshSelectedOrder = async (orderId: string) => {
+    const updatedOrder = await getOrderById(orderId);
+    if (!updatedOrder) return;
+
+    setSelectedOrder(updatedOrder);
+    setOrders(prevOrders =>
+      prevOrders.map(order =>
+        order.id === orderId ? { ...order, total_amount: updatedOrder.total_amount } : order
+      )
+    );
+  };
+
+  // Errors are shown by the substitution form in the modal, so they are passed on
+  const handleSubstitute = async (itemId: string, substitute: OrderLineInput) => {
+    if (!selectedOrder?.id) return;
+
+    const substituteItem = await substituteOrderItem(itemId, substitute);
+    await refreshSelectedOrder(selectedOrder.id);
+    toast.success(t(substituteItem.substitution_status === 'proposed' ? 'substitution.proposedToCustomer' : 'substitution.added'));
+  };
+
+  const handleRespondToSubstitution = async (itemId: string, accept: boolean) => {
+    if (!selectedOrder?.id) return;
+
+    try {
+      await respondToSubstitution(itemId, accept);
+      await refreshSelectedOrder(selectedOrder.id);
+    } catch (err: any) {
+      console.error('Error responding to substitution:', err);
+      toast.error(err.message || t('substitution.respondError'));
+    }
+  };
+
   // Add a function to open the order detail modal
   const handleViewDetails = async (orderId: string) => {
     try {
@@ -193,6 +291,8 @@ export default function OrdersPage() {
   const getStatusBadge = (status: string) => {
     const baseClasses = "px-3 py-1 inline-flex text-xs leading-5 font-semibold rounded-full";
     switch (status) {
+      case 'pending_approval':
+        return `${baseClasses} bg-orange-100 text-orange-800`;
       case 'pending':
         return `${baseClasses} bg-yellow-100 text-yellow-800`;
       case 'processing':
@@ -218,11 +318,7 @@ export default function OrdersPage() {
       return;
     }
 
-    const dateRange = getOrderFilterRangeByDelivery(
-      type,
-      settings?.order_cutoff_time || '18:00',
-      settings?.delivery_days || [1, 2, 3, 4, 5, 6]
-    );
+    const dateRange = getOrderWindow(type, getDeliverySchedule(settings));
 
     if (dateRange) {
       try {
@@ -348,6 +444,7 @@ export default function OrdersPage() {
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white/50 backdrop-blur-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 transition-all duration-200 text-sm"
               >
                 <option value="">{t('allOrders')}</option>
+                <option value="pending_approval">{t('status.pending_approval')}</option>
                 <option value="pending">{t('status.pending')}</option>
                 <option value="processing">{t('status.processing')}</option>
                 <option value="completed">{t('status.completed')}</option>
@@ -496,10 +593,11 @@ export default function OrdersPage() {
                               onChange={(e) => handleStatusUpdate(order.id!, e.target.value as Order['status'])}
                               disabled={updatingStatus === order.id}
                             >
-                              <option value="pending">{t('status.pending')}</option>
-                              <option value="processing">{t('status.processing')}</option>
-                              <option value="completed">{t('status.completed')}</option>
-                              <option value="cancelled">{t('status.cancelled')}</option>
+                              <option value="pending_approval" disabled={isStatusOptionDisabled(order, 'pending_approval')}>{t('status.pending_approval')}</option>
+                              <option value="pending" disabled={isStatusOptionDisabled(order, 'pending')}>{t('status.pending')}</option>
+                              <option value="processing" disabled={isStatusOptionDisabled(order, 'processing')}>{t('status.processing')}</option>
+                              <option value="completed" disabled={isStatusOptionDisabled(order, 'completed')}>{t('status.completed')}</option>
+                              <option value="cancelled" disabled={isStatusOptionDisabled(order, 'cancelled')}>{t('status.cancelled')}</option>
                             </select>
                           </div>
 
@@ -578,9 +676,13 @@ export default function OrdersPage() {
                             ? formatDate(order.delivery_date)
                             : formatDate(getNextDeliveryDate(
                                 new Date(order.order_date),
-                                settings?.order_cutoff_time,
-                                settings?.delivery_days
+                                getDeliverySchedule(settings)
                               ).toISOString())}
+                          {order.delivery_window_start && (
+                            <div className="text-xs text-gray-500">
+                              {formatDeliveryWindow(order.delivery_window_start, order.delivery_window_end)}
+                            </div>
+                          )}
                         </td>
                         <td className="px-6 py-2 text-sm text-gray-600 max-w-xs">
                           <div className="font-medium text-gray-900">{order.customer?.email || (order.user_id ? order.user_id : t('guestOrder'))}</div>
@@ -592,6 +694,7 @@ export default function OrdersPage() {
                         <td className="px-6 py-2 whitespace-nowrap">
                           <select
                             className={`min-w-[120px] px-3 py-1.5 text-xs font-medium rounded-xl border-0 focus:outline-none focus:ring-2 focus:ring-emerald-500 transition-all duration-200 ${order.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
+                                order.status === 'pending_approval' ? 'bg-orange-100 text-orange-800' :
                                 order.status === 'processing' ? 'bg-blue-100 text-blue-800' :
                                   order.status === 'completed' ? 'bg-emerald-100 text-emerald-800' :
                                     'bg-red-100 text-red-800'
@@ -599,10 +702,11 @@ export default function OrdersPage() {
                             value={order.status}
                             onChange={(e) => handleStatusUpdate(order.id!, e.target.value as Order['status'])}
                           >
-                            <option value="pending">{t('status.pending')}</option>
-                            <option value="processing">{t('status.processing')}</option>
-                            <option value="completed">{t('status.completed')}</option>
-                            <option value="cancelled">{t('status.cancelled')}</option>
+                            <option value="pending_approval" disabled={isStatusOptionDisabled(order, 'pending_approval')}>{t('status.pending_approval')}</option>
+                            <option value="pending" disabled={isStatusOptionDisabled(order, 'pending')}>{t('status.pending')}</option>
+                            <option value="processing" disabled={isStatusOptionDisabled(order, 'processing')}>{t('status.processing')}</option>
+                            <option value="completed" disabled={isStatusOptionDisabled(order, 'completed')}>{t('status.completed')}</option>
+                            <option value="cancelled" disabled={isStatusOptionDisabled(order, 'cancelled')}>{t('status.cancelled')}</option>
                           </select>
                         </td>
                         <td className="px-6 py-2 whitespace-nowrap text-sm">
@@ -656,6 +760,11 @@ export default function OrdersPage() {
         {detailModalOpen && selectedOrder && (
           <OrderDetailModal
             order={selectedOrder}
+            onRecordActualQuantity={handleRecordActualQuantity}
+            onUpdateItems={handleUpdateOrderItems}
+            onRecordFulfilledQuantity={handleRecordFulfilledQuantity}
+            onSubstitute={handleSubstitute}
+            onRespondToSubstitution={handleRespondToSubstitution}
             onClose={() => {
               console.log('onClose');
               setDetailModalOpen(false);
@@ -0,0 +1,682 @@
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'react-toastify';
+import RouteProtection from '../../../components/RouteProtection';
+import Loading from '@/app/components/Loading';
+import Switch from '@/app/components/Switch';
+import {
+  PriceList,
+  CustomerGroup,
+  getPriceLists,
+  getPriceListById,
+  createPriceList,
+  updatePriceList,
+  deletePriceList,
+  setPriceListItem,
+  removePriceListItem,
+  getCustomerGroups,
+  createCustomerGroup,
+  deleteCustomerGroup
+} from '../../../lib/price-list-api';
+import { Product, getProducts } from '../../../lib/product-api';
+import { User, getUsers } from '../../../lib/users-api';
+
+type AssigneeType = 'customer' | 'group';
+
+const emptyForm = {
+  name: '',
+  assigneeType: 'customer' as AssigneeType,
+  user_id: '',
+  customer_group_id: '',
+  valid_from: '',
+  valid_to: '',
+  is_active: true,
+  notes: ''
+};
+
+export default function PriceListsPage() {
+  const t = useTranslations('priceLists');
+  const [priceLists, setPriceLists] = useState<PriceList[]>([]);
+  const [customerGroups, setCustomerGroups] = useState<CustomerGroup[]>([]);
+  const [customers, setCustomers] = useState<User[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [selectedList, setSelectedList] = useState<PriceList | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // Price list form
+  const [isFormOpen, setFormOpen] = useState(false);
+  const [editingList, setEditingList] = useState<PriceList | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  // Customer group form
+  const [groupName, setGroupName] = useState('');
+
+  // Item editing
+  const [newProductId, setNewProductId] = useState('');
+  const [newPrice, setNewPrice] = useState('');
+  const [itemPrices, setItemPrices] = useState<Record<string, string>>({});
+
+  const inputClass = 'mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm';
+
+  const loadPriceLists = async () => {
+    const data = await getPriceLists();
+    setPriceLists(data);
+  };
+
+  const loadSelectedList = async (id: string) => {
+    const list = await getPriceListById(id);
+    setSelectedList(list);
+    setItemPrices(Object.fromEntries((list.items || []).map(item => [item.product_id, item.price.toString()])));
+  };
+
+  useEffect(() => {
+    async function loadData() {
+      try {
+        setLoading(true);
+        const [lists, groups, users, allProducts] = await Promise.all([
+          getPriceLists(),
+          getCustomerGroups(),
+          getUsers(),
+          getProducts()
+        ]);
+        setPriceLists(lists);
+        setCustomerGroups(groups);
+        setCustomers(users.filter(user => user.role === 'customer'));
+        setProducts(allProducts);
+      } catch (err: any) {
+        console.error('Error loading price lists:', err);
+        toast.error(`${t('loadError')}: ${err.message}`);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadData();
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const getAssigneeName = (list: PriceList) => {
+    if (list.user_id) {
+      const customer = customers.find(c => c.id === list.user_id);
+      return customer?.business_name || customer?.name || customer?.email || t('unknownCustomer');
+    }
+    if (list.customer_group_id) {
+      const group = customerGroups.find(g => g.id === list.customer_group_id);
+      return group ? t('groupLabel', { name: group.name }) : t('unknownGroup');
+    }
+    return t('unassigned');
+  };
+
+  const isCurrentlyValid = (list: PriceList) => {
+    const today = new Date().toISOString().split('T')[0];
+    return list.is_active
+      && (!list.valid_from || list.valid_from <= today)
+      && (!list.valid_to || list.valid_to >= today);
+  };
+
+  const openForm = (list: PriceList | null) => {
+    setEditingList(list);
+    setFormData(list ? {
+      name: list.name,
+      assigneeType: list.customer_group_id ? 'group' : 'customer',
+      user_id: list.user_id || '',
+      customer_group_id: list.customer_group_id || '',
+      valid_from: list.valid_from || '',
+      valid_to: list.valid_to || '',
+      is_active: list.is_active,
+      notes: list.notes || ''
+    } : emptyForm);
+    setFormOpen(true);
+  };
+
+  const handleSubmitList = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast.error(t('nameRequired'));
+      return;
+    }
+
+    const assigneeId = formData.assigneeType === 'customer' ? formData.user_id : formData.customer_group_id;
+    if (!assigneeId) {
+      toast.error(t('assigneeRequired'));
+      return;
+    }
+
+    const listData = {
+      name: formData.name.trim(),
+      user_id: formData.assigneeType === 'customer' ? formData.user_id : null,
+      customer_group_id: formData.assigneeType === 'group' ? formData.customer_group_id : null,
+      valid_from: formData.valid_from || null,
+      valid_to: formData.valid_to || null,
+      is_active: formData.is_active,
+      notes: formData.notes.trim() || null
+    };
+
+    setSaving(true);
+    try {
+      if (editingList) {
+        await updatePriceList(editingList.id, listData);
+        toast.success(t('updateSuccess'));
+        if (selectedList?.id === editingList.id) {
+          await loadSelectedList(editingList.id);
+        }
+      } else {
+        const created = await createPriceList({
+          ...listData,
+          user_id: listData.user_id ?? undefined,
+          customer_group_id: listData.customer_group_id ?? undefined,
+          valid_from: listData.valid_from ?? undefined,
+          valid_to: listData.valid_to ?? undefined,
+          notes: listData.notes ?? undefined
+        });
+        toast.success(t('createSuccess'));
+        await loadSelectedList(created.id);
+      }
+      await loadPriceLists();
+      setFormOpen(false);
+    } catch (err: any) {
+      console.error('Error saving price list:', err);
+      toast.error(`${t('saveError')}: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteList = async (list: PriceList) => {
+    if (!confirm(t('deleteConfirm', { name: list.name }))) return;
+
+    setSaving(true);
+    try {
+      await deletePriceList(list.id);
+      toast.success(t('deleteSuccess'));
+      if (selectedList?.id === list.id) setSelectedList(null);
+      await loadPriceLists();
+    } catch (err: any) {
+      console.error('Error deleting price list:', err);
+      toast.error(`${t('deleteError')}: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddGroup = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!groupName.trim()) return;
+
+    setSaving(true);
+    try {
+      await createCustomerGroup(groupName.trim());
+      setGroupName('');
+      setCustomerGroups(await getCustomerGroups());
+      toast.success(t('groups.createSuccess'));
+    } catch (err: any) {
+      console.error('Error creating customer group:', err);
+      toast.error(`${t('groups.saveError')}: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteGroup = async (group: CustomerGroup) => {
+    if (!confirm(t('groups.deleteConfirm', { name: group.name }))) return;
+
+    setSaving(true);
+    try {
+      await deleteCustomerGroup(group.id);
+      setCustomerGroups(await getCustomerGroups());
+      await loadPriceLists();
+      if (selectedList?.customer_group_id === group.id) setSelectedList(null);
+      toast.success(t('groups.deleteSuccess'));
+    } catch (err: any) {
+      console.error('Error deleting customer group:', err);
+      toast.error(`${t('groups.deleteError')}: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSetPrice = async (productId: string, value: string) => {
+    if (!selectedList) return;
+
+    const price = parseFloat(value);
+    if (isNaN(price) || price < 0) {
+      toast.error(t('invalidPrice'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await setPriceListItem(selectedList.id, productId, price);
+      await loadSelectedList(selectedList.id);
+      await loadPriceLists();
+      toast.success(t('priceSaved'));
+    } catch (err: any) {
+      console.error('Error saving price:', err);
+      toast.error(`${t('saveError')}: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddItem = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!newProductId) {
+      toast.error(t('productRequired'));
+      return;
+    }
+    await handleSetPrice(newProductId, newPrice);
+    setNewProductId('');
+    setNewPrice('');
+  };
+
+  const handleRemoveItem = async (productId: string) => {
+    if (!selectedList) return;
+
+    setSaving(true);
+    try {
+      await removePriceListItem(selectedList.id, productId);
+      await loadSelectedList(selectedList.id);
+      await loadPriceLists();
+    } catch (err: any) {
+      console.error('Error removing price:', err);
+      toast.error(`${t('saveError')}: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <Loading />;
+  }
+
+  const listedProductIds = new Set((selectedList?.items || []).map(item => item.product_id));
+
+  return (
+    <RouteProtection>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="bg-white/80 backdrop-blur-lg rounded-lg shadow-2xl border border-white/20 p-4 lg:p-6">
+          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between">
+            <div>
+              <h1 className="text-xl lg:text-xl font-bold bg-gradient-to-r from-emerald-600 to-teal-600 bg-clip-text text-transparent">
+                {t('title')}
+              </h1>
+              <p className="mt-1 text-gray-600 text-base">{t('subtitle')}</p>
+            </div>
+            <div className="mt-4 lg:mt-0">
+              <button
+                onClick={() => openForm(null)}
+                className="px-4 py-2 bg-gradient-to-r from-emerald-500 to-teal-600 text-white rounded-lg hover:from-emerald-600 hover:to-teal-700 transition-all duration-200 shadow-lg hover:shadow-xl font-medium flex items-center space-x-2 text-sm"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                </svg>
+                <span>{t('newPriceList')}</span>
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-6">
+            {/* Price Lists */}
+            <div className="bg-white/80 backdrop-blur-lg rounded-lg shadow-2xl border border-white/20 overflow-hidden">
+              <div className="px-4 py-3 border-b border-gray-100">
+                <h3 className="text-base font-semibold text-gray-900">{t('priceLists')}</h3>
+              </div>
+              {priceLists.length === 0 ? (
+                <p className="p-6 text-center text-sm text-gray-500">{t('empty')}</p>
+              ) : (
+                <div className="divide-y divide-gray-100">
+                  {priceLists.map(list => (
+                    <button
+                      key={list.id}
+                      onClick={() => loadSelectedList(list.id)}
+                      className={`w-full text-left p-4 hover:bg-emerald-50/50 transition-colors duration-200 ${selectedList?.id === list.id ? 'bg-emerald-50' : ''}`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="font-semibold text-gray-900 text-sm">{list.name}</span>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${isCurrentlyValid(list) ? 'bg-emerald-100 text-emerald-700' : 'bg-gray-100 text-gray-500'}`}>
+                          {isCurrentlyValid(list) ? t('valid') : t('notValid')}
+                        </span>
+                      </div>
+                      <div className="text-xs text-gray-600 mt-1">{getAssigneeName(list)}</div>
+                      <div className="text-xs text-gray-400 mt-1">
+                        {t('itemCount', { count: list.items?.length || 0 })}
+                        {(list.valid_from || list.valid_to) && ` · ${list.valid_from || '…'} – ${list.valid_to || '…'}`}
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Customer Groups */}
+            <div className="bg-white/80 backdrop-blur-lg rounded-lg shadow-2xl border border-white/20 overflow-hidden">
+              <div className="px-4 py-3 border-b border-gray-100">
+                <h3 className="text-base font-semibold text-gray-900">{t('groups.title')}</h3>
+                <p className="text-xs text-gray-500">{t('groups.help')}</p>
+              </div>
+              <div className="divide-y divide-gray-100">
+                {customerGroups.map(group => (
+                  <div key={group.id} className="px-4 py-2 flex items-center justify-between text-sm">
+                    <span className="text-gray-900">{group.name}</span>
+                    <button
+                      onClick={() => handleDeleteGroup(group)}
+                      className="px-3 py-1 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors font-medium text-xs"
+                      disabled={saving}
+                    >
+                      {t('delete')}
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <form onSubmit={handleAddGroup} className="p-4 flex gap-2">
+                <input
+                  type="text"
+                  className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                  placeholder={t('groups.namePlaceholder')}
+                  value={groupName}
+                  onChange={e => setGroupName(e.target.value)}
+                  disabled={saving}
+                />
+                <button
+                  type="submit"
+                  className="px-4 py-2 rounded bg-green-600 text-white font-semibold hover:bg-green-700 disabled:bg-green-300 text-sm"
+                  disabled={saving || !groupName.trim()}
+                >
+                  {t('groups.add')}
+                </button>
+              </form>
+            </div>
+          </div>
+
+          {/* Selected Price List */}
+          <div className="lg:col-span-2">
+            {!selectedList ? (
+              <div className="bg-white/80 backdrop-blur-lg rounded-lg shadow-2xl border border-white/20 p-8 text-center text-sm text-gray-500">
+                {t('selectPriceList')}
+              </div>
+            ) : (
+              <div className="bg-white/80 backdrop-blur-lg rounded-lg shadow-2xl border border-white/20 overflow-hidden">
+                <div className="p-4 border-b border-gray-100 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-900">{selectedList.name}</h3>
+                    <p className="text-sm text-gray-600">{getAssigneeName(selectedList)}</p>
+                    {selectedList.notes && <p className="text-xs text-gray-500 mt-1">{selectedList.notes}</p>}
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => openForm(selectedList)}
+                      className="px-3 py-1 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors font-medium text-xs"
+                      disabled={saving}
+                    >
+                      {t('edit')}
+                    </button>
+                    <button
+                      onClick={() => handleDeleteList(selectedList)}
+                      className="px-3 py-1 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors font-medium text-xs"
+                      disabled={saving}
+                    >
+                      {t('delete')}
+                    </button>
+                  </div>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-100 text-sm">
+                    <thead className="bg-gradient-to-r from-emerald-50 to-teal-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">{t('product')}</th>
+                        <th className="px-4 py-2 text-right text-xs font-semibold text-gray-700 uppercase">{t('listPrice')}</th>
+                        <th className="px-4 py-2 text-right text-xs font-semibold text-gray-700 uppercase">{t('contractPrice')}</th>
+                        <th className="px-4 py-2 text-right text-xs font-semibold text-gray-700 uppercase">{t('difference')}</th>
+                        <th className="px-4 py-2 text-right text-xs font-semibold text-gray-700 uppercase">{t('actions')}</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {(selectedList.items || []).length === 0 && (
+                        <tr>
+                          <td colSpan={5} className="px-4 py-6 text-center text-gray-500">{t('noItems')}</td>
+                        </tr>
+                      )}
+                      {(selectedList.items || []).map(item => {
+                        const listPrice = item.product?.price ?? 0;
+                        const difference = listPrice > 0 ? ((item.price - listPrice) / listPrice) * 100 : 0;
+                        return (
+                          <tr key={item.product_id}>
+                            <td className="px-4 py-2">
+                              <div className="font-medium text-gray-900">{item.product?.name_en}</div>
+                              <div className="text-xs text-gray-500">{item.product?.sku} · {item.product?.unit}</div>
+                            </td>
+                            <td className="px-4 py-2 text-right text-gray-600">${listPrice.toFixed(2)}</td>
+                            <td className="px-4 py-2 text-right">
+                              <input
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                className="w-24 rounded-lg border border-gray-300 px-2 py-1 text-sm text-right"
+                                value={itemPrices[item.product_id] ?? ''}
+                                onChange={e => setItemPrices(prev => ({ ...prev, [item.product_id]: e.target.value }))}
+                                onBlur={e => {
+                                  if (parseFloat(e.target.value) !== item.price) {
+                                    handleSetPrice(item.product_id, e.target.value);
+                                  }
+                                }}
+                                disabled={saving}
+                              />
+                            </td>
+                            <td className={`px-4 py-2 text-right font-medium ${difference < 0 ? 'text-emerald-700' : difference > 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                              {difference > 0 ? '+' : ''}{difference.toFixed(1)}%
+                            </td>
+                            <td className="px-4 py-2 text-right">
+                              <button
+                                onClick={() => handleRemoveItem(item.product_id)}
+                                className="px-3 py-1 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors font-medium text-xs"
+                                disabled={saving}
+                              >
+                                {t('remove')}
+                              </button>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+
+                {/* Add Product */}
+                <form onSubmit={handleAddItem} className="p-4 border-t border-gray-100 grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+                  <div className="sm:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700">{t('product')}</label>
+                    <select
+                      className={inputClass}
+                      value={newProductId}
+                      onChange={e => {
+                        setNewProductId(e.target.value);
+                        const product = products.find(p => p.id === e.target.value);
+                        setNewPrice(product ? product.price.toString() : '');
+                      }}
+                      disabled={saving}
+                    >
+                      <option value="">{t('selectProduct')}</option>
+                      {products
+                        .filter(product => !listedProductIds.has(product.id))
+                        .map(product => (
+                          <option key={product.id} value={product.id}>
+                            {product.name_en} ({product.sku}) – ${product.price.toFixed(2)}
+                          </option>
+                        ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">{t('contractPrice')}</label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      className={inputClass}
+                      value={newPrice}
+                      onChange={e => setNewPrice(e.target.value)}
+                      disabled={saving}
+                    />
+                  </div>
+                  <button
+                    type="submit"
+                    className="px-4 py-2 rounded bg-green-600 text-white font-semibold hover:bg-green-700 disabled:bg-green-300 text-sm"
+                    disabled={saving}
+                  >
+                    {t('addProduct')}
+                  </button>
+                </form>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Price List Form */}
+        {isFormOpen && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-30">
+            <div className="bg-white rounded-xl shadow-xl w-full max-w-lg p-6 relative animate-fadeIn max-h-[90vh] overflow-y-auto">
+              <button
+                className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 text-2xl"
+                onClick={() => setFormOpen(false)}
+                disabled={saving}
+              >
+                &times;
+              </button>
+              <h2 className="text-xl font-bold mb-4">{editingList ? t('editPriceList') : t('newPriceList')}</h2>
+              <form onSubmit={handleSubmitList} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">{t('name')}</label>
+                  <input
+                    type="text"
+                    className={inputClass}
+                    value={formData.name}
+                    onChange={e => setFormData({ ...formData, name: e.target.value })}
+                    required
+                    disabled={saving}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">{t('assignTo')}</label>
+                  <div className="mt-1 flex gap-4 text-sm">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        checked={formData.assigneeType === 'customer'}
+                        onChange={() => setFormData({ ...formData, assigneeType: 'customer' })}
+                        disabled={saving}
+                      />
+                      {t('customer')}
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        checked={formData.assigneeType === 'group'}
+                        onChange={() => setFormData({ ...formData, assigneeType: 'group' })}
+                        disabled={saving}
+                      />
+                      {t('customerGroup')}
+                    </label>
+                  </div>
+                  {formData.assigneeType === 'customer' ? (
+                    <select
+                      className={inputClass}
+                      value={formData.user_id}
+                      onChange={e => setFormData({ ...formData, user_id: e.target.value })}
+                      disabled={saving}
+                    >
+                      <option value="">{t('selectCustomer')}</option>
+                      {customers.map(customer => (
+                        <option key={customer.id} value={customer.id}>
+                          {customer.business_name || customer.name} ({customer.email})
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <select
+                      className={inputClass}
+                      value={formData.customer_group_id}
+                      onChange={e => setFormData({ ...formData, customer_group_id: e.target.value })}
+                      disabled={saving}
+                    >
+                      <option value="">{t('selectGroup')}</option>
+                      {customerGroups.map(group => (
+                        <option key={group.id} value={group.id}>{group.name}</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">{t('validFrom')}</label>
+                    <input
+                      type="date"
+                      className={inputClass}
+                      value={formData.valid_from}
+                      onChange={e => setFormData({ ...formData, valid_from: e.target.value })}
+                      disabled={saving}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">{t('validTo')}</label>
+                    <input
+                      type="date"
+                      className={inputClass}
+                      value={formData.valid_to}
+                      min={formData.valid_from || undefined}
+                      onChange={e => setFormData({ ...formData, valid_to: e.target.value })}
+                      disabled={saving}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">{t('notes')}</label>
+                  <textarea
+                    className={inputClass}
+                    rows={2}
+                    value={formData.notes}
+                    onChange={e => setFormData({ ...formData, notes: e.target.value })}
+                    disabled={saving}
+                  />
+                </div>
+                <div className="flex items-center justify-between bg-gray-50 rounded-lg p-3">
+                  <div>
+                    <span className="block font-medium text-sm">{t('active')}</span>
+                    <span className="block text-xs text-gray-400">{t('activeHelp')}</span>
+                  </div>
+                  <Switch
+                    checked={formData.is_active}
+                    onChange={() => setFormData({ ...formData, is_active: !formData.is_active })}
+                    size="sm"
+                  />
+                </div>
+                <div className="flex justify-end space-x-2 pt-2">
+                  <button
+                    type="button"
+                    className="px-4 py-2 rounded border border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+                    onClick={() => setFormOpen(false)}
+                    disabled={saving}
+                  >
+                    {t('cancel')}
+                  </button>
+                  <button
+                    type="submit"
+                    className="px-4 py-2 rounded bg-green-600 text-white font-semibold hover:bg-green-700 disabled:bg-green-300"
+                    disabled={saving}
+                  >
+                    {saving ? t('saving') : t('save')}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        )}
+      </div>
+    </RouteProtection>
+  );
+}
@@ -1,10 +1,14 @@
 "use client";
 
-import { useState, ChangeEvent, FormEvent } from "react";
+import { useState, useEffect, ChangeEvent, FormEvent } from "react";
 import { toast } from 'react-toastify';
 import { useTranslations } from 'next-intl';
-import { createProduct } from '../../../lib/product-api';
+import { createProduct, setProductPriceTiers, setProductPacks } from '../../../lib/product-api';
+import { Category, getCategories, getCategoryTree } from '../../../lib/category-api';
 import { uploadImage } from '../../../lib/storage-utils';
+import PriceTiersEditor, { PriceTierRow, parsePriceTierRows } from './PriceTiersEditor';
+import PacksEditor, { PackRow, parsePackRows } from './PacksEditor';
+import OrderRulesEditor, { OrderRulesRow, emptyOrderRules, parseOrderRulesRow } from './OrderRulesEditor';
 
 export default function AddProductModal({
   open,
@@ -25,14 +29,29 @@ export default function AddProductModal({
   const [image, setImage] = useState<string | null>(null);
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [active, setActive] = useState(true);
+  const [catchWeight, setCatchWeight] = useState(false);
   const [productNameEn, setProductNameEn] = useState("");
   const [productNameVi, setProductNameVi] = useState("");
   const [productNameTr, setProductNameTr] = useState("");
   const [price, setPrice] = useState("0");
   const [stockQuantity, setStockQuantity] = useState("0");
+  const [categoryId, setCategoryId] = useState("");
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [priceTiers, setPriceTiers] = useState<PriceTierRow[]>([]);
+  const [packs, setPacks] = useState<PackRow[]>([]);
+  const [orderRules, setOrderRules] = useState<OrderRulesRow>(emptyOrderRules);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Load categories for the category select
+  useEffect(() => {
+    if (open) {
+      getCategories()
+        .then(setCategories)
+        .catch(err => console.error('Error loading categories:', err));
+    }
+  }, [open]);
+
   const inputClass =
     "mt-1 block w-full rounded-lg border border-gray-300 shadow-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-500 px-4 py-2 text-gray-900 placeholder-gray-400 transition-all";
 
@@ -54,11 +73,16 @@ export default function AddProductModal({
     setImage(null);
     setImageFile(null);
     setActive(true);
+    setCatchWeight(false);
     setProductNameEn("");
     setProductNameVi("");
     setProductNameTr("");
     setPrice("0");
     setStockQuantity("0");
+    setCategoryId("");
+    setPriceTiers([]);
+    setPacks([]);
+    setOrderRules(emptyOrderRules);
     setActiveTab(0);
     setError(null);
   };
@@ -82,6 +106,27 @@ export default function AddProductModal({
         return;
       }
 
+      const parsedTiers = parsePriceTierRows(priceTiers);
+      if ('error' in parsedTiers) {
+        setError(t(parsedTiers.error));
+        toast.error(t(parsedTiers.error));
+        return;
+      }
+
+      const parsedPacks = parsePackRows(packs);
+      if ('error' in parsedPacks) {
+        setError(t(parsedPacks.error));
+        toast.error(t(parsedPacks.error));
+        return;
+      }
+
+      const parsedRules = parseOrderRulesRow(orderRules);
+      if ('error' in parsedRules) {
+        setError(t(parsedRules.error));
+        toast.error(t(parsedRules.error));
+        return;
+      }
+
       const productData = {
         name_en: productNameEn,
         name_vi: productNameVi || undefined,
@@ -90,11 +135,18 @@ export default function AddProductModal({
         sku: sku || `SKU-${Date.now()}`,
         price: parseFloat(price) || 0,
         stock: parseInt(stockQuantity) || 0,
+        category_id: categoryId || undefined,
         is_active: active,
+        is_catch_weight: catchWeight,
+        min_order_quantity: parsedRules.rules.min_order_quantity ?? undefined,
+        quantity_step: parsedRules.rules.quantity_step ?? undefined,
+        lead_time_days: parsedRules.rules.lead_time_days,
       };
 
       // Create product with optional image
       const product = await createProduct(productData, imageFile);
+      product.price_tiers = await setProductPriceTiers(product.id, parsedTiers.tiers);
+      product.packs = await setProductPacks(product.id, parsedPacks.packs);
       
       // Show success toast
       toast.success(`${t('productCreatedSuccess')}: "${product.name_en}"`);
@@ -118,7 +170,7 @@ export default function AddProductModal({
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-30">
-      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg p-6 relative animate-fadeIn">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg p-6 relative animate-fadeIn max-h-[90vh] overflow-y-auto">
         <button
           className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 text-2xl"
           onClick={() => {
@@ -185,6 +237,22 @@ export default function AddProductModal({
                 disabled={loading}
               />
             </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">{t('category')}</label>
+              <select
+                className={inputClass}
+                value={categoryId}
+                onChange={e => setCategoryId(e.target.value)}
+                disabled={loading}
+              >
+                <option value="">{t('noCategory')}</option>
+                {getCategoryTree(categories).map(({ category, depth }) => (
+                  <option key={category.id} value={category.id}>
+                    {'— '.repeat(depth)}{category.name_en}
+                  </option>
+                ))}
+              </select>
+            </div>
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700">{tc('labels.price')}</label>
@@ -210,6 +278,25 @@ export default function AddProductModal({
                 />
               </div>
             </div>
+            <PriceTiersEditor
+              rows={priceTiers}
+              onChange={setPriceTiers}
+              unit={unit}
+              disabled={loading}
+            />
+            <PacksEditor
+              rows={packs}
+              onChange={setPacks}
+              sku={sku}
+              unit={unit}
+              disabled={loading}
+            />
+            <OrderRulesEditor
+              row={orderRules}
+              onChange={setOrderRules}
+              unit={unit}
+              disabled={loading}
+            />
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">{t('productImage')}</label>
               <div className="relative flex items-center justify-center bg-gray-100 rounded-lg h-36 mb-2 border border-dashed border-gray-300">
@@ -240,6 +327,24 @@ export default function AddProductModal({
                 )}
               </div>
             </div>
+            <div className="flex items-center justify-between bg-gray-50 rounded-lg p-3">
+              <div>
+                <span className="block font-medium text-sm">{t('catchWeight')}</span>
+                <span className="block text-xs text-gray-400">
+                  {t('catchWeightHelp')}
+                </span>
+              </div>
+              <button
+                type="button"
+                className={`w-10 h-6 flex items-center bg-gray-200 rounded-full p-1 duration-300 focus:outline-none ${catchWeight ? 'bg-green-400' : 'bg-gray-200'}`}
+                onClick={() => setCatchWeight(c => !c)}
+                disabled={loading}
+              >
+                <span
+                  className={`bg-white w-4 h-4 rounded-full shadow-md transform duration-300 ${catchWeight ? 'translate-x-4' : ''}`}
+                />
+              </button>
+            </div>
             <div className="flex items-center justify-between bg-gray-50 rounded-lg p-3">
               <div>
                 <span className="block font-medium text-sm">{t('activeStatus')}</span>
@@ -0,0 +1,289 @@
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'react-toastify';
+import {
+  Category,
+  getCategories,
+  createCategory,
+  updateCategory,
+  deleteCategory,
+  getCategoryTree,
+  getCategoryDescendantIds
+} from '../../../lib/category-api';
+
+interface CategoriesModalProps {
+  open: boolean;
+  onClose: () => void;
+  onCategoriesChange: () => void;
+}
+
+export default function CategoriesModal({ open, onClose, onCategoriesChange }: CategoriesModalProps) {
+  const t = useTranslations('products.categories');
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [nameEn, setNameEn] = useState('');
+  const [nameVi, setNameVi] = useState('');
+  const [nameTr, setNameTr] = useState('');
+  const [parentId, setParentId] = useState('');
+  const [sortOrder, setSortOrder] = useState('0');
+
+  const inputClass = 'mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm';
+
+  const loadCategories = async () => {
+    setLoading(true);
+    try {
+      const data = await getCategories();
+      setCategories(data);
+    } catch (err: any) {
+      console.error('Error loading categories:', err);
+      toast.error(`${t('loadError')}: ${err.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      loadCategories();
+    }
+  }, [open]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setNameEn('');
+    setNameVi('');
+    setNameTr('');
+    setParentId('');
+    setSortOrder('0');
+  };
+
+  const handleEdit = (category: Category) => {
+    setEditingId(category.id);
+    setNameEn(category.name_en);
+    setNameVi(category.name_vi || '');
+    setNameTr(category.name_tr || '');
+    setParentId(category.parent_id || '');
+    setSortOrder(category.sort_order.toString());
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (!nameEn.trim()) {
+      toast.error(t('nameRequired'));
+      return;
+    }
+
+    const categoryData = {
+      name_en: nameEn.trim(),
+      name_vi: nameVi.trim() || undefined,
+      name_tr: nameTr.trim() || undefined,
+      parent_id: parentId || undefined,
+      sort_order: parseInt(sortOrder) || 0
+    };
+
+    setSaving(true);
+    try {
+      if (editingId) {
+        // Send nulls so that cleared fields are cleared in the database too
+        await updateCategory(editingId, {
+          ...categoryData,
+          name_vi: categoryData.name_vi ?? null,
+          name_tr: categoryData.name_tr ?? null,
+          parent_id: categoryData.parent_id ?? null
+        });
+        toast.success(t('updateSuccess'));
+      } else {
+        await createCategory(categoryData);
+        toast.success(t('createSuccess'));
+      }
+      resetForm();
+      await loadCategories();
+      onCategoriesChange();
+    } catch (err: any) {
+      console.error('Error saving category:', err);
+      toast.error(`${t('saveError')}: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (category: Category) => {
+    if (!confirm(t('deleteConfirm', { name: category.name_en }))) return;
+
+    setSaving(true);
+    try {
+      await deleteCategory(category.id);
+      toast.success(t('deleteSuccess'));
+      if (editingId === category.id) resetForm();
+      await loadCategories();
+      onCategoriesChange();
+    } catch (err: any) {
+      console.error('Error deleting category:', err);
+      toast.error(`${t('deleteError')}: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!open) return null;
+
+  // A category can't be moved under itself or one of its own subcategories
+  const excludedParentIds = editingId ? getCategoryDescendantIds(categories, editingId) : [];
+  const tree = getCategoryTree(categories);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-30">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl p-6 relative animate-fadeIn max-h-[90vh] overflow-y-auto">
+        <button
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 text-2xl"
+          onClick={() => {
+            resetForm();
+            onClose();
+          }}
+          disabled={saving}
+        >
+          &times;
+        </button>
+        <h2 className="text-xl font-bold mb-1">{t('title')}</h2>
+        <p className="text-gray-500 mb-4 text-sm">{t('description')}</p>
+
+        {/* Category Form */}
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-6 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">{t('nameEn')}</label>
+            <input
+              type="text"
+              className={inputClass}
+              value={nameEn}
+              onChange={e => setNameEn(e.target.value)}
+              required
+              disabled={saving}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">{t('nameVi')}</label>
+            <input
+              type="text"
+              className={inputClass}
+              value={nameVi}
+              onChange={e => setNameVi(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">{t('nameTr')}</label>
+            <input
+              type="text"
+              className={inputClass}
+              value={nameTr}
+              onChange={e => setNameTr(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">{t('parent')}</label>
+            <select
+              className={inputClass}
+              value={parentId}
+              onChange={e => setParentId(e.target.value)}
+              disabled={saving}
+            >
+              <option value="">{t('noParent')}</option>
+              {tree
+                .filter(({ category }) => !excludedParentIds.includes(category.id))
+                .map(({ category, depth }) => (
+                  <option key={category.id} value={category.id}>
+                    {'— '.repeat(depth)}{category.name_en}
+                  </option>
+                ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">{t('sortOrder')}</label>
+            <input
+              type="number"
+              className={inputClass}
+              value={sortOrder}
+              onChange={e => setSortOrder(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+          <div className="flex gap-2">
+            {editingId && (
+              <button
+                type="button"
+                className="px-4 py-2 rounded border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 text-sm"
+                onClick={resetForm}
+                disabled={saving}
+              >
+                {t('cancelEdit')}
+              </button>
+            )}
+            <button
+              type="submit"
+              className="flex-1 px-4 py-2 rounded bg-green-600 text-white font-semibold hover:bg-green-700 disabled:bg-green-300 text-sm"
+              disabled={saving}
+            >
+              {saving ? t('saving') : editingId ? t('save') : t('add')}
+            </button>
+          </div>
+        </form>
+
+        {/* Category List */}
+        {loading ? (
+          <div className="py-8 text-center text-sm text-gray-500">{t('loading')}</div>
+        ) : tree.length === 0 ? (
+          <div className="py-8 text-center text-sm text-gray-500">{t('empty')}</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-100 text-sm">
+              <thead className="bg-gradient-to-r from-emerald-50 to-teal-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 uppercase">{t('name')}</th>
+                  <th className="px-3 py-2 text-right text-xs font-semibold text-gray-700 uppercase">{t('sortOrder')}</th>
+                  <th className="px-3 py-2 text-right text-xs font-semibold text-gray-700 uppercase">{t('actions')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {tree.map(({ category, depth }) => (
+                  <tr key={category.id} className={editingId === category.id ? 'bg-emerald-50/50' : ''}>
+                    <td className="px-3 py-2" style={{ paddingLeft: `${0.75 + depth * 1.5}rem` }}>
+                      <div className="font-medium text-gray-900">{category.name_en}</div>
+                      {(category.name_vi || category.name_tr) && (
+                        <div className="text-xs text-gray-500">
+                          {[category.name_vi, category.name_tr].filter(Boolean).join(' · ')}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-600">{category.sort_order}</td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                      <button
+                        onClick={() => handleEdit(category)}
+                        className="px-3 py-1 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors font-medium text-xs mr-2"
+                        disabled={saving}
+                      >
+                        {t('edit')}
+                      </button>
+                      <button
+                        onClick={() => handleDelete(category)}
+                        className="px-3 py-1 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors font-medium text-xs"
+                        disabled={saving}
+                      >
+                        {t('delete')}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,12 @@
 
 import { useState, ChangeEvent, FormEvent, useEffect } from "react";
 import { toast } from 'react-toastify';
-import { updateProduct, Product } from '../../../lib/product-api';
+import { useTranslations } from 'next-intl';
+import { updateProduct, setProductPriceTiers, setProductPacks, Product } from '../../../lib/product-api';
+import { Category, getCategories, getCategoryTree } from '../../../lib/category-api';
+import PriceTiersEditor, { PriceTierRow, parsePriceTierRows, toPriceTierRows } from './PriceTiersEditor';
+import PacksEditor, { PackRow, parsePackRows, toPackRows } from './PacksEditor';
+import OrderRulesEditor, { OrderRulesRow, emptyOrderRules, parseOrderRulesRow, toOrderRulesRow } from './OrderRulesEditor';
 
 const TABS = ["Details", "English", "Vietnamese", "Turkish"];
 
@@ -17,17 +22,24 @@ export default function EditProductModal({
   onSubmit: (data: any) => void;
   product: Product | null;
 }) {
+  const t = useTranslations('products');
   const [activeTab, setActiveTab] = useState(0);
   const [sku, setSku] = useState("");
   const [unit, setUnit] = useState("");
   const [image, setImage] = useState<string | null>(null);
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [active, setActive] = useState(true);
+  const [catchWeight, setCatchWeight] = useState(false);
   const [productNameEn, setProductNameEn] = useState("");
   const [productNameVi, setProductNameVi] = useState("");
   const [productNameTr, setProductNameTr] = useState("");
   const [price, setPrice] = useState("0");
   const [stockQuantity, setStockQuantity] = useState("0");
+  const [categoryId, setCategoryId] = useState("");
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [priceTiers, setPriceTiers] = useState<PriceTierRow[]>([]);
+  const [packs, setPacks] = useState<PackRow[]>([]);
+  const [orderRules, setOrderRules] = useState<OrderRulesRow>(emptyOrderRules);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -38,14 +50,28 @@ export default function EditProductModal({
       setUnit(product.unit || "");
       setImage(product.image_url || null);
       setActive(product.is_active);
+      setCatchWeight(!!product.is_catch_weight);
       setProductNameEn(product.name_en || "");
       setProductNameVi(product.name_vi || "");
       setProductNameTr(product.name_tr || "");
       setPrice(product.price.toString());
       setStockQuantity(product.stock.toString());
+      setCategoryId(product.category_id || "");
+      setPriceTiers(toPriceTierRows(product.price_tiers));
+      setPacks(toPackRows(product.packs));
+      setOrderRules(toOrderRulesRow(product));
     }
   }, [product]);
 
+  // Load categories for the category select
+  useEffect(() => {
+    if (open) {
+      getCategories()
+        .then(setCategories)
+        .catch(err => console.error('Error loading categories:', err));
+    }
+  }, [open]);
+
   const inputClass =
     "mt-1 block w-full rounded-lg border border-gray-300 shadow-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-500 px-4 py-2 text-gray-900 placeholder-gray-400 transition-all";
 
@@ -67,22 +93,32 @@ export default function EditProductModal({
       setUnit(product.unit || "");
       setImage(product.image_url || null);
       setActive(product.is_active);
+      setCatchWeight(!!product.is_catch_weight);
       setProductNameEn(product.name_en || "");
       setProductNameVi(product.name_vi || "");
       setProductNameTr(product.name_tr || "");
       setPrice(product.price.toString());
       setStockQuantity(product.stock.toString());
+      setCategoryId(product.category_id || "");
+      setPriceTiers(toPriceTierRows(product.price_tiers));
+      setPacks(toPackRows(product.packs));
+      setOrderRules(toOrderRulesRow(product));
     } else {
       setSku("");
       setUnit("");
       setImage(null);
       setImageFile(null);
       setActive(true);
+      setCatchWeight(false);
       setProductNameEn("");
       setProductNameVi("");
       setProductNameTr("");
       setPrice("0");
       setStockQuantity("0");
+      setCategoryId("");
+      setPriceTiers([]);
+      setPacks([]);
+      setOrderRules(emptyOrderRules);
     }
     setActiveTab(0);
     setError(null);
@@ -109,6 +145,27 @@ export default function EditProductModal({
         return;
       }
 
+      const parsedTiers = parsePriceTierRows(priceTiers);
+      if ('error' in parsedTiers) {
+        setError(t(parsedTiers.error));
+        toast.error(t(parsedTiers.error));
+        return;
+      }
+
+      const parsedPacks = parsePackRows(packs);
+      if ('error' in parsedPacks) {
+        setError(t(parsedPacks.error));
+        toast.error(t(parsedPacks.error));
+        return;
+      }
+
+      const parsedRules = parseOrderRulesRow(orderRules);
+      if ('error' in parsedRules) {
+        setError(t(parsedRules.error));
+        toast.error(t(parsedRules.error));
+        return;
+      }
+
       const productData = {
         name_en: productNameEn,
         name_vi: productNameVi || undefined,
@@ -117,11 +174,16 @@ export default function EditProductModal({
         sku: sku || undefined,
         price: parseFloat(price) || 0,
         stock: parseInt(stockQuantity) || 0,
+        category_id: categoryId || null,
         is_active: active,
+        is_catch_weight: catchWeight,
+        ...parsedRules.rules,
       };
 
       // Update product with optional image
       const updatedProduct = await updateProduct(product.id, productData, imageFile);
+      updatedProduct.price_tiers = await setProductPriceTiers(product.id, parsedTiers.tiers);
+      updatedProduct.packs = await setProductPacks(product.id, parsedPacks.packs);
       
       // Show success toast
       toast.success(`Product "${updatedProduct.name_en}" updated successfully`);
@@ -144,7 +206,7 @@ export default function EditProductModal({
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-30">
-      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg p-6 relative animate-fadeIn">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg p-6 relative animate-fadeIn max-h-[90vh] overflow-y-auto">
         <button
           className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 text-2xl"
           onClick={() => {
@@ -211,6 +273,22 @@ export default function EditProductModal({
                 disabled={loading}
               />
             </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">{t('category')}</label>
+              <select
+                className={inputClass}
+                value={categoryId}
+                onChange={e => setCategoryId(e.target.value)}
+                disabled={loading}
+              >
+                <option value="">{t('noCategory')}</option>
+                {getCategoryTree(categories).map(({ category, depth }) => (
+                  <option key={category.id} value={category.id}>
+                    {'— '.repeat(depth)}{category.name_en}
+                  </option>
+                ))}
+              </select>
+            </div>
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700">Price</label>
@@ -236,6 +314,25 @@ export default function EditProductModal({
                 />
               </div>
             </div>
+            <PriceTiersEditor
+              rows={priceTiers}
+              onChange={setPriceTiers}
+              unit={unit}
+              disabled={loading}
+            />
+            <PacksEditor
+              rows={packs}
+              onChange={setPacks}
+              sku={sku}
+              unit={unit}
+              disabled={loading}
+            />
+            <OrderRulesEditor
+              row={orderRules}
+              onChange={setOrderRules}
+              unit={unit}
+              disabled={loading}
+            />
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Product Image</label>
               <div className="relative flex items-center justify-center bg-gray-100 rounded-lg h-36 mb-2 border border-dashed border-gray-300">
@@ -266,6 +363,24 @@ export default function EditProductModal({
                 )}
               </div>
             </div>
+            <div className="flex items-center justify-between bg-gray-50 rounded-lg p-3">
+              <div>
+                <span className="block font-medium text-sm">{t('catchWeight')}</span>
+                <span className="block text-xs text-gray-400">
+                  {t('catchWeightHelp')}
+                </span>
+              </div>
+              <button
+                type="button"
+                className={`w-10 h-6 flex items-center bg-gray-200 rounded-full p-1 duration-300 focus:outline-none ${catchWeight ? 'bg-green-400' : 'bg-gray-200'}`}
+                onClick={() => setCatchWeight(c => !c)}
+                disabled={loading}
+              >
+                <span
+                  className={`bg-white w-4 h-4 rounded-full shadow-md transform duration-300 ${catchWeight ? 'translate-x-4' : ''}`}
+                />
+              </button>
+            </div>
             <div className="flex items-center justify-between bg-gray-50 rounded-lg p-3">
               <div>
                 <span className="block font-medium text-sm">Active Status</span>
@@ -4,6 +4,7 @@ import { useState } from 'react';
 import { useTranslations } from 'next-intl';
 import Papa from 'papaparse';
 import { batchCreateProducts, CreateProductData } from '../../../lib/product-api';
+import { findOrCreateCategories } from '../../../lib/category-api';
 import { toast } from 'react-toastify';
 
 interface ImportProductModalProps {
@@ -41,12 +42,12 @@ export default function ImportProductModal({ isOpen, onClose, onImportComplete }
   const [importResult, setImportResult] = useState<ImportResult | null>(null);
 
   // Sample CSV template
-  const sampleCSV = `sku,name
-TOM001,Tomato
-CAR001,Carrot
-APP001,Apple
-LET001,Lettuce
-BAN001,Banana`;
+  const sampleCSV = `sku,name,category
+TOM001,Tomato,Vegetables
+CAR001,Carrot,Vegetables
+APP001,Apple,Fruits
+LET001,Lettuce,Vegetables
+BAN001,Banana,Fruits`;
 
   const downloadSampleCSV = () => {
     const blob = new Blob([sampleCSV], { type: 'text/csv;charset=utf-8;' });
@@ -127,6 +128,18 @@ BAN001,Banana`;
         const importResult: ImportResult = { success: 0, errors: [] };
         const validProductsData: CreateProductData[] = [];
 
+        // Resolve category names to IDs, creating the categories that don't exist yet
+        let categoryIds = new Map<string, string>();
+        try {
+          categoryIds = await findOrCreateCategories(
+            data.filter((row, i) => !validateCSVRow(row, i)).map(row => row.category || '')
+          );
+        } catch (error: any) {
+          toast.error(`${t('import.importFailed')}: ${error.message}`);
+          setIsImporting(false);
+          return;
+        }
+
         // First pass: validate all rows and collect valid products
         for (let i = 0; i < data.length; i++) {
           const row = data[i];
@@ -150,7 +163,7 @@ BAN001,Banana`;
                      0, // Default price to 0 if not provided
               unit: row.unit?.trim() || 'piece', // Default to 'piece' if not provided
               sku: row.sku.trim(),
-              // category: row.category?.trim() || undefined, // Removed - column doesn't exist in database
+              category_id: row.category?.trim() ? categoryIds.get(row.category.trim().toLowerCase()) : undefined,
               stock: row.stock !== undefined ? 
                      (typeof row.stock === 'string' ? parseInt(row.stock) : row.stock) : 
                      0, // Default stock to 0 if not provided
@@ -252,6 +265,7 @@ BAN001,Banana`;
               <li>• {t('import.unitDefault')}</li>
               <li>• {t('import.priceDefault')}</li>
               <li>• {t('import.stockDefault')}</li>
+              <li>• {t('import.categoryDefault')}</li>
               <li>• {t('import.activeDefault')}</li>
             </ul>
             <button
@@ -286,6 +300,7 @@ BAN001,Banana`;
                       <th className="px-3 py-2 text-left font-medium text-gray-900">{t('sku')}</th>
                       <th className="px-3 py-2 text-left font-medium text-gray-900">{t('productName')}</th>
                       <th className="px-3 py-2 text-left font-medium text-gray-900">{t('unit')}</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-900">{t('category')}</th>
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-gray-200">
@@ -294,6 +309,7 @@ BAN001,Banana`;
                         <td className="px-3 py-2">{row.sku}</td>
                         <td className="px-3 py-2">{row.name}</td>
                         <td className="px-3 py-2">{row.unit || 'piece'}</td>
+                        <td className="px-3 py-2">{row.category || '–'}</td>
                       </tr>
                     ))}
                   </tbody>
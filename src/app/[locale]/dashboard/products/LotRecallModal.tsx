@@ -0,0 +1,134 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'react-toastify';
+import { LotRecipient, StockLotBalance, getLotRecipients } from '../../../lib/lot-api';
+
+interface LotRecallModalProps {
+  lot: StockLotBalance | null;
+  unit: string;
+  onClose: () => void;
+}
+
+export default function LotRecallModal({ lot, unit, onClose }: LotRecallModalProps) {
+  const t = useTranslations('products.lots.recall');
+  const [recipients, setRecipients] = useState<LotRecipient[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!lot) return;
+
+    const loadRecipients = async () => {
+      setLoading(true);
+      try {
+        setRecipients(await getLotRecipients(lot.id));
+      } catch (err: any) {
+        console.error('Error loading lot recipients:', err);
+        toast.error(`${t('loadError')}: ${err.message}`);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRecipients();
+  }, [lot?.id]);
+
+  // Export the report so it can be handed on, e.g. to the supplier or the food safety authority
+  const handleExportCsv = () => {
+    if (!lot) return;
+
+    const escape = (value: unknown) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+    const rows = [
+      ['order_id', 'order_date', 'delivery_date', 'status', 'customer', 'email', 'phone', 'address', `quantity_${unit}`],
+      ...recipients.map(recipient => [
+        recipient.order_id,
+        recipient.order_date,
+        recipient.delivery_date,
+        recipient.status,
+        recipient.customer_name,
+        recipient.customer_email,
+        recipient.customer_phone,
+        recipient.delivery_address,
+        recipient.quantity
+      ])
+    ];
+    const csv = rows.map(row => row.map(escape).join(',')).join('\n');
+
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    link.download = `lot-${lot.lot_number}-recipients.csv`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  if (!lot) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black bg-opacity-30">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl p-6 relative animate-fadeIn max-h-[90vh] overflow-y-auto">
+        <button
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 text-2xl"
+          onClick={onClose}
+        >
+          &times;
+        </button>
+        <h2 className="text-xl font-bold mb-1">{t('title', { lot: lot.lot_number })}</h2>
+        <p className="text-gray-500 mb-4 text-sm">{t('description')}</p>
+
+        {loading ? (
+          <div className="py-8 text-center text-sm text-gray-500">{t('loading')}</div>
+        ) : recipients.length === 0 ? (
+          <div className="py-8 text-center text-sm text-gray-500">{t('empty')}</div>
+        ) : (
+          <>
+            <div className="flex justify-end mb-3">
+              <button
+                type="button"
+                className="px-3 py-1 bg-emerald-100 text-emerald-700 rounded-lg hover:bg-emerald-200 transition-colors font-medium text-xs"
+                onClick={handleExportCsv}
+              >
+                {t('exportCsv')}
+              </button>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-100 text-sm">
+                <thead className="bg-gradient-to-r from-emerald-50 to-teal-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 uppercase">{t('customer')}</th>
+                    <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 uppercase">{t('order')}</th>
+                    <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 uppercase">{t('deliveryDate')}</th>
+                    <th className="px-3 py-2 text-right text-xs font-semibold text-gray-700 uppercase">{t('quantity', { unit })}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {recipients.map(recipient => (
+                    <tr key={recipient.order_id}>
+                      <td className="px-3 py-2">
+                        <div className="font-medium text-gray-900">{recipient.customer_name || t('guest')}</div>
+                        {recipient.customer_email && (
+                          <div className="text-xs text-gray-500">{recipient.customer_email}</div>
+                        )}
+                        {recipient.customer_phone && (
+                          <div className="text-xs text-gray-500">{recipient.customer_phone}</div>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-gray-600">
+                        <div>#{recipient.order_id.substring(0, 8)}</div>
+                        <div className="text-xs text-gray-500">{recipient.status}</div>
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-gray-600">
+                        {recipient.delivery_date ? new Date(recipient.delivery_date).toLocaleDateString() : '–'}
+                      </td>
+                      <td className="px-3 py-2 text-right font-medium text-gray-900">{recipient.quantity}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
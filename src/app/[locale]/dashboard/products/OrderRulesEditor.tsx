@@ -0,0 +1,112 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { Product } from '../../../lib/product-api';
+
+// Form state of a product's order rules, kept as strings while the admin types
+export interface OrderRulesRow {
+  min_order_quantity: string;
+  quantity_step: string;
+  lead_time_days: string;
+}
+
+export const emptyOrderRules: OrderRulesRow = { min_order_quantity: '', quantity_step: '', lead_time_days: '0' };
+
+export function toOrderRulesRow(product?: Pick<Product, 'min_order_quantity' | 'quantity_step' | 'lead_time_days'>): OrderRulesRow {
+  return {
+    min_order_quantity: product?.min_order_quantity?.toString() ?? '',
+    quantity_step: product?.quantity_step?.toString() ?? '',
+    lead_time_days: (product?.lead_time_days ?? 0).toString()
+  };
+}
+
+/**
+ * Validate the order rules of the form; empty quantity fields mean no rule
+ * @returns The columns to save, or the translation key of the first problem found
+ */
+export function parseOrderRulesRow(row: OrderRulesRow): {
+  rules: { min_order_quantity: number | null; quantity_step: number | null; lead_time_days: number };
+} | { error: string } {
+  const minQuantity = row.min_order_quantity.trim() ? parseFloat(row.min_order_quantity) : null;
+  const step = row.quantity_step.trim() ? parseFloat(row.quantity_step) : null;
+  const leadTime = row.lead_time_days.trim() ? Number(row.lead_time_days) : 0;
+
+  if (minQuantity !== null && (isNaN(minQuantity) || minQuantity <= 0)) {
+    return { error: 'orderRules.invalidMinimum' };
+  }
+  if (step !== null && (isNaN(step) || step <= 0)) {
+    return { error: 'orderRules.invalidStep' };
+  }
+  if (!Number.isInteger(leadTime) || leadTime < 0) {
+    return { error: 'orderRules.invalidLeadTime' };
+  }
+
+  return { rules: { min_order_quantity: minQuantity, quantity_step: step, lead_time_days: leadTime } };
+}
+
+interface OrderRulesEditorProps {
+  row: OrderRulesRow;
+  onChange: (row: OrderRulesRow) => void;
+  unit?: string;
+  disabled?: boolean;
+}
+
+export default function OrderRulesEditor({ row, onChange, unit, disabled }: OrderRulesEditorProps) {
+  const t = useTranslations('products.orderRules');
+
+  const inputClass = 'block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm';
+
+  const updateField = (field: keyof OrderRulesRow, value: string) => {
+    onChange({ ...row, [field]: value });
+  };
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-3 space-y-2">
+      <div>
+        <span className="block font-medium text-sm">{t('title')}</span>
+        <span className="block text-xs text-gray-400">{t('help')}</span>
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        <div>
+          <label className="block text-xs text-gray-500">{t('minimum', { unit: unit || '' })}</label>
+          <input
+            type="number"
+            step="any"
+            min="0"
+            className={inputClass}
+            placeholder={t('none')}
+            value={row.min_order_quantity}
+            onChange={e => updateField('min_order_quantity', e.target.value)}
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500">{t('step', { unit: unit || '' })}</label>
+          <input
+            type="number"
+            step="any"
+            min="0"
+            className={inputClass}
+            placeholder={t('none')}
+            value={row.quantity_step}
+            onChange={e => updateField('quantity_step', e.target.value)}
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500">{t('leadTime')}</label>
+          <input
+            type="number"
+            step="1"
+            min="0"
+            className={inputClass}
+            placeholder="0"
+            value={row.lead_time_days}
+            onChange={e => updateField('lead_time_days', e.target.value)}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { ProductPack, PackInput } from '../../../lib/product-api';
+
+// Form state of one pack variant, kept as strings while the admin types
+export interface PackRow {
+  id?: string;
+  name: string;
+  sku_suffix: string;
+  base_quantity: string;
+  price: string;
+  is_active: boolean;
+}
+
+export function toPackRows(packs?: ProductPack[]): PackRow[] {
+  return [...(packs || [])]
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map(pack => ({
+      id: pack.id,
+      name: pack.name,
+      sku_suffix: pack.sku_suffix,
+      base_quantity: pack.base_quantity.toString(),
+      price: pack.price.toString(),
+      is_active: pack.is_active
+    }));
+}
+
+/**
+ * Validate the pack rows of the form; packs keep the order of the rows
+ * @returns The packs to save, or the translation key of the first problem found
+ */
+export function parsePackRows(rows: PackRow[]): { packs: PackInput[] } | { error: string } {
+  const packs: PackInput[] = [];
+
+  for (let index = 0; index < rows.length; index++) {
+    const row = rows[index];
+    const baseQuantity = parseFloat(row.base_quantity);
+    const price = parseFloat(row.price);
+
+    if (!row.name.trim() || !row.sku_suffix.trim()) {
+      return { error: 'packs.nameRequired' };
+    }
+    if (isNaN(baseQuantity) || baseQuantity <= 0) {
+      return { error: 'packs.invalidSize' };
+    }
+    if (isNaN(price) || price < 0) {
+      return { error: 'packs.invalidPrice' };
+    }
+    if (packs.some(pack => pack.sku_suffix === row.sku_suffix.trim())) {
+      return { error: 'packs.duplicateSuffix' };
+    }
+
+    packs.push({
+      id: row.id,
+      name: row.name.trim(),
+      sku_suffix: row.sku_suffix.trim(),
+      base_quantity: baseQuantity,
+      price,
+      is_active: row.is_active,
+      sort_order: index
+    });
+  }
+
+  return { packs };
+}
+
+interface PacksEditorProps {
+  rows: PackRow[];
+  onChange: (rows: PackRow[]) => void;
+  sku?: string;
+  unit?: string;
+  disabled?: boolean;
+}
+
+export default function PacksEditor({ rows, onChange, sku, unit, disabled }: PacksEditorProps) {
+  const t = useTranslations('products.packs');
+
+  const inputClass = 'block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm';
+
+  const updateRow = (index: number, changes: Partial<PackRow>) => {
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <span className="block font-medium text-sm">{t('title')}</span>
+          <span className="block text-xs text-gray-400">{t('help', { unit: unit || '' })}</span>
+        </div>
+        <button
+          type="button"
+          className="px-3 py-1 bg-emerald-100 text-emerald-700 rounded-lg hover:bg-emerald-200 transition-colors font-medium text-xs"
+          onClick={() => onChange([...rows, { name: '', sku_suffix: '', base_quantity: '', price: '', is_active: true }])}
+          disabled={disabled}
+        >
+          {t('add')}
+        </button>
+      </div>
+      {rows.map((row, index) => (
+        <div key={row.id || index} className="border border-gray-200 rounded-lg p-2 space-y-2 bg-white">
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-xs text-gray-500">{t('name')}</label>
+              <input
+                type="text"
+                className={inputClass}
+                placeholder={t('namePlaceholder')}
+                value={row.name}
+                onChange={e => updateRow(index, { name: e.target.value })}
+                disabled={disabled}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500">{t('skuSuffix')}</label>
+              <input
+                type="text"
+                className={inputClass}
+                placeholder="-C10"
+                value={row.sku_suffix}
+                onChange={e => updateRow(index, { sku_suffix: e.target.value })}
+                disabled={disabled}
+              />
+              {sku && row.sku_suffix && (
+                <span className="text-xs text-gray-400">{sku}{row.sku_suffix}</span>
+              )}
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500">{t('size', { unit: unit || '' })}</label>
+              <input
+                type="number"
+                step="any"
+                min="0"
+                className={inputClass}
+                placeholder="10"
+                value={row.base_quantity}
+                onChange={e => updateRow(index, { base_quantity: e.target.value })}
+                disabled={disabled}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500">{t('price')}</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                className={inputClass}
+                placeholder="0.00"
+                value={row.price}
+                onChange={e => updateRow(index, { price: e.target.value })}
+                disabled={disabled}
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={row.is_active}
+                onChange={e => updateRow(index, { is_active: e.target.checked })}
+                disabled={disabled}
+              />
+              {t('active')}
+            </label>
+            <button
+              type="button"
+              className="px-3 py-1 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors font-medium text-xs"
+              onClick={() => onChange(rows.filter((_, i) => i !== index))}
+              disabled={disabled}
+            >
+              {t('remove')}
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
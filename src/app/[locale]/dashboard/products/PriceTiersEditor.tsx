@@ -0,0 +1,118 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { ProductPriceTier, PriceTierInput } from '../../../lib/product-api';
+
+// Form state of one quantity break, kept as strings while the admin types
+export interface PriceTierRow {
+  min_quantity: string;
+  price: string;
+}
+
+export function toPriceTierRows(tiers?: ProductPriceTier[]): PriceTierRow[] {
+  return [...(tiers || [])]
+    .sort((a, b) => a.min_quantity - b.min_quantity)
+    .map(tier => ({ min_quantity: tier.min_quantity.toString(), price: tier.price.toString() }));
+}
+
+/**
+ * Validate the tier rows of the form
+ * @returns The tiers to save, or the translation key of the first problem found
+ */
+export function parsePriceTierRows(rows: PriceTierRow[]): { tiers: PriceTierInput[] } | { error: string } {
+  const tiers: PriceTierInput[] = [];
+
+  for (const row of rows) {
+    const minQuantity = parseFloat(row.min_quantity);
+    const price = parseFloat(row.price);
+
+    if (isNaN(minQuantity) || minQuantity <= 0) {
+      return { error: 'priceTiers.invalidQuantity' };
+    }
+    if (isNaN(price) || price < 0) {
+      return { error: 'priceTiers.invalidPrice' };
+    }
+    if (tiers.some(tier => tier.min_quantity === minQuantity)) {
+      return { error: 'priceTiers.duplicateQuantity' };
+    }
+
+    tiers.push({ min_quantity: minQuantity, price });
+  }
+
+  return { tiers: tiers.sort((a, b) => a.min_quantity - b.min_quantity) };
+}
+
+interface PriceTiersEditorProps {
+  rows: PriceTierRow[];
+  onChange: (rows: PriceTierRow[]) => void;
+  unit?: string;
+  disabled?: boolean;
+}
+
+export default function PriceTiersEditor({ rows, onChange, unit, disabled }: PriceTiersEditorProps) {
+  const t = useTranslations('products.priceTiers');
+
+  const inputClass = 'block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm';
+
+  const updateRow = (index: number, field: keyof PriceTierRow, value: string) => {
+    onChange(rows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <div>
+          <span className="block font-medium text-sm">{t('title')}</span>
+          <span className="block text-xs text-gray-400">{t('help')}</span>
+        </div>
+        <button
+          type="button"
+          className="px-3 py-1 bg-emerald-100 text-emerald-700 rounded-lg hover:bg-emerald-200 transition-colors font-medium text-xs"
+          onClick={() => onChange([...rows, { min_quantity: '', price: '' }])}
+          disabled={disabled}
+        >
+          {t('add')}
+        </button>
+      </div>
+      {rows.map((row, index) => (
+        <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+          <div>
+            <label className="block text-xs text-gray-500">{t('fromQuantity', { unit: unit || '' })}</label>
+            <input
+              type="number"
+              step="any"
+              min="0"
+              className={inputClass}
+              placeholder="10"
+              value={row.min_quantity}
+              onChange={e => updateRow(index, 'min_quantity', e.target.value)}
+              disabled={disabled}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500">{t('unitPrice')}</label>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              className={inputClass}
+              placeholder="0.00"
+              value={row.price}
+              onChange={e => updateRow(index, 'price', e.target.value)}
+              disabled={disabled}
+            />
+          </div>
+          <button
+            type="button"
+            className="mt-4 text-red-500 hover:text-red-700 text-lg px-2"
+            onClick={() => onChange(rows.filter((_, i) => i !== index))}
+            disabled={disabled}
+            aria-label={t('remove')}
+          >
+            &times;
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
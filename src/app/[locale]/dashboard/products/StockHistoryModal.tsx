@@ -0,0 +1,394 @@
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'react-toastify';
+import {
+  Product,
+  StockMovement,
+  StockMovementReason,
+  MANUAL_STOCK_REASONS,
+  adjustProductStock,
+  getProductById,
+  getStockMovements,
+  getAvailableStock
+} from '../../../lib/product-api';
+import {
+  StockLotBalance,
+  receiveStockLot,
+  adjustStockLot,
+  getProductLots,
+  getFreeLotQuantity,
+  isLotExpired
+} from '../../../lib/lot-api';
+import LotRecallModal from './LotRecallModal';
+
+interface StockHistoryModalProps {
+  open: boolean;
+  onClose: () => void;
+  onStockChange: (product: Product) => void;
+  product: Product | null;
+}
+
+export default function StockHistoryModal({ open, onClose, onStockChange, product }: StockHistoryModalProps) {
+  const t = useTranslations('products.stockHistory');
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [quantity, setQuantity] = useState('');
+  const [reason, setReason] = useState<StockMovementReason>('goods_received');
+  const [notes, setNotes] = useState('');
+  const [lots, setLots] = useState<StockLotBalance[]>([]);
+  const [lotId, setLotId] = useState('');
+  const [lotNumber, setLotNumber] = useState('');
+  const [supplierName, setSupplierName] = useState('');
+  const [harvestDate, setHarvestDate] = useState('');
+  const [expiryDate, setExpiryDate] = useState('');
+  const [recallLot, setRecallLot] = useState<StockLotBalance | null>(null);
+
+  const loadMovements = async (productId: string) => {
+    setLoading(true);
+    try {
+      const [data, lotData] = await Promise.all([
+        getStockMovements(productId),
+        // Used up lots are listed too, they still matter for a recall
+        getProductLots(productId, true)
+      ]);
+      setMovements(data);
+      setLots(lotData);
+    } catch (err: any) {
+      console.error('Error loading stock movements:', err);
+      toast.error(`${t('loadError')}: ${err.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open && product) {
+      loadMovements(product.id);
+    }
+  }, [open, product]);
+
+  const resetForm = () => {
+    setQuantity('');
+    setReason('goods_received');
+    setNotes('');
+    setLotId('');
+    setLotNumber('');
+    setSupplierName('');
+    setHarvestDate('');
+    setExpiryDate('');
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!product) return;
+
+    const amount = parseFloat(quantity);
+    if (!amount) {
+      toast.error(t('quantityRequired'));
+      return;
+    }
+
+    // Spoilage always takes stock away, goods received and returns always add it
+    const delta = reason === 'spoilage'
+      ? -Math.abs(amount)
+      : reason === 'manual_adjustment' ? amount : Math.abs(amount);
+
+    // Goods receipts are booked as a new lot
+    if (reason === 'goods_received' && !lotNumber.trim()) {
+      toast.error(t('lotNumberRequired'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      let updatedProduct: Product;
+      if (reason === 'goods_received') {
+        await receiveStockLot(product.id, {
+          lot_number: lotNumber.trim(),
+          quantity: delta,
+          supplier_name: supplierName.trim() || undefined,
+          harvest_date: harvestDate || undefined,
+          expiry_date: expiryDate || undefined,
+          notes: notes || undefined
+        });
+        updatedProduct = await getProductById(product.id);
+      } else if (lotId) {
+        await adjustStockLot(lotId, delta, reason, notes || undefined);
+        updatedProduct = await getProductById(product.id);
+      } else {
+        updatedProduct = await adjustProductStock(product.id, delta, reason, notes || undefined);
+      }
+      toast.success(t('adjustSuccess'));
+      resetForm();
+      onStockChange(updatedProduct);
+      await loadMovements(product.id);
+    } catch (err: any) {
+      console.error('Error adjusting stock:', err);
+      toast.error(`${t('adjustError')}: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatDelta = (delta: number) => {
+    if (!delta) return '–';
+    return delta > 0 ? `+${delta}` : `${delta}`;
+  };
+
+  if (!open || !product) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-30">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl p-6 relative animate-fadeIn max-h-[90vh] overflow-y-auto">
+        <button
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 text-2xl"
+          onClick={() => {
+            resetForm();
+            onClose();
+          }}
+          disabled={saving}
+        >
+          &times;
+        </button>
+        <h2 className="text-xl font-bold mb-1">{t('title')}</h2>
+        <p className="text-gray-500 mb-4 text-sm">{product.name_en}</p>
+
+        {/* Current Stock */}
+        <div className="grid grid-cols-3 gap-3 mb-6">
+          <div className="bg-gradient-to-br from-emerald-50 to-teal-50 rounded-lg p-3">
+            <div className="text-xl font-bold text-emerald-700">{product.stock}</div>
+            <div className="text-xs text-gray-600">{t('onHand')}</div>
+          </div>
+          <div className="bg-gradient-to-br from-amber-50 to-orange-50 rounded-lg p-3">
+            <div className="text-xl font-bold text-amber-700">{product.reserved_stock || 0}</div>
+            <div className="text-xs text-gray-600">{t('reserved')}</div>
+          </div>
+          <div className="bg-gradient-to-br from-teal-50 to-cyan-50 rounded-lg p-3">
+            <div className="text-xl font-bold text-teal-700">{getAvailableStock(product)}</div>
+            <div className="text-xs text-gray-600">{t('available')}</div>
+          </div>
+        </div>
+
+        {/* Adjust Stock */}
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-4 gap-3 mb-6 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">{t('reason')}</label>
+            <select
+              className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+              value={reason}
+              onChange={e => setReason(e.target.value as StockMovementReason)}
+              disabled={saving}
+            >
+              {MANUAL_STOCK_REASONS.map(value => (
+                <option key={value} value={value}>{t(`reasons.${value}`)}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">{t('quantity')}</label>
+            <input
+              type="number"
+              step="any"
+              className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+              value={quantity}
+              onChange={e => setQuantity(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">{t('notes')}</label>
+            <input
+              type="text"
+              className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+              value={notes}
+              onChange={e => setNotes(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+          <button
+            type="submit"
+            className="px-4 py-2 rounded bg-green-600 text-white font-semibold hover:bg-green-700 disabled:bg-green-300 text-sm"
+            disabled={saving}
+          >
+            {saving ? t('saving') : t('adjust')}
+          </button>
+        </form>
+
+        {/* Lot details of a goods receipt */}
+        {reason === 'goods_received' && (
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 -mt-3 mb-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">{t('lotNumber')}</label>
+              <input
+                type="text"
+                className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                value={lotNumber}
+                onChange={e => setLotNumber(e.target.value)}
+                disabled={saving}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">{t('supplier')}</label>
+              <input
+                type="text"
+                className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                value={supplierName}
+                onChange={e => setSupplierName(e.target.value)}
+                disabled={saving}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">{t('harvestDate')}</label>
+              <input
+                type="date"
+                className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                value={harvestDate}
+                onChange={e => setHarvestDate(e.target.value)}
+                disabled={saving}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">{t('expiryDate')}</label>
+              <input
+                type="date"
+                className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                value={expiryDate}
+                onChange={e => setExpiryDate(e.target.value)}
+                disabled={saving}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Other movements can be booked against one lot */}
+        {reason !== 'goods_received' && lots.some(lot => lot.remaining_quantity > 0) && (
+          <div className="-mt-3 mb-6 sm:w-1/2">
+            <label className="block text-sm font-medium text-gray-700">{t('lot')}</label>
+            <select
+              className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+              value={lotId}
+              onChange={e => setLotId(e.target.value)}
+              disabled={saving}
+            >
+              <option value="">{t('noLot')}</option>
+              {lots.filter(lot => lot.remaining_quantity > 0).map(lot => (
+                <option key={lot.id} value={lot.id}>{lot.lot_number}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {/* Lots */}
+        {lots.length > 0 && (
+          <div className="mb-6">
+            <h3 className="font-semibold text-sm text-gray-700 mb-2">{t('lots')}</h3>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-100 text-sm">
+                <thead className="bg-gradient-to-r from-emerald-50 to-teal-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 uppercase">{t('lotNumber')}</th>
+                    <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 uppercase">{t('supplier')}</th>
+                    <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 uppercase">{t('expiryDate')}</th>
+                    <th className="px-3 py-2 text-right text-xs font-semibold text-gray-700 uppercase">{t('onHand')}</th>
+                    <th className="px-3 py-2 text-right text-xs font-semibold text-gray-700 uppercase">{t('available')}</th>
+                    <th className="px-3 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {lots.map(lot => (
+                    <tr key={lot.id}>
+                      <td className="px-3 py-2">
+                        <div className="font-medium text-gray-900">{lot.lot_number}</div>
+                        {lot.harvest_date && (
+                          <div className="text-xs text-gray-500">
+                            {t('harvestedOn', { date: new Date(lot.harvest_date).toLocaleDateString() })}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-gray-600">{lot.supplier_name || '–'}</td>
+                      <td className={`px-3 py-2 whitespace-nowrap ${isLotExpired(lot) ? 'text-red-600 font-medium' : 'text-gray-600'}`}>
+                        {lot.expiry_date ? new Date(lot.expiry_date).toLocaleDateString() : '–'}
+                        {isLotExpired(lot) && <div className="text-xs">{t('expired')}</div>}
+                      </td>
+                      <td className="px-3 py-2 text-right text-gray-900">{lot.remaining_quantity}</td>
+                      <td className="px-3 py-2 text-right text-emerald-700">{getFreeLotQuantity(lot)}</td>
+                      <td className="px-3 py-2 text-right">
+                        <button
+                          type="button"
+                          className="text-xs text-emerald-700 hover:underline whitespace-nowrap"
+                          onClick={() => setRecallLot(lot)}
+                        >
+                          {t('recipients')}
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* Movements */}
+        {loading ? (
+          <div className="py-8 text-center text-sm text-gray-500">{t('loading')}</div>
+        ) : movements.length === 0 ? (
+          <div className="py-8 text-center text-sm text-gray-500">{t('empty')}</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-100 text-sm">
+              <thead className="bg-gradient-to-r from-emerald-50 to-teal-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 uppercase">{t('date')}</th>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 uppercase">{t('reason')}</th>
+                  <th className="px-3 py-2 text-right text-xs font-semibold text-gray-700 uppercase">{t('onHand')}</th>
+                  <th className="px-3 py-2 text-right text-xs font-semibold text-gray-700 uppercase">{t('reserved')}</th>
+                  <th className="px-3 py-2 text-right text-xs font-semibold text-gray-700 uppercase">{t('stockAfter')}</th>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 uppercase">{t('by')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {movements.map(movement => (
+                  <tr key={movement.id}>
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-600">
+                      {new Date(movement.created_at).toLocaleString()}
+                    </td>
+                    <td className="px-3 py-2">
+                      <div className="font-medium text-gray-900">{t(`reasons.${movement.reason}`)}</div>
+                      {movement.order_id && (
+                        <div className="text-xs text-gray-500">#{movement.order_id.substring(0, 8)}</div>
+                      )}
+                      {movement.notes && (
+                        <div className="text-xs text-gray-500">{movement.notes}</div>
+                      )}
+                    </td>
+                    <td className={`px-3 py-2 text-right font-medium ${movement.quantity_delta < 0 ? 'text-red-600' : 'text-emerald-700'}`}>
+                      {formatDelta(movement.quantity_delta)}
+                    </td>
+                    <td className="px-3 py-2 text-right text-amber-700">
+                      {formatDelta(movement.reserved_delta)}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-900">
+                      {movement.stock_after}
+                      {movement.reserved_after > 0 && (
+                        <span className="text-xs text-gray-500"> {t('reservedAfter', { count: movement.reserved_after })}</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-gray-600">
+                      {movement.user?.name || movement.user?.email || t('system')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <LotRecallModal lot={recallLot} unit={product.unit} onClose={() => setRecallLot(null)} />
+    </div>
+  );
+}
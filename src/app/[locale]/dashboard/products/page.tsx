@@ -7,6 +7,8 @@ import RouteProtection from '../../../components/RouteProtection';
 import AddProductModal from './AddProductModal';
 import EditProductModal from './EditProductModal';
 import ImportProductModal from './ImportProductModal';
+import StockHistoryModal from './StockHistoryModal';
+import CategoriesModal from './CategoriesModal';
 import Pagination from '@/app/components/Pagination';
 import { Product, getPaginatedProducts, deleteProduct, toggleProductStatus } from '../../../lib/product-api';
 import Loading from '@/app/components/Loading';
@@ -24,6 +26,8 @@ export default function ProductsPage() {
   const [isAddModalOpen, setAddModalOpen] = useState(false);
   const [isEditModalOpen, setEditModalOpen] = useState(false);
   const [isImportModalOpen, setImportModalOpen] = useState(false);
+  const [isStockHistoryOpen, setStockHistoryOpen] = useState(false);
+  const [isCategoriesModalOpen, setCategoriesModalOpen] = useState(false);
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
 
   // Filtering state
@@ -233,6 +237,35 @@ export default function ProductsPage() {
     setEditModalOpen(true);
   };
 
+  const handleStockHistoryClick = (product: Product) => {
+    setSelectedProduct(product);
+    setStockHistoryOpen(true);
+  };
+
+  // Keep the list in sync after a stock adjustment from the history modal
+  const handleStockChange = (updatedProduct: Product) => {
+    setProducts(prev => prev.map(p => (p.id === updatedProduct.id ? updatedProduct : p)));
+    setSelectedProduct(updatedProduct);
+  };
+
+  // Category names shown in the list may have changed
+  const handleCategoriesChange = async () => {
+    try {
+      const result = await getPaginatedProducts(
+        currentPage,
+        itemsPerPage,
+        sortField,
+        sortDirection,
+        searchTerm || undefined
+      );
+
+      setProducts(result.products);
+    } catch (err: any) {
+      console.error('Error refreshing products after category change:', err);
+      toast.error(`${t('refreshError')}: ${err.message}`);
+    }
+  };
+
   const handleImportComplete = async (importedCount: number) => {
     try {
       // Refresh products list after import
@@ -320,6 +353,15 @@ export default function ProductsPage() {
             </p>
           </div>
           <div className="mt-4 lg:mt-0 flex flex-col sm:flex-row gap-2">
+            <button
+              onClick={() => setCategoriesModalOpen(true)}
+              className="px-4 py-2 bg-gradient-to-r from-emerald-500 to-teal-600 text-white rounded-lg hover:from-emerald-600 hover:to-teal-700 transition-all duration-200 shadow-lg hover:shadow-xl font-medium flex items-center space-x-2 text-sm"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+              </svg>
+              <span>{t('categories.open')}</span>
+            </button>
             <button
               onClick={() => setImportModalOpen(true)}
                className="px-4 py-2 bg-gradient-to-r from-emerald-500 to-teal-600 text-white rounded-lg hover:from-emerald-600 hover:to-teal-700 transition-all duration-200 shadow-lg hover:shadow-xl font-medium flex items-center space-x-2 text-sm"
@@ -418,6 +460,9 @@ export default function ProductsPage() {
                         <div>
                           <span className="font-medium">{t('unit')}:</span> {product.unit}
                         </div>
+                        <div>
+                          <span className="font-medium">{t('category')}:</span> {product.category?.name_en || '–'}
+                        </div>
                       </div>
                       
                       <div className="flex flex-wrap gap-2">
@@ -427,6 +472,12 @@ export default function ProductsPage() {
                         >
                           {t('edit')}
                         </button>
+                        <button
+                          onClick={() => handleStockHistoryClick(product)}
+                          className="px-3 py-1 bg-emerald-100 text-emerald-700 rounded-lg hover:bg-emerald-200 transition-colors font-medium text-xs"
+                        >
+                          {t('stockHistory.open')}
+                        </button>
                         <button
                           onClick={() => handleDelete(product.id)}
                           className="px-3 py-1 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors font-medium text-xs"
@@ -472,6 +523,9 @@ export default function ProductsPage() {
                     {renderSortIcon('unit')}
                   </div>
                 </th>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                  {t('category')}
+                </th>
                 <th className="px-4 py-2 text-center text-xs font-semibold text-gray-700 uppercase tracking-wider">
                   {t('status')}
                 </th>
@@ -499,6 +553,9 @@ export default function ProductsPage() {
                     <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600 font-medium">
                       {product.unit}
                     </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600">
+                      {product.category?.name_en || '–'}
+                    </td>
                     <td className="px-4 py-2 whitespace-nowrap text-center">
                       <Switch
                         checked={product.is_active} 
@@ -517,6 +574,15 @@ export default function ProductsPage() {
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
                           </svg>
                         </button>
+                        <button
+                          onClick={() => handleStockHistoryClick(product)}
+                          className="text-emerald-600 hover:text-emerald-900 p-1 hover:bg-emerald-50 rounded-lg transition-colors"
+                          title={t('stockHistory.open')}
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                          </svg>
+                        </button>
                         <button
                           onClick={() => handleDelete(product.id)}
                           className="text-red-600 hover:text-red-900 p-1 hover:bg-red-50 rounded-lg transition-colors"
@@ -574,6 +640,21 @@ export default function ProductsPage() {
         product={selectedProduct}
       />
 
+      {/* Stock History Modal */}
+      <StockHistoryModal
+        open={isStockHistoryOpen}
+        onClose={() => setStockHistoryOpen(false)}
+        onStockChange={handleStockChange}
+        product={selectedProduct}
+      />
+
+      {/* Categories Modal */}
+      <CategoriesModal
+        open={isCategoriesModalOpen}
+        onClose={() => setCategoriesModalOpen(false)}
+        onCategoriesChange={handleCategoriesChange}
+      />
+
       {/* Import Product Modal */}
       <ImportProductModal
         isOpen={isImportModalOpen}
@@ -0,0 +1,408 @@
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'react-toastify';
+import RouteProtection from '../../../components/RouteProtection';
+import Loading from '@/app/components/Loading';
+import {
+  PurchaseOrder,
+  PurchaseOrderItem,
+  PurchaseOrderStatus,
+  ReceivePurchaseOrderItem,
+  getPurchaseOrders,
+  updatePurchaseOrderStatus,
+  updatePurchaseOrderItem,
+  deletePurchaseOrder,
+  receivePurchaseOrder
+} from '../../../lib/purchase-order-api';
+
+const statusStyles: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  sent: 'bg-blue-100 text-blue-700',
+  received: 'bg-emerald-100 text-emerald-700',
+  cancelled: 'bg-red-100 text-red-700'
+};
+
+// Receiving form state of one line, kept as strings while the admin types
+interface ReceiveRow {
+  quantity: string;
+  lot_number: string;
+  expiry_date: string;
+}
+
+export default function PurchaseOrdersPage() {
+  const t = useTranslations('purchaseOrders');
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | ''>('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // Receiving
+  const [receiving, setReceiving] = useState<PurchaseOrder | null>(null);
+  const [receiveRows, setReceiveRows] = useState<Record<string, ReceiveRow>>({});
+
+  const loadPurchaseOrders = async () => {
+    setPurchaseOrders(await getPurchaseOrders(statusFilter || undefined));
+  };
+
+  useEffect(() => {
+    async function loadData() {
+      try {
+        setLoading(true);
+        await loadPurchaseOrders();
+      } catch (err: any) {
+        console.error('Error loading purchase orders:', err);
+        toast.error(`${t('loadError')}: ${err.message}`);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadData();
+  }, [statusFilter]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleStatusChange = async (purchaseOrder: PurchaseOrder, status: 'sent' | 'cancelled') => {
+    if (status === 'cancelled' && !confirm(t('cancelConfirm'))) return;
+
+    setSaving(true);
+    try {
+      await updatePurchaseOrderStatus(purchaseOrder.id, status);
+      await loadPurchaseOrders();
+      toast.success(t('statusUpdated'));
+    } catch (err: any) {
+      console.error('Error updating purchase order status:', err);
+      toast.error(`${t('saveError')}: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (purchaseOrder: PurchaseOrder) => {
+    if (!confirm(t('deleteConfirm'))) return;
+
+    setSaving(true);
+    try {
+      await deletePurchaseOrder(purchaseOrder.id);
+      await loadPurchaseOrders();
+      toast.success(t('deleteSuccess'));
+    } catch (err: any) {
+      console.error('Error deleting purchase order:', err);
+      toast.error(`${t('deleteError')}: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleItemChange = async (item: PurchaseOrderItem, field: 'quantity' | 'unit_cost', value: string) => {
+    const parsed = parseFloat(value);
+    if (parsed === item[field]) return;
+
+    if (isNaN(parsed) || parsed < 0 || (field === 'quantity' && parsed === 0)) {
+      toast.error(t('invalidQuantity'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await updatePurchaseOrderItem(item.id, {
+        quantity: item.quantity,
+        unit_cost: item.unit_cost,
+        [field]: parsed
+      });
+      await loadPurchaseOrders();
+    } catch (err: any) {
+      console.error('Error updating purchase order item:', err);
+      toast.error(`${t('saveError')}: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openReceive = (purchaseOrder: PurchaseOrder) => {
+    setReceiving(purchaseOrder);
+    setReceiveRows(Object.fromEntries((purchaseOrder.items || []).map(item => [
+      item.id,
+      { quantity: item.quantity.toString(), lot_number: '', expiry_date: '' }
+    ])));
+  };
+
+  const updateReceiveRow = (itemId: string, field: keyof ReceiveRow, value: string) => {
+    setReceiveRows(prev => ({ ...prev, [itemId]: { ...prev[itemId], [field]: value } }));
+  };
+
+  const handleReceive = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!receiving) return;
+
+    const items: ReceivePurchaseOrderItem[] = [];
+    for (const item of receiving.items || []) {
+      const row = receiveRows[item.id];
+      const quantity = parseFloat(row.quantity);
+      if (isNaN(quantity) || quantity < 0) {
+        toast.error(t('invalidQuantity'));
+        return;
+      }
+      items.push({
+        item_id: item.id,
+        quantity,
+        lot_number: row.lot_number.trim() || undefined,
+        expiry_date: row.expiry_date || undefined
+      });
+    }
+
+    setSaving(true);
+    try {
+      await receivePurchaseOrder(receiving.id, items);
+      toast.success(t('receiveSuccess'));
+      setReceiving(null);
+      await loadPurchaseOrders();
+    } catch (err: any) {
+      console.error('Error receiving purchase order:', err);
+      toast.error(`${t('receiveError')}: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <Loading />;
+  }
+
+  return (
+    <RouteProtection>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="bg-white/80 backdrop-blur-lg rounded-lg shadow-2xl border border-white/20 p-4 lg:p-6">
+          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between">
+            <div>
+              <h1 className="text-xl lg:text-xl font-bold bg-gradient-to-r from-emerald-600 to-teal-600 bg-clip-text text-transparent">
+                {t('title')}
+              </h1>
+              <p className="mt-1 text-gray-600 text-base">{t('subtitle')}</p>
+            </div>
+            <div className="mt-4 lg:mt-0">
+              <select
+                className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                value={statusFilter}
+                onChange={e => setStatusFilter(e.target.value as PurchaseOrderStatus | '')}
+              >
+                <option value="">{t('allStatuses')}</option>
+                {(Object.keys(statusStyles) as PurchaseOrderStatus[]).map(status => (
+                  <option key={status} value={status}>{t(`status.${status}`)}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+
+        {purchaseOrders.length === 0 ? (
+          <div className="bg-white/80 backdrop-blur-lg rounded-lg shadow-2xl border border-white/20 p-8 text-center text-sm text-gray-500">
+            {t('empty')}
+          </div>
+        ) : (
+          purchaseOrders.map(purchaseOrder => {
+            const isOpen = purchaseOrder.status === 'draft' || purchaseOrder.status === 'sent';
+            return (
+              <div key={purchaseOrder.id} className="bg-white/80 backdrop-blur-lg rounded-lg shadow-2xl border border-white/20 overflow-hidden">
+                <div className="p-4 border-b border-gray-100 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h3 className="text-lg font-semibold text-gray-900">{purchaseOrder.supplier?.name}</h3>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusStyles[purchaseOrder.status]}`}>
+                        {t(`status.${purchaseOrder.status}`)}
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      #{purchaseOrder.id.substring(0, 8)}
+                      {purchaseOrder.created_at && ` · ${t('createdOn', { date: new Date(purchaseOrder.created_at).toLocaleDateString() })}`}
+                      {purchaseOrder.expected_date && ` · ${t('expectedOn', { date: new Date(purchaseOrder.expected_date).toLocaleDateString() })}`}
+                      {purchaseOrder.received_at && ` · ${t('receivedOn', { date: new Date(purchaseOrder.received_at).toLocaleDateString() })}`}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {purchaseOrder.status === 'draft' && (
+                      <button
+                        onClick={() => handleStatusChange(purchaseOrder, 'sent')}
+                        className="px-3 py-1 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors font-medium text-xs"
+                        disabled={saving}
+                      >
+                        {t('markSent')}
+                      </button>
+                    )}
+                    {isOpen && (
+                      <>
+                        <button
+                          onClick={() => openReceive(purchaseOrder)}
+                          className="px-3 py-1 bg-emerald-100 text-emerald-700 rounded-lg hover:bg-emerald-200 transition-colors font-medium text-xs"
+                          disabled={saving}
+                        >
+                          {t('receive')}
+                        </button>
+                        <button
+                          onClick={() => handleStatusChange(purchaseOrder, 'cancelled')}
+                          className="px-3 py-1 bg-amber-100 text-amber-700 rounded-lg hover:bg-amber-200 transition-colors font-medium text-xs"
+                          disabled={saving}
+                        >
+                          {t('cancelOrder')}
+                        </button>
+                      </>
+                    )}
+                    {(purchaseOrder.status === 'draft' || purchaseOrder.status === 'cancelled') && (
+                      <button
+                        onClick={() => handleDelete(purchaseOrder)}
+                        className="px-3 py-1 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors font-medium text-xs"
+                        disabled={saving}
+                      >
+                        {t('delete')}
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-100 text-sm">
+                    <thead className="bg-gradient-to-r from-emerald-50 to-teal-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">{t('product')}</th>
+                        <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">{t('supplierSku')}</th>
+                        <th className="px-4 py-2 text-right text-xs font-semibold text-gray-700 uppercase">{t('quantity')}</th>
+                        <th className="px-4 py-2 text-right text-xs font-semibold text-gray-700 uppercase">{t('unitCost')}</th>
+                        <th className="px-4 py-2 text-right text-xs font-semibold text-gray-700 uppercase">{t('lineTotal')}</th>
+                        {purchaseOrder.status === 'received' && (
+                          <th className="px-4 py-2 text-right text-xs font-semibold text-gray-700 uppercase">{t('received')}</th>
+                        )}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {(purchaseOrder.items || []).map(item => (
+                        <tr key={item.id}>
+                          <td className="px-4 py-2">
+                            <div className="font-medium text-gray-900">{item.product?.name_en}</div>
+                            <div className="text-xs text-gray-500">{item.product?.sku}</div>
+                          </td>
+                          <td className="px-4 py-2 text-gray-600">{item.supplier_sku || '–'}</td>
+                          <td className="px-4 py-2 text-right">
+                            {purchaseOrder.status === 'draft' ? (
+                              <input
+                                type="number"
+                                step="any"
+                                min="0"
+                                className="w-20 rounded-lg border border-gray-300 px-2 py-1 text-sm text-right"
+                                defaultValue={item.quantity}
+                                onBlur={e => handleItemChange(item, 'quantity', e.target.value)}
+                                disabled={saving}
+                              />
+                            ) : item.quantity}
+                            <span className="ml-1 text-xs text-gray-500">{item.product?.unit}</span>
+                          </td>
+                          <td className="px-4 py-2 text-right">
+                            {purchaseOrder.status === 'draft' ? (
+                              <input
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                className="w-24 rounded-lg border border-gray-300 px-2 py-1 text-sm text-right"
+                                defaultValue={item.unit_cost}
+                                onBlur={e => handleItemChange(item, 'unit_cost', e.target.value)}
+                                disabled={saving}
+                              />
+                            ) : `$${item.unit_cost.toFixed(2)}`}
+                          </td>
+                          <td className="px-4 py-2 text-right text-gray-900">${(item.quantity * item.unit_cost).toFixed(2)}</td>
+                          {purchaseOrder.status === 'received' && (
+                            <td className="px-4 py-2 text-right text-gray-900">{item.received_quantity ?? 0}</td>
+                          )}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <div className="px-4 py-3 border-t border-gray-100 text-right text-sm font-semibold text-gray-900">
+                  {t('total')}: ${purchaseOrder.total_cost.toFixed(2)}
+                </div>
+              </div>
+            );
+          })
+        )}
+
+        {/* Receive Form */}
+        {receiving && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-30">
+            <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl p-6 relative animate-fadeIn max-h-[90vh] overflow-y-auto">
+              <button
+                className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 text-2xl"
+                onClick={() => setReceiving(null)}
+                disabled={saving}
+              >
+                &times;
+              </button>
+              <h2 className="text-xl font-bold mb-1">{t('receiveTitle', { supplier: receiving.supplier?.name || '' })}</h2>
+              <p className="text-gray-500 mb-4 text-sm">{t('receiveHelp')}</p>
+              <form onSubmit={handleReceive} className="space-y-3">
+                {(receiving.items || []).map(item => (
+                  <div key={item.id} className="grid grid-cols-1 sm:grid-cols-4 gap-2 items-end bg-gray-50 rounded-lg p-3">
+                    <div>
+                      <div className="font-medium text-sm text-gray-900">{item.product?.name_en}</div>
+                      <div className="text-xs text-gray-500">{t('ordered', { quantity: item.quantity, unit: item.product?.unit || '' })}</div>
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-500">{t('receivedQuantity')}</label>
+                      <input
+                        type="number"
+                        step="any"
+                        min="0"
+                        className="block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                        value={receiveRows[item.id]?.quantity ?? ''}
+                        onChange={e => updateReceiveRow(item.id, 'quantity', e.target.value)}
+                        disabled={saving}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-500">{t('lotNumber')}</label>
+                      <input
+                        type="text"
+                        className="block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                        placeholder={`PO-${receiving.id.substring(0, 8)}-${item.id.substring(0, 8)}`}
+                        value={receiveRows[item.id]?.lot_number ?? ''}
+                        onChange={e => updateReceiveRow(item.id, 'lot_number', e.target.value)}
+                        disabled={saving}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-500">{t('expiryDate')}</label>
+                      <input
+                        type="date"
+                        className="block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                        value={receiveRows[item.id]?.expiry_date ?? ''}
+                        onChange={e => updateReceiveRow(item.id, 'expiry_date', e.target.value)}
+                        disabled={saving}
+                      />
+                    </div>
+                  </div>
+                ))}
+                <div className="flex justify-end space-x-2 pt-2">
+                  <button
+                    type="button"
+                    className="px-4 py-2 rounded border border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+                    onClick={() => setReceiving(null)}
+                    disabled={saving}
+                  >
+                    {t('cancel')}
+                  </button>
+                  <button
+                    type="submit"
+                    className="px-4 py-2 rounded bg-green-600 text-white font-semibold hover:bg-green-700 disabled:bg-green-300"
+                    disabled={saving}
+                  >
+                    {saving ? t('saving') : t('confirmReceive')}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        )}
+      </div>
+    </RouteProtection>
+  );
+}
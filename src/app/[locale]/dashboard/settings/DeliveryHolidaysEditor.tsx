@@ -0,0 +1,200 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'react-toastify';
+import {
+  DeliveryHoliday,
+  PUBLIC_HOLIDAY_PRESETS,
+  getDeliveryHolidays,
+  createDeliveryHoliday,
+  deleteDeliveryHoliday,
+  addPublicHolidays
+} from '../../../lib/holiday-api';
+
+interface DeliveryHolidaysEditorProps {
+  country: string; // The holiday country selected in the settings form
+}
+
+const emptyForm = {
+  holiday_date: '',
+  name: '',
+  is_recurring: false
+};
+
+/**
+ * Manages the holiday and blackout calendar. Changes are saved right away, independent of the
+ * settings form it is rendered in (so it can't be a form of its own).
+ */
+export default function DeliveryHolidaysEditor({ country }: DeliveryHolidaysEditorProps) {
+  const t = useTranslations('settings.holidays');
+  const [holidays, setHolidays] = useState<DeliveryHoliday[]>([]);
+  const [formData, setFormData] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    getDeliveryHolidays()
+      .then(setHolidays)
+      .catch(err => {
+        console.error('Error loading delivery holidays:', err);
+        toast.error(`${t('loadError')}: ${err.message}`);
+      });
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const today = new Date().toISOString().slice(0, 10);
+  // Past one-off dates no longer matter; keep the list to what is still ahead
+  const upcoming = holidays.filter(holiday => holiday.is_recurring || holiday.holiday_date >= today);
+
+  const handleAdd = async () => {
+    if (!formData.holiday_date || !formData.name.trim()) {
+      toast.error(t('required'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const created = await createDeliveryHoliday({
+        holiday_date: formData.holiday_date,
+        name: formData.name.trim(),
+        is_recurring: formData.is_recurring
+      });
+      setHolidays(prev => [...prev, created].sort((a, b) => a.holiday_date.localeCompare(b.holiday_date)));
+      setFormData(emptyForm);
+      toast.success(t('added'));
+    } catch (err: any) {
+      console.error('Error adding delivery holiday:', err);
+      toast.error(`${t('saveError')}: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddPublicHolidays = async () => {
+    setSaving(true);
+    try {
+      const added = await addPublicHolidays(country, holidays);
+      setHolidays(await getDeliveryHolidays());
+      toast.success(t('presetsAdded', { count: added.length }));
+    } catch (err: any) {
+      console.error('Error adding public holidays:', err);
+      toast.error(`${t('saveError')}: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (holiday: DeliveryHoliday) => {
+    setSaving(true);
+    try {
+      await deleteDeliveryHoliday(holiday.id);
+      setHolidays(prev => prev.filter(h => h.id !== holiday.id));
+    } catch (err: any) {
+      console.error('Error deleting delivery holiday:', err);
+      toast.error(`${t('saveError')}: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatHolidayDate = (holiday: DeliveryHoliday) => {
+    const date = new Date(`${holiday.holiday_date}T00:00:00`);
+    return holiday.is_recurring
+      ? date.toLocaleDateString(undefined, { month: 'long', day: 'numeric' })
+      : date.toLocaleDateString(undefined, { weekday: 'short', year: 'numeric', month: 'long', day: 'numeric' });
+  };
+
+  return (
+    <div className="mt-6 border-t border-gray-200 pt-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-4">
+        <div>
+          <h3 className="text-base font-medium text-gray-900">{t('title')}</h3>
+          <p className="text-sm text-gray-500">{t('description')}</p>
+        </div>
+        {PUBLIC_HOLIDAY_PRESETS[country] && (
+          <button
+            type="button"
+            onClick={handleAddPublicHolidays}
+            disabled={saving}
+            className="px-3 py-2 bg-green-100 text-green-700 rounded-md hover:bg-green-200 text-sm font-medium disabled:opacity-50"
+          >
+            {t('addPresets', { country })}
+          </button>
+        )}
+      </div>
+
+      {upcoming.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">{t('empty')}</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md mb-4">
+          {upcoming.map(holiday => (
+            <li key={holiday.id} className="flex items-center justify-between px-3 py-2 text-sm">
+              <div>
+                <span className="font-medium text-gray-900">{holiday.name}</span>
+                <span className="ml-2 text-gray-500">{formatHolidayDate(holiday)}</span>
+                {holiday.is_recurring && (
+                  <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-blue-100 text-blue-700">{t('everyYear')}</span>
+                )}
+                {holiday.country_code && (
+                  <span className={`ml-2 px-2 py-0.5 rounded-full text-xs ${holiday.country_code === country ? 'bg-gray-100 text-gray-700' : 'bg-gray-50 text-gray-400 line-through'}`}>
+                    {holiday.country_code}
+                  </span>
+                )}
+              </div>
+              <button
+                type="button"
+                onClick={() => handleDelete(holiday)}
+                disabled={saving}
+                className="text-red-500 hover:text-red-700 text-lg px-2"
+                aria-label={t('remove')}
+              >
+                &times;
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+        <div>
+          <label className="block text-gray-700 text-sm font-medium mb-1">{t('date')}</label>
+          <input
+            type="date"
+            value={formData.holiday_date}
+            onChange={e => setFormData({ ...formData, holiday_date: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-green-500 focus:border-green-500"
+            disabled={saving}
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-gray-700 text-sm font-medium mb-1">{t('name')}</label>
+          <input
+            type="text"
+            value={formData.name}
+            onChange={e => setFormData({ ...formData, name: e.target.value })}
+            placeholder={t('namePlaceholder')}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-green-500 focus:border-green-500"
+            disabled={saving}
+          />
+        </div>
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={saving}
+          className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 text-sm font-medium disabled:opacity-50"
+        >
+          {t('add')}
+        </button>
+        <label className="md:col-span-4 flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={formData.is_recurring}
+            onChange={e => setFormData({ ...formData, is_recurring: e.target.checked })}
+            className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
+            disabled={saving}
+          />
+          <span className="ml-2">{t('recurring')}</span>
+        </label>
+      </div>
+    </div>
+  );
+}
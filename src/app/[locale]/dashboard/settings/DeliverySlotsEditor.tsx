@@ -0,0 +1,187 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'react-toastify';
+import {
+  DeliverySlot,
+  getDeliverySlots,
+  createDeliverySlot,
+  updateDeliverySlot,
+  deleteDeliverySlot,
+  formatDeliveryWindow
+} from '../../../lib/delivery-slot-api';
+
+const emptyForm = {
+  start_time: '',
+  end_time: '',
+  capacity: ''
+};
+
+/**
+ * Manages the delivery time windows customers choose from at checkout. Like the holiday
+ * calendar, changes are saved right away rather than with the settings form.
+ */
+export default function DeliverySlotsEditor() {
+  const t = useTranslations('settings.slots');
+  const [slots, setSlots] = useState<DeliverySlot[]>([]);
+  const [formData, setFormData] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    getDeliverySlots()
+      .then(setSlots)
+      .catch(err => {
+        console.error('Error loading delivery slots:', err);
+        toast.error(`${t('loadError')}: ${err.message}`);
+      });
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const sortSlots = (list: DeliverySlot[]) =>
+    [...list].sort((a, b) => a.start_time.localeCompare(b.start_time) || a.end_time.localeCompare(b.end_time));
+
+  const handleAdd = async () => {
+    if (!formData.start_time || !formData.end_time) {
+      toast.error(t('required'));
+      return;
+    }
+    if (formData.end_time <= formData.start_time) {
+      toast.error(t('endBeforeStart'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const created = await createDeliverySlot({
+        start_time: formData.start_time,
+        end_time: formData.end_time,
+        capacity: formData.capacity ? parseInt(formData.capacity) : undefined,
+        is_active: true
+      });
+      setSlots(prev => sortSlots([...prev, created]));
+      setFormData(emptyForm);
+      toast.success(t('added'));
+    } catch (err: any) {
+      console.error('Error adding delivery slot:', err);
+      toast.error(`${t('saveError')}: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (slot: DeliverySlot) => {
+    setSaving(true);
+    try {
+      const updated = await updateDeliverySlot(slot.id, { is_active: !slot.is_active });
+      setSlots(prev => prev.map(s => (s.id === updated.id ? updated : s)));
+    } catch (err: any) {
+      console.error('Error updating delivery slot:', err);
+      toast.error(`${t('saveError')}: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (slot: DeliverySlot) => {
+    setSaving(true);
+    try {
+      await deleteDeliverySlot(slot.id);
+      setSlots(prev => prev.filter(s => s.id !== slot.id));
+    } catch (err: any) {
+      console.error('Error deleting delivery slot:', err);
+      toast.error(`${t('saveError')}: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 border-t border-gray-200 pt-6">
+      <div className="mb-4">
+        <h3 className="text-base font-medium text-gray-900">{t('title')}</h3>
+        <p className="text-sm text-gray-500">{t('description')}</p>
+      </div>
+
+      {slots.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">{t('empty')}</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md mb-4">
+          {slots.map(slot => (
+            <li key={slot.id} className="flex items-center justify-between px-3 py-2 text-sm">
+              <div className={slot.is_active ? '' : 'opacity-50'}>
+                <span className="font-medium text-gray-900">{formatDeliveryWindow(slot.start_time, slot.end_time)}</span>
+                <span className="ml-2 text-gray-500">
+                  {slot.capacity != null ? t('capacityPerDay', { count: slot.capacity }) : t('unlimited')}
+                </span>
+              </div>
+              <div className="flex items-center">
+                <label className="flex items-center text-xs text-gray-600 mr-2">
+                  <input
+                    type="checkbox"
+                    checked={slot.is_active}
+                    onChange={() => handleToggleActive(slot)}
+                    className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
+                    disabled={saving}
+                  />
+                  <span className="ml-1">{t('active')}</span>
+                </label>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(slot)}
+                  disabled={saving}
+                  className="text-red-500 hover:text-red-700 text-lg px-2"
+                  aria-label={t('remove')}
+                >
+                  &times;
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+        <div>
+          <label className="block text-gray-700 text-sm font-medium mb-1">{t('startTime')}</label>
+          <input
+            type="time"
+            value={formData.start_time}
+            onChange={e => setFormData({ ...formData, start_time: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-green-500 focus:border-green-500"
+            disabled={saving}
+          />
+        </div>
+        <div>
+          <label className="block text-gray-700 text-sm font-medium mb-1">{t('endTime')}</label>
+          <input
+            type="time"
+            value={formData.end_time}
+            onChange={e => setFormData({ ...formData, end_time: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-green-500 focus:border-green-500"
+            disabled={saving}
+          />
+        </div>
+        <div>
+          <label className="block text-gray-700 text-sm font-medium mb-1">{t('capacity')}</label>
+          <input
+            type="number"
+            min="1"
+            value={formData.capacity}
+            onChange={e => setFormData({ ...formData, capacity: e.target.value })}
+            placeholder={t('capacityPlaceholder')}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-green-500 focus:border-green-500"
+            disabled={saving}
+          />
+        </div>
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={saving}
+          className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 text-sm font-medium disabled:opacity-50"
+        >
+          {t('add')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -5,8 +5,12 @@ import { useRouter } from 'next/navigation';
 import { useTranslations } from 'next-intl';
 import Image from 'next/image';
 import { getUser, getUserProfile } from '../../../lib/auth';
-import { AppSettings, getAppSettings, updateAppSettings, uploadLogo, SUPPORTED_LANGUAGES, SUPPORTED_CURRENCIES, getDefaultMenuSettings, getDefaultDeliverySettings } from '../../../lib/settings-api';
+import { AppSettings, getAppSettings, updateAppSettings, uploadLogo, SUPPORTED_LANGUAGES, SUPPORTED_CURRENCIES, getDefaultMenuSettings, getDefaultDeliverySettings, getDefaultInvoiceNumberSettings, formatInvoiceNumberPreview } from '../../../lib/settings-api';
 import Loading from '@/app/components/Loading';
+import { PUBLIC_HOLIDAY_PRESETS } from '../../../lib/holiday-api';
+import { getTimeZones } from '../../../lib/delivery-date';
+import DeliveryHolidaysEditor from './DeliveryHolidaysEditor';
+import DeliverySlotsEditor from './DeliverySlotsEditor';
 
 export default function AdminSettingsPage() {
   const router = useRouter();
@@ -42,6 +46,16 @@ export default function AdminSettingsPage() {
   // Delivery configuration state
   const [orderCutoffTime, setOrderCutoffTime] = useState('18:00');
   const [deliveryDays, setDeliveryDays] = useState<number[]>([1, 2, 3, 4, 5, 6]); // Monday to Saturday
+  const [holidayCountry, setHolidayCountry] = useState('');
+  const [deliveryBookingDays, setDeliveryBookingDays] = useState(14);
+  const [timezone, setTimezone] = useState('UTC');
+  const [minOrderValue, setMinOrderValue] = useState(0);
+  const timeZoneOptions = getTimeZones();
+
+  // Invoice numbering state
+  const [invoicePrefix, setInvoicePrefix] = useState('INV');
+  const [invoicePadding, setInvoicePadding] = useState(6);
+  const [invoiceYearlyReset, setInvoiceYearlyReset] = useState(true);
 
   // Logo preview
   const [logoPreview, setLogoPreview] = useState<string | null>(null);
@@ -95,6 +109,16 @@ export default function AdminSettingsPage() {
           const deliveryDefaults = getDefaultDeliverySettings();
           setOrderCutoffTime(appSettings.order_cutoff_time || deliveryDefaults.order_cutoff_time);
           setDeliveryDays(appSettings.delivery_days || deliveryDefaults.delivery_days);
+          setHolidayCountry(appSettings.holiday_country || '');
+          setDeliveryBookingDays(appSettings.delivery_booking_days || deliveryDefaults.delivery_booking_days);
+          setTimezone(appSettings.timezone || deliveryDefaults.timezone);
+          setMinOrderValue(appSettings.min_order_value ?? deliveryDefaults.min_order_value);
+
+          // Initialize invoice numbering with defaults if not set
+          const invoiceDefaults = getDefaultInvoiceNumberSettings();
+          setInvoicePrefix(appSettings.invoice_number_prefix || invoiceDefaults.invoice_number_prefix);
+          setInvoicePadding(appSettings.invoice_number_padding || invoiceDefaults.invoice_number_padding);
+          setInvoiceYearlyReset(appSettings.invoice_number_yearly_reset ?? invoiceDefaults.invoice_number_yearly_reset);
         }
       } catch (error) {
         console.error('Error loading settings:', error);
@@ -161,7 +185,15 @@ export default function AdminSettingsPage() {
         enable_store: enableStore,
         // Delivery configuration
         order_cutoff_time: orderCutoffTime,
-        delivery_days: deliveryDays
+        delivery_days: deliveryDays,
+        holiday_country: holidayCountry || null,
+        delivery_booking_days: deliveryBookingDays,
+        timezone,
+        min_order_value: minOrderValue,
+        // Invoice numbering
+        invoice_number_prefix: invoicePrefix.trim() || 'INV',
+        invoice_number_padding: invoicePadding,
+        invoice_number_yearly_reset: invoiceYearlyReset
       });
 
       setSettings(updatedSettings);
@@ -311,6 +343,60 @@ export default function AdminSettingsPage() {
           </div>
         </div>
 
+        {/* Invoice Numbering */}
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">{t('invoiceNumbering')}</h2>
+          <p className="text-sm text-gray-600 mb-6">{t('invoiceNumberingDescription')}</p>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div>
+              <label htmlFor="invoicePrefix" className="block text-gray-700 text-sm font-medium mb-2">
+                {t('invoicePrefix')}
+              </label>
+              <input
+                type="text"
+                id="invoicePrefix"
+                value={invoicePrefix}
+                onChange={(e) => setInvoicePrefix(e.target.value.toUpperCase())}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-green-500 focus:border-green-500"
+                placeholder="INV"
+                maxLength={10}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="invoicePadding" className="block text-gray-700 text-sm font-medium mb-2">
+                {t('invoicePadding')}
+              </label>
+              <input
+                type="number"
+                id="invoicePadding"
+                value={invoicePadding}
+                onChange={(e) => setInvoicePadding(Math.min(10, Math.max(1, parseInt(e.target.value) || 1)))}
+                className="w-32 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-green-500 focus:border-green-500"
+                min="1"
+                max="10"
+              />
+            </div>
+
+            <div>
+              <label className="flex items-center mt-8">
+                <input
+                  type="checkbox"
+                  checked={invoiceYearlyReset}
+                  onChange={(e) => setInvoiceYearlyReset(e.target.checked)}
+                  className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
+                />
+                <span className="ml-2 text-sm text-gray-700">{t('invoiceYearlyReset')}</span>
+              </label>
+            </div>
+          </div>
+
+          <p className="mt-4 text-sm text-gray-500">
+            {t('invoiceNumberPreview', { number: formatInvoiceNumberPreview(invoicePrefix || 'INV', invoicePadding, invoiceYearlyReset, 123) })}
+          </p>
+        </div>
+
         {/* Localization Settings */}
         <div className="bg-white rounded-lg shadow-md p-6">
           <h2 className="text-lg font-medium text-gray-900 mb-4">{t('localization')}</h2>
@@ -412,6 +498,26 @@ export default function AdminSettingsPage() {
               </p>
             </div>
 
+            {/* Timezone */}
+            <div>
+              <label htmlFor="timezone" className="block text-gray-700 text-sm font-medium mb-2">
+                {t('timezone')}
+              </label>
+              <select
+                id="timezone"
+                value={timezone}
+                onChange={(e) => setTimezone(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-green-500 focus:border-green-500"
+              >
+                {(timeZoneOptions.includes(timezone) ? timeZoneOptions : [timezone, ...timeZoneOptions]).map(zone => (
+                  <option key={zone} value={zone}>{zone}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-sm text-gray-500">
+                {t('timezoneDescription')}
+              </p>
+            </div>
+
             {/* Delivery Days */}
             <div>
               <label className="block text-gray-700 text-sm font-medium mb-2">
@@ -448,8 +554,71 @@ export default function AdminSettingsPage() {
                 {t('deliveryDaysDescription')}
               </p>
             </div>
+
+            {/* Holiday Country */}
+            <div>
+              <label htmlFor="holidayCountry" className="block text-gray-700 text-sm font-medium mb-2">
+                {t('holidayCountry')}
+              </label>
+              <select
+                id="holidayCountry"
+                value={holidayCountry}
+                onChange={(e) => setHolidayCountry(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-green-500 focus:border-green-500"
+              >
+                <option value="">{t('holidayCountryNone')}</option>
+                {Object.keys(PUBLIC_HOLIDAY_PRESETS).map(code => (
+                  <option key={code} value={code}>{t(`countries.${code}`)}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-sm text-gray-500">
+                {t('holidayCountryDescription')}
+              </p>
+            </div>
+
+            {/* Booking Horizon */}
+            <div>
+              <label htmlFor="deliveryBookingDays" className="block text-gray-700 text-sm font-medium mb-2">
+                {t('deliveryBookingDays')}
+              </label>
+              <input
+                type="number"
+                id="deliveryBookingDays"
+                value={deliveryBookingDays}
+                onChange={(e) => setDeliveryBookingDays(Math.min(60, Math.max(1, parseInt(e.target.value) || 1)))}
+                className="w-32 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-green-500 focus:border-green-500"
+                min="1"
+                max="60"
+              />
+              <p className="mt-1 text-sm text-gray-500">
+                {t('deliveryBookingDaysDescription')}
+              </p>
+            </div>
+
+            {/* Minimum Order Value */}
+            <div>
+              <label htmlFor="minOrderValue" className="block text-gray-700 text-sm font-medium mb-2">
+                {t('minOrderValue')}
+              </label>
+              <input
+                type="number"
+                id="minOrderValue"
+                value={minOrderValue}
+                onChange={(e) => setMinOrderValue(Math.max(0, parseFloat(e.target.value) || 0))}
+                className="w-32 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-green-500 focus:border-green-500"
+                min="0"
+                step="0.01"
+              />
+              <p className="mt-1 text-sm text-gray-500">
+                {t('minOrderValueDescription')}
+              </p>
+            </div>
           </div>
 
+          <DeliverySlotsEditor />
+
+          <DeliveryHolidaysEditor country={holidayCountry} />
+
           {/* Delivery Logic Explanation */}
           <div className="mt-6 p-4 bg-blue-50 rounded-lg">
             <h3 className="text-sm font-medium text-blue-900 mb-2">{t('deliveryLogic')}</h3>
@@ -457,6 +626,8 @@ export default function AdminSettingsPage() {
               <li>• {t('deliveryLogicBefore', { time: orderCutoffTime })}</li>
               <li>• {t('deliveryLogicAfter', { time: orderCutoffTime })}</li>
               <li>• {t('deliveryLogicNonDeliveryDay')}</li>
+              <li>• {t('deliveryLogicHoliday')}</li>
+              <li>• {t('deliveryLogicSlots', { days: deliveryBookingDays })}</li>
             </ul>
           </div>
         </div>
@@ -5,11 +5,19 @@ import { useRouter } from 'next/navigation';
 import { useTranslations } from 'next-intl';
 import { getUser, getUserProfile } from '../../../lib/auth';
 import { supabase } from '../../../lib/supabase';
-import { exportOrderSummaryToPDF } from '../../../lib/pdf-utils';
+import { exportOrderSummaryToPDF, PackSummary } from '../../../lib/pdf-utils';
 import { toast } from 'react-toastify';
 import RouteProtection from '../../../components/RouteProtection';
 import { getAppSettings, AppSettings } from '../../../lib/settings-api';
-import { getOrderFilterRangeByDelivery } from '../../../lib/utils';
+import {
+  addCalendarDays,
+  fromCompanyDateTimeInput,
+  getDeliverySchedule,
+  getOrderWindow,
+  normalizeCutoffTime,
+  toCompanyDateTimeInput
+} from '../../../lib/delivery-date';
+import { generatePurchaseOrders } from '../../../lib/purchase-order-api';
 import Loading from '@/app/components/Loading';
 
 interface ProductSummary {
@@ -18,6 +26,18 @@ interface ProductSummary {
   unit: string;
   total_quantity: number;
   sku?: string;
+  packs?: PackSummary[];
+}
+
+// The default report: the last seven days up to today's cutoff, on the company clock
+function getDefaultDateRange(settings: AppSettings | null) {
+  const { cutoffTime, timeZone } = getDeliverySchedule(settings);
+  const today = toCompanyDateTimeInput(new Date(), timeZone).slice(0, 10);
+
+  return {
+    startDate: `${addCalendarDays(today, -7)}T00:00`,
+    endDate: `${today}T${normalizeCutoffTime(cutoffTime)}`
+  };
 }
 
 export default function OrderSummaryPage() {
@@ -28,17 +48,16 @@ export default function OrderSummaryPage() {
   const [dateRange, setDateRange] = useState<{
     startDate: string;
     endDate: string;
-  }>({
-    startDate: (() => {
-      const date = new Date(new Date().setDate(new Date().getDate() - 7));
-      date.setHours(0, 0, 0, 0);
-      return date.toISOString().slice(0, 16);
-    })(),
-    endDate: new Date().toISOString().slice(0, 16),
-  });
+  }>(() => getDefaultDateRange(null));
   const [error, setError] = useState<string | null>(null);
   const [appSettings, setAppSettings] = useState<AppSettings | null>(null);
   const [deliveryFilter, setDeliveryFilter] = useState<'today' | 'tomorrow' | null>(null);
+  const [expectedDate, setExpectedDate] = useState('');
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  // The date inputs show the company's clock, whatever the browser's timezone
+  const deliverySchedule = getDeliverySchedule(appSettings);
+  const toInstant = (value: string) => fromCompanyDateTimeInput(value, deliverySchedule.timeZone).toISOString();
 
   useEffect(() => {
     async function checkAuth() {
@@ -77,19 +96,9 @@ export default function OrderSummaryPage() {
       try {
         const settings = await getAppSettings();
         setAppSettings(settings);
-        
+
         // Update date range with proper cutoff time after settings are loaded
-        const now = new Date();
-        const sevenDaysAgo = new Date(now.setDate(now.getDate() - 7));
-        sevenDaysAgo.setHours(0, 0, 0, 0);
-        
-        const [cutoffHour, cutoffMinute] = (settings?.order_cutoff_time || '18:00').split(':').map(Number);
-        now.setHours(cutoffHour, cutoffMinute - 2, 0, 0);
-        
-        setDateRange({
-          startDate: sevenDaysAgo.toISOString().slice(0, 16),
-          endDate: now.toISOString().slice(0, 16),
-        });
+        setDateRange(getDefaultDateRange(settings));
       } catch (err) {
         console.error('Error loading app settings:', err);
       }
@@ -107,8 +116,8 @@ export default function OrderSummaryPage() {
       // SQL query to aggregate order items by product
       const { data, error } = await supabase
         .rpc('get_product_order_summary', {
-          start_date: new Date(dateRange.startDate).toISOString(),
-          end_date: new Date(dateRange.endDate).toISOString()
+          start_date: toInstant(dateRange.startDate),
+          end_date: toInstant(dateRange.endDate)
         });
 
       if (error) {
@@ -118,17 +127,13 @@ export default function OrderSummaryPage() {
       // If RPC function doesn't exist, use this fallback query
       if (!data) {
         // Get order filter range
-        const range = getOrderFilterRangeByDelivery(
-          deliveryFilter || 'today',
-          appSettings?.order_cutoff_time || '18:00',
-          appSettings?.delivery_days || [1, 2, 3, 4, 5, 6]
-        );
+        const range = getOrderWindow(deliveryFilter || 'today', deliverySchedule);
 
         const { data: orders, error: orderError } = await supabase
           .from('orders')
           .select('id, order_date')
-          .gte('order_date', range ? range.from.toISOString() : new Date(dateRange.startDate).toISOString())
-          .lte('order_date', range ? range.to.toISOString() : new Date(dateRange.endDate).toISOString())
+          .gte('order_date', range ? range.from.toISOString() : toInstant(dateRange.startDate))
+          .lte('order_date', range ? range.to.toISOString() : toInstant(dateRange.endDate))
           .in('status', ['pending', 'processing']);
 
         if (orderError) throw orderError;
@@ -142,18 +147,18 @@ export default function OrderSummaryPage() {
         const orderIds = orders.map(order => order.id);
         const { data: orderItems, error: itemsError } = await supabase
           .from('order_items')
-          .select('product_id, quantity')
+          .select('product_id, base_quantity')
           .in('order_id', orderIds);
 
         if (itemsError) throw itemsError;
 
-        // Aggregate quantities by product
+        // Aggregate quantities by product, in base units so packs add up with loose items
         const productQuantities: Record<string, number> = {};
         orderItems?.forEach(item => {
           if (!productQuantities[item.product_id]) {
             productQuantities[item.product_id] = 0;
           }
-          productQuantities[item.product_id] += item.quantity;
+          productQuantities[item.product_id] += item.base_quantity;
         });
 
         // Get product details
@@ -176,7 +181,8 @@ export default function OrderSummaryPage() {
         setSummaryData(summary);
       } else {
         // If the RPC function exists, use its result
-        setSummaryData(data);
+        // packs comes back as a JSONB array
+        setSummaryData((data || []).map(row => ({ ...row, packs: row.packs as unknown as PackSummary[] })));
       }
     } catch (error: any) {
       console.error('Error fetching summary data:', error);
@@ -186,6 +192,18 @@ export default function OrderSummaryPage() {
     }
   };
 
+  // Pick list breakdown of a product's packs, or null when it was only ordered loose
+  const formatPacks = (product: ProductSummary): string | null => {
+    const packs = product.packs || [];
+    if (!packs.some(pack => pack.pack_id)) return null;
+
+    return packs
+      .map(pack => pack.pack_id
+        ? t('packLine', { quantity: pack.quantity, pack: pack.name || '', sku: `${product.sku || ''}${pack.sku_suffix || ''}` })
+        : t('looseLine', { quantity: pack.base_quantity, unit: product.unit }))
+      .join(' · ');
+  };
+
   // Handle date range change
   const handleDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -195,31 +213,27 @@ export default function OrderSummaryPage() {
       return; // Don't process empty values
     }
     
-    const date = new Date(value);
-    
+    const [day, time] = value.split('T');
+
     // Check if the date is valid
-    if (isNaN(date.getTime())) {
+    if (!time || isNaN(new Date(value).getTime())) {
       console.error('Invalid date value:', value);
       return; // Don't process invalid dates
     }
-    
-    // If it's the end date, enforce cutoff time as maximum
+
+    let adjusted: string;
     if (name === 'endDate') {
-      const [cutoffHour, cutoffMinute] = (appSettings?.order_cutoff_time || '18:00').split(':').map(Number);
-      const cutoffTime = new Date(date);
-      cutoffTime.setHours(cutoffHour, cutoffMinute - 2, 0, 0);
-      
-      if (date > cutoffTime) {
-        date.setHours(cutoffHour, cutoffMinute - 2, 0, 0);
-      }
+      // If it's the end date, enforce cutoff time as maximum
+      const cutoffTime = normalizeCutoffTime(deliverySchedule.cutoffTime);
+      adjusted = time > cutoffTime ? `${day}T${cutoffTime}` : value;
     } else {
       // For start date, always set to beginning of day
-      date.setHours(0, 0, 0, 0);
+      adjusted = `${day}T00:00`;
     }
-    
+
     setDateRange(prev => ({
       ...prev,
-      [name]: date.toISOString().slice(0, 16)
+      [name]: adjusted
     }));
   };
 
@@ -252,72 +266,62 @@ export default function OrderSummaryPage() {
     }
   };
 
+  // Buy what the summarised orders need beyond stock and open purchase orders
+  const handleGeneratePurchaseOrders = async () => {
+    try {
+      setIsGenerating(true);
+      const result = await generatePurchaseOrders(
+        toInstant(dateRange.startDate),
+        toInstant(dateRange.endDate),
+        expectedDate || undefined
+      );
+
+      if (result.purchase_orders.length > 0) {
+        toast.success(t('purchaseOrders.generated', { count: result.purchase_orders.length }));
+      } else {
+        toast.info(t('purchaseOrders.nothingToOrder'));
+      }
+
+      if (result.unassigned.length > 0) {
+        toast.warning(t('purchaseOrders.unassigned', {
+          products: result.unassigned.map(product => `${product.name_en} (${product.quantity} ${product.unit})`).join(', ')
+        }));
+      }
+    } catch (error: any) {
+      console.error('Error generating purchase orders:', error);
+      toast.error(`${t('purchaseOrders.error')}: ${error.message}`);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
   // Handle delivery filter
   const handleDeliveryFilter = (type: 'today' | 'tomorrow' | null) => {
     setDeliveryFilter(type);
 
     if (!type) {
       // Clear filter - reset to default date range
-      const now = new Date();
-      const sevenDaysAgo = new Date(now.getTime()); // Create a copy to avoid mutating now
-      sevenDaysAgo.setDate(now.getDate() - 7);
-      sevenDaysAgo.setHours(0, 0, 0, 0);
-      
-      const [cutoffHour, cutoffMinute] = (appSettings?.order_cutoff_time || '18:00').split(':').map(Number);
-      now.setHours(cutoffHour, cutoffMinute - 2, 0, 0);
-      
-      setDateRange({
-        startDate: sevenDaysAgo.toISOString().slice(0, 16),
-        endDate: now.toISOString().slice(0, 16),
-      });
+      setDateRange(getDefaultDateRange(appSettings));
       return;
     }
 
-    const dateRange = getOrderFilterRangeByDelivery(
-      type,
-      appSettings?.order_cutoff_time || '18:00',
-      appSettings?.delivery_days || [1, 2, 3, 4, 5, 6]
-    );
-
-    if (dateRange) {
-      console.log("dateRange", dateRange);
-      // Ensure start time is 00:00 and end time is cutoff time (with new logic)
-      const startDate = new Date(dateRange.from);
-      const endDate = new Date(dateRange.to);
-
-      // Validate dates before proceeding
-      if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
-        console.error('Invalid date range from getOrderFilterRangeByDelivery:', dateRange);
-        return;
-      }
-
-      const [cutoffHour, cutoffMinute] = (appSettings?.order_cutoff_time || '18:00').split(':').map(Number);
-
-      startDate.setHours(0, 0, 0, 0);
-      endDate.setHours(cutoffHour, cutoffMinute - 1, 59, 999);
-
-      setDateRange({
-        startDate: startDate.toISOString().slice(0, 16),
-        endDate: endDate.toISOString().slice(0, 16),
-      });
+    // The orders delivered that day were placed between two cutoffs
+    const orderWindow = getOrderWindow(type, deliverySchedule);
+    if (!orderWindow) {
+      toast.info(t('noDeliveries'));
+      return;
     }
+
+    setDateRange({
+      startDate: toCompanyDateTimeInput(orderWindow.from, deliverySchedule.timeZone),
+      endDate: toCompanyDateTimeInput(orderWindow.to, deliverySchedule.timeZone),
+    });
   };
 
   // Handle clearing all filters
   const handleClearFilters = () => {
     setDeliveryFilter(null);
-    const now = new Date();
-    const sevenDaysAgo = new Date(now.getTime()); // Create a copy to avoid mutating now
-    sevenDaysAgo.setDate(now.getDate() - 7);
-    sevenDaysAgo.setHours(0, 0, 0, 0);
-    
-    const [cutoffHour, cutoffMinute] = (appSettings?.order_cutoff_time || '18:00').split(':').map(Number);
-    now.setHours(cutoffHour, cutoffMinute - 2, 0, 0);
-    
-    setDateRange({
-      startDate: sevenDaysAgo.toISOString().slice(0, 16),
-      endDate: now.toISOString().slice(0, 16),
-    });
+    setDateRange(getDefaultDateRange(appSettings));
   };
 
   // Loading state
@@ -455,12 +459,7 @@ export default function OrderSummaryPage() {
                 value={dateRange.endDate}
                 onChange={handleDateChange}
                 min={dateRange.startDate}
-                max={(() => {
-                  const date = new Date();
-                  const [cutoffHour, cutoffMinute] = (appSettings?.order_cutoff_time || '18:00').split(':').map(Number);
-                  date.setHours(cutoffHour, cutoffMinute - 2, 0, 0);
-                  return date.toISOString().slice(0, 16);
-                })()}
+                max={getDefaultDateRange(appSettings).endDate}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white/50 backdrop-blur-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 transition-all duration-200 text-sm"
               />
             </div>
@@ -536,6 +535,24 @@ export default function OrderSummaryPage() {
                   </svg>
                   <span>Export PDF</span>
                 </button>
+                <input
+                  type="date"
+                  value={expectedDate}
+                  onChange={e => setExpectedDate(e.target.value)}
+                  title={t('purchaseOrders.expectedDate')}
+                  aria-label={t('purchaseOrders.expectedDate')}
+                  className="px-3 py-2 border border-gray-300 rounded-lg bg-white/50 text-xs focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                />
+                <button
+                  onClick={handleGeneratePurchaseOrders}
+                  disabled={summaryData.length === 0 || isGenerating}
+                  className="px-4 py-2 bg-white border border-emerald-500 text-emerald-700 rounded-lg hover:bg-emerald-50 transition-all duration-200 shadow-lg font-medium flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed text-xs"
+                >
+                  <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3h2l.4 2M7 13h10l4-8H5.4M7 13L5.4 5M7 13l-2.293 2.293c-.63.63-.184 1.707.707 1.707H17m0 0a2 2 0 100 4 2 2 0 000-4zm-8 2a2 2 0 11-4 0 2 2 0 014 0z" />
+                  </svg>
+                  <span>{isGenerating ? t('purchaseOrders.generating') : t('purchaseOrders.generate')}</span>
+                </button>
               </div>
             </div>
           </div>
@@ -564,6 +581,9 @@ export default function OrderSummaryPage() {
                             {product.sku && (
                               <p className="text-xs text-gray-500">SKU: {product.sku}</p>
                             )}
+                            {formatPacks(product) && (
+                              <p className="text-xs text-emerald-700">{formatPacks(product)}</p>
+                            )}
                           </div>
                           <div className="ml-3 text-right">
                             <div className="text-xl font-bold text-emerald-600">{product.total_quantity}</div>
@@ -599,6 +619,9 @@ export default function OrderSummaryPage() {
                           <div className="text-xs font-semibold text-gray-900">
                             {product.name_en}
                           </div>
+                          {formatPacks(product) && (
+                            <div className="text-xs text-emerald-700">{formatPacks(product)}</div>
+                          )}
                         </td>
                         <td className="px-4 py-3 whitespace-nowrap">
                           <div className="text-xs text-gray-600">
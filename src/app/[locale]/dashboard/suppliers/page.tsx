@@ -0,0 +1,578 @@
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'react-toastify';
+import RouteProtection from '../../../components/RouteProtection';
+import Loading from '@/app/components/Loading';
+import Switch from '@/app/components/Switch';
+import {
+  Supplier,
+  ProductSupplier,
+  getSuppliers,
+  createSupplier,
+  updateSupplier,
+  deleteSupplier,
+  getSupplierProducts,
+  setProductSupplier,
+  removeProductSupplier
+} from '../../../lib/supplier-api';
+import { Product, getProducts } from '../../../lib/product-api';
+
+const emptyForm = {
+  name: '',
+  contact_name: '',
+  email: '',
+  phone: '',
+  address: '',
+  notes: '',
+  is_active: true
+};
+
+const emptyItem = {
+  product_id: '',
+  supplier_sku: '',
+  cost_price: '',
+  is_preferred: false
+};
+
+export default function SuppliersPage() {
+  const t = useTranslations('suppliers');
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [selectedSupplier, setSelectedSupplier] = useState<Supplier | null>(null);
+  const [supplierProducts, setSupplierProducts] = useState<ProductSupplier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // Supplier form
+  const [isFormOpen, setFormOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  // Product editing
+  const [newItem, setNewItem] = useState(emptyItem);
+  const [itemCosts, setItemCosts] = useState<Record<string, string>>({});
+
+  const inputClass = 'mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm';
+
+  const loadSuppliers = async () => {
+    setSuppliers(await getSuppliers());
+  };
+
+  const loadSelectedSupplier = async (supplier: Supplier) => {
+    const items = await getSupplierProducts(supplier.id);
+    setSelectedSupplier(supplier);
+    setSupplierProducts(items);
+    setItemCosts(Object.fromEntries(items.map(item => [item.product_id, item.cost_price.toString()])));
+  };
+
+  useEffect(() => {
+    async function loadData() {
+      try {
+        setLoading(true);
+        const [allSuppliers, allProducts] = await Promise.all([getSuppliers(), getProducts()]);
+        setSuppliers(allSuppliers);
+        setProducts(allProducts);
+      } catch (err: any) {
+        console.error('Error loading suppliers:', err);
+        toast.error(`${t('loadError')}: ${err.message}`);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadData();
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleSelectSupplier = async (supplier: Supplier) => {
+    try {
+      await loadSelectedSupplier(supplier);
+    } catch (err: any) {
+      console.error('Error loading supplier products:', err);
+      toast.error(`${t('loadError')}: ${err.message}`);
+    }
+  };
+
+  const openForm = (supplier: Supplier | null) => {
+    setEditingSupplier(supplier);
+    setFormData(supplier ? {
+      name: supplier.name,
+      contact_name: supplier.contact_name || '',
+      email: supplier.email || '',
+      phone: supplier.phone || '',
+      address: supplier.address || '',
+      notes: supplier.notes || '',
+      is_active: supplier.is_active
+    } : emptyForm);
+    setFormOpen(true);
+  };
+
+  const handleSubmitSupplier = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast.error(t('nameRequired'));
+      return;
+    }
+
+    const supplierData = {
+      name: formData.name.trim(),
+      contact_name: formData.contact_name.trim() || null,
+      email: formData.email.trim() || null,
+      phone: formData.phone.trim() || null,
+      address: formData.address.trim() || null,
+      notes: formData.notes.trim() || null,
+      is_active: formData.is_active
+    };
+
+    setSaving(true);
+    try {
+      if (editingSupplier) {
+        const updated = await updateSupplier(editingSupplier.id, supplierData);
+        toast.success(t('updateSuccess'));
+        if (selectedSupplier?.id === updated.id) setSelectedSupplier(updated);
+      } else {
+        const created = await createSupplier({
+          ...supplierData,
+          contact_name: supplierData.contact_name ?? undefined,
+          email: supplierData.email ?? undefined,
+          phone: supplierData.phone ?? undefined,
+          address: supplierData.address ?? undefined,
+          notes: supplierData.notes ?? undefined
+        });
+        toast.success(t('createSuccess'));
+        await loadSelectedSupplier(created);
+      }
+      await loadSuppliers();
+      setFormOpen(false);
+    } catch (err: any) {
+      console.error('Error saving supplier:', err);
+      toast.error(`${t('saveError')}: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteSupplier = async (supplier: Supplier) => {
+    if (!confirm(t('deleteConfirm', { name: supplier.name }))) return;
+
+    setSaving(true);
+    try {
+      await deleteSupplier(supplier.id);
+      toast.success(t('deleteSuccess'));
+      if (selectedSupplier?.id === supplier.id) setSelectedSupplier(null);
+      await loadSuppliers();
+    } catch (err: any) {
+      console.error('Error deleting supplier:', err);
+      toast.error(`${t('deleteError')}: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveItem = async (
+    productId: string,
+    item: { supplier_sku?: string; cost_price: string; is_preferred: boolean }
+  ) => {
+    if (!selectedSupplier) return;
+
+    const costPrice = parseFloat(item.cost_price);
+    if (isNaN(costPrice) || costPrice < 0) {
+      toast.error(t('invalidCost'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await setProductSupplier(selectedSupplier.id, productId, {
+        supplier_sku: item.supplier_sku?.trim() || undefined,
+        cost_price: costPrice,
+        is_preferred: item.is_preferred
+      });
+      await loadSelectedSupplier(selectedSupplier);
+      toast.success(t('productSaved'));
+    } catch (err: any) {
+      console.error('Error saving supplier product:', err);
+      toast.error(`${t('saveError')}: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddItem = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!newItem.product_id) {
+      toast.error(t('productRequired'));
+      return;
+    }
+    await handleSaveItem(newItem.product_id, newItem);
+    setNewItem(emptyItem);
+  };
+
+  const handleRemoveItem = async (productId: string) => {
+    if (!selectedSupplier) return;
+
+    setSaving(true);
+    try {
+      await removeProductSupplier(selectedSupplier.id, productId);
+      await loadSelectedSupplier(selectedSupplier);
+    } catch (err: any) {
+      console.error('Error removing supplier product:', err);
+      toast.error(`${t('saveError')}: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <Loading />;
+  }
+
+  const linkedProductIds = new Set(supplierProducts.map(item => item.product_id));
+
+  return (
+    <RouteProtection>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="bg-white/80 backdrop-blur-lg rounded-lg shadow-2xl border border-white/20 p-4 lg:p-6">
+          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between">
+            <div>
+              <h1 className="text-xl lg:text-xl font-bold bg-gradient-to-r from-emerald-600 to-teal-600 bg-clip-text text-transparent">
+                {t('title')}
+              </h1>
+              <p className="mt-1 text-gray-600 text-base">{t('subtitle')}</p>
+            </div>
+            <div className="mt-4 lg:mt-0">
+              <button
+                onClick={() => openForm(null)}
+                className="px-4 py-2 bg-gradient-to-r from-emerald-500 to-teal-600 text-white rounded-lg hover:from-emerald-600 hover:to-teal-700 transition-all duration-200 shadow-lg hover:shadow-xl font-medium flex items-center space-x-2 text-sm"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                </svg>
+                <span>{t('newSupplier')}</span>
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Suppliers */}
+          <div className="bg-white/80 backdrop-blur-lg rounded-lg shadow-2xl border border-white/20 overflow-hidden self-start">
+            <div className="px-4 py-3 border-b border-gray-100">
+              <h3 className="text-base font-semibold text-gray-900">{t('suppliers')}</h3>
+            </div>
+            {suppliers.length === 0 ? (
+              <p className="p-6 text-center text-sm text-gray-500">{t('empty')}</p>
+            ) : (
+              <div className="divide-y divide-gray-100">
+                {suppliers.map(supplier => (
+                  <button
+                    key={supplier.id}
+                    onClick={() => handleSelectSupplier(supplier)}
+                    className={`w-full text-left p-4 hover:bg-emerald-50/50 transition-colors duration-200 ${selectedSupplier?.id === supplier.id ? 'bg-emerald-50' : ''}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-semibold text-gray-900 text-sm">{supplier.name}</span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${supplier.is_active ? 'bg-emerald-100 text-emerald-700' : 'bg-gray-100 text-gray-500'}`}>
+                        {supplier.is_active ? t('active') : t('inactive')}
+                      </span>
+                    </div>
+                    {(supplier.contact_name || supplier.email) && (
+                      <div className="text-xs text-gray-600 mt-1">
+                        {[supplier.contact_name, supplier.email].filter(Boolean).join(' · ')}
+                      </div>
+                    )}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Selected Supplier */}
+          <div className="lg:col-span-2">
+            {!selectedSupplier ? (
+              <div className="bg-white/80 backdrop-blur-lg rounded-lg shadow-2xl border border-white/20 p-8 text-center text-sm text-gray-500">
+                {t('selectSupplier')}
+              </div>
+            ) : (
+              <div className="bg-white/80 backdrop-blur-lg rounded-lg shadow-2xl border border-white/20 overflow-hidden">
+                <div className="p-4 border-b border-gray-100 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-900">{selectedSupplier.name}</h3>
+                    <p className="text-sm text-gray-600">
+                      {[selectedSupplier.contact_name, selectedSupplier.phone, selectedSupplier.email].filter(Boolean).join(' · ')}
+                    </p>
+                    {selectedSupplier.address && <p className="text-xs text-gray-500 mt-1">{selectedSupplier.address}</p>}
+                    {selectedSupplier.notes && <p className="text-xs text-gray-500 mt-1">{selectedSupplier.notes}</p>}
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => openForm(selectedSupplier)}
+                      className="px-3 py-1 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors font-medium text-xs"
+                      disabled={saving}
+                    >
+                      {t('edit')}
+                    </button>
+                    <button
+                      onClick={() => handleDeleteSupplier(selectedSupplier)}
+                      className="px-3 py-1 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors font-medium text-xs"
+                      disabled={saving}
+                    >
+                      {t('delete')}
+                    </button>
+                  </div>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-100 text-sm">
+                    <thead className="bg-gradient-to-r from-emerald-50 to-teal-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">{t('product')}</th>
+                        <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">{t('supplierSku')}</th>
+                        <th className="px-4 py-2 text-right text-xs font-semibold text-gray-700 uppercase">{t('costPrice')}</th>
+                        <th className="px-4 py-2 text-right text-xs font-semibold text-gray-700 uppercase">{t('margin')}</th>
+                        <th className="px-4 py-2 text-center text-xs font-semibold text-gray-700 uppercase">{t('preferred')}</th>
+                        <th className="px-4 py-2 text-right text-xs font-semibold text-gray-700 uppercase">{t('actions')}</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {supplierProducts.length === 0 && (
+                        <tr>
+                          <td colSpan={6} className="px-4 py-6 text-center text-gray-500">{t('noProducts')}</td>
+                        </tr>
+                      )}
+                      {supplierProducts.map(item => {
+                        const price = item.product?.price ?? 0;
+                        const margin = price > 0 ? ((price - item.cost_price) / price) * 100 : 0;
+                        return (
+                          <tr key={item.product_id}>
+                            <td className="px-4 py-2">
+                              <div className="font-medium text-gray-900">{item.product?.name_en}</div>
+                              <div className="text-xs text-gray-500">{item.product?.sku} · {item.product?.unit}</div>
+                            </td>
+                            <td className="px-4 py-2 text-gray-600">{item.supplier_sku || '–'}</td>
+                            <td className="px-4 py-2 text-right">
+                              <input
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                className="w-24 rounded-lg border border-gray-300 px-2 py-1 text-sm text-right"
+                                value={itemCosts[item.product_id] ?? ''}
+                                onChange={e => setItemCosts(prev => ({ ...prev, [item.product_id]: e.target.value }))}
+                                onBlur={e => {
+                                  if (parseFloat(e.target.value) !== item.cost_price) {
+                                    handleSaveItem(item.product_id, { ...item, cost_price: e.target.value });
+                                  }
+                                }}
+                                disabled={saving}
+                              />
+                            </td>
+                            <td className={`px-4 py-2 text-right font-medium ${margin < 0 ? 'text-red-600' : 'text-gray-600'}`}>
+                              {margin.toFixed(1)}%
+                            </td>
+                            <td className="px-4 py-2 text-center">
+                              <input
+                                type="checkbox"
+                                checked={item.is_preferred}
+                                onChange={() => handleSaveItem(item.product_id, {
+                                  ...item,
+                                  cost_price: item.cost_price.toString(),
+                                  is_preferred: !item.is_preferred
+                                })}
+                                disabled={saving}
+                              />
+                            </td>
+                            <td className="px-4 py-2 text-right">
+                              <button
+                                onClick={() => handleRemoveItem(item.product_id)}
+                                className="px-3 py-1 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors font-medium text-xs"
+                                disabled={saving}
+                              >
+                                {t('remove')}
+                              </button>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+
+                {/* Add Product */}
+                <form onSubmit={handleAddItem} className="p-4 border-t border-gray-100 grid grid-cols-1 sm:grid-cols-5 gap-3 items-end">
+                  <div className="sm:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700">{t('product')}</label>
+                    <select
+                      className={inputClass}
+                      value={newItem.product_id}
+                      onChange={e => setNewItem({ ...newItem, product_id: e.target.value })}
+                      disabled={saving}
+                    >
+                      <option value="">{t('selectProduct')}</option>
+                      {products
+                        .filter(product => !linkedProductIds.has(product.id))
+                        .map(product => (
+                          <option key={product.id} value={product.id}>
+                            {product.name_en} ({product.sku})
+                          </option>
+                        ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">{t('supplierSku')}</label>
+                    <input
+                      type="text"
+                      className={inputClass}
+                      value={newItem.supplier_sku}
+                      onChange={e => setNewItem({ ...newItem, supplier_sku: e.target.value })}
+                      disabled={saving}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">{t('costPrice')}</label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      className={inputClass}
+                      value={newItem.cost_price}
+                      onChange={e => setNewItem({ ...newItem, cost_price: e.target.value })}
+                      disabled={saving}
+                    />
+                  </div>
+                  <button
+                    type="submit"
+                    className="px-4 py-2 rounded bg-green-600 text-white font-semibold hover:bg-green-700 disabled:bg-green-300 text-sm"
+                    disabled={saving}
+                  >
+                    {t('addProduct')}
+                  </button>
+                  <label className="sm:col-span-5 flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={newItem.is_preferred}
+                      onChange={() => setNewItem({ ...newItem, is_preferred: !newItem.is_preferred })}
+                      disabled={saving}
+                    />
+                    {t('preferredHelp')}
+                  </label>
+                </form>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Supplier Form */}
+        {isFormOpen && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-30">
+            <div className="bg-white rounded-xl shadow-xl w-full max-w-lg p-6 relative animate-fadeIn max-h-[90vh] overflow-y-auto">
+              <button
+                className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 text-2xl"
+                onClick={() => setFormOpen(false)}
+                disabled={saving}
+              >
+                &times;
+              </button>
+              <h2 className="text-xl font-bold mb-4">{editingSupplier ? t('editSupplier') : t('newSupplier')}</h2>
+              <form onSubmit={handleSubmitSupplier} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">{t('name')}</label>
+                  <input
+                    type="text"
+                    className={inputClass}
+                    value={formData.name}
+                    onChange={e => setFormData({ ...formData, name: e.target.value })}
+                    required
+                    disabled={saving}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">{t('contactName')}</label>
+                    <input
+                      type="text"
+                      className={inputClass}
+                      value={formData.contact_name}
+                      onChange={e => setFormData({ ...formData, contact_name: e.target.value })}
+                      disabled={saving}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">{t('phone')}</label>
+                    <input
+                      type="tel"
+                      className={inputClass}
+                      value={formData.phone}
+                      onChange={e => setFormData({ ...formData, phone: e.target.value })}
+                      disabled={saving}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">{t('email')}</label>
+                  <input
+                    type="email"
+                    className={inputClass}
+                    value={formData.email}
+                    onChange={e => setFormData({ ...formData, email: e.target.value })}
+                    disabled={saving}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">{t('address')}</label>
+                  <textarea
+                    className={inputClass}
+                    rows={2}
+                    value={formData.address}
+                    onChange={e => setFormData({ ...formData, address: e.target.value })}
+                    disabled={saving}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">{t('notes')}</label>
+                  <textarea
+                    className={inputClass}
+                    rows={2}
+                    value={formData.notes}
+                    onChange={e => setFormData({ ...formData, notes: e.target.value })}
+                    disabled={saving}
+                  />
+                </div>
+                <div className="flex items-center justify-between bg-gray-50 rounded-lg p-3">
+                  <div>
+                    <span className="block font-medium text-sm">{t('active')}</span>
+                    <span className="block text-xs text-gray-400">{t('activeHelp')}</span>
+                  </div>
+                  <Switch
+                    checked={formData.is_active}
+                    onChange={() => setFormData({ ...formData, is_active: !formData.is_active })}
+                    size="sm"
+                  />
+                </div>
+                <div className="flex justify-end space-x-2 pt-2">
+                  <button
+                    type="button"
+                    className="px-4 py-2 rounded border border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+                    onClick={() => setFormOpen(false)}
+                    disabled={saving}
+                  >
+                    {t('cancel')}
+                  </button>
+                  <button
+                    type="submit"
+                    className="px-4 py-2 rounded bg-green-600 text-white font-semibold hover:bg-green-700 disabled:bg-green-300"
+                    disabled={saving}
+                  >
+                    {saving ? t('saving') : t('save')}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        )}
+      </div>
+    </RouteProtection>
+  );
+}
@@ -3,6 +3,7 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { useTranslations } from 'next-intl';
 import { User, getPaginatedUsers, createUser, updateUser, deleteUser, toggleUserStatus, updateUserPassword } from '../../../lib/users-api';
+import { CustomerGroup, getCustomerGroups } from '../../../lib/price-list-api';
 import ImportUserModal from './ImportUserModal';
 import { toast } from 'react-toastify';
 import Switch from '../../../components/Switch';
@@ -47,7 +48,10 @@ export default function UsersPage() {
     password: '',
     role: 'customer' as User['role'],
     status: 'active' as User['status'],
+    customer_group_id: '',
+    min_order_value: '',
   });
+  const [customerGroups, setCustomerGroups] = useState<CustomerGroup[]>([]);
 
   // Filtering state
   const [searchTerm, setSearchTerm] = useState('');
@@ -81,6 +85,13 @@ export default function UsersPage() {
     return () => clearTimeout(timer);
   }, [searchTerm, isSearching]);
 
+  // Load customer groups for the group select
+  useEffect(() => {
+    getCustomerGroups()
+      .then(setCustomerGroups)
+      .catch(err => console.error('Failed to fetch customer groups:', err));
+  }, []);
+
   // Fetch users from Supabase
   useEffect(() => {
     async function loadUsers() {
@@ -159,7 +170,11 @@ export default function UsersPage() {
         const { password, ...updateData } = formData;
 
         // First update user data
-        await updateUser(editingUser.id, updateData);
+        await updateUser(editingUser.id, {
+          ...updateData,
+          customer_group_id: updateData.customer_group_id || null,
+          min_order_value: updateData.min_order_value ? parseFloat(updateData.min_order_value) : null
+        });
 
         // Then update password if provided
         if (password) {
@@ -177,7 +192,11 @@ export default function UsersPage() {
           setLoading(false);
           return;
         }
-        await createUser(formData);
+        await createUser({
+          ...formData,
+          customer_group_id: formData.customer_group_id || undefined,
+          min_order_value: formData.min_order_value ? parseFloat(formData.min_order_value) : undefined
+        });
       }
 
       // Refresh user list
@@ -216,6 +235,8 @@ export default function UsersPage() {
       password: '',
       role: user.role,
       status: user.status,
+      customer_group_id: user.customer_group_id || '',
+      min_order_value: user.min_order_value?.toString() ?? '',
     });
     setIsModalOpen(true);
     // Reset address suggestions
@@ -238,7 +259,9 @@ export default function UsersPage() {
       notes: '',
       password: '',
       role: 'customer',
-      status: 'active'
+      status: 'active',
+      customer_group_id: '',
+      min_order_value: ''
     });
     // Clear address suggestions
     setAddressSuggestions([]);
@@ -500,7 +523,9 @@ export default function UsersPage() {
                   notes: '',
                   password: '',
                   role: 'customer',
-                  status: 'active'
+                  status: 'active',
+                  customer_group_id: '',
+                  min_order_value: ''
                 });
                 setIsModalOpen(true);
                 // Reset address suggestions
@@ -876,6 +901,40 @@ export default function UsersPage() {
                         <option value="admin">{t('admin')}</option>
                       </select>
                     </div>
+
+                    {formData.role === 'customer' && customerGroups.length > 0 && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">{t('customerGroup')}</label>
+                        <select
+                          value={formData.customer_group_id}
+                          onChange={(e) => setFormData({ ...formData, customer_group_id: e.target.value })}
+                          className="w-full px-4 py-3 border border-gray-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 transition-all duration-200"
+                          disabled={loading}
+                        >
+                          <option value="">{t('noCustomerGroup')}</option>
+                          {customerGroups.map(group => (
+                            <option key={group.id} value={group.id}>{group.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+
+                    {formData.role === 'customer' && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">{t('minOrderValue')}</label>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={formData.min_order_value}
+                          onChange={(e) => setFormData({ ...formData, min_order_value: e.target.value })}
+                          className="w-full px-4 py-3 border border-gray-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 transition-all duration-200"
+                          placeholder={t('minOrderValueDefault')}
+                          disabled={loading}
+                        />
+                        <p className="mt-1 text-xs text-gray-500">{t('minOrderValueHelp')}</p>
+                      </div>
+                    )}
                   </div>
                 </div>
 
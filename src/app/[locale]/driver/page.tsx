@@ -4,7 +4,7 @@ import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useTranslations } from 'next-intl';
 import { getUser, UserProfile, getUserProfile } from '../../lib/auth';
-import { getDriverOrders, Order, updateOrderStatus } from '../../lib/order-api';
+import { getDriverOrders, Order, updateOrderStatus, recordActualQuantity } from '../../lib/order-api';
 import Header from '../../components/Header';
 import DriverDeliveryModal from '../../components/DriverDeliveryModal';
 
@@ -146,6 +146,26 @@ export default function DriverDeliveriesPage() {
     }
   };
 
+  // Record the weighed quantity of a catch-weight line; the order total follows the weight
+  const handleRecordActualQuantity = async (itemId: string, actualQuantity: number | null) => {
+    const totalAmount = await recordActualQuantity(itemId, actualQuantity);
+
+    const applyWeight = (delivery: Order): Order => (
+      delivery.items.some(item => item.id === itemId)
+        ? {
+            ...delivery,
+            total_amount: totalAmount,
+            items: delivery.items.map(item => (
+              item.id === itemId ? { ...item, actual_quantity: actualQuantity ?? undefined } : item
+            ))
+          }
+        : delivery
+    );
+
+    setDeliveries(prev => prev.map(applyWeight));
+    setSelectedDelivery(prev => (prev ? applyWeight(prev) : prev));
+  };
+
   // Pagination handlers
   const handlePageChange = (page: number) => {
     setCurrentPage(page);
@@ -690,6 +710,7 @@ export default function DriverDeliveriesPage() {
               delivery={selectedDelivery}
               onClose={handleCloseDeliveryDetail}
               onUpdateStatus={handleUpdateStatus}
+              onRecordActualQuantity={handleRecordActualQuantity}
               isUpdatingStatus={isUpdatingStatus}
             />
           )}
@@ -0,0 +1,112 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'react-toastify';
+import { supabase } from '@/lib/supabase';
+import { Complaint, ComplaintStatus, getUserComplaints } from '../../lib/complaint-api';
+import { formatCurrency } from '../../lib/utils';
+
+const statusStyles: Record<ComplaintStatus, string> = {
+  open: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-emerald-100 text-emerald-800',
+  rejected: 'bg-red-100 text-red-700'
+};
+
+/**
+ * The customer's complaints and how they were resolved. Credit notes of approved complaints
+ * are listed with the invoices.
+ */
+export default function ComplaintsTab() {
+  const t = useTranslations('complaints');
+  const [complaints, setComplaints] = useState<Complaint[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    async function loadComplaints() {
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user) {
+          throw new Error('Not authenticated');
+        }
+
+        setComplaints(await getUserComplaints(user.id));
+      } catch (err) {
+        console.error('Error fetching complaints:', err);
+        toast.error(t('loadError'));
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadComplaints();
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  if (loading) {
+    return (
+      <div className="flex flex-col items-center justify-center space-y-4 py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-emerald-500"></div>
+        <p className="text-lg font-medium text-gray-700">{t('loading')}</p>
+      </div>
+    );
+  }
+
+  if (complaints.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-500">{t('empty')}</p>
+        <p className="text-sm text-gray-400 mt-1">{t('emptyHelp')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {complaints.map(complaint => (
+        <div key={complaint.id} className="border border-gray-200 rounded-lg p-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h3 className="text-lg font-semibold text-gray-900">
+              {t('orderNumber', { order: complaint.order_id.substring(0, 8) })}
+            </h3>
+            <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${statusStyles[complaint.status]}`}>
+              {t(`status.${complaint.status}`)}
+            </span>
+          </div>
+          {complaint.created_at && (
+            <p className="text-xs text-gray-500 mt-1">{t('openedOn', { date: new Date(complaint.created_at).toLocaleDateString() })}</p>
+          )}
+
+          <ul className="mt-3 divide-y divide-gray-100">
+            {(complaint.items || []).map(item => (
+              <li key={item.id} className="flex items-center justify-between py-2 text-sm">
+                <div>
+                  <span className="text-gray-900">{item.order_item?.product?.name_en}</span>
+                  <span className="ml-2 text-gray-500">{t(`reasons.${item.reason}`)}</span>
+                </div>
+                <span className="text-gray-600">
+                  {item.quantity} {item.order_item?.pack?.name || item.order_item?.product?.unit}
+                </span>
+              </li>
+            ))}
+          </ul>
+
+          {complaint.description && (
+            <p className="mt-2 text-sm text-gray-600">{complaint.description}</p>
+          )}
+
+          {complaint.status === 'approved' && complaint.credit_amount != null && (
+            <p className="mt-2 text-sm font-medium text-emerald-700">
+              {t('credited', { amount: formatCurrency(complaint.credit_amount) })}
+            </p>
+          )}
+          {complaint.resolution_notes && (
+            <p className="mt-1 text-sm text-gray-600">
+              <span className="font-medium">{t('resolutionNotes')}:</span> {complaint.resolution_notes}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
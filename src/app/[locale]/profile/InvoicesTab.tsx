@@ -7,7 +7,10 @@ import { supabase } from '@/lib/supabase';
 
 interface Invoice {
   id: string;
+  invoice_number?: string | null;
+  credit_note_for?: string | null;
   path: string;
+  bucket?: string;
   notes: string | null;
   status: 'pending' | 'paid' | 'cancelled';
   created_at: string;
@@ -42,7 +45,7 @@ export default function InvoicesTab() {
         .order('created_at', { ascending: false });
 
       if (error) throw error;
-      setInvoices(invoices || []);
+      setInvoices((invoices || []) as Invoice[]);
     } catch (err) {
       console.error('Error fetching invoices:', err);
       toast.error(t('loadingError'));
@@ -51,10 +54,10 @@ export default function InvoicesTab() {
     }
   };
 
-  const handleDownload = async (path: string, fileName: string) => {
+  const handleDownload = async (path: string, fileName: string, bucket = 'products') => {
     try {
       const { data, error } = await supabase.storage
-        .from('products')
+        .from(bucket)
         .download(path);
 
       if (error) throw error;
@@ -83,7 +86,7 @@ export default function InvoicesTab() {
       
       // Get the PDF URL from Supabase storage
       const { data, error } = await supabase.storage
-        .from('products')
+        .from(invoice.bucket || 'products')
         .createSignedUrl(invoice.path, 60 * 60); // URL valid for 1 hour
 
       if (error) throw error;
@@ -143,6 +146,10 @@ export default function InvoicesTab() {
                     </div>
 
                     <div className="grid grid-cols-2 gap-3 text-xs text-gray-600">
+                      <div>
+                        <span className="font-medium">{t('labels.invoiceNumber')}:</span> {invoice.invoice_number || '-'}
+                        {invoice.credit_note_for && <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-purple-100 text-purple-700">{t('labels.creditNote')}</span>}
+                      </div>
                       <div>
                         <span className="font-medium">Date:</span> {new Date(invoice.created_at).toLocaleDateString()}
                       </div>
@@ -159,7 +166,7 @@ export default function InvoicesTab() {
                         {t('actions.preview')}
                       </button>
                       <button
-                        onClick={() => handleDownload(invoice.path, `invoice-${invoice.id}.pdf`)}
+                        onClick={() => handleDownload(invoice.path, `${invoice.invoice_number || `invoice-${invoice.id}`}.pdf`, invoice.bucket)}
                         className="px-3 py-1 bg-emerald-100 text-emerald-700 rounded-lg hover:bg-emerald-200 transition-colors font-medium text-xs"
                       >
                         {t('actions.download')}
@@ -184,6 +191,9 @@ export default function InvoicesTab() {
           <table className="min-w-full divide-y divide-gray-100">
             <thead className="bg-gradient-to-r from-emerald-50 to-teal-50">
               <tr>
+                <th className="px-6 py-2 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                  {t('labels.invoiceNumber')}
+                </th>
                 <th className="px-6 py-2 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">
                   {t('labels.date')}
                 </th>
@@ -202,6 +212,10 @@ export default function InvoicesTab() {
               {invoices.length > 0 ? (
                 invoices.map((invoice) => (
                   <tr key={invoice.id} className="hover:bg-emerald-50/50 transition-colors duration-200">
+                    <td className="px-6 py-2 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {invoice.invoice_number || '-'}
+                      {invoice.credit_note_for && <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-purple-100 text-purple-700">{t('labels.creditNote')}</span>}
+                    </td>
                     <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-900">
                       {new Date(invoice.created_at).toLocaleDateString()}
                     </td>
@@ -230,7 +244,7 @@ export default function InvoicesTab() {
                           </svg>
                         </button>
                         <button
-                          onClick={() => handleDownload(invoice.path, `invoice-${invoice.id}.pdf`)}
+                          onClick={() => handleDownload(invoice.path, `${invoice.invoice_number || `invoice-${invoice.id}`}.pdf`, invoice.bucket)}
                           className="text-emerald-600 hover:text-emerald-900 p-2 hover:bg-emerald-50 rounded-lg transition-colors"
                           title={t('actions.download')}
                         >
@@ -244,7 +258,7 @@ export default function InvoicesTab() {
                 ))
               ) : (
                 <tr>
-                  <td colSpan={4} className="px-6 py-12 text-center">
+                  <td colSpan={5} className="px-6 py-12 text-center">
                     <div className="flex flex-col items-center">
                       <svg className="w-16 h-16 text-gray-400 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
@@ -0,0 +1,245 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useLocale, useTranslations } from 'next-intl';
+import { toast } from 'react-toastify';
+import { supabase } from '@/lib/supabase';
+import { getAvailableStock } from '../../lib/product-api';
+import {
+  ShoppingList,
+  getShoppingLists,
+  renameShoppingList,
+  setShoppingListItems,
+  deleteShoppingList,
+  isShoppingListItemAvailable,
+  PENDING_SHOPPING_LIST_KEY
+} from '../../lib/shopping-list-api';
+
+// The editable parts of a shopping list
+interface ShoppingListForm {
+  name: string;
+  quantities: { [itemId: string]: number };
+}
+
+export default function ShoppingListsTab() {
+  const t = useTranslations('shoppingLists');
+  const router = useRouter();
+  const locale = useLocale();
+  const [lists, setLists] = useState<ShoppingList[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<ShoppingListForm | null>(null);
+
+  const loadLists = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('Not authenticated');
+      }
+
+      setLists(await getShoppingLists(user.id));
+    } catch (err) {
+      console.error('Error fetching shopping lists:', err);
+      toast.error(t('loadingError'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadLists();
+  }, []);
+
+  const startEditing = (list: ShoppingList) => {
+    const quantities: { [itemId: string]: number } = {};
+    (list.items || []).forEach(item => {
+      quantities[item.id] = item.quantity;
+    });
+    setEditingId(list.id);
+    setForm({ name: list.name, quantities });
+  };
+
+  const stopEditing = () => {
+    setEditingId(null);
+    setForm(null);
+  };
+
+  // Items set to zero are removed from the list
+  const handleSave = async (list: ShoppingList) => {
+    if (!form) return;
+    if (!form.name.trim()) {
+      toast.error(t('nameRequired'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (form.name.trim() !== list.name) {
+        await renameShoppingList(list.id, form.name.trim());
+      }
+      await setShoppingListItems(list.id, (list.items || [])
+        .map(item => ({ ...item, quantity: form.quantities[item.id] ?? item.quantity }))
+        .filter(item => item.quantity > 0));
+      toast.success(t('saved'));
+      stopEditing();
+      await loadLists();
+    } catch (err) {
+      console.error('Error saving shopping list:', err);
+      toast.error(t('saveError'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (list: ShoppingList) => {
+    if (!window.confirm(t('confirmDelete', { name: list.name }))) return;
+
+    setSaving(true);
+    try {
+      await deleteShoppingList(list.id);
+      toast.success(t('deleted'));
+      await loadLists();
+    } catch (err) {
+      console.error('Error deleting shopping list:', err);
+      toast.error(t('deleteError'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddToCart = (list: ShoppingList) => {
+    localStorage.setItem(PENDING_SHOPPING_LIST_KEY, list.id);
+    router.push(`/${locale}/store`);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex flex-col items-center justify-center space-y-4 py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-emerald-500"></div>
+        <p className="text-lg font-medium text-gray-700">{t('loading')}</p>
+      </div>
+    );
+  }
+
+  if (lists.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-500">{t('empty')}</p>
+        <p className="text-sm text-gray-400 mt-1">{t('emptyHelp')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {lists.map(list => {
+        const isEditing = editingId === list.id && form;
+
+        return (
+          <div key={list.id} className="border border-gray-200 rounded-lg p-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              {isEditing ? (
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={e => setForm({ ...form, name: e.target.value })}
+                  className="rounded-lg border border-gray-300 px-3 py-1 text-sm"
+                  disabled={saving}
+                />
+              ) : (
+                <h3 className="text-lg font-semibold text-gray-900">{list.name}</h3>
+              )}
+              <span className="text-sm text-gray-500">{t('itemCount', { count: list.items?.length || 0 })}</span>
+            </div>
+
+            <ul className="mt-3 divide-y divide-gray-100">
+              {(list.items || []).map(item => {
+                const available = isShoppingListItemAvailable(item);
+                const stock = item.product ? getAvailableStock(item.product) / (item.pack?.base_quantity || 1) : 0;
+
+                return (
+                  <li key={item.id} className="flex items-center justify-between py-2 text-sm">
+                    <div>
+                      <span className={available ? 'text-gray-900' : 'text-gray-400 line-through'}>{item.product?.name_en}</span>
+                      {!available ? (
+                        <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-red-100 text-red-700">{t('unavailable')}</span>
+                      ) : stock < item.quantity && (
+                        <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-amber-100 text-amber-700">
+                          {t('lowStock', { available: Math.floor(stock) })}
+                        </span>
+                      )}
+                    </div>
+                    {isEditing ? (
+                      <input
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={form.quantities[item.id] ?? item.quantity}
+                        onChange={e => setForm({
+                          ...form,
+                          quantities: { ...form.quantities, [item.id]: Number(e.target.value) }
+                        })}
+                        className="w-24 rounded-lg border border-gray-300 px-2 py-1 text-sm text-right"
+                        disabled={saving}
+                      />
+                    ) : (
+                      <span className="text-gray-600">{item.quantity} {item.pack?.name || item.product?.unit}</span>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+
+            <div className="mt-3 flex flex-wrap gap-3 justify-end">
+              {isEditing ? (
+                <>
+                  <button
+                    onClick={stopEditing}
+                    disabled={saving}
+                    className="px-3 py-1 text-sm font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+                  >
+                    {t('cancel')}
+                  </button>
+                  <button
+                    onClick={() => handleSave(list)}
+                    disabled={saving}
+                    className="px-3 py-1 text-sm font-medium text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 disabled:opacity-50"
+                  >
+                    {t('save')}
+                  </button>
+                </>
+              ) : (
+                <>
+                  <button
+                    onClick={() => startEditing(list)}
+                    disabled={saving}
+                    className="px-3 py-1 text-sm font-medium text-emerald-700 border border-emerald-300 rounded-lg hover:bg-emerald-50"
+                  >
+                    {t('edit')}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(list)}
+                    disabled={saving}
+                    className="px-3 py-1 text-sm font-medium text-red-600 border border-red-200 rounded-lg hover:bg-red-50"
+                  >
+                    {t('delete')}
+                  </button>
+                  <button
+                    onClick={() => handleAddToCart(list)}
+                    disabled={saving || !list.items?.length}
+                    className="px-3 py-1 text-sm font-medium text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 disabled:opacity-50"
+                  >
+                    {t('addToCart')}
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
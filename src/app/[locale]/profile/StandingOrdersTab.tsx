@@ -0,0 +1,365 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'react-toastify';
+import { supabase } from '@/lib/supabase';
+import { cancelOrder, Order } from '../../lib/order-api';
+import {
+  StandingOrder,
+  getStandingOrders,
+  updateStandingOrder,
+  setStandingOrderItems,
+  deleteStandingOrder,
+  getPendingStandingOrderOrders
+} from '../../lib/standing-order-api';
+
+const WEEKDAYS = [1, 2, 3, 4, 5, 6, 0];
+
+// The editable parts of a standing order
+interface StandingOrderForm {
+  name: string;
+  weekdays: number[];
+  ends_on: string;
+  quantities: { [itemId: string]: number };
+}
+
+export default function StandingOrdersTab() {
+  const t = useTranslations('standingOrders');
+  const tSettings = useTranslations('settings');
+  const [standingOrders, setStandingOrders] = useState<StandingOrder[]>([]);
+  const [pendingOrders, setPendingOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<StandingOrderForm | null>(null);
+
+  const weekdayName = (day: number) =>
+    tSettings(['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'][day]);
+
+  const loadData = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('Not authenticated');
+      }
+
+      const [standingOrderData, pendingOrderData] = await Promise.all([
+        getStandingOrders(user.id),
+        getPendingStandingOrderOrders(user.id)
+      ]);
+      setStandingOrders(standingOrderData);
+      setPendingOrders(pendingOrderData);
+    } catch (err) {
+      console.error('Error fetching standing orders:', err);
+      toast.error(t('loadingError'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const startEditing = (standingOrder: StandingOrder) => {
+    const quantities: { [itemId: string]: number } = {};
+    (standingOrder.items || []).forEach(item => {
+      quantities[item.id] = item.quantity;
+    });
+    setEditingId(standingOrder.id);
+    setForm({
+      name: standingOrder.name,
+      weekdays: standingOrder.weekdays,
+      ends_on: standingOrder.ends_on || '',
+      quantities
+    });
+  };
+
+  const stopEditing = () => {
+    setEditingId(null);
+    setForm(null);
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!form) return;
+    setForm({
+      ...form,
+      weekdays: form.weekdays.includes(day)
+        ? form.weekdays.filter(d => d !== day)
+        : [...form.weekdays, day]
+    });
+  };
+
+  const handleSave = async (standingOrder: StandingOrder) => {
+    if (!form) return;
+    if (!form.name.trim() || form.weekdays.length === 0) {
+      toast.error(t('requiredFields'));
+      return;
+    }
+
+    // Items set to zero are dropped; at least one has to remain
+    const items = (standingOrder.items || [])
+      .map(item => ({ ...item, quantity: form.quantities[item.id] ?? item.quantity }))
+      .filter(item => item.quantity > 0);
+    if (items.length === 0) {
+      toast.error(t('noItems'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await updateStandingOrder(standingOrder.id, {
+        name: form.name.trim(),
+        weekdays: form.weekdays,
+        ends_on: form.ends_on || null
+      });
+      await setStandingOrderItems(standingOrder.id, items);
+      toast.success(t('saved'));
+      stopEditing();
+      await loadData();
+    } catch (err) {
+      console.error('Error saving standing order:', err);
+      toast.error(t('saveError'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (standingOrder: StandingOrder) => {
+    setSaving(true);
+    try {
+      await updateStandingOrder(standingOrder.id, { is_active: !standingOrder.is_active });
+      await loadData();
+    } catch (err) {
+      console.error('Error updating standing order:', err);
+      toast.error(t('saveError'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (standingOrder: StandingOrder) => {
+    if (!window.confirm(t('confirmDelete', { name: standingOrder.name }))) return;
+
+    setSaving(true);
+    try {
+      await deleteStandingOrder(standingOrder.id);
+      toast.success(t('deleted'));
+      await loadData();
+    } catch (err) {
+      console.error('Error deleting standing order:', err);
+      toast.error(t('deleteError'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Skipping a delivery cancels the order placed for it; the standing order goes on
+  const handleSkip = async (order: Order) => {
+    if (!window.confirm(t('confirmSkip', { date: order.delivery_date || '' }))) return;
+
+    setSaving(true);
+    try {
+      await cancelOrder(order.id!, t('skipReason'));
+      toast.success(t('skipped'));
+      await loadData();
+    } catch (err) {
+      console.error('Error skipping delivery:', err);
+      toast.error(t('skipError'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex flex-col items-center justify-center space-y-4 py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-emerald-500"></div>
+        <p className="text-lg font-medium text-gray-700">{t('loading')}</p>
+      </div>
+    );
+  }
+
+  const standingOrderName = (id?: string) => standingOrders.find(so => so.id === id)?.name || '';
+
+  return (
+    <div className="space-y-8">
+      {pendingOrders.length > 0 && (
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-3">{t('upcomingDeliveries')}</h3>
+          <p className="text-sm text-gray-500 mb-3">{t('upcomingHelp')}</p>
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+            {pendingOrders.map(order => (
+              <li key={order.id} className="flex items-center justify-between px-4 py-3">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {order.delivery_date} · {standingOrderName(order.standing_order_id)}
+                  </p>
+                  <p className="text-xs text-gray-500">#{order.id?.substring(0, 8)} · {Number(order.total_amount).toFixed(2)}</p>
+                </div>
+                <button
+                  onClick={() => handleSkip(order)}
+                  disabled={saving}
+                  className="text-sm font-medium text-red-600 hover:text-red-800 disabled:opacity-50"
+                >
+                  {t('skip')}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {standingOrders.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-gray-500">{t('empty')}</p>
+          <p className="text-sm text-gray-400 mt-1">{t('emptyHelp')}</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {standingOrders.map(standingOrder => {
+            const isEditing = editingId === standingOrder.id && form;
+
+            return (
+              <div key={standingOrder.id} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    {isEditing ? (
+                      <input
+                        type="text"
+                        value={form.name}
+                        onChange={e => setForm({ ...form, name: e.target.value })}
+                        className="rounded-lg border border-gray-300 px-3 py-1 text-sm"
+                        disabled={saving}
+                      />
+                    ) : (
+                      <h3 className="text-lg font-semibold text-gray-900">{standingOrder.name}</h3>
+                    )}
+                    {!isEditing && (
+                      <p className="text-sm text-gray-600">
+                        {WEEKDAYS.filter(day => standingOrder.weekdays.includes(day)).map(weekdayName).join(', ')}
+                        {' · '}
+                        {standingOrder.ends_on ? t('endsOn', { date: standingOrder.ends_on }) : t('noEndDate')}
+                      </p>
+                    )}
+                  </div>
+                  <span className={`px-2 py-1 text-xs font-medium rounded-full ${standingOrder.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}>
+                    {standingOrder.is_active ? t('active') : t('paused')}
+                  </span>
+                </div>
+
+                {standingOrder.last_error && (
+                  <p className="mt-2 text-sm text-red-600">{t('lastError', { error: standingOrder.last_error })}</p>
+                )}
+
+                {isEditing && (
+                  <div className="mt-3 space-y-3">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">{t('weekdays')}</label>
+                      <div className="mt-1 flex flex-wrap gap-3">
+                        {WEEKDAYS.map(day => (
+                          <label key={day} className="flex items-center text-sm text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={form.weekdays.includes(day)}
+                              onChange={() => toggleWeekday(day)}
+                              className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
+                              disabled={saving}
+                            />
+                            <span className="ml-1">{weekdayName(day)}</span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">{t('endDate')}</label>
+                      <input
+                        type="date"
+                        value={form.ends_on}
+                        min={standingOrder.starts_on}
+                        onChange={e => setForm({ ...form, ends_on: e.target.value })}
+                        className="mt-1 rounded-lg border border-gray-300 px-3 py-1 text-sm"
+                        disabled={saving}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                <ul className="mt-3 divide-y divide-gray-100">
+                  {(standingOrder.items || []).map(item => (
+                    <li key={item.id} className="flex items-center justify-between py-2 text-sm">
+                      <span className="text-gray-900">{item.product?.name_en}</span>
+                      {isEditing ? (
+                        <input
+                          type="number"
+                          min={0}
+                          step="any"
+                          value={form.quantities[item.id] ?? item.quantity}
+                          onChange={e => setForm({
+                            ...form,
+                            quantities: { ...form.quantities, [item.id]: Number(e.target.value) }
+                          })}
+                          className="w-24 rounded-lg border border-gray-300 px-2 py-1 text-sm text-right"
+                          disabled={saving}
+                        />
+                      ) : (
+                        <span className="text-gray-600">{item.quantity} {item.pack?.name || item.product?.unit}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+
+                <div className="mt-3 flex flex-wrap gap-3 justify-end">
+                  {isEditing ? (
+                    <>
+                      <button
+                        onClick={stopEditing}
+                        disabled={saving}
+                        className="px-3 py-1 text-sm font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+                      >
+                        {t('cancel')}
+                      </button>
+                      <button
+                        onClick={() => handleSave(standingOrder)}
+                        disabled={saving}
+                        className="px-3 py-1 text-sm font-medium text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 disabled:opacity-50"
+                      >
+                        {t('save')}
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => handleToggleActive(standingOrder)}
+                        disabled={saving}
+                        className="px-3 py-1 text-sm font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+                      >
+                        {standingOrder.is_active ? t('pause') : t('resume')}
+                      </button>
+                      <button
+                        onClick={() => startEditing(standingOrder)}
+                        disabled={saving}
+                        className="px-3 py-1 text-sm font-medium text-emerald-700 border border-emerald-300 rounded-lg hover:bg-emerald-50"
+                      >
+                        {t('edit')}
+                      </button>
+                      <button
+                        onClick={() => handleDelete(standingOrder)}
+                        disabled={saving}
+                        className="px-3 py-1 text-sm font-medium text-red-600 border border-red-200 rounded-lg hover:bg-red-50"
+                      >
+                        {t('delete')}
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,13 +5,19 @@ import { useRouter, useSearchParams } from 'next/navigation';
 import { useLocale, useTranslations } from 'next-intl';
 import { toast } from 'react-toastify';
 import { getUser, updateUserProfile, UserProfile } from '../../lib/auth';
-import { getUserOrders, Order, getOrderById, cancelOrder, generateInvoice } from '../../lib/order-api';
+import { getUserOrders, Order, OrderLineInput, SubstitutionPreference, getOrderById, cancelOrder, updateOrderItems, respondToSubstitution, generateInvoice, approveOrder, rejectOrder } from '../../lib/order-api';
 import { getCustomerDetailsFromAuth, CustomerDetails, getUserAddresses } from '../../lib/customer-api';
 import Loading from '@/app/components/Loading';
 // import { getProductById } from '../../lib/product-api'; // Not used in the provided code
 import Header from '../../components/Header';
 import OrderDetailModal from '../../components/OrderDetailModal';
 import InvoicesTab from './InvoicesTab'; // Assuming InvoicesTab.tsx exists in the same directory
+import StandingOrdersTab from './StandingOrdersTab';
+import ShoppingListsTab from './ShoppingListsTab';
+import { createShoppingList, getOrderListItems } from '../../lib/shopping-list-api';
+import ComplaintsTab from './ComplaintsTab';
+import { openComplaint, ComplaintLineInput } from '../../lib/complaint-api';
+import { BusinessMember, getBusinessMembership } from '../../lib/business-api';
 import { Switch } from '@headlessui/react';
 import type { User } from '@supabase/supabase-js';
 
@@ -26,7 +32,7 @@ interface AddressSuggestion {
 }
 
 // TabType definition
-type TabType = 'profile' | 'orders' | 'invoices' | 'notifications';
+type TabType = 'profile' | 'orders' | 'standing-orders' | 'shopping-lists' | 'invoices' | 'complaints' | 'notifications';
 
 // Notification settings type
 interface NotificationSettings {
@@ -52,9 +58,13 @@ export default function ProfilePage() {
   const locale = useLocale();
   const t = useTranslations('profile');
   const tInvoices = useTranslations('invoices');
+  const tStandingOrders = useTranslations('standingOrders');
+  const tShoppingLists = useTranslations('shoppingLists');
+  const tComplaints = useTranslations('complaints');
 
   // User data states
   const [user, setUser] = useState<User | null>(null);
+  const [businessMembership, setBusinessMembership] = useState<BusinessMember | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [userOrders, setUserOrders] = useState<Order[]>([]);
   const [customerDetails, setCustomerDetails] = useState<CustomerDetails | null>(null);
@@ -93,6 +103,9 @@ export default function ProfilePage() {
     newsletter: false // Aligned with newsLetterSubscribed state
   });
 
+  // What to do when a product runs short at picking
+  const [substitutionPreference, setSubstitutionPreference] = useState<SubstitutionPreference>('allow');
+
   const [isSaving, setIsSaving] = useState(false);
   const [saveSuccess, setSaveSuccess] = useState(false);
   const [saveError, setSaveError] = useState('');
@@ -122,7 +135,7 @@ export default function ProfilePage() {
   // Handle URL parameter changes
   useEffect(() => {
     const tabParam = searchParams?.get('tab');
-    if (tabParam && ['profile', 'orders', 'invoices', 'notifications'].includes(tabParam)) {
+    if (tabParam && ['profile', 'orders', 'standing-orders', 'shopping-lists', 'invoices', 'complaints', 'notifications'].includes(tabParam)) {
       setActiveTab(tabParam as TabType);
     } else if (tabParam) { // If tab param exists but is invalid, default to profile
       setActiveTab('profile');
@@ -165,6 +178,7 @@ export default function ProfilePage() {
           }
 
           setNewsLetterSubscribed(details.newsletter_subscribed || false);
+          setSubstitutionPreference(details.substitution_preference || 'allow');
           setNotificationSettings({
             orderUpdates: details.notifications?.orderUpdates ?? true,
             promotions: details.notifications?.promotions ?? false,
@@ -173,7 +187,14 @@ export default function ProfilePage() {
           });
         }
 
-        const orders = await getUserOrders(userData.id);
+        // Approvers and viewers of a business account also see the orders of their colleagues
+        const membership = await getBusinessMembership(userData.id);
+        setBusinessMembership(membership);
+
+        const orders = await getUserOrders(
+          userData.id,
+          membership && membership.role !== 'buyer' ? membership.business_id : undefined
+        );
         setUserOrders(orders);
       } catch (error) {
         console.error('Error fetching user data:', error);
@@ -446,7 +467,8 @@ export default function ProfilePage() {
         // latitude: defaultAddress?.latitude,  // on the root UserProfile object
         addresses: addresses, // Full list of addresses
         newsletter_subscribed: newsLetterSubscribed,
-        notifications: notificationSettings
+        notifications: notificationSettings,
+        substitution_preference: substitutionPreference
       };
 
       await updateUserProfile(user.id, profileUpdateData);
@@ -529,9 +551,72 @@ export default function ProfilePage() {
     }
   };
 
+  // Errors are shown by the items editor in the modal, so they are passed on
+  const handleUpdateOrderItems = async (orderId: string, items: OrderLineInput[]) => {
+    const updatedOrder = await updateOrderItems(orderId, items);
+
+    setUserOrders(prev =>
+      prev.map(order =>
+        order.id === orderId ? updatedOrder : order
+      )
+    );
+    setSelectedOrder(updatedOrder);
+    toast.success(t('orders.itemsUpdated'));
+  };
+
+  // Errors are shown in the modal, so they are passed on
+  const handleRespondToSubstitution = async (orderId: string, orderItemId: string, accept: boolean) => {
+    await respondToSubstitution(orderItemId, accept);
+
+    const updatedOrder = await getOrderById(orderId);
+    if (!updatedOrder) return;
+
+    setUserOrders(prev =>
+      prev.map(order =>
+        order.id === orderId ? updatedOrder : order
+      )
+    );
+    setSelectedOrder(updatedOrder);
+    toast.success(t(accept ? 'orders.substitutionAccepted' : 'orders.substitutionDeclined'));
+  };
+
+  // Errors are shown in the modal, so they are passed on
+  const handleRespondToApproval = async (orderId: string, approve: boolean) => {
+    if (!approve && !confirm(t('orders.rejectConfirm'))) return;
+
+    const updatedOrder = approve ? await approveOrder(orderId) : await rejectOrder(orderId);
+
+    setUserOrders(prev =>
+      prev.map(order =>
+        order.id === orderId ? updatedOrder : order
+      )
+    );
+    if (selectedOrder?.id === orderId) {
+      setSelectedOrder(updatedOrder);
+    }
+    toast.success(t(approve ? 'orders.orderApproved' : 'orders.orderRejected'));
+  };
+
+  const handleRespondToApprovalFromList = async (orderId: string, approve: boolean) => {
+    try {
+      await handleRespondToApproval(orderId, approve);
+    } catch (err: any) {
+      console.error('Error responding to order approval:', err);
+      toast.error(`${t('orders.approvalError')}: ${err.message}`);
+    }
+  };
+
+  // Errors are shown by the complaint form in the modal, so they are passed on
+  const handleOpenComplaint = async (orderId: string, items: ComplaintLineInput[], description: string, photos: File[]) => {
+    await openComplaint(orderId, items, description, photos);
+    handleCloseOrderDetail();
+    toast.success(t('orders.complaintOpened'));
+  };
+
   const handleDownloadInvoice = async (orderId: string): Promise<void> => {
     try {
-      await generateInvoice(orderId);
+      const invoiceUrl = await generateInvoice(orderId);
+      window.open(invoiceUrl, '_blank');
     } catch (error) {
       console.error('Error downloading invoice:', error);
       toast.error(t('errors.downloadInvoiceFailed'));
@@ -544,12 +629,13 @@ export default function ProfilePage() {
       setBuyAgainSuccess('');
       setBuyAgainError('');
 
-      let cart: Array<{ product_id: string, quantity: number }> = [];
+      let cart: Array<{ product_id: string, pack_id?: string, quantity: number }> = [];
 
       for (const item of order.items) {
         if (item.product_id) {
           cart.push({
             product_id: item.product_id,
+            pack_id: item.pack_id,
             quantity: item.quantity
           });
         }
@@ -572,12 +658,29 @@ export default function ProfilePage() {
     }
   };
 
+  // Keep a past order as a named shopping list
+  const handleSaveAsList = async (order: Order) => {
+    if (!user) return;
+
+    const name = window.prompt(tShoppingLists('namePrompt'), tShoppingLists('defaultOrderName', { id: order.id?.substring(0, 8) || '' }));
+    if (!name?.trim()) return;
+
+    try {
+      await createShoppingList(user.id, name.trim(), getOrderListItems(order));
+      toast.success(tShoppingLists('created', { name: name.trim() }));
+    } catch (error) {
+      console.error('Error saving order as shopping list:', error);
+      toast.error(tShoppingLists('saveError'));
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status?.toLowerCase()) {
       case 'completed': return 'text-green-600 bg-green-100';
       case 'processing': return 'text-blue-600 bg-blue-100';
       case 'cancelled': return 'text-red-600 bg-red-100';
       case 'pending': return 'text-yellow-600 bg-yellow-100';
+      case 'pending_approval': return 'text-orange-600 bg-orange-100';
       default: return 'text-gray-600 bg-gray-100';
     }
   };
@@ -729,10 +832,16 @@ export default function ProfilePage() {
     </div>
   );
 
+  // The orders of colleagues in a business account are followed, not changed
+  const isOwnOrder = !!selectedOrder && selectedOrder.user_id === user?.id;
+
   const pageTabs = [
     { id: 'profile' as TabType, label: t('tab') }, // Using tab assuming it's defined for tab label
     { id: 'orders' as TabType, label: t('orders.tab') },
+    { id: 'standing-orders' as TabType, label: tStandingOrders('tab') },
+    { id: 'shopping-lists' as TabType, label: tShoppingLists('tab') },
     { id: 'invoices' as TabType, label: t('invoices.tab') },
+    { id: 'complaints' as TabType, label: tComplaints('tab') },
     { id: 'notifications' as TabType, label: t('notifications.tab') }, // Changed from t('settings') to be consistent
   ];
 
@@ -858,6 +967,23 @@ export default function ProfilePage() {
                   {renderAddressInput()}
                 </div>
 
+                <div>
+                  <label htmlFor="substitution_preference" className="block text-sm font-medium text-gray-700 mb-2">
+                    {t('substitutions.label')}
+                  </label>
+                  <select
+                    id="substitution_preference"
+                    value={substitutionPreference}
+                    onChange={e => setSubstitutionPreference(e.target.value as SubstitutionPreference)}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-xl bg-white/50 backdrop-blur-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 transition-all duration-200"
+                  >
+                    <option value="allow">{t('substitutions.allow')}</option>
+                    <option value="ask">{t('substitutions.ask')}</option>
+                    <option value="never">{t('substitutions.never')}</option>
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500">{t('substitutions.help')}</p>
+                </div>
+
                 {saveSuccess && (
                   <div className="bg-emerald-50/80 backdrop-blur-lg rounded-xl border border-emerald-200/20 p-4 flex items-center">
                     <svg className="w-5 h-5 text-emerald-500 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -955,6 +1081,11 @@ export default function ProfilePage() {
                           <tr key={order.id}>
                             <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                               #{order.id?.substring(0, 4)}
+                              {order.user_id !== user?.id && (
+                                <div className="text-xs font-normal text-gray-500">
+                                  {t('orders.orderedBy', { name: order.customer?.name || order.customer?.email || '' })}
+                                </div>
+                              )}
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                               {order.order_date
@@ -971,19 +1102,44 @@ export default function ProfilePage() {
                             <td className="px-6 py-4 whitespace-nowrap">
                               <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${order.status === 'completed' ? 'bg-green-100 text-green-800' :
                                 order.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
-                                  'bg-red-100 text-red-800'
+                                  order.status === 'pending_approval' ? 'bg-orange-100 text-orange-800' :
+                                    'bg-red-100 text-red-800'
                                 }`}>
                                 {t(`orders.status.${order.status}`)}
                               </span>
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                               <div className="flex items-center justify-end space-x-3">
+                                {businessMembership?.role === 'approver' && order.status === 'pending_approval' && (
+                                  <>
+                                    <button
+                                      onClick={() => order.id && handleRespondToApprovalFromList(order.id, true)}
+                                      className="px-3 py-1 text-xs font-medium rounded-md text-emerald-700 bg-emerald-100 hover:bg-emerald-200 transition-colors"
+                                    >
+                                      {t('orders.approve')}
+                                    </button>
+                                    <button
+                                      onClick={() => order.id && handleRespondToApprovalFromList(order.id, false)}
+                                      className="px-3 py-1 text-xs font-medium rounded-md text-red-700 bg-red-100 hover:bg-red-200 transition-colors"
+                                    >
+                                      {t('orders.reject')}
+                                    </button>
+                                  </>
+                                )}
                                 <button
                                   onClick={() => order.id && handleOpenOrderDetail(order.id)}
                                   className="text-emerald-600 hover:text-emerald-900 transition-colors"
                                 >
                                   {t('orders.viewDetails')}
                                 </button>
+                                {order.items && order.items.length > 0 && (
+                                  <button
+                                    onClick={() => handleSaveAsList(order)}
+                                    className="text-emerald-600 hover:text-emerald-900 transition-colors"
+                                  >
+                                    {tShoppingLists('saveOrder')}
+                                  </button>
+                                )}
                                 {order.status === 'completed' && order.items && order.items.length > 0 && (
                                   <button
                                     onClick={() => handleBuyAgain(order)}
@@ -1021,6 +1177,24 @@ export default function ProfilePage() {
             </div>
           </div>
         );
+      case 'standing-orders':
+        return (
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <div className="p-6">
+              <h2 className="text-xl font-semibold text-gray-900 mb-6">{tStandingOrders('title')}</h2>
+              <StandingOrdersTab />
+            </div>
+          </div>
+        );
+      case 'shopping-lists':
+        return (
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <div className="p-6">
+              <h2 className="text-xl font-semibold text-gray-900 mb-6">{tShoppingLists('title')}</h2>
+              <ShoppingListsTab />
+            </div>
+          </div>
+        );
       case 'invoices':
         return (
           <div className="bg-white rounded-lg shadow overflow-hidden">
@@ -1030,6 +1204,15 @@ export default function ProfilePage() {
             </div>
           </div>
         );
+      case 'complaints':
+        return (
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <div className="p-6">
+              <h2 className="text-xl font-semibold text-gray-900 mb-6">{tComplaints('title')}</h2>
+              <ComplaintsTab />
+            </div>
+          </div>
+        );
       case 'notifications':
         return (
           <div className="bg-white/80 backdrop-blur-lg rounded-3xl shadow-2xl border border-white/20 p-6 lg:p-8">
@@ -1147,8 +1330,12 @@ export default function ProfilePage() {
         <OrderDetailModal
           order={selectedOrder}
           onClose={handleCloseOrderDetail}
-          onCancel={handleCancelOrder}
+          onCancel={isOwnOrder ? handleCancelOrder : undefined}
           onDownloadInvoice={handleDownloadInvoice}
+          onUpdateItems={isOwnOrder ? handleUpdateOrderItems : undefined}
+          onRespondToSubstitution={isOwnOrder ? handleRespondToSubstitution : undefined}
+          onOpenComplaint={isOwnOrder ? handleOpenComplaint : undefined}
+          onRespondToApproval={businessMembership?.role === 'approver' ? handleRespondToApproval : undefined}
           initialActiveTab={initialModalTab}
         />
       )}
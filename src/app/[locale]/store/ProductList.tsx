@@ -2,7 +2,8 @@
 
 import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import { useTranslations, useLocale } from 'next-intl';
-import { Product } from '../../lib/product-api';
+import { Product, ProductPack, getVolumePrices, getActivePacks, getAvailableStock } from '../../lib/product-api';
+import { Category, getCategoryName } from '../../lib/category-api';
 import { formatPriceSync } from '../../lib/settings-api';
 import Image from 'next/image';
 import Pagination from '@/app/components/Pagination';
@@ -17,14 +18,16 @@ interface ProductListProps {
   currentPage: number;
   totalPages: number;
   onPageChange: (page: number) => void;
-  onAddToCart: (product: Product, quantity: number) => void;
+  onAddToCart: (product: Product, quantity: number, pack?: ProductPack) => void;
   popularProductIds?: string[]; // Optional array of popular product IDs
   currency?: string; // Currency code
   isSearching?: boolean; // Optional prop to show search loading state
   itemsPerPage: number;
   onItemsPerPageChange: (value: number) => void;
   totalCount: number;
-
+  categories?: Category[];
+  selectedCategoryId?: string | null;
+  onCategoryChange?: (categoryId: string | null) => void;
 }
 
 // Custom debounce function with cancel method
@@ -61,13 +64,18 @@ const ProductList: React.FC<ProductListProps> = ({
   isSearching,
   itemsPerPage,
   onItemsPerPageChange,
-  totalCount
+  totalCount,
+  categories = [],
+  selectedCategoryId = null,
+  onCategoryChange
 }) => {
   const t = useTranslations('store');
   const tCommon = useTranslations('common');
   const locale = useLocale();
   // State for quantity inputs
   const [quantities, setQuantities] = useState<Record<string, number>>({});
+  // Pack chosen per product; no entry means the product is bought loose
+  const [selectedPacks, setSelectedPacks] = useState<Record<string, string>>({});
 
   // State for search input value
   const [inputValue, setInputValue] = useState(searchTerm);
@@ -122,10 +130,46 @@ const ProductList: React.FC<ProductListProps> = ({
     });
   };
 
+  // Top-level categories, and the subcategories of the selected one (or of its parent)
+  const topCategories = categories.filter(category => !category.parent_id);
+  const selectedCategory = categories.find(category => category.id === selectedCategoryId);
+  const activeTopCategoryId = selectedCategory?.parent_id || selectedCategory?.id;
+  const subCategories = activeTopCategoryId
+    ? categories.filter(category => category.parent_id === activeTopCategoryId)
+    : [];
+
+  const categoryButtonClass = (active: boolean) =>
+    `px-4 py-2 rounded-xl text-sm font-medium whitespace-nowrap transition-all duration-200 ${
+      active
+        ? 'bg-gradient-to-r from-emerald-500 to-teal-600 text-white shadow-lg'
+        : 'bg-white/80 text-gray-700 border border-gray-200 hover:bg-emerald-50 hover:text-emerald-700'
+    }`;
+
   // Handle add to cart
   const handleAddToCart = (product: Product) => {
     const quantity = getQuantity(product.id);
-    onAddToCart(product, quantity);
+    const pack = getActivePacks(product).find(p => p.id === selectedPacks[product.id]);
+    onAddToCart(product, quantity, pack);
+  };
+
+  const renderPackSelect = (product: Product) => {
+    const packs = getActivePacks(product);
+    if (packs.length === 0) return null;
+
+    return (
+      <select
+        value={selectedPacks[product.id] || ''}
+        onChange={e => setSelectedPacks({ ...selectedPacks, [product.id]: e.target.value })}
+        className="mt-1 rounded-lg border border-gray-200 bg-white/80 px-2 py-1 text-xs text-gray-700"
+      >
+        <option value="">{t('products.loose', { unit: product.unit || 'kg' })}</option>
+        {packs.map(pack => (
+          <option key={pack.id} value={pack.id}>
+            {t('products.packOption', { pack: pack.name, size: pack.base_quantity, unit: product.unit || 'kg' })}
+          </option>
+        ))}
+      </select>
+    );
   };
 
   if (loading) {
@@ -195,6 +239,42 @@ const ProductList: React.FC<ProductListProps> = ({
             )}
           </div>
         </div>
+
+        {/* Category Navigation */}
+        {topCategories.length > 0 && onCategoryChange && (
+          <div className="space-y-2">
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              <button
+                onClick={() => onCategoryChange(null)}
+                className={categoryButtonClass(!selectedCategoryId)}
+              >
+                {t('categories.all')}
+              </button>
+              {topCategories.map(category => (
+                <button
+                  key={category.id}
+                  onClick={() => onCategoryChange(category.id)}
+                  className={categoryButtonClass(category.id === activeTopCategoryId)}
+                >
+                  {getCategoryName(category, locale)}
+                </button>
+              ))}
+            </div>
+            {subCategories.length > 0 && (
+              <div className="flex gap-2 overflow-x-auto pb-1 pl-4">
+                {subCategories.map(category => (
+                  <button
+                    key={category.id}
+                    onClick={() => onCategoryChange(category.id)}
+                    className={categoryButtonClass(category.id === selectedCategoryId)}
+                  >
+                    {getCategoryName(category, locale)}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Products Display */}
@@ -233,14 +313,23 @@ const ProductList: React.FC<ProductListProps> = ({
                     <div className="text-center sm:text-left">
                       {/* <div className="text-xl sm:text-2xl font-bold bg-gradient-to-r from-emerald-600 to-teal-600 bg-clip-text text-transparent">{formatPriceSync(product.price, currency)}</div> */}
                       <div className="text-sm text-gray-600 font-medium">{t('products.per')} {product.unit || 'kg'}</div>
+                      {product.is_catch_weight && (
+                        <div className="text-xs text-gray-500">{t('products.catchWeight')}</div>
+                      )}
+                      {getVolumePrices(product).map(tier => (
+                        <div key={tier.id} className="text-xs text-emerald-700 font-medium">
+                          {t('products.volumePrice', { quantity: tier.min_quantity, unit: product.unit || 'kg', price: formatPriceSync(tier.price, currency) })}
+                        </div>
+                      ))}
+                      {renderPackSelect(product)}
                     </div>
 
-                    {/* Stock Info */}
-                    {/* <div className="flex justify-center sm:justify-start">
+                    {/* Stock Info: what open orders have reserved can no longer be ordered */}
+                    <div className="flex justify-center sm:justify-start">
                       <span className="inline-flex items-center px-3 py-1.5 rounded-full text-xs font-semibold bg-gradient-to-r from-emerald-100 to-teal-100 text-emerald-800 shadow-sm">
-                        {product.stock !== undefined ? `${product.stock} ${t('products.available')}` : t('products.inStock')}
+                        {product.stock !== undefined ? `${getAvailableStock(product)} ${t('products.available')}` : t('products.inStock')}
                       </span>
-                    </div> */}
+                    </div>
 
                     {/* Quantity Controls and Add to Cart */}
                     <div className="flex flex-col xs:flex-row items-center justify-center sm:justify-start space-y-3 xs:space-y-0 xs:space-x-3">
@@ -342,6 +431,15 @@ const ProductList: React.FC<ProductListProps> = ({
                         <td className="px-6 py-2">
                           {/* <div className="text-lg font-bold bg-gradient-to-r from-emerald-600 to-teal-600 bg-clip-text text-transparent break-words">{formatPriceSync(product.price, currency)}</div> */}
                           <div className="text-sm text-gray-600 font-medium break-words">{product.unit}</div>
+                          {product.is_catch_weight && (
+                            <div className="text-xs text-gray-500">{t('products.catchWeight')}</div>
+                          )}
+                          {getVolumePrices(product).map(tier => (
+                            <div key={tier.id} className="text-xs text-emerald-700 font-medium whitespace-nowrap">
+                              {t('products.volumePrice', { quantity: tier.min_quantity, unit: product.unit, price: formatPriceSync(tier.price, currency) })}
+                            </div>
+                          ))}
+                          {renderPackSelect(product)}
                         </td>
 
                         <td className="px-4 py-2">
@@ -2,13 +2,39 @@
 
 import React, { useState } from 'react';
 import { useTranslations } from 'next-intl';
-import { Product } from '../../lib/product-api';
+import { format } from 'date-fns';
+import { Product, ProductPack, StockShortage, meetsQuantityRules, getQuantityIncrement } from '../../lib/product-api';
 import { formatPriceSync } from '../../lib/settings-api';
+import { SkippedDeliveryDate } from '../../lib/holiday-api';
+import { DeliveryChoice, DeliveryDateOption, formatDeliveryWindow } from '../../lib/delivery-slot-api';
+import { DeliveryZone, MinimumOrder } from '../../lib/delivery-zone-api';
+import { ShoppingList } from '../../lib/shopping-list-api';
+import { toast } from 'react-toastify';
 import Image from 'next/image';
 
+// A cart line: a product sold loose, or a number of packs of it
+export interface CartItem {
+  product: Product;
+  quantity: number;
+  pack?: ProductPack;
+}
+
+// The same product in different packs makes separate cart lines
+export function getCartItemKey(item: Pick<CartItem, 'product' | 'pack'>): string {
+  return item.pack ? `${item.product.id}:${item.pack.id}` : item.product.id;
+}
+
+// What the customer fills in to repeat the cart as a standing order
+export interface StandingOrderChoice {
+  name: string;
+  weekdays: number[]; // 0=Sunday ... 6=Saturday
+  ends_on?: string; // yyyy-MM-dd
+}
+
+const WEEKDAYS = [1, 2, 3, 4, 5, 6, 0];
 
 interface ShoppingCartProps {
-  items: { product: Product; quantity: number }[];
+  items: CartItem[];
   total: number;
   customerInfo: {
     name: string;
@@ -17,8 +43,8 @@ interface ShoppingCartProps {
     address: string;
   };
   onCustomerInfoChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
-  onUpdateQuantity: (productId: string, quantity: number) => void;
-  onRemoveItem: (productId: string) => void;
+  onUpdateQuantity: (itemKey: string, quantity: number) => void;
+  onRemoveItem: (itemKey: string) => void;
   orderNotes: string;
   onOrderNotesChange: (notes: string) => void;
   onSaveOrder: () => void;
@@ -33,6 +59,19 @@ interface ShoppingCartProps {
   }>;
   onSelectAddress?: (address: string) => void;
   currency?: string; // Currency code
+  stockIssues?: StockShortage[]; // Shortages reported when the order was rejected
+  deliveryDate?: Date; // When an order placed now arrives; shown when there is nothing to choose from
+  skippedDeliveryDates?: SkippedDeliveryDate[]; // Holidays that pushed the delivery date back
+  deliveryOptions?: DeliveryDateOption[]; // Dates and time windows the customer can choose from
+  deliveryChoice?: DeliveryChoice | null;
+  onDeliveryChoiceChange?: (choice: DeliveryChoice) => void;
+  deliveryZone?: DeliveryZone; // Zone of the chosen address, with its delivery fee
+  minimumOrder?: MinimumOrder; // The customer's, the zone's or the global minimum order value
+  earliestDeliveryDate?: string; // yyyy-MM-dd; earlier dates are too soon for a product's lead time
+  onSaveStandingOrder?: (choice: StandingOrderChoice) => Promise<boolean>; // Resolves true once saved
+  shoppingLists?: ShoppingList[]; // The customer's saved lists, to add to the cart
+  onAddShoppingList?: (list: ShoppingList) => void;
+  onSaveShoppingList?: (name: string) => Promise<boolean>; // Resolves true once saved
 }
 
 const ShoppingCart: React.FC<ShoppingCartProps> = ({
@@ -49,16 +88,65 @@ const ShoppingCart: React.FC<ShoppingCartProps> = ({
   onProceedToCheckout,
   userAddresses,
   onSelectAddress,
-  currency
+  currency,
+  stockIssues = [],
+  deliveryDate,
+  skippedDeliveryDates = [],
+  deliveryOptions = [],
+  deliveryChoice,
+  onDeliveryChoiceChange,
+  deliveryZone,
+  minimumOrder,
+  earliestDeliveryDate,
+  onSaveStandingOrder,
+  shoppingLists = [],
+  onAddShoppingList,
+  onSaveShoppingList
 }) => {
   const t = useTranslations('store');
+  const tSettings = useTranslations('settings');
   // State for confirmation modal
   const [showConfirmation, setShowConfirmation] = useState(false);
   // State for address selection dropdown
   const [showAddressSelection, setShowAddressSelection] = useState(false);
+  // Standing order form
+  const [standingOrderChoice, setStandingOrderChoice] = useState<StandingOrderChoice | null>(null);
+  const [savingStandingOrder, setSavingStandingOrder] = useState(false);
+  // Shopping lists
+  const [selectedListId, setSelectedListId] = useState('');
 
   // Handle checkout process
   const handleCheckout = () => {
+    if (quantityIssues.length > 0) {
+      toast.error(t('messages.quantityRule', { product: quantityIssues[0].product.name_en }));
+      return false;
+    }
+
+    if (isBelowMinimum) {
+      const minimum = formatPriceSync(minimumOrderValue, currency);
+      toast.error(minimumOrder?.zone_name
+        ? t('messages.belowMinimumOrder', { zone: minimumOrder.zone_name, minimum })
+        : t('messages.belowMinimumOrderGeneral', { minimum }));
+      return false;
+    }
+
+    if (deliveryOptions.length > 0 && !deliveryChoice) {
+      toast.error(t('cart.chooseDelivery'));
+      return false;
+    }
+
+    // The products with the longest lead time decide the earliest delivery date
+    const chosenDate = deliveryChoice?.delivery_date || (deliveryDate && format(deliveryDate, 'yyyy-MM-dd'));
+    if (earliestDeliveryDate && chosenDate && chosenDate < earliestDeliveryDate) {
+      const product = items.reduce((latest, item) =>
+        (item.product.lead_time_days || 0) > (latest.lead_time_days || 0) ? item.product : latest, items[0].product);
+      toast.error(t('messages.leadTime', {
+        product: product.name_en,
+        date: formatDeliveryDate(toDate(earliestDeliveryDate))
+      }));
+      return false;
+    }
+
     // Check stock availability before proceeding
     // const stockIssues = items.filter(item => {
     //   if (item.product.stock !== undefined && item.product.stock < item.quantity) {
@@ -89,6 +177,61 @@ const ShoppingCart: React.FC<ShoppingCartProps> = ({
     setShowConfirmation(false);
   };
 
+  const weekdayName = (day: number) =>
+    tSettings(['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'][day]);
+
+  // Open the standing order form; customers have to sign in first
+  const handleOpenStandingOrder = () => {
+    if (onProceedToCheckout()) {
+      setStandingOrderChoice({ name: '', weekdays: [], ends_on: '' });
+    }
+  };
+
+  const toggleStandingOrderWeekday = (day: number) => {
+    if (!standingOrderChoice) return;
+    const { weekdays } = standingOrderChoice;
+    setStandingOrderChoice({
+      ...standingOrderChoice,
+      weekdays: weekdays.includes(day) ? weekdays.filter(d => d !== day) : [...weekdays, day]
+    });
+  };
+
+  const handleSaveStandingOrder = async () => {
+    if (!standingOrderChoice || !onSaveStandingOrder) return;
+    if (!standingOrderChoice.name.trim() || standingOrderChoice.weekdays.length === 0) {
+      toast.error(t('cart.standingOrderRequired'));
+      return;
+    }
+
+    setSavingStandingOrder(true);
+    const saved = await onSaveStandingOrder({
+      name: standingOrderChoice.name.trim(),
+      weekdays: standingOrderChoice.weekdays,
+      ends_on: standingOrderChoice.ends_on || undefined
+    });
+    setSavingStandingOrder(false);
+    if (saved) {
+      setStandingOrderChoice(null);
+    }
+  };
+
+  const handleAddShoppingList = () => {
+    const list = shoppingLists.find(l => l.id === selectedListId);
+    if (list && onAddShoppingList) {
+      onAddShoppingList(list);
+    }
+  };
+
+  // Name the cart and keep it as a shopping list; customers have to sign in first
+  const handleSaveShoppingList = async () => {
+    if (!onSaveShoppingList || !onProceedToCheckout()) return;
+
+    const name = window.prompt(t('cart.shoppingListName'));
+    if (name?.trim()) {
+      await onSaveShoppingList(name.trim());
+    }
+  };
+
   // Handle address selection
   const handleAddressChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     if (onSelectAddress) {
@@ -99,8 +242,154 @@ const ShoppingCart: React.FC<ShoppingCartProps> = ({
   // Check if cart is empty
   const isCartEmpty = items.length === 0;
 
+  const minimumOrderValue = minimumOrder?.minimum || 0;
+  const isBelowMinimum = !isCartEmpty && total < minimumOrderValue;
+  const quantityIssues = items.filter(item => !meetsQuantityRules(item.product, item.quantity, item.pack));
+  const deliveryFee = deliveryZone?.delivery_fee || 0;
+
+  const formatDeliveryDate = (date: Date) =>
+    date.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' });
+
+  const toDate = (day: string) => new Date(`${day}T00:00:00`);
+
+  const isTooSoon = (day: string) => !!earliestDeliveryDate && day < earliestDeliveryDate;
+
+  // The minimum quantity and quantity step of a product, in its base unit
+  const quantityRuleText = (product: Product) => {
+    const { min_order_quantity: minimum, quantity_step: step, unit } = product;
+    if (minimum && step) return t('cart.quantityRuleBoth', { minimum, step, unit });
+    if (minimum) return t('cart.quantityRuleMinimum', { minimum, unit });
+    if (step) return t('cart.quantityRuleStep', { step, unit });
+    return null;
+  };
+
+  const renderEarliestDelivery = () => earliestDeliveryDate && (
+    <p className="text-xs text-amber-700 mt-1">
+      {t('cart.earliestDelivery', { date: formatDeliveryDate(toDate(earliestDeliveryDate)) })}
+    </p>
+  );
+
+  const selectedDeliveryOption = deliveryOptions.find(option => option.date === deliveryChoice?.delivery_date);
+  const selectedDeliverySlot = selectedDeliveryOption?.slots.find(slot => slot.slot_id === deliveryChoice?.delivery_slot_id);
+
+  const renderSkippedDeliveryDates = () => skippedDeliveryDates.map(skipped => (
+    <p key={skipped.date.toISOString()} className="text-xs text-amber-700 mt-1">
+      {t('cart.noDeliveryOn', { date: formatDeliveryDate(skipped.date), reason: skipped.holiday.name })}
+    </p>
+  ));
+
+  // The chosen (or, without options, the calculated) delivery date, read-only
+  const renderDeliveryDate = () => {
+    const date = deliveryChoice ? toDate(deliveryChoice.delivery_date) : deliveryDate;
+    if (!date) return null;
+
+    return (
+      <div className="bg-white/50 rounded-sm p-2 mb-2 border border-emerald-100">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-gray-700">{t('cart.deliveryDate')}</span>
+          <span className="text-sm font-semibold text-emerald-700">
+            {formatDeliveryDate(date)}
+            {selectedDeliverySlot?.slot_id && ` · ${formatDeliveryWindow(selectedDeliverySlot.start_time, selectedDeliverySlot.end_time)}`}
+          </span>
+        </div>
+        {!deliveryChoice && renderSkippedDeliveryDates()}
+        {!deliveryChoice && isTooSoon(format(date, 'yyyy-MM-dd')) && renderEarliestDelivery()}
+      </div>
+    );
+  };
+
+  // Date and time window picker; full dates and windows are shown but can't be chosen
+  const renderDeliveryChoice = () => {
+    if (deliveryOptions.length === 0 || !onDeliveryChoiceChange) return renderDeliveryDate();
+
+    const handleDateChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+      if (isTooSoon(e.target.value)) return;
+      const option = deliveryOptions.find(o => o.date === e.target.value);
+      const slot = option?.slots.find(s => !s.is_full);
+      if (option && slot) {
+        onDeliveryChoiceChange({ delivery_date: option.date, delivery_slot_id: slot.slot_id });
+      }
+    };
+
+    return (
+      <div className="bg-white/50 rounded-sm p-2 mb-2 border border-emerald-100">
+        <label htmlFor="delivery-date" className="block text-sm font-medium text-gray-700 mb-1">
+          {t('cart.deliveryDate')}
+        </label>
+        <select
+          id="delivery-date"
+          className="w-full px-3 py-2 border border-gray-300 rounded-sm bg-white focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 text-sm"
+          value={deliveryChoice?.delivery_date || ''}
+          onChange={handleDateChange}
+        >
+          {!deliveryChoice && <option value="">{t('cart.chooseDelivery')}</option>}
+          {deliveryOptions.map(option => (
+            <option key={option.date} value={option.date} disabled={option.is_full || isTooSoon(option.date)}>
+              {formatDeliveryDate(toDate(option.date))}
+              {option.is_full ? ` (${t('cart.slotFull')})` : isTooSoon(option.date) ? ` (${t('cart.tooSoon')})` : ''}
+            </option>
+          ))}
+        </select>
+        {renderSkippedDeliveryDates()}
+        {deliveryOptions.some(option => isTooSoon(option.date)) && renderEarliestDelivery()}
+
+        {selectedDeliveryOption && selectedDeliveryOption.slots.some(slot => slot.slot_id) && (
+          <div className="grid grid-cols-2 gap-2 mt-2">
+            {selectedDeliveryOption.slots.map(slot => {
+              const isSelected = slot.slot_id === deliveryChoice?.delivery_slot_id;
+              return (
+                <button
+                  key={slot.slot_id}
+                  type="button"
+                  disabled={slot.is_full}
+                  onClick={() => onDeliveryChoiceChange({ delivery_date: selectedDeliveryOption.date, delivery_slot_id: slot.slot_id })}
+                  className={`px-2 py-2 rounded-sm border text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${isSelected
+                      ? 'border-emerald-500 bg-emerald-50 text-emerald-700 font-semibold'
+                      : 'border-gray-200 bg-white text-gray-700 hover:border-emerald-300'
+                    }`}
+                >
+                  <span className="block">{formatDeliveryWindow(slot.start_time, slot.end_time)}</span>
+                  <span className="block text-xs text-gray-500">
+                    {slot.is_full
+                      ? t('cart.slotFull')
+                      : slot.capacity != null && t('cart.slotsLeft', { count: slot.capacity - slot.booked })}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="p-6 lg:p-8">
+      {/* Shopping Lists */}
+      {isLoggedIn && shoppingLists.length > 0 && onAddShoppingList && (
+        <div className="flex items-center gap-2 mb-4">
+          <select
+            aria-label={t('cart.shoppingLists')}
+            className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-sm bg-white focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 text-sm"
+            value={selectedListId}
+            onChange={(e) => setSelectedListId(e.target.value)}
+          >
+            <option value="">{t('cart.chooseShoppingList')}</option>
+            {shoppingLists.map(list => (
+              <option key={list.id} value={list.id}>{list.name}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleAddShoppingList}
+            disabled={!selectedListId}
+            className="px-3 py-2 rounded-sm text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('cart.addShoppingList')}
+          </button>
+        </div>
+      )}
+
       {/* Cart Header */}
       <div className="flex items-center justify-between mb-6">
         <h2 className="text-2xl font-bold bg-gradient-to-r from-emerald-600 to-teal-600 bg-clip-text text-transparent">
@@ -128,54 +417,87 @@ const ShoppingCart: React.FC<ShoppingCartProps> = ({
         </div>
       ) : (
         <>
+          {/* Stock Issues */}
+          {stockIssues.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-sm p-2 mb-2">
+              <p className="text-sm font-semibold text-red-700">{t('cart.stockIssues')}</p>
+              {stockIssues.map(issue => (
+                <p key={issue.product_id} className="text-xs text-red-600">
+                  {issue.product_name}: {t('products.available')} {issue.available}, {t('cart.requested')} {issue.requested}
+                </p>
+              ))}
+            </div>
+          )}
+
           {/* Cart Items */}
           <div className="space-y-2">
-            {items.map(({ product, quantity }) => (
-              <div key={product.id} className="bg-white/50 backdrop-blur-sm rounded-sm border border-white/20 p-2 hover:shadow-lg transition-all duration-200">
-                <div className="flex items-start">
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-start justify-between">
-                      <div>
-                        <h3 className="text-sm font-semibold text-gray-900 truncate">{product.name_en}</h3>
-                        <p className="text-xs text-gray-500">{product.unit}</p>
-                      </div>
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center bg-gray-100 rounded-sm">
-                          <button
-                            onClick={() => onUpdateQuantity(product.id, quantity - 1)}
-                            disabled={quantity <= 1}
-                            className="p-2 rounded-sm hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                          >
-                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 12H4" />
-                            </svg>
-                          </button>
-                          <span className="min-w-[2.5rem] text-center text-sm font-medium">{quantity}</span>
+            {items.map(item => {
+              const { product, quantity, pack } = item;
+              const itemKey = getCartItemKey(item);
+              const stockIssue = stockIssues.find(issue => issue.product_id === product.id);
+              const ruleText = quantityRuleText(product);
+              const breaksRule = !meetsQuantityRules(product, quantity, pack);
+              const increment = getQuantityIncrement(product, pack);
+              return (
+                <div key={itemKey} className="bg-white/50 backdrop-blur-sm rounded-sm border border-white/20 p-2 hover:shadow-lg transition-all duration-200">
+                  <div className="flex items-start">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-start justify-between">
+                        <div>
+                          <h3 className="text-sm font-semibold text-gray-900 truncate">{product.name_en}</h3>
+                          <p className="text-xs text-gray-500">
+                            {pack ? t('cart.packSize', { pack: pack.name, size: pack.base_quantity, unit: product.unit }) : product.unit}
+                          </p>
+                          {stockIssue && (
+                            <p className="text-xs text-red-600">
+                              {t('messages.quantityExceeded', { available: stockIssue.available, product: product.name_en })}
+                            </p>
+                          )}
+                          {ruleText && (
+                            <p className={`text-xs ${breaksRule ? 'text-red-600' : 'text-gray-500'}`}>{ruleText}</p>
+                          )}
+                          {!!product.lead_time_days && (
+                            <p className="text-xs text-gray-500">{t('cart.leadTime', { days: product.lead_time_days })}</p>
+                          )}
+                        </div>
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center bg-gray-100 rounded-sm">
+                            <button
+                              onClick={() => onUpdateQuantity(itemKey, quantity - increment)}
+                              disabled={quantity <= increment}
+                              className="p-2 rounded-sm hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 12H4" />
+                              </svg>
+                            </button>
+                            <span className="min-w-[2.5rem] text-center text-sm font-medium">{quantity}</span>
+                            <button
+                              onClick={() => onUpdateQuantity(itemKey, quantity + increment)}
+                              className="p-2 rounded-r-xl hover:bg-gray-200 transition-colors"
+                            >
+                              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+                              </svg>
+                            </button>
+                          </div>
                           <button
-                            onClick={() => onUpdateQuantity(product.id, quantity + 1)}
-                            className="p-2 rounded-r-xl hover:bg-gray-200 transition-colors"
+                            onClick={() => onRemoveItem(itemKey)}
+                            className="p-2 text-red-500 hover:text-red-700 hover:bg-red-50 rounded-sm transition-colors"
+                            aria-label={t('cart.remove')}
                           >
                             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
                             </svg>
                           </button>
                         </div>
-                        <button
-                          onClick={() => onRemoveItem(product.id)}
-                          className="p-2 text-red-500 hover:text-red-700 hover:bg-red-50 rounded-sm transition-colors"
-                          aria-label={t('cart.remove')}
-                        >
-                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                          </svg>
-                        </button>
                       </div>
-                    </div>
 
+                    </div>
                   </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
           {/* Cart Summary */}
           <div className="bg-gradient-to-r from-emerald-50 to-teal-50 rounded-sm p-2 mb-2 border border-emerald-100">
@@ -183,12 +505,31 @@ const ShoppingCart: React.FC<ShoppingCartProps> = ({
               <span className="text-sm font-medium text-gray-700">{t('cart.totalItems')}</span>
               <span className="text-lg font-bold text-emerald-700">{items.reduce((acc, item) => acc + item.quantity, 0)}</span>
             </div>
+            {deliveryZone && (
+              <div className="flex items-center justify-between mt-1">
+                <span className="text-sm text-gray-700">{t('cart.deliveryFee', { zone: deliveryZone.name })}</span>
+                <span className="text-sm font-semibold text-emerald-700">
+                  {deliveryFee > 0 ? formatPriceSync(deliveryFee, currency) : t('cart.freeDelivery')}
+                </span>
+              </div>
+            )}
+            {isBelowMinimum && (
+              <p className="text-xs text-amber-700 mt-1">
+                {t('cart.minimumOrder', {
+                  minimum: formatPriceSync(minimumOrderValue, currency),
+                  missing: formatPriceSync(minimumOrderValue - total, currency)
+                })}
+              </p>
+            )}
             {/* <div className="flex items-center justify-between">
               <span className="text-base font-semibold text-gray-900">{t('cart.totalAmount')}</span>
               <span className="text-2xl font-bold text-emerald-600">{formatPriceSync(total, currency)}</span>
             </div> */}
           </div>
 
+          {/* Delivery Date */}
+          {renderDeliveryChoice()}
+
           {/* Order Notes */}
           <div className="mb-6">
             <label htmlFor="order-notes" className="block text-sm font-medium text-gray-700 mb-2">
@@ -222,6 +563,100 @@ const ShoppingCart: React.FC<ShoppingCartProps> = ({
         {t('cart.placeOrder')}
       </button>
 
+      {onSaveShoppingList && !isCartEmpty && (
+        <button
+          type="button"
+          onClick={handleSaveShoppingList}
+          className="w-full mt-3 px-6 py-3 rounded-sm text-sm font-medium text-emerald-700 border border-emerald-300 hover:bg-emerald-50 transition-all duration-200"
+        >
+          {t('cart.saveAsShoppingList')}
+        </button>
+      )}
+
+      {onSaveStandingOrder && !isCartEmpty && (
+        <button
+          type="button"
+          onClick={handleOpenStandingOrder}
+          className="w-full mt-3 px-6 py-3 rounded-sm text-sm font-medium text-emerald-700 border border-emerald-300 hover:bg-emerald-50 transition-all duration-200"
+        >
+          {t('cart.saveAsStandingOrder')}
+        </button>
+      )}
+
+      {/* Standing Order Modal */}
+      {standingOrderChoice && (
+        <div className="fixed inset-0 flex items-center justify-center z-50 p-4">
+          <div className="bg-white/90 backdrop-blur-lg rounded-2xl shadow-2xl border border-white/20 p-6 lg:p-8 max-w-md w-full max-h-[90vh] overflow-y-auto">
+            <div className="mb-6">
+              <h3 className="text-xl font-bold bg-gradient-to-r from-emerald-600 to-teal-600 bg-clip-text text-transparent mb-2">
+                {t('cart.saveAsStandingOrder')}
+              </h3>
+              <p className="text-sm text-gray-600">{t('cart.standingOrderDescription')}</p>
+            </div>
+
+            <div className="space-y-4 mb-6">
+              <div>
+                <label htmlFor="standing-order-name" className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('cart.standingOrderName')}
+                </label>
+                <input
+                  id="standing-order-name"
+                  type="text"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-sm bg-white focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 text-sm"
+                  placeholder={t('cart.standingOrderNamePlaceholder')}
+                  value={standingOrderChoice.name}
+                  onChange={(e) => setStandingOrderChoice({ ...standingOrderChoice, name: e.target.value })}
+                />
+              </div>
+              <div>
+                <span className="block text-sm font-medium text-gray-700 mb-1">{t('cart.standingOrderWeekdays')}</span>
+                <div className="flex flex-wrap gap-3">
+                  {WEEKDAYS.map(day => (
+                    <label key={day} className="flex items-center text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={standingOrderChoice.weekdays.includes(day)}
+                        onChange={() => toggleStandingOrderWeekday(day)}
+                        className="h-4 w-4 text-emerald-600 focus:ring-emerald-500 border-gray-300 rounded"
+                      />
+                      <span className="ml-1">{weekdayName(day)}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label htmlFor="standing-order-end" className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('cart.standingOrderEndDate')}
+                </label>
+                <input
+                  id="standing-order-end"
+                  type="date"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-sm bg-white focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 text-sm"
+                  value={standingOrderChoice.ends_on || ''}
+                  onChange={(e) => setStandingOrderChoice({ ...standingOrderChoice, ends_on: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-col-reverse lg:flex-row lg:justify-end lg:space-x-3 space-y-3 space-y-reverse lg:space-y-0">
+              <button
+                onClick={() => setStandingOrderChoice(null)}
+                className="w-full lg:w-auto px-6 py-3 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-sm transition-all duration-200"
+              >
+                {t('cart.cancel')}
+              </button>
+              <button
+                onClick={handleSaveStandingOrder}
+                disabled={savingStandingOrder}
+                className="w-full lg:w-auto px-6 py-3 text-sm font-medium text-white bg-gradient-to-r from-emerald-500 to-teal-600 hover:from-emerald-600 hover:to-teal-700 rounded-sm shadow-lg transition-all duration-200 disabled:opacity-50"
+              >
+                {t('cart.saveStandingOrder')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Order Confirmation Modal */}
       {showConfirmation && (
         <div className="fixed inset-0 flex items-center justify-center z-50 p-4">
@@ -237,20 +672,25 @@ const ShoppingCart: React.FC<ShoppingCartProps> = ({
             <div className="mb-6">
               <h4 className="font-semibold text-sm text-gray-700 mb-3">{t('cart.orderItems')}</h4>
               <div className="space-y-2">
-                {items.map(({ product, quantity }) => (
-                  <div key={product.id} className="bg-gray-50 rounded-sm p-3">
+                {items.map(item => (
+                  <div key={getCartItemKey(item)} className="bg-gray-50 rounded-sm p-3">
                     <div className="flex justify-between items-start">
                       <div className="flex-1">
-                        <span className="text-sm font-medium text-gray-900">{product.name_en}</span>
-                        {/* {product.stock !== undefined && (
+                        <span className="text-sm font-medium text-gray-900">{item.product.name_en}</span>
+                        {/* {item.product.stock !== undefined && (
                           <span className="text-xs text-gray-500 block mt-1">
-                            ({quantity} of {product.stock} available)
+                            ({item.quantity} of {item.product.stock} available)
                           </span>
                         )} */}
                       </div>
                       <div className="text-right ml-3">
-                        <span className="text-sm font-semibold text-emerald-600">{quantity} {product.unit || 'kg'}</span>
-                        {/* <div className="text-xs text-gray-500">{formatPriceSync(product.price * quantity, currency)}</div> */}
+                        <span className="text-sm font-semibold text-emerald-600">
+                          {item.quantity} {item.pack ? item.pack.name : item.product.unit || 'kg'}
+                        </span>
+                        {item.pack && (
+                          <div className="text-xs text-gray-500">= {item.quantity * item.pack.base_quantity} {item.product.unit}</div>
+                        )}
+                        {/* <div className="text-xs text-gray-500">{formatPriceSync(item.product.price * item.quantity, currency)}</div> */}
                       </div>
                     </div>
                   </div>
@@ -274,6 +714,15 @@ const ShoppingCart: React.FC<ShoppingCartProps> = ({
               </div>
             )}
 
+            {/* Delivery Date */}
+            {(deliveryChoice || deliveryDate) && <div className="mb-6">{renderDeliveryDate()}</div>}
+            {deliveryZone && deliveryFee > 0 && (
+              <div className="mb-6 -mt-4 flex items-center justify-between text-sm">
+                <span className="text-gray-700">{t('cart.deliveryFee', { zone: deliveryZone.name })}</span>
+                <span className="font-semibold text-emerald-700">{formatPriceSync(deliveryFee, currency)}</span>
+              </div>
+            )}
+
             {/* Delivery Address Section */}
             <div className="mb-6">
               <h4 className="font-semibold text-sm text-gray-700 mb-3">{t('cart.deliveryAddress')}</h4>
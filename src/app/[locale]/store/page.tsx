@@ -2,14 +2,24 @@
 
 import { useState, useEffect } from 'react';
 import { useTranslations } from 'next-intl';
-import { Product, getPaginatedProducts, getActiveProductById, getPopularProductIds } from '../../lib/product-api';
+import { Product, ProductPack, StockShortage, getPaginatedProducts, getActiveProductById, getPopularProductIds, getStockShortage, getLinePrice, getAllowedQuantity, getQuantityIncrement, getQuantityRuleViolation, getLeadTimeViolation } from '../../lib/product-api';
+import { Category, getCategories } from '../../lib/category-api';
+import { getCustomerPrices, applyCustomerPrices, getPriceChange } from '../../lib/price-list-api';
 import { getUser } from '../../lib/auth';
 import { getCustomerDetailsFromAuth, CustomerDetails, getUserAddresses } from '../../lib/customer-api';
 import { createOrder } from '../../lib/order-api';
+import { createStandingOrder } from '../../lib/standing-order-api';
+import { isNotAllowedToOrder } from '../../lib/business-api';
+import { ShoppingList, getShoppingLists, createShoppingList, getShoppingListCartLines, PENDING_SHOPPING_LIST_KEY } from '../../lib/shopping-list-api';
 import { useCurrency } from '../../hooks/useCurrency';
+import { AppSettings, getAppSettings, formatPriceSync } from '../../lib/settings-api';
+import { HolidayCalendar, getDeliveryHolidays, getSkippedDeliveryDates } from '../../lib/holiday-api';
+import { DeliveryChoice, DeliveryDateOption, getDeliveryOptions, getFirstOpenDeliveryChoice, getUnavailableDeliveryChoice } from '../../lib/delivery-slot-api';
+import { DeliveryLocation, DeliveryZone, findDeliveryZone, getDeliveryZones, getMinimumOrderShortfall, resolveMinimumOrder } from '../../lib/delivery-zone-api';
+import { getDeliverySchedule, getEarliestDeliveryDay, getNextDeliveryDate, resolveDeliverySchedule } from '../../lib/delivery-date';
 import { toast } from 'react-toastify';
 import ProductList from './ProductList';
-import ShoppingCart from './ShoppingCart';
+import ShoppingCart, { CartItem, StandingOrderChoice, getCartItemKey } from './ShoppingCart';
 import Header from '../../components/Header';
 
 export default function StorePage() {
@@ -28,6 +38,8 @@ export default function StorePage() {
   const [isSearching, setIsSearching] = useState(false);
   const [popularProductIds, setPopularProductIds] = useState<string[]>([]);
   const [totalCount, setTotalCount] = useState(0);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [selectedCategoryId, setSelectedCategoryId] = useState<string | null>(null);
 
   // Authentication state
   const [user, setUser] = useState<any>(null);
@@ -43,8 +55,17 @@ export default function StorePage() {
   const [isCheckingAuth, setIsCheckingAuth] = useState(true);
 
   // Shopping cart state
-  const [cartItems, setCartItems] = useState<{product: Product, quantity: number}[]>([]);
+  const [cartItems, setCartItems] = useState<CartItem[]>([]);
   const [orderNotes, setOrderNotes] = useState('');
+  const [stockIssues, setStockIssues] = useState<StockShortage[]>([]);
+  const [shoppingLists, setShoppingLists] = useState<ShoppingList[]>([]);
+
+  // Delivery calendar, to tell the customer when the order will arrive
+  const [deliverySettings, setDeliverySettings] = useState<AppSettings | null>(null);
+  const [holidayCalendar, setHolidayCalendar] = useState<HolidayCalendar | undefined>(undefined);
+  const [deliveryZones, setDeliveryZones] = useState<DeliveryZone[]>([]);
+  const [deliveryOptions, setDeliveryOptions] = useState<DeliveryDateOption[]>([]);
+  const [deliveryChoice, setDeliveryChoice] = useState<DeliveryChoice | null>(null);
   const [customerInfo, setCustomerInfo] = useState({
     name: '',
     email: '',
@@ -52,6 +73,19 @@ export default function StorePage() {
     address: ''
   });
   
+  // Replace list prices with the prices the customer negotiated; guests pay list prices
+  const withCustomerPrices = async <T extends Product>(items: T[], userId?: string): Promise<T[]> => {
+    if (!userId || items.length === 0) return items;
+
+    try {
+      const prices = await getCustomerPrices(items.map(item => item.id), userId);
+      return applyCustomerPrices(items, prices);
+    } catch (err) {
+      console.error('Error resolving customer prices:', err);
+      return items;
+    }
+  };
+
   // Function to load products - defined at component level so it can be called from saveOrder
   const loadProducts = async () => {
     setLoading(true);
@@ -64,10 +98,11 @@ export default function StorePage() {
         'name_en',
         'asc',
         searchTerm || undefined,
-        true
+        true,
+        selectedCategoryId || undefined
       );
       
-      setProducts(result.products);
+      setProducts(await withCustomerPrices(result.products, user?.id));
       setTotalPages(result.totalPages);
       setTotalCount(result.totalCount);
     } catch (err: any) {
@@ -149,12 +184,46 @@ export default function StorePage() {
     fetchUserData();
   }, []);
 
+  // Load the delivery settings, holiday calendar and delivery zones
+  useEffect(() => {
+    Promise.all([getAppSettings(), getDeliveryHolidays(), getDeliveryZones()])
+      .then(([settings, holidays, zones]) => {
+        setDeliverySettings(settings);
+        setHolidayCalendar({ holidays, country: settings?.holiday_country });
+        setDeliveryZones(zones);
+      })
+      .catch(err => console.error('Error loading delivery calendar:', err));
+  }, []);
+
+  // Load the dates and time windows the customer can choose, keeping their choice while it is open
+  const loadDeliveryOptions = async (zoneId?: string) => {
+    try {
+      const options = await getDeliveryOptions(zoneId);
+      setDeliveryOptions(options);
+      setDeliveryChoice(prev => {
+        const stillOpen = prev && options.some(option => option.date === prev.delivery_date && option.slots.some(slot =>
+          slot.slot_id === prev.delivery_slot_id && !slot.is_full
+        ));
+        return stillOpen ? prev : getFirstOpenDeliveryChoice(options, earliestDeliveryDate);
+      });
+    } catch (err) {
+      console.error('Error loading delivery options:', err);
+    }
+  };
+
+  // Load categories for the category navigation
+  useEffect(() => {
+    getCategories()
+      .then(setCategories)
+      .catch(err => console.error('Error loading categories:', err));
+  }, []);
+
   // Load products when the component mounts
   useEffect(() => {
     if (!isSearching) {
       loadProducts();
     }
-  }, [currentPage, searchTerm, isSearching, itemsPerPage]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [currentPage, searchTerm, isSearching, itemsPerPage, selectedCategoryId, user?.id]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // Reset to page 1 when itemsPerPage changes
   useEffect(() => {
@@ -173,17 +242,22 @@ export default function StorePage() {
           
           // We need to load the actual product data for each item
           const loadPendingCart = async () => {
-            const loadedItems: {product: Product, quantity: number}[] = [];
+            const loadedItems: CartItem[] = [];
             let skippedCount = 0;
             
             for (const item of cartData) {
               try {
                 const product = await getActiveProductById(item.product_id);
-                if (product) {
+                // Items ordered in a pack that has since been withdrawn are skipped
+                const pack = item.pack_id ? product?.packs?.find(p => p.id === item.pack_id && p.is_active) : undefined;
+                if (product && (!item.pack_id || pack)) {
                   loadedItems.push({
                     product,
-                    quantity: item.quantity
+                    quantity: item.quantity,
+                    pack
                   });
+                } else {
+                  skippedCount++;
                 }
               } catch (err) {
                 console.error(`Failed to load product ${item.product_id}:`, err);
@@ -193,6 +267,12 @@ export default function StorePage() {
               }
             }
             
+            // Price the items for this customer
+            const pricedProducts = await withCustomerPrices(loadedItems.map(item => item.product), user.id);
+            pricedProducts.forEach((product, index) => {
+              loadedItems[index].product = product;
+            });
+
             // Update cart with loaded items
             if (loadedItems.length > 0) {
               setCartItems(prev => {
@@ -201,7 +281,7 @@ export default function StorePage() {
                 
                 for (const newItem of loadedItems) {
                   const existingIndex = mergedCart.findIndex(item => 
-                    item.product.id === newItem.product.id
+                    getCartItemKey(item) === getCartItemKey(newItem)
                   );
                   
                   if (existingIndex >= 0) {
@@ -239,6 +319,74 @@ export default function StorePage() {
     }
   }, [isCheckingAuth, user]);
 
+  // Load the customer's shopping lists, then add the one chosen in the profile, if any
+  useEffect(() => {
+    if (!user) {
+      setShoppingLists([]);
+      return;
+    }
+
+    async function loadShoppingLists() {
+      try {
+        const lists = await getShoppingLists(user.id);
+        setShoppingLists(lists);
+
+        const pendingListId = localStorage.getItem(PENDING_SHOPPING_LIST_KEY);
+        if (pendingListId) {
+          localStorage.removeItem(PENDING_SHOPPING_LIST_KEY);
+          const list = lists.find(l => l.id === pendingListId);
+          if (list) await addShoppingListToCart(list);
+        }
+      } catch (err) {
+        console.error('Error loading shopping lists:', err);
+      }
+    }
+
+    loadShoppingLists();
+  }, [user]);
+
+  // Add a shopping list to the cart, cut down to the stock available and without withdrawn products
+  const addShoppingListToCart = async (list: ShoppingList) => {
+    const { lines, issues } = getShoppingListCartLines(list);
+
+    issues.forEach(issue => {
+      if (issue.reason === 'reduced') {
+        toast.warning(t('messages.stockWarning', { stock: issue.quantity, product: issue.product_name }));
+      } else if (issue.reason === 'out_of_stock') {
+        toast.error(t('messages.outOfStockError', { product: issue.product_name }));
+      } else {
+        toast.error(t('messages.productUnavailable', { product: issue.product_name }));
+      }
+    });
+
+    if (lines.length === 0) return;
+
+    const pricedProducts = await withCustomerPrices(lines.map(line => line.product), user?.id);
+    lines.forEach((line, index) => {
+      addToCart(pricedProducts[index], line.quantity, line.pack);
+    });
+    toast.success(t('messages.shoppingListAdded', { name: list.name }));
+  };
+
+  const saveShoppingList = async (name: string): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const list = await createShoppingList(user.id, name, cartItems.map(item => ({
+        product_id: item.product.id,
+        pack_id: item.pack?.id,
+        quantity: item.quantity
+      })));
+      setShoppingLists(await getShoppingLists(user.id));
+      toast.success(t('messages.shoppingListSaved', { name: list.name }));
+      return true;
+    } catch (err) {
+      console.error('Error saving shopping list:', err);
+      toast.error(t('messages.shoppingListError'));
+      return false;
+    }
+  };
+
   // Load popular products
   // useEffect(() => {
   //   async function fetchPopularProducts() {
@@ -253,17 +401,19 @@ export default function StorePage() {
   //   fetchPopularProducts();
   // }, []);
 
-  // Add product to cart
-  const addToCart = (product: Product, quantity: number = 1) => {
+  // Add product to cart, loose or as a number of packs
+  const addToCart = (product: Product, quantity: number = 1, pack?: ProductPack) => {
     setCartItems(prev => {
       // Check if item is already in cart
-      const existingItemIndex = prev.findIndex(item => item.product.id === product.id);
+      const itemKey = getCartItemKey({ product, pack });
+      const existingItemIndex = prev.findIndex(item => getCartItemKey(item) === itemKey);
       
-      // Calculate total quantity after adding
+      // Calculate total quantity after adding, rounded up to the product's minimum and step
       let newQuantity = quantity;
       if (existingItemIndex >= 0) {
         newQuantity += prev[existingItemIndex].quantity;
       }
+      newQuantity = getAllowedQuantity(product, newQuantity, pack);
       
       // // Check against stock if available
       // if (product.stock !== undefined) {
@@ -287,23 +437,23 @@ export default function StorePage() {
         return updatedItems;
       } else {
         // Add new item
-        return [...prev, { product, quantity: newQuantity }];
+        return [...prev, { product, quantity: newQuantity, pack }];
       }
     });
   };
 
   // Remove item from cart
-  const removeFromCart = (productId: string) => {
-    setCartItems(prev => prev.filter(item => item.product.id !== productId));
+  const removeFromCart = (itemKey: string) => {
+    setCartItems(prev => prev.filter(item => getCartItemKey(item) !== itemKey));
   };
 
   // Update item quantity in cart
-  const updateCartQuantity = (productId: string, quantity: number) => {
+  const updateCartQuantity = (itemKey: string, quantity: number) => {
     setCartItems(prev => 
       prev.map(item => {
-        if (item.product.id === productId) {
-          // Enforce minimum quantity of 1
-          let newQuantity = Math.max(1, quantity);
+        if (getCartItemKey(item) === itemKey) {
+          // Enforce a minimum of one pack or quantity step; steps like 0.1 kg add up unevenly
+          let newQuantity = Math.max(getQuantityIncrement(item.product, item.pack), Math.round(quantity * 1e6) / 1e6);
           
           // Check against stock limits if available
           // if (item.product.stock !== undefined) {
@@ -322,12 +472,51 @@ export default function StorePage() {
     );
   };
 
-  // Calculate cart total
+  // Calculate cart total, with pack and quantity break prices applied per line
   const cartTotal = cartItems.reduce(
-    (total, item) => total + (item.product.price * item.quantity), 
+    (total, item) => total + (getLinePrice(item.product, item.quantity, item.pack) * item.quantity), 
     0
   );
 
+  // The delivery zone of the chosen address sets the schedule, minimum order value and fee
+  const selectedAddress = userAddresses.find(address => address.address === customerInfo.address);
+  const deliveryLocation: DeliveryLocation = {
+    postcode: customerDetails?.zip_code,
+    latitude: selectedAddress?.latitude,
+    longitude: selectedAddress?.longitude
+  };
+  const zoneLookup = { zones: deliveryZones, location: deliveryLocation };
+  const deliveryZone = findDeliveryZone(deliveryZones, deliveryLocation);
+
+  // When an order placed now would arrive, and which delivery days holidays pushed it past
+  const deliverySchedule = resolveDeliverySchedule(getDeliverySchedule(deliverySettings, holidayCalendar), zoneLookup);
+  const usualDeliveryDate = getNextDeliveryDate(new Date(), { ...deliverySchedule, holidays: undefined });
+  const deliveryDate = getNextDeliveryDate(new Date(), deliverySchedule);
+  const skippedDeliveryDates = getSkippedDeliveryDates(
+    usualDeliveryDate,
+    deliveryDate,
+    deliverySchedule.deliveryDays,
+    holidayCalendar
+  );
+
+  // The customer's own minimum order value, the zone's or the global one
+  const minimumOrder = resolveMinimumOrder(customerDetails?.min_order_value, deliveryZone, deliverySettings?.min_order_value);
+
+  // Products with a lead time can't arrive before the company's today plus that many days
+  const maxLeadTime = cartItems.reduce((max, item) => Math.max(max, item.product.lead_time_days || 0), 0);
+  const earliestDeliveryDate = maxLeadTime > 0 ? getEarliestDeliveryDay(maxLeadTime, deliverySchedule.timeZone) : undefined;
+
+  useEffect(() => {
+    loadDeliveryOptions(deliveryZone?.id);
+  }, [deliveryZone?.id]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // A product with a lead time went into the cart: move the delivery past it when it is too soon
+  useEffect(() => {
+    if (earliestDeliveryDate && deliveryChoice && deliveryChoice.delivery_date < earliestDeliveryDate) {
+      setDeliveryChoice(getFirstOpenDeliveryChoice(deliveryOptions, earliestDeliveryDate));
+    }
+  }, [earliestDeliveryDate]); // eslint-disable-line react-hooks/exhaustive-deps
+
   // Handle search input
 
   const handleSearch = (term: string) => {
@@ -335,6 +524,12 @@ export default function StorePage() {
     setCurrentPage(1); // Reset to first page on new search
   };
 
+  // Handle category selection
+  const handleCategoryChange = (categoryId: string | null) => {
+    setSelectedCategoryId(categoryId);
+    setCurrentPage(1);
+  };
+
   // Handle customer info change
   const handleCustomerInfoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -368,6 +563,14 @@ export default function StorePage() {
     setUser(userData);
     setIsAuthModalOpen(false);
 
+    // The cart was priced for a guest; switch it to the customer's prices
+    const pricedProducts = await withCustomerPrices(cartItems.map(item => item.product), userData.id);
+    const priceByProduct = new Map(pricedProducts.map(product => [product.id, product.price]));
+    setCartItems(prev => prev.map(item => ({
+      ...item,
+      product: { ...item.product, price: priceByProduct.get(item.product.id) ?? item.product.price }
+    })));
+
     // Get comprehensive customer details
     const details = await getCustomerDetailsFromAuth(userData);
     
@@ -401,8 +604,9 @@ export default function StorePage() {
       // Prepare order data
       const orderItems = cartItems.map(item => ({
         product_id: item.product.id,
+        pack_id: item.pack?.id,
         quantity: item.quantity,
-        unit_price: item.product.price
+        unit_price: getLinePrice(item.product, item.quantity, item.pack)
       }));
       
       const orderData = {
@@ -416,21 +620,29 @@ export default function StorePage() {
         notes: orderNotes,
         status: 'pending' as const,
         payment_status: 'pending' as const,
+        delivery_date: deliveryChoice?.delivery_date,
+        delivery_slot_id: deliveryChoice?.delivery_slot_id,
         items: orderItems
       };
       
       // Submit order using Supabase directly
-      const order = await createOrder(orderData);
+      const order = await createOrder(orderData, deliveryLocation);
       
-      // Order successful
-      toast.success(`${t('orderSubmitted')} #${order.id || 'N/A'}`);
+      // Order successful; a buyer's order above their business's threshold waits for an approver
+      if (order.status === 'pending_approval') {
+        toast.info(t('messages.orderAwaitingApproval', { order: order.id?.substring(0, 8) || 'N/A' }));
+      } else {
+        toast.success(`${t('orderSubmitted')} #${order.id || 'N/A'}`);
+      }
       
       // Clear cart after successful order
       setCartItems([]);
       setOrderNotes('');
+      setStockIssues([]);
       
       // Refresh products to get updated stock information
       loadProducts();
+      loadDeliveryOptions(deliveryZone?.id);
       
       // Refresh the popular products list
       const popularIds = await getPopularProductIds(10);
@@ -438,10 +650,110 @@ export default function StorePage() {
       
     } catch (err: any) {
       console.error('Error saving order:', err);
+
+      // Another order took the stock first: point at the product in the cart
+      const shortage = getStockShortage(err);
+      if (shortage) {
+        setStockIssues([shortage]);
+        toast.error(t('messages.quantityExceeded', { available: shortage.available, product: shortage.product_name }));
+        loadProducts();
+        return;
+      }
+
+      // Viewers of a business account follow its orders but cannot place any
+      if (isNotAllowedToOrder(err)) {
+        toast.error(t('messages.notAllowedToOrder'));
+        return;
+      }
+
+      // The chosen date or time window closed or filled up: offer what is still open
+      if (getUnavailableDeliveryChoice(err)) {
+        toast.error(t('messages.deliverySlotUnavailable'));
+        loadDeliveryOptions(deliveryZone?.id);
+        return;
+      }
+
+      // The goods are worth less than the customer's, the zone's or the global minimum order value
+      const shortfall = getMinimumOrderShortfall(err);
+      if (shortfall) {
+        const minimum = formatPriceSync(shortfall.minimum, currency);
+        toast.error(shortfall.zone_name
+          ? t('messages.belowMinimumOrder', { zone: shortfall.zone_name, minimum })
+          : t('messages.belowMinimumOrderGeneral', { minimum }));
+        return;
+      }
+
+      // A product's minimum quantity or quantity step changed since it went into the cart
+      const quantityRule = getQuantityRuleViolation(err);
+      if (quantityRule) {
+        toast.error(t('messages.quantityRule', { product: quantityRule.product_name }));
+        loadProducts();
+        return;
+      }
+
+      // The delivery date is too soon for a product's lead time
+      const leadTime = getLeadTimeViolation(err);
+      if (leadTime) {
+        toast.error(t('messages.leadTime', {
+          product: leadTime.product_name,
+          date: new Date(`${leadTime.earliest_date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' })
+        }));
+        loadDeliveryOptions(deliveryZone?.id);
+        return;
+      }
+
+      // The customer's price changed since the product was added: reload it with its current
+      // price and tiers, since the new price may only apply to the quantity in the cart
+      const priceChange = getPriceChange(err);
+      if (priceChange) {
+        try {
+          const [product] = await withCustomerPrices([await getActiveProductById(priceChange.product_id)], user?.id);
+          setCartItems(prev => prev.map(item => (
+            item.product.id === priceChange.product_id
+              ? { ...item, product, pack: item.pack && product.packs?.find(pack => pack.id === item.pack?.id) }
+              : item
+          )));
+        } catch (reloadErr) {
+          console.error('Error reloading repriced product:', reloadErr);
+        }
+        toast.error(t('messages.priceChanged', { product: priceChange.product_name }));
+        loadProducts();
+        return;
+      }
+
       toast.error(`${t('orderError')}: ${err.message || 'Unknown error'}`);
     }
   };
 
+  // Save the cart as a standing order; the scheduled job places its orders from now on
+  const saveStandingOrder = async (choice: StandingOrderChoice): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      await createStandingOrder({
+        user_id: user.id,
+        name: choice.name,
+        weekdays: choice.weekdays,
+        ends_on: choice.ends_on,
+        delivery_address: customerInfo.address,
+        delivery_slot_id: deliveryChoice?.delivery_slot_id,
+        notes: orderNotes,
+        is_active: true
+      }, cartItems.map(item => ({
+        product_id: item.product.id,
+        pack_id: item.pack?.id,
+        quantity: item.quantity
+      })));
+
+      toast.success(t('messages.standingOrderSaved', { name: choice.name }));
+      return true;
+    } catch (err: any) {
+      console.error('Error saving standing order:', err);
+      toast.error(t('messages.standingOrderError'));
+      return false;
+    }
+  };
+
   return (
     <>
       <Header />
@@ -502,6 +814,9 @@ export default function StorePage() {
                   itemsPerPage={itemsPerPage}
                   onItemsPerPageChange={setItemsPerPage}
                   totalCount={totalCount}
+                  categories={categories}
+                  selectedCategoryId={selectedCategoryId}
+                  onCategoryChange={handleCategoryChange}
                 />
               </div>
             </div>
@@ -524,6 +839,19 @@ export default function StorePage() {
                   userAddresses={userAddresses}
                   onSelectAddress={handleAddressSelect}
                   currency={currency}
+                  stockIssues={stockIssues}
+                  deliveryDate={deliverySettings ? deliveryDate : undefined}
+                  skippedDeliveryDates={skippedDeliveryDates}
+                  deliveryOptions={deliveryOptions}
+                  deliveryChoice={deliveryChoice}
+                  onDeliveryChoiceChange={setDeliveryChoice}
+                  deliveryZone={deliveryZone}
+                  minimumOrder={minimumOrder}
+                  earliestDeliveryDate={earliestDeliveryDate}
+                  onSaveStandingOrder={saveStandingOrder}
+                  shoppingLists={shoppingLists}
+                  onAddShoppingList={addShoppingListToCart}
+                  onSaveShoppingList={saveShoppingList}
                 />
               </div>
             </div>
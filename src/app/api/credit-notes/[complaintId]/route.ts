@@ -0,0 +1,216 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { Database } from '../../../lib/database.types';
+import { generateInvoicePDF } from '../../../lib/pdf-utils';
+import { INVOICE_BUCKET, createSignedUrl, fetchLogoDataUrl } from '../../../lib/invoice-storage';
+
+/**
+ * Issue (or fetch the existing) credit note of an approved complaint.
+ * The credit note is an invoices row of its own number series that points at the order's
+ * invoice, with the credited amounts negative, so it shows up in the customer's invoice list.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { complaintId: string } }
+) {
+  try {
+    // Initialize Supabase client on the server-side
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+    const supabase = createClient<Database>(supabaseUrl, supabaseServiceKey);
+
+    const { complaintId } = params;
+
+    // Identify the caller from their access token; only admins issue credit notes
+    const token = request.headers.get('Authorization')?.replace('Bearer ', '');
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        message: 'Missing authorization token'
+      }, { status: 401 });
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return NextResponse.json({
+        success: false,
+        message: 'Invalid authorization token'
+      }, { status: 401 });
+    }
+
+    const { data: requester } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (requester?.role !== 'admin') {
+      return NextResponse.json({
+        success: false,
+        message: 'Not allowed to issue credit notes'
+      }, { status: 403 });
+    }
+
+    // Load the complaint with its lines, and the order with its customer
+    const { data: complaint, error: complaintError } = await supabase
+      .from('complaints')
+      .select(`
+        *,
+        items:complaint_items(*, order_item:order_items(*, product:products(*), pack:product_packs(*))),
+        order:orders(*, customer:users!user_id(id, email, name, phone, address))
+      `)
+      .eq('id', complaintId)
+      .single();
+
+    if (complaintError || !complaint) {
+      return NextResponse.json({
+        success: false,
+        message: `Complaint ${complaintId} not found`
+      }, { status: 404 });
+    }
+
+    if (complaint.status !== 'approved') {
+      return NextResponse.json({
+        success: false,
+        message: 'Only approved complaints are credited'
+      }, { status: 409 });
+    }
+
+    // The credit note corrects the order's invoice, which must have been issued
+    const { data: originalInvoice } = await supabase
+      .from('invoices')
+      .select('*')
+      .eq('order_id', complaint.order_id)
+      .is('credit_note_for', null)
+      .maybeSingle();
+
+    if (!originalInvoice) {
+      return NextResponse.json({
+        success: false,
+        message: 'Issue the invoice of the order before its credit note'
+      }, { status: 409 });
+    }
+
+    // Reuse the credit note if one was already issued for this complaint
+    let creditNote = null;
+    if (complaint.credit_note_id) {
+      const { data: existingCreditNote } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('id', complaint.credit_note_id)
+        .maybeSingle();
+
+      if (existingCreditNote) {
+        const existingUrl = await createSignedUrl(supabase, existingCreditNote.bucket, existingCreditNote.path);
+        if (existingUrl) {
+          return NextResponse.json({ success: true, invoice: existingCreditNote, url: existingUrl });
+        }
+        // The number was issued but the PDF is missing (e.g. a failed upload): rebuild it below
+        creditNote = existingCreditNote;
+      }
+    }
+
+    // Get app settings for branding
+    const { data: appSettings } = await supabase
+      .from('settings')
+      .select('*')
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    // Credit at the VAT rate of the invoice being corrected, not today's
+    const originalSubtotal = Number(originalInvoice.subtotal) || 0;
+    const vatPercentage = originalSubtotal
+      ? Math.round(Number(originalInvoice.vat_amount) / originalSubtotal * 10000) / 100
+      : appSettings?.vat_percentage || 0;
+    const currency = originalInvoice.currency || appSettings?.default_currency || 'USD';
+    const subtotal = -(Number(complaint.credit_amount) || 0);
+    const vatAmount = Math.round(subtotal * vatPercentage) / 100;
+    const totalAmount = subtotal + vatAmount;
+
+    if (!creditNote) {
+      // Numbered and linked in one transaction that locks the complaint, so a second
+      // request gets the same credit note instead of numbering another one
+      const { data: issuedCreditNote, error: dbError } = await supabase
+        .rpc('issue_complaint_credit_note', {
+          p_complaint_id: complaintId,
+          p_bucket: INVOICE_BUCKET,
+          p_subtotal: subtotal,
+          p_vat_amount: vatAmount,
+          p_total_amount: totalAmount,
+          p_currency: currency
+        });
+
+      if (dbError || !issuedCreditNote) {
+        console.error('Error creating credit note record:', dbError);
+        return NextResponse.json({
+          success: false,
+          message: dbError?.message || 'Failed to create credit note'
+        }, { status: 500 });
+      }
+
+      creditNote = issuedCreditNote;
+    }
+
+    const order = complaint.order;
+    const pdf = generateInvoicePDF({
+      invoiceNumber: creditNote.invoice_number || `CN-${complaintId.substring(0, 8).toUpperCase()}`,
+      creditNoteFor: originalInvoice.invoice_number || undefined,
+      orderDate: order.order_date,
+      deliveryDate: order.delivery_date,
+      customer: {
+        name: order.customer?.name,
+        email: order.customer?.email,
+        phone: order.customer?.phone,
+        address: order.delivery_address || order.customer?.address
+      },
+      items: (complaint.items || []).map((complaintItem: any) => {
+        const item = complaintItem.order_item;
+        const amount = -(Number(complaintItem.credit_amount) || 0);
+        return {
+          name: item?.product?.name_en || `Product ${item?.product_id}`,
+          sku: item?.pack && item?.product?.sku ? `${item.product.sku}${item.pack.sku_suffix}` : item?.product?.sku,
+          unit: item?.pack ? item.pack.name : item?.product?.unit,
+          quantity: Number(complaintItem.quantity),
+          unitPrice: Math.round(amount / Number(complaintItem.quantity) * 100) / 100,
+          amount
+        };
+      }),
+      subtotal,
+      vatPercentage,
+      vatAmount,
+      totalAmount,
+      currency,
+      companyName: appSettings?.company_name || 'B2B Vegetable',
+      logoDataUrl: await fetchLogoDataUrl(appSettings?.logo_url),
+      supportEmail: appSettings?.support_email,
+      supportPhone: appSettings?.support_phone
+    });
+
+    // The storage path is derived from the credit note number
+    const { error: uploadError } = await supabase.storage
+      .from(creditNote.bucket || INVOICE_BUCKET)
+      .upload(creditNote.path, pdf, {
+        contentType: 'application/pdf',
+        upsert: true
+      });
+
+    if (uploadError) {
+      console.error('Error uploading credit note PDF:', uploadError);
+      return NextResponse.json({
+        success: false,
+        message: uploadError.message || 'Failed to store credit note'
+      }, { status: 500 });
+    }
+
+    const url = await createSignedUrl(supabase, creditNote.bucket || INVOICE_BUCKET, creditNote.path);
+
+    return NextResponse.json({ success: true, invoice: creditNote, url });
+  } catch (err: any) {
+    console.error('Error in credit note API route:', err);
+    return NextResponse.json({
+      success: false,
+      message: err.message || 'An unexpected error occurred'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,224 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { Database } from '../../../lib/database.types';
+import { generateInvoicePDF } from '../../../lib/pdf-utils';
+import { INVOICE_BUCKET, createSignedUrl, fetchLogoDataUrl } from '../../../lib/invoice-storage';
+
+/**
+ * Generate (or fetch the existing) invoice PDF for a completed order.
+ * The PDF is stored in the `invoices` bucket and linked to an `invoices` row
+ * so it shows up in the customer's invoice list.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { orderId: string } }
+) {
+  try {
+    // Initialize Supabase client on the server-side
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+    const supabase = createClient<Database>(supabaseUrl, supabaseServiceKey);
+
+    const { orderId } = params;
+
+    // Identify the caller from their access token
+    const token = request.headers.get('Authorization')?.replace('Bearer ', '');
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        message: 'Missing authorization token'
+      }, { status: 401 });
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return NextResponse.json({
+        success: false,
+        message: 'Invalid authorization token'
+      }, { status: 401 });
+    }
+
+    // Load the order with its items and customer
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .select(`
+        *,
+        items:order_items(*, product:products(*), pack:product_packs(*)),
+        customer:users!user_id(id, email, name, phone, address)
+      `)
+      .eq('id', orderId)
+      .single();
+
+    if (orderError || !order) {
+      return NextResponse.json({
+        success: false,
+        message: `Order ${orderId} not found`
+      }, { status: 404 });
+    }
+
+    // Only the customer who placed the order or an admin may generate its invoice
+    if (order.user_id !== user.id) {
+      const { data: requester } = await supabase
+        .from('users')
+        .select('role')
+        .eq('id', user.id)
+        .single();
+
+      if (requester?.role !== 'admin') {
+        return NextResponse.json({
+          success: false,
+          message: 'Not allowed to access this invoice'
+        }, { status: 403 });
+      }
+    }
+
+    if (!order.user_id) {
+      return NextResponse.json({
+        success: false,
+        message: 'Order has no customer to invoice'
+      }, { status: 409 });
+    }
+
+    // Invoice numbers are permanent, so the bill waits until the order is delivered and its
+    // edits, short picks and substitutions are final
+    if (order.status !== 'completed') {
+      return NextResponse.json({
+        success: false,
+        message: 'Invoices are only issued for completed orders'
+      }, { status: 409 });
+    }
+
+    // Reuse the invoice if one was already issued for this order
+    const { data: existingInvoice } = await supabase
+      .from('invoices')
+      .select('*')
+      .eq('order_id', orderId)
+      .is('credit_note_for', null)
+      .maybeSingle();
+
+    if (existingInvoice) {
+      const existingUrl = await createSignedUrl(supabase, existingInvoice.bucket, existingInvoice.path);
+      if (existingUrl) {
+        return NextResponse.json({ success: true, invoice: existingInvoice, url: existingUrl });
+      }
+      // The number was issued but the PDF is missing (e.g. a failed upload): rebuild it below
+    }
+
+    // Get app settings for branding and VAT
+    const { data: appSettings } = await supabase
+      .from('settings')
+      .select('*')
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    const vatPercentage = appSettings?.vat_percentage || 0;
+    const currency = appSettings?.default_currency || 'USD';
+    // The delivery fee of the order's zone is charged on top of the goods
+    const deliveryFee = Number(order.delivery_fee) || 0;
+    const subtotal = (Number(order.total_amount) || 0) + deliveryFee;
+    const vatAmount = (subtotal * vatPercentage) / 100;
+    const totalAmount = subtotal + vatAmount;
+
+    // Allocate the sequential invoice number together with the invoice row
+    let invoice = existingInvoice;
+    if (!invoice) {
+      const { data: createdInvoice, error: dbError } = await supabase
+        .rpc('create_numbered_invoice', {
+          p_user_id: order.user_id,
+          p_folder: order.user_id,
+          p_bucket: INVOICE_BUCKET,
+          p_order_id: orderId,
+          p_notes: `Order #${orderId.substring(0, 8)}`,
+          p_status: order.payment_status === 'paid' ? 'paid' : 'pending',
+          p_subtotal: subtotal,
+          p_vat_amount: vatAmount,
+          p_total_amount: totalAmount,
+          p_currency: currency
+        });
+
+      if (dbError || !createdInvoice) {
+        console.error('Error creating invoice record:', dbError);
+        return NextResponse.json({
+          success: false,
+          message: dbError?.message || 'Failed to create invoice'
+        }, { status: 500 });
+      }
+
+      invoice = createdInvoice;
+    }
+
+    const orderItems: any[] = order.items || [];
+    const getItemName = (item: any) => item?.product?.name_en || `Product ${item?.product_id}`;
+
+    const pdf = generateInvoicePDF({
+      invoiceNumber: invoice.invoice_number || `INV-${orderId.substring(0, 8).toUpperCase()}`,
+      orderDate: order.order_date,
+      deliveryDate: order.delivery_date,
+      customer: {
+        name: order.customer?.name,
+        email: order.customer?.email,
+        phone: order.customer?.phone,
+        address: order.delivery_address || order.customer?.address
+      },
+      // Substitutes the customer declined, or never answered, are not delivered and not billed
+      items: [...orderItems.filter((item: any) => item.substitution_status !== 'proposed' && item.substitution_status !== 'declined').map((item: any) => ({
+        name: item.substitute_for
+          ? `${getItemName(item)} (substitute for ${getItemName(orderItems.find((other: any) => other.id === item.substitute_for))})`
+          : getItemName(item),
+        // Pack lines are invoiced per pack
+        sku: item.pack && item.product?.sku ? `${item.product.sku}${item.pack.sku_suffix}` : item.product?.sku,
+        unit: item.pack ? item.pack.name : item.product?.unit,
+        quantity: Number(item.quantity),
+        unitPrice: Number(item.unit_price),
+        // Catch-weight lines are charged by the weighed quantity, as in order_item_total()
+        ...(item.actual_quantity != null && {
+          delivered: { quantity: Number(item.actual_quantity), unit: item.product?.unit },
+          amount: Math.round(
+            Number(item.unit_price) * Number(item.quantity) * Number(item.actual_quantity) / Number(item.base_quantity) * 100
+          ) / 100
+        }),
+        // Short-picked lines are charged for what was picked, as in order_item_total()
+        ...(item.actual_quantity == null && item.fulfilled_quantity != null && {
+          delivered: { quantity: Number(item.fulfilled_quantity), unit: item.pack ? item.pack.name : item.product?.unit },
+          amount: Math.round(Number(item.unit_price) * Number(item.fulfilled_quantity) * 100) / 100
+        })
+      })), ...(deliveryFee > 0 ? [{ name: 'Delivery fee', quantity: 1, unitPrice: deliveryFee }] : [])],
+      subtotal,
+      vatPercentage,
+      vatAmount,
+      totalAmount,
+      currency,
+      companyName: appSettings?.company_name || 'B2B Vegetable',
+      logoDataUrl: await fetchLogoDataUrl(appSettings?.logo_url),
+      supportEmail: appSettings?.support_email,
+      supportPhone: appSettings?.support_phone
+    });
+
+    // The storage path is derived from the invoice number
+    const { error: uploadError } = await supabase.storage
+      .from(invoice.bucket || INVOICE_BUCKET)
+      .upload(invoice.path, pdf, {
+        contentType: 'application/pdf',
+        upsert: true
+      });
+
+    if (uploadError) {
+      console.error('Error uploading invoice PDF:', uploadError);
+      return NextResponse.json({
+        success: false,
+        message: uploadError.message || 'Failed to store invoice'
+      }, { status: 500 });
+    }
+
+    const url = await createSignedUrl(supabase, invoice.bucket || INVOICE_BUCKET, invoice.path);
+
+    return NextResponse.json({ success: true, invoice, url });
+  } catch (err: any) {
+    console.error('Error in invoice API route:', err);
+    return NextResponse.json({
+      success: false,
+      message: err.message || 'An unexpected error occurred'
+    }, { status: 500 });
+  }
+}
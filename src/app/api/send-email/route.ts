@@ -1,12 +1,13 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { Database } from '../../lib/database.types';
 
 export async function POST(request: Request) {
   try {
     // Initialize Supabase client on the server-side
     const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
     const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const supabase = createClient<Database>(supabaseUrl, supabaseServiceKey);
 
     // Get request data
     const requestData = await request.json();
@@ -60,6 +61,21 @@ export async function POST(request: Request) {
         subject = `Order Completed by Driver - Order #${orderId.substring(0, 8)}`;
         emailBody = generateOrderCompletionAdminEmail(orderData, driverData, adminData, appSettings);
         break;
+
+      case 'standing_order':
+        subject = `Your Standing Order for ${orderData?.delivery_date || 'Delivery'} - Order #${orderId.substring(0, 8)}`;
+        emailBody = generateStandingOrderEmail(orderData, appSettings);
+        break;
+
+      case 'order_fulfilment':
+        subject = `Changes to Your Delivery - Order #${orderId.substring(0, 8)}`;
+        emailBody = generateFulfilmentEmail(orderData, appSettings, false);
+        break;
+
+      case 'substitution_proposed':
+        subject = `Please Confirm Substitutions - Order #${orderId.substring(0, 8)}`;
+        emailBody = generateFulfilmentEmail(orderData, appSettings, true);
+        break;
         
       default:
         return NextResponse.json({ 
@@ -490,4 +506,154 @@ function generateOrderCompletionAdminEmail(orderData: any, driverData: any, admi
     </body>
     </html>
   `;
-} 
\ No newline at end of file
+} 
+
+function generateStandingOrderEmail(orderData: any, appSettings?: any): string {
+  const companyName = appSettings?.companyName || 'B2B Vegetable';
+  const supportEmail = appSettings?.supportEmail || 'support@b2bvegetable.com';
+  const currency = appSettings?.currency || 'USD';
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>Standing Order - ${companyName}</title>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { text-align: center; margin-bottom: 30px; background: #e8f5e9; padding: 20px; border-radius: 8px; }
+        .order-details { background: #fff; border: 1px solid #ddd; border-radius: 8px; padding: 20px; margin: 20px 0; }
+        .deadline { background: #fff3cd; padding: 15px; border-radius: 8px; margin: 15px 0; }
+        .button { display: inline-block; background: #16a34a; color: #fff; padding: 10px 20px; border-radius: 6px; text-decoration: none; }
+        .footer { margin-top: 30px; text-align: center; font-size: 12px; color: #666; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>${companyName}</h1>
+          <h2>Your standing order has been placed</h2>
+          <p>Order #${orderData?.id?.substring(0, 8) || 'N/A'}</p>
+        </div>
+
+        <div class="order-details">
+          <h3>Dear ${orderData?.customer?.name || 'Valued Customer'},</h3>
+
+          <p>We placed the following order from your standing order <strong>${orderData?.standing_order_name || ''}</strong>:</p>
+          <ul>
+            <li><strong>Delivery Date:</strong> ${orderData?.delivery_date || 'N/A'}</li>
+            <li><strong>Delivery Address:</strong> ${orderData?.delivery_address || 'N/A'}</li>
+            <li><strong>Total:</strong> ${Number(orderData?.total_amount || 0).toFixed(2)} ${currency}</li>
+          </ul>
+
+          ${orderData?.items?.length ? `
+            <p><strong>Items:</strong></p>
+            <ul>
+              ${orderData.items.map((item: any) => `
+                <li>${item.quantity} ${item.unit || ''} of ${item.product_name || 'Product'}</li>
+              `).join('')}
+            </ul>
+          ` : ''}
+
+          <div class="deadline">
+            <p>You can skip this delivery or change your standing order until <strong>${orderData?.adjust_until || 'the order cutoff'}</strong>.</p>
+          </div>
+
+          ${orderData?.adjust_url ? `
+            <p style="text-align: center;"><a class="button" href="${orderData.adjust_url}">Manage standing orders</a></p>
+          ` : ''}
+        </div>
+
+        <div class="footer">
+          <p>Questions? Contact us at ${supportEmail}</p>
+          <p>&copy; ${new Date().getFullYear()} ${companyName}</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+// Short-picked lines and their substitutes; a proposal asks the customer to accept or decline them
+function generateFulfilmentEmail(orderData: any, appSettings?: any, isProposal = false): string {
+  const companyName = appSettings?.companyName || 'B2B Vegetable';
+  const supportEmail = appSettings?.supportEmail || 'support@b2bvegetable.com';
+  const currency = appSettings?.currency || 'USD';
+
+  const substituteStatus = (status: string) => status === 'proposed' ? ' <em>(waiting for your answer)</em>' : '';
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>${isProposal ? 'Substitutions' : 'Delivery Changes'} - ${companyName}</title>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { text-align: center; margin-bottom: 30px; background: #fff3cd; padding: 20px; border-radius: 8px; }
+        .order-details { background: #fff; border: 1px solid #ddd; border-radius: 8px; padding: 20px; margin: 20px 0; }
+        .button { display: inline-block; background: #16a34a; color: #fff; padding: 10px 20px; border-radius: 6px; text-decoration: none; }
+        .footer { margin-top: 30px; text-align: center; font-size: 12px; color: #666; }
+        table { width: 100%; border-collapse: collapse; margin: 15px 0; }
+        th, td { padding: 8px; text-align: left; border-bottom: 1px solid #ddd; }
+        th { background-color: #f8f9fa; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>${companyName}</h1>
+          <h2>${isProposal ? 'We would like to substitute some items' : 'Some items in your order changed'}</h2>
+          <p>Order #${orderData?.id?.substring(0, 8) || 'N/A'}</p>
+        </div>
+
+        <div class="order-details">
+          <h3>Dear ${orderData?.customer?.name || 'Valued Customer'},</h3>
+
+          <p>${isProposal
+            ? 'We are short on some of the products you ordered. Please accept or decline the substitutes we propose before your delivery; substitutes you have not accepted by then are not delivered.'
+            : 'We could not deliver everything you ordered. You are only billed for what was delivered.'}</p>
+
+          ${orderData?.changes?.length ? `
+            <table>
+              <thead>
+                <tr>
+                  <th>Item</th>
+                  <th>Ordered</th>
+                  <th>Delivered</th>
+                  <th>Substitute</th>
+                </tr>
+              </thead>
+              <tbody>
+                ${orderData.changes.map((change: any) => `
+                  <tr>
+                    <td>${change.product_name}</td>
+                    <td>${change.ordered} ${change.unit || ''}</td>
+                    <td>${change.delivered} ${change.unit || ''}</td>
+                    <td>${change.substitutes?.length
+                      ? change.substitutes.map((sub: any) => `${sub.quantity} ${sub.unit || ''} ${sub.product_name}${substituteStatus(sub.status)}`).join('<br>')
+                      : '-'}</td>
+                  </tr>
+                `).join('')}
+              </tbody>
+            </table>
+          ` : ''}
+
+          ${!isProposal ? `<p><strong>New total:</strong> ${Number(orderData?.total_amount || 0).toFixed(2)} ${currency}</p>` : ''}
+
+          ${isProposal && orderData?.respond_url ? `
+            <p style="text-align: center;"><a class="button" href="${orderData.respond_url}">Review substitutions</a></p>
+          ` : ''}
+        </div>
+
+        <div class="footer">
+          <p>Questions? Contact us at ${supportEmail}</p>
+          <p>&copy; ${new Date().getFullYear()} ${companyName}</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
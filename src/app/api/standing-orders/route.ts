@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { Database } from '../../lib/database.types';
+import { placeDueStandingOrders } from '../../lib/standing-order-api';
+import { getAppSettings } from '../../lib/settings-api';
+import { getDeliverySchedule, toCompanyDateTimeInput } from '../../lib/delivery-date';
+
+const LOCALES = ['en', 'de', 'vi'];
+
+/**
+ * Scheduled job that places the orders of standing orders and emails each customer a summary.
+ * Call it hourly from a scheduler (e.g. Vercel Cron) with "Authorization: Bearer <CRON_SECRET>".
+ */
+export async function POST(request: Request) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({
+        success: false,
+        message: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    // Initialize Supabase client on the server-side
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+    const supabase = createClient<Database>(supabaseUrl, supabaseServiceKey);
+
+    const results = await placeDueStandingOrders(supabase);
+
+    const appSettings = await getAppSettings(supabase);
+    const { timeZone } = getDeliverySchedule(appSettings);
+    const locale = LOCALES.includes(appSettings?.default_language || '') ? appSettings!.default_language : 'en';
+    const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || new URL(request.url).origin;
+
+    // Tell each customer what was ordered and until when they can change it
+    for (const result of results) {
+      const customerEmail = result.standing_order.customer?.email;
+      if (!result.order || !customerEmail) continue;
+
+      const response = await fetch(new URL('/api/send-email', request.url), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          type: 'standing_order',
+          orderId: result.order.id,
+          to: customerEmail,
+          orderData: {
+            ...result.order,
+            standing_order_name: result.standing_order.name,
+            adjust_until: result.adjust_until && `${toCompanyDateTimeInput(result.adjust_until, timeZone).replace('T', ' ')} (${timeZone})`,
+            adjust_url: `${siteUrl}/${locale}/profile?tab=standing-orders`,
+            customer: result.standing_order.customer,
+            items: (result.standing_order.items || []).map(item => ({
+              product_name: item.product?.name_en,
+              quantity: item.quantity,
+              unit: item.pack?.name || item.product?.unit
+            }))
+          },
+          appSettings: {
+            companyName: appSettings?.company_name || 'B2B Vegetable',
+            supportEmail: appSettings?.support_email || '',
+            currency: appSettings?.default_currency || 'USD'
+          }
+        })
+      });
+
+      if (!response.ok) {
+        console.error(`Error emailing standing order ${result.standing_order.id}:`, await response.text());
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      placed: results.filter(result => result.order).length,
+      failed: results
+        .filter(result => result.error)
+        .map(result => ({
+          standing_order_id: result.standing_order.id,
+          delivery_date: result.delivery_date,
+          error: result.error
+        }))
+    });
+  } catch (err: any) {
+    console.error('Error placing standing orders:', err);
+    return NextResponse.json({
+      success: false,
+      message: err.message || 'An unexpected error occurred'
+    }, { status: 500 });
+  }
+}
+
+// Vercel Cron calls the job with GET
+export const GET = POST;
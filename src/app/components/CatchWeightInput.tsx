@@ -0,0 +1,69 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'react-toastify';
+import { OrderItem } from '../lib/order-api';
+
+interface CatchWeightInputProps {
+  item: OrderItem;
+  unit: string;
+  onSave: (actualQuantity: number | null) => Promise<void>;
+  disabled?: boolean;
+}
+
+/**
+ * Records the weighed quantity of a catch-weight order line; saved when the field loses focus.
+ * Clearing the field charges the ordered quantity again.
+ */
+export default function CatchWeightInput({ item, unit, onSave, disabled = false }: CatchWeightInputProps) {
+  const t = useTranslations('orders.catchWeight');
+  const [value, setValue] = useState(item.actual_quantity?.toString() ?? '');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setValue(item.actual_quantity?.toString() ?? '');
+  }, [item.actual_quantity]);
+
+  const handleBlur = async () => {
+    const actualQuantity = value.trim() === '' ? null : parseFloat(value);
+
+    if (actualQuantity !== null && (isNaN(actualQuantity) || actualQuantity <= 0)) {
+      toast.error(t('invalid'));
+      setValue(item.actual_quantity?.toString() ?? '');
+      return;
+    }
+    if (actualQuantity === (item.actual_quantity ?? null)) {
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await onSave(actualQuantity);
+      toast.success(t('saved'));
+    } catch (err: any) {
+      console.error('Error saving actual quantity:', err);
+      toast.error(err.message || t('saveError'));
+      setValue(item.actual_quantity?.toString() ?? '');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <label className="flex items-center justify-end gap-2 text-xs text-gray-500">
+      {t('label', { unit })}
+      <input
+        type="number"
+        step="any"
+        min="0"
+        className="w-20 rounded-lg border border-gray-300 px-2 py-1 text-right text-sm text-gray-900"
+        placeholder={(item.base_quantity ?? item.quantity).toString()}
+        value={value}
+        onChange={e => setValue(e.target.value)}
+        onBlur={handleBlur}
+        disabled={disabled || saving}
+      />
+    </label>
+  );
+}
@@ -0,0 +1,202 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { OrderItem } from '../lib/order-api';
+import { ComplaintLineInput, ComplaintReason, getComplaintQuantityError } from '../lib/complaint-api';
+
+const REASONS: ComplaintReason[] = ['damaged', 'spoiled', 'missing', 'wrong_item', 'other'];
+const MAX_PHOTOS = 5;
+
+// A line being complained about, kept as strings while the customer types
+interface ComplaintRow {
+  selected: boolean;
+  quantity: string;
+  reason: ComplaintReason;
+}
+
+interface ComplaintFormProps {
+  items: OrderItem[];
+  onSubmit: (items: ComplaintLineInput[], description: string, photos: File[]) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Complain about lines of a delivered order: pick the lines, how much of each and why, and
+ * add a description and photos. The database checks the quantities against what was delivered.
+ */
+export default function ComplaintForm({ items, onSubmit, onCancel }: ComplaintFormProps) {
+  const t = useTranslations('complaints.form');
+  const tReasons = useTranslations('complaints.reasons');
+  // Only what was delivered can be complained about
+  const deliveredItems = items.filter(item => item.id && item.substitution_status !== 'proposed' && item.substitution_status !== 'declined');
+  const [rows, setRows] = useState<Record<string, ComplaintRow>>({});
+  const [description, setDescription] = useState('');
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const getDeliveredQuantity = (item: OrderItem) => item.fulfilled_quantity ?? item.quantity;
+
+  const updateRow = (item: OrderItem, changes: Partial<ComplaintRow>) => {
+    setRows(prev => {
+      const row: ComplaintRow = prev[item.id!] || {
+        selected: false,
+        quantity: getDeliveredQuantity(item).toString(),
+        reason: 'damaged'
+      };
+      return { ...prev, [item.id!]: { ...row, ...changes } };
+    });
+  };
+
+  const handlePhotosChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (files.length > MAX_PHOTOS) {
+      setErrorMessage(t('tooManyPhotos', { max: MAX_PHOTOS }));
+    }
+    setPhotos(files.slice(0, MAX_PHOTOS));
+  };
+
+  const handleSubmit = async () => {
+    const lines: ComplaintLineInput[] = [];
+    for (const item of deliveredItems) {
+      const row = rows[item.id!];
+      if (!row?.selected) continue;
+
+      const quantity = parseFloat(row.quantity);
+      if (isNaN(quantity) || quantity <= 0 || quantity > getDeliveredQuantity(item)) {
+        setErrorMessage(t('invalidQuantity', { product: item.product?.name_en || item.product_id }));
+        return;
+      }
+      lines.push({ order_item_id: item.id!, quantity, reason: row.reason });
+    }
+
+    if (lines.length === 0) {
+      setErrorMessage(t('noItems'));
+      return;
+    }
+
+    setSaving(true);
+    setErrorMessage('');
+    try {
+      await onSubmit(lines, description.trim(), photos);
+    } catch (err: any) {
+      console.error('Error opening complaint:', err);
+      const quantityError = getComplaintQuantityError(err);
+      setErrorMessage(quantityError
+        ? t('quantityExceeded', { product: quantityError.product_name, available: quantityError.available })
+        : err.message || t('saveError'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">{t('help')}</p>
+
+      <div className="bg-gray-50 rounded-md overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <tbody className="bg-white divide-y divide-gray-200">
+            {deliveredItems.map(item => {
+              const row = rows[item.id!];
+              return (
+                <tr key={item.id}>
+                  <td className="px-3 py-2">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={!!row?.selected}
+                        onChange={e => updateRow(item, { selected: e.target.checked })}
+                        disabled={saving}
+                      />
+                      <span>
+                        {item.product?.name_en || item.product_id}
+                        {item.pack && <span className="text-gray-500"> ({item.pack.name})</span>}
+                      </span>
+                    </label>
+                  </td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap">
+                    <input
+                      type="number"
+                      step="any"
+                      min="0"
+                      max={getDeliveredQuantity(item)}
+                      value={row?.quantity ?? getDeliveredQuantity(item)}
+                      onChange={e => updateRow(item, { quantity: e.target.value, selected: true })}
+                      className="w-20 rounded-lg border border-gray-300 px-2 py-1 text-sm text-right"
+                      disabled={saving || !row?.selected}
+                    />
+                    <span className="ml-2 text-gray-500">{item.pack?.name || item.product?.unit}</span>
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    <select
+                      value={row?.reason ?? 'damaged'}
+                      onChange={e => updateRow(item, { reason: e.target.value as ComplaintReason, selected: true })}
+                      className="rounded-lg border border-gray-300 px-2 py-1 text-sm"
+                      disabled={saving || !row?.selected}
+                    >
+                      {REASONS.map(reason => (
+                        <option key={reason} value={reason}>{tReasons(reason)}</option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">{t('description')}</label>
+        <textarea
+          value={description}
+          onChange={e => setDescription(e.target.value)}
+          rows={3}
+          className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+          placeholder={t('descriptionPlaceholder')}
+          disabled={saving}
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">{t('photos', { max: MAX_PHOTOS })}</label>
+        <input
+          type="file"
+          accept="image/*"
+          multiple
+          onChange={handlePhotosChange}
+          className="block w-full text-sm text-gray-600"
+          disabled={saving}
+        />
+        {photos.length > 0 && (
+          <p className="mt-1 text-xs text-gray-500">{photos.map(photo => photo.name).join(', ')}</p>
+        )}
+      </div>
+
+      {errorMessage && (
+        <div className="p-3 bg-red-100 text-red-700 rounded-md text-sm">
+          {errorMessage}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-3 justify-end">
+        <button
+          onClick={onCancel}
+          disabled={saving}
+          className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 text-sm"
+        >
+          {t('cancel')}
+        </button>
+        <button
+          onClick={handleSubmit}
+          disabled={saving}
+          className="px-4 py-2 bg-emerald-600 text-white rounded-md hover:bg-emerald-700 disabled:opacity-50 text-sm"
+        >
+          {saving ? t('sending') : t('submit')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -2,11 +2,13 @@ import React from 'react';
 import { useTranslations } from 'next-intl';
 import { Order } from '../lib/order-api';
 import { UserProfile } from '../../lib/auth';
+import CatchWeightInput from './CatchWeightInput';
 
 interface DriverDeliveryModalProps {
   delivery: Order;
   onClose: () => void;
   onUpdateStatus?: (deliveryId: string, newStatus: Order['status']) => Promise<void>;
+  onRecordActualQuantity?: (itemId: string, actualQuantity: number | null) => Promise<void>;
   isUpdatingStatus?: boolean;
 }
 
@@ -18,9 +20,12 @@ export default function DriverDeliveryModal({
   delivery, 
   onClose,
   onUpdateStatus,
+  onRecordActualQuantity,
   isUpdatingStatus = false 
 }: DriverDeliveryModalProps) {
   const t = useTranslations('driver');
+  const tCatchWeight = useTranslations('orders.catchWeight');
+  const tSubstitution = useTranslations('orders.substitution');
   const tCommon = useTranslations('labels');
   const tActions = useTranslations('actions');
 
@@ -92,6 +97,9 @@ export default function DriverDeliveryModal({
     return '';
   };
 
+  // Catch-weight lines are weighed until the order is completed
+  const canRecordWeights = !!onRecordActualQuantity && (delivery.status === 'pending' || delivery.status === 'processing');
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-2 sm:p-4">
       <div className="bg-white/90 backdrop-blur-lg rounded-3xl shadow-2xl border border-white/20 max-w-xl w-full max-h-[90vh] overflow-y-auto">
@@ -292,22 +300,52 @@ export default function DriverDeliveryModal({
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
-                    {delivery.items?.map((item, index) => (
+                    {/* Declined substitutes stay in the depot */}
+                    {delivery.items?.filter(item => item.substitution_status !== 'declined').map((item, index) => (
                       <tr key={index} className="hover:bg-gray-50">
                         <td className="px-4 py-3">
                           <div className="font-medium text-gray-900">
                             {getProductName(item)}
                           </div>
+                          {item.substitute_for && (
+                            <div className="text-xs text-amber-700">
+                              {tSubstitution('substituteFor', { product: getProductName(delivery.items.find(other => other.id === item.substitute_for) || item) })}
+                              {item.substitution_status === 'proposed' && ` (${tSubstitution('proposed')})`}
+                            </div>
+                          )}
                           {item.product?.sku && (
                             <div className="text-xs text-gray-500">
-                              SKU: {item.product.sku}
+                              SKU: {item.product.sku}{item.pack?.sku_suffix}
                             </div>
                           )}
                         </td>
                         <td className="px-4 py-3 text-right">
                           <span className="font-semibold text-gray-900">
-                            {item.quantity} {getProductUnit(item)}
+                            {item.pack
+                              ? t('packQuantity', { quantity: item.quantity, pack: item.pack.name, baseQuantity: item.base_quantity ?? item.quantity * item.pack.base_quantity, unit: getProductUnit(item) })
+                              : `${item.quantity} ${getProductUnit(item)}`}
                           </span>
+                          {item.fulfilled_quantity != null && (
+                            <div className="text-xs text-amber-700">
+                              {tSubstitution('shortPicked', { quantity: item.fulfilled_quantity, unit: item.pack?.name || getProductUnit(item) })}
+                            </div>
+                          )}
+                          {item.product?.is_catch_weight && (
+                            canRecordWeights && item.id ? (
+                              <div className="mt-1">
+                                <CatchWeightInput
+                                  item={item}
+                                  unit={getProductUnit(item)}
+                                  onSave={actualQuantity => onRecordActualQuantity!(item.id!, actualQuantity)}
+                                  disabled={isUpdatingStatus}
+                                />
+                              </div>
+                            ) : item.actual_quantity != null && (
+                              <div className="text-xs text-gray-500">
+                                {tCatchWeight('delivered', { quantity: item.actual_quantity, unit: getProductUnit(item) })}
+                              </div>
+                            )
+                          )}
                         </td>
                       </tr>
                     ))}
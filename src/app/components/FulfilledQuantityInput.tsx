@@ -0,0 +1,70 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'react-toastify';
+import { OrderItem } from '../lib/order-api';
+
+interface FulfilledQuantityInputProps {
+  item: OrderItem;
+  unit: string;
+  onSave: (fulfilledQuantity: number | null) => Promise<void>;
+  disabled?: boolean;
+}
+
+/**
+ * Records how much of an order line could be picked, in the line's unit; saved when the field
+ * loses focus. Clearing the field ships the line in full again.
+ */
+export default function FulfilledQuantityInput({ item, unit, onSave, disabled = false }: FulfilledQuantityInputProps) {
+  const t = useTranslations('orders.fulfilment');
+  const [value, setValue] = useState(item.fulfilled_quantity?.toString() ?? '');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setValue(item.fulfilled_quantity?.toString() ?? '');
+  }, [item.fulfilled_quantity]);
+
+  const handleBlur = async () => {
+    const fulfilledQuantity = value.trim() === '' ? null : parseFloat(value);
+
+    if (fulfilledQuantity !== null && (isNaN(fulfilledQuantity) || fulfilledQuantity < 0 || fulfilledQuantity > item.quantity)) {
+      toast.error(t('invalid', { quantity: item.quantity }));
+      setValue(item.fulfilled_quantity?.toString() ?? '');
+      return;
+    }
+    if (fulfilledQuantity === (item.fulfilled_quantity ?? null)) {
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await onSave(fulfilledQuantity);
+      toast.success(t('saved'));
+    } catch (err: any) {
+      console.error('Error saving fulfilled quantity:', err);
+      toast.error(err.message || t('saveError'));
+      setValue(item.fulfilled_quantity?.toString() ?? '');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <label className="flex items-center justify-end gap-2 text-xs text-gray-500">
+      {t('label', { unit })}
+      <input
+        type="number"
+        step="any"
+        min="0"
+        max={item.quantity}
+        className="w-20 rounded-lg border border-gray-300 px-2 py-1 text-right text-sm text-gray-900"
+        placeholder={item.quantity.toString()}
+        value={value}
+        onChange={e => setValue(e.target.value)}
+        onBlur={handleBlur}
+        disabled={disabled || saving}
+      />
+    </label>
+  );
+}
@@ -1,15 +1,23 @@
 'use client';
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { useTranslations } from 'next-intl';
-import { Order } from '../lib/order-api';
+import { Order, OrderItem, OrderLineInput, getOrderEditDeadline, isPickingStarted } from '../lib/order-api';
 import { formatCurrency, formatDate } from '../lib/utils';
+import { getPackSku } from '../lib/product-api';
+import { ComplaintLineInput } from '../lib/complaint-api';
+import OrderItemsEditor from './OrderItemsEditor';
+import ComplaintForm from './ComplaintForm';
 
 interface OrderDetailModalProps {
   order: Order;
   onClose: () => void;
-  onCancel: (orderId: string, reason: string) => Promise<void>;
+  onCancel?: (orderId: string, reason: string) => Promise<void>;
   onDownloadInvoice: (orderId: string) => Promise<void>;
+  onUpdateItems?: (orderId: string, items: OrderLineInput[]) => Promise<void>;
+  onRespondToSubstitution?: (orderId: string, orderItemId: string, accept: boolean) => Promise<void>;
+  onOpenComplaint?: (orderId: string, items: ComplaintLineInput[], description: string, photos: File[]) => Promise<void>;
+  onRespondToApproval?: (orderId: string, approve: boolean) => Promise<void>;
   initialActiveTab?: 'details' | 'invoice';
 }
 
@@ -18,6 +26,10 @@ export default function OrderDetailModal({
   onClose, 
   onCancel, 
   onDownloadInvoice,
+  onUpdateItems,
+  onRespondToSubstitution,
+  onOpenComplaint,
+  onRespondToApproval,
   initialActiveTab = 'details'
 }: OrderDetailModalProps) {
   const t = useTranslations('orders');
@@ -32,6 +44,61 @@ export default function OrderDetailModal({
   const [emailSent, setEmailSent] = useState(false);
   const [emailError, setEmailError] = useState<string | null>(null);
   const invoiceRef = useRef<HTMLDivElement>(null);
+  const [editDeadline, setEditDeadline] = useState<Date | null>(null);
+  const [isEditingItems, setIsEditingItems] = useState(false);
+  const [isReportingProblem, setIsReportingProblem] = useState(false);
+  const [isRespondingToApproval, setIsRespondingToApproval] = useState(false);
+
+  const isOpenForChanges = order.status === 'pending' || order.status === 'pending_approval';
+
+  // Pending orders and those awaiting approval can be changed until the cutoff before their delivery day
+  useEffect(() => {
+    if (!onUpdateItems || !isOpenForChanges || !order.id) {
+      setEditDeadline(null);
+      return;
+    }
+
+    getOrderEditDeadline(order.id)
+      .then(setEditDeadline)
+      .catch(() => setEditDeadline(null));
+  }, [order.id, order.status]);
+
+  const canEditItems = !!onUpdateItems && isOpenForChanges && !isPickingStarted(order) && !!editDeadline && editDeadline > new Date();
+
+  const handleUpdateItems = async (items: OrderLineInput[]) => {
+    await onUpdateItems!(order.id!, items);
+    setIsEditingItems(false);
+  };
+
+  // Problems with the goods are reported once the order has been delivered
+  const canReportProblem = !!onOpenComplaint && order.status === 'completed';
+
+  const handleOpenComplaint = async (items: ComplaintLineInput[], description: string, photos: File[]) => {
+    await onOpenComplaint!(order.id!, items, description, photos);
+    setIsReportingProblem(false);
+  };
+
+  const [respondingItemId, setRespondingItemId] = useState<string | null>(null);
+
+  const handleRespondToSubstitution = async (item: OrderItem, accept: boolean) => {
+    try {
+      setRespondingItemId(item.id!);
+      setErrorMessage('');
+      await onRespondToSubstitution!(order.id!, item.id!, accept);
+    } catch (error: any) {
+      setErrorMessage(error.message || t('substitution.respondError'));
+    } finally {
+      setRespondingItemId(null);
+    }
+  };
+
+  // Declined substitutes are not delivered, so they are left out of the order
+  const visibleItems = (order.items || []).filter(item => item.substitution_status !== 'declined');
+  const getItemName = (item: OrderItem) => item.product?.name_en || t('productWithId', { productId: item.product_id });
+  const getReplacedName = (item: OrderItem) => {
+    const original = order.items?.find(other => other.id === item.substitute_for);
+    return original ? getItemName(original) : '';
+  };
 
   // Format status with appropriate color
   const getStatusColor = (status: string) => {
@@ -42,6 +109,8 @@ export default function OrderDetailModal({
         return 'text-blue-600 bg-blue-100';
       case 'cancelled':
         return 'text-red-600 bg-red-100';
+      case 'pending_approval':
+        return 'text-orange-600 bg-orange-100';
       default:
         return 'text-yellow-600 bg-yellow-100';
     }
@@ -57,7 +126,7 @@ export default function OrderDetailModal({
     try {
       setIsCancelling(true);
       setErrorMessage('');
-      await onCancel(order.id!, cancelReason);
+      await onCancel!(order.id!, cancelReason);
       // Modal will be closed by parent component after successful cancellation
     } catch (error: any) {
       setErrorMessage(error.message || t('cancelOrderFailed'));
@@ -65,6 +134,18 @@ export default function OrderDetailModal({
     }
   };
 
+  const handleRespondToApproval = async (approve: boolean) => {
+    try {
+      setIsRespondingToApproval(true);
+      setErrorMessage('');
+      await onRespondToApproval!(order.id!, approve);
+    } catch (error: any) {
+      setErrorMessage(error.message || t('approval.respondError'));
+    } finally {
+      setIsRespondingToApproval(false);
+    }
+  };
+
   // Handle invoice download
   const handleDownloadInvoice = async () => {
     try {
@@ -202,6 +283,18 @@ export default function OrderDetailModal({
                       {t(`status.${order.status}`)}
                     </span>
                   </p>
+                  {order.business_id && order.customer && (
+                    <p>
+                      <span className="font-medium">{t('approval.orderedBy')}: </span>
+                      {order.customer.name || order.customer.email}
+                    </p>
+                  )}
+                  {order.status === 'pending_approval' && (
+                    <p className="text-sm text-orange-700">{t('approval.awaiting')}</p>
+                  )}
+                  {order.approved_at && (
+                    <p className="text-sm text-gray-600">{t('approval.approvedOn', { date: formatDate(order.approved_at) })}</p>
+                  )}
                 </div>
               </div>
               
@@ -224,7 +317,43 @@ export default function OrderDetailModal({
 
             {/* Order Items */}
             <div className="mb-6">
-              <h3 className="font-medium text-gray-700 mb-2">{t('orderItems')}</h3>
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                <h3 className="font-medium text-gray-700">{t('orderItems')}</h3>
+                {canEditItems && !isEditingItems && (
+                  <div className="flex items-center gap-3">
+                    <span className="text-xs text-gray-500">
+                      {t('itemsEditor.editableUntil', { deadline: editDeadline!.toLocaleString() })}
+                    </span>
+                    <button
+                      onClick={() => setIsEditingItems(true)}
+                      className="px-3 py-1 text-sm font-medium text-emerald-700 border border-emerald-300 rounded-lg hover:bg-emerald-50"
+                    >
+                      {t('itemsEditor.editItems')}
+                    </button>
+                  </div>
+                )}
+                {canReportProblem && !isReportingProblem && (
+                  <button
+                    onClick={() => setIsReportingProblem(true)}
+                    className="px-3 py-1 text-sm font-medium text-amber-700 border border-amber-300 rounded-lg hover:bg-amber-50"
+                  >
+                    {t('reportProblem')}
+                  </button>
+                )}
+              </div>
+              {isEditingItems ? (
+                <OrderItemsEditor
+                  items={order.items || []}
+                  onSave={handleUpdateItems}
+                  onCancel={() => setIsEditingItems(false)}
+                />
+              ) : isReportingProblem ? (
+                <ComplaintForm
+                  items={order.items || []}
+                  onSubmit={handleOpenComplaint}
+                  onCancel={() => setIsReportingProblem(false)}
+                />
+              ) : (
               <div className="bg-gray-50 rounded-md overflow-x-auto">
                 <table className="min-w-full divide-y divide-gray-200 text-sm sm:text-base">
                   <thead className="bg-gray-100">
@@ -244,25 +373,68 @@ export default function OrderDetailModal({
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
-                    {order.items?.map((item, index) => (
+                    {visibleItems.map((item, index) => (
                       <tr key={index}>
                         <td className="px-3 sm:px-6 py-4 whitespace-nowrap">
-                          {item.product?.name_en || t('productWithId', { productId: item.product_id })}
+                          {getItemName(item)}
+                          {item.substitute_for && (
+                            <div className="text-xs text-gray-500">
+                              {t('substitution.substituteFor', { product: getReplacedName(item) })}
+                            </div>
+                          )}
+                          {item.substitution_status === 'proposed' && (
+                            <div className="mt-1 flex flex-wrap items-center gap-2">
+                              <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-amber-100 text-amber-700">
+                                {t('substitution.proposed')}
+                              </span>
+                              {onRespondToSubstitution && (
+                                <>
+                                  <button
+                                    onClick={() => handleRespondToSubstitution(item, true)}
+                                    disabled={respondingItemId === item.id}
+                                    className="px-2 py-0.5 text-xs font-medium text-white bg-emerald-600 rounded hover:bg-emerald-700 disabled:opacity-50"
+                                  >
+                                    {t('substitution.accept')}
+                                  </button>
+                                  <button
+                                    onClick={() => handleRespondToSubstitution(item, false)}
+                                    disabled={respondingItemId === item.id}
+                                    className="px-2 py-0.5 text-xs font-medium text-red-700 bg-red-100 rounded hover:bg-red-200 disabled:opacity-50"
+                                  >
+                                    {t('substitution.decline')}
+                                  </button>
+                                </>
+                              )}
+                            </div>
+                          )}
                         </td>
                         <td className="px-3 sm:px-6 py-4 whitespace-nowrap">
-                          {item.product?.sku}
+                          {item.product?.sku && item.pack ? getPackSku(item.product, item.pack) : item.product?.sku}
                         </td>
                         <td className="px-3 sm:px-6 py-4 whitespace-nowrap">
                           {item.product?.unit}
                         </td>
                         <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-right">
-                          {item.quantity} {item.product?.unit || 'pcs'}
+                          {item.pack
+                            ? t('packQuantity', { quantity: item.quantity, pack: item.pack.name, baseQuantity: item.base_quantity ?? item.quantity * item.pack.base_quantity, unit: item.product?.unit || 'pcs' })
+                            : `${item.quantity} ${item.product?.unit || 'pcs'}`}
+                          {item.actual_quantity != null && (
+                            <div className="text-xs text-gray-500">
+                              {t('catchWeight.delivered', { quantity: item.actual_quantity, unit: item.product?.unit || '' })}
+                            </div>
+                          )}
+                          {item.actual_quantity == null && item.fulfilled_quantity != null && (
+                            <div className="text-xs text-amber-600">
+                              {t('substitution.shortPicked', { quantity: item.fulfilled_quantity, unit: item.pack?.name || item.product?.unit || '' })}
+                            </div>
+                          )}
                         </td>
                       </tr>
                     ))}
                   </tbody>
                 </table>
               </div>
+              )}
             </div>
 
             {/* Error message */}
@@ -274,7 +446,26 @@ export default function OrderDetailModal({
             
             {/* Actions */}
             <div className="flex flex-wrap gap-3 justify-end mt-6">
-              {order.status === 'pending' && (
+              {onRespondToApproval && order.status === 'pending_approval' && (
+                <>
+                  <button
+                    onClick={() => handleRespondToApproval(false)}
+                    disabled={isRespondingToApproval}
+                    className="px-4 py-2 bg-red-100 text-red-700 rounded-md hover:bg-red-200 transition duration-200 text-sm sm:text-base disabled:opacity-50"
+                  >
+                    {t('approval.reject')}
+                  </button>
+                  <button
+                    onClick={() => handleRespondToApproval(true)}
+                    disabled={isRespondingToApproval}
+                    className="px-4 py-2 bg-emerald-600 text-white rounded-md hover:bg-emerald-700 transition duration-200 text-sm sm:text-base disabled:opacity-50"
+                  >
+                    {t('approval.approve')}
+                  </button>
+                </>
+              )}
+
+              {onCancel && isOpenForChanges && (
                 <button
                   onClick={handleCancelOrder}
                   disabled={isCancelling}
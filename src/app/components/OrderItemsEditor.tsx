@@ -0,0 +1,204 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { OrderItem, OrderLineInput, getOrderLocked } from '../lib/order-api';
+import {
+  Product,
+  ProductPack,
+  getQuantityIncrement,
+  getStockShortage,
+  getQuantityRuleViolation,
+  getLeadTimeViolation
+} from '../lib/product-api';
+import { getMinimumOrderShortfall } from '../lib/delivery-zone-api';
+import { formatCurrency } from '../lib/utils';
+import ProductPicker from './ProductPicker';
+
+// A line being edited; products added here carry their product so packs and rules are known
+interface EditorLine {
+  key: string;
+  id?: string; // the order line; unset for lines added here
+  product_id: string;
+  pack_id?: string;
+  quantity: number;
+  product?: Product;
+  pack_name?: string;
+  isNew?: boolean;
+}
+
+interface OrderItemsEditorProps {
+  items: OrderItem[];
+  onSave: (items: OrderLineInput[]) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Substitute lines belong to picking and are not edited here
+const toEditorLines = (items: OrderItem[]): EditorLine[] => items.filter(item => !item.substitute_for).map(item => ({
+  key: item.id || `${item.product_id}:${item.pack_id || ''}`,
+  id: item.id,
+  product_id: item.product_id,
+  pack_id: item.pack_id,
+  quantity: item.quantity,
+  product: item.product,
+  pack_name: item.pack?.name
+}));
+
+/**
+ * Change the quantities of an open order, remove lines and add products. The database checks
+ * stock, quantity rules, lead times and the minimum order value; its errors are shown here.
+ */
+export default function OrderItemsEditor({ items, onSave, onCancel }: OrderItemsEditorProps) {
+  const t = useTranslations('orders.itemsEditor');
+  const [lines, setLines] = useState<EditorLine[]>(() => toEditorLines(items));
+  const [saving, setSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const updateQuantity = (key: string, quantity: number) => {
+    setLines(prev => prev.map(line => (line.key === key ? { ...line, quantity } : line)));
+  };
+
+  const removeLine = (key: string) => {
+    setLines(prev => prev.filter(line => line.key !== key));
+  };
+
+  // Adding a product and pack already on the order adds to that line instead
+  const addProduct = (product: Product, pack?: ProductPack) => {
+    const key = `${product.id}:${pack?.id || ''}`;
+    const increment = getQuantityIncrement(product, pack);
+    const quantity = pack ? 1 : Math.max(product.min_order_quantity || 0, increment);
+
+    setLines(prev => {
+      const existing = prev.find(line => line.product_id === product.id && (line.pack_id || '') === (pack?.id || ''));
+      if (existing) {
+        return prev.map(line => (line === existing ? { ...line, quantity: line.quantity + increment } : line));
+      }
+      return [...prev, { key, product_id: product.id!, pack_id: pack?.id, quantity, product, pack_name: pack?.name, isNew: true }];
+    });
+  };
+
+  const getErrorMessage = (err: any): string => {
+    const locked = getOrderLocked(err);
+    if (locked) {
+      return t('locked');
+    }
+
+    const shortage = getStockShortage(err);
+    if (shortage) {
+      return t('insufficientStock', { product: shortage.product_name, available: shortage.available });
+    }
+
+    const quantityRule = getQuantityRuleViolation(err);
+    if (quantityRule) {
+      return t('quantityRule', { product: quantityRule.product_name });
+    }
+
+    const leadTime = getLeadTimeViolation(err);
+    if (leadTime) {
+      return t('leadTime', { product: leadTime.product_name });
+    }
+
+    const shortfall = getMinimumOrderShortfall(err);
+    if (shortfall) {
+      return t('belowMinimumOrder', { minimum: formatCurrency(shortfall.minimum) });
+    }
+
+    return err?.message || t('saveError');
+  };
+
+  const handleSave = async () => {
+    const remaining = lines.filter(line => line.quantity > 0);
+    if (remaining.length === 0) {
+      setErrorMessage(t('noItems'));
+      return;
+    }
+
+    setSaving(true);
+    setErrorMessage('');
+    try {
+      await onSave(remaining.map(line => ({
+        id: line.id,
+        product_id: line.product_id,
+        pack_id: line.pack_id,
+        quantity: line.quantity
+      })));
+    } catch (err: any) {
+      console.error('Error updating order items:', err);
+      setErrorMessage(getErrorMessage(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-gray-50 rounded-md overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <tbody className="bg-white divide-y divide-gray-200">
+            {lines.map(line => (
+              <tr key={line.key}>
+                <td className="px-3 py-2">
+                  {line.product?.name_en || line.product_id}
+                  {line.pack_name && <span className="text-gray-500"> ({line.pack_name})</span>}
+                  {line.isNew && (
+                    <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-emerald-100 text-emerald-700">{t('new')}</span>
+                  )}
+                </td>
+                <td className="px-3 py-2 text-right whitespace-nowrap">
+                  <input
+                    type="number"
+                    min={0}
+                    step={line.product ? getQuantityIncrement(line.product, line.product.packs?.find(p => p.id === line.pack_id)) : 'any'}
+                    value={line.quantity}
+                    onChange={e => updateQuantity(line.key, Number(e.target.value))}
+                    className="w-24 rounded-lg border border-gray-300 px-2 py-1 text-sm text-right"
+                    disabled={saving}
+                  />
+                  <span className="ml-2 text-gray-500">{line.pack_name || line.product?.unit}</span>
+                </td>
+                <td className="px-3 py-2 text-right">
+                  <button
+                    onClick={() => removeLine(line.key)}
+                    disabled={saving}
+                    className="text-sm text-red-600 hover:text-red-800"
+                  >
+                    {t('remove')}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Add a product */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">{t('addProduct')}</label>
+        <ProductPicker onSelect={addProduct} disabled={saving} />
+      </div>
+
+      {errorMessage && (
+        <div className="p-3 bg-red-100 text-red-700 rounded-md text-sm">
+          {errorMessage}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-3 justify-end">
+        <button
+          onClick={onCancel}
+          disabled={saving}
+          className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 text-sm"
+        >
+          {t('cancel')}
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 bg-emerald-600 text-white rounded-md hover:bg-emerald-700 disabled:opacity-50 text-sm"
+        >
+          {saving ? t('saving') : t('save')}
+        </button>
+      </div>
+    </div>
+  );
+}
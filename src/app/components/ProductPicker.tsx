@@ -0,0 +1,98 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Product, ProductPack, getPaginatedProducts } from '../lib/product-api';
+
+interface ProductPickerProps {
+  onSelect: (product: Product, pack?: ProductPack) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Search active products by name or SKU and pick one, by its base unit or one of its packs
+ */
+export default function ProductPicker({ onSelect, disabled = false }: ProductPickerProps) {
+  const t = useTranslations('orders.productPicker');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [results, setResults] = useState<Product[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const handleSearch = async () => {
+    if (!searchTerm.trim()) return;
+
+    setSearching(true);
+    setErrorMessage('');
+    try {
+      const { products } = await getPaginatedProducts(1, 10, 'name_en', 'asc', searchTerm.trim(), true);
+      setResults(products);
+      if (products.length === 0) {
+        setErrorMessage(t('noResults'));
+      }
+    } catch (err) {
+      console.error('Error searching products:', err);
+      setErrorMessage(t('searchError'));
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleSelect = (product: Product, pack?: ProductPack) => {
+    onSelect(product, pack);
+    setResults([]);
+    setSearchTerm('');
+  };
+
+  return (
+    <div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={searchTerm}
+          onChange={e => setSearchTerm(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleSearch()}
+          placeholder={t('searchPlaceholder')}
+          className="flex-1 rounded-lg border border-gray-300 px-3 py-1 text-sm"
+          disabled={disabled}
+        />
+        <button
+          onClick={handleSearch}
+          disabled={disabled || searching}
+          className="px-3 py-1 text-sm font-medium text-emerald-700 border border-emerald-300 rounded-lg hover:bg-emerald-50"
+        >
+          {searching ? t('searching') : t('search')}
+        </button>
+      </div>
+      {errorMessage && (
+        <p className="mt-1 text-xs text-gray-500">{errorMessage}</p>
+      )}
+      {results.length > 0 && (
+        <ul className="mt-2 border border-gray-200 rounded-lg divide-y divide-gray-100 text-sm">
+          {results.map(product => (
+            <li key={product.id} className="flex flex-wrap items-center justify-between gap-2 px-3 py-2">
+              <span>{product.name_en}</span>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => handleSelect(product)}
+                  className="px-2 py-0.5 text-xs font-medium text-emerald-700 border border-emerald-300 rounded-lg hover:bg-emerald-50"
+                >
+                  {product.unit}
+                </button>
+                {product.packs?.filter(pack => pack.is_active).map(pack => (
+                  <button
+                    key={pack.id}
+                    onClick={() => handleSelect(product, pack)}
+                    className="px-2 py-0.5 text-xs font-medium text-emerald-700 border border-emerald-300 rounded-lg hover:bg-emerald-50"
+                  >
+                    {pack.name}
+                  </button>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,3 +1,4 @@
+import { SupabaseClient } from '@supabase/supabase-js';
 import { supabase } from './supabase';
 import fs from 'fs';
 import path from 'path';
@@ -8,8 +9,9 @@ async function executeSqlFile(filePath: string): Promise<void> {
     console.log(`Executing SQL file: ${filePath}`);
     const sql = fs.readFileSync(filePath, 'utf8');
     
-    // Use Supabase's rpc to execute raw SQL
-    const { error } = await supabase.rpc('execute_sql', { sql });
+    // Use Supabase's rpc to execute raw SQL. execute_sql is installed by hand rather than by a
+    // migration, so it is not part of the typed schema.
+    const { error } = await (supabase as unknown as SupabaseClient).rpc('execute_sql', { sql });
     
     if (error) {
       console.error(`Error executing ${filePath}:`, error.message);
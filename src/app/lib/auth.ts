@@ -1,5 +1,6 @@
 import { supabase } from './supabase';
 import { User, Session, WeakPassword } from '@supabase/supabase-js';
+import { SubstitutionPreference } from './types';
 
 export type UserRole = 'admin' | 'customer' | 'driver';
 
@@ -29,6 +30,7 @@ export interface UserProfile {
     promotions?: boolean;
     newProducts?: boolean;
   };
+  substitution_preference?: SubstitutionPreference;
 }
 
 export type AuthSignInCredentials = {
@@ -92,8 +94,7 @@ export async function signIn({ email, password }: AuthSignInCredentials): Promis
           role: 'customer',
           status: 'active',
           phone: '',
-          created_at: new Date().toISOString(),
-          last_login: new Date().toISOString()
+          created_at: new Date().toISOString()
         });
         
       if (insertError) {
@@ -112,16 +113,14 @@ export async function signIn({ email, password }: AuthSignInCredentials): Promis
         }
       };
     } else {
-      // Update last login time
-      await supabase
-        .from('users')
-        .update({ last_login: new Date().toISOString() })
-        .eq('id', data.user.id);
-        
       // Return data with user profile
       return {
         ...data,
-        userProfile: userData
+        userProfile: {
+          ...userData,
+          name: userData.name ?? undefined,
+          role: userData.role as UserRole
+        }
       };
     }
   }
@@ -222,12 +221,13 @@ export async function signUp({ email, password, name }: AuthSignUpCredentials) {
   });
   
   if (signUpError) throw signUpError;
+  if (!data.user) throw new Error('Sign up did not return a user');
   
   // Create a new user record in the users table
   const { error: userError } = await supabase
     .from('users')
     .insert({
-      id: data.user?.id,
+      id: data.user.id,
       name: name,
       email: email,
       role: 'customer',
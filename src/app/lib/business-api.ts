@@ -0,0 +1,141 @@
+import { supabase } from './supabase';
+import { Business, BusinessMember, BusinessRole, TablesUpdate } from './types';
+
+export type { Business, BusinessMember, BusinessRole } from './types';
+
+export type CreateBusinessData = Omit<Business, 'id' | 'created_at' | 'updated_at' | 'members'>;
+export type UpdateBusinessData = Omit<TablesUpdate<'businesses'>, 'id' | 'created_at' | 'updated_at'>;
+
+/**
+ * Fetch all businesses with their members, by name
+ */
+export async function getBusinesses(): Promise<Business[]> {
+  const { data, error } = await supabase
+    .from('businesses')
+    .select('*, members:business_members(*, user:users(id, name, email))')
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching businesses:', error);
+    throw error;
+  }
+
+  return data as Business[];
+}
+
+/**
+ * Create a business
+ */
+export async function createBusiness(businessData: CreateBusinessData): Promise<Business> {
+  const { data, error } = await supabase
+    .from('businesses')
+    .insert([businessData])
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating business:', error);
+    throw error;
+  }
+
+  return data as Business;
+}
+
+/**
+ * Update a business
+ */
+export async function updateBusiness(id: string, businessData: UpdateBusinessData): Promise<Business> {
+  const { data, error } = await supabase
+    .from('businesses')
+    .update(businessData)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error(`Error updating business ${id}:`, error);
+    throw error;
+  }
+
+  return data as Business;
+}
+
+/**
+ * Delete a business. Its members become individual customers again; their orders keep their
+ * history but are no longer filed under the business.
+ */
+export async function deleteBusiness(id: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('businesses')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error(`Error deleting business ${id}:`, error);
+    throw error;
+  }
+
+  return true;
+}
+
+/**
+ * Add a user to a business, or change their role. A user belongs to one business, so adding them
+ * moves them out of any other.
+ */
+export async function setBusinessMember(businessId: string, userId: string, role: BusinessRole): Promise<BusinessMember> {
+  const { data, error } = await supabase
+    .from('business_members')
+    .upsert({ business_id: businessId, user_id: userId, role }, { onConflict: 'user_id' })
+    .select('*, user:users(id, name, email)')
+    .single();
+
+  if (error) {
+    console.error(`Error adding user ${userId} to business ${businessId}:`, error);
+    throw error;
+  }
+
+  return data as BusinessMember;
+}
+
+/**
+ * Remove a user from their business
+ */
+export async function removeBusinessMember(userId: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('business_members')
+    .delete()
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error(`Error removing user ${userId} from their business:`, error);
+    throw error;
+  }
+
+  return true;
+}
+
+/**
+ * The business a user belongs to and their role in it
+ * @returns The membership with its business, or null if the user orders for themselves
+ */
+export async function getBusinessMembership(userId: string): Promise<BusinessMember | null> {
+  const { data, error } = await supabase
+    .from('business_members')
+    .select('*, business:businesses(*)')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error fetching business of user ${userId}:`, error);
+    throw error;
+  }
+
+  return data as BusinessMember | null;
+}
+
+/**
+ * Whether an error was raised because a viewer of a business account tried to place an order
+ */
+export function isNotAllowedToOrder(error: any): boolean {
+  return error?.hint === 'not_allowed_to_order';
+}
@@ -0,0 +1,164 @@
+import { supabase } from './supabase';
+import { Category, TablesUpdate } from './types';
+
+export type { Category } from './types';
+
+export type CreateCategoryData = Omit<Category, 'id' | 'created_at' | 'updated_at'>;
+export type UpdateCategoryData = Omit<TablesUpdate<'categories'>, 'id' | 'created_at' | 'updated_at'>;
+
+/**
+ * Fetch all categories, ordered for display
+ */
+export async function getCategories(): Promise<Category[]> {
+  const { data, error } = await supabase
+    .from('categories')
+    .select('*')
+    .order('sort_order', { ascending: true })
+    .order('name_en', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching categories:', error);
+    throw error;
+  }
+
+  return data as Category[];
+}
+
+/**
+ * Create a new category
+ */
+export async function createCategory(categoryData: CreateCategoryData): Promise<Category> {
+  const { data, error } = await supabase
+    .from('categories')
+    .insert([categoryData])
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating category:', error);
+    throw error;
+  }
+
+  return data as Category;
+}
+
+/**
+ * Update an existing category
+ */
+export async function updateCategory(id: string, categoryData: UpdateCategoryData): Promise<Category> {
+  const { data, error } = await supabase
+    .from('categories')
+    .update(categoryData)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error(`Error updating category ${id}:`, error);
+    throw error;
+  }
+
+  return data as Category;
+}
+
+/**
+ * Delete a category. Its products become uncategorised and its subcategories move to the top level.
+ */
+export async function deleteCategory(id: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('categories')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error(`Error deleting category ${id}:`, error);
+    throw error;
+  }
+
+  return true;
+}
+
+/**
+ * Find categories by English name (case-insensitive), creating the missing ones.
+ * Used by the CSV importer; returns a map from lower-cased name to category ID.
+ * @param names Category names as written in the import file
+ */
+export async function findOrCreateCategories(names: string[]): Promise<Map<string, string>> {
+  const categoryIds = new Map<string, string>();
+  const wanted = new Map<string, string>();
+  names
+    .map(name => name.trim())
+    .filter(Boolean)
+    .forEach(name => wanted.set(name.toLowerCase(), name));
+
+  if (wanted.size === 0) return categoryIds;
+
+  const existing = await getCategories();
+  existing.forEach(category => categoryIds.set(category.name_en.toLowerCase(), category.id));
+
+  const missing = Array.from(wanted.entries())
+    .filter(([key]) => !categoryIds.has(key))
+    .map(([, name]) => ({ name_en: name, sort_order: 0 }));
+
+  if (missing.length > 0) {
+    const { data, error } = await supabase
+      .from('categories')
+      .insert(missing)
+      .select();
+
+    if (error) {
+      console.error('Error creating categories:', error);
+      throw error;
+    }
+
+    (data as Category[]).forEach(category => categoryIds.set(category.name_en.toLowerCase(), category.id));
+  }
+
+  return categoryIds;
+}
+
+/**
+ * Get the name of a category in the given locale, falling back to English
+ */
+export function getCategoryName(category: Category, locale: string): string {
+  if (locale === 'vi') return category.name_vi || category.name_en;
+  if (locale === 'tr') return category.name_tr || category.name_en;
+  return category.name_en;
+}
+
+/**
+ * Get the ID of a category together with the IDs of all its subcategories
+ */
+export function getCategoryDescendantIds(categories: Category[], categoryId: string): string[] {
+  const ids = [categoryId];
+  for (let i = 0; i < ids.length; i++) {
+    categories
+      .filter(category => category.parent_id === ids[i] && !ids.includes(category.id))
+      .forEach(category => ids.push(category.id));
+  }
+  return ids;
+}
+
+/**
+ * Flatten categories into display order: each parent followed by its subcategories,
+ * with the nesting depth for indentation
+ */
+export function getCategoryTree(categories: Category[]): Array<{ category: Category; depth: number }> {
+  const tree: Array<{ category: Category; depth: number }> = [];
+  const ids = new Set(categories.map(category => category.id));
+
+  const addChildren = (parentId: string | undefined, depth: number) => {
+    categories
+      .filter(category => (parentId
+        ? category.parent_id === parentId
+        : !category.parent_id || !ids.has(category.parent_id)))
+      .forEach(category => {
+        if (tree.some(entry => entry.category.id === category.id)) return;
+        tree.push({ category, depth });
+        addChildren(category.id, depth + 1);
+      });
+  };
+
+  addChildren(undefined, 0);
+  return tree;
+}
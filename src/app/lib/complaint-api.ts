@@ -0,0 +1,229 @@
+import { supabase } from './supabase';
+import { Complaint, ComplaintItem, ComplaintStatus, ComplaintStockAction } from './types';
+import { generateInvoice } from './order-api';
+
+export type { Complaint, ComplaintItem, ComplaintReason, ComplaintStatus, ComplaintStockAction } from './types';
+
+const COMPLAINT_PHOTO_BUCKET = 'complaint-photos';
+const PHOTO_URL_TTL = 60 * 60; // 1 hour
+
+// One complained-about line: how much of the order line, in its unit, and why
+export type ComplaintLineInput = Pick<ComplaintItem, 'order_item_id' | 'quantity' | 'reason'>;
+
+export interface ComplaintQuantityError {
+  order_item_id: string;
+  product_name: string;
+  available: number;
+}
+
+const COMPLAINT_SELECT = `
+  *,
+  items:complaint_items(*, order_item:order_items(*, product:products(*), pack:product_packs(*)))
+`;
+
+/**
+ * Upload a complaint photo into the customer's own folder of the private photo bucket
+ * @returns The storage path of the photo
+ */
+async function uploadComplaintPhoto(userId: string, file: File): Promise<string> {
+  const fileExt = file.name.split('.').pop();
+  const path = `${userId}/${Date.now()}-${Math.random().toString(36).substring(2, 15)}.${fileExt}`;
+
+  const { error } = await supabase.storage
+    .from(COMPLAINT_PHOTO_BUCKET)
+    .upload(path, file, { contentType: file.type });
+
+  if (error) {
+    console.error('Error uploading complaint photo:', error);
+    throw error;
+  }
+
+  return path;
+}
+
+/**
+ * Open a complaint against lines of a delivered order. The photos are uploaded first and
+ * removed again when the complaint is refused.
+ */
+export async function openComplaint(
+  orderId: string,
+  items: ComplaintLineInput[],
+  description?: string,
+  photos: File[] = []
+): Promise<Complaint> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('Not authenticated');
+  }
+
+  const photoPaths = await Promise.all(photos.map(photo => uploadComplaintPhoto(user.id, photo)));
+
+  const { data, error } = await supabase
+    .rpc('open_complaint', {
+      p_order_id: orderId,
+      p_items: items,
+      p_description: description || null,
+      p_photo_paths: photoPaths
+    });
+
+  if (error) {
+    console.error(`Error opening complaint for order ${orderId}:`, error);
+    if (photoPaths.length > 0) {
+      await supabase.storage.from(COMPLAINT_PHOTO_BUCKET).remove(photoPaths);
+    }
+    throw error;
+  }
+
+  return data as Complaint;
+}
+
+/**
+ * Fetch the complaints of a customer with their lines, newest first
+ */
+export async function getUserComplaints(userId: string): Promise<Complaint[]> {
+  const { data, error } = await supabase
+    .from('complaints')
+    .select(COMPLAINT_SELECT)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error(`Error fetching complaints of user ${userId}:`, error);
+    throw error;
+  }
+
+  return data as Complaint[];
+}
+
+/**
+ * Fetch all complaints with their customer and lines, newest first; open complaints oldest first
+ * @param status Only complaints with this status
+ */
+export async function getComplaints(status?: ComplaintStatus): Promise<Complaint[]> {
+  let query = supabase
+    .from('complaints')
+    .select(`${COMPLAINT_SELECT}, customer:users!user_id(id, name, email)`)
+    .order('created_at', { ascending: status === 'open' });
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching complaints:', error);
+    throw error;
+  }
+
+  return data as Complaint[];
+}
+
+/**
+ * Signed URLs of complaint photos, in the order of the paths
+ */
+export async function getComplaintPhotoUrls(paths: string[]): Promise<string[]> {
+  if (paths.length === 0) return [];
+
+  const { data, error } = await supabase.storage
+    .from(COMPLAINT_PHOTO_BUCKET)
+    .createSignedUrls(paths, PHOTO_URL_TTL);
+
+  if (error) {
+    console.error('Error creating complaint photo URLs:', error);
+    throw error;
+  }
+
+  return data.map(photo => photo.signedUrl);
+}
+
+/**
+ * Approve or reject an open complaint
+ * @param stockActions What to do with the goods of each line, by complaint item id; lines left
+ * out stay with the customer
+ */
+export async function resolveComplaint(
+  complaintId: string,
+  approve: boolean,
+  stockActions: Record<string, ComplaintStockAction> = {},
+  notes?: string
+): Promise<Complaint> {
+  const { data, error } = await supabase
+    .rpc('resolve_complaint', {
+      p_complaint_id: complaintId,
+      p_approve: approve,
+      p_stock_actions: stockActions,
+      p_notes: notes || null
+    });
+
+  if (error) {
+    console.error(`Error resolving complaint ${complaintId}:`, error);
+    throw error;
+  }
+
+  return data as Complaint;
+}
+
+/**
+ * Issue the credit note of an approved complaint, or fetch it when it was already issued.
+ * The order's invoice is issued first if it does not exist yet, since the credit note refers to it.
+ * @returns A signed URL to download the credit note PDF
+ */
+export async function issueCreditNote(complaint: Complaint): Promise<string> {
+  try {
+    await generateInvoice(complaint.order_id);
+
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      throw new Error('Not authenticated');
+    }
+
+    const response = await fetch(`/api/credit-notes/${complaint.id}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`
+      }
+    });
+
+    const result = await response.json();
+
+    if (!response.ok || !result.success || !result.url) {
+      throw new Error(result.message || 'Failed to issue credit note');
+    }
+
+    return result.url;
+  } catch (err) {
+    console.error(`Issue credit note failed for complaint ${complaint.id}:`, err);
+    throw err;
+  }
+}
+
+/**
+ * Extract the line and the quantity left to complain about from the error raised when a
+ * complaint asks for more than was delivered
+ * @returns The details, or null if the error is not a complaint quantity error
+ */
+export function getComplaintQuantityError(error: any): ComplaintQuantityError | null {
+  if (error?.hint !== 'invalid_complaint_quantity' || !error.details) {
+    return null;
+  }
+
+  try {
+    const details = JSON.parse(error.details);
+    return {
+      order_item_id: details.order_item_id,
+      product_name: details.product_name,
+      available: Number(details.available)
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether an error was raised because the complaint was already approved or rejected
+ */
+export function isComplaintResolved(error: any): boolean {
+  return error?.hint === 'complaint_resolved';
+}
@@ -1,6 +1,7 @@
 import { supabase } from './supabase';
 import { User, getUserById } from './users-api';
 import { UserProfile, getUserProfile } from './auth';
+import { SubstitutionPreference } from './types';
 
 export interface CustomerDetails {
   id: string;
@@ -11,7 +12,8 @@ export interface CustomerDetails {
   city: string;
   zip_code: string;
   business_name?: string;
-  default_payment_method?: string;
+  min_order_value?: number | null; // Replaces the zone and global minimum order value when set
+  substitution_preference?: SubstitutionPreference;
   created_at?: string;
   newsletter_subscribed?: boolean;
   notifications?: {
@@ -82,7 +84,8 @@ export async function getCustomerDetailsByUserId(userId: string): Promise<Custom
           ...userDetails,
           address: customerData.address || userDetails.address || '',
           phone: customerData.phone || userDetails.phone || '',
-          default_payment_method: customerData.default_payment_method
+          min_order_value: customerData.min_order_value,
+          substitution_preference: customerData.substitution_preference as SubstitutionPreference
         };
       }
     } catch (err) {
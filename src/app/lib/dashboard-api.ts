@@ -239,7 +239,7 @@ export async function getTodaysOrders(timezone: string = 'UTC'): Promise<{
     
     // Group orders by hour
     (data || []).forEach(order => {
-      const orderDate = new Date(order.created_at);
+      const orderDate = new Date(order.created_at!);
       // Adjust for timezone
       const userTime = new Date(orderDate.toLocaleString('en-US', { timeZone: timezone }));
       const hour = userTime.getHours();
@@ -0,0 +1,2159 @@
+// Supabase schema types, in the format produced by `supabase gen types typescript`.
+// Regenerate with `npm run gen:types` after changing the migrations in supabase/migrations.
+// The domain model in ./types.ts is checked against these at compile time.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      business_members: {
+        Row: {
+          user_id: string
+          business_id: string
+          role: string
+          created_at: string | null
+        }
+        Insert: {
+          user_id: string
+          business_id: string
+          role?: string
+          created_at?: string | null
+        }
+        Update: {
+          user_id?: string
+          business_id?: string
+          role?: string
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "business_members_business_id_fkey"
+            columns: ["business_id"]
+            isOneToOne: false
+            referencedRelation: "businesses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "business_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      businesses: {
+        Row: {
+          id: string
+          name: string
+          approval_threshold: number | null
+          notes: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          name: string
+          approval_threshold?: number | null
+          notes?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          name?: string
+          approval_threshold?: number | null
+          notes?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      categories: {
+        Row: {
+          id: string
+          name_en: string
+          name_vi: string | null
+          name_tr: string | null
+          parent_id: string | null
+          sort_order: number
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          name_en: string
+          name_vi?: string | null
+          name_tr?: string | null
+          parent_id?: string | null
+          sort_order?: number
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          name_en?: string
+          name_vi?: string | null
+          name_tr?: string | null
+          parent_id?: string | null
+          sort_order?: number
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      complaint_items: {
+        Row: {
+          id: string
+          complaint_id: string
+          order_item_id: string
+          quantity: number
+          reason: string
+          stock_action: string | null
+          credit_amount: number | null
+        }
+        Insert: {
+          id?: string
+          complaint_id: string
+          order_item_id: string
+          quantity: number
+          reason: string
+          stock_action?: string | null
+          credit_amount?: number | null
+        }
+        Update: {
+          id?: string
+          complaint_id?: string
+          order_item_id?: string
+          quantity?: number
+          reason?: string
+          stock_action?: string | null
+          credit_amount?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaint_items_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaint_items_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      complaints: {
+        Row: {
+          id: string
+          order_id: string
+          user_id: string
+          status: string
+          description: string | null
+          photo_paths: string[]
+          resolution_notes: string | null
+          credit_amount: number | null
+          credit_note_id: string | null
+          resolved_by: string | null
+          resolved_at: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          order_id: string
+          user_id: string
+          status?: string
+          description?: string | null
+          photo_paths?: string[]
+          resolution_notes?: string | null
+          credit_amount?: number | null
+          credit_note_id?: string | null
+          resolved_by?: string | null
+          resolved_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          order_id?: string
+          user_id?: string
+          status?: string
+          description?: string | null
+          photo_paths?: string[]
+          resolution_notes?: string | null
+          credit_amount?: number | null
+          credit_note_id?: string | null
+          resolved_by?: string | null
+          resolved_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaints_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaints_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaints_credit_note_id_fkey"
+            columns: ["credit_note_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaints_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      customer_groups: {
+        Row: {
+          id: string
+          name: string
+          description: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          name: string
+          description?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          name?: string
+          description?: string | null
+          created_at?: string | null
+        }
+        Relationships: []
+      }
+      delivery_holidays: {
+        Row: {
+          id: string
+          holiday_date: string
+          name: string
+          is_recurring: boolean
+          country_code: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          holiday_date: string
+          name: string
+          is_recurring?: boolean
+          country_code?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          holiday_date?: string
+          name?: string
+          is_recurring?: boolean
+          country_code?: string | null
+          created_at?: string | null
+        }
+        Relationships: []
+      }
+      delivery_slots: {
+        Row: {
+          id: string
+          start_time: string
+          end_time: string
+          capacity: number | null
+          is_active: boolean
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          start_time: string
+          end_time: string
+          capacity?: number | null
+          is_active?: boolean
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          start_time?: string
+          end_time?: string
+          capacity?: number | null
+          is_active?: boolean
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      delivery_zones: {
+        Row: {
+          id: string
+          name: string
+          postcode_ranges: string[]
+          boundary: Json | null
+          delivery_days: number[] | null
+          order_cutoff_time: string | null
+          min_order_value: number
+          delivery_fee: number
+          sort_order: number
+          is_active: boolean
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          name: string
+          postcode_ranges?: string[]
+          boundary?: Json | null
+          delivery_days?: number[] | null
+          order_cutoff_time?: string | null
+          min_order_value?: number
+          delivery_fee?: number
+          sort_order?: number
+          is_active?: boolean
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          name?: string
+          postcode_ranges?: string[]
+          boundary?: Json | null
+          delivery_days?: number[] | null
+          order_cutoff_time?: string | null
+          min_order_value?: number
+          delivery_fee?: number
+          sort_order?: number
+          is_active?: boolean
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      email_logs: {
+        Row: {
+          id: string
+          order_id: string | null
+          recipient: string
+          type: string
+          status: string
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          order_id?: string | null
+          recipient: string
+          type: string
+          status: string
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          order_id?: string | null
+          recipient?: string
+          type?: string
+          status?: string
+          created_at?: string | null
+        }
+        Relationships: []
+      }
+      invoice_number_sequences: {
+        Row: {
+          period: number
+          last_number: number
+          updated_at: string | null
+          series: string
+        }
+        Insert: {
+          period: number
+          last_number?: number
+          updated_at?: string | null
+          series?: string
+        }
+        Update: {
+          period?: number
+          last_number?: number
+          updated_at?: string | null
+          series?: string
+        }
+        Relationships: []
+      }
+      invoices: {
+        Row: {
+          id: string
+          user_id: string
+          order_id: string | null
+          invoice_number: string | null
+          path: string
+          bucket: string
+          notes: string | null
+          status: string | null
+          subtotal: number | null
+          vat_amount: number | null
+          total_amount: number | null
+          currency: string | null
+          created_at: string | null
+          updated_at: string | null
+          credit_note_for: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          order_id?: string | null
+          invoice_number?: string | null
+          path: string
+          bucket?: string
+          notes?: string | null
+          status?: string | null
+          subtotal?: number | null
+          vat_amount?: number | null
+          total_amount?: number | null
+          currency?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+          credit_note_for?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          order_id?: string | null
+          invoice_number?: string | null
+          path?: string
+          bucket?: string
+          notes?: string | null
+          status?: string | null
+          subtotal?: number | null
+          vat_amount?: number | null
+          total_amount?: number | null
+          currency?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+          credit_note_for?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_credit_note_for_fkey"
+            columns: ["credit_note_for"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      order_item_lots: {
+        Row: {
+          order_item_id: string
+          lot_id: string
+          quantity: number
+        }
+        Insert: {
+          order_item_id: string
+          lot_id: string
+          quantity: number
+        }
+        Update: {
+          order_item_id?: string
+          lot_id?: string
+          quantity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_item_lots_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_item_lots_lot_id_fkey"
+            columns: ["lot_id"]
+            isOneToOne: false
+            referencedRelation: "stock_lots"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      order_items: {
+        Row: {
+          id: string
+          order_id: string
+          product_id: string
+          quantity: number
+          unit_price: number
+          created_at: string | null
+          price_list_id: string | null
+          pack_id: string | null
+          base_quantity: number
+          actual_quantity: number | null
+          fulfilled_quantity: number | null
+          substitute_for: string | null
+          substitution_status: string | null
+        }
+        Insert: {
+          id?: string
+          order_id: string
+          product_id: string
+          quantity: number
+          unit_price: number
+          created_at?: string | null
+          price_list_id?: string | null
+          pack_id?: string | null
+          base_quantity: number
+          actual_quantity?: number | null
+          fulfilled_quantity?: number | null
+          substitute_for?: string | null
+          substitution_status?: string | null
+        }
+        Update: {
+          id?: string
+          order_id?: string
+          product_id?: string
+          quantity?: number
+          unit_price?: number
+          created_at?: string | null
+          price_list_id?: string | null
+          pack_id?: string | null
+          base_quantity?: number
+          actual_quantity?: number | null
+          fulfilled_quantity?: number | null
+          substitute_for?: string | null
+          substitution_status?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_items_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_price_list_id_fkey"
+            columns: ["price_list_id"]
+            isOneToOne: false
+            referencedRelation: "price_lists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_pack_id_fkey"
+            columns: ["pack_id"]
+            isOneToOne: false
+            referencedRelation: "product_packs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_substitute_for_fkey"
+            columns: ["substitute_for"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      order_status_history: {
+        Row: {
+          id: string
+          order_id: string
+          from_status: string | null
+          to_status: string
+          reason: string | null
+          changed_by: string | null
+          created_at: string | null
+          changes: Json | null
+        }
+        Insert: {
+          id?: string
+          order_id: string
+          from_status?: string | null
+          to_status: string
+          reason?: string | null
+          changed_by?: string | null
+          created_at?: string | null
+          changes?: Json | null
+        }
+        Update: {
+          id?: string
+          order_id?: string
+          from_status?: string | null
+          to_status?: string
+          reason?: string | null
+          changed_by?: string | null
+          created_at?: string | null
+          changes?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_history_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_status_history_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      orders: {
+        Row: {
+          id: string
+          user_id: string | null
+          delivery_address: string | null
+          order_date: string
+          delivery_date: string | null
+          total_amount: number
+          status: string
+          payment_status: string
+          notes: string | null
+          assigned_driver_id: string | null
+          stock_status: string
+          created_at: string | null
+          updated_at: string | null
+          delivery_slot_id: string | null
+          delivery_window_start: string | null
+          delivery_window_end: string | null
+          delivery_zone_id: string | null
+          delivery_fee: number
+          standing_order_id: string | null
+          business_id: string | null
+          approved_by: string | null
+          approved_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          delivery_address?: string | null
+          order_date?: string
+          delivery_date?: string | null
+          total_amount?: number
+          status?: string
+          payment_status?: string
+          notes?: string | null
+          assigned_driver_id?: string | null
+          stock_status?: string
+          created_at?: string | null
+          updated_at?: string | null
+          delivery_slot_id?: string | null
+          delivery_window_start?: string | null
+          delivery_window_end?: string | null
+          delivery_zone_id?: string | null
+          delivery_fee?: number
+          standing_order_id?: string | null
+          business_id?: string | null
+          approved_by?: string | null
+          approved_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          delivery_address?: string | null
+          order_date?: string
+          delivery_date?: string | null
+          total_amount?: number
+          status?: string
+          payment_status?: string
+          notes?: string | null
+          assigned_driver_id?: string | null
+          stock_status?: string
+          created_at?: string | null
+          updated_at?: string | null
+          delivery_slot_id?: string | null
+          delivery_window_start?: string | null
+          delivery_window_end?: string | null
+          delivery_zone_id?: string | null
+          delivery_fee?: number
+          standing_order_id?: string | null
+          business_id?: string | null
+          approved_by?: string | null
+          approved_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "orders_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_assigned_driver_id_fkey"
+            columns: ["assigned_driver_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_delivery_slot_id_fkey"
+            columns: ["delivery_slot_id"]
+            isOneToOne: false
+            referencedRelation: "delivery_slots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_delivery_zone_id_fkey"
+            columns: ["delivery_zone_id"]
+            isOneToOne: false
+            referencedRelation: "delivery_zones"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_standing_order_id_fkey"
+            columns: ["standing_order_id"]
+            isOneToOne: false
+            referencedRelation: "standing_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_business_id_fkey"
+            columns: ["business_id"]
+            isOneToOne: false
+            referencedRelation: "businesses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      price_list_items: {
+        Row: {
+          price_list_id: string
+          product_id: string
+          price: number
+        }
+        Insert: {
+          price_list_id: string
+          product_id: string
+          price: number
+        }
+        Update: {
+          price_list_id?: string
+          product_id?: string
+          price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_list_items_price_list_id_fkey"
+            columns: ["price_list_id"]
+            isOneToOne: false
+            referencedRelation: "price_lists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "price_list_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      price_lists: {
+        Row: {
+          id: string
+          name: string
+          user_id: string | null
+          customer_group_id: string | null
+          valid_from: string | null
+          valid_to: string | null
+          is_active: boolean
+          notes: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          name: string
+          user_id?: string | null
+          customer_group_id?: string | null
+          valid_from?: string | null
+          valid_to?: string | null
+          is_active?: boolean
+          notes?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          name?: string
+          user_id?: string | null
+          customer_group_id?: string | null
+          valid_from?: string | null
+          valid_to?: string | null
+          is_active?: boolean
+          notes?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_lists_customer_group_id_fkey"
+            columns: ["customer_group_id"]
+            isOneToOne: false
+            referencedRelation: "customer_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "price_lists_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      product_packs: {
+        Row: {
+          id: string
+          product_id: string
+          name: string
+          sku_suffix: string
+          base_quantity: number
+          price: number
+          is_active: boolean
+          sort_order: number
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          product_id: string
+          name: string
+          sku_suffix: string
+          base_quantity: number
+          price: number
+          is_active?: boolean
+          sort_order?: number
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          product_id?: string
+          name?: string
+          sku_suffix?: string
+          base_quantity?: number
+          price?: number
+          is_active?: boolean
+          sort_order?: number
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_packs_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      product_price_tiers: {
+        Row: {
+          id: string
+          product_id: string
+          min_quantity: number
+          price: number
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          product_id: string
+          min_quantity: number
+          price: number
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          product_id?: string
+          min_quantity?: number
+          price?: number
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_price_tiers_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      product_suppliers: {
+        Row: {
+          product_id: string
+          supplier_id: string
+          supplier_sku: string | null
+          cost_price: number
+          is_preferred: boolean
+        }
+        Insert: {
+          product_id: string
+          supplier_id: string
+          supplier_sku?: string | null
+          cost_price: number
+          is_preferred?: boolean
+        }
+        Update: {
+          product_id?: string
+          supplier_id?: string
+          supplier_sku?: string | null
+          cost_price?: number
+          is_preferred?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_suppliers_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_suppliers_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      products: {
+        Row: {
+          id: string
+          name_en: string
+          name_vi: string | null
+          name_tr: string | null
+          description: string | null
+          price: number
+          unit: string
+          sku: string
+          image_url: string | null
+          is_active: boolean
+          stock: number
+          reserved_stock: number
+          category_id: string | null
+          created_at: string | null
+          updated_at: string | null
+          is_catch_weight: boolean
+          min_order_quantity: number | null
+          quantity_step: number | null
+          lead_time_days: number
+        }
+        Insert: {
+          id?: string
+          name_en: string
+          name_vi?: string | null
+          name_tr?: string | null
+          description?: string | null
+          price?: number
+          unit: string
+          sku: string
+          image_url?: string | null
+          is_active?: boolean
+          stock?: number
+          reserved_stock?: number
+          category_id?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+          is_catch_weight?: boolean
+          min_order_quantity?: number | null
+          quantity_step?: number | null
+          lead_time_days?: number
+        }
+        Update: {
+          id?: string
+          name_en?: string
+          name_vi?: string | null
+          name_tr?: string | null
+          description?: string | null
+          price?: number
+          unit?: string
+          sku?: string
+          image_url?: string | null
+          is_active?: boolean
+          stock?: number
+          reserved_stock?: number
+          category_id?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+          is_catch_weight?: boolean
+          min_order_quantity?: number | null
+          quantity_step?: number | null
+          lead_time_days?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "products_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      purchase_order_items: {
+        Row: {
+          id: string
+          purchase_order_id: string
+          product_id: string
+          supplier_sku: string | null
+          quantity: number
+          unit_cost: number
+          received_quantity: number | null
+          lot_id: string | null
+        }
+        Insert: {
+          id?: string
+          purchase_order_id: string
+          product_id: string
+          supplier_sku?: string | null
+          quantity: number
+          unit_cost?: number
+          received_quantity?: number | null
+          lot_id?: string | null
+        }
+        Update: {
+          id?: string
+          purchase_order_id?: string
+          product_id?: string
+          supplier_sku?: string | null
+          quantity?: number
+          unit_cost?: number
+          received_quantity?: number | null
+          lot_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_items_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_items_lot_id_fkey"
+            columns: ["lot_id"]
+            isOneToOne: false
+            referencedRelation: "stock_lots"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      purchase_orders: {
+        Row: {
+          id: string
+          supplier_id: string
+          status: string
+          expected_date: string | null
+          notes: string | null
+          total_cost: number
+          created_by: string | null
+          received_at: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          supplier_id: string
+          status?: string
+          expected_date?: string | null
+          notes?: string | null
+          total_cost?: number
+          created_by?: string | null
+          received_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          supplier_id?: string
+          status?: string
+          expected_date?: string | null
+          notes?: string | null
+          total_cost?: number
+          created_by?: string | null
+          received_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      settings: {
+        Row: {
+          id: string
+          logo_url: string | null
+          vat_percentage: number | null
+          default_language: string | null
+          default_currency: string | null
+          company_name: string | null
+          support_email: string | null
+          support_phone: string | null
+          enable_overview: boolean | null
+          enable_products: boolean | null
+          enable_orders: boolean | null
+          enable_order_summary: boolean | null
+          enable_invoices: boolean | null
+          enable_users: boolean | null
+          enable_drivers: boolean | null
+          enable_settings: boolean | null
+          enable_store: boolean | null
+          order_cutoff_time: string | null
+          delivery_days: number[] | null
+          invoice_number_prefix: string | null
+          invoice_number_padding: number | null
+          invoice_number_yearly_reset: boolean | null
+          created_at: string | null
+          updated_at: string | null
+          holiday_country: string | null
+          delivery_booking_days: number
+          timezone: string
+          min_order_value: number
+          credit_note_number_prefix: string | null
+        }
+        Insert: {
+          id?: string
+          logo_url?: string | null
+          vat_percentage?: number | null
+          default_language?: string | null
+          default_currency?: string | null
+          company_name?: string | null
+          support_email?: string | null
+          support_phone?: string | null
+          enable_overview?: boolean | null
+          enable_products?: boolean | null
+          enable_orders?: boolean | null
+          enable_order_summary?: boolean | null
+          enable_invoices?: boolean | null
+          enable_users?: boolean | null
+          enable_drivers?: boolean | null
+          enable_settings?: boolean | null
+          enable_store?: boolean | null
+          order_cutoff_time?: string | null
+          delivery_days?: number[] | null
+          invoice_number_prefix?: string | null
+          invoice_number_padding?: number | null
+          invoice_number_yearly_reset?: boolean | null
+          created_at?: string | null
+          updated_at?: string | null
+          holiday_country?: string | null
+          delivery_booking_days?: number
+          timezone?: string
+          min_order_value?: number
+          credit_note_number_prefix?: string | null
+        }
+        Update: {
+          id?: string
+          logo_url?: string | null
+          vat_percentage?: number | null
+          default_language?: string | null
+          default_currency?: string | null
+          company_name?: string | null
+          support_email?: string | null
+          support_phone?: string | null
+          enable_overview?: boolean | null
+          enable_products?: boolean | null
+          enable_orders?: boolean | null
+          enable_order_summary?: boolean | null
+          enable_invoices?: boolean | null
+          enable_users?: boolean | null
+          enable_drivers?: boolean | null
+          enable_settings?: boolean | null
+          enable_store?: boolean | null
+          order_cutoff_time?: string | null
+          delivery_days?: number[] | null
+          invoice_number_prefix?: string | null
+          invoice_number_padding?: number | null
+          invoice_number_yearly_reset?: boolean | null
+          created_at?: string | null
+          updated_at?: string | null
+          holiday_country?: string | null
+          delivery_booking_days?: number
+          timezone?: string
+          min_order_value?: number
+          credit_note_number_prefix?: string | null
+        }
+        Relationships: []
+      }
+      shopping_list_items: {
+        Row: {
+          id: string
+          shopping_list_id: string
+          product_id: string
+          pack_id: string | null
+          quantity: number
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          shopping_list_id: string
+          product_id: string
+          pack_id?: string | null
+          quantity: number
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          shopping_list_id?: string
+          product_id?: string
+          pack_id?: string | null
+          quantity?: number
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shopping_list_items_shopping_list_id_fkey"
+            columns: ["shopping_list_id"]
+            isOneToOne: false
+            referencedRelation: "shopping_lists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shopping_list_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shopping_list_items_pack_id_fkey"
+            columns: ["pack_id"]
+            isOneToOne: false
+            referencedRelation: "product_packs"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      shopping_lists: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shopping_lists_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      standing_order_items: {
+        Row: {
+          id: string
+          standing_order_id: string
+          product_id: string
+          pack_id: string | null
+          quantity: number
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          standing_order_id: string
+          product_id: string
+          pack_id?: string | null
+          quantity: number
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          standing_order_id?: string
+          product_id?: string
+          pack_id?: string | null
+          quantity?: number
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "standing_order_items_standing_order_id_fkey"
+            columns: ["standing_order_id"]
+            isOneToOne: false
+            referencedRelation: "standing_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "standing_order_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "standing_order_items_pack_id_fkey"
+            columns: ["pack_id"]
+            isOneToOne: false
+            referencedRelation: "product_packs"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      standing_orders: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          weekdays: number[]
+          delivery_address: string | null
+          delivery_slot_id: string | null
+          notes: string | null
+          starts_on: string
+          ends_on: string | null
+          is_active: boolean
+          last_error: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          weekdays: number[]
+          delivery_address?: string | null
+          delivery_slot_id?: string | null
+          notes?: string | null
+          starts_on?: string
+          ends_on?: string | null
+          is_active?: boolean
+          last_error?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          weekdays?: number[]
+          delivery_address?: string | null
+          delivery_slot_id?: string | null
+          notes?: string | null
+          starts_on?: string
+          ends_on?: string | null
+          is_active?: boolean
+          last_error?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "standing_orders_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "standing_orders_delivery_slot_id_fkey"
+            columns: ["delivery_slot_id"]
+            isOneToOne: false
+            referencedRelation: "delivery_slots"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      stock_lots: {
+        Row: {
+          id: string
+          product_id: string
+          lot_number: string
+          supplier_name: string | null
+          harvest_date: string | null
+          expiry_date: string | null
+          received_quantity: number
+          remaining_quantity: number
+          notes: string | null
+          received_at: string
+          created_by: string | null
+          created_at: string | null
+          supplier_id: string | null
+          purchase_order_id: string | null
+        }
+        Insert: {
+          id?: string
+          product_id: string
+          lot_number: string
+          supplier_name?: string | null
+          harvest_date?: string | null
+          expiry_date?: string | null
+          received_quantity: number
+          remaining_quantity: number
+          notes?: string | null
+          received_at?: string
+          created_by?: string | null
+          created_at?: string | null
+          supplier_id?: string | null
+          purchase_order_id?: string | null
+        }
+        Update: {
+          id?: string
+          product_id?: string
+          lot_number?: string
+          supplier_name?: string | null
+          harvest_date?: string | null
+          expiry_date?: string | null
+          received_quantity?: number
+          remaining_quantity?: number
+          notes?: string | null
+          received_at?: string
+          created_by?: string | null
+          created_at?: string | null
+          supplier_id?: string | null
+          purchase_order_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_lots_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_lots_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_lots_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_lots_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      stock_movements: {
+        Row: {
+          id: string
+          product_id: string
+          order_id: string | null
+          reason: string
+          quantity_delta: number
+          reserved_delta: number
+          stock_after: number
+          reserved_after: number
+          notes: string | null
+          created_by: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          product_id: string
+          order_id?: string | null
+          reason: string
+          quantity_delta?: number
+          reserved_delta?: number
+          stock_after: number
+          reserved_after?: number
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          product_id?: string
+          order_id?: string | null
+          reason?: string
+          quantity_delta?: number
+          reserved_delta?: number
+          stock_after?: number
+          reserved_after?: number
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movements_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      suppliers: {
+        Row: {
+          id: string
+          name: string
+          contact_name: string | null
+          email: string | null
+          phone: string | null
+          address: string | null
+          notes: string | null
+          is_active: boolean
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          name: string
+          contact_name?: string | null
+          email?: string | null
+          phone?: string | null
+          address?: string | null
+          notes?: string | null
+          is_active?: boolean
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          name?: string
+          contact_name?: string | null
+          email?: string | null
+          phone?: string | null
+          address?: string | null
+          notes?: string | null
+          is_active?: boolean
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      users: {
+        Row: {
+          id: string
+          email: string
+          name: string | null
+          phone: string | null
+          address: string | null
+          city: string | null
+          zip_code: string | null
+          business_name: string | null
+          notes: string | null
+          role: string
+          status: string
+          assigned_route: string | null
+          profile_image: string | null
+          newsletter_subscribed: boolean | null
+          notifications: Json | null
+          created_at: string | null
+          updated_at: string | null
+          customer_group_id: string | null
+          min_order_value: number | null
+          substitution_preference: string
+        }
+        Insert: {
+          id: string
+          email: string
+          name?: string | null
+          phone?: string | null
+          address?: string | null
+          city?: string | null
+          zip_code?: string | null
+          business_name?: string | null
+          notes?: string | null
+          role?: string
+          status?: string
+          assigned_route?: string | null
+          profile_image?: string | null
+          newsletter_subscribed?: boolean | null
+          notifications?: Json | null
+          created_at?: string | null
+          updated_at?: string | null
+          customer_group_id?: string | null
+          min_order_value?: number | null
+          substitution_preference?: string
+        }
+        Update: {
+          id?: string
+          email?: string
+          name?: string | null
+          phone?: string | null
+          address?: string | null
+          city?: string | null
+          zip_code?: string | null
+          business_name?: string | null
+          notes?: string | null
+          role?: string
+          status?: string
+          assigned_route?: string | null
+          profile_image?: string | null
+          newsletter_subscribed?: boolean | null
+          notifications?: Json | null
+          created_at?: string | null
+          updated_at?: string | null
+          customer_group_id?: string | null
+          min_order_value?: number | null
+          substitution_preference?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "users_customer_group_id_fkey"
+            columns: ["customer_group_id"]
+            isOneToOne: false
+            referencedRelation: "customer_groups"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      adjust_product_stock: {
+        Args: {
+          p_product_id: string
+          p_delta: number
+          p_reason?: string
+          p_notes?: string | null
+        }
+        Returns: Database["public"]["Tables"]["products"]["Row"]
+      }
+      adjust_stock_lot: {
+        Args: {
+          p_lot_id: string
+          p_delta: number
+          p_reason?: string
+          p_notes?: string | null
+        }
+        Returns: Database["public"]["Tables"]["stock_lots"]["Row"]
+      }
+      allocate_order_item_lots: {
+        Args: {
+          p_order_item_id: string
+        }
+        Returns: undefined
+      }
+      business_role: {
+        Args: {
+          p_business_id: string
+        }
+        Returns: string
+      }
+      change_order_status: {
+        Args: {
+          p_order_id: string
+          p_status: string
+          p_reason?: string | null
+        }
+        Returns: Database["public"]["Tables"]["orders"]["Row"]
+      }
+      commit_order_stock: {
+        Args: {
+          p_order_id: string
+        }
+        Returns: boolean
+      }
+      company_now: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      count_orders_by_status: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          status: string
+          count: number
+        }[]
+      }
+      create_numbered_invoice: {
+        Args: {
+          p_user_id: string
+          p_folder: string
+          p_bucket?: string
+          p_order_id?: string | null
+          p_notes?: string | null
+          p_status?: string
+          p_subtotal?: number | null
+          p_vat_amount?: number | null
+          p_total_amount?: number | null
+          p_currency?: string | null
+          p_credit_note_for?: string | null
+        }
+        Returns: Database["public"]["Tables"]["invoices"]["Row"]
+      }
+      delivery_holiday_on: {
+        Args: {
+          p_date: string
+        }
+        Returns: Database["public"]["Tables"]["delivery_holidays"]["Row"]
+      }
+      generate_purchase_orders: {
+        Args: {
+          p_start_date: string
+          p_end_date: string
+          p_expected_date?: string | null
+        }
+        Returns: Json
+      }
+      get_customer_prices: {
+        Args: {
+          p_product_ids?: string[] | null
+          p_user_id?: string | null
+        }
+        Returns: {
+          product_id: string
+          price: number
+          base_price: number
+          price_list_id: string | null
+        }[]
+      }
+      get_delivery_options: {
+        Args: {
+          p_order_time?: string | null
+          p_zone_id?: string | null
+        }
+        Returns: {
+          delivery_date: string
+          slot_id: string | null
+          start_time: string | null
+          end_time: string | null
+          capacity: number | null
+          booked: number
+        }[]
+      }
+      get_lot_recipients: {
+        Args: {
+          p_lot_id: string
+        }
+        Returns: {
+          order_id: string
+          order_date: string
+          delivery_date: string | null
+          status: string
+          customer_id: string | null
+          customer_name: string | null
+          customer_email: string | null
+          customer_phone: string | null
+          delivery_address: string | null
+          quantity: number
+        }[]
+      }
+      get_product_lots: {
+        Args: {
+          p_product_id: string
+          p_include_empty?: boolean
+        }
+        Returns: {
+          id: string
+          lot_number: string
+          supplier_name: string | null
+          harvest_date: string | null
+          expiry_date: string | null
+          received_quantity: number
+          remaining_quantity: number
+          allocated_quantity: number
+          received_at: string
+          notes: string | null
+        }[]
+      }
+      get_product_order_summary: {
+        Args: {
+          start_date: string
+          end_date: string
+        }
+        Returns: {
+          id: string
+          name_en: string
+          unit: string
+          sku: string
+          total_quantity: number
+          packs: Json
+        }[]
+      }
+      get_top_selling_products: {
+        Args: {
+          limit_count?: number
+        }
+        Returns: {
+          product_id: string
+          product_name: string
+          total_quantity: number
+        }[]
+      }
+      is_valid_timezone: {
+        Args: {
+          p_timezone: string
+        }
+        Returns: boolean
+      }
+      issue_complaint_credit_note: {
+        Args: {
+          p_complaint_id: string
+          p_bucket?: string
+          p_subtotal?: number | null
+          p_vat_amount?: number | null
+          p_total_amount?: number | null
+          p_currency?: string | null
+        }
+        Returns: Database["public"]["Tables"]["invoices"]["Row"]
+      }
+      lock_order_for_picking: {
+        Args: {
+          p_order_id: string
+        }
+        Returns: Database["public"]["Tables"]["orders"]["Row"]
+      }
+      lot_allocated_quantity: {
+        Args: {
+          p_lot_id: string
+        }
+        Returns: number
+      }
+      next_delivery_date: {
+        Args: {
+          p_order_time: string
+          p_cutoff_time?: string
+          p_delivery_days?: number[]
+        }
+        Returns: string
+      }
+      open_complaint: {
+        Args: {
+          p_order_id: string
+          p_items: Json
+          p_description?: string | null
+          p_photo_paths?: string[]
+        }
+        Returns: Database["public"]["Tables"]["complaints"]["Row"]
+      }
+      order_edit_deadline: {
+        Args: {
+          p_order_id: string
+        }
+        Returns: string
+      }
+      order_item_delivered_line_quantity: {
+        Args: {
+          p_item: Database["public"]["Tables"]["order_items"]["Row"]
+        }
+        Returns: number
+      }
+      order_item_delivered_quantity: {
+        Args: {
+          p_item: Database["public"]["Tables"]["order_items"]["Row"]
+        }
+        Returns: number
+      }
+      order_item_total: {
+        Args: {
+          p_item: Database["public"]["Tables"]["order_items"]["Row"]
+        }
+        Returns: number
+      }
+      order_needs_approval: {
+        Args: {
+          p_user_id: string
+          p_total: number
+        }
+        Returns: boolean
+      }
+      place_order: {
+        Args: {
+          p_items: Json
+          p_user_id?: string | null
+          p_delivery_address?: string | null
+          p_notes?: string | null
+          p_status?: string
+          p_payment_status?: string
+          p_delivery_date?: string | null
+          p_delivery_slot_id?: string | null
+          p_delivery_postcode?: string | null
+          p_delivery_latitude?: number | null
+          p_delivery_longitude?: number | null
+          p_standing_order_id?: string | null
+        }
+        Returns: Json
+      }
+      postcode_in_ranges: {
+        Args: {
+          p_postcode: string
+          p_ranges: string[]
+        }
+        Returns: boolean
+      }
+      receive_purchase_order: {
+        Args: {
+          p_purchase_order_id: string
+          p_items?: Json
+        }
+        Returns: Database["public"]["Tables"]["purchase_orders"]["Row"]
+      }
+      receive_stock_lot: {
+        Args: {
+          p_product_id: string
+          p_lot_number: string
+          p_quantity: number
+          p_supplier_name?: string | null
+          p_harvest_date?: string | null
+          p_expiry_date?: string | null
+          p_notes?: string | null
+        }
+        Returns: Database["public"]["Tables"]["stock_lots"]["Row"]
+      }
+      record_actual_quantity: {
+        Args: {
+          p_order_item_id: string
+          p_actual_quantity: number | null
+        }
+        Returns: number
+      }
+      record_fulfilled_quantity: {
+        Args: {
+          p_order_item_id: string
+          p_fulfilled_quantity: number | null
+        }
+        Returns: number
+      }
+      release_order_stock: {
+        Args: {
+          p_order_id: string
+        }
+        Returns: boolean
+      }
+      resolve_complaint: {
+        Args: {
+          p_complaint_id: string
+          p_approve: boolean
+          p_stock_actions?: Json
+          p_notes?: string | null
+        }
+        Returns: Database["public"]["Tables"]["complaints"]["Row"]
+      }
+      resolve_customer_prices: {
+        Args: {
+          p_user_id: string
+          p_on?: string
+        }
+        Returns: {
+          product_id: string
+          price: number
+          price_list_id: string
+        }[]
+      }
+      resolve_delivery_zone: {
+        Args: {
+          p_postcode: string | null
+          p_latitude?: number | null
+          p_longitude?: number | null
+        }
+        Returns: Database["public"]["Tables"]["delivery_zones"]["Row"]
+      }
+      resolve_line_price: {
+        Args: {
+          p_user_id: string
+          p_product_id: string
+          p_pack_id: string
+          p_quantity: number
+        }
+        Returns: {
+          price: number
+          price_list_id: string
+        }[]
+      }
+      resolve_minimum_order: {
+        Args: {
+          p_user_id: string
+          p_zone_id: string
+        }
+        Returns: {
+          minimum: number
+          source: string
+          zone_name: string
+        }[]
+      }
+      resolve_unit_price: {
+        Args: {
+          p_user_id: string
+          p_product_id: string
+          p_quantity: number
+        }
+        Returns: {
+          price: number
+          price_list_id: string
+        }[]
+      }
+      respond_to_substitution: {
+        Args: {
+          p_order_item_id: string
+          p_accept: boolean
+        }
+        Returns: number
+      }
+      retotal_order: {
+        Args: {
+          p_order_id: string
+        }
+        Returns: number
+      }
+      set_product_packs: {
+        Args: {
+          p_product_id: string
+          p_packs: Json
+        }
+        Returns: Database["public"]["Tables"]["product_packs"]["Row"][]
+      }
+      set_product_price_tiers: {
+        Args: {
+          p_product_id: string
+          p_tiers: Json
+        }
+        Returns: Database["public"]["Tables"]["product_price_tiers"]["Row"][]
+      }
+      set_shopping_list_items: {
+        Args: {
+          p_shopping_list_id: string
+          p_items: Json
+        }
+        Returns: Database["public"]["Tables"]["shopping_list_items"]["Row"][]
+      }
+      substitute_order_item: {
+        Args: {
+          p_order_item_id: string
+          p_product_id: string
+          p_pack_id: string | null
+          p_quantity: number
+        }
+        Returns: Database["public"]["Tables"]["order_items"]["Row"]
+      }
+      update_order_items: {
+        Args: {
+          p_order_id: string
+          p_items: Json
+          p_reason?: string | null
+        }
+        Returns: Json
+      }
+      user_business_id: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: string
+      }
+      zone_boundary_contains: {
+        Args: {
+          p_boundary: Json
+          p_latitude: number
+          p_longitude: number
+        }
+        Returns: boolean
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { format } from 'date-fns';
+import { DeliverySchedule, getCompanyTime, getNextDeliveryDate, getOrderWindow } from './delivery-date';
+
+// Europe/Berlin springs forward on 2024-03-31 (02:00 becomes 03:00) and falls back on
+// 2024-10-27 (03:00 becomes 02:00 again). The tests run on a New York clock (vitest.config.ts).
+const schedule: DeliverySchedule = {
+  cutoffTime: '18:00',
+  deliveryDays: [1, 2, 3, 4, 5, 6], // Monday to Saturday
+  timeZone: 'Europe/Berlin'
+};
+
+const day = (date: Date) => format(date, 'yyyy-MM-dd');
+
+describe('getCompanyTime', () => {
+  it('reads the time on the company clock', () => {
+    expect(getCompanyTime('2024-06-10', '18:00', 'Europe/Berlin').toISOString()).toBe('2024-06-10T16:00:00.000Z');
+    expect(getCompanyTime('2024-01-10', '18:00', 'Europe/Berlin').toISOString()).toBe('2024-01-10T17:00:00.000Z');
+  });
+
+  it('moves a time skipped by the spring change forward by the change', () => {
+    expect(getCompanyTime('2024-03-31', '02:30', 'Europe/Berlin').toISOString()).toBe('2024-03-31T01:30:00.000Z');
+  });
+
+  it('resolves a time repeated by the autumn change to its later occurrence', () => {
+    expect(getCompanyTime('2024-10-27', '02:30', 'Europe/Berlin').toISOString()).toBe('2024-10-27T01:30:00.000Z');
+  });
+
+  it('uses the offset in force on either side of a change', () => {
+    expect(getCompanyTime('2024-03-31', '01:59', 'Europe/Berlin').toISOString()).toBe('2024-03-31T00:59:00.000Z');
+    expect(getCompanyTime('2024-03-31', '18:00', 'Europe/Berlin').toISOString()).toBe('2024-03-31T16:00:00.000Z');
+    expect(getCompanyTime('2024-10-27', '18:00', 'Europe/Berlin').toISOString()).toBe('2024-10-27T17:00:00.000Z');
+  });
+});
+
+describe('getNextDeliveryDate', () => {
+  it('delivers the next day when ordered exactly at the cutoff', () => {
+    const orderTime = getCompanyTime('2024-06-10', '18:00', schedule.timeZone); // Monday
+    expect(day(getNextDeliveryDate(orderTime, schedule))).toBe('2024-06-11');
+  });
+
+  it('delivers the day after when ordered one minute after the cutoff', () => {
+    const orderTime = getCompanyTime('2024-06-10', '18:01', schedule.timeZone);
+    expect(day(getNextDeliveryDate(orderTime, schedule))).toBe('2024-06-12');
+  });
+
+  it('treats one millisecond after the cutoff as after it', () => {
+    const cutoff = getCompanyTime('2024-06-10', '18:00', schedule.timeZone);
+    expect(day(getNextDeliveryDate(new Date(cutoff.getTime() + 1), schedule))).toBe('2024-06-12');
+  });
+
+  it('rolls forward past days without deliveries', () => {
+    const saturday = getCompanyTime('2024-06-15', '12:00', schedule.timeZone);
+    expect(day(getNextDeliveryDate(saturday, schedule))).toBe('2024-06-17');
+  });
+
+  it('reads the order time on the company clock, not the browser clock', () => {
+    // 17:00 on Monday in New York is 23:00 in Berlin: after the company's cutoff
+    const orderTime = new Date('2024-06-10T21:00:00Z');
+    expect(orderTime.getHours()).toBe(17);
+    expect(day(getNextDeliveryDate(orderTime, schedule))).toBe('2024-06-12');
+
+    // 20:00 on Monday in New York is already Tuesday 02:00 in Berlin, before the cutoff
+    expect(day(getNextDeliveryDate(new Date('2024-06-11T00:00:00Z'), schedule))).toBe('2024-06-12');
+  });
+
+  it('keeps the cutoff on the day the clocks spring forward', () => {
+    const cutoff = getCompanyTime('2024-03-31', '18:00', schedule.timeZone); // Sunday
+    expect(day(getNextDeliveryDate(cutoff, schedule))).toBe('2024-04-01');
+    expect(day(getNextDeliveryDate(new Date(cutoff.getTime() + 60 * 1000), schedule))).toBe('2024-04-02');
+  });
+
+  it('handles a cutoff inside the skipped hour', () => {
+    const night: DeliverySchedule = { ...schedule, cutoffTime: '02:30', deliveryDays: [0, 1, 2, 3, 4, 5, 6] };
+    // 01:59 is the last minute before the change, 03:00 the first after it
+    expect(day(getNextDeliveryDate(new Date('2024-03-31T00:59:00Z'), night))).toBe('2024-04-01');
+    expect(day(getNextDeliveryDate(new Date('2024-03-31T01:00:00Z'), night))).toBe('2024-04-02');
+  });
+
+  it('handles a cutoff inside the repeated hour', () => {
+    const night: DeliverySchedule = { ...schedule, cutoffTime: '02:30', deliveryDays: [0, 1, 2, 3, 4, 5, 6] };
+    // 02:45 occurs twice; both are after the cutoff, 02:15 of the second pass is before it
+    expect(day(getNextDeliveryDate(new Date('2024-10-27T00:45:00Z'), night))).toBe('2024-10-29');
+    expect(day(getNextDeliveryDate(new Date('2024-10-27T01:45:00Z'), night))).toBe('2024-10-29');
+    expect(day(getNextDeliveryDate(new Date('2024-10-27T01:15:00Z'), night))).toBe('2024-10-28');
+  });
+});
+
+describe('getOrderWindow', () => {
+  it('spans the cutoff of the day before the previous delivery day up to the cutoff the day before', () => {
+    const now = getCompanyTime('2024-06-11', '10:00', schedule.timeZone); // Tuesday
+    const window = getOrderWindow('tomorrow', schedule, now);
+    expect(window?.from.toISOString()).toBe('2024-06-10T16:00:00.001Z');
+    expect(window?.to.toISOString()).toBe('2024-06-11T16:00:00.000Z');
+  });
+
+  it('reaches back over days without deliveries', () => {
+    const now = getCompanyTime('2024-06-16', '10:00', schedule.timeZone); // Sunday, Monday's window
+    const window = getOrderWindow('tomorrow', schedule, now);
+    expect(window?.from.toISOString()).toBe('2024-06-14T16:00:00.001Z');
+    expect(window?.to.toISOString()).toBe('2024-06-16T16:00:00.000Z');
+  });
+
+  it('is null on days without deliveries', () => {
+    const sunday = getCompanyTime('2024-06-16', '10:00', schedule.timeZone);
+    expect(getOrderWindow('today', schedule, sunday)).toBeNull();
+  });
+
+  it('uses the offset of each end across the spring change', () => {
+    const now = getCompanyTime('2024-03-31', '12:00', schedule.timeZone); // Monday's window
+    const window = getOrderWindow('tomorrow', schedule, now);
+    expect(window?.from.toISOString()).toBe('2024-03-29T17:00:00.001Z');
+    expect(window?.to.toISOString()).toBe('2024-03-31T16:00:00.000Z');
+  });
+
+  it('uses the offset of each end across the autumn change', () => {
+    const now = getCompanyTime('2024-10-27', '12:00', schedule.timeZone); // Monday's window
+    const window = getOrderWindow('tomorrow', schedule, now);
+    expect(window?.from.toISOString()).toBe('2024-10-25T16:00:00.001Z');
+    expect(window?.to.toISOString()).toBe('2024-10-27T17:00:00.000Z');
+  });
+
+  it('holds exactly the orders delivered that day', () => {
+    const now = getCompanyTime('2024-03-31', '12:00', schedule.timeZone);
+    const window = getOrderWindow('tomorrow', schedule, now)!;
+    const justBefore = new Date(window.from.getTime() - 1);
+    const justAfter = new Date(window.to.getTime() + 1);
+
+    expect(day(getNextDeliveryDate(justBefore, schedule))).toBe('2024-03-30');
+    expect(day(getNextDeliveryDate(window.from, schedule))).toBe('2024-04-01');
+    expect(day(getNextDeliveryDate(window.to, schedule))).toBe('2024-04-01');
+    expect(day(getNextDeliveryDate(justAfter, schedule))).toBe('2024-04-02');
+  });
+
+  it('takes today on the company clock', () => {
+    // Monday 20:00 in New York is Tuesday in Berlin, so today's deliveries are Tuesday's
+    const now = new Date('2024-06-11T00:00:00Z');
+    const window = getOrderWindow('today', schedule, now);
+    expect(window?.to.toISOString()).toBe('2024-06-10T16:00:00.000Z');
+  });
+});
@@ -0,0 +1,272 @@
+import { format } from 'date-fns';
+import { HolidayCalendar, findDeliveryHoliday } from './holiday-api';
+import { DeliveryZoneLookup, findDeliveryZone } from './delivery-zone-api';
+import type { AppSettings } from './settings-api';
+
+/**
+ * The one place delivery dates are computed, mirroring next_delivery_date() in the database.
+ *
+ * Cutoff times are wall-clock times of the company, so an order's time is read in the company
+ * timezone (settings.timezone), never the browser's. Calendar days are handled as "yyyy-MM-dd"
+ * strings so daylight saving changes cannot shift them; dates handed back to callers are local
+ * midnight of that day, ready for date-fns format().
+ */
+
+export const DEFAULT_CUTOFF_TIME = '18:00';
+export const DEFAULT_DELIVERY_DAYS = [1, 2, 3, 4, 5, 6]; // Monday to Saturday
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+// A long closure (e.g. over the new year) can block several weeks
+const MAX_DAYS_TO_CHECK = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The delivery rules an order is scheduled by: the company's, or those of its delivery zone
+export interface DeliverySchedule {
+  cutoffTime: string; // "HH:MM" in timeZone
+  deliveryDays: number[]; // 0=Sunday ... 6=Saturday
+  timeZone: string; // IANA name, e.g. "Europe/Berlin"
+  holidays?: HolidayCalendar;
+}
+
+// A point in time as read on the company's clock
+interface WallClock {
+  day: string; // yyyy-MM-dd
+  ms: number; // Milliseconds since midnight
+}
+
+const formatters: { [timeZone: string]: Intl.DateTimeFormat } = {};
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  if (!formatters[timeZone]) {
+    formatters[timeZone] = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+  }
+  return formatters[timeZone];
+}
+
+function getWallClock(instant: Date, timeZone: string): WallClock {
+  const parts: { [type: string]: number } = {};
+  getFormatter(timeZone).formatToParts(instant).forEach(part => {
+    parts[part.type] = Number(part.value);
+  });
+
+  const millis = ((instant.getTime() % 1000) + 1000) % 1000;
+  return {
+    day: [
+      String(parts.year).padStart(4, '0'),
+      String(parts.month).padStart(2, '0'),
+      String(parts.day).padStart(2, '0')
+    ].join('-'),
+    ms: (((parts.hour % 24) * 60 + parts.minute) * 60 + parts.second) * 1000 + millis
+  };
+}
+
+// Milliseconds the time zone is ahead of UTC at an instant
+function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const wall = getWallClock(instant, timeZone);
+  return dayToUTC(wall.day) + wall.ms - instant.getTime();
+}
+
+function dayToUTC(day: string): number {
+  const [year, month, date] = day.split('-').map(Number);
+  return Date.UTC(year, month - 1, date);
+}
+
+/**
+ * Whether a timezone name is known to the browser
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The delivery schedule configured in the settings, with defaults for anything unset
+ * @param holidays Holiday calendar; its dates are skipped like non-delivery days
+ */
+export function getDeliverySchedule(settings?: AppSettings | null, holidays?: HolidayCalendar): DeliverySchedule {
+  const timeZone = settings?.timezone;
+  return {
+    cutoffTime: settings?.order_cutoff_time || DEFAULT_CUTOFF_TIME,
+    deliveryDays: settings?.delivery_days || DEFAULT_DELIVERY_DAYS,
+    timeZone: timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE,
+    holidays
+  };
+}
+
+/**
+ * The schedule that applies to a delivery address: its zone's cutoff and (non-empty) delivery
+ * days replace the company's, as in get_delivery_options()
+ */
+export function resolveDeliverySchedule(schedule: DeliverySchedule, zoneLookup?: DeliveryZoneLookup): DeliverySchedule {
+  const zone = zoneLookup && findDeliveryZone(zoneLookup.zones, zoneLookup.location);
+  if (!zone) return schedule;
+
+  return {
+    ...schedule,
+    cutoffTime: zone.order_cutoff_time || schedule.cutoffTime,
+    deliveryDays: zone.delivery_days?.length ? zone.delivery_days : schedule.deliveryDays
+  };
+}
+
+/**
+ * A cutoff time as "HH:MM"; the database may hand it back with seconds
+ */
+export function normalizeCutoffTime(cutoffTime?: string): string {
+  const [hours, minutes] = (cutoffTime || DEFAULT_CUTOFF_TIME).split(':').map(Number);
+  if (isNaN(hours) || isNaN(minutes)) return DEFAULT_CUTOFF_TIME;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+function timeToMs(time: string): number {
+  const [hours, minutes] = normalizeCutoffTime(time).split(':').map(Number);
+  return (hours * 60 + minutes) * 60 * 1000;
+}
+
+/**
+ * Move a "yyyy-MM-dd" calendar day by a number of days
+ */
+export function addCalendarDays(day: string, days: number): string {
+  return new Date(dayToUTC(day) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function toCalendarDate(day: string): Date {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date);
+}
+
+function isDeliveryDay(day: string, schedule: DeliverySchedule): boolean {
+  const weekday = new Date(dayToUTC(day)).getUTCDay();
+  return schedule.deliveryDays.includes(weekday) && !findDeliveryHoliday(toCalendarDate(day), schedule.holidays);
+}
+
+function nextDeliveryDay(day: string, schedule: DeliverySchedule): string {
+  let checked = 0;
+  while (!isDeliveryDay(day, schedule) && checked < MAX_DAYS_TO_CHECK) {
+    day = addCalendarDays(day, 1);
+    checked++;
+  }
+  return day;
+}
+
+/**
+ * The instant a wall-clock time occurs on a day in a timezone. A time skipped by a daylight
+ * saving change moves forward by the change (02:30 becomes 03:30); a time that occurs twice
+ * resolves to the later occurrence.
+ */
+function zonedTimeToDate(day: string, ms: number, timeZone: string): Date {
+  const local = dayToUTC(day) + ms;
+  const offset = getTimeZoneOffset(new Date(local), timeZone);
+  const corrected = getTimeZoneOffset(new Date(local - offset), timeZone);
+  return new Date(local - corrected);
+}
+
+/**
+ * Whether deliveries go out on a calendar day (local date)
+ */
+export function isDeliveryDate(date: Date, schedule: DeliverySchedule): boolean {
+  return isDeliveryDay(format(date, 'yyyy-MM-dd'), schedule);
+}
+
+/**
+ * Delivery date of an order, mirroring next_delivery_date() in the database: the next day when
+ * placed at or before the cutoff, the day after otherwise, then on to the next delivery day that
+ * is not a holiday
+ * @param zoneLookup Delivery zones and the chosen address; the zone's schedule applies
+ * @returns Local midnight of the delivery day
+ */
+export function getNextDeliveryDate(
+  orderTime: Date,
+  schedule: DeliverySchedule,
+  zoneLookup?: DeliveryZoneLookup
+): Date {
+  schedule = resolveDeliverySchedule(schedule, zoneLookup);
+
+  const wall = getWallClock(orderTime, schedule.timeZone);
+  const daysAhead = wall.ms <= timeToMs(schedule.cutoffTime) ? 1 : 2;
+
+  return toCalendarDate(nextDeliveryDay(addCalendarDays(wall.day, daysAhead), schedule));
+}
+
+/**
+ * When the orders delivered today or tomorrow were placed: after the cutoff on the day before the
+ * previous delivery day (orders after it skip past that delivery) up to the cutoff the day before
+ * @returns The window, or null when no deliveries go out that day
+ */
+export function getOrderWindow(
+  type: 'today' | 'tomorrow',
+  schedule: DeliverySchedule,
+  now: Date = new Date()
+): { from: Date; to: Date } | null {
+  const today = getWallClock(now, schedule.timeZone).day;
+  const deliveryDay = type === 'today' ? today : addCalendarDays(today, 1);
+  if (!isDeliveryDay(deliveryDay, schedule)) return null;
+
+  let previousDay = addCalendarDays(deliveryDay, -1);
+  let checked = 0;
+  while (!isDeliveryDay(previousDay, schedule) && checked < MAX_DAYS_TO_CHECK) {
+    previousDay = addCalendarDays(previousDay, -1);
+    checked++;
+  }
+
+  const cutoff = timeToMs(schedule.cutoffTime);
+  return {
+    from: new Date(zonedTimeToDate(addCalendarDays(previousDay, -1), cutoff, schedule.timeZone).getTime() + 1),
+    to: zonedTimeToDate(addCalendarDays(deliveryDay, -1), cutoff, schedule.timeZone)
+  };
+}
+
+/**
+ * The first day goods with a lead time can be delivered, mirroring place_order: the company's
+ * today plus the lead time
+ * @returns "yyyy-MM-dd" calendar day
+ */
+export function getEarliestDeliveryDay(leadTimeDays: number, timeZone: string, now: Date = new Date()): string {
+  return addCalendarDays(getWallClock(now, timeZone).day, leadTimeDays);
+}
+
+/**
+ * The instant at a time of day in the company timezone
+ * @param day "yyyy-MM-dd" calendar day
+ * @param time "HH:MM"
+ */
+export function getCompanyTime(day: string, time: string, timeZone: string): Date {
+  return zonedTimeToDate(day, timeToMs(time), timeZone);
+}
+
+/**
+ * An instant as a datetime-local input value ("yyyy-MM-ddTHH:MM") on the company clock
+ */
+export function toCompanyDateTimeInput(instant: Date, timeZone: string): string {
+  const wall = getWallClock(instant, timeZone);
+  const minutes = Math.floor(wall.ms / 60000);
+  return `${wall.day}T${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * The instant a datetime-local input value ("yyyy-MM-ddTHH:MM") means on the company clock
+ */
+export function fromCompanyDateTimeInput(value: string, timeZone: string): Date {
+  const [day, time] = value.split('T');
+  return getCompanyTime(day, time, timeZone);
+}
+
+/**
+ * The timezones the company can choose from
+ */
+export function getTimeZones(): string[] {
+  const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  return zones.includes(DEFAULT_TIME_ZONE) ? zones : [DEFAULT_TIME_ZONE, ...zones];
+}
@@ -0,0 +1,196 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { DeliverySlot } from './types';
+
+export type { DeliverySlot } from './types';
+
+export type CreateDeliverySlotData = Omit<DeliverySlot, 'id' | 'created_at' | 'updated_at'>;
+export type UpdateDeliverySlotData = Partial<CreateDeliverySlotData>;
+
+// One bookable time window on a delivery date; slot_id is unset when no slots are configured
+export interface DeliverySlotOption {
+  slot_id?: string;
+  start_time?: string;
+  end_time?: string;
+  capacity?: number;
+  booked: number;
+  is_full: boolean;
+}
+
+// A date the customer can choose at checkout, with its time windows
+export interface DeliveryDateOption {
+  date: string; // yyyy-MM-dd
+  slots: DeliverySlotOption[];
+  is_full: boolean; // No window has room left
+}
+
+// What the customer picked at checkout; sent to place_order with the order
+export interface DeliveryChoice {
+  delivery_date: string;
+  delivery_slot_id?: string;
+}
+
+// A row returned by get_delivery_options(): one per date and slot
+interface DeliveryOptionRow {
+  delivery_date: string;
+  slot_id: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  capacity: number | null;
+  booked: number;
+}
+
+/**
+ * Fetch all delivery slots, by time of day
+ */
+export async function getDeliverySlots(): Promise<DeliverySlot[]> {
+  const { data, error } = await supabase
+    .from('delivery_slots')
+    .select('*')
+    .order('start_time', { ascending: true })
+    .order('end_time', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching delivery slots:', error);
+    throw error;
+  }
+
+  return data as DeliverySlot[];
+}
+
+/**
+ * Create a delivery slot
+ */
+export async function createDeliverySlot(slotData: CreateDeliverySlotData): Promise<DeliverySlot> {
+  const { data, error } = await supabase
+    .from('delivery_slots')
+    .insert([slotData])
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating delivery slot:', error);
+    throw error;
+  }
+
+  return data as DeliverySlot;
+}
+
+/**
+ * Update a delivery slot. Orders keep the window they were placed with.
+ */
+export async function updateDeliverySlot(id: string, slotData: UpdateDeliverySlotData): Promise<DeliverySlot> {
+  const { data, error } = await supabase
+    .from('delivery_slots')
+    .update(slotData)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error(`Error updating delivery slot ${id}:`, error);
+    throw error;
+  }
+
+  return data as DeliverySlot;
+}
+
+/**
+ * Delete a delivery slot. Orders booked in it keep their window.
+ */
+export async function deleteDeliverySlot(id: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('delivery_slots')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error(`Error deleting delivery slot ${id}:`, error);
+    throw error;
+  }
+
+  return true;
+}
+
+/**
+ * The delivery dates and time windows a customer can choose from for an order placed now.
+ * Cutoff, delivery days, holidays, the booking horizon and slot capacity are applied by the
+ * get_delivery_options database function, which place_order checks the choice against.
+ * @param zoneId Delivery zone of the chosen address, whose schedule applies
+ * @param client Supabase client to query with; scheduled jobs pass a service client
+ */
+export async function getDeliveryOptions(zoneId?: string, client: SupabaseClient = supabase): Promise<DeliveryDateOption[]> {
+  const { data, error } = await client.rpc('get_delivery_options', { p_zone_id: zoneId ?? null });
+
+  if (error) {
+    console.error('Error fetching delivery options:', error);
+    throw error;
+  }
+
+  const options: DeliveryDateOption[] = [];
+  ((data || []) as DeliveryOptionRow[]).forEach(row => {
+    let option = options[options.length - 1];
+    if (!option || option.date !== row.delivery_date) {
+      option = { date: row.delivery_date, slots: [], is_full: true };
+      options.push(option);
+    }
+
+    const isFull = row.capacity != null && row.booked >= row.capacity;
+    option.slots.push({
+      slot_id: row.slot_id ?? undefined,
+      start_time: row.start_time ?? undefined,
+      end_time: row.end_time ?? undefined,
+      capacity: row.capacity ?? undefined,
+      booked: row.booked,
+      is_full: isFull
+    });
+    option.is_full = option.is_full && isFull;
+  });
+
+  return options;
+}
+
+/**
+ * The earliest date and window that still has room, to preselect at checkout
+ * @param earliestDate "yyyy-MM-dd"; earlier dates are skipped, e.g. for products with a lead time
+ */
+export function getFirstOpenDeliveryChoice(options: DeliveryDateOption[], earliestDate?: string): DeliveryChoice | null {
+  for (const option of options) {
+    if (earliestDate && option.date < earliestDate) continue;
+
+    const slot = option.slots.find(s => !s.is_full);
+    if (slot) {
+      return { delivery_date: option.date, delivery_slot_id: slot.slot_id };
+    }
+  }
+  return null;
+}
+
+/**
+ * Format a delivery window as "08:00–12:00"
+ */
+export function formatDeliveryWindow(startTime?: string, endTime?: string): string {
+  if (!startTime || !endTime) return '';
+  return `${startTime.slice(0, 5)}–${endTime.slice(0, 5)}`;
+}
+
+/**
+ * Extract the rejected choice from an error raised by place_order when the chosen date or
+ * slot closed or filled up in the meantime
+ * @returns The choice, or null if the error is not a delivery slot error
+ */
+export function getUnavailableDeliveryChoice(error: any): DeliveryChoice | null {
+  if (error?.hint !== 'delivery_slot_unavailable' || !error.details) {
+    return null;
+  }
+
+  try {
+    const details = JSON.parse(error.details);
+    return {
+      delivery_date: details.delivery_date,
+      delivery_slot_id: details.slot_id ?? undefined
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,218 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { DeliveryZone, TablesUpdate } from './types';
+
+export type { DeliveryZone } from './types';
+
+export type CreateDeliveryZoneData = Omit<DeliveryZone, 'id' | 'created_at' | 'updated_at'>;
+export type UpdateDeliveryZoneData = Omit<TablesUpdate<'delivery_zones'>, 'id' | 'created_at' | 'updated_at'>;
+
+// Where an order goes: the postcode (User.zip_code) and/or the coordinates of the chosen address
+export interface DeliveryLocation {
+  postcode?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+// The zones to resolve a delivery location against
+export interface DeliveryZoneLookup {
+  zones: DeliveryZone[];
+  location: DeliveryLocation;
+}
+
+// The minimum order value that applies to an order, and whose it is
+export interface MinimumOrder {
+  minimum: number;
+  source: 'customer' | 'zone' | 'global';
+  zone_name?: string; // Set when the zone's minimum applies
+}
+
+// Raised by place_order when the goods are worth less than the minimum order value
+export interface MinimumOrderShortfall extends MinimumOrder {
+  total: number;
+}
+
+/**
+ * Fetch all delivery zones, in the order they are matched
+ * @param client Supabase client to query with; scheduled jobs pass a service client
+ */
+export async function getDeliveryZones(client: SupabaseClient = supabase): Promise<DeliveryZone[]> {
+  const { data, error } = await client
+    .from('delivery_zones')
+    .select('*')
+    .order('sort_order', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching delivery zones:', error);
+    throw error;
+  }
+
+  return data as DeliveryZone[];
+}
+
+/**
+ * Create a delivery zone
+ */
+export async function createDeliveryZone(zoneData: CreateDeliveryZoneData): Promise<DeliveryZone> {
+  const { data, error } = await supabase
+    .from('delivery_zones')
+    .insert([zoneData])
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating delivery zone:', error);
+    throw error;
+  }
+
+  return data as DeliveryZone;
+}
+
+/**
+ * Update a delivery zone. Orders already placed keep their date and fee.
+ */
+export async function updateDeliveryZone(id: string, zoneData: UpdateDeliveryZoneData): Promise<DeliveryZone> {
+  const { data, error } = await supabase
+    .from('delivery_zones')
+    .update(zoneData)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error(`Error updating delivery zone ${id}:`, error);
+    throw error;
+  }
+
+  return data as DeliveryZone;
+}
+
+/**
+ * Delete a delivery zone
+ */
+export async function deleteDeliveryZone(id: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('delivery_zones')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error(`Error deleting delivery zone ${id}:`, error);
+    throw error;
+  }
+
+  return true;
+}
+
+/**
+ * Whether a postcode lies in one of the ranges; mirrors postcode_in_ranges() in the database.
+ * Postcodes compare as text of the same length, so leading zeros are kept.
+ */
+export function isPostcodeInRanges(postcode: string | undefined, ranges: string[]): boolean {
+  const code = postcode?.trim();
+  if (!code) return false;
+
+  return ranges.some(range => {
+    const [low, high] = range.split('-').map(part => part.trim());
+    return code.length === low.length && code >= low && code <= (high || low);
+  });
+}
+
+/**
+ * Whether a zone boundary contains a location; mirrors zone_boundary_contains() in the database
+ */
+export function isInZoneBoundary(boundary: DeliveryZone['boundary'], latitude?: number, longitude?: number): boolean {
+  if (!boundary || boundary.length < 3 || latitude == null || longitude == null) return false;
+
+  // Ray casting: count the edges a ray from the point crosses
+  let inside = false;
+  for (let i = 0, j = boundary.length - 1; i < boundary.length; j = i++) {
+    const [latI, lngI] = boundary[i];
+    const [latJ, lngJ] = boundary[j];
+    if ((latI > latitude) !== (latJ > latitude)
+      && longitude < (lngJ - lngI) * (latitude - latI) / (latJ - latI) + lngI) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * The zone a delivery location belongs to: the first active zone whose postcode ranges or
+ * boundary contain it. Mirrors resolve_delivery_zone() in the database.
+ */
+export function findDeliveryZone(zones: DeliveryZone[], location: DeliveryLocation): DeliveryZone | undefined {
+  return zones
+    .filter(zone => zone.is_active)
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .find(zone =>
+      isPostcodeInRanges(location.postcode, zone.postcode_ranges)
+      || isInZoneBoundary(zone.boundary, location.latitude, location.longitude)
+    );
+}
+
+/**
+ * Parse postcode ranges entered as "10115-10999, 20095"
+ */
+export function parsePostcodeRanges(text: string): string[] {
+  return text
+    .split(/[,\n]/)
+    .map(range => range.replace(/\s+/g, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Parse a boundary entered as one "latitude, longitude" point per line
+ * @returns The points, or null if a line is not a coordinate pair
+ */
+export function parseZoneBoundary(text: string): [number, number][] | null {
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+  const points = lines.map(line => line.split(/[,;\s]+/).map(Number));
+
+  if (points.some(point => point.length !== 2 || point.some(isNaN))) {
+    return null;
+  }
+
+  return points as [number, number][];
+}
+
+/**
+ * The minimum order value of an order, mirroring place_order: the customer's own minimum
+ * replaces the others, otherwise the higher of the delivery zone's and the global one applies
+ */
+export function resolveMinimumOrder(
+  customerMinimum: number | null | undefined,
+  zone: Pick<DeliveryZone, 'name' | 'min_order_value'> | undefined,
+  globalMinimum = 0
+): MinimumOrder {
+  if (customerMinimum != null) {
+    return { minimum: customerMinimum, source: 'customer' };
+  }
+  if (zone && zone.min_order_value >= globalMinimum) {
+    return { minimum: zone.min_order_value, source: 'zone', zone_name: zone.name };
+  }
+  return { minimum: globalMinimum, source: 'global' };
+}
+
+/**
+ * Extract the shortfall from a minimum order value error raised by place_order
+ * @returns The shortfall, or null if the error is not a minimum order error
+ */
+export function getMinimumOrderShortfall(error: any): MinimumOrderShortfall | null {
+  if (error?.hint !== 'below_minimum_order' || !error.details) {
+    return null;
+  }
+
+  try {
+    const details = JSON.parse(error.details);
+    return {
+      minimum: Number(details.minimum),
+      source: details.source,
+      zone_name: details.zone_name ?? undefined,
+      total: Number(details.total)
+    };
+  } catch {
+    return null;
+  }
+}
@@ -2,8 +2,9 @@ import { supabase } from './supabase';
 import { User } from './types';
 
 export type Driver = User;
-export type CreateDriverData = Omit<User, 'id' | 'status'> & { license_number?: string; vehicle_type?: string; };
-export type UpdateDriverData = Partial<Omit<User, 'id'>> & { license_number?: string; vehicle_type?: string; };
+// The users row of a driver shares its id with their auth user
+export type CreateDriverData = Omit<User, 'status'>;
+export type UpdateDriverData = Partial<Omit<User, 'id'>>;
 
 /**
  * Get all drivers
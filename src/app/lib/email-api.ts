@@ -42,7 +42,7 @@ export async function sendInvoiceEmail(
         };
       }
       
-      order = data;
+      order = data as Order;
 
       // Get customer details if user_id is available
       if (order?.user_id) {
@@ -58,9 +58,9 @@ export async function sendInvoiceEmail(
           order.customer = {
             id: userData.id,
             email: userData.email,
-            name: userData.name,
-            phone: userData.phone,
-            address: userData.address
+            name: userData.name ?? undefined,
+            phone: userData.phone ?? undefined,
+            address: userData.address ?? undefined
           };
         }
       }
@@ -134,7 +134,7 @@ export async function sendDriverAssignmentEmail(
       .select(`
         *,
         items:order_items(*),
-        customer:user_id(id, email, name, phone)
+        customer:users!user_id(id, email, name, phone)
       `)
       .eq('id', orderId)
       .single();
@@ -241,7 +241,7 @@ export async function sendOrderCompletionEmails(
       .select(`
         *,
         items:order_items(*),
-        customer:user_id(id, email, name, phone)
+        customer:users!user_id(id, email, name, phone)
       `)
       .eq('id', orderId)
       .single();
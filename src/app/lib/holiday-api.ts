@@ -0,0 +1,176 @@
+import { format } from 'date-fns';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { DeliveryHoliday } from './types';
+
+export type { DeliveryHoliday } from './types';
+
+export type CreateDeliveryHolidayData = Omit<DeliveryHoliday, 'id' | 'created_at'>;
+
+// The holidays and blackout dates the delivery date calculators skip
+export interface HolidayCalendar {
+  holidays: DeliveryHoliday[];
+  country?: string | null; // settings.holiday_country; public holidays of other countries are ignored
+}
+
+// A delivery weekday that was passed over because of a holiday
+export interface SkippedDeliveryDate {
+  date: Date;
+  holiday: DeliveryHoliday;
+}
+
+/**
+ * Public holidays that fall on the same date every year, per country.
+ * Movable holidays (Easter, Lunar New Year, ...) have to be added as one-off dates.
+ */
+export const PUBLIC_HOLIDAY_PRESETS: Record<string, { date: string; name: string }[]> = {
+  DE: [
+    { date: '01-01', name: "New Year's Day" },
+    { date: '05-01', name: 'Labour Day' },
+    { date: '10-03', name: 'German Unity Day' },
+    { date: '12-25', name: 'Christmas Day' },
+    { date: '12-26', name: 'Second Day of Christmas' }
+  ],
+  VN: [
+    { date: '01-01', name: "New Year's Day" },
+    { date: '04-30', name: 'Reunification Day' },
+    { date: '05-01', name: 'International Labour Day' },
+    { date: '09-02', name: 'National Day' }
+  ],
+  US: [
+    { date: '01-01', name: "New Year's Day" },
+    { date: '06-19', name: 'Juneteenth' },
+    { date: '07-04', name: 'Independence Day' },
+    { date: '11-11', name: 'Veterans Day' },
+    { date: '12-25', name: 'Christmas Day' }
+  ]
+};
+
+// Recurring holidays are stored in a leap year so 29 February can be one
+const RECURRING_YEAR = 2000;
+
+/**
+ * Fetch the whole holiday calendar, by date
+ * @param client Supabase client to query with; scheduled jobs pass a service client
+ */
+export async function getDeliveryHolidays(client: SupabaseClient = supabase): Promise<DeliveryHoliday[]> {
+  const { data, error } = await client
+    .from('delivery_holidays')
+    .select('*')
+    .order('holiday_date', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching delivery holidays:', error);
+    throw error;
+  }
+
+  return data as DeliveryHoliday[];
+}
+
+/**
+ * Add a one-off blackout date or a recurring holiday
+ */
+export async function createDeliveryHoliday(holidayData: CreateDeliveryHolidayData): Promise<DeliveryHoliday> {
+  const { data, error } = await supabase
+    .from('delivery_holidays')
+    .insert([{
+      ...holidayData,
+      holiday_date: holidayData.is_recurring
+        ? `${RECURRING_YEAR}-${holidayData.holiday_date.slice(5)}`
+        : holidayData.holiday_date
+    }])
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating delivery holiday:', error);
+    throw error;
+  }
+
+  return data as DeliveryHoliday;
+}
+
+/**
+ * Remove a date from the holiday calendar
+ */
+export async function deleteDeliveryHoliday(id: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('delivery_holidays')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error(`Error deleting delivery holiday ${id}:`, error);
+    throw error;
+  }
+
+  return true;
+}
+
+/**
+ * Add the fixed-date public holidays of a country that are not in the calendar yet
+ * @returns The holidays that were added
+ */
+export async function addPublicHolidays(countryCode: string, existing: DeliveryHoliday[]): Promise<DeliveryHoliday[]> {
+  const missing = (PUBLIC_HOLIDAY_PRESETS[countryCode] || []).filter(preset => !existing.some(holiday =>
+    holiday.is_recurring && holiday.country_code === countryCode && holiday.holiday_date.slice(5) === preset.date
+  ));
+
+  if (missing.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('delivery_holidays')
+    .insert(missing.map(preset => ({
+      holiday_date: `${RECURRING_YEAR}-${preset.date}`,
+      name: preset.name,
+      is_recurring: true,
+      country_code: countryCode
+    })))
+    .select();
+
+  if (error) {
+    console.error(`Error adding public holidays of ${countryCode}:`, error);
+    throw error;
+  }
+
+  return data as DeliveryHoliday[];
+}
+
+/**
+ * The holiday that blocks deliveries on a date, if any; mirrors delivery_holiday_on() in the database.
+ * One-off dates win over recurring ones so the more specific name is shown.
+ */
+export function findDeliveryHoliday(date: Date, calendar?: HolidayCalendar): DeliveryHoliday | undefined {
+  if (!calendar) return undefined;
+
+  const day = format(date, 'yyyy-MM-dd');
+  const applies = (holiday: DeliveryHoliday) => !holiday.country_code || holiday.country_code === calendar.country;
+
+  return calendar.holidays.find(holiday => applies(holiday) && !holiday.is_recurring && holiday.holiday_date === day)
+    || calendar.holidays.find(holiday => applies(holiday) && holiday.is_recurring && holiday.holiday_date.slice(5) === day.slice(5));
+}
+
+/**
+ * The delivery weekdays from (inclusive) up to (exclusive) that holidays blocked,
+ * to explain to the customer why the delivery date is later than usual
+ */
+export function getSkippedDeliveryDates(
+  from: Date,
+  to: Date,
+  deliveryDays: number[],
+  calendar?: HolidayCalendar
+): SkippedDeliveryDate[] {
+  const skipped: SkippedDeliveryDate[] = [];
+  const date = new Date(from);
+  date.setHours(0, 0, 0, 0);
+
+  while (date < to) {
+    const holiday = deliveryDays.includes(date.getDay()) ? findDeliveryHoliday(date, calendar) : undefined;
+    if (holiday) {
+      skipped.push({ date: new Date(date), holiday });
+    }
+    date.setDate(date.getDate() + 1);
+  }
+
+  return skipped;
+}
@@ -3,7 +3,11 @@ import { supabase } from './supabase';
 export interface Invoice {
   id: string;
   user_id: string;
+  invoice_number?: string | null;
   path: string;
+  bucket?: string;
+  order_id?: string | null;
+  credit_note_for?: string | null; // Set on credit notes, the invoice they correct
   notes: string | null;
   status: 'pending' | 'paid' | 'cancelled';
   created_at: string;
@@ -68,7 +72,7 @@ export async function getInvoices(filters: InvoiceFilters = {}): Promise<Invoice
 
     // Apply search filter if searchTerm exists
     if (searchTerm) {
-      query = query.or(`user.name.ilike.%${searchTerm}%,user.email.ilike.%${searchTerm}%,notes.ilike.%${searchTerm}%`);
+      query = query.or(`user.name.ilike.%${searchTerm}%,user.email.ilike.%${searchTerm}%,notes.ilike.%${searchTerm}%,invoice_number.ilike.%${searchTerm}%`);
     }
 
     // Apply status filter
@@ -124,7 +128,7 @@ export async function getInvoices(filters: InvoiceFilters = {}): Promise<Invoice
     }));
 
     return {
-      invoices: invoicesWithUsers,
+      invoices: invoicesWithUsers as Invoice[],
       totalCount: count || 0,
       totalPages: Math.ceil((count || 0) / itemsPerPage)
     };
@@ -146,7 +150,7 @@ export async function getCustomers(): Promise<Customer[]> {
       .order('name');
 
     if (error) throw error;
-    return customers || [];
+    return (customers || []) as Customer[];
   } catch (error) {
     console.error('Error fetching customers:', error);
     throw new Error('Failed to fetch customers');
@@ -160,30 +164,44 @@ export async function createInvoice(invoiceData: CreateInvoiceData): Promise<Inv
   try {
     const { user_id, notes, status, file } = invoiceData;
 
-    // Upload file to storage
+    // Upload file to a temporary location first so a failed upload never consumes a number
     const fileExt = file.name.split('.').pop();
-    const fileName = `${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
-    const filePath = `products/${fileName}`;
+    const tempPath = `products/upload-${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
 
     const { error: uploadError } = await supabase.storage
       .from('products')
-      .upload(filePath, file);
+      .upload(tempPath, file);
 
     if (uploadError) throw uploadError;
 
-    // Create invoice record
+    // Allocate the next sequential invoice number and create the invoice record
     const { data: createdInvoice, error: dbError } = await supabase
-      .from('invoices')
-      .insert([{
-        user_id,
-        path: filePath,
-        notes,
-        status
-      }])
-      .select('*')
-      .single();
+      .rpc('create_numbered_invoice', {
+        p_user_id: user_id,
+        p_folder: 'products',
+        p_bucket: 'products',
+        p_notes: notes,
+        p_status: status
+      });
+
+    if (dbError) {
+      await supabase.storage.from('products').remove([tempPath]);
+      throw dbError;
+    }
 
-    if (dbError) throw dbError;
+    // Name the stored file after its invoice number
+    const { error: moveError } = await supabase.storage
+      .from('products')
+      .move(tempPath, createdInvoice.path);
+
+    if (moveError) {
+      console.error('Error renaming invoice file, keeping upload path:', moveError);
+      await supabase
+        .from('invoices')
+        .update({ path: tempPath })
+        .eq('id', createdInvoice.id);
+      createdInvoice.path = tempPath;
+    }
 
     // Fetch user data for the created invoice
     const { data: userData, error: userError } = await supabase
@@ -197,7 +215,7 @@ export async function createInvoice(invoiceData: CreateInvoiceData): Promise<Inv
     return {
       ...createdInvoice,
       user: userData || { name: 'Unknown User', email: 'unknown@example.com' }
-    };
+    } as Invoice;
   } catch (error) {
     console.error('Error creating invoice:', error);
     throw new Error('Failed to create invoice');
@@ -236,7 +254,7 @@ export async function updateInvoice(invoiceId: string, updateData: UpdateInvoice
     return {
       ...invoiceData,
       user: userData || { name: 'Unknown User', email: 'unknown@example.com' }
-    };
+    } as Invoice;
   } catch (error) {
     console.error('Error updating invoice:', error);
     throw new Error('Failed to update invoice');
@@ -251,7 +269,7 @@ export async function deleteInvoice(invoiceId: string): Promise<void> {
     // First get the invoice to get the file path
     const { data: invoice, error: getError } = await supabase
       .from('invoices')
-      .select('path')
+      .select('path, bucket')
       .eq('id', invoiceId)
       .single();
 
@@ -260,7 +278,7 @@ export async function deleteInvoice(invoiceId: string): Promise<void> {
     // Delete the file from storage
     if (invoice?.path) {
       const { error: storageError } = await supabase.storage
-        .from('products')
+        .from(invoice.bucket || 'products')
         .remove([invoice.path]);
 
       if (storageError) throw storageError;
@@ -282,10 +300,10 @@ export async function deleteInvoice(invoiceId: string): Promise<void> {
 /**
  * Download an invoice file
  */
-export async function downloadInvoice(path: string, fileName: string): Promise<void> {
+export async function downloadInvoice(path: string, fileName: string, bucket = 'products'): Promise<void> {
   try {
     const { data, error } = await supabase.storage
-      .from('products')
+      .from(bucket)
       .download(path);
 
     if (error) throw error;
@@ -331,7 +349,7 @@ export async function getInvoiceById(invoiceId: string): Promise<Invoice> {
     return {
       ...invoiceData,
       user: userData || { name: 'Unknown User', email: 'unknown@example.com' }
-    };
+    } as Invoice;
   } catch (error) {
     console.error('Error fetching invoice:', error);
     throw new Error('Failed to fetch invoice');
@@ -0,0 +1,38 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Server-side helpers of the API routes that build and store invoice and credit note PDFs
+ */
+
+export const INVOICE_BUCKET = 'invoices';
+const SIGNED_URL_TTL = 60 * 60; // 1 hour
+
+export async function createSignedUrl(supabase: SupabaseClient, bucket: string, path: string): Promise<string | null> {
+  const { data, error } = await supabase.storage
+    .from(bucket)
+    .createSignedUrl(path, SIGNED_URL_TTL);
+
+  if (error) {
+    console.error('Error creating signed invoice URL:', error);
+    return null;
+  }
+
+  return data.signedUrl;
+}
+
+// Download the company logo so it can be embedded in the PDF
+export async function fetchLogoDataUrl(logoUrl?: string | null): Promise<string | undefined> {
+  if (!logoUrl) return undefined;
+
+  try {
+    const response = await fetch(logoUrl);
+    if (!response.ok) return undefined;
+
+    const contentType = response.headers.get('content-type') || 'image/png';
+    const buffer = Buffer.from(await response.arrayBuffer());
+    return `data:${contentType};base64,${buffer.toString('base64')}`;
+  } catch (error) {
+    console.error('Error fetching logo for invoice:', error);
+    return undefined;
+  }
+}
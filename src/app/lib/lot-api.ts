@@ -0,0 +1,126 @@
+import { supabase } from './supabase';
+import { StockLot } from './types';
+import { StockMovementReason } from './product-api';
+
+export type { StockLot, OrderItemLot } from './types';
+
+// A lot as listed for a product, with what open orders are holding of it
+export type StockLotBalance = Omit<StockLot, 'product_id' | 'created_by' | 'created_at'> & {
+  allocated_quantity: number;
+};
+
+export type ReceiveLotData = Pick<StockLot, 'lot_number' | 'supplier_name' | 'harvest_date' | 'expiry_date' | 'notes'> & {
+  quantity: number;
+};
+
+// One order that took stock from a lot, for the recall report
+export interface LotRecipient {
+  order_id: string;
+  order_date: string;
+  delivery_date?: string;
+  status: string;
+  customer_id?: string;
+  customer_name?: string;
+  customer_email?: string;
+  customer_phone?: string;
+  delivery_address?: string;
+  quantity: number;
+}
+
+/**
+ * Book a goods receipt as a new lot; the quantity is added to the product's stock
+ */
+export async function receiveStockLot(productId: string, lotData: ReceiveLotData): Promise<StockLot> {
+  const { data, error } = await supabase
+    .rpc('receive_stock_lot', {
+      p_product_id: productId,
+      p_lot_number: lotData.lot_number,
+      p_quantity: lotData.quantity,
+      p_supplier_name: lotData.supplier_name ?? null,
+      p_harvest_date: lotData.harvest_date ?? null,
+      p_expiry_date: lotData.expiry_date ?? null,
+      p_notes: lotData.notes ?? null
+    });
+
+  if (error) {
+    console.error(`Error receiving lot for product ${productId}:`, error);
+    throw error;
+  }
+
+  return data as StockLot;
+}
+
+/**
+ * Add a delta to one lot (negative to remove, e.g. spoilage); the product's stock follows.
+ * Stock that open orders have allocated from the lot can't be removed.
+ */
+export async function adjustStockLot(
+  lotId: string,
+  delta: number,
+  reason: StockMovementReason = 'spoilage',
+  notes?: string
+): Promise<StockLot> {
+  const { data, error } = await supabase
+    .rpc('adjust_stock_lot', {
+      p_lot_id: lotId,
+      p_delta: delta,
+      p_reason: reason,
+      p_notes: notes ?? null
+    });
+
+  if (error) {
+    console.error(`Error adjusting lot ${lotId}:`, error);
+    throw error;
+  }
+
+  return data as StockLot;
+}
+
+/**
+ * Get the lots of a product, soonest expiry first
+ * @param includeEmpty Also return lots that have been used up
+ */
+export async function getProductLots(productId: string, includeEmpty = false): Promise<StockLotBalance[]> {
+  const { data, error } = await supabase
+    .rpc('get_product_lots', {
+      p_product_id: productId,
+      p_include_empty: includeEmpty
+    });
+
+  if (error) {
+    console.error(`Error fetching lots for product ${productId}:`, error);
+    throw error;
+  }
+
+  return (data || []) as StockLotBalance[];
+}
+
+/**
+ * Recall report: the orders, and their customers, that took stock from a lot
+ */
+export async function getLotRecipients(lotId: string): Promise<LotRecipient[]> {
+  const { data, error } = await supabase
+    .rpc('get_lot_recipients', { p_lot_id: lotId });
+
+  if (error) {
+    console.error(`Error fetching recipients of lot ${lotId}:`, error);
+    throw error;
+  }
+
+  return (data || []) as LotRecipient[];
+}
+
+/**
+ * What is left of a lot for new orders
+ */
+export function getFreeLotQuantity(lot: Pick<StockLotBalance, 'remaining_quantity' | 'allocated_quantity'>): number {
+  return Math.max(0, lot.remaining_quantity - lot.allocated_quantity);
+}
+
+/**
+ * Whether a lot is past its expiry date; such lots are no longer allocated to orders
+ */
+export function isLotExpired(lot: Pick<StockLot, 'expiry_date'>): boolean {
+  if (!lot.expiry_date) return false;
+  return lot.expiry_date < new Date().toISOString().slice(0, 10);
+}
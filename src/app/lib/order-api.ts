@@ -1,46 +1,86 @@
 import { supabase } from './supabase';
-import { Product, batchDecreaseStock, restoreStockFromOrder } from './product-api';
-import { PostgrestError } from '@supabase/supabase-js';
+import { releaseOrderStock } from './product-api';
+import { Order, OrderItem } from './types';
+import { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
 import { getAppSettings } from './settings-api';
 import { getUser } from './auth';
 import { getUserById } from './users-api';
-import { getNextDeliveryDate } from './utils';
-
-export interface OrderItem {
-  id?: string;
-  order_id?: string;
-  product_id: string;
-  quantity: number;
-  unit_price: number;
-  product?: Product;
-}
-
-export interface Order {
-  id?: string;
-  user_id?: string;
-  delivery_address?: string;
-  order_date: string;
-  delivery_date?: string;
-  total_amount: number;
-  status: 'pending' | 'processing' | 'completed' | 'cancelled';
-  payment_status: 'pending' | 'paid' | 'failed';
-  notes?: string;
-  items: OrderItem[];
-  created_at?: string;
-  updated_at?: string;
-  assigned_driver_id?: string;
-  customer?: {
+import { DeliveryLocation } from './delivery-zone-api';
+
+export type { Order, OrderItem, SubstitutionPreference, SubstitutionStatus } from './types';
+
+// One line of an order edit; a quantity of 0 means the line was added or removed
+export interface OrderLineChange {
+  product_name: string;
+  pack_name?: string | null;
+  from_quantity: number;
+  to_quantity: number;
+}
+
+// What an edit changed; the order keeps its status
+export interface OrderEditChanges {
+  items: OrderLineChange[];
+  total_before: number;
+  total_after: number;
+}
+
+export interface OrderStatusHistoryEntry {
+  id: string;
+  order_id: string;
+  from_status?: Order['status'] | null;
+  to_status: Order['status'];
+  reason?: string;
+  changed_by?: string;
+  changes?: OrderEditChanges | null; // Set for edits of the order lines
+  created_at: string;
+  user?: {
     id: string;
-    email?: string;
     name?: string;
-    phone?: string;
-    profile_image?: string;
-    address?: string;
+    email?: string;
+    role?: string;
   };
 }
 
-export type CreateOrderData = Omit<Order, 'id' | 'created_at' | 'updated_at'>;
+// Allowed status transitions; the database enforces the same table
+export const ORDER_STATUS_TRANSITIONS: Record<Order['status'], Order['status'][]> = {
+  pending_approval: ['pending', 'cancelled'],
+  pending: ['processing', 'cancelled'],
+  processing: ['pending', 'completed', 'cancelled'],
+  completed: [],
+  cancelled: []
+};
+
+export function canTransitionOrderStatus(from: Order['status'], to: Order['status']): boolean {
+  return ORDER_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+type OrderStatusHook = (order: Order, previousStatus: Order['status']) => Promise<void>;
+
+// Side effects run after an order enters a status.
+// Stock is committed or released by the database as part of the transition itself.
+const ORDER_STATUS_HOOKS: Partial<Record<Order['status'], OrderStatusHook[]>> = {
+  completed: [sendOrderCompletionEmails, sendFulfilmentChangesEmail]
+};
+
+// Without a unit_price, a line is charged the price place_order resolves for the customer
+export type CreateOrderItem = Omit<OrderItem, 'unit_price'> & { unit_price?: number };
+export type CreateOrderData = Omit<Order, 'id' | 'created_at' | 'updated_at' | 'items'> & { items: CreateOrderItem[] };
 export type UpdateOrderData = Partial<Omit<Order, 'id' | 'created_at' | 'updated_at'>>;
+// id is the order line being changed; lines without one are added
+export type OrderLineInput = Pick<OrderItem, 'id' | 'product_id' | 'pack_id' | 'quantity'>;
+
+// An ordered line that was short-picked or substituted; quantities are in the line's unit
+export interface OrderFulfilmentChange {
+  item: OrderItem;
+  delivered: number;
+  substitutes: OrderItem[]; // Accepted and proposed substitutes; declined ones are left out
+}
+
+// Raised by update_order_items when the order is past its cutoff, no longer open or being picked
+export interface OrderLocked {
+  status: Order['status'];
+  deadline?: string;
+}
 
 export interface OrderQueryParams {
   status?: Order['status'];
@@ -60,66 +100,50 @@ export interface OrderQueryParams {
 
 
 /**
- * Create a new order in the database
+ * Create a new order in the database.
+ * Stock reservation, delivery date calculation and the order/items inserts all
+ * happen inside the `place_order` database function, in a single transaction.
+ * Unit prices are checked there against the customer's price lists and quantity tiers;
+ * use getLinePrice to submit the price the server expects.
+ * Each line is allocated to stock lots first-expiry-first-out as it is inserted.
+ * A delivery_date (and delivery_slot_id) chosen at checkout is checked against
+ * getDeliveryOptions; without one the order gets the next delivery date.
+ * The delivery zone is resolved from deliveryLocation (or the customer's postcode), and
+ * sets the schedule, the minimum order value and the delivery fee.
+ * @param client Supabase client to place the order with; scheduled jobs pass a service client
  */
-export async function createOrder(orderData: CreateOrderData): Promise<Order> {
+export async function createOrder(
+  orderData: CreateOrderData,
+  deliveryLocation?: DeliveryLocation,
+  client: SupabaseClient = supabase
+): Promise<Order> {
   try {
-    // const stockItems = orderData.items.map(item => ({
-    //   productId: item.product_id,
-    //   quantity: item.quantity
-    // }));
-
-    // await batchDecreaseStock(stockItems);
-
-    // 🟩 Add: Get delivery settings
-    const { data: settings } = await supabase
-      .from('settings')
-      .select('order_cutoff_time, delivery_days')
-      .single();
-
-    const cutoffTime = settings?.order_cutoff_time || '18:00';
-    const deliveryDays = settings?.delivery_days || [1, 2, 3, 4, 5, 6];
-
-    const deliveryDate = getNextDeliveryDate(new Date(), cutoffTime, deliveryDays);
-
-    const { data: order, error: orderError } = await supabase
-      .from('orders')
-      .insert({
-        user_id: orderData.user_id,
-        delivery_address: orderData.delivery_address,
-        order_date: new Date().toISOString(),
-        delivery_date: deliveryDate.toISOString().split('T')[0], // 🟩 Save delivery date
-        total_amount: orderData.total_amount,
-        status: orderData.status || 'pending',
-        payment_status: orderData.payment_status || 'pending',
-        notes: orderData.notes
-      })
-      .select()
-      .single();
-
-    if (orderError) {
-      await restoreStockFromOrder(orderData.items);
-      throw orderError;
-    }
-
-    const orderItems = orderData.items.map(item => ({
-      order_id: order.id,
-      product_id: item.product_id,
-      quantity: item.quantity,
-      unit_price: item.unit_price
-    }));
-
-    const { error: itemsError } = await supabase
-      .from('order_items')
-      .insert(orderItems);
+    const { data: order, error } = await client.rpc('place_order', {
+      p_items: orderData.items.map(item => ({
+        product_id: item.product_id,
+        pack_id: item.pack_id ?? null,
+        quantity: item.quantity,
+        unit_price: item.unit_price
+      })),
+      p_user_id: orderData.user_id ?? null,
+      p_delivery_address: orderData.delivery_address ?? null,
+      p_notes: orderData.notes ?? null,
+      p_status: orderData.status || 'pending',
+      p_payment_status: orderData.payment_status || 'pending',
+      p_delivery_date: orderData.delivery_date ?? null,
+      p_delivery_slot_id: orderData.delivery_slot_id ?? null,
+      p_delivery_postcode: deliveryLocation?.postcode || null,
+      p_delivery_latitude: deliveryLocation?.latitude ?? null,
+      p_delivery_longitude: deliveryLocation?.longitude ?? null,
+      p_standing_order_id: orderData.standing_order_id ?? null
+    });
 
-    if (itemsError) {
-      await restoreStockFromOrder(orderData.items);
-      await supabase.from('orders').delete().eq('id', order.id);
-      throw itemsError;
+    if (error) {
+      console.error('Error placing order:', error);
+      throw error;
     }
 
-    return { ...order, items: orderData.items };
+    return order as Order;
   } catch (err) {
     console.error('Create order failed:', err);
     throw err;
@@ -128,8 +152,9 @@ export async function createOrder(orderData: CreateOrderData): Promise<Order> {
 
 /**
  * Get orders for a specific user
+ * @param businessId - Also the orders of everyone in this business, for its approvers and viewers
  */
-export async function getUserOrders(userId: string): Promise<Order[]> {
+export async function getUserOrders(userId: string, businessId?: string): Promise<Order[]> {
   try {
     // First, get the orders with user information
     const { data: orders, error: ordersError } = await supabase
@@ -144,7 +169,7 @@ export async function getUserOrders(userId: string): Promise<Order[]> {
           address
         )
       `)
-      .eq('user_id', userId)
+      .or(businessId ? `user_id.eq.${userId},business_id.eq.${businessId}` : `user_id.eq.${userId}`)
       .order('order_date', { ascending: false });
 
     if (ordersError) {
@@ -157,7 +182,7 @@ export async function getUserOrders(userId: string): Promise<Order[]> {
       orders.map(async (order) => {
         const { data: items, error: itemsError } = await supabase
           .from('order_items')
-          .select('*, product:product_id(*)')
+          .select('*, product:product_id(*), pack:pack_id(*)')
           .eq('order_id', order.id);
 
         if (itemsError) {
@@ -172,7 +197,7 @@ export async function getUserOrders(userId: string): Promise<Order[]> {
       })
     );
 
-    return ordersWithItems;
+    return ordersWithItems as Order[];
   } catch (err) {
     console.error('Get user orders failed:', err);
     throw err;
@@ -204,7 +229,8 @@ export async function getOrderById(orderId: string): Promise<Order | null> {
           email,
           name,
           phone,
-          address
+          address,
+          substitution_preference
         )
       `)
       .eq('id', orderId)
@@ -218,12 +244,14 @@ export async function getOrderById(orderId: string): Promise<Order | null> {
       throw orderError;
     }
     
-    // Get order items with product details
+    // Get order items with product details; lots are only visible to admins
     const { data: items, error: itemsError } = await supabase
       .from('order_items')
       .select(`
         *,
-        product:products(*)
+        product:products(*),
+        pack:product_packs(*),
+        lots:order_item_lots(*, lot:stock_lots(*))
       `)
       .eq('order_id', orderId);
     
@@ -235,7 +263,7 @@ export async function getOrderById(orderId: string): Promise<Order | null> {
     return {
       ...order,
       items: items as OrderItem[]
-    };
+    } as Order;
   } catch (err) {
     console.error(`Get order by ID failed for ${orderId}:`, err);
     throw err;
@@ -256,7 +284,8 @@ export async function getAllOrders(params: OrderQueryParams = {}) {
           email,
           name,
           phone,
-          address
+          address,
+          substitution_preference
         )
       `, { count: 'exact' });
     
@@ -354,7 +383,7 @@ export async function getAllOrders(params: OrderQueryParams = {}) {
     );
     
     return { 
-      orders: ordersWithItems, 
+      orders: ordersWithItems as Order[],
       count: count || 0,
       limit: params.limit,
       offset: params.offset
@@ -366,9 +395,16 @@ export async function getAllOrders(params: OrderQueryParams = {}) {
 }
 
 /**
- * Update order status with email notifications
+ * Update order status.
+ * The transition is validated against ORDER_STATUS_TRANSITIONS and recorded in the
+ * order's status history; the hooks for the new status run afterwards.
+ * @param reason - Why the status changed, shown in the status history
  */
-export async function updateOrderStatus(orderId: string, status: Order['status']): Promise<Order> {
+export async function updateOrderStatus(
+  orderId: string,
+  status: Order['status'],
+  reason?: string
+): Promise<Order> {
   try {
     // Get current order details before update
     const currentOrder = await getOrderById(orderId);
@@ -376,126 +412,38 @@ export async function updateOrderStatus(orderId: string, status: Order['status']
     if (!currentOrder) {
       throw new Error(`Order ${orderId} not found`);
     }
-    
-    // If changing status to cancelled, restore stock
-    if (status === 'cancelled' && currentOrder.status !== 'cancelled') {
-      try {
-        await restoreStockFromOrder(currentOrder.items);
-        console.log(`Stock restored for cancelled order ${orderId}`);
-      } catch (stockError) {
-        console.error(`Failed to restore stock for cancelled order ${orderId}:`, stockError);
-        // Don't fail the status update if stock restoration fails, but log the error
-      }
+
+    if (currentOrder.status === status) {
+      return currentOrder;
+    }
+
+    if (!canTransitionOrderStatus(currentOrder.status, status)) {
+      throw new Error(`Cannot change order status from ${currentOrder.status} to ${status}`);
     }
     
-    // Update the order status
-    const updatedOrder = await updateOrder(orderId, { status });
-    
-    // Send email notifications if order is completed
-    if (status === 'completed' && currentOrder?.assigned_driver_id) {
+    // Update the status; stock is committed or released in the same transaction
+    const { error } = await supabase.rpc('change_order_status', {
+      p_order_id: orderId,
+      p_status: status,
+      p_reason: reason ?? null
+    });
+
+    if (error) {
+      console.error(`Error changing status of order ${orderId}:`, error);
+      throw error;
+    }
+
+    const updatedOrder = await getOrderById(orderId);
+    if (!updatedOrder) {
+      throw new Error(`Order ${orderId} not found after update`);
+    }
+
+    for (const hook of ORDER_STATUS_HOOKS[status] || []) {
       try {
-        // Get order details with items and customer info
-        const { data: order, error: orderError } = await supabase
-          .from('orders')
-          .select(`
-            *,
-            items:order_items(*),
-            customer:user_id(id, email, name, phone)
-          `)
-          .eq('id', orderId)
-          .single();
-        
-        if (!orderError && order) {
-          // Get driver details
-          const driver = await getUserById(currentOrder.assigned_driver_id);
-          
-          // Get admin users
-          const { data: admins, error: adminError } = await supabase
-            .from('users')
-            .select('id, email, name')
-            .eq('role', 'admin')
-            .eq('status', 'active');
-
-          // Get app settings
-          const appSettings = await getAppSettings();
-          
-          if (driver) {
-            const emailPromises: Promise<Response>[] = [];
-
-            // Send email to customer if we have customer email
-            const customerEmail = order.customer?.email;
-
-            if (customerEmail) {
-              emailPromises.push(
-                fetch('/api/send-email', {
-                  method: 'POST',
-                  headers: {
-                    'Content-Type': 'application/json',
-                  },
-                  body: JSON.stringify({
-                    type: 'order_completion_customer',
-                    orderId,
-                    to: customerEmail,
-                    orderData: order,
-                    driverData: driver,
-                    appSettings: {
-                      companyName: appSettings?.company_name || 'B2B Vegetable',
-                      logoUrl: appSettings?.logo_url || '',
-                      supportEmail: appSettings?.support_email || '',
-                      supportPhone: appSettings?.support_phone || '',
-                      currency: appSettings?.default_currency || 'USD'
-                    }
-                  })
-                })
-              );
-            }
-
-            // Send emails to all active admins
-            if (admins && admins.length > 0) {
-              for (const admin of admins) {
-                emailPromises.push(
-                  fetch('/api/send-email', {
-                    method: 'POST',
-                    headers: {
-                      'Content-Type': 'application/json',
-                    },
-                    body: JSON.stringify({
-                      type: 'order_completion_admin',
-                      orderId,
-                      to: admin.email,
-                      orderData: order,
-                      driverData: driver,
-                      adminData: admin,
-                      appSettings: {
-                        companyName: appSettings?.company_name || 'B2B Vegetable',
-                        logoUrl: appSettings?.logo_url || '',
-                        supportEmail: appSettings?.support_email || '',
-                        supportPhone: appSettings?.support_phone || '',
-                        currency: appSettings?.default_currency || 'USD'
-                      }
-                    })
-                  })
-                );
-              }
-            }
-
-            // Wait for all emails to be sent
-            const results = await Promise.allSettled(emailPromises);
-            
-            // Check results and log
-            const failedCount = results.filter(result => result.status === 'rejected').length;
-            const successCount = results.length - failedCount;
-            
-            if (failedCount === 0) {
-              console.log(`All order completion emails sent successfully for order ${orderId}`);
-            } else {
-              console.warn(`${successCount} emails sent, ${failedCount} failed for order ${orderId}`);
-            }
-          }
-        }
-      } catch (emailError) {
-        console.error(`Failed to send completion emails for order ${orderId}:`, emailError);
-        // Don't fail the status update if email fails
+        await hook(updatedOrder, currentOrder.status);
+      } catch (hookError) {
+        console.error(`Status hook failed for order ${orderId}:`, hookError);
+        // Don't fail the status update if a hook fails, but log the error
       }
     }
     
@@ -506,6 +454,366 @@ export async function updateOrderStatus(orderId: string, status: Order['status']
   }
 }
 
+/**
+ * Get the status history of an order, oldest first
+ */
+export async function getOrderStatusHistory(orderId: string): Promise<OrderStatusHistoryEntry[]> {
+  const { data, error } = await supabase
+    .from('order_status_history')
+    .select(`
+      *,
+      user:users!changed_by(id, name, email, role)
+    `)
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error(`Error fetching status history for order ${orderId}:`, error);
+    throw error;
+  }
+
+  return data as OrderStatusHistoryEntry[];
+}
+
+/**
+ * The amount charged for an order line. Catch-weight lines are charged by the weighed
+ * quantity once it is recorded; mirrors the `order_item_total` database function.
+ */
+export function getOrderItemTotal(item: OrderItem): number {
+  if (item.substitution_status === 'proposed' || item.substitution_status === 'declined') {
+    return 0;
+  }
+
+  if (item.actual_quantity == null) {
+    return item.unit_price * (item.fulfilled_quantity ?? item.quantity);
+  }
+
+  const baseQuantity = item.base_quantity || item.quantity;
+  return Math.round(item.unit_price * item.quantity * item.actual_quantity / baseQuantity * 100) / 100;
+}
+
+/**
+ * The lines of an order that were short-picked or substituted, with their substitutes
+ */
+export function getFulfilmentChanges(order: Pick<Order, 'items'>): OrderFulfilmentChange[] {
+  const items = order.items || [];
+
+  return items
+    .filter(item => !item.substitute_for)
+    .map(item => ({
+      item,
+      delivered: item.fulfilled_quantity ?? item.quantity,
+      substitutes: items.filter(sub => sub.substitute_for === item.id && sub.substitution_status !== 'declined')
+    }))
+    .filter(change => change.item.fulfilled_quantity != null || change.substitutes.length > 0);
+}
+
+/**
+ * Whether picking has short-picked or substituted any line of the order; its lines can then
+ * no longer be edited
+ */
+export function isPickingStarted(order: Pick<Order, 'items'>): boolean {
+  return (order.items || []).some(item => item.fulfilled_quantity != null || !!item.substitute_for);
+}
+
+/**
+ * Record the weighed quantity of a catch-weight order line, in the product's base unit.
+ * Pass null to clear it. Only admins and the order's driver can do this, before the order
+ * is completed.
+ * @returns The order's new total amount
+ */
+export async function recordActualQuantity(orderItemId: string, actualQuantity: number | null): Promise<number> {
+  const { data, error } = await supabase
+    .rpc('record_actual_quantity', {
+      p_order_item_id: orderItemId,
+      p_actual_quantity: actualQuantity
+    });
+
+  if (error) {
+    console.error(`Error recording actual quantity for order item ${orderItemId}:`, error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Record how much of an order line could be picked, in the line's unit (packs for pack lines).
+ * Pass null, or the ordered quantity, to ship the line in full again. Only admins and the order's
+ * driver can do this, before the order is completed.
+ * @returns The order's new total amount
+ */
+export async function recordFulfilledQuantity(orderItemId: string, fulfilledQuantity: number | null): Promise<number> {
+  const { data, error } = await supabase
+    .rpc('record_fulfilled_quantity', {
+      p_order_item_id: orderItemId,
+      p_fulfilled_quantity: fulfilledQuantity
+    });
+
+  if (error) {
+    console.error(`Error recording fulfilled quantity for order item ${orderItemId}:`, error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Add a substitute for a short-picked line. The substitute is priced for the customer and
+ * reserved; customers who want to be asked first get it as a proposal, by email.
+ * Fails with a substitution_not_allowed hint when the customer never accepts substitutes.
+ */
+export async function substituteOrderItem(orderItemId: string, substitute: OrderLineInput): Promise<OrderItem> {
+  const { data, error } = await supabase
+    .rpc('substitute_order_item', {
+      p_order_item_id: orderItemId,
+      p_product_id: substitute.product_id,
+      p_pack_id: substitute.pack_id ?? null,
+      p_quantity: substitute.quantity
+    });
+
+  if (error) {
+    console.error(`Error substituting order item ${orderItemId}:`, error);
+    throw error;
+  }
+
+  const item = data as OrderItem;
+
+  if (item.substitution_status === 'proposed' && item.order_id) {
+    try {
+      await sendSubstitutionProposalEmail(item.order_id);
+    } catch (emailError) {
+      // The proposal is also shown in the customer's order history
+      console.error(`Error emailing substitution proposal for order ${item.order_id}:`, emailError);
+    }
+  }
+
+  return item;
+}
+
+/**
+ * Accept or decline a proposed substitute. Admins can also take back an accepted one by
+ * declining it; a declined substitute is not delivered or charged.
+ * @returns The order's new total amount
+ */
+export async function respondToSubstitution(orderItemId: string, accept: boolean): Promise<number> {
+  const { data, error } = await supabase
+    .rpc('respond_to_substitution', {
+      p_order_item_id: orderItemId,
+      p_accept: accept
+    });
+
+  if (error) {
+    console.error(`Error answering substitution ${orderItemId}:`, error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Whether an error was raised because the customer does not accept substitutions
+ */
+export function isSubstitutionRefused(error: any): boolean {
+  return error?.hint === 'substitution_not_allowed';
+}
+
+// The fulfilment changes of an order as the email templates show them
+function toFulfilmentEmailChanges(order: Order) {
+  const unitOf = (item: OrderItem) => item.pack?.name || item.product?.unit || '';
+
+  return getFulfilmentChanges(order).map(change => ({
+    product_name: change.item.product?.name_en || 'Product',
+    unit: unitOf(change.item),
+    ordered: change.item.quantity,
+    delivered: change.delivered,
+    substitutes: change.substitutes.map(sub => ({
+      product_name: sub.product?.name_en || 'Product',
+      unit: unitOf(sub),
+      quantity: sub.quantity,
+      status: sub.substitution_status
+    }))
+  }));
+}
+
+/**
+ * Email the customer of an order about its fulfilment, unless they turned off order updates
+ * @param type 'order_fulfilment' once the order is delivered, 'substitution_proposed' while it waits for their answer
+ */
+async function sendFulfilmentEmail(order: Order, type: 'order_fulfilment' | 'substitution_proposed'): Promise<void> {
+  if (!order.user_id) {
+    return;
+  }
+
+  const { data: customer, error } = await supabase
+    .from('users')
+    .select('id, email, name, notifications')
+    .eq('id', order.user_id)
+    .single();
+
+  if (error || !customer?.email || (customer.notifications as { orderUpdates?: boolean } | null)?.orderUpdates === false) {
+    return;
+  }
+
+  const appSettings = await getAppSettings();
+
+  const response = await fetch('/api/send-email', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      type,
+      orderId: order.id,
+      to: customer.email,
+      orderData: {
+        id: order.id,
+        delivery_date: order.delivery_date,
+        total_amount: order.total_amount,
+        customer: { name: customer.name },
+        changes: toFulfilmentEmailChanges(order),
+        respond_url: `${window.location.origin}/profile?tab=orders`
+      },
+      appSettings: {
+        companyName: appSettings?.company_name || 'B2B Vegetable',
+        supportEmail: appSettings?.support_email || '',
+        currency: appSettings?.default_currency || 'USD'
+      }
+    })
+  });
+
+  if (!response.ok) {
+    console.error(`Error sending ${type} email for order ${order.id}:`, await response.text());
+  }
+}
+
+async function sendSubstitutionProposalEmail(orderId: string): Promise<void> {
+  const order = await getOrderById(orderId);
+  if (order) {
+    await sendFulfilmentEmail(order, 'substitution_proposed');
+  }
+}
+
+/**
+ * Tell the customer what was short or substituted once the order is delivered
+ */
+async function sendFulfilmentChangesEmail(order: Order): Promise<void> {
+  if (getFulfilmentChanges(order).length === 0) {
+    return;
+  }
+
+  await sendFulfilmentEmail(order, 'order_fulfilment');
+}
+
+/**
+ * Email the customer and admins when the assigned driver completes an order
+ */
+async function sendOrderCompletionEmails(order: Order): Promise<void> {
+  if (!order.id || !order.assigned_driver_id) {
+    return;
+  }
+
+  // Get order details with items and customer info
+  const { data: orderDetails, error: orderError } = await supabase
+    .from('orders')
+    .select(`
+      *,
+      items:order_items(*),
+      customer:users!user_id(id, email, name, phone)
+    `)
+    .eq('id', order.id)
+    .single();
+  
+  if (!orderError && orderDetails) {
+    // Get driver details
+    const driver = await getUserById(order.assigned_driver_id);
+    
+    // Get admin users
+    const { data: admins, error: adminError } = await supabase
+      .from('users')
+      .select('id, email, name')
+      .eq('role', 'admin')
+      .eq('status', 'active');
+
+    // Get app settings
+    const appSettings = await getAppSettings();
+    
+    if (driver) {
+      const emailPromises: Promise<Response>[] = [];
+
+      // Send email to customer if we have customer email
+      const customerEmail = orderDetails.customer?.email;
+
+      if (customerEmail) {
+        emailPromises.push(
+          fetch('/api/send-email', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              type: 'order_completion_customer',
+              orderId: order.id,
+              to: customerEmail,
+              orderData: orderDetails,
+              driverData: driver,
+              appSettings: {
+                companyName: appSettings?.company_name || 'B2B Vegetable',
+                logoUrl: appSettings?.logo_url || '',
+                supportEmail: appSettings?.support_email || '',
+                supportPhone: appSettings?.support_phone || '',
+                currency: appSettings?.default_currency || 'USD'
+              }
+            })
+          })
+        );
+      }
+
+      // Send emails to all active admins
+      if (admins && admins.length > 0) {
+        for (const admin of admins) {
+          emailPromises.push(
+            fetch('/api/send-email', {
+              method: 'POST',
+              headers: {
+                'Content-Type': 'application/json',
+              },
+              body: JSON.stringify({
+                type: 'order_completion_admin',
+                orderId: order.id,
+                to: admin.email,
+                orderData: orderDetails,
+                driverData: driver,
+                adminData: admin,
+                appSettings: {
+                  companyName: appSettings?.company_name || 'B2B Vegetable',
+                  logoUrl: appSettings?.logo_url || '',
+                  supportEmail: appSettings?.support_email || '',
+                  supportPhone: appSettings?.support_phone || '',
+                  currency: appSettings?.default_currency || 'USD'
+                }
+              })
+            })
+          );
+        }
+      }
+
+      // Wait for all emails to be sent
+      const results = await Promise.allSettled(emailPromises);
+      
+      // Check results and log
+      const failedCount = results.filter(result => result.status === 'rejected').length;
+      const successCount = results.length - failedCount;
+      
+      if (failedCount === 0) {
+        console.log(`All order completion emails sent successfully for order ${order.id}`);
+      } else {
+        console.warn(`${successCount} emails sent, ${failedCount} failed for order ${order.id}`);
+      }
+    }
+  }
+}
+
 /**
  * Update payment status
  */
@@ -544,7 +852,7 @@ export async function assignDriverToOrder(
         .select(`
           *,
           items:order_items(*),
-          customer:user_id(id, email, name, phone)
+          customer:users!user_id(id, email, name, phone)
         `)
         .eq('id', orderId)
         .single();
@@ -647,12 +955,97 @@ export async function updateOrder(
   }
 }
 
+/**
+ * The last moment the lines of an order can be changed: the order cutoff on the day before
+ * its delivery date
+ * @returns The deadline, or null if the order has no delivery date
+ */
+export async function getOrderEditDeadline(orderId: string): Promise<Date | null> {
+  const { data, error } = await supabase.rpc('order_edit_deadline', { p_order_id: orderId });
+
+  if (error) {
+    console.error(`Error fetching edit deadline of order ${orderId}:`, error);
+    throw error;
+  }
+
+  return data ? new Date(data) : null;
+}
+
+/**
+ * Replace the lines of an open order. Lines are matched by id; ordered lines left out are
+ * removed. Substitute lines are not part of the list and stay as picking left them.
+ * Reservations follow the new quantities, new and changed lines are re-priced, the total is
+ * recomputed and the change is recorded in the order's history.
+ * @param items The complete new list of ordered lines; new lines are merged into a line of the
+ * same product and pack
+ * @param reason Why the order was changed, shown in the history
+ */
+export async function updateOrderItems(orderId: string, items: OrderLineInput[], reason?: string): Promise<Order> {
+  const merged: OrderLineInput[] = [];
+  items.forEach(item => {
+    const existing = merged.find(m => item.id
+      ? m.id === item.id
+      : m.product_id === item.product_id && (m.pack_id ?? null) === (item.pack_id ?? null));
+    if (existing) {
+      existing.quantity += item.quantity;
+    } else {
+      merged.push({ ...item });
+    }
+  });
+
+  const { error } = await supabase.rpc('update_order_items', {
+    p_order_id: orderId,
+    p_items: merged.map(item => ({
+      id: item.id ?? null,
+      product_id: item.product_id,
+      pack_id: item.pack_id ?? null,
+      quantity: item.quantity
+    })),
+    p_reason: reason ?? null
+  });
+
+  if (error) {
+    console.error(`Error updating items of order ${orderId}:`, error);
+    throw error;
+  }
+
+  const order = await getOrderById(orderId);
+  if (!order) {
+    throw new Error(`Order ${orderId} not found after update`);
+  }
+
+  return order;
+}
+
+/**
+ * Extract the status and deadline from the error raised when an order can no longer be changed
+ * @returns The details, or null if the error is not an order locked error
+ */
+export function getOrderLocked(error: any): OrderLocked | null {
+  if (error?.hint !== 'order_locked' || !error.details) {
+    return null;
+  }
+
+  try {
+    const details = JSON.parse(error.details);
+    return {
+      status: details.status,
+      deadline: details.deadline ?? undefined
+    };
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Delete an order (for admin use only)
  */
 export async function deleteOrder(orderId: string): Promise<boolean> {
   try {
-    // First delete order items
+    // Give back any stock still reserved for the order
+    await releaseOrderStock(orderId);
+
+    // Then delete order items
     const { error: itemsError } = await supabase
       .from('order_items')
       .delete()
@@ -663,7 +1056,7 @@ export async function deleteOrder(orderId: string): Promise<boolean> {
       throw itemsError;
     }
     
-    // Then delete the order
+    // Finally delete the order
     const { error } = await supabase
       .from('orders')
       .delete()
@@ -713,7 +1106,8 @@ export async function getDriverOrders(driverId: string): Promise<Order[]> {
           .from('order_items')
           .select(`
             *,
-            product:products(*)
+            product:products(*),
+            pack:product_packs(*)
           `)
           .eq('order_id', order.id);
         
@@ -729,13 +1123,28 @@ export async function getDriverOrders(driverId: string): Promise<Order[]> {
       })
     );
     
-    return ordersWithItems;
+    return ordersWithItems as Order[];
   } catch (err) {
     console.error(`Get driver orders failed for ${driverId}:`, err);
     throw err;
   }
 }
 
+/**
+ * Approve an order awaiting the approval of its business; it then goes ahead like any pending order
+ */
+export async function approveOrder(orderId: string): Promise<Order> {
+  return updateOrderStatus(orderId, 'pending', 'Approved');
+}
+
+/**
+ * Reject an order awaiting the approval of its business, releasing its reserved stock
+ * @param reason - Why the order was rejected, shown in the status history
+ */
+export async function rejectOrder(orderId: string, reason?: string): Promise<Order> {
+  return updateOrderStatus(orderId, 'cancelled', reason || 'Rejected by approver');
+}
+
 /**
  * Cancel an order
  * @param orderId - The ID of the order to cancel
@@ -751,56 +1160,13 @@ export async function cancelOrder(orderId: string, reason: string): Promise<Orde
       throw new Error(`Order ${orderId} not found`);
     }
     
-    // If already cancelled, don't restore stock again
     if (currentOrder.status === 'cancelled') {
       console.log(`Order ${orderId} is already cancelled`);
       return currentOrder;
     }
     
-    // Restore stock for all items in the order
-    try {
-      await restoreStockFromOrder(currentOrder.items);
-      console.log(`Stock restored for cancelled order ${orderId}`);
-    } catch (stockError) {
-      console.error(`Failed to restore stock for cancelled order ${orderId}:`, stockError);
-      // Don't fail the cancellation if stock restoration fails, but log the error
-    }
-    
-    // Update the order status
-    const { data: order, error } = await supabase
-      .from('orders')
-      .update({
-        status: 'cancelled',
-        notes: reason ? `Cancelled: ${reason}` : 'Cancelled by customer',
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', orderId)
-      .select()
-      .single();
-    
-    if (error) {
-      console.error('Error cancelling order:', error);
-      throw error;
-    }
-    
-    // Get order items with product details to return the complete order
-    const { data: items, error: itemsError } = await supabase
-      .from('order_items')
-      .select(`
-        *,
-        product:products(*)
-      `)
-      .eq('order_id', orderId);
-    
-    if (itemsError) {
-      console.error(`Error fetching order items for ${orderId}:`, itemsError);
-      throw itemsError;
-    }
-    
-    return {
-      ...order,
-      items: items as OrderItem[]
-    };
+    // Releases the reserved stock and records the reason in the status history
+    return await updateOrderStatus(orderId, 'cancelled', reason || 'Cancelled by customer');
   } catch (err) {
     console.error(`Cancel order failed for ${orderId}:`, err);
     throw err;
@@ -810,58 +1176,33 @@ export async function cancelOrder(orderId: string, reason: string): Promise<Orde
 /**
  * Generate an invoice for an order
  * @param orderId - The ID of the order to generate an invoice for
- * @returns A URL to download the invoice
+ * @returns A signed URL to download the invoice PDF
  */
 export async function generateInvoice(orderId: string): Promise<string> {
   try {
-    // Get the complete order details
-    const order = await getOrderById(orderId);
-    
-    if (!order) {
-      throw new Error(`Order ${orderId} not found`);
-    }
-    
-    // Get app settings for invoice branding and VAT
-    const appSettings = await getAppSettings();
-    
-    // In a real app, you would generate a PDF invoice here
-    // including the following information from app settings:
-    // - Company logo (appSettings.logo_url)
-    // - Company name (appSettings.company_name)
-    // - VAT percentage (appSettings.vat_percentage)
-    // - Currency (appSettings.default_currency)
-    // - Support contact (appSettings.support_email, appSettings.support_phone)
-    
-    // Calculate VAT if applicable
-    let totalAmount = order.total_amount;
-    let vatAmount = 0;
-    
-    if (appSettings?.vat_percentage) {
-      vatAmount = (order.total_amount * appSettings.vat_percentage) / 100;
-      totalAmount += vatAmount;
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      throw new Error('Not authenticated');
     }
-    
-    // Log invoice generation with settings used
-    console.log(`Invoice generated for order ${orderId} with settings:`, {
-      companyName: appSettings?.company_name || 'Default Company',
-      currency: appSettings?.default_currency || 'USD',
-      vatPercentage: appSettings?.vat_percentage || 0,
-      vatAmount,
-      totalAmount,
-      orderDate: order.order_date,
-      customerEmail: order.customer?.email
+
+    // The PDF is built and stored server-side, which also creates the invoices row
+    const response = await fetch(`/api/invoices/${orderId}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`
+      }
     });
-    
-    // You could call a serverless function or external API to generate the PDF
-    // Then return a URL to download it
-    
-    // Simulate an API call delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    // Return a fake download URL (in a real app, this would be a real URL)
-    return `/api/invoices/${orderId}`;
+
+    const result = await response.json();
+
+    if (!response.ok || !result.success || !result.url) {
+      throw new Error(result.message || 'Failed to generate invoice');
+    }
+
+    return result.url;
   } catch (err) {
     console.error(`Generate invoice failed for ${orderId}:`, err);
     throw err;
   }
-} 
\ No newline at end of file
+}
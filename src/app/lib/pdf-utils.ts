@@ -1,5 +1,16 @@
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
+import { formatPriceSync } from './settings-api';
+
+// How much of a product was ordered in one pack variant; pack_id is null for loose quantities
+export interface PackSummary {
+  pack_id: string | null;
+  name: string | null;
+  sku_suffix: string | null;
+  pack_size: number | null;
+  quantity: number;
+  base_quantity: number;
+}
 
 interface ProductSummary {
   id: string;
@@ -7,6 +18,22 @@ interface ProductSummary {
   unit: string;
   total_quantity: number;
   sku?: string;
+  packs?: PackSummary[];
+}
+
+/**
+ * Pick list text for a product's packs, e.g. "3 x Case 10 kg (-C10), 4 kg loose".
+ * Empty when everything was ordered loose.
+ */
+function formatPackBreakdown(product: ProductSummary): string {
+  const packs = product.packs || [];
+  if (!packs.some(pack => pack.pack_id)) return '';
+
+  return packs
+    .map(pack => pack.pack_id
+      ? `${pack.quantity} x ${pack.name} (${pack.sku_suffix})`
+      : `${pack.base_quantity} ${product.unit} loose`)
+    .join(', ');
 }
 
 interface PDFExportOptions {
@@ -67,7 +94,8 @@ export function exportOrderSummaryToPDF(options: PDFExportOptions): void {
     product.name_en,
     product.sku || 'N/A',
     product.total_quantity.toString(),
-    product.unit
+    product.unit,
+    formatPackBreakdown(product)
   ]);
   
   // Calculate totals
@@ -86,7 +114,7 @@ export function exportOrderSummaryToPDF(options: PDFExportOptions): void {
   
   // Create table
   autoTable(doc, {
-    head: [['#', 'Product Name', 'SKU', 'Total Quantity', 'Unit']],
+    head: [['#', 'Product Name', 'SKU', 'Total Quantity', 'Unit', 'Packs']],
     body: tableData,
     startY: 115,
     theme: 'grid',
@@ -104,11 +132,12 @@ export function exportOrderSummaryToPDF(options: PDFExportOptions): void {
       fillColor: [248, 250, 252] // Light gray
     },
     columnStyles: {
-      0: { halign: 'center', cellWidth: 15 }, // # column
-      1: { cellWidth: 60 }, // Product Name
-      2: { cellWidth: 30 }, // SKU
-      3: { halign: 'right', cellWidth: 30 }, // Total Quantity
-      4: { halign: 'center', cellWidth: 20 } // Unit
+      0: { halign: 'center', cellWidth: 12 }, // # column
+      1: { cellWidth: 45 }, // Product Name
+      2: { cellWidth: 25 }, // SKU
+      3: { halign: 'right', cellWidth: 25 }, // Total Quantity
+      4: { halign: 'center', cellWidth: 15 }, // Unit
+      5: { cellWidth: 48 } // Packs
     },
     margin: { left: 20, right: 20 },
     didDrawPage: (data) => {
@@ -194,4 +223,198 @@ export function exportProductListToPDF(products: ProductSummary[], title: string
   
   // Save the PDF
   doc.save(`${title.toLowerCase().replace(/\s+/g, '-')}.pdf`);
-} 
\ No newline at end of file
+} 
+interface InvoicePDFItem {
+  name: string;
+  sku?: string;
+  unit?: string;
+  quantity: number;
+  unitPrice: number;
+  // Catch-weight lines: the weighed quantity and the amount charged for it
+  delivered?: { quantity: number; unit?: string };
+  amount?: number;
+}
+
+interface InvoicePDFOptions {
+  invoiceNumber: string;
+  // Credit notes carry negative amounts and name the invoice they correct
+  creditNoteFor?: string;
+  orderDate: string;
+  deliveryDate?: string | null;
+  customer: {
+    name?: string | null;
+    email?: string | null;
+    phone?: string | null;
+    address?: string | null;
+  };
+  items: InvoicePDFItem[];
+  subtotal: number;
+  vatPercentage: number;
+  vatAmount: number;
+  totalAmount: number;
+  currency: string;
+  companyName?: string;
+  logoDataUrl?: string;
+  supportEmail?: string | null;
+  supportPhone?: string | null;
+}
+
+/**
+ * Build a branded invoice PDF and return its binary contents.
+ * Runs on both the server (API routes) and in the browser.
+ */
+export function generateInvoicePDF(options: InvoicePDFOptions): ArrayBuffer {
+  const {
+    invoiceNumber,
+    creditNoteFor,
+    orderDate,
+    deliveryDate,
+    customer,
+    items,
+    subtotal,
+    vatPercentage,
+    vatAmount,
+    totalAmount,
+    currency,
+    companyName = 'B2B Vegetable',
+    logoDataUrl,
+    supportEmail,
+    supportPhone
+  } = options;
+
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const money = (amount: number) => formatPriceSync(amount, currency);
+
+  const documentName = creditNoteFor ? 'Credit Note' : 'Invoice';
+
+  doc.setProperties({
+    title: `${documentName} ${invoiceNumber}`,
+    subject: documentName,
+    author: companyName,
+    creator: companyName
+  });
+
+  // Company header with optional logo
+  let headerX = 20;
+  if (logoDataUrl) {
+    try {
+      doc.addImage(logoDataUrl, 20, 15, 25, 25);
+      headerX = 50;
+    } catch (error) {
+      console.error('Error adding logo to invoice:', error);
+    }
+  }
+
+  doc.setFontSize(18);
+  doc.setFont('helvetica', 'bold');
+  doc.text(companyName, headerX, 25);
+
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(100);
+  if (supportEmail) doc.text(supportEmail, headerX, 32);
+  if (supportPhone) doc.text(supportPhone, headerX, 37);
+  doc.setTextColor(0);
+
+  // Invoice title and meta data
+  doc.setFontSize(20);
+  doc.setFont('helvetica', 'bold');
+  doc.text(documentName.toUpperCase(), pageWidth - 20, 25, { align: 'right' });
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`${documentName} #: ${invoiceNumber}`, pageWidth - 20, 33, { align: 'right' });
+  doc.text(`Order date: ${new Date(orderDate).toLocaleDateString()}`, pageWidth - 20, 39, { align: 'right' });
+  if (deliveryDate) {
+    doc.text(`Delivery date: ${new Date(deliveryDate).toLocaleDateString()}`, pageWidth - 20, 45, { align: 'right' });
+  }
+  if (creditNoteFor) {
+    doc.text(`For invoice #: ${creditNoteFor}`, pageWidth - 20, deliveryDate ? 51 : 45, { align: 'right' });
+  }
+
+  // Bill to
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Bill To:', 20, 60);
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  const billToLines = [customer.name, customer.email, customer.phone, customer.address]
+    .filter((line): line is string => !!line);
+  billToLines.forEach((line, index) => {
+    doc.text(line, 20, 67 + index * 6, { maxWidth: 110 });
+  });
+
+  // Line items; the ordered and delivered quantities are both shown once anything was weighed
+  const hasDelivered = items.some(item => item.delivered);
+  const tableData = items.map((item, index) => [
+    index + 1,
+    item.name,
+    item.sku || 'N/A',
+    `${item.quantity} ${item.unit || ''}`.trim(),
+    ...(hasDelivered
+      ? [item.delivered ? `${item.delivered.quantity} ${item.delivered.unit || ''}`.trim() : '']
+      : []),
+    money(item.unitPrice),
+    money(item.amount ?? item.unitPrice * item.quantity)
+  ]);
+
+  autoTable(doc, {
+    head: [hasDelivered
+      ? ['#', 'Product', 'SKU', 'Ordered', 'Delivered', 'Unit Price', 'Amount']
+      : ['#', 'Product', 'SKU', 'Quantity', 'Unit Price', 'Amount']],
+    body: tableData,
+    startY: 67 + Math.max(billToLines.length, 1) * 6 + 8,
+    theme: 'grid',
+    headStyles: {
+      fillColor: [16, 185, 129], // Emerald color
+      textColor: [255, 255, 255],
+      fontStyle: 'bold',
+      fontSize: 10
+    },
+    bodyStyles: {
+      fontSize: 9,
+      cellPadding: 3
+    },
+    alternateRowStyles: {
+      fillColor: [248, 250, 252] // Light gray
+    },
+    columnStyles: {
+      0: { halign: 'center', cellWidth: 10 },
+      3: { halign: 'right' },
+      4: { halign: 'right' },
+      5: { halign: 'right' },
+      6: { halign: 'right' }
+    },
+    margin: { left: 20, right: 20 }
+  });
+
+  // Totals
+  const finalY = (doc as any).lastAutoTable.finalY || 120;
+  const labelX = pageWidth - 70;
+  const valueX = pageWidth - 20;
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text('Subtotal:', labelX, finalY + 10);
+  doc.text(money(subtotal), valueX, finalY + 10, { align: 'right' });
+  doc.text(`VAT (${vatPercentage}%):`, labelX, finalY + 17);
+  doc.text(money(vatAmount), valueX, finalY + 17, { align: 'right' });
+
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Total:', labelX, finalY + 26);
+  doc.text(money(totalAmount), valueX, finalY + 26, { align: 'right' });
+
+  // Footer
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(100);
+  doc.text('Thank you for your business!', 20, finalY + 45);
+  if (supportEmail) {
+    doc.text(`Questions about this ${documentName.toLowerCase()}? Contact us at ${supportEmail}`, 20, finalY + 51);
+  }
+
+  return doc.output('arraybuffer');
+}
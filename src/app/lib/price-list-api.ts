@@ -0,0 +1,259 @@
+import { supabase } from './supabase';
+import { CustomerGroup, PriceList, PriceListItem, Product, TablesUpdate } from './types';
+
+export type { CustomerGroup, PriceList, PriceListItem } from './types';
+
+export type CreatePriceListData = Omit<PriceList, 'id' | 'created_at' | 'updated_at' | 'items'>;
+export type UpdatePriceListData = Omit<TablesUpdate<'price_lists'>, 'id' | 'created_at' | 'updated_at'>;
+
+// The price a customer pays for a product today
+export interface CustomerPrice {
+  product_id: string;
+  price: number;
+  base_price: number;
+  price_list_id?: string;
+}
+
+export interface PriceChange {
+  product_id: string;
+  product_name: string;
+  price: number;
+  submitted: number;
+}
+
+/**
+ * Fetch all customer groups
+ */
+export async function getCustomerGroups(): Promise<CustomerGroup[]> {
+  const { data, error } = await supabase
+    .from('customer_groups')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching customer groups:', error);
+    throw error;
+  }
+
+  return data as CustomerGroup[];
+}
+
+/**
+ * Create a customer group
+ */
+export async function createCustomerGroup(name: string, description?: string): Promise<CustomerGroup> {
+  const { data, error } = await supabase
+    .from('customer_groups')
+    .insert([{ name, description }])
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating customer group:', error);
+    throw error;
+  }
+
+  return data as CustomerGroup;
+}
+
+/**
+ * Delete a customer group. Its customers keep their account but leave the group,
+ * and the price lists of the group are deleted.
+ */
+export async function deleteCustomerGroup(id: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('customer_groups')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error(`Error deleting customer group ${id}:`, error);
+    throw error;
+  }
+
+  return true;
+}
+
+/**
+ * Fetch all price lists with their items, newest first
+ */
+export async function getPriceLists(): Promise<PriceList[]> {
+  const { data, error } = await supabase
+    .from('price_lists')
+    .select('*, items:price_list_items(*)')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching price lists:', error);
+    throw error;
+  }
+
+  return data as PriceList[];
+}
+
+/**
+ * Fetch a single price list with its items and their products
+ */
+export async function getPriceListById(id: string): Promise<PriceList> {
+  const { data, error } = await supabase
+    .from('price_lists')
+    .select('*, items:price_list_items(*, product:products(*))')
+    .eq('id', id)
+    .single();
+
+  if (error) {
+    console.error(`Error fetching price list ${id}:`, error);
+    throw error;
+  }
+
+  return data as PriceList;
+}
+
+/**
+ * Create a price list
+ */
+export async function createPriceList(priceListData: CreatePriceListData): Promise<PriceList> {
+  const { data, error } = await supabase
+    .from('price_lists')
+    .insert([priceListData])
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating price list:', error);
+    throw error;
+  }
+
+  return data as PriceList;
+}
+
+/**
+ * Update a price list
+ */
+export async function updatePriceList(id: string, priceListData: UpdatePriceListData): Promise<PriceList> {
+  const { data, error } = await supabase
+    .from('price_lists')
+    .update(priceListData)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error(`Error updating price list ${id}:`, error);
+    throw error;
+  }
+
+  return data as PriceList;
+}
+
+/**
+ * Delete a price list and its prices
+ */
+export async function deletePriceList(id: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('price_lists')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error(`Error deleting price list ${id}:`, error);
+    throw error;
+  }
+
+  return true;
+}
+
+/**
+ * Set the contract price of a product in a price list
+ */
+export async function setPriceListItem(priceListId: string, productId: string, price: number): Promise<PriceListItem> {
+  const { data, error } = await supabase
+    .from('price_list_items')
+    .upsert({ price_list_id: priceListId, product_id: productId, price })
+    .select()
+    .single();
+
+  if (error) {
+    console.error(`Error setting price of product ${productId} in price list ${priceListId}:`, error);
+    throw error;
+  }
+
+  return data as PriceListItem;
+}
+
+/**
+ * Remove a product from a price list, so the customer pays the list price again
+ */
+export async function removePriceListItem(priceListId: string, productId: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('price_list_items')
+    .delete()
+    .eq('price_list_id', priceListId)
+    .eq('product_id', productId);
+
+  if (error) {
+    console.error(`Error removing product ${productId} from price list ${priceListId}:`, error);
+    throw error;
+  }
+
+  return true;
+}
+
+/**
+ * Resolve the prices a customer pays today, from their own price list, their group's price list
+ * or the product's list price
+ * @param productIds Products to price; all products if omitted
+ * @param userId Customer to price for; the logged-in user if omitted
+ */
+export async function getCustomerPrices(productIds?: string[], userId?: string): Promise<CustomerPrice[]> {
+  const { data, error } = await supabase
+    .rpc('get_customer_prices', {
+      p_product_ids: productIds ?? null,
+      p_user_id: userId ?? null
+    });
+
+  if (error) {
+    console.error('Error resolving customer prices:', error);
+    throw error;
+  }
+
+  return ((data || []) as any[]).map(row => ({
+    product_id: row.product_id,
+    price: Number(row.price),
+    base_price: Number(row.base_price),
+    price_list_id: row.price_list_id ?? undefined
+  }));
+}
+
+/**
+ * Replace the list price of each product with the customer's price
+ */
+export function applyCustomerPrices<T extends Product>(products: T[], prices: CustomerPrice[]): T[] {
+  const priceByProduct = new Map(prices.map(price => [price.product_id, price.price]));
+  return products.map(product => {
+    const price = priceByProduct.get(product.id);
+    return price === undefined ? product : { ...product, price };
+  });
+}
+
+/**
+ * Extract the new price from a price_changed error raised by place_order
+ * @returns The price change, or null if the error is not a price error
+ */
+export function getPriceChange(error: any): PriceChange | null {
+  if (error?.hint !== 'price_changed' || !error.details) {
+    return null;
+  }
+
+  try {
+    const details = JSON.parse(error.details);
+    return {
+      product_id: details.product_id,
+      product_name: details.product_name,
+      price: Number(details.price),
+      submitted: Number(details.submitted)
+    };
+  } catch {
+    return null;
+  }
+}
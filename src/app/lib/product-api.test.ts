@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { ProductPriceTier, getLinePrice, getUnitPrice } from './product-api';
+
+const tier = (min_quantity: number, price: number): ProductPriceTier => ({
+  id: `tier-${min_quantity}`,
+  product_id: 'product',
+  min_quantity,
+  price
+});
+
+describe('getUnitPrice', () => {
+  const product = { price: 3, price_tiers: [tier(20, 2.2), tier(10, 2)] };
+
+  it('charges the product price below the smallest tier', () => {
+    expect(getUnitPrice(product, 9)).toBe(3);
+  });
+
+  it('charges the tier the quantity reaches', () => {
+    expect(getUnitPrice(product, 10)).toBe(2);
+    expect(getUnitPrice(product, 19)).toBe(2);
+  });
+
+  it('takes the tier with the largest minimum, even when a smaller tier is cheaper', () => {
+    // resolve_unit_price in the database does the same; place_order rejects any other price
+    expect(getUnitPrice(product, 20)).toBe(2.2);
+    expect(getUnitPrice(product, 50)).toBe(2.2);
+  });
+
+  it('keeps a contract price that is cheaper than the tier reached', () => {
+    const contract = { ...product, price: 2.1 };
+    expect(getUnitPrice(contract, 10)).toBe(2);
+    expect(getUnitPrice(contract, 25)).toBe(2.1);
+  });
+
+  it('charges the product price without tiers', () => {
+    expect(getUnitPrice({ price: 3 }, 100)).toBe(3);
+  });
+});
+
+describe('getLinePrice', () => {
+  const product = { price: 3, price_tiers: [tier(20, 2.2), tier(10, 2)] };
+
+  it('prices a pack by the tier its contents reach', () => {
+    // Two 10 kg cases reach the 20 kg tier: 10 × 2.20 beats the case price
+    expect(getLinePrice(product, 2, { price: 25, base_quantity: 10 })).toBe(22);
+    // One case reaches the 10 kg tier: 10 × 2.00
+    expect(getLinePrice(product, 1, { price: 25, base_quantity: 10 })).toBe(20);
+  });
+
+  it('charges the pack price when it is cheaper than its contents', () => {
+    expect(getLinePrice(product, 2, { price: 21, base_quantity: 10 })).toBe(21);
+  });
+});
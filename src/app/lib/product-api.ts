@@ -1,25 +1,84 @@
 import { supabase } from './supabase';
 import { uploadImage } from './storage-utils';
+import { Product, ProductPack, ProductPriceTier } from './types';
+import { getCategories, getCategoryDescendantIds } from './category-api';
 
-export interface Product {
+export type { Product, ProductPack, ProductPriceTier } from './types';
+
+export type StockMovementReason =
+  | 'order_placed'
+  | 'order_cancelled'
+  | 'order_completed'
+  | 'order_edited'
+  | 'order_substitution'
+  | 'manual_adjustment'
+  | 'goods_received'
+  | 'spoilage'
+  | 'return';
+
+// Reasons an admin can pick when adjusting stock by hand; order movements are recorded automatically
+export const MANUAL_STOCK_REASONS: StockMovementReason[] = [
+  'manual_adjustment',
+  'goods_received',
+  'spoilage',
+  'return'
+];
+
+export interface StockMovement {
   id: string;
-  name_en: string;
-  name_vi?: string;
-  name_tr?: string;
-  description?: string;
-  price: number;
+  product_id: string;
+  order_id?: string;
+  reason: StockMovementReason;
+  quantity_delta: number;
+  reserved_delta: number;
+  stock_after: number;
+  reserved_after: number;
+  notes?: string;
+  created_by?: string;
+  created_at: string;
+  user?: {
+    id: string;
+    name?: string;
+    email?: string;
+  };
+}
+
+export interface StockShortage {
+  product_id: string;
+  product_name: string;
+  available: number;
+  requested: number;
+}
+
+// Raised by place_order when a line breaks its product's minimum quantity or quantity step
+export interface QuantityRuleViolation {
+  product_id: string;
+  product_name: string;
   unit: string;
-  sku: string;
-  image_url?: string;
-  // category?: string; // Removed - column doesn't exist in database
-  is_active: boolean;
-  stock: number;
-  created_at?: string;
-  updated_at?: string;
+  quantity: number; // In the product's base unit
+  minimum?: number;
+  step?: number;
+}
+
+// Raised by place_order when the delivery date is too soon for a product's lead time
+export interface LeadTimeViolation {
+  product_id: string;
+  product_name: string;
+  lead_time_days: number;
+  earliest_date: string; // yyyy-MM-dd
 }
 
-export type CreateProductData = Omit<Product, 'id' | 'created_at' | 'updated_at'>;
-export type UpdateProductData = Partial<Omit<Product, 'id' | 'created_at' | 'updated_at'>>;
+export type PriceTierInput = Pick<ProductPriceTier, 'min_quantity' | 'price'>;
+export type PackInput = Omit<ProductPack, 'id' | 'product_id' | 'created_at' | 'updated_at'> & {
+  id?: string; // set for packs that already exist
+};
+
+export type CreateProductData = Omit<Product, 'id' | 'category' | 'price_tiers' | 'packs' | 'created_at' | 'updated_at'>;
+export type UpdateProductData = Partial<Omit<Product, 'id' | 'category' | 'category_id' | 'min_order_quantity' | 'quantity_step' | 'price_tiers' | 'packs' | 'created_at' | 'updated_at'>> & {
+  category_id?: string | null; // null removes the product from its category
+  min_order_quantity?: number | null; // null removes the rule
+  quantity_step?: number | null;
+};
 
 /**
  * Fetch all products from the database
@@ -27,7 +86,7 @@ export type UpdateProductData = Partial<Omit<Product, 'id' | 'created_at' | 'upd
 export async function getProducts() {
   const { data, error } = await supabase
     .from('products')
-    .select('*')
+    .select('*, price_tiers:product_price_tiers(*), packs:product_packs(*)')
     .order('created_at', { ascending: false });
 
   if (error) {
@@ -44,7 +103,7 @@ export async function getProducts() {
 export async function getProductById(id: string) {
   const { data, error } = await supabase
     .from('products')
-    .select('*')
+    .select('*, price_tiers:product_price_tiers(*), packs:product_packs(*)')
     .eq('id', id)
     .single();
 
@@ -62,7 +121,7 @@ export async function getProductById(id: string) {
 export async function getActiveProductById(id: string) {
   const { data, error } = await supabase
     .from('products')
-    .select('*')
+    .select('*, price_tiers:product_price_tiers(*), packs:product_packs(*)')
     .eq('id', id)
     .eq('is_active', true)
     .single();
@@ -152,6 +211,197 @@ export async function updateProduct(
   }
 }
 
+/**
+ * Replace the quantity break prices of a product
+ * @param productId Product ID
+ * @param tiers The new tiers; an empty list removes volume pricing
+ */
+export async function setProductPriceTiers(productId: string, tiers: PriceTierInput[]): Promise<ProductPriceTier[]> {
+  // Replaced in one transaction, so a failed save keeps the old tiers
+  const { data, error } = await supabase.rpc('set_product_price_tiers', {
+    p_product_id: productId,
+    p_tiers: tiers.map(tier => ({ min_quantity: tier.min_quantity, price: tier.price }))
+  });
+
+  if (error) {
+    console.error(`Error saving price tiers of product ${productId}:`, error);
+    throw error;
+  }
+
+  return data as ProductPriceTier[];
+}
+
+/**
+ * Save the pack variants of a product: existing packs are updated, new ones created and
+ * packs missing from the list deleted. Packs that have been ordered can't be deleted, and then
+ * nothing is saved.
+ * @param productId Product ID
+ * @param packs The complete list of packs
+ */
+export async function setProductPacks(productId: string, packs: PackInput[]): Promise<ProductPack[]> {
+  // Saved in one transaction, so a pack that can't be deleted leaves all packs as they were
+  const { data, error } = await supabase.rpc('set_product_packs', {
+    p_product_id: productId,
+    p_packs: packs.map(pack => ({
+      id: pack.id ?? null,
+      name: pack.name,
+      sku_suffix: pack.sku_suffix,
+      base_quantity: pack.base_quantity,
+      price: pack.price,
+      is_active: pack.is_active,
+      sort_order: pack.sort_order
+    }))
+  });
+
+  if (error) {
+    console.error(`Error saving packs of product ${productId}:`, error);
+    throw error;
+  }
+
+  return data as ProductPack[];
+}
+
+/**
+ * Packs of a product that can be ordered, in display order
+ */
+export function getActivePacks(product: Pick<Product, 'packs'>): ProductPack[] {
+  return (product.packs || [])
+    .filter(pack => pack.is_active)
+    .sort((a, b) => a.sort_order - b.sort_order || a.base_quantity - b.base_quantity);
+}
+
+/**
+ * The SKU of a pack: the product's SKU followed by the pack's suffix
+ */
+export function getPackSku(product: Pick<Product, 'sku'>, pack: Pick<ProductPack, 'sku_suffix'>): string {
+  return `${product.sku}${pack.sku_suffix}`;
+}
+
+/**
+ * Quantity tiers that are cheaper than the product's own price, smallest quantity first.
+ * The product's price may already be a customer's contract price.
+ */
+export function getVolumePrices(product: Pick<Product, 'price' | 'price_tiers'>): ProductPriceTier[] {
+  return (product.price_tiers || [])
+    .filter(tier => tier.price < product.price)
+    .sort((a, b) => a.min_quantity - b.min_quantity);
+}
+
+/**
+ * The unit price for a quantity of a product, mirroring resolve_unit_price in the database:
+ * the tier with the largest minimum the quantity reaches, when it is cheaper than the product's
+ * own price. Smaller tiers are not considered, even when they are cheaper.
+ */
+export function getUnitPrice(product: Pick<Product, 'price' | 'price_tiers'>, quantity: number): number {
+  const tier = (product.price_tiers || [])
+    .filter(tier => tier.min_quantity <= quantity)
+    .reduce<ProductPriceTier | undefined>(
+      (largest, tier) => (!largest || tier.min_quantity > largest.min_quantity ? tier : largest),
+      undefined
+    );
+
+  return tier && tier.price < product.price ? tier.price : product.price;
+}
+
+/**
+ * The price of one unit of an order line, mirroring resolve_line_price in the database.
+ * A pack costs its own price, or the base unit price of its contents when that is cheaper.
+ * @param quantity Packs when a pack is given, base units otherwise
+ */
+export function getLinePrice(
+  product: Pick<Product, 'price' | 'price_tiers'>,
+  quantity: number,
+  pack?: Pick<ProductPack, 'price' | 'base_quantity'>
+): number {
+  if (!pack) {
+    return getUnitPrice(product, quantity);
+  }
+
+  const contentsPrice = Math.round(getUnitPrice(product, quantity * pack.base_quantity) * pack.base_quantity * 100) / 100;
+  return Math.min(pack.price, contentsPrice);
+}
+
+// Slack for quantities like 0.3 kg that binary floating point can't represent exactly
+const QUANTITY_TOLERANCE = 1e-9;
+
+/**
+ * Whether an order line keeps to its product's minimum quantity and quantity step, mirroring
+ * place_order. Both rules are in the product's base unit, whatever pack the line is in.
+ * @param quantity Packs when a pack is given, base units otherwise
+ */
+export function meetsQuantityRules(
+  product: Pick<Product, 'min_order_quantity' | 'quantity_step'>,
+  quantity: number,
+  pack?: Pick<ProductPack, 'base_quantity'>
+): boolean {
+  const baseQuantity = quantity * (pack?.base_quantity || 1);
+  if (baseQuantity < (product.min_order_quantity || 0) - QUANTITY_TOLERANCE) return false;
+  if (!product.quantity_step) return true;
+
+  const steps = baseQuantity / product.quantity_step;
+  return Math.abs(steps - Math.round(steps)) < QUANTITY_TOLERANCE * Math.max(1, steps);
+}
+
+/**
+ * The smallest quantity of at least the given one that meets the product's quantity rules
+ * @param quantity Packs when a pack is given, base units otherwise
+ */
+export function getAllowedQuantity(
+  product: Pick<Product, 'min_order_quantity' | 'quantity_step'>,
+  quantity: number,
+  pack?: Pick<ProductPack, 'base_quantity'>
+): number {
+  // Packs can only be ordered whole; try the next few counts
+  if (pack) {
+    const first = Math.max(1, Math.ceil(quantity));
+    for (let packs = first; packs < first + 1000; packs++) {
+      if (meetsQuantityRules(product, packs, pack)) return packs;
+    }
+    return quantity;
+  }
+
+  let allowed = Math.max(quantity, product.min_order_quantity || 0);
+  if (product.quantity_step) {
+    allowed = Math.ceil(allowed / product.quantity_step - QUANTITY_TOLERANCE) * product.quantity_step;
+  }
+  return Math.round(allowed * 1e6) / 1e6;
+}
+
+/**
+ * The largest quantity of at most the given one that meets the product's quantity rules,
+ * or 0 when none does
+ * @param quantity Packs when a pack is given, base units otherwise
+ */
+export function getAllowedQuantityUpTo(
+  product: Pick<Product, 'min_order_quantity' | 'quantity_step'>,
+  quantity: number,
+  pack?: Pick<ProductPack, 'base_quantity'>
+): number {
+  // Packs can only be ordered whole; try the previous few counts
+  if (pack) {
+    const last = Math.floor(quantity + QUANTITY_TOLERANCE);
+    for (let packs = last; packs > 0 && packs > last - 1000; packs--) {
+      if (meetsQuantityRules(product, packs, pack)) return packs;
+    }
+    return 0;
+  }
+
+  let allowed = quantity;
+  if (product.quantity_step) {
+    allowed = Math.floor(allowed / product.quantity_step + QUANTITY_TOLERANCE) * product.quantity_step;
+  }
+  allowed = Math.round(allowed * 1e6) / 1e6;
+  return meetsQuantityRules(product, allowed) ? allowed : 0;
+}
+
+/**
+ * How much the cart's plus and minus buttons change a line by: the quantity step for loose
+ * products, one pack otherwise
+ */
+export function getQuantityIncrement(product: Pick<Product, 'quantity_step'>, pack?: ProductPack): number {
+  return pack ? 1 : product.quantity_step || 1;
+}
+
 /**
  * Delete a product
  */
@@ -245,6 +495,7 @@ export async function batchCreateProducts(
 
 /**
  * Get paginated products with optional filters
+ * @param categoryId Only return products in this category or one of its subcategories
  */
 export async function getPaginatedProducts(
   page: number, 
@@ -252,17 +503,23 @@ export async function getPaginatedProducts(
   sortField: keyof Product = 'name_en', 
   sortDirection: 'asc' | 'desc' = 'asc',
   filter?: string,
-  active?: boolean // ➕ thêm filter theo trạng thái
+  active?: boolean, // ➕ thêm filter theo trạng thái
+  categoryId?: string
 ) {
   let query = supabase
     .from('products')
-    .select('*', { count: 'exact' });
+    .select('*, category:categories(*), price_tiers:product_price_tiers(*), packs:product_packs(*)', { count: 'exact' });
 
   // ➕ Filter theo trạng thái nếu có truyền
   if (typeof active === 'boolean') {
     query = query.eq('is_active', active);
   }
 
+  if (categoryId) {
+    const categoryIds = getCategoryDescendantIds(await getCategories(), categoryId);
+    query = query.in('category_id', categoryIds);
+  }
+
   // 🔍 Áp dụng bộ lọc tìm kiếm nếu có
   if (filter) {
     query = query.or(
@@ -293,6 +550,36 @@ export async function getPaginatedProducts(
     totalPages: Math.ceil((count || 0) / pageSize)
   };
 }
+/**
+ * Atomically add a delta to a product's on-hand stock and record it in the stock ledger.
+ * Decreases that would cut into stock reserved for open orders are rejected.
+ * @param productId Product ID
+ * @param delta Quantity to add (negative to remove)
+ * @param reason Why the stock changed
+ * @param notes Optional free-text explanation
+ */
+export async function adjustProductStock(
+  productId: string,
+  delta: number,
+  reason: StockMovementReason = 'manual_adjustment',
+  notes?: string
+): Promise<Product> {
+  const { data, error } = await supabase
+    .rpc('adjust_product_stock', {
+      p_product_id: productId,
+      p_delta: delta,
+      p_reason: reason,
+      p_notes: notes ?? null
+    });
+
+  if (error) {
+    console.error(`Error adjusting stock for product ${productId}:`, error);
+    throw error;
+  }
+
+  return data as Product;
+}
+
 /**
  * Update product stock quantity after an order is placed
  * @param productId Product ID
@@ -300,27 +587,7 @@ export async function getPaginatedProducts(
  */
 export async function updateProductStock(productId: string, quantityPurchased: number): Promise<boolean> {
   try {
-    // First get current product to check stock
-    const product = await getProductById(productId);
-    
-    if (!product) {
-      throw new Error(`Product ${productId} not found`);
-    }
-    
-    // Calculate new stock
-    const newStock = Math.max(0, product.stock - quantityPurchased);
-    
-    // Update the product with new stock
-    const { error } = await supabase
-      .from('products')
-      .update({ stock: newStock })
-      .eq('id', productId);
-    
-    if (error) {
-      console.error(`Error updating stock for product ${productId}:`, error);
-      throw error;
-    }
-    
+    await adjustProductStock(productId, -quantityPurchased);
     return true;
   } catch (error) {
     console.error(`Error updating stock for product ${productId}:`, error);
@@ -329,37 +596,19 @@ export async function updateProductStock(productId: string, quantityPurchased: n
 }
 
 /**
- * Decrease product stock (when order is placed/confirmed)
+ * Decrease product stock (e.g. spoilage or a manual correction)
  * @param productId Product ID
  * @param quantity Quantity to decrease
+ * @param reason Why the stock changed
  */
-export async function decreaseProductStock(productId: string, quantity: number): Promise<boolean> {
+export async function decreaseProductStock(
+  productId: string,
+  quantity: number,
+  reason: StockMovementReason = 'manual_adjustment'
+): Promise<boolean> {
   try {
-    // Get current product to check stock
-    const product = await getProductById(productId);
-    
-    if (!product) {
-      throw new Error(`Product ${productId} not found`);
-    }
-    
-    // Calculate new stock
-    const newStock = product.stock - quantity;
-    
-    // Update the product with new stock
-    const { error } = await supabase
-      .from('products')
-      .update({ 
-        stock: newStock,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', productId);
-    
-    if (error) {
-      console.error(`Error decreasing stock for product ${productId}:`, error);
-      throw error;
-    }
-    
-    console.log(`Stock decreased for product ${productId}: ${product.stock} -> ${newStock} (decreased by ${quantity})`);
+    const product = await adjustProductStock(productId, -quantity, reason);
+    console.log(`Stock decreased for product ${productId} to ${product.stock} (decreased by ${quantity})`);
     return true;
   } catch (error) {
     console.error(`Error decreasing stock for product ${productId}:`, error);
@@ -368,37 +617,19 @@ export async function decreaseProductStock(productId: string, quantity: number):
 }
 
 /**
- * Increase product stock (when order is cancelled)
+ * Increase product stock (e.g. a delivery from a supplier)
  * @param productId Product ID
  * @param quantity Quantity to increase
+ * @param reason Why the stock changed
  */
-export async function increaseProductStock(productId: string, quantity: number): Promise<boolean> {
+export async function increaseProductStock(
+  productId: string,
+  quantity: number,
+  reason: StockMovementReason = 'manual_adjustment'
+): Promise<boolean> {
   try {
-    // Get current product
-    const product = await getProductById(productId);
-    
-    if (!product) {
-      throw new Error(`Product ${productId} not found`);
-    }
-    
-    // Calculate new stock
-    const newStock = product.stock + quantity;
-    
-    // Update the product with new stock
-    const { error } = await supabase
-      .from('products')
-      .update({ 
-        stock: newStock,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', productId);
-    
-    if (error) {
-      console.error(`Error increasing stock for product ${productId}:`, error);
-      throw error;
-    }
-    
-    console.log(`Stock increased for product ${productId}: ${product.stock} -> ${newStock} (increased by ${quantity})`);
+    const product = await adjustProductStock(productId, quantity, reason);
+    console.log(`Stock increased for product ${productId} to ${product.stock} (increased by ${quantity})`);
     return true;
   } catch (error) {
     console.error(`Error increasing stock for product ${productId}:`, error);
@@ -407,14 +638,18 @@ export async function increaseProductStock(productId: string, quantity: number):
 }
 
 /**
- * Batch decrease stock for multiple products (when order is placed)
+ * Batch decrease stock for multiple products (e.g. a spoilage write-off)
  * @param items Array of {productId, quantity} objects
+ * @param reason Why the stock changed
  */
-export async function batchDecreaseStock(items: { productId: string; quantity: number }[]): Promise<boolean> {
+export async function batchDecreaseStock(
+  items: { productId: string; quantity: number }[],
+  reason: StockMovementReason = 'manual_adjustment'
+): Promise<boolean> {
   try {
     // Process each item sequentially to maintain data consistency
     for (const item of items) {
-      await decreaseProductStock(item.productId, item.quantity);
+      await decreaseProductStock(item.productId, item.quantity, reason);
     }
     
     console.log(`Batch stock decrease completed for ${items.length} products`);
@@ -426,14 +661,18 @@ export async function batchDecreaseStock(items: { productId: string; quantity: n
 }
 
 /**
- * Batch increase stock for multiple products (when order is cancelled)
+ * Batch increase stock for multiple products (e.g. a delivery from a supplier)
  * @param items Array of {productId, quantity} objects
+ * @param reason Why the stock changed
  */
-export async function batchIncreaseStock(items: { productId: string; quantity: number }[]): Promise<boolean> {
+export async function batchIncreaseStock(
+  items: { productId: string; quantity: number }[],
+  reason: StockMovementReason = 'manual_adjustment'
+): Promise<boolean> {
   try {
     // Process each item sequentially to maintain data consistency
     for (const item of items) {
-      await increaseProductStock(item.productId, item.quantity);
+      await increaseProductStock(item.productId, item.quantity, reason);
     }
     
     console.log(`Batch stock increase completed for ${items.length} products`);
@@ -445,23 +684,135 @@ export async function batchIncreaseStock(items: { productId: string; quantity: n
 }
 
 /**
- * Restore stock from order items (when order is cancelled)
- * @param orderItems Array of order items with product_id and quantity
+ * Turn an order's stock reservation into a real decrease (when the order is completed).
+ * Returns false if the order holds no reservation, e.g. it was placed before reservations existed.
+ * @param orderId Order ID
  */
-export async function restoreStockFromOrder(orderItems: { product_id: string; quantity: number }[]): Promise<boolean> {
-  try {
-    const stockItems = orderItems.map(item => ({
-      productId: item.product_id,
-      quantity: item.quantity
-    }));
-    
-    await batchIncreaseStock(stockItems);
-    console.log(`Stock restored for ${orderItems.length} products from cancelled order`);
-    return true;
-  } catch (error) {
-    console.error('Error restoring stock from order:', error);
+export async function commitOrderStock(orderId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .rpc('commit_order_stock', { p_order_id: orderId });
+
+  if (error) {
+    console.error(`Error committing stock for order ${orderId}:`, error);
+    throw error;
+  }
+
+  return data as boolean;
+}
+
+/**
+ * Release an order's stock reservation (when the order is cancelled or deleted)
+ * @param orderId Order ID
+ */
+export async function releaseOrderStock(orderId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .rpc('release_order_stock', { p_order_id: orderId });
+
+  if (error) {
+    console.error(`Error releasing stock for order ${orderId}:`, error);
     throw error;
   }
+
+  return data as boolean;
+}
+
+/**
+ * Get the stock ledger of a product, newest first
+ * @param productId Product ID
+ * @param limit Maximum number of movements to return
+ */
+export async function getStockMovements(productId: string, limit = 100): Promise<StockMovement[]> {
+  const { data, error } = await supabase
+    .from('stock_movements')
+    .select(`
+      *,
+      user:users!created_by(id, name, email)
+    `)
+    .eq('product_id', productId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error(`Error fetching stock movements for product ${productId}:`, error);
+    throw error;
+  }
+
+  return data as StockMovement[];
+}
+
+/**
+ * Stock that can still be ordered: on-hand stock minus what open orders have reserved
+ */
+export function getAvailableStock(product: Pick<Product, 'stock' | 'reserved_stock'>): number {
+  return Math.max(0, (product.stock || 0) - (product.reserved_stock || 0));
+}
+
+/**
+ * Extract the structured shortage from an insufficient stock error raised by the database
+ * @returns The shortage, or null if the error is not a stock error
+ */
+export function getStockShortage(error: any): StockShortage | null {
+  if (error?.hint !== 'insufficient_stock' || !error.details) {
+    return null;
+  }
+
+  try {
+    const details = JSON.parse(error.details);
+    return {
+      product_id: details.product_id,
+      product_name: details.product_name,
+      available: Number(details.available),
+      requested: Number(details.requested)
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extract the broken rule from an invalid quantity error raised by place_order
+ * @returns The violation, or null if the error is not a quantity rule error
+ */
+export function getQuantityRuleViolation(error: any): QuantityRuleViolation | null {
+  if (error?.hint !== 'invalid_quantity' || !error.details) {
+    return null;
+  }
+
+  try {
+    const details = JSON.parse(error.details);
+    return {
+      product_id: details.product_id,
+      product_name: details.product_name,
+      unit: details.unit,
+      quantity: Number(details.quantity),
+      minimum: details.minimum ?? undefined,
+      step: details.step ?? undefined
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extract the product and earliest date from a lead time error raised by place_order
+ * @returns The violation, or null if the error is not a lead time error
+ */
+export function getLeadTimeViolation(error: any): LeadTimeViolation | null {
+  if (error?.hint !== 'lead_time' || !error.details) {
+    return null;
+  }
+
+  try {
+    const details = JSON.parse(error.details);
+    return {
+      product_id: details.product_id,
+      product_name: details.product_name,
+      lead_time_days: Number(details.lead_time_days),
+      earliest_date: details.earliest_date
+    };
+  } catch {
+    return null;
+  }
 }
 
 /**
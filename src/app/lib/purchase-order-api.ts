@@ -0,0 +1,153 @@
+import { supabase } from './supabase';
+import { PurchaseOrder, PurchaseOrderItem, PurchaseOrderStatus, StockLot } from './types';
+
+export type { PurchaseOrder, PurchaseOrderItem, PurchaseOrderStatus } from './types';
+
+// A product the order summary needs more of, but that no active supplier carries
+export interface UnassignedDemand {
+  product_id: string;
+  name_en: string;
+  unit: string;
+  quantity: number;
+}
+
+export interface GeneratePurchaseOrdersResult {
+  purchase_orders: string[];
+  unassigned: UnassignedDemand[];
+}
+
+// What arrived of one purchase order line; the lot details go onto the stock lot it creates
+export type ReceivePurchaseOrderItem = Pick<StockLot, 'harvest_date' | 'expiry_date'> & {
+  item_id: string;
+  quantity: number;
+  lot_number?: string;
+};
+
+/**
+ * Fetch purchase orders with their supplier and items, newest first
+ * @param status Only purchase orders with this status
+ */
+export async function getPurchaseOrders(status?: PurchaseOrderStatus): Promise<PurchaseOrder[]> {
+  let query = supabase
+    .from('purchase_orders')
+    .select('*, supplier:suppliers(*), items:purchase_order_items(*, product:products(*))')
+    .order('created_at', { ascending: false });
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching purchase orders:', error);
+    throw error;
+  }
+
+  return data as PurchaseOrder[];
+}
+
+/**
+ * Turn the order summary of a period into draft purchase orders, one per supplier, for what
+ * the open orders need beyond free stock and beyond what is already on order
+ * @param expectedDate When the goods should arrive
+ */
+export async function generatePurchaseOrders(
+  startDate: string,
+  endDate: string,
+  expectedDate?: string
+): Promise<GeneratePurchaseOrdersResult> {
+  const { data, error } = await supabase
+    .rpc('generate_purchase_orders', {
+      p_start_date: startDate,
+      p_end_date: endDate,
+      p_expected_date: expectedDate || null
+    });
+
+  if (error) {
+    console.error('Error generating purchase orders:', error);
+    throw error;
+  }
+
+  return data as unknown as GeneratePurchaseOrdersResult;
+}
+
+/**
+ * Move a purchase order to another status; receiving goes through receivePurchaseOrder
+ */
+export async function updatePurchaseOrderStatus(
+  id: string,
+  status: Exclude<PurchaseOrderStatus, 'received'>
+): Promise<PurchaseOrder> {
+  const { data, error } = await supabase
+    .from('purchase_orders')
+    .update({ status })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error(`Error updating status of purchase order ${id}:`, error);
+    throw error;
+  }
+
+  return data as PurchaseOrder;
+}
+
+/**
+ * Change the quantity or cost of a line of a draft purchase order
+ */
+export async function updatePurchaseOrderItem(
+  id: string,
+  itemData: Pick<PurchaseOrderItem, 'quantity' | 'unit_cost'>
+): Promise<PurchaseOrderItem> {
+  const { data, error } = await supabase
+    .from('purchase_order_items')
+    .update(itemData)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error(`Error updating purchase order item ${id}:`, error);
+    throw error;
+  }
+
+  return data as PurchaseOrderItem;
+}
+
+/**
+ * Delete a purchase order and its lines
+ */
+export async function deletePurchaseOrder(id: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('purchase_orders')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error(`Error deleting purchase order ${id}:`, error);
+    throw error;
+  }
+
+  return true;
+}
+
+/**
+ * Receive a purchase order: each line is booked into stock as a lot of the supplier.
+ * Lines left out of items are received as ordered.
+ */
+export async function receivePurchaseOrder(id: string, items: ReceivePurchaseOrderItem[] = []): Promise<PurchaseOrder> {
+  const { data, error } = await supabase
+    .rpc('receive_purchase_order', {
+      p_purchase_order_id: id,
+      p_items: items
+    });
+
+  if (error) {
+    console.error(`Error receiving purchase order ${id}:`, error);
+    throw error;
+  }
+
+  return data as PurchaseOrder;
+}
@@ -1,4 +1,14 @@
+import { SupabaseClient } from '@supabase/supabase-js';
 import { supabase } from './supabase';
+import { getDeliveryHolidays } from './holiday-api';
+import {
+  DEFAULT_CUTOFF_TIME,
+  DEFAULT_DELIVERY_DAYS,
+  DEFAULT_TIME_ZONE,
+  getDeliverySchedule,
+  getNextDeliveryDate,
+  isDeliveryDate
+} from './delivery-date';
 
 export interface AppSettings {
   id?: string;
@@ -22,17 +32,26 @@ export interface AppSettings {
   // Delivery configuration
   order_cutoff_time?: string; // Format: "HH:MM" (24-hour format)
   delivery_days?: number[]; // Array of day numbers (0=Sunday, 1=Monday, ..., 6=Saturday)
+  holiday_country?: string | null; // ISO country code whose public holidays block deliveries
+  delivery_booking_days?: number; // How many days ahead customers can choose a delivery date
+  timezone?: string; // IANA timezone the cutoff time and delivery dates are in, e.g. "Europe/Berlin"
+  min_order_value?: number; // Applies unless the delivery zone's is higher or the customer has their own
+  // Invoice numbering
+  invoice_number_prefix?: string; // e.g. "INV" -> INV-2026-000123
+  invoice_number_padding?: number; // Number of digits in the sequence part
+  invoice_number_yearly_reset?: boolean; // Restart the sequence every calendar year
   created_at?: string;
   updated_at?: string;
 }
 
 /**
  * Get the current application settings
+ * @param client Supabase client to query with; scheduled jobs pass a service client
  */
-export async function getAppSettings(): Promise<AppSettings | null> {
+export async function getAppSettings(client: SupabaseClient = supabase): Promise<AppSettings | null> {
   try {
     // Get the first settings record (there should only be one)
-    const { data, error } = await supabase
+    const { data, error } = await client
       .from('settings')
       .select('*')
       .order('created_at', { ascending: true })
@@ -47,7 +66,7 @@ export async function getAppSettings(): Promise<AppSettings | null> {
       throw error;
     }
     
-    return data;
+    return data as AppSettings;
   } catch (err) {
     console.error('Get app settings failed:', err);
     throw err;
@@ -79,7 +98,7 @@ export async function updateAppSettings(settings: Partial<AppSettings>): Promise
         throw error;
       }
       
-      return data;
+      return data as AppSettings;
     } else {
       // Update existing settings
       const { data, error } = await supabase
@@ -88,7 +107,7 @@ export async function updateAppSettings(settings: Partial<AppSettings>): Promise
           ...settings,
           updated_at: new Date().toISOString()
         })
-        .eq('id', currentSettings.id)
+        .eq('id', currentSettings.id!)
         .select()
         .single();
       
@@ -97,7 +116,7 @@ export async function updateAppSettings(settings: Partial<AppSettings>): Promise
         throw error;
       }
       
-      return data;
+      return data as AppSettings;
     }
   } catch (err) {
     console.error('Update app settings failed:', err);
@@ -261,72 +280,57 @@ export function formatPriceSync(price: number, currencyCode: string = 'USD'): st
  */
 export function getDefaultDeliverySettings() {
   return {
-    order_cutoff_time: '18:00',
-    delivery_days: [1, 2, 3, 4, 5, 6] // Monday to Saturday
+    order_cutoff_time: DEFAULT_CUTOFF_TIME,
+    delivery_days: DEFAULT_DELIVERY_DAYS,
+    delivery_booking_days: 14,
+    timezone: DEFAULT_TIME_ZONE,
+    min_order_value: 0
   };
 }
 
+/**
+ * Get default invoice numbering configuration
+ */
+export function getDefaultInvoiceNumberSettings() {
+  return {
+    invoice_number_prefix: 'INV',
+    invoice_number_padding: 6,
+    invoice_number_yearly_reset: true
+  };
+}
+
+/**
+ * Preview what an invoice number looks like with the given settings.
+ * The real numbers are allocated by the database (create_numbered_invoice).
+ */
+export function formatInvoiceNumberPreview(
+  prefix: string,
+  padding: number,
+  yearlyReset: boolean,
+  sequence: number = 1,
+  year: number = new Date().getFullYear()
+): string {
+  const number = String(sequence).padStart(padding, '0');
+  return yearlyReset ? `${prefix}-${year}-${number}` : `${prefix}-${number}`;
+}
+
 /**
  * Calculate delivery date based on order placement time and delivery settings
  */
 export async function calculateDeliveryDate(orderDate: Date = new Date()): Promise<Date> {
   try {
     const settings = await getAppSettings();
-    const defaults = getDefaultDeliverySettings();
-    
-    const cutoffTime = settings?.order_cutoff_time || defaults.order_cutoff_time;
-    const deliveryDays = settings?.delivery_days || defaults.delivery_days;
-    
-    return calculateDeliveryDateSync(orderDate, cutoffTime, deliveryDays);
+    const holidays = await getDeliveryHolidays();
+
+    return getNextDeliveryDate(orderDate, getDeliverySchedule(settings, {
+      holidays,
+      country: settings?.holiday_country
+    }));
   } catch (error) {
     console.error('Error calculating delivery date:', error);
     // Fallback to default logic
-    const defaults = getDefaultDeliverySettings();
-    return calculateDeliveryDateSync(orderDate, defaults.order_cutoff_time, defaults.delivery_days);
-  }
-}
-
-/**
- * Calculate delivery date synchronously with provided settings
- */
-export function calculateDeliveryDateSync(
-  orderDate: Date,
-  cutoffTime: string,
-  deliveryDays: number[]
-): Date {
-  // Parse cutoff time
-  const [cutoffHour, cutoffMinute] = cutoffTime.split(':').map(Number);
-  
-  // Create cutoff time for the order date
-  const cutoffDateTime = new Date(orderDate);
-  cutoffDateTime.setHours(cutoffHour, cutoffMinute, 0, 0);
-  
-  // Determine the next delivery date
-  let deliveryDate = new Date(orderDate);
-  
-  // If order is placed after cutoff time, move to next day
-  if (orderDate > cutoffDateTime) {
-    deliveryDate.setDate(deliveryDate.getDate() + 1);
+    return getNextDeliveryDate(orderDate, getDeliverySchedule(null));
   }
-  
-  // Find the next delivery day
-  let daysToAdd = 0;
-  const maxDaysToCheck = 14; // Prevent infinite loop
-  
-  while (daysToAdd < maxDaysToCheck) {
-    const currentDay = deliveryDate.getDay();
-    
-    if (deliveryDays.includes(currentDay)) {
-      // Found a delivery day
-      break;
-    }
-    
-    // Move to next day
-    deliveryDate.setDate(deliveryDate.getDate() + 1);
-    daysToAdd++;
-  }
-  
-  return deliveryDate;
 }
 
 /**
@@ -335,10 +339,9 @@ export function calculateDeliveryDateSync(
 export async function isDeliveryDay(date: Date): Promise<boolean> {
   try {
     const settings = await getAppSettings();
-    const defaults = getDefaultDeliverySettings();
-    const deliveryDays = settings?.delivery_days || defaults.delivery_days;
-    
-    return deliveryDays.includes(date.getDay());
+    const holidays = await getDeliveryHolidays();
+
+    return isDeliveryDate(date, getDeliverySchedule(settings, { holidays, country: settings?.holiday_country }));
   } catch (error) {
     console.error('Error checking delivery day:', error);
     return true; // Default to available
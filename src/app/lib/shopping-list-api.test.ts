@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { Product, ProductPack, ShoppingList, ShoppingListItem } from './types';
+import { getShoppingListCartLines } from './shopping-list-api';
+
+const product = (fields: Partial<Product>): Product => ({
+  id: 'product',
+  name_en: 'Potatoes',
+  price: 1,
+  unit: 'kg',
+  sku: 'POT',
+  is_active: true,
+  stock: 100,
+  reserved_stock: 0,
+  ...fields
+} as Product);
+
+const list = (...items: Partial<ShoppingListItem>[]): ShoppingList => ({
+  id: 'list',
+  user_id: 'user',
+  name: 'Weekend',
+  items: items.map((item, index) => ({
+    id: `item-${index}`,
+    shopping_list_id: 'list',
+    product_id: item.product?.id || 'product',
+    quantity: 1,
+    ...item
+  } as ShoppingListItem))
+} as ShoppingList);
+
+describe('getShoppingListCartLines', () => {
+  it('adds lines as saved when there is stock', () => {
+    const { lines, issues } = getShoppingListCartLines(list({ product: product({}), quantity: 7 }));
+    expect(lines.map(line => line.quantity)).toEqual([7]);
+    expect(issues).toEqual([]);
+  });
+
+  it('cuts a line short of stock down to the quantity step', () => {
+    const potatoes = product({ stock: 7, quantity_step: 2.5 });
+    const { lines, issues } = getShoppingListCartLines(list({ product: potatoes, quantity: 10 }));
+    expect(lines.map(line => line.quantity)).toEqual([5]);
+    expect(issues).toEqual([{ product_name: 'Potatoes', reason: 'reduced', requested: 10, quantity: 5 }]);
+  });
+
+  it('leaves out a line when the stock does not reach the minimum', () => {
+    const potatoes = product({ stock: 4, min_order_quantity: 5 });
+    const { lines, issues } = getShoppingListCartLines(list({ product: potatoes, quantity: 10 }));
+    expect(lines).toEqual([]);
+    expect(issues[0].reason).toBe('out_of_stock');
+  });
+
+  it('rounds a saved quantity up to rules that changed since, when the stock allows', () => {
+    const potatoes = product({ quantity_step: 5 });
+    const { lines, issues } = getShoppingListCartLines(list({ product: potatoes, quantity: 7 }));
+    expect(lines.map(line => line.quantity)).toEqual([10]);
+    expect(issues).toEqual([]);
+  });
+
+  it('cuts a pack line to whole packs that keep to the rules', () => {
+    // Cases of 4 kg, ordered in steps of 8 kg: only even numbers of cases
+    const potatoes = product({ stock: 22, quantity_step: 8 });
+    const pack = { id: 'case', product_id: 'product', base_quantity: 4, is_active: true } as ProductPack;
+    const { lines } = getShoppingListCartLines(list({ product: potatoes, pack, pack_id: 'case', quantity: 10 }));
+    expect(lines.map(line => line.quantity)).toEqual([4]);
+  });
+});
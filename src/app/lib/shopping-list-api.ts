@@ -0,0 +1,197 @@
+import { supabase } from './supabase';
+import { Order, Product, ProductPack, ShoppingList, ShoppingListItem } from './types';
+import { getAllowedQuantity, getAllowedQuantityUpTo, getAvailableStock } from './product-api';
+
+export type { ShoppingList, ShoppingListItem } from './types';
+
+export type ShoppingListItemInput = Pick<ShoppingListItem, 'product_id' | 'pack_id' | 'quantity'>;
+
+// A shopping list line as it can go into the cart today
+export interface ShoppingListCartLine {
+  product: Product;
+  pack?: ProductPack;
+  quantity: number;
+}
+
+// A line that could not go into the cart as saved
+export interface ShoppingListIssue {
+  product_name: string;
+  reason: 'inactive' | 'out_of_stock' | 'reduced';
+  requested: number;
+  quantity: number; // What went into the cart; 0 when nothing did
+}
+
+// localStorage key of a list to add to the cart when the store opens, like Buy Again's pendingCart
+export const PENDING_SHOPPING_LIST_KEY = 'pendingShoppingList';
+
+const SHOPPING_LIST_SELECT = '*, items:shopping_list_items(*, product:products(*, price_tiers:product_price_tiers(*), packs:product_packs(*)), pack:product_packs(*))';
+
+/**
+ * Fetch the shopping lists of a customer with their items and products, by name
+ */
+export async function getShoppingLists(userId: string): Promise<ShoppingList[]> {
+  const { data, error } = await supabase
+    .from('shopping_lists')
+    .select(SHOPPING_LIST_SELECT)
+    .eq('user_id', userId)
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching shopping lists:', error);
+    throw error;
+  }
+
+  return data as ShoppingList[];
+}
+
+/**
+ * Create a shopping list with its items
+ */
+export async function createShoppingList(userId: string, name: string, items: ShoppingListItemInput[]): Promise<ShoppingList> {
+  const { data, error } = await supabase
+    .from('shopping_lists')
+    .insert([{ user_id: userId, name }])
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating shopping list:', error);
+    throw error;
+  }
+
+  try {
+    await setShoppingListItems(data.id, items);
+  } catch (err) {
+    // Don't leave an empty list behind
+    await deleteShoppingList(data.id);
+    throw err;
+  }
+
+  return data as ShoppingList;
+}
+
+/**
+ * Rename a shopping list
+ */
+export async function renameShoppingList(id: string, name: string): Promise<ShoppingList> {
+  const { data, error } = await supabase
+    .from('shopping_lists')
+    .update({ name })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error(`Error renaming shopping list ${id}:`, error);
+    throw error;
+  }
+
+  return data as ShoppingList;
+}
+
+/**
+ * Replace the items of a shopping list. Lines of the same product and pack are merged.
+ */
+export async function setShoppingListItems(id: string, items: ShoppingListItemInput[]): Promise<ShoppingListItem[]> {
+  const merged: ShoppingListItemInput[] = [];
+  items.forEach(item => {
+    const existing = merged.find(m => m.product_id === item.product_id && (m.pack_id ?? null) === (item.pack_id ?? null));
+    if (existing) {
+      existing.quantity += item.quantity;
+    } else {
+      merged.push({ ...item });
+    }
+  });
+
+  // Replaced in one transaction, so a failed save keeps the old items
+  const { data, error } = await supabase.rpc('set_shopping_list_items', {
+    p_shopping_list_id: id,
+    p_items: merged.map(item => ({
+      product_id: item.product_id,
+      pack_id: item.pack_id ?? null,
+      quantity: item.quantity
+    }))
+  });
+
+  if (error) {
+    console.error(`Error setting items of shopping list ${id}:`, error);
+    throw error;
+  }
+
+  return data as ShoppingListItem[];
+}
+
+/**
+ * Delete a shopping list
+ */
+export async function deleteShoppingList(id: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('shopping_lists')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error(`Error deleting shopping list ${id}:`, error);
+    throw error;
+  }
+
+  return true;
+}
+
+/**
+ * The items of a past order, to save it as a shopping list
+ */
+export function getOrderListItems(order: Pick<Order, 'items'>): ShoppingListItemInput[] {
+  return (order.items || [])
+    .filter(item => item.product_id)
+    .map(item => ({
+      product_id: item.product_id,
+      pack_id: item.pack_id,
+      quantity: item.quantity
+    }));
+}
+
+/**
+ * Whether a shopping list item can still be ordered: its product and pack are active
+ */
+export function isShoppingListItemAvailable(item: ShoppingListItem): boolean {
+  if (!item.product?.is_active) return false;
+  return !item.pack_id || !!item.pack?.is_active;
+}
+
+/**
+ * The cart lines of a shopping list with quantities that keep to the products' quantity rules,
+ * cut down to the stock available now. Inactive products and packs are left out, and lines
+ * that get less than was saved are reported.
+ */
+export function getShoppingListCartLines(list: ShoppingList): { lines: ShoppingListCartLine[]; issues: ShoppingListIssue[] } {
+  const lines: ShoppingListCartLine[] = [];
+  const issues: ShoppingListIssue[] = [];
+
+  (list.items || []).forEach(item => {
+    const product = item.product;
+    const issue = { product_name: product?.name_en || '', requested: item.quantity };
+
+    if (!product || !isShoppingListItemAvailable(item)) {
+      issues.push({ ...issue, reason: 'inactive', quantity: 0 });
+      return;
+    }
+
+    // The cart rounds quantities up to the product's minimum and step, so the line is cut to
+    // the largest allowed quantity the stock covers. Stock is counted in base units.
+    const available = getAvailableStock(product) / (item.pack?.base_quantity || 1);
+    const allowed = getAllowedQuantity(product, item.quantity, item.pack);
+    const quantity = allowed <= available ? allowed : getAllowedQuantityUpTo(product, available, item.pack);
+
+    if (quantity <= 0) {
+      issues.push({ ...issue, reason: 'out_of_stock', quantity: 0 });
+      return;
+    }
+    if (quantity < item.quantity) {
+      issues.push({ ...issue, reason: 'reduced', quantity });
+    }
+    lines.push({ product, pack: item.pack, quantity });
+  });
+
+  return { lines, issues };
+}
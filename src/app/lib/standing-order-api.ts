@@ -0,0 +1,304 @@
+import { format } from 'date-fns';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { Order, StandingOrder, StandingOrderItem, TablesUpdate } from './types';
+import { createOrder } from './order-api';
+import { getAppSettings } from './settings-api';
+import { getDeliveryHolidays } from './holiday-api';
+import { getDeliveryZones, findDeliveryZone } from './delivery-zone-api';
+import { DeliveryDateOption, getDeliveryOptions } from './delivery-slot-api';
+import {
+  addCalendarDays,
+  getCompanyTime,
+  getDeliverySchedule,
+  getNextDeliveryDate,
+  resolveDeliverySchedule
+} from './delivery-date';
+
+export type { StandingOrder, StandingOrderItem } from './types';
+
+export type CreateStandingOrderData = Omit<StandingOrder, 'id' | 'created_at' | 'updated_at' | 'items' | 'last_error' | 'starts_on'> & {
+  starts_on?: string; // Defaults to today
+};
+export type UpdateStandingOrderData = Omit<TablesUpdate<'standing_orders'>, 'id' | 'user_id' | 'created_at' | 'updated_at'>;
+export type StandingOrderItemInput = Pick<StandingOrderItem, 'product_id' | 'pack_id' | 'quantity'>;
+
+// A standing order as loaded by the scheduled job, with the customer to place it for
+interface DueStandingOrder extends StandingOrder {
+  customer?: {
+    email?: string;
+    name?: string;
+    zip_code?: string;
+    address?: string;
+  };
+}
+
+// What the scheduled job did with one standing order
+export interface StandingOrderRunResult {
+  standing_order: DueStandingOrder;
+  delivery_date: string; // yyyy-MM-dd
+  order?: Order;
+  adjust_until?: Date; // The cutoff the customer can still skip or change the order before
+  error?: string;
+}
+
+const STANDING_ORDER_SELECT = '*, items:standing_order_items(*, product:products(*), pack:product_packs(*))';
+
+/**
+ * Fetch the standing orders of a customer with their items, newest first
+ */
+export async function getStandingOrders(userId: string): Promise<StandingOrder[]> {
+  const { data, error } = await supabase
+    .from('standing_orders')
+    .select(STANDING_ORDER_SELECT)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching standing orders:', error);
+    throw error;
+  }
+
+  return data as StandingOrder[];
+}
+
+/**
+ * Create a standing order with its items
+ */
+export async function createStandingOrder(
+  standingOrderData: CreateStandingOrderData,
+  items: StandingOrderItemInput[]
+): Promise<StandingOrder> {
+  const { data, error } = await supabase
+    .from('standing_orders')
+    .insert([standingOrderData])
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating standing order:', error);
+    throw error;
+  }
+
+  try {
+    await setStandingOrderItems(data.id, items);
+  } catch (err) {
+    // Don't leave an empty standing order behind
+    await deleteStandingOrder(data.id);
+    throw err;
+  }
+
+  return data as StandingOrder;
+}
+
+/**
+ * Update a standing order. Orders it already placed are not changed.
+ */
+export async function updateStandingOrder(id: string, standingOrderData: UpdateStandingOrderData): Promise<StandingOrder> {
+  const { data, error } = await supabase
+    .from('standing_orders')
+    .update(standingOrderData)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error(`Error updating standing order ${id}:`, error);
+    throw error;
+  }
+
+  return data as StandingOrder;
+}
+
+/**
+ * Replace the items of a standing order
+ */
+export async function setStandingOrderItems(id: string, items: StandingOrderItemInput[]): Promise<StandingOrderItem[]> {
+  const { error: deleteError } = await supabase
+    .from('standing_order_items')
+    .delete()
+    .eq('standing_order_id', id);
+
+  if (deleteError) {
+    console.error(`Error clearing items of standing order ${id}:`, deleteError);
+    throw deleteError;
+  }
+
+  const { data, error } = await supabase
+    .from('standing_order_items')
+    .insert(items.map(item => ({
+      standing_order_id: id,
+      product_id: item.product_id,
+      pack_id: item.pack_id ?? null,
+      quantity: item.quantity
+    })))
+    .select();
+
+  if (error) {
+    console.error(`Error setting items of standing order ${id}:`, error);
+    throw error;
+  }
+
+  return data as StandingOrderItem[];
+}
+
+/**
+ * Delete a standing order. Orders it already placed are kept.
+ */
+export async function deleteStandingOrder(id: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('standing_orders')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error(`Error deleting standing order ${id}:`, error);
+    throw error;
+  }
+
+  return true;
+}
+
+/**
+ * The pending orders placed for a customer's standing orders, which can still be skipped
+ */
+export async function getPendingStandingOrderOrders(userId: string): Promise<Order[]> {
+  const { data, error } = await supabase
+    .from('orders')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('status', 'pending')
+    .not('standing_order_id', 'is', null)
+    .order('delivery_date', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching standing order orders:', error);
+    throw error;
+  }
+
+  return data as Order[];
+}
+
+/**
+ * Whether a standing order delivers on a calendar day (yyyy-MM-dd)
+ */
+export function isStandingOrderDay(standingOrder: StandingOrder, day: string): boolean {
+  const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+  return standingOrder.is_active
+    && standingOrder.weekdays.includes(weekday)
+    && day >= standingOrder.starts_on
+    && (!standingOrder.ends_on || day <= standingOrder.ends_on);
+}
+
+// The preferred window when it has room, else the first open one; undefined when slots are not in use
+function pickDeliverySlot(option: DeliveryDateOption, preferredSlotId?: string): string | undefined {
+  const preferred = option.slots.find(slot => slot.slot_id === preferredSlotId && !slot.is_full);
+  return (preferred ?? option.slots.find(slot => !slot.is_full))?.slot_id;
+}
+
+/**
+ * Place the orders of all active standing orders whose next delivery date falls on one of their
+ * weekdays. Run it regularly (e.g. hourly): an order is placed as soon as the previous cutoff has
+ * passed, which leaves the customer until the next cutoff to skip or change it. Each standing
+ * order gets at most one order per delivery date, so running it again is harmless.
+ * @param client A service client: the job reads and places orders for every customer
+ */
+export async function placeDueStandingOrders(client: SupabaseClient, now: Date = new Date()): Promise<StandingOrderRunResult[]> {
+  const [settings, holidays, zones] = await Promise.all([
+    getAppSettings(client),
+    getDeliveryHolidays(client),
+    getDeliveryZones(client)
+  ]);
+  const schedule = getDeliverySchedule(settings, { holidays, country: settings?.holiday_country });
+
+  const { data, error } = await client
+    .from('standing_orders')
+    .select(`${STANDING_ORDER_SELECT}, customer:users!user_id(email, name, zip_code, address)`)
+    .eq('is_active', true);
+
+  if (error) {
+    console.error('Error fetching standing orders to place:', error);
+    throw error;
+  }
+
+  // Work out each standing order's next delivery date on its customer's zone schedule
+  const due = (data as DueStandingOrder[])
+    .filter(standingOrder => standingOrder.items?.length)
+    .map(standingOrder => {
+      const zoneLookup = { zones, location: { postcode: standingOrder.customer?.zip_code } };
+      const deliveryDate = format(getNextDeliveryDate(now, schedule, zoneLookup), 'yyyy-MM-dd');
+      return { standingOrder, zoneLookup, deliveryDate };
+    })
+    .filter(({ standingOrder, deliveryDate }) => isStandingOrderDay(standingOrder, deliveryDate));
+
+  if (due.length === 0) return [];
+
+  const { data: placed, error: placedError } = await client
+    .from('orders')
+    .select('standing_order_id, delivery_date')
+    .in('standing_order_id', due.map(({ standingOrder }) => standingOrder.id))
+    .in('delivery_date', due.map(({ deliveryDate }) => deliveryDate));
+
+  if (placedError) {
+    console.error('Error fetching orders placed for standing orders:', placedError);
+    throw placedError;
+  }
+
+  const alreadyPlaced = new Set((placed || []).map(order => `${order.standing_order_id}|${order.delivery_date}`));
+  const optionsByZone: { [zoneId: string]: DeliveryDateOption[] } = {};
+  const results: StandingOrderRunResult[] = [];
+
+  for (const { standingOrder, zoneLookup, deliveryDate } of due) {
+    if (alreadyPlaced.has(`${standingOrder.id}|${deliveryDate}`)) continue;
+
+    const zoneId = findDeliveryZone(zones, zoneLookup.location)?.id;
+    const zoneSchedule = resolveDeliverySchedule(schedule, zoneLookup);
+    const result: StandingOrderRunResult = { standing_order: standingOrder, delivery_date: deliveryDate };
+
+    try {
+      const zoneKey = zoneId ?? '';
+      if (!optionsByZone[zoneKey]) {
+        optionsByZone[zoneKey] = await getDeliveryOptions(zoneId, client);
+      }
+      const option = optionsByZone[zoneKey].find(o => o.date === deliveryDate);
+      if (!option || option.is_full) {
+        throw new Error(`Delivery on ${deliveryDate} is no longer available`);
+      }
+
+      result.order = await createOrder({
+        user_id: standingOrder.user_id,
+        delivery_address: standingOrder.delivery_address || standingOrder.customer?.address,
+        order_date: now.toISOString(),
+        delivery_date: deliveryDate,
+        delivery_slot_id: pickDeliverySlot(option, standingOrder.delivery_slot_id),
+        total_amount: 0,
+        status: 'pending',
+        payment_status: 'pending',
+        notes: standingOrder.notes,
+        standing_order_id: standingOrder.id,
+        items: (standingOrder.items || []).map(item => ({
+          product_id: item.product_id,
+          pack_id: item.pack_id,
+          quantity: item.quantity
+        }))
+      }, undefined, client);
+      result.adjust_until = getCompanyTime(addCalendarDays(deliveryDate, -1), zoneSchedule.cutoffTime, zoneSchedule.timeZone);
+    } catch (err: any) {
+      if (err?.code === '23505') continue; // Placed by a concurrent run
+      console.error(`Error placing standing order ${standingOrder.id}:`, err);
+      result.error = err?.message || String(err);
+    }
+
+    // Keep the last failure on the standing order so the customer can see it
+    if ((result.error ?? null) !== (standingOrder.last_error ?? null)) {
+      await client
+        .from('standing_orders')
+        .update({ last_error: result.error ?? null })
+        .eq('id', standingOrder.id);
+    }
+
+    results.push(result);
+  }
+
+  return results;
+}
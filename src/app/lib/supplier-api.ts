@@ -0,0 +1,159 @@
+import { supabase } from './supabase';
+import { ProductSupplier, Supplier, TablesUpdate } from './types';
+
+export type { Supplier, ProductSupplier } from './types';
+
+export type CreateSupplierData = Omit<Supplier, 'id' | 'created_at' | 'updated_at'>;
+export type UpdateSupplierData = Omit<TablesUpdate<'suppliers'>, 'id' | 'created_at' | 'updated_at'>;
+export type ProductSupplierInput = Pick<ProductSupplier, 'supplier_sku' | 'cost_price' | 'is_preferred'>;
+
+/**
+ * Fetch all suppliers
+ */
+export async function getSuppliers(): Promise<Supplier[]> {
+  const { data, error } = await supabase
+    .from('suppliers')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching suppliers:', error);
+    throw error;
+  }
+
+  return data as Supplier[];
+}
+
+/**
+ * Create a supplier
+ */
+export async function createSupplier(supplierData: CreateSupplierData): Promise<Supplier> {
+  const { data, error } = await supabase
+    .from('suppliers')
+    .insert([supplierData])
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating supplier:', error);
+    throw error;
+  }
+
+  return data as Supplier;
+}
+
+/**
+ * Update a supplier
+ */
+export async function updateSupplier(id: string, supplierData: UpdateSupplierData): Promise<Supplier> {
+  const { data, error } = await supabase
+    .from('suppliers')
+    .update(supplierData)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error(`Error updating supplier ${id}:`, error);
+    throw error;
+  }
+
+  return data as Supplier;
+}
+
+/**
+ * Delete a supplier and its product links. Suppliers with purchase orders can't be deleted;
+ * deactivate them instead.
+ */
+export async function deleteSupplier(id: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('suppliers')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error(`Error deleting supplier ${id}:`, error);
+    throw error;
+  }
+
+  return true;
+}
+
+/**
+ * Fetch the products a supplier carries, by product name
+ */
+export async function getSupplierProducts(supplierId: string): Promise<ProductSupplier[]> {
+  const { data, error } = await supabase
+    .from('product_suppliers')
+    .select('*, product:products(*)')
+    .eq('supplier_id', supplierId);
+
+  if (error) {
+    console.error(`Error fetching products of supplier ${supplierId}:`, error);
+    throw error;
+  }
+
+  return (data as ProductSupplier[]).sort((a, b) =>
+    (a.product?.name_en || '').localeCompare(b.product?.name_en || '')
+  );
+}
+
+/**
+ * Add a product to a supplier, or update its supplier SKU and cost price.
+ * Making the supplier preferred takes the preference away from the product's other suppliers.
+ */
+export async function setProductSupplier(
+  supplierId: string,
+  productId: string,
+  input: ProductSupplierInput
+): Promise<ProductSupplier> {
+  if (input.is_preferred) {
+    const { error: clearError } = await supabase
+      .from('product_suppliers')
+      .update({ is_preferred: false })
+      .eq('product_id', productId)
+      .neq('supplier_id', supplierId);
+
+    if (clearError) {
+      console.error(`Error clearing preferred supplier of product ${productId}:`, clearError);
+      throw clearError;
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('product_suppliers')
+    .upsert({
+      supplier_id: supplierId,
+      product_id: productId,
+      supplier_sku: input.supplier_sku || null,
+      cost_price: input.cost_price,
+      is_preferred: input.is_preferred
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error(`Error linking product ${productId} to supplier ${supplierId}:`, error);
+    throw error;
+  }
+
+  return data as ProductSupplier;
+}
+
+/**
+ * Stop buying a product from a supplier
+ */
+export async function removeProductSupplier(supplierId: string, productId: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('product_suppliers')
+    .delete()
+    .eq('supplier_id', supplierId)
+    .eq('product_id', productId);
+
+  if (error) {
+    console.error(`Error removing product ${productId} from supplier ${supplierId}:`, error);
+    throw error;
+  }
+
+  return true;
+}
@@ -1,55 +1,419 @@
+import { Database } from './database.types';
+
+/**
+ * Domain model shared by the API modules and components.
+ * Every model is checked against the Supabase schema in ./database.types.ts at the
+ * bottom of this file, so a renamed or retyped column fails the type-check. The Supabase
+ * clients are typed with the same schema, so queries and RPC arguments are checked too.
+ */
+
+export type Tables<T extends keyof Database['public']['Tables']> = Database['public']['Tables'][T]['Row'];
+export type TablesInsert<T extends keyof Database['public']['Tables']> = Database['public']['Tables'][T]['Insert'];
+export type TablesUpdate<T extends keyof Database['public']['Tables']> = Database['public']['Tables'][T]['Update'];
+
+// Status and role columns are TEXT in the database, pinned to these values by CHECK constraints
+export type UserRole = 'admin' | 'customer' | 'driver';
+export type UserStatus = 'active' | 'inactive';
+export type OrderStatus = 'pending_approval' | 'pending' | 'processing' | 'completed' | 'cancelled';
+export type PaymentStatus = 'pending' | 'paid' | 'failed';
+export type OrderStockStatus = 'none' | 'reserved' | 'committed' | 'released';
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'received' | 'cancelled';
+export type BusinessRole = 'buyer' | 'approver' | 'viewer';
+export type SubstitutionPreference = 'allow' | 'ask' | 'never';
+export type SubstitutionStatus = 'proposed' | 'accepted' | 'declined';
+export type ComplaintStatus = 'open' | 'approved' | 'rejected';
+export type ComplaintReason = 'damaged' | 'spoiled' | 'missing' | 'wrong_item' | 'other';
+export type ComplaintStockAction = 'none' | 'restock' | 'write_off';
+
 export interface User {
-  id: number;
+  id: string;
   name: string;
   email: string;
   phone: string;
-  role: 'admin' | 'customer' | 'driver';
-  status: 'active' | 'inactive';
+  address?: string;
+  notes?: string;
+  zip_code?: string;
+  business_name?: string;
+  city?: string;
+  role: UserRole;
+  status: UserStatus;
+  created_at?: string;
   assigned_route?: string;
+  customer_group_id?: string;
+  min_order_value?: number; // Replaces the zone's and the global minimum order value when set
+  substitution_preference?: SubstitutionPreference; // What to do when a product runs short at picking
 }
 
-export interface Product {
-  id: number;
+// A customer business whose users share one account; see BusinessMember for their roles
+export interface Business {
+  id: string;
   name: string;
-  description: string;
+  approval_threshold?: number; // Buyers' orders above this value wait for an approver; none when unset
+  notes?: string;
+  created_at?: string;
+  updated_at?: string;
+  members?: BusinessMember[];
+}
+
+// Buyers place orders, approvers also approve the buyers' orders above the threshold and viewers
+// only follow the business's orders
+export interface BusinessMember {
+  user_id: string;
+  business_id: string;
+  role: BusinessRole;
+  created_at?: string;
+  user?: Pick<User, 'id' | 'name' | 'email'>;
+  business?: Business;
+}
+
+export interface CustomerGroup {
+  id: string;
+  name: string;
+  description?: string;
+  created_at?: string;
+}
+
+export interface Category {
+  id: string;
+  name_en: string;
+  name_vi?: string;
+  name_tr?: string;
+  parent_id?: string;
+  sort_order: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface Product {
+  id: string;
+  name_en: string;
+  name_vi?: string;
+  name_tr?: string;
+  description?: string;
   price: number;
   unit: string;
+  sku: string;
   image_url?: string;
-  category: string;
-  inventory_count: number;
-  status: 'active' | 'inactive';
+  is_active: boolean;
+  is_catch_weight?: boolean; // charged by the weight recorded at packing or delivery
+  min_order_quantity?: number; // in the base unit, across packs
+  quantity_step?: number; // in the base unit, e.g. 10 for whole 10 kg cases
+  lead_time_days?: number; // days the order has to be placed ahead of delivery
+  stock: number;
+  reserved_stock?: number;
+  category_id?: string;
+  category?: Category;
+  price_tiers?: ProductPriceTier[];
+  packs?: ProductPack[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Ordering at least min_quantity of the product gets this unit price
+export interface ProductPriceTier {
+  id: string;
+  product_id: string;
+  min_quantity: number;
+  price: number;
+  created_at?: string;
+}
+
+// A pack variant of a product, e.g. a 10 kg case. base_quantity is the number of the product's
+// base units (Product.unit) in one pack; stock is always counted in base units.
+export interface ProductPack {
+  id: string;
+  product_id: string;
+  name: string;
+  sku_suffix: string;
+  base_quantity: number;
+  price: number;
+  is_active: boolean;
+  sort_order: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// One goods receipt of a product; quantities are in the product's base unit
+export interface StockLot {
+  id: string;
+  product_id: string;
+  lot_number: string;
+  supplier_name?: string;
+  harvest_date?: string;
+  expiry_date?: string;
+  received_quantity: number;
+  remaining_quantity: number;
+  notes?: string;
+  received_at: string;
+  created_by?: string;
+  created_at?: string;
+  supplier_id?: string;
+  purchase_order_id?: string;
+}
+
+// The part of an order line taken from one lot
+export interface OrderItemLot {
+  order_item_id: string;
+  lot_id: string;
+  quantity: number;
+  lot?: StockLot;
+}
+
+export interface OrderItem {
+  id?: string;
+  order_id?: string;
+  product_id: string;
+  quantity: number; // packs when pack_id is set, base units otherwise
+  unit_price: number;
+  price_list_id?: string;
+  pack_id?: string;
+  base_quantity?: number; // quantity in the product's base unit, set by the database
+  actual_quantity?: number; // weighed quantity in base units for catch-weight products
+  fulfilled_quantity?: number | null; // picked quantity in the line's unit when short, null when shipped in full
+  substitute_for?: string | null; // the short line this one replaces
+  substitution_status?: SubstitutionStatus | null; // set on substitute lines
+  product?: Product;
+  pack?: ProductPack;
+  lots?: OrderItemLot[];
 }
 
 export interface Order {
-  id: number;
-  customer_id: number;
-  driver_id?: number;
-  status: 'pending' | 'confirmed' | 'in_transit' | 'delivered' | 'cancelled';
-  created_at: string;
-  delivery_date: string;
-  delivery_address: string;
+  id?: string;
+  user_id?: string;
+  delivery_address?: string;
+  order_date: string;
+  delivery_date?: string;
+  delivery_slot_id?: string;
+  delivery_window_start?: string; // HH:MM:SS, copied from the slot when the order was placed
+  delivery_window_end?: string;
+  delivery_zone_id?: string;
+  delivery_fee?: number; // Charged on top of total_amount, the value of the goods
+  standing_order_id?: string; // Set when the order was placed for a standing order
+  business_id?: string; // The business of the customer when the order was placed
+  approved_by?: string; // Set when an order awaiting approval was approved
+  approved_at?: string;
   total_amount: number;
-  payment_status: 'pending' | 'paid' | 'failed';
+  status: OrderStatus;
+  payment_status: PaymentStatus;
   notes?: string;
+  stock_status?: OrderStockStatus;
+  items: OrderItem[];
+  created_at?: string;
+  updated_at?: string;
+  assigned_driver_id?: string;
+  customer?: {
+    id: string;
+    email?: string;
+    name?: string;
+    phone?: string;
+    profile_image?: string;
+    address?: string;
+    substitution_preference?: SubstitutionPreference;
+  };
 }
 
-export interface OrderItem {
-  id: number;
-  order_id: number;
-  product_id: number;
+// Negotiated prices for one customer (user_id) or a customer group (customer_group_id)
+export interface PriceList {
+  id: string;
+  name: string;
+  user_id?: string;
+  customer_group_id?: string;
+  valid_from?: string;
+  valid_to?: string;
+  is_active: boolean;
+  notes?: string;
+  created_at?: string;
+  updated_at?: string;
+  items?: PriceListItem[];
+}
+
+export interface PriceListItem {
+  price_list_id: string;
+  product_id: string;
+  price: number;
+  product?: Product;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contact_name?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  notes?: string;
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// A product a supplier carries; cost_price is per base unit of the product
+export interface ProductSupplier {
+  product_id: string;
+  supplier_id: string;
+  supplier_sku?: string;
+  cost_price: number;
+  is_preferred: boolean;
+  product?: Product;
+  supplier?: Supplier;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  supplier_id: string;
+  status: PurchaseOrderStatus;
+  expected_date?: string;
+  notes?: string;
+  total_cost: number; // kept up to date by the database
+  created_by?: string;
+  received_at?: string;
+  created_at?: string;
+  updated_at?: string;
+  supplier?: Supplier;
+  items?: PurchaseOrderItem[];
+}
+
+// Quantities are in the product's base unit
+export interface PurchaseOrderItem {
+  id: string;
+  purchase_order_id: string;
+  product_id: string;
+  supplier_sku?: string;
   quantity: number;
-  unit_price: number;
-  subtotal: number;
+  unit_cost: number;
+  received_quantity?: number;
+  lot_id?: string;
+  product?: Product;
 }
 
-export interface OrderWithDetails extends Order {
-  items: (OrderItem & { product: Product })[];
-  customer: User;
-  driver?: User;
-} 
+// A day without deliveries. Recurring rows repeat every year on the month and day of
+// holiday_date; rows with a country_code only apply to that country's calendar.
+export interface DeliveryHoliday {
+  id: string;
+  holiday_date: string;
+  name: string;
+  is_recurring: boolean;
+  country_code?: string;
+  created_at?: string;
+}
 
-export interface ProductFormData {
+// A delivery time window offered on every delivery day. capacity caps the orders per day;
+// without one the slot never fills up.
+export interface DeliverySlot {
+  id: string;
+  start_time: string;
+  end_time: string;
+  capacity?: number;
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// A delivery region with its own schedule, minimum order value and fee. Addresses match by
+// postcode range ('10115-10999' or a single '20095') or by lying inside the boundary polygon.
+export interface DeliveryZone {
+  id: string;
+  name: string;
+  postcode_ranges: string[];
+  boundary?: [number, number][]; // [latitude, longitude] points
+  delivery_days?: number[]; // Unset = settings.delivery_days
+  order_cutoff_time?: string; // Unset = settings.order_cutoff_time
+  min_order_value: number;
+  delivery_fee: number;
+  sort_order: number;
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// A customer's regular basket, ordered for every delivery date that falls on one of its weekdays
+// from starts_on until ends_on
+export interface StandingOrder {
+  id: string;
+  user_id: string;
   name: string;
+  weekdays: number[]; // 0=Sunday ... 6=Saturday
+  delivery_address?: string;
+  delivery_slot_id?: string; // Preferred window; another open one is taken when it is full
+  notes?: string;
+  starts_on: string;
+  ends_on?: string;
+  is_active: boolean;
+  last_error?: string;
+  created_at?: string;
+  updated_at?: string;
+  items?: StandingOrderItem[];
+}
+
+// Quantities are in packs when pack_id is set, like order items
+export interface StandingOrderItem {
+  id: string;
+  standing_order_id: string;
+  product_id: string;
+  pack_id?: string;
+  quantity: number;
+  created_at?: string;
+  product?: Product;
+  pack?: ProductPack;
+}
+
+// A named basket a customer keeps to add to the cart in one click, e.g. "Weekend menu"
+export interface ShoppingList {
+  id: string;
+  user_id: string;
+  name: string;
+  created_at?: string;
+  updated_at?: string;
+  items?: ShoppingListItem[];
+}
+
+// Quantities are in packs when pack_id is set, like order items
+export interface ShoppingListItem {
+  id: string;
+  shopping_list_id: string;
+  product_id: string;
+  pack_id?: string;
+  quantity: number;
+  created_at?: string;
+  product?: Product;
+  pack?: ProductPack;
+}
+
+// A customer's complaint about lines of a delivered order; approval sets credit_amount (net of
+// VAT) and the credit note is issued against the order's invoice
+export interface Complaint {
+  id: string;
+  order_id: string;
+  user_id: string;
+  status: ComplaintStatus;
+  description?: string;
+  photo_paths: string[]; // in the complaint-photos bucket
+  resolution_notes?: string;
+  credit_amount?: number;
+  credit_note_id?: string;
+  resolved_by?: string;
+  resolved_at?: string;
+  created_at?: string;
+  updated_at?: string;
+  items?: ComplaintItem[];
+  customer?: Pick<User, 'id' | 'name' | 'email'>;
+}
+
+// quantity is in the unit of the order line, its pack or the product's unit
+export interface ComplaintItem {
+  id: string;
+  complaint_id: string;
+  order_item_id: string;
+  quantity: number;
+  reason: ComplaintReason;
+  stock_action?: ComplaintStockAction;
+  credit_amount?: number;
+  order_item?: OrderItem;
+}
+
+// Form state for creating or editing a product, before the image is uploaded
+export interface ProductFormData {
+  name_en: string;
   name_vi?: string;
   name_tr?: string;
   description?: string;
@@ -58,7 +422,53 @@ export interface ProductFormData {
   sku: string;
   image?: File | null;
   image_url?: string;
-  category?: string;
   is_active: boolean;
+  is_catch_weight?: boolean;
   stock?: number;
-} 
\ No newline at end of file
+  category_id?: string;
+}
+
+/*
+ * Schema checks.
+ * SchemaMismatch<Model, Row, Embedded> is the union of the fields of Model that are missing
+ * from the table row or have an incompatible type; Embedded lists the relations that are
+ * joined in by select() rather than stored as columns. It must resolve to never.
+ */
+type SchemaMismatch<Model, Row, Embedded extends keyof Model = never> = {
+  [K in Exclude<keyof Model, Embedded>]-?: K extends keyof Row
+    ? NonNullable<Model[K]> extends NonNullable<Row[K]> ? never : K
+    : K;
+}[Exclude<keyof Model, Embedded>];
+
+type ExpectNoMismatch<T extends never> = T;
+
+export type SchemaChecks = [
+  ExpectNoMismatch<SchemaMismatch<User, Tables<'users'>>>,
+  ExpectNoMismatch<SchemaMismatch<Business, Tables<'businesses'>, 'members'>>,
+  ExpectNoMismatch<SchemaMismatch<BusinessMember, Tables<'business_members'>, 'user' | 'business'>>,
+  ExpectNoMismatch<SchemaMismatch<CustomerGroup, Tables<'customer_groups'>>>,
+  ExpectNoMismatch<SchemaMismatch<Category, Tables<'categories'>>>,
+  ExpectNoMismatch<SchemaMismatch<Product, Tables<'products'>, 'category' | 'price_tiers' | 'packs'>>,
+  ExpectNoMismatch<SchemaMismatch<ProductPack, Tables<'product_packs'>>>,
+  ExpectNoMismatch<SchemaMismatch<ProductPriceTier, Tables<'product_price_tiers'>>>,
+  ExpectNoMismatch<SchemaMismatch<StockLot, Tables<'stock_lots'>>>,
+  ExpectNoMismatch<SchemaMismatch<OrderItemLot, Tables<'order_item_lots'>, 'lot'>>,
+  ExpectNoMismatch<SchemaMismatch<OrderItem, Tables<'order_items'>, 'product' | 'pack' | 'lots'>>,
+  ExpectNoMismatch<SchemaMismatch<Order, Tables<'orders'>, 'items' | 'customer'>>,
+  ExpectNoMismatch<SchemaMismatch<PriceList, Tables<'price_lists'>, 'items'>>,
+  ExpectNoMismatch<SchemaMismatch<PriceListItem, Tables<'price_list_items'>, 'product'>>,
+  ExpectNoMismatch<SchemaMismatch<Supplier, Tables<'suppliers'>>>,
+  ExpectNoMismatch<SchemaMismatch<ProductSupplier, Tables<'product_suppliers'>, 'product' | 'supplier'>>,
+  ExpectNoMismatch<SchemaMismatch<PurchaseOrder, Tables<'purchase_orders'>, 'supplier' | 'items'>>,
+  ExpectNoMismatch<SchemaMismatch<PurchaseOrderItem, Tables<'purchase_order_items'>, 'product'>>,
+  ExpectNoMismatch<SchemaMismatch<DeliveryHoliday, Tables<'delivery_holidays'>>>,
+  ExpectNoMismatch<SchemaMismatch<DeliverySlot, Tables<'delivery_slots'>>>,
+  ExpectNoMismatch<SchemaMismatch<DeliveryZone, Tables<'delivery_zones'>>>,
+  ExpectNoMismatch<SchemaMismatch<StandingOrder, Tables<'standing_orders'>, 'items'>>,
+  ExpectNoMismatch<SchemaMismatch<StandingOrderItem, Tables<'standing_order_items'>, 'product' | 'pack'>>,
+  ExpectNoMismatch<SchemaMismatch<ShoppingList, Tables<'shopping_lists'>, 'items'>>,
+  ExpectNoMismatch<SchemaMismatch<ShoppingListItem, Tables<'shopping_list_items'>, 'product' | 'pack'>>,
+  ExpectNoMismatch<SchemaMismatch<Complaint, Tables<'complaints'>, 'items' | 'customer'>>,
+  ExpectNoMismatch<SchemaMismatch<ComplaintItem, Tables<'complaint_items'>, 'order_item'>>,
+  ExpectNoMismatch<SchemaMismatch<NonNullable<Order['customer']>, Tables<'users'>>>
+];
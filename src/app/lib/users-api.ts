@@ -1,24 +1,14 @@
 import { supabase, supabaseAdmin } from './supabase';
 import { v4 as uuidv4 } from 'uuid';
+import { User } from './types';
 
-export interface User {
-  id: string;
-  name: string;
-  email: string;
-  phone: string;
-  address?: string;
-  notes?: string;
-  zip_code?: string;
-  business_name?: string;
-  city?: string;
-  role: 'admin' | 'customer' | 'driver';
-  status: 'active' | 'inactive';
-  created_at?: string;
-  assigned_route?: string;
-}
+export type { User } from './types';
 
 export type CreateUserData = Omit<User, 'id' | 'created_at' >;
-export type UpdateUserData = Partial<Omit<User, 'id' | 'created_at'>>;
+export type UpdateUserData = Partial<Omit<User, 'id' | 'created_at' | 'customer_group_id' | 'min_order_value'>> & {
+  customer_group_id?: string | null; // null takes the customer out of their group
+  min_order_value?: number | null; // null falls back to the zone's or the global minimum
+};
 
 // CSV Import Types
 export interface CSVRow {
@@ -83,7 +73,7 @@ export async function getUserById(id: string) {
  * Create a new user
  */
 export async function createUser(userData: CreateUserData & { password: string }) {
-  const { email, password, name, phone, address, city, zip_code, notes, role, status, assigned_route, business_name } = userData;
+  const { email, password, name, phone, address, city, zip_code, notes, role, status, assigned_route, business_name, customer_group_id, min_order_value } = userData;
 
   // Input validation
   if (!email) throw new Error('Email is required');
@@ -122,7 +112,9 @@ export async function createUser(userData: CreateUserData & { password: string }
         role: role || 'customer', // Default to customer if not specified
         status: status || 'active', // Default to active if not specified
         created_at: new Date().toISOString(),
-        assigned_route // Include assigned_route if provided
+        assigned_route, // Include assigned_route if provided
+        customer_group_id,
+        min_order_value
       },
     ])
     .select();
@@ -1,4 +1,3 @@
-import { set } from 'date-fns';
 
 
 /**
@@ -81,82 +80,3 @@ export function debounce<T extends (...args: any[]) => any>(
     timeout = setTimeout(later, wait);
   };
 } 
-
-// Filter function for delivery dates
-export function getOrderFilterRangeByDelivery(
-  type: 'today' | 'tomorrow',
-  cutoffTime: string = '18:00',
-  deliveryDays: number[] = [1, 2, 3, 4, 5, 6] // default Mon-Sat
-): { from: Date; to: Date } | null {
-  const now = new Date();
-
-  const [cutoffHour, cutoffMinute] = cutoffTime.split(':').map(Number);
-
-  const yesterday = new Date(now);
-  yesterday.setDate(now.getDate() - 1);
-
-  const startYesterday = set(yesterday, { hours: 0, minutes: 0, seconds: 0, milliseconds: 0 });
-  const endYesterdayCutoff = set(yesterday, {
-    hours: cutoffHour,
-    minutes: cutoffMinute - 1,
-    seconds: 59,
-    milliseconds: 999
-  });
-
-  const startYesterdayCutoff = set(yesterday, {
-    hours: cutoffHour,
-    minutes: cutoffMinute,
-    seconds: 0,
-    milliseconds: 0
-  });
-
-  const endTodayCutoff = set(now, {
-    hours: cutoffHour,
-    minutes: cutoffMinute - 1,
-    seconds: 59,
-    milliseconds: 999
-  });
-
-  if (type === 'today') {
-    return {
-      from: startYesterday,
-      to: endYesterdayCutoff
-    };
-  } else if (type === 'tomorrow') {
-    return {
-      from: startYesterdayCutoff,
-      to: endTodayCutoff
-    };
-  }
-
-  return null;
-}
-export function getNextDeliveryDate(
-  orderDate: Date,
-  cutoffTime: string | undefined,
-  deliveryDays: number[] | undefined
-): Date {
-  const [cutoffHour, cutoffMinute] = (cutoffTime ?? '18:00').split(':').map(Number);
-
-  const cutoffDateTime = new Date(orderDate);
-  cutoffDateTime.setHours(cutoffHour, cutoffMinute, 0, 0);
-
-  let baseDeliveryDate = new Date(orderDate);
-
-  // If placed before cutoff → deliver next day; else → day after
-  if (orderDate <= cutoffDateTime) {
-    baseDeliveryDate.setDate(baseDeliveryDate.getDate() + 1);
-  } else {
-    baseDeliveryDate.setDate(baseDeliveryDate.getDate() + 2);
-  }
-
-  // Ensure deliveryDays is always an array of numbers for includes()
-  const availableDays = Array.isArray(deliveryDays) ? deliveryDays : [1, 2, 3, 4, 5, 6];
-
-  // Skip to next available delivery day
-  while (!availableDays.includes(baseDeliveryDate.getDay())) {
-    baseDeliveryDate.setDate(baseDeliveryDate.getDate() + 1);
-  }
-
-  return baseDeliveryDate;
-}
\ No newline at end of file
@@ -1,7 +1,11 @@
+import { SupabaseClient } from '@supabase/supabase-js';
 import { supabase } from '@/app/lib/supabase';
 import fs from 'fs';
 import path from 'path';
 
+// exec_sql is installed by hand rather than by a migration, so it is not part of the typed schema
+const sqlClient = supabase as unknown as SupabaseClient;
+
 /**
  * Setup database by running migration files
  */
@@ -35,7 +39,7 @@ async function setupDatabase() {
       const sql = fs.readFileSync(filePath, 'utf8');
       
       // Execute the SQL
-      const { error } = await supabase.rpc('exec_sql', { sql });
+      const { error } = await sqlClient.rpc('exec_sql', { sql });
       
       if (error) {
         console.error(`Error executing migration ${file}:`, error);
@@ -76,7 +80,7 @@ async function runMigrationManually(sql: string) {
     
     try {
       // Execute with single_statement=true to ensure safety
-      const { error } = await supabase.rpc('exec_sql', { 
+      const { error } = await sqlClient.rpc('exec_sql', { 
         sql: statement + ';',
         single_statement: true
       });
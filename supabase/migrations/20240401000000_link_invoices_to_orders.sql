@@ -0,0 +1,13 @@
+-- Link invoices to the order they were generated from
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS bucket TEXT NOT NULL DEFAULT 'products',
+  ADD COLUMN IF NOT EXISTS subtotal NUMERIC(12, 2),
+  ADD COLUMN IF NOT EXISTS vat_amount NUMERIC(12, 2),
+  ADD COLUMN IF NOT EXISTS total_amount NUMERIC(12, 2),
+  ADD COLUMN IF NOT EXISTS currency TEXT;
+
+-- Only one generated invoice per order
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_order_id
+  ON public.invoices (order_id)
+  WHERE order_id IS NOT NULL;
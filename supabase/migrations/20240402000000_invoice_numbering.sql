@@ -0,0 +1,106 @@
+-- Invoice numbering configuration
+ALTER TABLE public.settings
+  ADD COLUMN IF NOT EXISTS invoice_number_prefix TEXT DEFAULT 'INV',
+  ADD COLUMN IF NOT EXISTS invoice_number_padding INTEGER DEFAULT 6,
+  ADD COLUMN IF NOT EXISTS invoice_number_yearly_reset BOOLEAN DEFAULT true;
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS invoice_number TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_invoice_number
+  ON public.invoices (invoice_number)
+  WHERE invoice_number IS NOT NULL;
+
+-- One counter row per numbering period (the year, or 0 when numbers never reset)
+CREATE TABLE IF NOT EXISTS public.invoice_number_sequences (
+  period INTEGER PRIMARY KEY,
+  last_number INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.invoice_number_sequences ENABLE ROW LEVEL SECURITY;
+
+-- Allocate the next invoice number and create the invoice row in one transaction.
+-- The counter row is locked by the upsert, so concurrent callers are serialized,
+-- and a failed insert rolls the counter back: numbers are never skipped or reused.
+CREATE OR REPLACE FUNCTION public.create_numbered_invoice(
+  p_user_id UUID,
+  p_folder TEXT,
+  p_bucket TEXT DEFAULT 'invoices',
+  p_order_id UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_status TEXT DEFAULT 'pending',
+  p_subtotal NUMERIC DEFAULT NULL,
+  p_vat_amount NUMERIC DEFAULT NULL,
+  p_total_amount NUMERIC DEFAULT NULL,
+  p_currency TEXT DEFAULT NULL
+)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_prefix TEXT;
+  v_padding INTEGER;
+  v_yearly_reset BOOLEAN;
+  v_year INTEGER := EXTRACT(YEAR FROM NOW())::INTEGER;
+  v_period INTEGER;
+  v_next INTEGER;
+  v_sequence TEXT;
+  v_number TEXT;
+  v_invoice public.invoices;
+BEGIN
+  -- Only admins (or the service role used by API routes) may issue invoices
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can create invoices';
+  END IF;
+
+  SELECT
+    COALESCE(NULLIF(invoice_number_prefix, ''), 'INV'),
+    COALESCE(invoice_number_padding, 6),
+    COALESCE(invoice_number_yearly_reset, true)
+  INTO v_prefix, v_padding, v_yearly_reset
+  FROM settings
+  ORDER BY created_at ASC
+  LIMIT 1;
+
+  v_prefix := COALESCE(v_prefix, 'INV');
+  v_padding := COALESCE(v_padding, 6);
+  v_yearly_reset := COALESCE(v_yearly_reset, true);
+  v_period := CASE WHEN v_yearly_reset THEN v_year ELSE 0 END;
+
+  INSERT INTO invoice_number_sequences (period, last_number)
+  VALUES (v_period, 1)
+  ON CONFLICT (period) DO UPDATE
+    SET last_number = invoice_number_sequences.last_number + 1,
+        updated_at = NOW()
+  RETURNING last_number INTO v_next;
+
+  -- LPAD truncates to the padding, so numbers that have outgrown it are used in full
+  v_sequence := v_next::TEXT;
+  IF length(v_sequence) < v_padding THEN
+    v_sequence := LPAD(v_sequence, v_padding, '0');
+  END IF;
+
+  IF v_yearly_reset THEN
+    v_number := v_prefix || '-' || v_year || '-' || v_sequence;
+  ELSE
+    v_number := v_prefix || '-' || v_sequence;
+  END IF;
+
+  INSERT INTO invoices (
+    user_id, order_id, invoice_number, path, bucket, notes, status,
+    subtotal, vat_amount, total_amount, currency
+  )
+  VALUES (
+    p_user_id, p_order_id, v_number, p_folder || '/' || v_number || '.pdf', p_bucket, p_notes, p_status,
+    p_subtotal, p_vat_amount, p_total_amount, p_currency
+  )
+  RETURNING * INTO v_invoice;
+
+  RETURN v_invoice;
+END;
+$$;
@@ -0,0 +1,142 @@
+-- Next delivery date for an order placed at p_order_time, mirroring getNextDeliveryDate():
+-- before the cutoff the order ships the next day, after it the day after,
+-- then rolls forward to the first configured delivery day.
+CREATE OR REPLACE FUNCTION public.next_delivery_date(
+  p_order_time TIMESTAMP,
+  p_cutoff_time TEXT DEFAULT '18:00',
+  p_delivery_days INTEGER[] DEFAULT ARRAY[1, 2, 3, 4, 5, 6]
+)
+RETURNS DATE
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_cutoff TIMESTAMP := p_order_time::DATE + COALESCE(p_cutoff_time, '18:00')::TIME;
+  v_days INTEGER[] := COALESCE(NULLIF(p_delivery_days, '{}'), ARRAY[1, 2, 3, 4, 5, 6]);
+  v_date DATE;
+  v_checked INTEGER := 0;
+BEGIN
+  IF p_order_time <= v_cutoff THEN
+    v_date := p_order_time::DATE + 1;
+  ELSE
+    v_date := p_order_time::DATE + 2;
+  END IF;
+
+  WHILE NOT (EXTRACT(DOW FROM v_date)::INTEGER = ANY (v_days)) AND v_checked < 14 LOOP
+    v_date := v_date + 1;
+    v_checked := v_checked + 1;
+  END LOOP;
+
+  RETURN v_date;
+END;
+$$;
+
+-- Place an order atomically: validate and reserve stock, compute the delivery date
+-- from settings and write the order with its items. Any failure rolls everything back,
+-- so a half-written order can no longer exist.
+--
+-- p_items: [{ "product_id": uuid, "quantity": number, "unit_price": number }, ...]
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_items JSONB,
+  p_user_id UUID DEFAULT NULL,
+  p_delivery_address TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_status TEXT DEFAULT 'pending',
+  p_payment_status TEXT DEFAULT 'pending'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings RECORD;
+  v_item JSONB;
+  v_product RECORD;
+  v_quantity NUMERIC;
+  v_total NUMERIC := 0;
+  v_order orders;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  -- Customers can only place orders for themselves; admins may order on behalf of anyone
+  IF p_user_id IS DISTINCT FROM auth.uid()
+     AND auth.role() IS DISTINCT FROM 'service_role'
+     AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Not allowed to place orders for another user';
+  END IF;
+
+  -- Orders start out pending and unpaid; only admins may place them in another state
+  IF (COALESCE(p_status, 'pending') <> 'pending' OR COALESCE(p_payment_status, 'pending') <> 'pending')
+     AND auth.role() IS DISTINCT FROM 'service_role'
+     AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Not allowed to place orders with status % and payment status %', p_status, p_payment_status;
+  END IF;
+
+  SELECT order_cutoff_time, delivery_days
+  INTO v_settings
+  FROM settings
+  ORDER BY created_at ASC
+  LIMIT 1;
+
+  INSERT INTO orders (
+    user_id, delivery_address, order_date, delivery_date,
+    total_amount, status, payment_status, notes
+  )
+  VALUES (
+    p_user_id, p_delivery_address, NOW(),
+    next_delivery_date(NOW()::TIMESTAMP, v_settings.order_cutoff_time, v_settings.delivery_days),
+    0, COALESCE(p_status, 'pending'), COALESCE(p_payment_status, 'pending'), p_notes
+  )
+  RETURNING * INTO v_order;
+
+  -- Lock products in a stable order so concurrent checkouts cannot deadlock
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items) ORDER BY value->>'product_id'
+  LOOP
+    v_quantity := (v_item->>'quantity')::NUMERIC;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', v_item->>'product_id';
+    END IF;
+
+    SELECT id, name_en, stock, is_active
+    INTO v_product
+    FROM products
+    WHERE id = (v_item->>'product_id')::UUID
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT v_product.is_active THEN
+      RAISE EXCEPTION 'Product % is no longer available', v_item->>'product_id';
+    END IF;
+
+    IF v_product.stock < v_quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %: % available, % requested',
+        v_product.name_en, v_product.stock, v_quantity;
+    END IF;
+
+    -- Reserve the stock for this order
+    UPDATE products
+    SET stock = stock - v_quantity,
+        updated_at = NOW()
+    WHERE id = v_product.id;
+
+    INSERT INTO order_items (order_id, product_id, quantity, unit_price)
+    VALUES (v_order.id, v_product.id, v_quantity, (v_item->>'unit_price')::NUMERIC);
+
+    v_total := v_total + v_quantity * (v_item->>'unit_price')::NUMERIC;
+  END LOOP;
+
+  UPDATE orders
+  SET total_amount = v_total
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  RETURN to_jsonb(v_order) || jsonb_build_object(
+    'items',
+    (SELECT COALESCE(jsonb_agg(to_jsonb(oi)), '[]'::JSONB) FROM order_items oi WHERE oi.order_id = v_order.id)
+  );
+END;
+$$;
@@ -0,0 +1,255 @@
+-- Stock reservations
+-- products.stock is the quantity on hand; reserved_stock is the part of it promised
+-- to open orders. Available stock = stock - reserved_stock.
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS reserved_stock NUMERIC NOT NULL DEFAULT 0;
+
+-- Where an order stands with respect to stock:
+--   none      - placed before reservations existed, never touched stock
+--   reserved  - stock is reserved for the order
+--   committed - the order was completed and its stock left the warehouse
+--   released  - the order was cancelled and its reservation released
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS stock_status TEXT NOT NULL DEFAULT 'none'
+  CHECK (stock_status IN ('none', 'reserved', 'committed', 'released'));
+
+-- Atomically add p_delta to the on-hand stock of a product.
+-- Decreases may not take on-hand stock below what is reserved for open orders.
+CREATE OR REPLACE FUNCTION public.adjust_product_stock(
+  p_product_id UUID,
+  p_delta NUMERIC
+)
+RETURNS products
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product products;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can adjust stock';
+  END IF;
+
+  SELECT * INTO v_product FROM products WHERE id = p_product_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product % not found', p_product_id;
+  END IF;
+
+  IF v_product.stock + p_delta < v_product.reserved_stock THEN
+    RAISE EXCEPTION 'Insufficient stock for %: % available, % requested',
+      v_product.name_en, v_product.stock - v_product.reserved_stock, -p_delta
+      USING HINT = 'insufficient_stock',
+            DETAIL = jsonb_build_object(
+              'product_id', v_product.id,
+              'product_name', v_product.name_en,
+              'available', v_product.stock - v_product.reserved_stock,
+              'requested', -p_delta
+            )::TEXT;
+  END IF;
+
+  UPDATE products
+  SET stock = stock + p_delta,
+      updated_at = NOW()
+  WHERE id = p_product_id
+  RETURNING * INTO v_product;
+
+  RETURN v_product;
+END;
+$$;
+
+-- Completed order: the reserved goods leave the warehouse
+CREATE OR REPLACE FUNCTION public.commit_order_stock(p_order_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  -- Admins and the driver delivering the order complete it
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND v_order.assigned_driver_id IS DISTINCT FROM auth.uid()
+     AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Not allowed to complete order %', p_order_id;
+  END IF;
+
+  IF v_order.stock_status IS DISTINCT FROM 'reserved' THEN
+    RETURN false;
+  END IF;
+
+  UPDATE products p
+  SET stock = p.stock - oi.quantity,
+      reserved_stock = GREATEST(p.reserved_stock - oi.quantity, 0),
+      updated_at = NOW()
+  FROM (
+    SELECT product_id, SUM(quantity) AS quantity
+    FROM order_items
+    WHERE order_id = p_order_id
+    GROUP BY product_id
+  ) oi
+  WHERE p.id = oi.product_id;
+
+  UPDATE orders SET stock_status = 'committed' WHERE id = p_order_id;
+
+  RETURN true;
+END;
+$$;
+
+-- Cancelled order: give the reserved quantities back to available stock
+CREATE OR REPLACE FUNCTION public.release_order_stock(p_order_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  -- Admins and the customer who placed the order can cancel it
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND v_order.user_id IS DISTINCT FROM auth.uid()
+     AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Not allowed to cancel order %', p_order_id;
+  END IF;
+
+  IF v_order.stock_status IS DISTINCT FROM 'reserved' THEN
+    RETURN false;
+  END IF;
+
+  UPDATE products p
+  SET reserved_stock = GREATEST(p.reserved_stock - oi.quantity, 0),
+      updated_at = NOW()
+  FROM (
+    SELECT product_id, SUM(quantity) AS quantity
+    FROM order_items
+    WHERE order_id = p_order_id
+    GROUP BY product_id
+  ) oi
+  WHERE p.id = oi.product_id;
+
+  UPDATE orders SET stock_status = 'released' WHERE id = p_order_id;
+
+  RETURN true;
+END;
+$$;
+
+-- place_order now reserves stock instead of taking it off the shelf
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_items JSONB,
+  p_user_id UUID DEFAULT NULL,
+  p_delivery_address TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_status TEXT DEFAULT 'pending',
+  p_payment_status TEXT DEFAULT 'pending'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings RECORD;
+  v_item JSONB;
+  v_product RECORD;
+  v_quantity NUMERIC;
+  v_total NUMERIC := 0;
+  v_order orders;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  -- Customers can only place orders for themselves; admins may order on behalf of anyone
+  IF p_user_id IS DISTINCT FROM auth.uid()
+     AND auth.role() IS DISTINCT FROM 'service_role'
+     AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Not allowed to place orders for another user';
+  END IF;
+
+  -- Orders start out pending and unpaid; only admins may place them in another state
+  IF (COALESCE(p_status, 'pending') <> 'pending' OR COALESCE(p_payment_status, 'pending') <> 'pending')
+     AND auth.role() IS DISTINCT FROM 'service_role'
+     AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Not allowed to place orders with status % and payment status %', p_status, p_payment_status;
+  END IF;
+
+  SELECT order_cutoff_time, delivery_days
+  INTO v_settings
+  FROM settings
+  ORDER BY created_at ASC
+  LIMIT 1;
+
+  INSERT INTO orders (
+    user_id, delivery_address, order_date, delivery_date,
+    total_amount, status, payment_status, notes, stock_status
+  )
+  VALUES (
+    p_user_id, p_delivery_address, NOW(),
+    next_delivery_date(NOW()::TIMESTAMP, v_settings.order_cutoff_time, v_settings.delivery_days),
+    0, COALESCE(p_status, 'pending'), COALESCE(p_payment_status, 'pending'), p_notes, 'reserved'
+  )
+  RETURNING * INTO v_order;
+
+  -- Lock products in a stable order so concurrent checkouts cannot deadlock
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items) ORDER BY value->>'product_id'
+  LOOP
+    v_quantity := (v_item->>'quantity')::NUMERIC;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', v_item->>'product_id';
+    END IF;
+
+    SELECT id, name_en, stock, reserved_stock, is_active
+    INTO v_product
+    FROM products
+    WHERE id = (v_item->>'product_id')::UUID
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT v_product.is_active THEN
+      RAISE EXCEPTION 'Product % is no longer available', v_item->>'product_id';
+    END IF;
+
+    IF v_product.stock - v_product.reserved_stock < v_quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %: % available, % requested',
+        v_product.name_en, v_product.stock - v_product.reserved_stock, v_quantity
+        USING HINT = 'insufficient_stock',
+              DETAIL = jsonb_build_object(
+                'product_id', v_product.id,
+                'product_name', v_product.name_en,
+                'available', v_product.stock - v_product.reserved_stock,
+                'requested', v_quantity
+              )::TEXT;
+    END IF;
+
+    UPDATE products
+    SET reserved_stock = reserved_stock + v_quantity,
+        updated_at = NOW()
+    WHERE id = v_product.id;
+
+    INSERT INTO order_items (order_id, product_id, quantity, unit_price)
+    VALUES (v_order.id, v_product.id, v_quantity, (v_item->>'unit_price')::NUMERIC);
+
+    v_total := v_total + v_quantity * (v_item->>'unit_price')::NUMERIC;
+  END LOOP;
+
+  UPDATE orders
+  SET total_amount = v_total
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  RETURN to_jsonb(v_order) || jsonb_build_object(
+    'items',
+    (SELECT COALESCE(jsonb_agg(to_jsonb(oi)), '[]'::JSONB) FROM order_items oi WHERE oi.order_id = v_order.id)
+  );
+END;
+$$;
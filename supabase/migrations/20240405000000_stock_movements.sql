@@ -0,0 +1,348 @@
+-- Stock movement ledger: one row per change to a product's on-hand or reserved stock.
+-- Rows are written by a trigger on products, so direct updates (e.g. editing a product)
+-- are recorded as well as changes made by the stock functions.
+CREATE TABLE IF NOT EXISTS public.stock_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  reason TEXT NOT NULL CHECK (reason IN (
+    'order_placed', 'order_cancelled', 'order_completed',
+    'manual_adjustment', 'goods_received', 'spoilage', 'return'
+  )),
+  quantity_delta NUMERIC NOT NULL DEFAULT 0,
+  reserved_delta NUMERIC NOT NULL DEFAULT 0,
+  stock_after NUMERIC NOT NULL,
+  reserved_after NUMERIC NOT NULL DEFAULT 0,
+  notes TEXT,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_product
+  ON public.stock_movements (product_id, created_at DESC);
+
+ALTER TABLE public.stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view stock movements"
+  ON public.stock_movements FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'));
+
+-- Describe the stock changes made by the rest of the current transaction.
+-- The ledger trigger reads these settings; without them a change is a manual adjustment.
+CREATE OR REPLACE FUNCTION public.set_stock_movement_context(
+  p_reason TEXT,
+  p_order_id UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  SELECT set_config('app.stock_reason', COALESCE(p_reason, ''), true),
+         set_config('app.stock_order_id', COALESCE(p_order_id::TEXT, ''), true),
+         set_config('app.stock_notes', COALESCE(p_notes, ''), true);
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_stock_movement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old_stock NUMERIC := 0;
+  v_old_reserved NUMERIC := 0;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    v_old_stock := COALESCE(OLD.stock, 0);
+    v_old_reserved := COALESCE(OLD.reserved_stock, 0);
+  END IF;
+
+  IF COALESCE(NEW.stock, 0) = v_old_stock AND COALESCE(NEW.reserved_stock, 0) = v_old_reserved THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO stock_movements (
+    product_id, order_id, reason, quantity_delta, reserved_delta,
+    stock_after, reserved_after, notes, created_by
+  )
+  VALUES (
+    NEW.id,
+    NULLIF(current_setting('app.stock_order_id', true), '')::UUID,
+    COALESCE(NULLIF(current_setting('app.stock_reason', true), ''), 'manual_adjustment'),
+    COALESCE(NEW.stock, 0) - v_old_stock,
+    COALESCE(NEW.reserved_stock, 0) - v_old_reserved,
+    COALESCE(NEW.stock, 0),
+    COALESCE(NEW.reserved_stock, 0),
+    NULLIF(current_setting('app.stock_notes', true), ''),
+    auth.uid()
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS products_stock_movement ON public.products;
+CREATE TRIGGER products_stock_movement
+  AFTER INSERT OR UPDATE OF stock, reserved_stock ON public.products
+  FOR EACH ROW EXECUTE FUNCTION public.log_stock_movement();
+
+-- adjust_product_stock now records why the stock changed
+DROP FUNCTION IF EXISTS public.adjust_product_stock(UUID, NUMERIC);
+
+CREATE OR REPLACE FUNCTION public.adjust_product_stock(
+  p_product_id UUID,
+  p_delta NUMERIC,
+  p_reason TEXT DEFAULT 'manual_adjustment',
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS products
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product products;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can adjust stock';
+  END IF;
+
+  IF p_reason IN ('order_placed', 'order_cancelled', 'order_completed') THEN
+    RAISE EXCEPTION 'Order stock movements are recorded by the order functions';
+  END IF;
+
+  SELECT * INTO v_product FROM products WHERE id = p_product_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product % not found', p_product_id;
+  END IF;
+
+  IF v_product.stock + p_delta < v_product.reserved_stock THEN
+    RAISE EXCEPTION 'Insufficient stock for %: % available, % requested',
+      v_product.name_en, v_product.stock - v_product.reserved_stock, -p_delta
+      USING HINT = 'insufficient_stock',
+            DETAIL = jsonb_build_object(
+              'product_id', v_product.id,
+              'product_name', v_product.name_en,
+              'available', v_product.stock - v_product.reserved_stock,
+              'requested', -p_delta
+            )::TEXT;
+  END IF;
+
+  PERFORM set_stock_movement_context(p_reason, NULL, p_notes);
+
+  UPDATE products
+  SET stock = stock + p_delta,
+      updated_at = NOW()
+  WHERE id = p_product_id
+  RETURNING * INTO v_product;
+
+  PERFORM set_stock_movement_context(NULL);
+
+  RETURN v_product;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.commit_order_stock(p_order_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  -- Admins and the driver delivering the order complete it
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND v_order.assigned_driver_id IS DISTINCT FROM auth.uid()
+     AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Not allowed to complete order %', p_order_id;
+  END IF;
+
+  IF v_order.stock_status IS DISTINCT FROM 'reserved' THEN
+    RETURN false;
+  END IF;
+
+  PERFORM set_stock_movement_context('order_completed', p_order_id);
+
+  UPDATE products p
+  SET stock = p.stock - oi.quantity,
+      reserved_stock = GREATEST(p.reserved_stock - oi.quantity, 0),
+      updated_at = NOW()
+  FROM (
+    SELECT product_id, SUM(quantity) AS quantity
+    FROM order_items
+    WHERE order_id = p_order_id
+    GROUP BY product_id
+  ) oi
+  WHERE p.id = oi.product_id;
+
+  PERFORM set_stock_movement_context(NULL);
+
+  UPDATE orders SET stock_status = 'committed' WHERE id = p_order_id;
+
+  RETURN true;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.release_order_stock(p_order_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  -- Admins and the customer who placed the order can cancel it
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND v_order.user_id IS DISTINCT FROM auth.uid()
+     AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Not allowed to cancel order %', p_order_id;
+  END IF;
+
+  IF v_order.stock_status IS DISTINCT FROM 'reserved' THEN
+    RETURN false;
+  END IF;
+
+  PERFORM set_stock_movement_context('order_cancelled', p_order_id);
+
+  UPDATE products p
+  SET reserved_stock = GREATEST(p.reserved_stock - oi.quantity, 0),
+      updated_at = NOW()
+  FROM (
+    SELECT product_id, SUM(quantity) AS quantity
+    FROM order_items
+    WHERE order_id = p_order_id
+    GROUP BY product_id
+  ) oi
+  WHERE p.id = oi.product_id;
+
+  PERFORM set_stock_movement_context(NULL);
+
+  UPDATE orders SET stock_status = 'released' WHERE id = p_order_id;
+
+  RETURN true;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_items JSONB,
+  p_user_id UUID DEFAULT NULL,
+  p_delivery_address TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_status TEXT DEFAULT 'pending',
+  p_payment_status TEXT DEFAULT 'pending'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings RECORD;
+  v_item JSONB;
+  v_product RECORD;
+  v_quantity NUMERIC;
+  v_total NUMERIC := 0;
+  v_order orders;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  -- Customers can only place orders for themselves; admins may order on behalf of anyone
+  IF p_user_id IS DISTINCT FROM auth.uid()
+     AND auth.role() IS DISTINCT FROM 'service_role'
+     AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Not allowed to place orders for another user';
+  END IF;
+
+  -- Orders start out pending and unpaid; only admins may place them in another state
+  IF (COALESCE(p_status, 'pending') <> 'pending' OR COALESCE(p_payment_status, 'pending') <> 'pending')
+     AND auth.role() IS DISTINCT FROM 'service_role'
+     AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Not allowed to place orders with status % and payment status %', p_status, p_payment_status;
+  END IF;
+
+  SELECT order_cutoff_time, delivery_days
+  INTO v_settings
+  FROM settings
+  ORDER BY created_at ASC
+  LIMIT 1;
+
+  INSERT INTO orders (
+    user_id, delivery_address, order_date, delivery_date,
+    total_amount, status, payment_status, notes, stock_status
+  )
+  VALUES (
+    p_user_id, p_delivery_address, NOW(),
+    next_delivery_date(NOW()::TIMESTAMP, v_settings.order_cutoff_time, v_settings.delivery_days),
+    0, COALESCE(p_status, 'pending'), COALESCE(p_payment_status, 'pending'), p_notes, 'reserved'
+  )
+  RETURNING * INTO v_order;
+
+  PERFORM set_stock_movement_context('order_placed', v_order.id);
+
+  -- Lock products in a stable order so concurrent checkouts cannot deadlock
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items) ORDER BY value->>'product_id'
+  LOOP
+    v_quantity := (v_item->>'quantity')::NUMERIC;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', v_item->>'product_id';
+    END IF;
+
+    SELECT id, name_en, stock, reserved_stock, is_active
+    INTO v_product
+    FROM products
+    WHERE id = (v_item->>'product_id')::UUID
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT v_product.is_active THEN
+      RAISE EXCEPTION 'Product % is no longer available', v_item->>'product_id';
+    END IF;
+
+    IF v_product.stock - v_product.reserved_stock < v_quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %: % available, % requested',
+        v_product.name_en, v_product.stock - v_product.reserved_stock, v_quantity
+        USING HINT = 'insufficient_stock',
+              DETAIL = jsonb_build_object(
+                'product_id', v_product.id,
+                'product_name', v_product.name_en,
+                'available', v_product.stock - v_product.reserved_stock,
+                'requested', v_quantity
+              )::TEXT;
+    END IF;
+
+    UPDATE products
+    SET reserved_stock = reserved_stock + v_quantity,
+        updated_at = NOW()
+    WHERE id = v_product.id;
+
+    INSERT INTO order_items (order_id, product_id, quantity, unit_price)
+    VALUES (v_order.id, v_product.id, v_quantity, (v_item->>'unit_price')::NUMERIC);
+
+    v_total := v_total + v_quantity * (v_item->>'unit_price')::NUMERIC;
+  END LOOP;
+
+  PERFORM set_stock_movement_context(NULL);
+
+  UPDATE orders
+  SET total_amount = v_total
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  RETURN to_jsonb(v_order) || jsonb_build_object(
+    'items',
+    (SELECT COALESCE(jsonb_agg(to_jsonb(oi)), '[]'::JSONB) FROM order_items oi WHERE oi.order_id = v_order.id)
+  );
+END;
+$$;
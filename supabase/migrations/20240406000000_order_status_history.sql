@@ -0,0 +1,151 @@
+-- Order status history: one row per status change, with who made it and why
+CREATE TABLE IF NOT EXISTS public.order_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  reason TEXT,
+  changed_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order
+  ON public.order_status_history (order_id, created_at);
+
+ALTER TABLE public.order_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Order status history is visible to admins, the customer and the driver"
+  ON public.order_status_history FOR SELECT
+  USING (
+    EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin')
+    OR EXISTS (
+      SELECT 1 FROM public.orders o
+      WHERE o.id = order_id
+        AND (o.user_id = auth.uid() OR o.assigned_driver_id = auth.uid())
+    )
+  );
+
+-- Allowed status transitions; keep in sync with ORDER_STATUS_TRANSITIONS in order-api.ts
+CREATE OR REPLACE FUNCTION public.order_status_transition_allowed(p_from TEXT, p_to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_from
+    WHEN 'pending' THEN p_to IN ('processing', 'cancelled')
+    WHEN 'processing' THEN p_to IN ('pending', 'completed', 'cancelled')
+    ELSE false
+  END;
+$$;
+
+-- Reject invalid transitions however the status is updated
+CREATE OR REPLACE FUNCTION public.check_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+     AND NOT order_status_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Cannot change order status from % to %', OLD.status, NEW.status
+      USING HINT = 'invalid_status_transition';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_check_status_transition ON public.orders;
+CREATE TRIGGER orders_check_status_transition
+  BEFORE UPDATE OF status ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.check_order_status_transition();
+
+-- Record every status change; the reason comes from change_order_status()
+CREATE OR REPLACE FUNCTION public.log_order_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO order_status_history (order_id, from_status, to_status, reason, changed_by)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    NULLIF(current_setting('app.status_reason', true), ''),
+    auth.uid()
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_log_status_change ON public.orders;
+CREATE TRIGGER orders_log_status_change
+  AFTER INSERT OR UPDATE OF status ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.log_order_status_change();
+
+-- Move an order to a new status, running the stock side effects in the same transaction.
+-- Admins may make any allowed transition, the assigned driver may start and complete
+-- the delivery, and the customer may cancel a pending order.
+CREATE OR REPLACE FUNCTION public.change_order_status(
+  p_order_id UUID,
+  p_status TEXT,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+  v_is_admin BOOLEAN;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  IF v_order.status = p_status THEN
+    RETURN v_order;
+  END IF;
+
+  v_is_admin := auth.role() = 'service_role'
+    OR EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin');
+
+  IF NOT v_is_admin
+     AND NOT (v_order.assigned_driver_id = auth.uid() AND p_status IN ('processing', 'completed'))
+     AND NOT (v_order.user_id = auth.uid() AND v_order.status = 'pending' AND p_status = 'cancelled') THEN
+    RAISE EXCEPTION 'Not allowed to change order % to %', p_order_id, p_status;
+  END IF;
+
+  IF NOT order_status_transition_allowed(v_order.status, p_status) THEN
+    RAISE EXCEPTION 'Cannot change order status from % to %', v_order.status, p_status
+      USING HINT = 'invalid_status_transition';
+  END IF;
+
+  IF p_status = 'cancelled' THEN
+    PERFORM release_order_stock(p_order_id);
+  ELSIF p_status = 'completed' THEN
+    PERFORM commit_order_stock(p_order_id);
+  END IF;
+
+  PERFORM set_config('app.status_reason', COALESCE(p_reason, ''), true);
+
+  UPDATE orders
+  SET status = p_status,
+      updated_at = NOW()
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  PERFORM set_config('app.status_reason', '', true);
+
+  RETURN v_order;
+END;
+$$;
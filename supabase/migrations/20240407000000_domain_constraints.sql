@@ -0,0 +1,23 @@
+-- Status and role columns are plain TEXT, so the generated types only know them as strings.
+-- Pin them to the values of the domain model in src/app/lib/types.ts (OrderStatus,
+-- PaymentStatus, UserRole, UserStatus). NOT VALID leaves legacy rows alone but checks
+-- every new insert or update.
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE public.orders
+  ADD CONSTRAINT orders_status_check
+  CHECK (status IN ('pending', 'processing', 'completed', 'cancelled')) NOT VALID;
+
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS orders_payment_status_check;
+ALTER TABLE public.orders
+  ADD CONSTRAINT orders_payment_status_check
+  CHECK (payment_status IN ('pending', 'paid', 'failed')) NOT VALID;
+
+ALTER TABLE public.users DROP CONSTRAINT IF EXISTS users_role_check;
+ALTER TABLE public.users
+  ADD CONSTRAINT users_role_check
+  CHECK (role IN ('admin', 'customer', 'driver')) NOT VALID;
+
+ALTER TABLE public.users DROP CONSTRAINT IF EXISTS users_status_check;
+ALTER TABLE public.users
+  ADD CONSTRAINT users_status_check
+  CHECK (status IN ('active', 'inactive')) NOT VALID;
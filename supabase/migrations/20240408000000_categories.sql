@@ -0,0 +1,43 @@
+-- Product categories with translated names, a sort order and an optional parent category
+CREATE TABLE IF NOT EXISTS public.categories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name_en TEXT NOT NULL,
+  name_vi TEXT,
+  name_tr TEXT,
+  parent_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT categories_not_own_parent CHECK (parent_id IS DISTINCT FROM id)
+);
+
+-- Category names are matched case-insensitively by the CSV importer
+CREATE UNIQUE INDEX IF NOT EXISTS idx_categories_name_en
+  ON public.categories (lower(name_en));
+
+CREATE INDEX IF NOT EXISTS idx_categories_parent
+  ON public.categories (parent_id, sort_order);
+
+DROP TRIGGER IF EXISTS update_categories_updated_at ON public.categories;
+CREATE TRIGGER update_categories_updated_at
+  BEFORE UPDATE ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view categories"
+  ON public.categories FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage categories"
+  ON public.categories FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'));
+
+-- Products reference their category; deleting a category leaves its products uncategorised
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_products_category
+  ON public.products (category_id);
@@ -0,0 +1,294 @@
+-- Customer groups, e.g. "Restaurants" or "Hotels", used to share a price list between customers
+CREATE TABLE IF NOT EXISTS public.customer_groups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.customer_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage customer groups"
+  ON public.customer_groups FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'));
+
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS customer_group_id UUID REFERENCES public.customer_groups(id) ON DELETE SET NULL;
+
+-- Price lists hold negotiated prices for one customer or for a customer group
+CREATE TABLE IF NOT EXISTS public.price_lists (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  customer_group_id UUID REFERENCES public.customer_groups(id) ON DELETE CASCADE,
+  valid_from DATE,
+  valid_to DATE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT price_lists_single_assignee CHECK (user_id IS NULL OR customer_group_id IS NULL),
+  CONSTRAINT price_lists_valid_range CHECK (valid_to IS NULL OR valid_from IS NULL OR valid_to >= valid_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_lists_user ON public.price_lists (user_id);
+CREATE INDEX IF NOT EXISTS idx_price_lists_customer_group ON public.price_lists (customer_group_id);
+
+DROP TRIGGER IF EXISTS update_price_lists_updated_at ON public.price_lists;
+CREATE TRIGGER update_price_lists_updated_at
+  BEFORE UPDATE ON public.price_lists
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.price_list_items (
+  price_list_id UUID NOT NULL REFERENCES public.price_lists(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  price NUMERIC NOT NULL CHECK (price >= 0),
+  PRIMARY KEY (price_list_id, product_id)
+);
+
+ALTER TABLE public.price_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.price_list_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage price lists"
+  ON public.price_lists FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE POLICY "Admins can manage price list items"
+  ON public.price_list_items FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'));
+
+-- Remember which price list an order line was priced from
+ALTER TABLE public.order_items
+  ADD COLUMN IF NOT EXISTS price_list_id UUID REFERENCES public.price_lists(id) ON DELETE SET NULL;
+
+-- The contract prices that apply to a customer on a given day.
+-- A list assigned to the customer beats a list of their group; among lists of the same kind
+-- the one that became valid most recently wins.
+CREATE OR REPLACE FUNCTION public.resolve_customer_prices(p_user_id UUID, p_on DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE (product_id UUID, price NUMERIC, price_list_id UUID)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT DISTINCT ON (pli.product_id) pli.product_id, pli.price, pl.id
+  FROM price_lists pl
+  JOIN price_list_items pli ON pli.price_list_id = pl.id
+  LEFT JOIN users u ON u.id = p_user_id
+  WHERE p_user_id IS NOT NULL
+    AND pl.is_active
+    AND (pl.valid_from IS NULL OR pl.valid_from <= p_on)
+    AND (pl.valid_to IS NULL OR pl.valid_to >= p_on)
+    AND (pl.user_id = p_user_id OR pl.customer_group_id = u.customer_group_id)
+  ORDER BY pli.product_id, (pl.user_id IS NOT NULL) DESC, pl.valid_from DESC NULLS LAST, pl.created_at DESC;
+$$;
+
+-- Prices a customer pays today: the contract price where there is one, the list price otherwise.
+-- Customers can only look up their own prices.
+CREATE OR REPLACE FUNCTION public.get_customer_prices(
+  p_product_ids UUID[] DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS TABLE (product_id UUID, price NUMERIC, base_price NUMERIC, price_list_id UUID)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := COALESCE(p_user_id, auth.uid());
+BEGIN
+  IF v_user_id IS DISTINCT FROM auth.uid()
+     AND auth.role() IS DISTINCT FROM 'service_role'
+     AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Not allowed to look up prices for another user';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.id, COALESCE(r.price, p.price), p.price, r.price_list_id
+  FROM products p
+  LEFT JOIN resolve_customer_prices(v_user_id) r ON r.product_id = p.id
+  WHERE p_product_ids IS NULL OR p.id = ANY (p_product_ids);
+END;
+$$;
+
+-- Order lines written by anyone but an admin are always priced by the server
+CREATE OR REPLACE FUNCTION public.enforce_order_item_price()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  IF auth.role() = 'service_role'
+     OR EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT user_id INTO v_user_id FROM orders WHERE id = NEW.order_id;
+
+  SELECT COALESCE(r.price, p.price), r.price_list_id
+  INTO NEW.unit_price, NEW.price_list_id
+  FROM products p
+  LEFT JOIN resolve_customer_prices(v_user_id) r ON r.product_id = p.id
+  WHERE p.id = NEW.product_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS order_items_enforce_price ON public.order_items;
+CREATE TRIGGER order_items_enforce_price
+  BEFORE INSERT OR UPDATE OF unit_price, product_id ON public.order_items
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_order_item_price();
+
+-- place_order prices every line on the server. A customer whose cart holds a stale price gets a
+-- price_changed error with the current price; admins ordering on behalf of a customer may set
+-- the price themselves.
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_items JSONB,
+  p_user_id UUID DEFAULT NULL,
+  p_delivery_address TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_status TEXT DEFAULT 'pending',
+  p_payment_status TEXT DEFAULT 'pending'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings RECORD;
+  v_item JSONB;
+  v_product RECORD;
+  v_quantity NUMERIC;
+  v_submitted_price NUMERIC;
+  v_price NUMERIC;
+  v_price_list_id UUID;
+  v_is_admin BOOLEAN;
+  v_total NUMERIC := 0;
+  v_order orders;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  v_is_admin := auth.role() = 'service_role'
+    OR EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin');
+
+  -- Customers can only place orders for themselves; admins may order on behalf of anyone
+  IF p_user_id IS DISTINCT FROM auth.uid() AND NOT v_is_admin THEN
+    RAISE EXCEPTION 'Not allowed to place orders for another user';
+  END IF;
+
+  -- Orders start out pending and unpaid; only admins may place them in another state
+  IF (COALESCE(p_status, 'pending') <> 'pending' OR COALESCE(p_payment_status, 'pending') <> 'pending')
+     AND NOT v_is_admin THEN
+    RAISE EXCEPTION 'Not allowed to place orders with status % and payment status %', p_status, p_payment_status;
+  END IF;
+
+  SELECT order_cutoff_time, delivery_days
+  INTO v_settings
+  FROM settings
+  ORDER BY created_at ASC
+  LIMIT 1;
+
+  INSERT INTO orders (
+    user_id, delivery_address, order_date, delivery_date,
+    total_amount, status, payment_status, notes, stock_status
+  )
+  VALUES (
+    p_user_id, p_delivery_address, NOW(),
+    next_delivery_date(NOW()::TIMESTAMP, v_settings.order_cutoff_time, v_settings.delivery_days),
+    0, COALESCE(p_status, 'pending'), COALESCE(p_payment_status, 'pending'), p_notes, 'reserved'
+  )
+  RETURNING * INTO v_order;
+
+  PERFORM set_stock_movement_context('order_placed', v_order.id);
+
+  -- Lock products in a stable order so concurrent checkouts cannot deadlock
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items) ORDER BY value->>'product_id'
+  LOOP
+    v_quantity := (v_item->>'quantity')::NUMERIC;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', v_item->>'product_id';
+    END IF;
+
+    SELECT id, name_en, price, stock, reserved_stock, is_active
+    INTO v_product
+    FROM products
+    WHERE id = (v_item->>'product_id')::UUID
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT v_product.is_active THEN
+      RAISE EXCEPTION 'Product % is no longer available', v_item->>'product_id';
+    END IF;
+
+    SELECT r.price, r.price_list_id
+    INTO v_price, v_price_list_id
+    FROM resolve_customer_prices(p_user_id) r
+    WHERE r.product_id = v_product.id;
+
+    v_price := COALESCE(v_price, v_product.price);
+    v_submitted_price := (v_item->>'unit_price')::NUMERIC;
+
+    IF v_submitted_price IS NOT NULL AND round(v_submitted_price, 2) <> round(v_price, 2) THEN
+      IF v_is_admin THEN
+        v_price := v_submitted_price;
+        v_price_list_id := NULL;
+      ELSE
+        RAISE EXCEPTION 'The price of % has changed to %', v_product.name_en, v_price
+          USING HINT = 'price_changed',
+                DETAIL = jsonb_build_object(
+                  'product_id', v_product.id,
+                  'product_name', v_product.name_en,
+                  'price', v_price,
+                  'submitted', v_submitted_price
+                )::TEXT;
+      END IF;
+    END IF;
+
+    IF v_product.stock - v_product.reserved_stock < v_quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %: % available, % requested',
+        v_product.name_en, v_product.stock - v_product.reserved_stock, v_quantity
+        USING HINT = 'insufficient_stock',
+              DETAIL = jsonb_build_object(
+                'product_id', v_product.id,
+                'product_name', v_product.name_en,
+                'available', v_product.stock - v_product.reserved_stock,
+                'requested', v_quantity
+              )::TEXT;
+    END IF;
+
+    UPDATE products
+    SET reserved_stock = reserved_stock + v_quantity,
+        updated_at = NOW()
+    WHERE id = v_product.id;
+
+    INSERT INTO order_items (order_id, product_id, quantity, unit_price, price_list_id)
+    VALUES (v_order.id, v_product.id, v_quantity, v_price, v_price_list_id);
+
+    v_total := v_total + v_quantity * v_price;
+  END LOOP;
+
+  PERFORM set_stock_movement_context(NULL);
+
+  UPDATE orders
+  SET total_amount = v_total
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  RETURN to_jsonb(v_order) || jsonb_build_object(
+    'items',
+    (SELECT COALESCE(jsonb_agg(to_jsonb(oi)), '[]'::JSONB) FROM order_items oi WHERE oi.order_id = v_order.id)
+  );
+END;
+$$;
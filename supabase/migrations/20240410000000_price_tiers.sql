@@ -0,0 +1,246 @@
+-- Quantity break prices: ordering at least min_quantity of a product gets the tier price.
+-- Quantities below the lowest tier pay the product's own price.
+CREATE TABLE IF NOT EXISTS public.product_price_tiers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  min_quantity NUMERIC NOT NULL CHECK (min_quantity > 0),
+  price NUMERIC NOT NULL CHECK (price >= 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT product_price_tiers_unique_break UNIQUE (product_id, min_quantity)
+);
+
+ALTER TABLE public.product_price_tiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view price tiers"
+  ON public.product_price_tiers FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage price tiers"
+  ON public.product_price_tiers FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'));
+
+-- Replace the tiers of a product in one go, so a failed save leaves the old tiers in place.
+-- p_tiers is a list of {min_quantity, price}.
+CREATE OR REPLACE FUNCTION public.set_product_price_tiers(p_product_id UUID, p_tiers JSONB)
+RETURNS SETOF product_price_tiers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can change price tiers';
+  END IF;
+
+  DELETE FROM product_price_tiers WHERE product_id = p_product_id;
+
+  RETURN QUERY
+  INSERT INTO product_price_tiers (product_id, min_quantity, price)
+  SELECT p_product_id, (e.value->>'min_quantity')::NUMERIC, (e.value->>'price')::NUMERIC
+  FROM jsonb_array_elements(COALESCE(p_tiers, '[]'::JSONB)) e
+  RETURNING *;
+END;
+$$;
+
+-- The unit price a customer pays for a quantity of a product: their contract price (or the list
+-- price) unless a quantity tier is cheaper. price_list_id is set when the contract price was used.
+CREATE OR REPLACE FUNCTION public.resolve_unit_price(p_user_id UUID, p_product_id UUID, p_quantity NUMERIC)
+RETURNS TABLE (price NUMERIC, price_list_id UUID)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH base AS (
+    SELECT COALESCE(r.price, p.price) AS price, r.price_list_id
+    FROM products p
+    LEFT JOIN resolve_customer_prices(p_user_id) r ON r.product_id = p.id
+    WHERE p.id = p_product_id
+  ),
+  tier AS (
+    SELECT t.price
+    FROM product_price_tiers t
+    WHERE t.product_id = p_product_id AND t.min_quantity <= p_quantity
+    ORDER BY t.min_quantity DESC
+    LIMIT 1
+  )
+  SELECT
+    CASE WHEN tier.price < base.price THEN tier.price ELSE base.price END,
+    CASE WHEN tier.price < base.price THEN NULL ELSE base.price_list_id END
+  FROM base
+  LEFT JOIN tier ON true;
+$$;
+
+-- Re-price server-side order lines when the quantity changes too, since tiers depend on it
+CREATE OR REPLACE FUNCTION public.enforce_order_item_price()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  IF auth.role() = 'service_role'
+     OR EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT user_id INTO v_user_id FROM orders WHERE id = NEW.order_id;
+
+  SELECT r.price, r.price_list_id
+  INTO NEW.unit_price, NEW.price_list_id
+  FROM resolve_unit_price(v_user_id, NEW.product_id, NEW.quantity) r;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS order_items_enforce_price ON public.order_items;
+CREATE TRIGGER order_items_enforce_price
+  BEFORE INSERT OR UPDATE OF unit_price, product_id, quantity ON public.order_items
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_order_item_price();
+
+-- place_order now prices each line for its quantity
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_items JSONB,
+  p_user_id UUID DEFAULT NULL,
+  p_delivery_address TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_status TEXT DEFAULT 'pending',
+  p_payment_status TEXT DEFAULT 'pending'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings RECORD;
+  v_item JSONB;
+  v_product RECORD;
+  v_quantity NUMERIC;
+  v_submitted_price NUMERIC;
+  v_price NUMERIC;
+  v_price_list_id UUID;
+  v_is_admin BOOLEAN;
+  v_total NUMERIC := 0;
+  v_order orders;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  v_is_admin := auth.role() = 'service_role'
+    OR EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin');
+
+  -- Customers can only place orders for themselves; admins may order on behalf of anyone
+  IF p_user_id IS DISTINCT FROM auth.uid() AND NOT v_is_admin THEN
+    RAISE EXCEPTION 'Not allowed to place orders for another user';
+  END IF;
+
+  -- Orders start out pending and unpaid; only admins may place them in another state
+  IF (COALESCE(p_status, 'pending') <> 'pending' OR COALESCE(p_payment_status, 'pending') <> 'pending')
+     AND NOT v_is_admin THEN
+    RAISE EXCEPTION 'Not allowed to place orders with status % and payment status %', p_status, p_payment_status;
+  END IF;
+
+  SELECT order_cutoff_time, delivery_days
+  INTO v_settings
+  FROM settings
+  ORDER BY created_at ASC
+  LIMIT 1;
+
+  INSERT INTO orders (
+    user_id, delivery_address, order_date, delivery_date,
+    total_amount, status, payment_status, notes, stock_status
+  )
+  VALUES (
+    p_user_id, p_delivery_address, NOW(),
+    next_delivery_date(NOW()::TIMESTAMP, v_settings.order_cutoff_time, v_settings.delivery_days),
+    0, COALESCE(p_status, 'pending'), COALESCE(p_payment_status, 'pending'), p_notes, 'reserved'
+  )
+  RETURNING * INTO v_order;
+
+  PERFORM set_stock_movement_context('order_placed', v_order.id);
+
+  -- Lock products in a stable order so concurrent checkouts cannot deadlock
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items) ORDER BY value->>'product_id'
+  LOOP
+    v_quantity := (v_item->>'quantity')::NUMERIC;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', v_item->>'product_id';
+    END IF;
+
+    SELECT id, name_en, price, stock, reserved_stock, is_active
+    INTO v_product
+    FROM products
+    WHERE id = (v_item->>'product_id')::UUID
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT v_product.is_active THEN
+      RAISE EXCEPTION 'Product % is no longer available', v_item->>'product_id';
+    END IF;
+
+    SELECT r.price, r.price_list_id
+    INTO v_price, v_price_list_id
+    FROM resolve_unit_price(p_user_id, v_product.id, v_quantity) r;
+
+    v_submitted_price := (v_item->>'unit_price')::NUMERIC;
+
+    IF v_submitted_price IS NOT NULL AND round(v_submitted_price, 2) <> round(v_price, 2) THEN
+      IF v_is_admin THEN
+        v_price := v_submitted_price;
+        v_price_list_id := NULL;
+      ELSE
+        RAISE EXCEPTION 'The price of % has changed to %', v_product.name_en, v_price
+          USING HINT = 'price_changed',
+                DETAIL = jsonb_build_object(
+                  'product_id', v_product.id,
+                  'product_name', v_product.name_en,
+                  'price', v_price,
+                  'submitted', v_submitted_price
+                )::TEXT;
+      END IF;
+    END IF;
+
+    IF v_product.stock - v_product.reserved_stock < v_quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %: % available, % requested',
+        v_product.name_en, v_product.stock - v_product.reserved_stock, v_quantity
+        USING HINT = 'insufficient_stock',
+              DETAIL = jsonb_build_object(
+                'product_id', v_product.id,
+                'product_name', v_product.name_en,
+                'available', v_product.stock - v_product.reserved_stock,
+                'requested', v_quantity
+              )::TEXT;
+    END IF;
+
+    UPDATE products
+    SET reserved_stock = reserved_stock + v_quantity,
+        updated_at = NOW()
+    WHERE id = v_product.id;
+
+    INSERT INTO order_items (order_id, product_id, quantity, unit_price, price_list_id)
+    VALUES (v_order.id, v_product.id, v_quantity, v_price, v_price_list_id);
+
+    v_total := v_total + v_quantity * v_price;
+  END LOOP;
+
+  PERFORM set_stock_movement_context(NULL);
+
+  UPDATE orders
+  SET total_amount = v_total
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  RETURN to_jsonb(v_order) || jsonb_build_object(
+    'items',
+    (SELECT COALESCE(jsonb_agg(to_jsonb(oi)), '[]'::JSONB) FROM order_items oi WHERE oi.order_id = v_order.id)
+  );
+END;
+$$;
@@ -0,0 +1,477 @@
+-- Pack variants of a product, e.g. a 10 kg case of a product sold by the kg.
+-- products.unit is the base unit: products.price is per base unit and stock is counted in base
+-- units. A pack holds base_quantity base units and has its own price.
+CREATE TABLE IF NOT EXISTS public.product_packs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  sku_suffix TEXT NOT NULL,
+  base_quantity NUMERIC NOT NULL CHECK (base_quantity > 0),
+  price NUMERIC NOT NULL CHECK (price >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT product_packs_unique_sku_suffix UNIQUE (product_id, sku_suffix)
+);
+
+DROP TRIGGER IF EXISTS update_product_packs_updated_at ON public.product_packs;
+CREATE TRIGGER update_product_packs_updated_at
+  BEFORE UPDATE ON public.product_packs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.product_packs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view product packs"
+  ON public.product_packs FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage product packs"
+  ON public.product_packs FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'));
+
+-- Save the packs of a product in one go: packs with an id are updated, those without one created
+-- and packs missing from p_packs deleted. Packs that have been ordered can't be deleted, and then
+-- nothing is saved.
+CREATE OR REPLACE FUNCTION public.set_product_packs(p_product_id UUID, p_packs JSONB)
+RETURNS SETOF product_packs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can change product packs';
+  END IF;
+
+  DELETE FROM product_packs pk
+  WHERE pk.product_id = p_product_id
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(COALESCE(p_packs, '[]'::JSONB)) e
+      WHERE (e.value->>'id')::UUID = pk.id
+    );
+
+  UPDATE product_packs pk
+  SET name = e.value->>'name',
+      sku_suffix = e.value->>'sku_suffix',
+      base_quantity = (e.value->>'base_quantity')::NUMERIC,
+      price = (e.value->>'price')::NUMERIC,
+      is_active = COALESCE((e.value->>'is_active')::BOOLEAN, true),
+      sort_order = COALESCE((e.value->>'sort_order')::INTEGER, 0)
+  FROM jsonb_array_elements(COALESCE(p_packs, '[]'::JSONB)) e
+  WHERE pk.id = (e.value->>'id')::UUID AND pk.product_id = p_product_id;
+
+  INSERT INTO product_packs (product_id, name, sku_suffix, base_quantity, price, is_active, sort_order)
+  SELECT
+    p_product_id,
+    e.value->>'name',
+    e.value->>'sku_suffix',
+    (e.value->>'base_quantity')::NUMERIC,
+    (e.value->>'price')::NUMERIC,
+    COALESCE((e.value->>'is_active')::BOOLEAN, true),
+    COALESCE((e.value->>'sort_order')::INTEGER, 0)
+  FROM jsonb_array_elements(COALESCE(p_packs, '[]'::JSONB)) e
+  WHERE e.value->>'id' IS NULL;
+
+  RETURN QUERY
+  SELECT * FROM product_packs WHERE product_id = p_product_id ORDER BY sort_order;
+END;
+$$;
+
+-- An order line counts packs when pack_id is set and base units otherwise; unit_price is per
+-- pack or per base unit accordingly. base_quantity is what the line takes from stock.
+-- Packs that have been ordered can't be deleted, only deactivated.
+ALTER TABLE public.order_items
+  ADD COLUMN IF NOT EXISTS pack_id UUID REFERENCES public.product_packs(id),
+  ADD COLUMN IF NOT EXISTS base_quantity NUMERIC;
+
+UPDATE public.order_items SET base_quantity = quantity WHERE base_quantity IS NULL;
+
+ALTER TABLE public.order_items ALTER COLUMN base_quantity SET NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.set_order_item_base_quantity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.pack_id IS NULL THEN
+    NEW.base_quantity := NEW.quantity;
+  ELSE
+    SELECT NEW.quantity * pk.base_quantity
+    INTO NEW.base_quantity
+    FROM product_packs pk
+    WHERE pk.id = NEW.pack_id AND pk.product_id = NEW.product_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Pack % does not belong to product %', NEW.pack_id, NEW.product_id;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS order_items_base_quantity ON public.order_items;
+CREATE TRIGGER order_items_base_quantity
+  BEFORE INSERT OR UPDATE OF quantity, pack_id, product_id ON public.order_items
+  FOR EACH ROW EXECUTE FUNCTION public.set_order_item_base_quantity();
+
+-- The price of one unit of an order line: a pack costs its own price, or the base unit price of
+-- its contents if the customer's contract price or a quantity tier makes that cheaper.
+CREATE OR REPLACE FUNCTION public.resolve_line_price(
+  p_user_id UUID,
+  p_product_id UUID,
+  p_pack_id UUID,
+  p_quantity NUMERIC
+)
+RETURNS TABLE (price NUMERIC, price_list_id UUID)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT r.price, r.price_list_id
+  FROM resolve_unit_price(p_user_id, p_product_id, p_quantity) r
+  WHERE p_pack_id IS NULL
+  UNION ALL
+  SELECT
+    CASE WHEN pk.price <= round(r.price * pk.base_quantity, 2) THEN pk.price ELSE round(r.price * pk.base_quantity, 2) END,
+    CASE WHEN pk.price <= round(r.price * pk.base_quantity, 2) THEN NULL ELSE r.price_list_id END
+  FROM product_packs pk
+  CROSS JOIN LATERAL resolve_unit_price(p_user_id, p_product_id, p_quantity * pk.base_quantity) r
+  WHERE p_pack_id IS NOT NULL AND pk.id = p_pack_id AND pk.product_id = p_product_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_order_item_price()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  IF auth.role() = 'service_role'
+     OR EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT user_id INTO v_user_id FROM orders WHERE id = NEW.order_id;
+
+  SELECT r.price, r.price_list_id
+  INTO NEW.unit_price, NEW.price_list_id
+  FROM resolve_line_price(v_user_id, NEW.product_id, NEW.pack_id, NEW.quantity) r;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS order_items_enforce_price ON public.order_items;
+CREATE TRIGGER order_items_enforce_price
+  BEFORE INSERT OR UPDATE OF unit_price, product_id, quantity, pack_id ON public.order_items
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_order_item_price();
+
+-- Stock moves in base units
+CREATE OR REPLACE FUNCTION public.commit_order_stock(p_order_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  -- Admins and the driver delivering the order complete it
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND v_order.assigned_driver_id IS DISTINCT FROM auth.uid()
+     AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Not allowed to complete order %', p_order_id;
+  END IF;
+
+  IF v_order.stock_status IS DISTINCT FROM 'reserved' THEN
+    RETURN false;
+  END IF;
+
+  PERFORM set_stock_movement_context('order_completed', p_order_id);
+
+  UPDATE products p
+  SET stock = p.stock - oi.quantity,
+      reserved_stock = GREATEST(p.reserved_stock - oi.quantity, 0),
+      updated_at = NOW()
+  FROM (
+    SELECT product_id, SUM(base_quantity) AS quantity
+    FROM order_items
+    WHERE order_id = p_order_id
+    GROUP BY product_id
+  ) oi
+  WHERE p.id = oi.product_id;
+
+  PERFORM set_stock_movement_context(NULL);
+
+  UPDATE orders SET stock_status = 'committed' WHERE id = p_order_id;
+
+  RETURN true;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.release_order_stock(p_order_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  -- Admins and the customer who placed the order can cancel it
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND v_order.user_id IS DISTINCT FROM auth.uid()
+     AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Not allowed to cancel order %', p_order_id;
+  END IF;
+
+  IF v_order.stock_status IS DISTINCT FROM 'reserved' THEN
+    RETURN false;
+  END IF;
+
+  PERFORM set_stock_movement_context('order_cancelled', p_order_id);
+
+  UPDATE products p
+  SET reserved_stock = GREATEST(p.reserved_stock - oi.quantity, 0),
+      updated_at = NOW()
+  FROM (
+    SELECT product_id, SUM(base_quantity) AS quantity
+    FROM order_items
+    WHERE order_id = p_order_id
+    GROUP BY product_id
+  ) oi
+  WHERE p.id = oi.product_id;
+
+  PERFORM set_stock_movement_context(NULL);
+
+  UPDATE orders SET stock_status = 'released' WHERE id = p_order_id;
+
+  RETURN true;
+END;
+$$;
+
+-- place_order accepts an optional pack_id per item; quantity then counts packs
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_items JSONB,
+  p_user_id UUID DEFAULT NULL,
+  p_delivery_address TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_status TEXT DEFAULT 'pending',
+  p_payment_status TEXT DEFAULT 'pending'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings RECORD;
+  v_item JSONB;
+  v_product RECORD;
+  v_pack product_packs;
+  v_quantity NUMERIC;
+  v_base_quantity NUMERIC;
+  v_submitted_price NUMERIC;
+  v_price NUMERIC;
+  v_price_list_id UUID;
+  v_is_admin BOOLEAN;
+  v_total NUMERIC := 0;
+  v_order orders;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  v_is_admin := auth.role() = 'service_role'
+    OR EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin');
+
+  -- Customers can only place orders for themselves; admins may order on behalf of anyone
+  IF p_user_id IS DISTINCT FROM auth.uid() AND NOT v_is_admin THEN
+    RAISE EXCEPTION 'Not allowed to place orders for another user';
+  END IF;
+
+  -- Orders start out pending and unpaid; only admins may place them in another state
+  IF (COALESCE(p_status, 'pending') <> 'pending' OR COALESCE(p_payment_status, 'pending') <> 'pending')
+     AND NOT v_is_admin THEN
+    RAISE EXCEPTION 'Not allowed to place orders with status % and payment status %', p_status, p_payment_status;
+  END IF;
+
+  SELECT order_cutoff_time, delivery_days
+  INTO v_settings
+  FROM settings
+  ORDER BY created_at ASC
+  LIMIT 1;
+
+  INSERT INTO orders (
+    user_id, delivery_address, order_date, delivery_date,
+    total_amount, status, payment_status, notes, stock_status
+  )
+  VALUES (
+    p_user_id, p_delivery_address, NOW(),
+    next_delivery_date(NOW()::TIMESTAMP, v_settings.order_cutoff_time, v_settings.delivery_days),
+    0, COALESCE(p_status, 'pending'), COALESCE(p_payment_status, 'pending'), p_notes, 'reserved'
+  )
+  RETURNING * INTO v_order;
+
+  PERFORM set_stock_movement_context('order_placed', v_order.id);
+
+  -- Lock products in a stable order so concurrent checkouts cannot deadlock
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items) ORDER BY value->>'product_id'
+  LOOP
+    v_quantity := (v_item->>'quantity')::NUMERIC;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', v_item->>'product_id';
+    END IF;
+
+    SELECT id, name_en, price, stock, reserved_stock, is_active
+    INTO v_product
+    FROM products
+    WHERE id = (v_item->>'product_id')::UUID
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT v_product.is_active THEN
+      RAISE EXCEPTION 'Product % is no longer available', v_item->>'product_id';
+    END IF;
+
+    v_pack := NULL;
+    v_base_quantity := v_quantity;
+
+    IF v_item->>'pack_id' IS NOT NULL THEN
+      SELECT * INTO v_pack
+      FROM product_packs
+      WHERE id = (v_item->>'pack_id')::UUID AND product_id = v_product.id;
+
+      IF NOT FOUND OR NOT v_pack.is_active THEN
+        RAISE EXCEPTION 'Pack % of % is no longer available', v_item->>'pack_id', v_product.name_en;
+      END IF;
+
+      v_base_quantity := v_quantity * v_pack.base_quantity;
+    END IF;
+
+    SELECT r.price, r.price_list_id
+    INTO v_price, v_price_list_id
+    FROM resolve_line_price(p_user_id, v_product.id, v_pack.id, v_quantity) r;
+
+    v_submitted_price := (v_item->>'unit_price')::NUMERIC;
+
+    IF v_submitted_price IS NOT NULL AND round(v_submitted_price, 2) <> round(v_price, 2) THEN
+      IF v_is_admin THEN
+        v_price := v_submitted_price;
+        v_price_list_id := NULL;
+      ELSE
+        RAISE EXCEPTION 'The price of % has changed to %', v_product.name_en, v_price
+          USING HINT = 'price_changed',
+                DETAIL = jsonb_build_object(
+                  'product_id', v_product.id,
+                  'product_name', v_product.name_en,
+                  'price', v_price,
+                  'submitted', v_submitted_price
+                )::TEXT;
+      END IF;
+    END IF;
+
+    IF v_product.stock - v_product.reserved_stock < v_base_quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %: % available, % requested',
+        v_product.name_en, v_product.stock - v_product.reserved_stock, v_base_quantity
+        USING HINT = 'insufficient_stock',
+              DETAIL = jsonb_build_object(
+                'product_id', v_product.id,
+                'product_name', v_product.name_en,
+                'available', v_product.stock - v_product.reserved_stock,
+                'requested', v_base_quantity
+              )::TEXT;
+    END IF;
+
+    UPDATE products
+    SET reserved_stock = reserved_stock + v_base_quantity,
+        updated_at = NOW()
+    WHERE id = v_product.id;
+
+    INSERT INTO order_items (order_id, product_id, pack_id, quantity, unit_price, price_list_id)
+    VALUES (v_order.id, v_product.id, v_pack.id, v_quantity, v_price, v_price_list_id);
+
+    v_total := v_total + v_quantity * v_price;
+  END LOOP;
+
+  PERFORM set_stock_movement_context(NULL);
+
+  UPDATE orders
+  SET total_amount = v_total
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  RETURN to_jsonb(v_order) || jsonb_build_object(
+    'items',
+    (SELECT COALESCE(jsonb_agg(to_jsonb(oi)), '[]'::JSONB) FROM order_items oi WHERE oi.order_id = v_order.id)
+  );
+END;
+$$;
+
+-- The order summary doubles as the picking list: base unit totals per product, with the
+-- number of packs of each size (pack_id null = loose) to pick
+DROP FUNCTION IF EXISTS get_product_order_summary(DATE, DATE);
+CREATE OR REPLACE FUNCTION get_product_order_summary(
+  start_date DATE,
+  end_date DATE
+)
+RETURNS TABLE (
+  id UUID,
+  name_en TEXT,
+  unit TEXT,
+  sku TEXT,
+  total_quantity NUMERIC,
+  packs JSONB
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+    WITH lines AS (
+      SELECT oi.product_id, oi.pack_id, SUM(oi.quantity) AS quantity, SUM(oi.base_quantity) AS base_quantity
+      FROM order_items oi
+      JOIN orders o ON oi.order_id = o.id
+      WHERE
+        o.order_date >= start_date::timestamp AND
+        o.order_date <= (end_date::timestamp + interval '1 day' - interval '1 second') AND
+        (o.status = 'pending' OR o.status = 'processing')
+      GROUP BY oi.product_id, oi.pack_id
+    )
+    SELECT
+      p.id,
+      p.name_en,
+      p.unit,
+      p.sku,
+      SUM(l.base_quantity) AS total_quantity,
+      jsonb_agg(
+        jsonb_build_object(
+          'pack_id', pk.id,
+          'name', pk.name,
+          'sku_suffix', pk.sku_suffix,
+          'pack_size', pk.base_quantity,
+          'quantity', l.quantity,
+          'base_quantity', l.base_quantity
+        )
+        ORDER BY pk.base_quantity DESC NULLS LAST
+      ) AS packs
+    FROM lines l
+    JOIN products p ON p.id = l.product_id
+    LEFT JOIN product_packs pk ON pk.id = l.pack_id
+    GROUP BY p.id, p.name_en, p.unit, p.sku
+    ORDER BY p.name_en;
+END;
+$$;
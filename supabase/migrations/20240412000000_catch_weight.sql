@@ -0,0 +1,124 @@
+-- Catch-weight products are ordered by an estimated quantity and charged by what is actually
+-- weighed out, e.g. 5 kg ordered ships as 5.3 kg. The packer or driver records the weight per line.
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS is_catch_weight BOOLEAN NOT NULL DEFAULT false;
+
+-- actual_quantity is the delivered quantity in the product's base unit, NULL until weighed
+ALTER TABLE public.order_items
+  ADD COLUMN IF NOT EXISTS actual_quantity NUMERIC CHECK (actual_quantity > 0);
+
+-- The amount charged for an order line: the ordered quantity, or the weighed quantity once it is
+-- recorded. unit_price stays per pack or per base unit, so a pack line is scaled by its contents.
+CREATE OR REPLACE FUNCTION public.order_item_total(p_item public.order_items)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_item.actual_quantity IS NULL THEN p_item.quantity * p_item.unit_price
+    ELSE round(p_item.unit_price * p_item.quantity * p_item.actual_quantity / p_item.base_quantity, 2)
+  END;
+$$;
+
+-- Record (or clear, with NULL) the weighed quantity of a catch-weight line and re-total the order.
+-- Allowed for admins and the order's driver until the order is completed.
+CREATE OR REPLACE FUNCTION public.record_actual_quantity(p_order_item_id UUID, p_actual_quantity NUMERIC)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item order_items;
+  v_order orders;
+  v_is_catch_weight BOOLEAN;
+  v_total NUMERIC;
+BEGIN
+  SELECT * INTO v_item FROM order_items WHERE id = p_order_item_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order item % not found', p_order_item_id;
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_item.order_id FOR UPDATE;
+
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND v_order.assigned_driver_id IS DISTINCT FROM auth.uid()
+     AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Not allowed to record weights for order %', v_order.id;
+  END IF;
+
+  IF v_order.status NOT IN ('pending', 'processing') THEN
+    RAISE EXCEPTION 'Weights can no longer be changed on a % order', v_order.status
+      USING HINT = 'order_closed';
+  END IF;
+
+  SELECT is_catch_weight INTO v_is_catch_weight FROM products WHERE id = v_item.product_id;
+
+  IF NOT COALESCE(v_is_catch_weight, false) THEN
+    RAISE EXCEPTION 'Product % is not sold by catch weight', v_item.product_id
+      USING HINT = 'not_catch_weight';
+  END IF;
+
+  IF p_actual_quantity IS NOT NULL AND p_actual_quantity <= 0 THEN
+    RAISE EXCEPTION 'Invalid actual quantity %', p_actual_quantity;
+  END IF;
+
+  UPDATE order_items SET actual_quantity = p_actual_quantity WHERE id = p_order_item_id;
+
+  SELECT COALESCE(SUM(order_item_total(oi)), 0) INTO v_total
+  FROM order_items oi
+  WHERE oi.order_id = v_order.id;
+
+  UPDATE orders SET total_amount = v_total WHERE id = v_order.id;
+
+  RETURN v_total;
+END;
+$$;
+
+-- Completing an order takes the weighed quantity out of stock and releases the whole reservation
+CREATE OR REPLACE FUNCTION public.commit_order_stock(p_order_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  -- Admins and the driver delivering the order complete it
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND v_order.assigned_driver_id IS DISTINCT FROM auth.uid()
+     AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Not allowed to complete order %', p_order_id;
+  END IF;
+
+  IF v_order.stock_status IS DISTINCT FROM 'reserved' THEN
+    RETURN false;
+  END IF;
+
+  PERFORM set_stock_movement_context('order_completed', p_order_id);
+
+  UPDATE products p
+  SET stock = p.stock - oi.delivered,
+      reserved_stock = GREATEST(p.reserved_stock - oi.reserved, 0),
+      updated_at = NOW()
+  FROM (
+    SELECT product_id,
+           SUM(COALESCE(actual_quantity, base_quantity)) AS delivered,
+           SUM(base_quantity) AS reserved
+    FROM order_items
+    WHERE order_id = p_order_id
+    GROUP BY product_id
+  ) oi
+  WHERE p.id = oi.product_id;
+
+  PERFORM set_stock_movement_context(NULL);
+
+  UPDATE orders SET stock_status = 'committed' WHERE id = p_order_id;
+
+  RETURN true;
+END;
+$$;
@@ -0,0 +1,364 @@
+-- Lots: every goods receipt of a product is a lot, so stock can be traced back to where it came
+-- from. remaining_quantity is what is still on hand of the lot, in the product's base unit.
+CREATE TABLE IF NOT EXISTS public.stock_lots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  lot_number TEXT NOT NULL,
+  supplier_name TEXT,
+  harvest_date DATE,
+  expiry_date DATE,
+  received_quantity NUMERIC NOT NULL CHECK (received_quantity > 0),
+  remaining_quantity NUMERIC NOT NULL CHECK (remaining_quantity >= 0),
+  notes TEXT,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT stock_lots_unique_number UNIQUE (product_id, lot_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_lots_fefo
+  ON public.stock_lots (product_id, expiry_date NULLS LAST, received_at);
+
+-- The lots an order line takes its stock from. Rows of cancelled orders are kept but no longer
+-- hold the lot; open (reserved) orders hold it until they are completed.
+CREATE TABLE IF NOT EXISTS public.order_item_lots (
+  order_item_id UUID NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+  lot_id UUID NOT NULL REFERENCES public.stock_lots(id),
+  quantity NUMERIC NOT NULL CHECK (quantity > 0),
+  PRIMARY KEY (order_item_id, lot_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_item_lots_lot
+  ON public.order_item_lots (lot_id);
+
+ALTER TABLE public.stock_lots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.order_item_lots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage stock lots"
+  ON public.stock_lots FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE POLICY "Admins can view order item lots"
+  ON public.order_item_lots FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'));
+
+-- How much of a lot open orders are holding
+CREATE OR REPLACE FUNCTION public.lot_allocated_quantity(p_lot_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(oil.quantity), 0)
+  FROM order_item_lots oil
+  JOIN order_items oi ON oi.id = oil.order_item_id
+  JOIN orders o ON o.id = oi.order_id
+  WHERE oil.lot_id = p_lot_id AND o.stock_status = 'reserved';
+$$;
+
+-- Book a goods receipt: create the lot and add its quantity to the product's stock
+CREATE OR REPLACE FUNCTION public.receive_stock_lot(
+  p_product_id UUID,
+  p_lot_number TEXT,
+  p_quantity NUMERIC,
+  p_supplier_name TEXT DEFAULT NULL,
+  p_harvest_date DATE DEFAULT NULL,
+  p_expiry_date DATE DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS stock_lots
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lot stock_lots;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can receive stock';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Invalid quantity %', p_quantity;
+  END IF;
+
+  IF p_harvest_date IS NOT NULL AND p_expiry_date IS NOT NULL AND p_expiry_date < p_harvest_date THEN
+    RAISE EXCEPTION 'The expiry date can not be before the harvest date';
+  END IF;
+
+  INSERT INTO stock_lots (
+    product_id, lot_number, supplier_name, harvest_date, expiry_date,
+    received_quantity, remaining_quantity, notes, created_by
+  )
+  VALUES (
+    p_product_id, p_lot_number, p_supplier_name, p_harvest_date, p_expiry_date,
+    p_quantity, p_quantity, p_notes, auth.uid()
+  )
+  RETURNING * INTO v_lot;
+
+  PERFORM set_stock_movement_context('goods_received', NULL, 'Lot ' || p_lot_number);
+
+  UPDATE products
+  SET stock = stock + p_quantity,
+      updated_at = NOW()
+  WHERE id = p_product_id;
+
+  PERFORM set_stock_movement_context(NULL);
+
+  RETURN v_lot;
+END;
+$$;
+
+-- Take stock out of (or back into) one lot, e.g. spoilage of a lot. The product's stock follows.
+CREATE OR REPLACE FUNCTION public.adjust_stock_lot(
+  p_lot_id UUID,
+  p_delta NUMERIC,
+  p_reason TEXT DEFAULT 'spoilage',
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS stock_lots
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lot stock_lots;
+  v_free NUMERIC;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can adjust stock';
+  END IF;
+
+  SELECT * INTO v_lot FROM stock_lots WHERE id = p_lot_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lot % not found', p_lot_id;
+  END IF;
+
+  v_free := v_lot.remaining_quantity - lot_allocated_quantity(p_lot_id);
+
+  IF v_free + p_delta < 0 THEN
+    RAISE EXCEPTION 'Insufficient stock in lot %: % available, % requested',
+      v_lot.lot_number, v_free, -p_delta
+      USING HINT = 'insufficient_stock',
+            DETAIL = jsonb_build_object(
+              'product_id', v_lot.product_id,
+              'product_name', v_lot.lot_number,
+              'available', v_free,
+              'requested', -p_delta
+            )::TEXT;
+  END IF;
+
+  UPDATE stock_lots
+  SET remaining_quantity = remaining_quantity + p_delta
+  WHERE id = p_lot_id
+  RETURNING * INTO v_lot;
+
+  PERFORM adjust_product_stock(
+    v_lot.product_id,
+    p_delta,
+    p_reason,
+    trim(BOTH ' ' FROM 'Lot ' || v_lot.lot_number || ' ' || COALESCE(p_notes, ''))
+  );
+
+  RETURN v_lot;
+END;
+$$;
+
+-- Allocate an order line to lots first-expiry-first-out. Expired lots are skipped, and lots
+-- without an expiry date go last. Stock that is not in any lot (booked before lots existed,
+-- or by a plain stock adjustment) is not traced, so a line may be allocated only in part.
+CREATE OR REPLACE FUNCTION public.allocate_order_item_lots(p_order_item_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item order_items;
+  v_lot RECORD;
+  v_needed NUMERIC;
+  v_take NUMERIC;
+BEGIN
+  SELECT * INTO v_item FROM order_items WHERE id = p_order_item_id;
+
+  DELETE FROM order_item_lots WHERE order_item_id = p_order_item_id;
+
+  v_needed := v_item.base_quantity;
+
+  FOR v_lot IN
+    SELECT l.id, l.remaining_quantity - lot_allocated_quantity(l.id) AS free
+    FROM stock_lots l
+    WHERE l.product_id = v_item.product_id
+      AND l.remaining_quantity > 0
+      AND (l.expiry_date IS NULL OR l.expiry_date >= CURRENT_DATE)
+    ORDER BY l.expiry_date NULLS LAST, l.received_at, l.id
+    FOR UPDATE OF l
+  LOOP
+    EXIT WHEN v_needed <= 0;
+    CONTINUE WHEN v_lot.free <= 0;
+
+    v_take := LEAST(v_needed, v_lot.free);
+
+    INSERT INTO order_item_lots (order_item_id, lot_id, quantity)
+    VALUES (p_order_item_id, v_lot.id, v_take);
+
+    v_needed := v_needed - v_take;
+  END LOOP;
+END;
+$$;
+
+-- Only called by the trigger below, not through the API
+REVOKE EXECUTE ON FUNCTION public.allocate_order_item_lots(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.allocate_order_item_lots_trigger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Only open orders hold stock
+  IF EXISTS (SELECT 1 FROM orders WHERE id = NEW.order_id AND stock_status = 'reserved') THEN
+    PERFORM allocate_order_item_lots(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS order_items_allocate_lots ON public.order_items;
+CREATE TRIGGER order_items_allocate_lots
+  AFTER INSERT OR UPDATE OF base_quantity, product_id ON public.order_items
+  FOR EACH ROW EXECUTE FUNCTION public.allocate_order_item_lots_trigger();
+
+-- Completing an order also takes its allocations out of their lots
+CREATE OR REPLACE FUNCTION public.commit_order_stock(p_order_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  -- Admins and the driver delivering the order complete it
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND v_order.assigned_driver_id IS DISTINCT FROM auth.uid()
+     AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Not allowed to complete order %', p_order_id;
+  END IF;
+
+  IF v_order.stock_status IS DISTINCT FROM 'reserved' THEN
+    RETURN false;
+  END IF;
+
+  PERFORM set_stock_movement_context('order_completed', p_order_id);
+
+  UPDATE products p
+  SET stock = p.stock - oi.delivered,
+      reserved_stock = GREATEST(p.reserved_stock - oi.reserved, 0),
+      updated_at = NOW()
+  FROM (
+    SELECT product_id,
+           SUM(COALESCE(actual_quantity, base_quantity)) AS delivered,
+           SUM(base_quantity) AS reserved
+    FROM order_items
+    WHERE order_id = p_order_id
+    GROUP BY product_id
+  ) oi
+  WHERE p.id = oi.product_id;
+
+  PERFORM set_stock_movement_context(NULL);
+
+  UPDATE stock_lots l
+  SET remaining_quantity = GREATEST(l.remaining_quantity - a.quantity, 0)
+  FROM (
+    SELECT oil.lot_id, SUM(oil.quantity) AS quantity
+    FROM order_item_lots oil
+    JOIN order_items oi ON oi.id = oil.order_item_id
+    WHERE oi.order_id = p_order_id
+    GROUP BY oil.lot_id
+  ) a
+  WHERE l.id = a.lot_id;
+
+  UPDATE orders SET stock_status = 'committed' WHERE id = p_order_id;
+
+  RETURN true;
+END;
+$$;
+
+-- A product's lots with what open orders hold of each, soonest expiry first
+CREATE OR REPLACE FUNCTION public.get_product_lots(p_product_id UUID, p_include_empty BOOLEAN DEFAULT false)
+RETURNS TABLE (
+  id UUID,
+  lot_number TEXT,
+  supplier_name TEXT,
+  harvest_date DATE,
+  expiry_date DATE,
+  received_quantity NUMERIC,
+  remaining_quantity NUMERIC,
+  allocated_quantity NUMERIC,
+  received_at TIMESTAMPTZ,
+  notes TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT l.id, l.lot_number, l.supplier_name, l.harvest_date, l.expiry_date,
+         l.received_quantity, l.remaining_quantity, lot_allocated_quantity(l.id),
+         l.received_at, l.notes
+  FROM stock_lots l
+  WHERE l.product_id = p_product_id
+    AND (p_include_empty OR l.remaining_quantity > 0)
+  ORDER BY l.expiry_date NULLS LAST, l.received_at;
+$$;
+
+-- Recall report: the customers whose orders took stock from a lot (cancelled orders excluded)
+CREATE OR REPLACE FUNCTION public.get_lot_recipients(p_lot_id UUID)
+RETURNS TABLE (
+  order_id UUID,
+  order_date TIMESTAMPTZ,
+  delivery_date DATE,
+  status TEXT,
+  customer_id UUID,
+  customer_name TEXT,
+  customer_email TEXT,
+  customer_phone TEXT,
+  delivery_address TEXT,
+  quantity NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can view lot recipients';
+  END IF;
+
+  RETURN QUERY
+    SELECT o.id, o.order_date::TIMESTAMPTZ, o.delivery_date::DATE, o.status::TEXT,
+           u.id, u.name::TEXT, u.email::TEXT, u.phone::TEXT, o.delivery_address::TEXT,
+           SUM(oil.quantity)
+    FROM order_item_lots oil
+    JOIN order_items oi ON oi.id = oil.order_item_id
+    JOIN orders o ON o.id = oi.order_id
+    LEFT JOIN users u ON u.id = o.user_id
+    WHERE oil.lot_id = p_lot_id
+      AND o.stock_status IN ('reserved', 'committed')
+    GROUP BY o.id, u.id
+    ORDER BY o.order_date DESC;
+END;
+$$;
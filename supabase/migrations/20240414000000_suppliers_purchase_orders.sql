@@ -0,0 +1,310 @@
+-- Suppliers we buy produce from
+CREATE TABLE IF NOT EXISTS public.suppliers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  contact_name TEXT,
+  email TEXT,
+  phone TEXT,
+  address TEXT,
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_suppliers_updated_at ON public.suppliers;
+CREATE TRIGGER update_suppliers_updated_at
+  BEFORE UPDATE ON public.suppliers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Which suppliers carry a product, under which of their SKUs and at what cost per base unit.
+-- A product has at most one preferred supplier; without one the cheapest supplier is used.
+CREATE TABLE IF NOT EXISTS public.product_suppliers (
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  supplier_id UUID NOT NULL REFERENCES public.suppliers(id) ON DELETE CASCADE,
+  supplier_sku TEXT,
+  cost_price NUMERIC NOT NULL CHECK (cost_price >= 0),
+  is_preferred BOOLEAN NOT NULL DEFAULT false,
+  PRIMARY KEY (product_id, supplier_id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_suppliers_preferred
+  ON public.product_suppliers (product_id)
+  WHERE is_preferred;
+
+-- Purchase orders: draft when generated, sent once placed with the supplier, received when the
+-- goods are booked into stock
+CREATE TABLE IF NOT EXISTS public.purchase_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  supplier_id UUID NOT NULL REFERENCES public.suppliers(id),
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'received', 'cancelled')),
+  expected_date DATE,
+  notes TEXT,
+  total_cost NUMERIC NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  received_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier ON public.purchase_orders (supplier_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON public.purchase_orders (status);
+
+DROP TRIGGER IF EXISTS update_purchase_orders_updated_at ON public.purchase_orders;
+CREATE TRIGGER update_purchase_orders_updated_at
+  BEFORE UPDATE ON public.purchase_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Quantities are in the product's base unit, like stock. received_quantity and lot_id are set
+-- when the line is received.
+CREATE TABLE IF NOT EXISTS public.purchase_order_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id UUID NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id),
+  supplier_sku TEXT,
+  quantity NUMERIC NOT NULL CHECK (quantity > 0),
+  unit_cost NUMERIC NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+  received_quantity NUMERIC CHECK (received_quantity >= 0),
+  lot_id UUID REFERENCES public.stock_lots(id) ON DELETE SET NULL,
+  CONSTRAINT purchase_order_items_unique_product UNIQUE (purchase_order_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_order_items_product ON public.purchase_order_items (product_id);
+
+-- Lots booked from a purchase order remember where they came from
+ALTER TABLE public.stock_lots
+  ADD COLUMN IF NOT EXISTS supplier_id UUID REFERENCES public.suppliers(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS purchase_order_id UUID REFERENCES public.purchase_orders(id) ON DELETE SET NULL;
+
+ALTER TABLE public.suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.product_suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage suppliers"
+  ON public.suppliers FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE POLICY "Admins can manage product suppliers"
+  ON public.product_suppliers FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE POLICY "Admins can manage purchase orders"
+  ON public.purchase_orders FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE POLICY "Admins can manage purchase order items"
+  ON public.purchase_order_items FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'));
+
+-- Keep purchase_orders.total_cost in line with its items
+CREATE OR REPLACE FUNCTION public.update_purchase_order_total()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_purchase_order_id UUID := COALESCE(NEW.purchase_order_id, OLD.purchase_order_id);
+BEGIN
+  UPDATE purchase_orders
+  SET total_cost = (
+    SELECT COALESCE(SUM(quantity * unit_cost), 0)
+    FROM purchase_order_items
+    WHERE purchase_order_id = v_purchase_order_id
+  )
+  WHERE id = v_purchase_order_id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS purchase_order_items_total ON public.purchase_order_items;
+CREATE TRIGGER purchase_order_items_total
+  AFTER INSERT OR UPDATE OF quantity, unit_cost OR DELETE ON public.purchase_order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_purchase_order_total();
+
+-- Turn the order summary of a period into draft purchase orders, one per supplier.
+-- A product is bought for what the open orders need beyond its free stock and beyond what is
+-- already on an open (draft or sent) purchase order, so running this twice orders nothing twice.
+-- Products without an active supplier are returned as unassigned.
+CREATE OR REPLACE FUNCTION public.generate_purchase_orders(
+  p_start_date DATE,
+  p_end_date DATE,
+  p_expected_date DATE DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_line RECORD;
+  v_purchase_order_id UUID;
+  v_purchase_order_ids UUID[] := ARRAY[]::UUID[];
+  v_unassigned JSONB := '[]'::JSONB;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can generate purchase orders';
+  END IF;
+
+  FOR v_line IN
+    WITH demand AS (
+      SELECT s.id AS product_id, s.name_en, s.unit, s.total_quantity,
+             -- Stock not reserved by orders outside the summary
+             GREATEST(p.stock - GREATEST(p.reserved_stock - s.total_quantity, 0), 0) AS available,
+             (
+               SELECT COALESCE(SUM(poi.quantity), 0)
+               FROM purchase_order_items poi
+               JOIN purchase_orders po ON po.id = poi.purchase_order_id
+               WHERE poi.product_id = s.id AND po.status IN ('draft', 'sent')
+             ) AS on_order
+      FROM get_product_order_summary(p_start_date, p_end_date) s
+      JOIN products p ON p.id = s.id
+    )
+    SELECT d.product_id, d.name_en, d.unit,
+           d.total_quantity - d.available - d.on_order AS shortfall,
+           ps.supplier_id, ps.supplier_sku, ps.cost_price
+    FROM demand d
+    LEFT JOIN LATERAL (
+      SELECT ps.supplier_id, ps.supplier_sku, ps.cost_price
+      FROM product_suppliers ps
+      JOIN suppliers sup ON sup.id = ps.supplier_id
+      WHERE ps.product_id = d.product_id AND sup.is_active
+      ORDER BY ps.is_preferred DESC, ps.cost_price
+      LIMIT 1
+    ) ps ON true
+    WHERE d.total_quantity - d.available - d.on_order > 0
+    ORDER BY ps.supplier_id, d.name_en
+  LOOP
+    IF v_line.supplier_id IS NULL THEN
+      v_unassigned := v_unassigned || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'name_en', v_line.name_en,
+        'unit', v_line.unit,
+        'quantity', v_line.shortfall
+      );
+      CONTINUE;
+    END IF;
+
+    -- One new draft per supplier and run
+    SELECT po.id INTO v_purchase_order_id
+    FROM purchase_orders po
+    WHERE po.id = ANY(v_purchase_order_ids) AND po.supplier_id = v_line.supplier_id;
+
+    IF v_purchase_order_id IS NULL THEN
+      INSERT INTO purchase_orders (supplier_id, expected_date, created_by)
+      VALUES (v_line.supplier_id, p_expected_date, auth.uid())
+      RETURNING id INTO v_purchase_order_id;
+
+      v_purchase_order_ids := v_purchase_order_ids || v_purchase_order_id;
+    END IF;
+
+    INSERT INTO purchase_order_items (purchase_order_id, product_id, supplier_sku, quantity, unit_cost)
+    VALUES (v_purchase_order_id, v_line.product_id, v_line.supplier_sku, v_line.shortfall, v_line.cost_price);
+
+    v_purchase_order_id := NULL;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'purchase_orders', to_jsonb(v_purchase_order_ids),
+    'unassigned', v_unassigned
+  );
+END;
+$$;
+
+-- Receive a purchase order: every line with a quantity is booked into stock as a lot of the
+-- supplier. p_items is an array of { item_id, quantity, lot_number, harvest_date, expiry_date };
+-- lines left out are received as ordered. Without a lot number, each line gets one made from the
+-- purchase order and line ids, as lot numbers are unique per product.
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(
+  p_purchase_order_id UUID,
+  p_items JSONB DEFAULT '[]'::JSONB
+)
+RETURNS purchase_orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_purchase_order purchase_orders;
+  v_supplier suppliers;
+  v_item purchase_order_items;
+  v_input JSONB;
+  v_quantity NUMERIC;
+  v_lot stock_lots;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can receive purchase orders';
+  END IF;
+
+  SELECT * INTO v_purchase_order FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order % not found', p_purchase_order_id;
+  END IF;
+
+  IF v_purchase_order.status NOT IN ('draft', 'sent') THEN
+    RAISE EXCEPTION 'A % purchase order can not be received', v_purchase_order.status
+      USING HINT = 'purchase_order_closed';
+  END IF;
+
+  SELECT * INTO v_supplier FROM suppliers WHERE id = v_purchase_order.supplier_id;
+
+  FOR v_item IN
+    SELECT * FROM purchase_order_items WHERE purchase_order_id = p_purchase_order_id
+  LOOP
+    SELECT value INTO v_input
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::JSONB))
+    WHERE (value->>'item_id')::UUID = v_item.id;
+
+    v_quantity := COALESCE((v_input->>'quantity')::NUMERIC, v_item.quantity);
+
+    IF v_quantity < 0 THEN
+      RAISE EXCEPTION 'Invalid quantity % for purchase order item %', v_quantity, v_item.id;
+    END IF;
+
+    IF v_quantity > 0 THEN
+      v_lot := receive_stock_lot(
+        v_item.product_id,
+        COALESCE(
+          NULLIF(trim(v_input->>'lot_number'), ''),
+          'PO-' || left(p_purchase_order_id::TEXT, 8) || '-' || left(v_item.id::TEXT, 8)
+        ),
+        v_quantity,
+        v_supplier.name,
+        (v_input->>'harvest_date')::DATE,
+        (v_input->>'expiry_date')::DATE,
+        NULL
+      );
+
+      UPDATE stock_lots
+      SET supplier_id = v_purchase_order.supplier_id,
+          purchase_order_id = p_purchase_order_id
+      WHERE id = v_lot.id;
+    END IF;
+
+    UPDATE purchase_order_items
+    SET received_quantity = v_quantity,
+        lot_id = CASE WHEN v_quantity > 0 THEN v_lot.id END
+    WHERE id = v_item.id;
+  END LOOP;
+
+  UPDATE purchase_orders
+  SET status = 'received',
+      received_at = NOW()
+  WHERE id = p_purchase_order_id
+  RETURNING * INTO v_purchase_order;
+
+  RETURN v_purchase_order;
+END;
+$$;
@@ -0,0 +1,87 @@
+-- Holiday and blackout calendar: days on which nothing is delivered, even if they fall on a
+-- delivery weekday. One-off rows block a single date (e.g. stocktaking, or Easter Monday of a
+-- given year); recurring rows block the same day every year (e.g. 1 May). Rows with a
+-- country_code are public holidays of that country and only apply when it is the
+-- settings.holiday_country; rows without one always apply.
+ALTER TABLE public.settings
+  ADD COLUMN IF NOT EXISTS holiday_country TEXT;
+
+CREATE TABLE IF NOT EXISTS public.delivery_holidays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  holiday_date DATE NOT NULL,
+  name TEXT NOT NULL,
+  is_recurring BOOLEAN NOT NULL DEFAULT false,
+  country_code TEXT CHECK (country_code ~ '^[A-Z]{2}$'),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_holidays_date ON public.delivery_holidays (holiday_date);
+
+ALTER TABLE public.delivery_holidays ENABLE ROW LEVEL SECURITY;
+
+-- The store reads the calendar to explain why a date is skipped
+CREATE POLICY "Anyone can view delivery holidays"
+  ON public.delivery_holidays FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage delivery holidays"
+  ON public.delivery_holidays FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'));
+
+-- The holiday that blocks deliveries on p_date, if any; mirrors findDeliveryHoliday()
+CREATE OR REPLACE FUNCTION public.delivery_holiday_on(p_date DATE)
+RETURNS public.delivery_holidays
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT h.*
+  FROM delivery_holidays h
+  WHERE (
+      h.holiday_date = p_date
+      OR (h.is_recurring
+          AND EXTRACT(MONTH FROM h.holiday_date) = EXTRACT(MONTH FROM p_date)
+          AND EXTRACT(DAY FROM h.holiday_date) = EXTRACT(DAY FROM p_date))
+    )
+    AND (
+      h.country_code IS NULL
+      OR h.country_code = (SELECT holiday_country FROM settings ORDER BY created_at LIMIT 1)
+    )
+  ORDER BY h.is_recurring, h.created_at
+  LIMIT 1;
+$$;
+
+-- As before, but the roll forward also skips holidays and blackout dates
+CREATE OR REPLACE FUNCTION public.next_delivery_date(
+  p_order_time TIMESTAMP,
+  p_cutoff_time TEXT DEFAULT '18:00',
+  p_delivery_days INTEGER[] DEFAULT ARRAY[1, 2, 3, 4, 5, 6]
+)
+RETURNS DATE
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_cutoff TIMESTAMP := p_order_time::DATE + COALESCE(p_cutoff_time, '18:00')::TIME;
+  v_days INTEGER[] := COALESCE(NULLIF(p_delivery_days, '{}'), ARRAY[1, 2, 3, 4, 5, 6]);
+  v_date DATE;
+  v_checked INTEGER := 0;
+BEGIN
+  IF p_order_time <= v_cutoff THEN
+    v_date := p_order_time::DATE + 1;
+  ELSE
+    v_date := p_order_time::DATE + 2;
+  END IF;
+
+  -- A long closure (e.g. over the new year) can block several weeks
+  WHILE (NOT (EXTRACT(DOW FROM v_date)::INTEGER = ANY (v_days)) OR (delivery_holiday_on(v_date)).id IS NOT NULL)
+        AND v_checked < 60 LOOP
+    v_date := v_date + 1;
+    v_checked := v_checked + 1;
+  END LOOP;
+
+  RETURN v_date;
+END;
+$$;
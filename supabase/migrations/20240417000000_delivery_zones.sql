@@ -0,0 +1,385 @@
+-- Delivery zones: regions with their own delivery days, cutoff time, minimum order value and
+-- delivery fee. An address belongs to the first active zone (by sort_order) whose postcode
+-- ranges contain its postcode or whose boundary polygon contains its coordinates. Addresses
+-- outside every zone are delivered on the schedule in settings, without a minimum or fee.
+CREATE TABLE IF NOT EXISTS public.delivery_zones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  postcode_ranges TEXT[] NOT NULL DEFAULT '{}', -- '10115-10999', or a single postcode '20095'
+  boundary JSONB, -- Polygon as [[latitude, longitude], ...], at least three points
+  delivery_days INTEGER[], -- NULL or empty = settings.delivery_days
+  order_cutoff_time TEXT, -- NULL = settings.order_cutoff_time
+  min_order_value NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (min_order_value >= 0),
+  delivery_fee NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (delivery_fee >= 0),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (boundary IS NULL OR (jsonb_typeof(boundary) = 'array' AND jsonb_array_length(boundary) >= 3)),
+  CHECK (order_cutoff_time IS NULL OR order_cutoff_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$')
+);
+
+CREATE TRIGGER update_delivery_zones_updated_at
+  BEFORE UPDATE ON public.delivery_zones
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.delivery_zones ENABLE ROW LEVEL SECURITY;
+
+-- The store resolves the zone of the chosen address to show its schedule, minimum and fee
+CREATE POLICY "Anyone can view delivery zones"
+  ON public.delivery_zones FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage delivery zones"
+  ON public.delivery_zones FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'));
+
+-- total_amount stays the value of the goods; the fee is charged on top
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS delivery_zone_id UUID REFERENCES public.delivery_zones(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS delivery_fee NUMERIC(12, 2) NOT NULL DEFAULT 0;
+
+-- Postcodes are compared as text of the same length, so '01067' sorts before '10115'
+CREATE OR REPLACE FUNCTION public.postcode_in_ranges(p_postcode TEXT, p_ranges TEXT[])
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM unnest(p_ranges) AS r(range),
+      LATERAL (
+        SELECT btrim(split_part(r.range, '-', 1)) AS low,
+               btrim(COALESCE(NULLIF(split_part(r.range, '-', 2), ''), split_part(r.range, '-', 1))) AS high
+      ) b
+    WHERE length(btrim(p_postcode)) = length(b.low)
+      AND btrim(p_postcode) BETWEEN b.low AND b.high
+  );
+$$;
+
+-- Whether a zone boundary contains a location; mirrors isInZoneBoundary()
+CREATE OR REPLACE FUNCTION public.zone_boundary_contains(
+  p_boundary JSONB,
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  IF p_boundary IS NULL OR p_latitude IS NULL OR p_longitude IS NULL THEN
+    RETURN false;
+  END IF;
+
+  -- Built-in polygon type, with x = longitude and y = latitude
+  RETURN (
+    SELECT ('(' || string_agg(format('(%s,%s)', pt->>1, pt->>0), ',' ORDER BY ord) || ')')::POLYGON
+    FROM jsonb_array_elements(p_boundary) WITH ORDINALITY AS e(pt, ord)
+  ) @> POINT(p_longitude, p_latitude);
+END;
+$$;
+
+-- The zone an address belongs to, if any; mirrors findDeliveryZone()
+CREATE OR REPLACE FUNCTION public.resolve_delivery_zone(
+  p_postcode TEXT,
+  p_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_longitude DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS public.delivery_zones
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT z.*
+  FROM delivery_zones z
+  WHERE z.is_active
+    AND (
+      (p_postcode IS NOT NULL AND postcode_in_ranges(p_postcode, z.postcode_ranges))
+      OR zone_boundary_contains(z.boundary, p_latitude, p_longitude)
+    )
+  ORDER BY z.sort_order, z.created_at
+  LIMIT 1;
+$$;
+
+-- As before, on the schedule of the given zone
+DROP FUNCTION IF EXISTS public.get_delivery_options(TIMESTAMP);
+CREATE OR REPLACE FUNCTION public.get_delivery_options(
+  p_order_time TIMESTAMP DEFAULT NULL,
+  p_zone_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  delivery_date DATE,
+  slot_id UUID,
+  start_time TIME,
+  end_time TIME,
+  capacity INTEGER,
+  booked INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_time TIMESTAMP := COALESCE(p_order_time, NOW()::TIMESTAMP);
+  v_settings RECORD;
+  v_zone delivery_zones;
+  v_cutoff TEXT;
+  v_days INTEGER[];
+  v_date DATE;
+  v_last DATE;
+BEGIN
+  SELECT order_cutoff_time, delivery_days, delivery_booking_days
+  INTO v_settings
+  FROM settings
+  ORDER BY created_at ASC
+  LIMIT 1;
+
+  IF p_zone_id IS NOT NULL THEN
+    SELECT * INTO v_zone FROM delivery_zones WHERE id = p_zone_id;
+  END IF;
+
+  v_cutoff := COALESCE(v_zone.order_cutoff_time, v_settings.order_cutoff_time);
+  v_days := COALESCE(NULLIF(v_zone.delivery_days, '{}'), NULLIF(v_settings.delivery_days, '{}'), ARRAY[1, 2, 3, 4, 5, 6]);
+  v_date := next_delivery_date(v_order_time, v_cutoff, v_days);
+  v_last := GREATEST(v_order_time::DATE + COALESCE(v_settings.delivery_booking_days, 14), v_date);
+
+  WHILE v_date <= v_last LOOP
+    IF EXTRACT(DOW FROM v_date)::INTEGER = ANY (v_days) AND (delivery_holiday_on(v_date)).id IS NULL THEN
+      IF EXISTS (SELECT 1 FROM delivery_slots s WHERE s.is_active) THEN
+        RETURN QUERY
+          SELECT v_date, s.id, s.start_time, s.end_time, s.capacity,
+                 (SELECT COUNT(*)::INTEGER FROM orders o
+                  WHERE o.delivery_date = v_date AND o.delivery_slot_id = s.id AND o.status <> 'cancelled')
+          FROM delivery_slots s
+          WHERE s.is_active
+          ORDER BY s.start_time, s.end_time;
+      ELSE
+        RETURN QUERY
+          SELECT v_date, NULL::UUID, NULL::TIME, NULL::TIME, NULL::INTEGER, 0;
+      END IF;
+    END IF;
+
+    v_date := v_date + 1;
+  END LOOP;
+END;
+$$;
+
+-- place_order resolves the zone of the delivery address (the customer's postcode when none is
+-- given), delivers on its schedule, charges its fee and rejects orders below its minimum
+DROP FUNCTION IF EXISTS public.place_order(JSONB, UUID, TEXT, TEXT, TEXT, TEXT, DATE, UUID);
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_items JSONB,
+  p_user_id UUID DEFAULT NULL,
+  p_delivery_address TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_status TEXT DEFAULT 'pending',
+  p_payment_status TEXT DEFAULT 'pending',
+  p_delivery_date DATE DEFAULT NULL,
+  p_delivery_slot_id UUID DEFAULT NULL,
+  p_delivery_postcode TEXT DEFAULT NULL,
+  p_delivery_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_delivery_longitude DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings RECORD;
+  v_zone delivery_zones;
+  v_slot delivery_slots;
+  v_delivery_date DATE;
+  v_item JSONB;
+  v_product RECORD;
+  v_pack product_packs;
+  v_quantity NUMERIC;
+  v_base_quantity NUMERIC;
+  v_submitted_price NUMERIC;
+  v_price NUMERIC;
+  v_price_list_id UUID;
+  v_is_admin BOOLEAN;
+  v_total NUMERIC := 0;
+  v_order orders;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  v_is_admin := auth.role() = 'service_role'
+    OR EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin');
+
+  -- Customers can only place orders for themselves; admins may order on behalf of anyone
+  IF p_user_id IS DISTINCT FROM auth.uid() AND NOT v_is_admin THEN
+    RAISE EXCEPTION 'Not allowed to place orders for another user';
+  END IF;
+
+  -- Orders start out pending and unpaid; only admins may place them in another state
+  IF (COALESCE(p_status, 'pending') <> 'pending' OR COALESCE(p_payment_status, 'pending') <> 'pending')
+     AND NOT v_is_admin THEN
+    RAISE EXCEPTION 'Not allowed to place orders with status % and payment status %', p_status, p_payment_status;
+  END IF;
+
+  SELECT order_cutoff_time, delivery_days
+  INTO v_settings
+  FROM settings
+  ORDER BY created_at ASC
+  LIMIT 1;
+
+  v_zone := resolve_delivery_zone(
+    COALESCE(p_delivery_postcode, (SELECT zip_code FROM users WHERE id = p_user_id)),
+    p_delivery_latitude,
+    p_delivery_longitude
+  );
+
+  IF p_delivery_date IS NULL AND p_delivery_slot_id IS NULL THEN
+    v_delivery_date := next_delivery_date(
+      NOW()::TIMESTAMP,
+      COALESCE(v_zone.order_cutoff_time, v_settings.order_cutoff_time),
+      COALESCE(NULLIF(v_zone.delivery_days, '{}'), v_settings.delivery_days)
+    );
+  ELSE
+    v_delivery_date := p_delivery_date;
+
+    -- Lock the slot so concurrent checkouts cannot both take its last place
+    IF p_delivery_slot_id IS NOT NULL THEN
+      SELECT * INTO v_slot FROM delivery_slots WHERE id = p_delivery_slot_id FOR UPDATE;
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1
+      FROM get_delivery_options(NULL, v_zone.id) o
+      WHERE o.delivery_date = p_delivery_date
+        AND o.slot_id IS NOT DISTINCT FROM p_delivery_slot_id
+        AND (o.capacity IS NULL OR o.booked < o.capacity)
+    ) THEN
+      RAISE EXCEPTION 'Delivery on % is no longer available', COALESCE(p_delivery_date::TEXT, 'an unknown date')
+        USING HINT = 'delivery_slot_unavailable',
+              DETAIL = jsonb_build_object(
+                'delivery_date', p_delivery_date,
+                'slot_id', p_delivery_slot_id
+              )::TEXT;
+    END IF;
+  END IF;
+
+  INSERT INTO orders (
+    user_id, delivery_address, order_date, delivery_date,
+    delivery_slot_id, delivery_window_start, delivery_window_end,
+    delivery_zone_id, delivery_fee, total_amount, status, payment_status, notes, stock_status
+  )
+  VALUES (
+    p_user_id, p_delivery_address, NOW(), v_delivery_date,
+    v_slot.id, v_slot.start_time, v_slot.end_time,
+    v_zone.id, COALESCE(v_zone.delivery_fee, 0), 0, COALESCE(p_status, 'pending'), COALESCE(p_payment_status, 'pending'), p_notes, 'reserved'
+  )
+  RETURNING * INTO v_order;
+
+  PERFORM set_stock_movement_context('order_placed', v_order.id);
+
+  -- Lock products in a stable order so concurrent checkouts cannot deadlock
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items) ORDER BY value->>'product_id'
+  LOOP
+    v_quantity := (v_item->>'quantity')::NUMERIC;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', v_item->>'product_id';
+    END IF;
+
+    SELECT id, name_en, price, stock, reserved_stock, is_active
+    INTO v_product
+    FROM products
+    WHERE id = (v_item->>'product_id')::UUID
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT v_product.is_active THEN
+      RAISE EXCEPTION 'Product % is no longer available', v_item->>'product_id';
+    END IF;
+
+    v_pack := NULL;
+    v_base_quantity := v_quantity;
+
+    IF v_item->>'pack_id' IS NOT NULL THEN
+      SELECT * INTO v_pack
+      FROM product_packs
+      WHERE id = (v_item->>'pack_id')::UUID AND product_id = v_product.id;
+
+      IF NOT FOUND OR NOT v_pack.is_active THEN
+        RAISE EXCEPTION 'Pack % of % is no longer available', v_item->>'pack_id', v_product.name_en;
+      END IF;
+
+      v_base_quantity := v_quantity * v_pack.base_quantity;
+    END IF;
+
+    SELECT r.price, r.price_list_id
+    INTO v_price, v_price_list_id
+    FROM resolve_line_price(p_user_id, v_product.id, v_pack.id, v_quantity) r;
+
+    v_submitted_price := (v_item->>'unit_price')::NUMERIC;
+
+    IF v_submitted_price IS NOT NULL AND round(v_submitted_price, 2) <> round(v_price, 2) THEN
+      IF v_is_admin THEN
+        v_price := v_submitted_price;
+        v_price_list_id := NULL;
+      ELSE
+        RAISE EXCEPTION 'The price of % has changed to %', v_product.name_en, v_price
+          USING HINT = 'price_changed',
+                DETAIL = jsonb_build_object(
+                  'product_id', v_product.id,
+                  'product_name', v_product.name_en,
+                  'price', v_price,
+                  'submitted', v_submitted_price
+                )::TEXT;
+      END IF;
+    END IF;
+
+    IF v_product.stock - v_product.reserved_stock < v_base_quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %: % available, % requested',
+        v_product.name_en, v_product.stock - v_product.reserved_stock, v_base_quantity
+        USING HINT = 'insufficient_stock',
+              DETAIL = jsonb_build_object(
+                'product_id', v_product.id,
+                'product_name', v_product.name_en,
+                'available', v_product.stock - v_product.reserved_stock,
+                'requested', v_base_quantity
+              )::TEXT;
+    END IF;
+
+    UPDATE products
+    SET reserved_stock = reserved_stock + v_base_quantity,
+        updated_at = NOW()
+    WHERE id = v_product.id;
+
+    INSERT INTO order_items (order_id, product_id, pack_id, quantity, unit_price, price_list_id)
+    VALUES (v_order.id, v_product.id, v_pack.id, v_quantity, v_price, v_price_list_id);
+
+    v_total := v_total + v_quantity * v_price;
+  END LOOP;
+
+  PERFORM set_stock_movement_context(NULL);
+
+  IF v_total < COALESCE(v_zone.min_order_value, 0) THEN
+    RAISE EXCEPTION 'The minimum order value for % is %', v_zone.name, v_zone.min_order_value
+      USING HINT = 'below_minimum_order',
+            DETAIL = jsonb_build_object(
+              'zone_name', v_zone.name,
+              'minimum', v_zone.min_order_value,
+              'total', v_total
+            )::TEXT;
+  END IF;
+
+  UPDATE orders
+  SET total_amount = v_total
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  RETURN to_jsonb(v_order) || jsonb_build_object(
+    'items',
+    (SELECT COALESCE(jsonb_agg(to_jsonb(oi)), '[]'::JSONB) FROM order_items oi WHERE oi.order_id = v_order.id)
+  );
+END;
+$$;
@@ -0,0 +1,88 @@
+-- Shopping lists: named baskets a customer keeps (e.g. "Weekend menu") and adds to the cart in
+-- one click. Unlike standing orders nothing is placed automatically.
+CREATE TABLE IF NOT EXISTS public.shopping_lists (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_shopping_lists_user ON public.shopping_lists (user_id);
+
+CREATE TRIGGER update_shopping_lists_updated_at
+  BEFORE UPDATE ON public.shopping_lists
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Quantities are in packs when pack_id is set, like order_items
+CREATE TABLE IF NOT EXISTS public.shopping_list_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shopping_list_id UUID NOT NULL REFERENCES public.shopping_lists(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  pack_id UUID REFERENCES public.product_packs(id) ON DELETE CASCADE,
+  quantity NUMERIC NOT NULL CHECK (quantity > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_shopping_list_items_list ON public.shopping_list_items (shopping_list_id);
+
+ALTER TABLE public.shopping_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shopping_list_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers can manage their own shopping lists"
+  ON public.shopping_lists FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Admins can manage shopping lists"
+  ON public.shopping_lists FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE POLICY "Customers can manage the items of their own shopping lists"
+  ON public.shopping_list_items FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.shopping_lists l WHERE l.id = shopping_list_id AND l.user_id = auth.uid()))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.shopping_lists l WHERE l.id = shopping_list_id AND l.user_id = auth.uid()));
+
+CREATE POLICY "Admins can manage shopping list items"
+  ON public.shopping_list_items FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'));
+
+-- Replace the items of a shopping list in one go, so a failed insert leaves the old items in place.
+-- p_items is a list of {product_id, pack_id, quantity}.
+CREATE OR REPLACE FUNCTION public.set_shopping_list_items(p_shopping_list_id UUID, p_items JSONB)
+RETURNS SETOF shopping_list_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_list shopping_lists;
+BEGIN
+  SELECT * INTO v_list FROM shopping_lists WHERE id = p_shopping_list_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shopping list % not found', p_shopping_list_id;
+  END IF;
+
+  IF v_list.user_id IS DISTINCT FROM auth.uid()
+     AND auth.role() IS DISTINCT FROM 'service_role'
+     AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Not allowed to change shopping list %', p_shopping_list_id;
+  END IF;
+
+  DELETE FROM shopping_list_items WHERE shopping_list_id = p_shopping_list_id;
+
+  RETURN QUERY
+  INSERT INTO shopping_list_items (shopping_list_id, product_id, pack_id, quantity)
+  SELECT
+    p_shopping_list_id,
+    (e.value->>'product_id')::UUID,
+    (e.value->>'pack_id')::UUID,
+    (e.value->>'quantity')::NUMERIC
+  FROM jsonb_array_elements(COALESCE(p_items, '[]'::JSONB)) e
+  RETURNING *;
+END;
+$$;
@@ -0,0 +1,285 @@
+-- Order rules: a minimum order value for everyone (settings), per delivery zone or per customer,
+-- and per product a minimum quantity, a quantity step (e.g. whole 10 kg cases only) and a lead
+-- time for produce that has to be ordered from the farm first.
+ALTER TABLE public.settings
+  ADD COLUMN IF NOT EXISTS min_order_value NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (min_order_value >= 0);
+
+-- NULL: the zone's or the global minimum applies
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS min_order_value NUMERIC(12, 2) CHECK (min_order_value >= 0);
+
+-- Quantities are in the product's base unit (products.unit)
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS min_order_quantity NUMERIC CHECK (min_order_quantity > 0),
+  ADD COLUMN IF NOT EXISTS quantity_step NUMERIC CHECK (quantity_step > 0),
+  ADD COLUMN IF NOT EXISTS lead_time_days INTEGER NOT NULL DEFAULT 0 CHECK (lead_time_days >= 0);
+
+-- place_order enforces the order rules
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_items JSONB,
+  p_user_id UUID DEFAULT NULL,
+  p_delivery_address TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_status TEXT DEFAULT 'pending',
+  p_payment_status TEXT DEFAULT 'pending',
+  p_delivery_date DATE DEFAULT NULL,
+  p_delivery_slot_id UUID DEFAULT NULL,
+  p_delivery_postcode TEXT DEFAULT NULL,
+  p_delivery_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_delivery_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_standing_order_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings RECORD;
+  v_today DATE;
+  v_customer_minimum NUMERIC;
+  v_minimum NUMERIC;
+  v_minimum_source TEXT;
+  v_zone delivery_zones;
+  v_slot delivery_slots;
+  v_delivery_date DATE;
+  v_item JSONB;
+  v_product RECORD;
+  v_pack product_packs;
+  v_quantity NUMERIC;
+  v_base_quantity NUMERIC;
+  v_submitted_price NUMERIC;
+  v_price NUMERIC;
+  v_price_list_id UUID;
+  v_is_admin BOOLEAN;
+  v_total NUMERIC := 0;
+  v_order orders;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  v_is_admin := auth.role() = 'service_role'
+    OR EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin');
+
+  -- Customers can only place orders for themselves; admins may order on behalf of anyone
+  IF p_user_id IS DISTINCT FROM auth.uid() AND NOT v_is_admin THEN
+    RAISE EXCEPTION 'Not allowed to place orders for another user';
+  END IF;
+
+  -- Orders start out pending and unpaid; only admins may place them in another state
+  IF (COALESCE(p_status, 'pending') <> 'pending' OR COALESCE(p_payment_status, 'pending') <> 'pending')
+     AND NOT v_is_admin THEN
+    RAISE EXCEPTION 'Not allowed to place orders with status % and payment status %', p_status, p_payment_status;
+  END IF;
+
+  IF p_standing_order_id IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM standing_orders WHERE id = p_standing_order_id AND user_id = p_user_id) THEN
+    RAISE EXCEPTION 'Standing order % does not belong to this customer', p_standing_order_id;
+  END IF;
+
+  SELECT order_cutoff_time, delivery_days, min_order_value
+  INTO v_settings
+  FROM settings
+  ORDER BY created_at ASC
+  LIMIT 1;
+
+  v_zone := resolve_delivery_zone(
+    COALESCE(p_delivery_postcode, (SELECT zip_code FROM users WHERE id = p_user_id)),
+    p_delivery_latitude,
+    p_delivery_longitude
+  );
+
+  IF p_delivery_date IS NULL AND p_delivery_slot_id IS NULL THEN
+    v_delivery_date := next_delivery_date(
+      company_now(),
+      COALESCE(v_zone.order_cutoff_time, v_settings.order_cutoff_time),
+      COALESCE(NULLIF(v_zone.delivery_days, '{}'), v_settings.delivery_days)
+    );
+  ELSE
+    v_delivery_date := p_delivery_date;
+
+    -- Lock the slot so concurrent checkouts cannot both take its last place
+    IF p_delivery_slot_id IS NOT NULL THEN
+      SELECT * INTO v_slot FROM delivery_slots WHERE id = p_delivery_slot_id FOR UPDATE;
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1
+      FROM get_delivery_options(NULL, v_zone.id) o
+      WHERE o.delivery_date = p_delivery_date
+        AND o.slot_id IS NOT DISTINCT FROM p_delivery_slot_id
+        AND (o.capacity IS NULL OR o.booked < o.capacity)
+    ) THEN
+      RAISE EXCEPTION 'Delivery on % is no longer available', COALESCE(p_delivery_date::TEXT, 'an unknown date')
+        USING HINT = 'delivery_slot_unavailable',
+              DETAIL = jsonb_build_object(
+                'delivery_date', p_delivery_date,
+                'slot_id', p_delivery_slot_id
+              )::TEXT;
+    END IF;
+  END IF;
+
+  v_today := company_now()::DATE;
+
+  INSERT INTO orders (
+    user_id, delivery_address, order_date, delivery_date,
+    delivery_slot_id, delivery_window_start, delivery_window_end,
+    delivery_zone_id, delivery_fee, total_amount, status, payment_status, notes, stock_status,
+    standing_order_id
+  )
+  VALUES (
+    p_user_id, p_delivery_address, NOW(), v_delivery_date,
+    v_slot.id, v_slot.start_time, v_slot.end_time,
+    v_zone.id, COALESCE(v_zone.delivery_fee, 0), 0, COALESCE(p_status, 'pending'), COALESCE(p_payment_status, 'pending'), p_notes, 'reserved',
+    p_standing_order_id
+  )
+  RETURNING * INTO v_order;
+
+  PERFORM set_stock_movement_context('order_placed', v_order.id);
+
+  -- Lock products in a stable order so concurrent checkouts cannot deadlock
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items) ORDER BY value->>'product_id'
+  LOOP
+    v_quantity := (v_item->>'quantity')::NUMERIC;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', v_item->>'product_id';
+    END IF;
+
+    SELECT id, name_en, unit, price, stock, reserved_stock, is_active,
+           min_order_quantity, quantity_step, lead_time_days
+    INTO v_product
+    FROM products
+    WHERE id = (v_item->>'product_id')::UUID
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT v_product.is_active THEN
+      RAISE EXCEPTION 'Product % is no longer available', v_item->>'product_id';
+    END IF;
+
+    v_pack := NULL;
+    v_base_quantity := v_quantity;
+
+    IF v_item->>'pack_id' IS NOT NULL THEN
+      SELECT * INTO v_pack
+      FROM product_packs
+      WHERE id = (v_item->>'pack_id')::UUID AND product_id = v_product.id;
+
+      IF NOT FOUND OR NOT v_pack.is_active THEN
+        RAISE EXCEPTION 'Pack % of % is no longer available', v_item->>'pack_id', v_product.name_en;
+      END IF;
+
+      v_base_quantity := v_quantity * v_pack.base_quantity;
+    END IF;
+
+    -- Quantity rules are in the product's base unit, whatever pack it is ordered in
+    IF v_base_quantity < COALESCE(v_product.min_order_quantity, 0)
+       OR (v_product.quantity_step IS NOT NULL AND mod(v_base_quantity, v_product.quantity_step) <> 0) THEN
+      RAISE EXCEPTION 'Invalid quantity % % for %', v_base_quantity, v_product.unit, v_product.name_en
+        USING HINT = 'invalid_quantity',
+              DETAIL = jsonb_build_object(
+                'product_id', v_product.id,
+                'product_name', v_product.name_en,
+                'unit', v_product.unit,
+                'quantity', v_base_quantity,
+                'minimum', v_product.min_order_quantity,
+                'step', v_product.quantity_step
+              )::TEXT;
+    END IF;
+
+    IF v_delivery_date < v_today + v_product.lead_time_days THEN
+      RAISE EXCEPTION '% needs to be ordered % days ahead', v_product.name_en, v_product.lead_time_days
+        USING HINT = 'lead_time',
+              DETAIL = jsonb_build_object(
+                'product_id', v_product.id,
+                'product_name', v_product.name_en,
+                'lead_time_days', v_product.lead_time_days,
+                'earliest_date', v_today + v_product.lead_time_days
+              )::TEXT;
+    END IF;
+
+    SELECT r.price, r.price_list_id
+    INTO v_price, v_price_list_id
+    FROM resolve_line_price(p_user_id, v_product.id, v_pack.id, v_quantity) r;
+
+    v_submitted_price := (v_item->>'unit_price')::NUMERIC;
+
+    IF v_submitted_price IS NOT NULL AND round(v_submitted_price, 2) <> round(v_price, 2) THEN
+      IF v_is_admin THEN
+        v_price := v_submitted_price;
+        v_price_list_id := NULL;
+      ELSE
+        RAISE EXCEPTION 'The price of % has changed to %', v_product.name_en, v_price
+          USING HINT = 'price_changed',
+                DETAIL = jsonb_build_object(
+                  'product_id', v_product.id,
+                  'product_name', v_product.name_en,
+                  'price', v_price,
+                  'submitted', v_submitted_price
+                )::TEXT;
+      END IF;
+    END IF;
+
+    IF v_product.stock - v_product.reserved_stock < v_base_quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %: % available, % requested',
+        v_product.name_en, v_product.stock - v_product.reserved_stock, v_base_quantity
+        USING HINT = 'insufficient_stock',
+              DETAIL = jsonb_build_object(
+                'product_id', v_product.id,
+                'product_name', v_product.name_en,
+                'available', v_product.stock - v_product.reserved_stock,
+                'requested', v_base_quantity
+              )::TEXT;
+    END IF;
+
+    UPDATE products
+    SET reserved_stock = reserved_stock + v_base_quantity,
+        updated_at = NOW()
+    WHERE id = v_product.id;
+
+    INSERT INTO order_items (order_id, product_id, pack_id, quantity, unit_price, price_list_id)
+    VALUES (v_order.id, v_product.id, v_pack.id, v_quantity, v_price, v_price_list_id);
+
+    v_total := v_total + v_quantity * v_price;
+  END LOOP;
+
+  PERFORM set_stock_movement_context(NULL);
+
+  -- A customer's own minimum replaces the others; otherwise the higher of the zone's and the global one
+  SELECT min_order_value INTO v_customer_minimum FROM users WHERE id = p_user_id;
+
+  IF v_customer_minimum IS NOT NULL THEN
+    v_minimum := v_customer_minimum;
+    v_minimum_source := 'customer';
+  ELSIF v_zone.id IS NOT NULL AND v_zone.min_order_value >= COALESCE(v_settings.min_order_value, 0) THEN
+    v_minimum := v_zone.min_order_value;
+    v_minimum_source := 'zone';
+  ELSE
+    v_minimum := COALESCE(v_settings.min_order_value, 0);
+    v_minimum_source := 'global';
+  END IF;
+
+  IF v_total < v_minimum THEN
+    RAISE EXCEPTION 'The minimum order value is %', v_minimum
+      USING HINT = 'below_minimum_order',
+            DETAIL = jsonb_build_object(
+              'source', v_minimum_source,
+              'zone_name', CASE WHEN v_minimum_source = 'zone' THEN v_zone.name END,
+              'minimum', v_minimum,
+              'total', v_total
+            )::TEXT;
+  END IF;
+
+  UPDATE orders
+  SET total_amount = v_total
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  RETURN to_jsonb(v_order) || jsonb_build_object(
+    'items',
+    (SELECT COALESCE(jsonb_agg(to_jsonb(oi)), '[]'::JSONB) FROM order_items oi WHERE oi.order_id = v_order.id)
+  );
+END;
+$$;
@@ -0,0 +1,321 @@
+-- Editable orders: customers and admins add, remove or change the lines of an open order until
+-- the order cutoff of its delivery date. Reservations follow the new quantities, changed lines
+-- are re-priced and every change is recorded in the order's history.
+ALTER TABLE public.stock_movements DROP CONSTRAINT IF EXISTS stock_movements_reason_check;
+ALTER TABLE public.stock_movements ADD CONSTRAINT stock_movements_reason_check CHECK (reason IN (
+  'order_placed', 'order_cancelled', 'order_completed', 'order_edited',
+  'manual_adjustment', 'goods_received', 'spoilage', 'return'
+));
+
+-- Line changes of an edit: {"items": [{product_name, pack_name, from_quantity, to_quantity}],
+-- "total_before", "total_after"}. NULL for status changes, where from_status and to_status differ.
+ALTER TABLE public.order_status_history
+  ADD COLUMN IF NOT EXISTS changes JSONB;
+
+-- The last moment an order can be changed: the order cutoff on the day before its delivery date,
+-- in the company's timezone, as next_delivery_date() schedules it. A zone's own cutoff applies.
+CREATE OR REPLACE FUNCTION public.order_edit_deadline(p_order_id UUID)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT ((o.delivery_date - 1) + COALESCE(z.order_cutoff_time, s.order_cutoff_time, '18:00')::TIME)
+         AT TIME ZONE COALESCE(s.timezone, 'UTC')
+  FROM orders o
+  LEFT JOIN delivery_zones z ON z.id = o.delivery_zone_id
+  LEFT JOIN LATERAL (
+    SELECT order_cutoff_time, timezone FROM settings ORDER BY created_at ASC LIMIT 1
+  ) s ON true
+  WHERE o.id = p_order_id;
+$$;
+
+-- The minimum order value rule of place_order: the customer's own minimum replaces the others,
+-- otherwise the higher of the zone's and the global one
+CREATE OR REPLACE FUNCTION public.resolve_minimum_order(p_user_id UUID, p_zone_id UUID)
+RETURNS TABLE (minimum NUMERIC, source TEXT, zone_name TEXT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    CASE
+      WHEN u.min_order_value IS NOT NULL THEN u.min_order_value
+      WHEN z.id IS NOT NULL AND z.min_order_value >= COALESCE(s.min_order_value, 0) THEN z.min_order_value
+      ELSE COALESCE(s.min_order_value, 0)
+    END,
+    CASE
+      WHEN u.min_order_value IS NOT NULL THEN 'customer'
+      WHEN z.id IS NOT NULL AND z.min_order_value >= COALESCE(s.min_order_value, 0) THEN 'zone'
+      ELSE 'global'
+    END,
+    CASE
+      WHEN u.min_order_value IS NULL AND z.id IS NOT NULL AND z.min_order_value >= COALESCE(s.min_order_value, 0) THEN z.name
+    END
+  FROM (SELECT 1) one
+  LEFT JOIN users u ON u.id = p_user_id
+  LEFT JOIN delivery_zones z ON z.id = p_zone_id
+  LEFT JOIN LATERAL (SELECT min_order_value FROM settings ORDER BY created_at ASC LIMIT 1) s ON true;
+$$;
+
+-- Replace the lines of an open order. p_items is the complete new list of
+-- {product_id, pack_id, quantity}; lines are matched to the existing ones by product and pack,
+-- and lines missing from the list are removed. Unchanged lines keep their price; new and changed
+-- lines are priced, checked and reserved like in place_order.
+CREATE OR REPLACE FUNCTION public.update_order_items(
+  p_order_id UUID,
+  p_items JSONB,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+  v_is_admin BOOLEAN;
+  v_deadline TIMESTAMPTZ;
+  v_today DATE;
+  v_item JSONB;
+  v_existing order_items;
+  v_found BOOLEAN;
+  v_product RECORD;
+  v_pack product_packs;
+  v_quantity NUMERIC;
+  v_base_quantity NUMERIC;
+  v_delta NUMERIC;
+  v_price NUMERIC;
+  v_price_list_id UUID;
+  v_minimum RECORD;
+  v_total_before NUMERIC;
+  v_total NUMERIC;
+  v_changes JSONB := '[]'::JSONB;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item; cancel it instead';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  v_is_admin := auth.role() = 'service_role'
+    OR EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin');
+
+  IF v_order.user_id IS DISTINCT FROM auth.uid() AND NOT v_is_admin THEN
+    RAISE EXCEPTION 'Not allowed to change order %', p_order_id;
+  END IF;
+
+  -- Customers change pending orders, admins also those being processed; nobody after the cutoff
+  v_deadline := order_edit_deadline(p_order_id);
+
+  IF NOT (v_order.status = 'pending' OR (v_is_admin AND v_order.status = 'processing'))
+     OR v_order.stock_status IS DISTINCT FROM 'reserved'
+     OR NOW() > COALESCE(v_deadline, 'infinity') THEN
+    RAISE EXCEPTION 'Order % can no longer be changed', p_order_id
+      USING HINT = 'order_locked',
+            DETAIL = jsonb_build_object(
+              'status', v_order.status,
+              'deadline', v_deadline
+            )::TEXT;
+  END IF;
+
+  v_today := company_now()::DATE;
+
+  SELECT COALESCE(SUM(order_item_total(oi)), 0) INTO v_total_before
+  FROM order_items oi
+  WHERE oi.order_id = p_order_id;
+
+  PERFORM set_stock_movement_context('order_edited', p_order_id, p_reason);
+
+  -- Lock products in a stable order so concurrent checkouts cannot deadlock
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items) ORDER BY value->>'product_id'
+  LOOP
+    v_quantity := (v_item->>'quantity')::NUMERIC;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', v_item->>'product_id';
+    END IF;
+
+    SELECT id, name_en, unit, stock, reserved_stock, is_active,
+           min_order_quantity, quantity_step, lead_time_days
+    INTO v_product
+    FROM products
+    WHERE id = (v_item->>'product_id')::UUID
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % not found', v_item->>'product_id';
+    END IF;
+
+    SELECT * INTO v_existing
+    FROM order_items
+    WHERE order_id = p_order_id
+      AND product_id = v_product.id
+      AND pack_id IS NOT DISTINCT FROM (v_item->>'pack_id')::UUID
+    ORDER BY id
+    LIMIT 1;
+
+    v_found := FOUND;
+
+    CONTINUE WHEN v_found AND v_existing.quantity = v_quantity;
+
+    IF NOT v_product.is_active THEN
+      RAISE EXCEPTION 'Product % is no longer available', v_product.name_en;
+    END IF;
+
+    v_pack := NULL;
+    v_base_quantity := v_quantity;
+
+    IF v_item->>'pack_id' IS NOT NULL THEN
+      SELECT * INTO v_pack
+      FROM product_packs
+      WHERE id = (v_item->>'pack_id')::UUID AND product_id = v_product.id;
+
+      IF NOT FOUND OR NOT v_pack.is_active THEN
+        RAISE EXCEPTION 'Pack % of % is no longer available', v_item->>'pack_id', v_product.name_en;
+      END IF;
+
+      v_base_quantity := v_quantity * v_pack.base_quantity;
+    END IF;
+
+    IF v_base_quantity < COALESCE(v_product.min_order_quantity, 0)
+       OR (v_product.quantity_step IS NOT NULL AND mod(v_base_quantity, v_product.quantity_step) <> 0) THEN
+      RAISE EXCEPTION 'Invalid quantity % % for %', v_base_quantity, v_product.unit, v_product.name_en
+        USING HINT = 'invalid_quantity',
+              DETAIL = jsonb_build_object(
+                'product_id', v_product.id,
+                'product_name', v_product.name_en,
+                'unit', v_product.unit,
+                'quantity', v_base_quantity,
+                'minimum', v_product.min_order_quantity,
+                'step', v_product.quantity_step
+              )::TEXT;
+    END IF;
+
+    v_delta := v_base_quantity - CASE WHEN v_found THEN v_existing.base_quantity ELSE 0 END;
+
+    -- Asking for more of a product with a lead time needs as much notice as a new order
+    IF v_delta > 0 AND v_order.delivery_date < v_today + v_product.lead_time_days THEN
+      RAISE EXCEPTION '% needs to be ordered % days ahead', v_product.name_en, v_product.lead_time_days
+        USING HINT = 'lead_time',
+              DETAIL = jsonb_build_object(
+                'product_id', v_product.id,
+                'product_name', v_product.name_en,
+                'lead_time_days', v_product.lead_time_days,
+                'earliest_date', v_today + v_product.lead_time_days
+              )::TEXT;
+    END IF;
+
+    IF v_delta > 0 AND v_product.stock - v_product.reserved_stock < v_delta THEN
+      RAISE EXCEPTION 'Insufficient stock for %: % available, % requested',
+        v_product.name_en, v_product.stock - v_product.reserved_stock, v_delta
+        USING HINT = 'insufficient_stock',
+              DETAIL = jsonb_build_object(
+                'product_id', v_product.id,
+                'product_name', v_product.name_en,
+                'available', v_product.stock - v_product.reserved_stock,
+                'requested', v_delta
+              )::TEXT;
+    END IF;
+
+    SELECT r.price, r.price_list_id
+    INTO v_price, v_price_list_id
+    FROM resolve_line_price(v_order.user_id, v_product.id, v_pack.id, v_quantity) r;
+
+    IF v_delta <> 0 THEN
+      UPDATE products
+      SET reserved_stock = GREATEST(reserved_stock + v_delta, 0),
+          updated_at = NOW()
+      WHERE id = v_product.id;
+    END IF;
+
+    IF v_found THEN
+      UPDATE order_items
+      SET quantity = v_quantity,
+          unit_price = v_price,
+          price_list_id = v_price_list_id
+      WHERE id = v_existing.id;
+    ELSE
+      INSERT INTO order_items (order_id, product_id, pack_id, quantity, unit_price, price_list_id)
+      VALUES (p_order_id, v_product.id, v_pack.id, v_quantity, v_price, v_price_list_id);
+    END IF;
+
+    v_changes := v_changes || jsonb_build_array(jsonb_build_object(
+      'product_name', v_product.name_en,
+      'pack_name', v_pack.name,
+      'from_quantity', CASE WHEN v_found THEN v_existing.quantity ELSE 0 END,
+      'to_quantity', v_quantity
+    ));
+  END LOOP;
+
+  -- Lines left out of the list are removed and their reservation released
+  FOR v_existing IN
+    SELECT oi.*
+    FROM order_items oi
+    WHERE oi.order_id = p_order_id
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(p_items) e
+        WHERE (e.value->>'product_id')::UUID = oi.product_id
+          AND (e.value->>'pack_id')::UUID IS NOT DISTINCT FROM oi.pack_id
+      )
+    ORDER BY oi.product_id
+  LOOP
+    UPDATE products
+    SET reserved_stock = GREATEST(reserved_stock - v_existing.base_quantity, 0),
+        updated_at = NOW()
+    WHERE id = v_existing.product_id;
+
+    DELETE FROM order_items WHERE id = v_existing.id;
+
+    v_changes := v_changes || jsonb_build_array(jsonb_build_object(
+      'product_name', (SELECT name_en FROM products WHERE id = v_existing.product_id),
+      'pack_name', (SELECT name FROM product_packs WHERE id = v_existing.pack_id),
+      'from_quantity', v_existing.quantity,
+      'to_quantity', 0
+    ));
+  END LOOP;
+
+  PERFORM set_stock_movement_context(NULL);
+
+  IF jsonb_array_length(v_changes) > 0 THEN
+    SELECT COALESCE(SUM(order_item_total(oi)), 0) INTO v_total
+    FROM order_items oi
+    WHERE oi.order_id = p_order_id;
+
+    SELECT * INTO v_minimum FROM resolve_minimum_order(v_order.user_id, v_order.delivery_zone_id);
+
+    IF v_total < v_minimum.minimum THEN
+      RAISE EXCEPTION 'The minimum order value is %', v_minimum.minimum
+        USING HINT = 'below_minimum_order',
+              DETAIL = jsonb_build_object(
+                'source', v_minimum.source,
+                'zone_name', v_minimum.zone_name,
+                'minimum', v_minimum.minimum,
+                'total', v_total
+              )::TEXT;
+    END IF;
+
+    UPDATE orders
+    SET total_amount = v_total,
+        updated_at = NOW()
+    WHERE id = p_order_id
+    RETURNING * INTO v_order;
+
+    INSERT INTO order_status_history (order_id, from_status, to_status, reason, changed_by, changes)
+    VALUES (
+      p_order_id, v_order.status, v_order.status, p_reason, auth.uid(),
+      jsonb_build_object('items', v_changes, 'total_before', v_total_before, 'total_after', v_total)
+    );
+  END IF;
+
+  RETURN to_jsonb(v_order) || jsonb_build_object(
+    'items',
+    (SELECT COALESCE(jsonb_agg(to_jsonb(oi)), '[]'::JSONB) FROM order_items oi WHERE oi.order_id = v_order.id)
+  );
+END;
+$$;
@@ -0,0 +1,438 @@
+-- Partial fulfilment and substitutions: when a product runs short at picking, the line ships
+-- what there is (fulfilled_quantity) and may get a similar product as a substitute line.
+-- Customers choose whether substitutes are sent straight away, proposed to them first, or never.
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS substitution_preference TEXT NOT NULL DEFAULT 'allow'
+  CHECK (substitution_preference IN ('allow', 'ask', 'never'));
+
+-- fulfilled_quantity is in the line's own unit (packs when pack_id is set), NULL while the line
+-- ships in full. A substitute line points at the line it replaces; proposed and declined
+-- substitutes are not delivered or charged.
+ALTER TABLE public.order_items
+  ADD COLUMN IF NOT EXISTS fulfilled_quantity NUMERIC,
+  ADD COLUMN IF NOT EXISTS substitute_for UUID REFERENCES public.order_items(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS substitution_status TEXT
+  CHECK (substitution_status IN ('proposed', 'accepted', 'declined')),
+  ADD CONSTRAINT order_items_fulfilled_quantity_check CHECK (fulfilled_quantity >= 0 AND fulfilled_quantity <= quantity),
+  ADD CONSTRAINT order_items_substitution_check CHECK ((substitute_for IS NULL) = (substitution_status IS NULL));
+
+CREATE INDEX IF NOT EXISTS idx_order_items_substitute_for ON public.order_items (substitute_for);
+
+ALTER TABLE public.stock_movements DROP CONSTRAINT IF EXISTS stock_movements_reason_check;
+ALTER TABLE public.stock_movements ADD CONSTRAINT stock_movements_reason_check CHECK (reason IN (
+  'order_placed', 'order_cancelled', 'order_completed', 'order_edited', 'order_substitution',
+  'manual_adjustment', 'goods_received', 'spoilage', 'return'
+));
+
+-- The amount charged for an order line: the weighed quantity for catch-weight lines, otherwise
+-- the fulfilled quantity once the line is short, otherwise the ordered quantity
+CREATE OR REPLACE FUNCTION public.order_item_total(p_item public.order_items)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_item.substitution_status IN ('proposed', 'declined') THEN 0
+    WHEN p_item.actual_quantity IS NOT NULL
+      THEN round(p_item.unit_price * p_item.quantity * p_item.actual_quantity / p_item.base_quantity, 2)
+    WHEN p_item.fulfilled_quantity IS NOT NULL THEN p_item.fulfilled_quantity * p_item.unit_price
+    ELSE p_item.quantity * p_item.unit_price
+  END;
+$$;
+
+-- The quantity of an order line that leaves the warehouse, in the product's base unit
+CREATE OR REPLACE FUNCTION public.order_item_delivered_quantity(p_item public.order_items)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_item.substitution_status IN ('proposed', 'declined') THEN 0
+    WHEN p_item.actual_quantity IS NOT NULL THEN p_item.actual_quantity
+    WHEN p_item.fulfilled_quantity IS NOT NULL THEN p_item.fulfilled_quantity * p_item.base_quantity / p_item.quantity
+    ELSE p_item.base_quantity
+  END;
+$$;
+
+-- The order and the caller's right to change its lines at picking: admins and the order's driver,
+-- until the order is completed
+CREATE OR REPLACE FUNCTION public.lock_order_for_picking(p_order_id UUID)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND v_order.assigned_driver_id IS DISTINCT FROM auth.uid()
+     AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Not allowed to change the lines of order %', p_order_id;
+  END IF;
+
+  IF v_order.status NOT IN ('pending', 'processing') OR v_order.stock_status IS DISTINCT FROM 'reserved' THEN
+    RAISE EXCEPTION 'Lines can no longer be changed on a % order', v_order.status
+      USING HINT = 'order_closed';
+  END IF;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.lock_order_for_picking(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.retotal_order(p_order_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_total NUMERIC;
+BEGIN
+  SELECT COALESCE(SUM(order_item_total(oi)), 0) INTO v_total
+  FROM order_items oi
+  WHERE oi.order_id = p_order_id;
+
+  UPDATE orders SET total_amount = v_total, updated_at = NOW() WHERE id = p_order_id;
+
+  RETURN v_total;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.retotal_order(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Record (or clear, with NULL) how much of a line could be picked, and re-total the order.
+-- The reservation is kept until the order is completed, when only the fulfilled quantity
+-- leaves stock.
+CREATE OR REPLACE FUNCTION public.record_fulfilled_quantity(p_order_item_id UUID, p_fulfilled_quantity NUMERIC)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item order_items;
+BEGIN
+  SELECT * INTO v_item FROM order_items WHERE id = p_order_item_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order item % not found', p_order_item_id;
+  END IF;
+
+  PERFORM lock_order_for_picking(v_item.order_id);
+
+  IF v_item.substitute_for IS NOT NULL THEN
+    RAISE EXCEPTION 'Substitute lines ship in full; decline the substitute instead';
+  END IF;
+
+  IF p_fulfilled_quantity IS NOT NULL AND (p_fulfilled_quantity < 0 OR p_fulfilled_quantity > v_item.quantity) THEN
+    RAISE EXCEPTION 'Fulfilled quantity must be between 0 and %', v_item.quantity
+      USING HINT = 'invalid_fulfilled_quantity';
+  END IF;
+
+  UPDATE order_items
+  SET fulfilled_quantity = CASE WHEN p_fulfilled_quantity = v_item.quantity THEN NULL ELSE p_fulfilled_quantity END
+  WHERE id = p_order_item_id;
+
+  RETURN retotal_order(v_item.order_id);
+END;
+$$;
+
+-- Add a substitute for a short line. The substitute is priced for the customer and reserved
+-- like a new order line; it is accepted straight away when the customer allows substitutions
+-- and proposed to them when they want to be asked.
+CREATE OR REPLACE FUNCTION public.substitute_order_item(
+  p_order_item_id UUID,
+  p_product_id UUID,
+  p_pack_id UUID,
+  p_quantity NUMERIC
+)
+RETURNS order_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item order_items;
+  v_order orders;
+  v_preference TEXT;
+  v_product RECORD;
+  v_pack product_packs;
+  v_base_quantity NUMERIC;
+  v_price NUMERIC;
+  v_price_list_id UUID;
+  v_substitute order_items;
+BEGIN
+  SELECT * INTO v_item FROM order_items WHERE id = p_order_item_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order item % not found', p_order_item_id;
+  END IF;
+
+  v_order := lock_order_for_picking(v_item.order_id);
+
+  SELECT substitution_preference INTO v_preference FROM users WHERE id = v_order.user_id;
+
+  IF COALESCE(v_preference, 'allow') = 'never' THEN
+    RAISE EXCEPTION 'The customer does not accept substitutions'
+      USING HINT = 'substitution_not_allowed';
+  END IF;
+
+  IF v_item.substitute_for IS NOT NULL THEN
+    RAISE EXCEPTION 'A substitute cannot be substituted';
+  END IF;
+
+  IF v_item.fulfilled_quantity IS NULL THEN
+    RAISE EXCEPTION 'Record the fulfilled quantity of the line before substituting it';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Invalid quantity for the substitute';
+  END IF;
+
+  SELECT id, name_en, stock, reserved_stock, is_active
+  INTO v_product
+  FROM products
+  WHERE id = p_product_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_product.is_active THEN
+    RAISE EXCEPTION 'Product % is not available', p_product_id;
+  END IF;
+
+  v_base_quantity := p_quantity;
+
+  IF p_pack_id IS NOT NULL THEN
+    SELECT * INTO v_pack FROM product_packs WHERE id = p_pack_id AND product_id = p_product_id;
+
+    IF NOT FOUND OR NOT v_pack.is_active THEN
+      RAISE EXCEPTION 'Pack % of % is not available', p_pack_id, v_product.name_en;
+    END IF;
+
+    v_base_quantity := p_quantity * v_pack.base_quantity;
+  END IF;
+
+  IF v_product.stock - v_product.reserved_stock < v_base_quantity THEN
+    RAISE EXCEPTION 'Insufficient stock for %: % available, % requested',
+      v_product.name_en, v_product.stock - v_product.reserved_stock, v_base_quantity
+      USING HINT = 'insufficient_stock',
+            DETAIL = jsonb_build_object(
+              'product_id', v_product.id,
+              'product_name', v_product.name_en,
+              'available', v_product.stock - v_product.reserved_stock,
+              'requested', v_base_quantity
+            )::TEXT;
+  END IF;
+
+  SELECT r.price, r.price_list_id
+  INTO v_price, v_price_list_id
+  FROM resolve_line_price(v_order.user_id, p_product_id, p_pack_id, p_quantity) r;
+
+  PERFORM set_stock_movement_context('order_substitution', v_order.id);
+
+  UPDATE products
+  SET reserved_stock = reserved_stock + v_base_quantity,
+      updated_at = NOW()
+  WHERE id = p_product_id;
+
+  PERFORM set_stock_movement_context(NULL);
+
+  INSERT INTO order_items (
+    order_id, product_id, pack_id, quantity, unit_price, price_list_id, substitute_for, substitution_status
+  )
+  VALUES (
+    v_order.id, p_product_id, p_pack_id, p_quantity, v_price, v_price_list_id, v_item.id,
+    CASE WHEN COALESCE(v_preference, 'allow') = 'ask' THEN 'proposed' ELSE 'accepted' END
+  )
+  RETURNING * INTO v_substitute;
+
+  PERFORM retotal_order(v_order.id);
+
+  RETURN v_substitute;
+END;
+$$;
+
+-- Accept or decline a proposed substitute. The customer answers for their own orders and admins
+-- for anyone; admins can also take back a substitute that was already accepted. A declined
+-- substitute gives back its reservation and lot allocations.
+CREATE OR REPLACE FUNCTION public.respond_to_substitution(p_order_item_id UUID, p_accept BOOLEAN)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item order_items;
+  v_order orders;
+  v_is_admin BOOLEAN;
+BEGIN
+  SELECT * INTO v_item FROM order_items WHERE id = p_order_item_id;
+
+  IF NOT FOUND OR v_item.substitute_for IS NULL THEN
+    RAISE EXCEPTION 'Order item % is not a substitute', p_order_item_id;
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_item.order_id FOR UPDATE;
+
+  v_is_admin := auth.role() = 'service_role'
+    OR EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin');
+
+  IF v_order.user_id IS DISTINCT FROM auth.uid() AND NOT v_is_admin THEN
+    RAISE EXCEPTION 'Not allowed to answer substitutions on order %', v_order.id;
+  END IF;
+
+  IF v_order.status NOT IN ('pending', 'processing') OR v_order.stock_status IS DISTINCT FROM 'reserved' THEN
+    RAISE EXCEPTION 'Substitutions can no longer be changed on a % order', v_order.status
+      USING HINT = 'order_closed';
+  END IF;
+
+  IF v_item.substitution_status = 'declined'
+     OR (v_item.substitution_status = 'accepted' AND (p_accept OR NOT v_is_admin)) THEN
+    RAISE EXCEPTION 'The substitute has already been %', v_item.substitution_status
+      USING HINT = 'substitution_answered';
+  END IF;
+
+  IF p_accept THEN
+    UPDATE order_items SET substitution_status = 'accepted' WHERE id = p_order_item_id;
+  ELSE
+    PERFORM set_stock_movement_context('order_substitution', v_order.id);
+
+    UPDATE products
+    SET reserved_stock = GREATEST(reserved_stock - v_item.base_quantity, 0),
+        updated_at = NOW()
+    WHERE id = v_item.product_id;
+
+    PERFORM set_stock_movement_context(NULL);
+
+    DELETE FROM order_item_lots WHERE order_item_id = p_order_item_id;
+
+    UPDATE order_items SET substitution_status = 'declined' WHERE id = p_order_item_id;
+  END IF;
+
+  RETURN retotal_order(v_order.id);
+END;
+$$;
+
+-- Completing an order takes what was delivered out of stock and its lots, and releases the
+-- whole reservation. Substitutes still waiting for an answer are not delivered and are declined.
+CREATE OR REPLACE FUNCTION public.commit_order_stock(p_order_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  -- Admins and the driver delivering the order complete it
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND v_order.assigned_driver_id IS DISTINCT FROM auth.uid()
+     AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Not allowed to complete order %', p_order_id;
+  END IF;
+
+  IF v_order.stock_status IS DISTINCT FROM 'reserved' THEN
+    RETURN false;
+  END IF;
+
+  PERFORM set_stock_movement_context('order_completed', p_order_id);
+
+  -- Declined substitutes gave their reservation back when they were declined
+  UPDATE products p
+  SET stock = p.stock - oi.delivered,
+      reserved_stock = GREATEST(p.reserved_stock - oi.reserved, 0),
+      updated_at = NOW()
+  FROM (
+    SELECT product_id,
+           SUM(order_item_delivered_quantity(order_items)) AS delivered,
+           SUM(CASE WHEN substitution_status = 'declined' THEN 0 ELSE base_quantity END) AS reserved
+    FROM order_items
+    WHERE order_id = p_order_id
+    GROUP BY product_id
+  ) oi
+  WHERE p.id = oi.product_id;
+
+  PERFORM set_stock_movement_context(NULL);
+
+  -- A short line takes its share of each lot; catch-weight lines take the whole allocation
+  UPDATE stock_lots l
+  SET remaining_quantity = GREATEST(l.remaining_quantity - a.quantity, 0)
+  FROM (
+    SELECT oil.lot_id,
+           SUM(CASE
+             WHEN oi.substitution_status IN ('proposed', 'declined') THEN 0
+             WHEN oi.actual_quantity IS NULL AND oi.fulfilled_quantity IS NOT NULL
+               THEN oil.quantity * oi.fulfilled_quantity / oi.quantity
+             ELSE oil.quantity
+           END) AS quantity
+    FROM order_item_lots oil
+    JOIN order_items oi ON oi.id = oil.order_item_id
+    WHERE oi.order_id = p_order_id
+    GROUP BY oil.lot_id
+  ) a
+  WHERE l.id = a.lot_id;
+
+  UPDATE order_items
+  SET substitution_status = 'declined'
+  WHERE order_id = p_order_id AND substitution_status = 'proposed';
+
+  UPDATE orders SET stock_status = 'committed' WHERE id = p_order_id;
+
+  RETURN true;
+END;
+$$;
+
+-- Cancelling releases what is still reserved; declined substitutes already gave theirs back
+CREATE OR REPLACE FUNCTION public.release_order_stock(p_order_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  -- Admins and the customer who placed the order can cancel it
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND v_order.user_id IS DISTINCT FROM auth.uid()
+     AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Not allowed to cancel order %', p_order_id;
+  END IF;
+
+  IF v_order.stock_status IS DISTINCT FROM 'reserved' THEN
+    RETURN false;
+  END IF;
+
+  PERFORM set_stock_movement_context('order_cancelled', p_order_id);
+
+  UPDATE products p
+  SET reserved_stock = GREATEST(p.reserved_stock - oi.quantity, 0),
+      updated_at = NOW()
+  FROM (
+    SELECT product_id, SUM(base_quantity) AS quantity
+    FROM order_items
+    WHERE order_id = p_order_id
+      AND substitution_status IS DISTINCT FROM 'declined'
+    GROUP BY product_id
+  ) oi
+  WHERE p.id = oi.product_id;
+
+  PERFORM set_stock_movement_context(NULL);
+
+  UPDATE orders SET stock_status = 'released' WHERE id = p_order_id;
+
+  RETURN true;
+END;
+$$;
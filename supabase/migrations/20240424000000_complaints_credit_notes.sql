@@ -0,0 +1,491 @@
+-- Complaints and credit notes: customers complain about lines of a delivered order, with a
+-- quantity, a reason and photos. Approving a complaint credits the complained quantities and
+-- may take goods back into stock or write them off; the credit note is an invoice row of its
+-- own series that points at the invoice of the order.
+
+-- Credit notes are invoices with negative amounts, numbered separately from invoices
+ALTER TABLE public.settings
+  ADD COLUMN IF NOT EXISTS credit_note_number_prefix TEXT DEFAULT 'CN';
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS credit_note_for UUID REFERENCES public.invoices(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_credit_note_for
+  ON public.invoices (credit_note_for)
+  WHERE credit_note_for IS NOT NULL;
+
+-- Still one invoice per order, but any number of credit notes against it
+DROP INDEX IF EXISTS public.idx_invoices_order_id;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_order_id
+  ON public.invoices (order_id)
+  WHERE order_id IS NOT NULL AND credit_note_for IS NULL;
+
+ALTER TABLE public.invoice_number_sequences
+  ADD COLUMN IF NOT EXISTS series TEXT NOT NULL DEFAULT 'invoice'
+    CHECK (series IN ('invoice', 'credit_note'));
+
+ALTER TABLE public.invoice_number_sequences DROP CONSTRAINT IF EXISTS invoice_number_sequences_pkey;
+ALTER TABLE public.invoice_number_sequences ADD PRIMARY KEY (series, period);
+
+-- create_numbered_invoice also issues credit notes, from their own counter and prefix
+DROP FUNCTION IF EXISTS public.create_numbered_invoice(UUID, TEXT, TEXT, UUID, TEXT, TEXT, NUMERIC, NUMERIC, NUMERIC, TEXT);
+
+CREATE OR REPLACE FUNCTION public.create_numbered_invoice(
+  p_user_id UUID,
+  p_folder TEXT,
+  p_bucket TEXT DEFAULT 'invoices',
+  p_order_id UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_status TEXT DEFAULT 'pending',
+  p_subtotal NUMERIC DEFAULT NULL,
+  p_vat_amount NUMERIC DEFAULT NULL,
+  p_total_amount NUMERIC DEFAULT NULL,
+  p_currency TEXT DEFAULT NULL,
+  p_credit_note_for UUID DEFAULT NULL
+)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_series TEXT := CASE WHEN p_credit_note_for IS NULL THEN 'invoice' ELSE 'credit_note' END;
+  v_prefix TEXT;
+  v_padding INTEGER;
+  v_yearly_reset BOOLEAN;
+  v_year INTEGER := EXTRACT(YEAR FROM NOW())::INTEGER;
+  v_period INTEGER;
+  v_next INTEGER;
+  v_sequence TEXT;
+  v_number TEXT;
+  v_invoice public.invoices;
+BEGIN
+  -- Only admins (or the service role used by API routes) may issue invoices
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can create invoices';
+  END IF;
+
+  IF p_credit_note_for IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM invoices WHERE id = p_credit_note_for AND credit_note_for IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Invoice % not found', p_credit_note_for;
+  END IF;
+
+  SELECT
+    CASE v_series
+      WHEN 'credit_note' THEN COALESCE(NULLIF(credit_note_number_prefix, ''), 'CN')
+      ELSE COALESCE(NULLIF(invoice_number_prefix, ''), 'INV')
+    END,
+    COALESCE(invoice_number_padding, 6),
+    COALESCE(invoice_number_yearly_reset, true)
+  INTO v_prefix, v_padding, v_yearly_reset
+  FROM settings
+  ORDER BY created_at ASC
+  LIMIT 1;
+
+  v_prefix := COALESCE(v_prefix, CASE v_series WHEN 'credit_note' THEN 'CN' ELSE 'INV' END);
+  v_padding := COALESCE(v_padding, 6);
+  v_yearly_reset := COALESCE(v_yearly_reset, true);
+  v_period := CASE WHEN v_yearly_reset THEN v_year ELSE 0 END;
+
+  INSERT INTO invoice_number_sequences (series, period, last_number)
+  VALUES (v_series, v_period, 1)
+  ON CONFLICT (series, period) DO UPDATE
+    SET last_number = invoice_number_sequences.last_number + 1,
+        updated_at = NOW()
+  RETURNING last_number INTO v_next;
+
+  -- LPAD truncates to the padding, so numbers that have outgrown it are used in full
+  v_sequence := v_next::TEXT;
+  IF length(v_sequence) < v_padding THEN
+    v_sequence := LPAD(v_sequence, v_padding, '0');
+  END IF;
+
+  IF v_yearly_reset THEN
+    v_number := v_prefix || '-' || v_year || '-' || v_sequence;
+  ELSE
+    v_number := v_prefix || '-' || v_sequence;
+  END IF;
+
+  INSERT INTO invoices (
+    user_id, order_id, invoice_number, path, bucket, notes, status,
+    subtotal, vat_amount, total_amount, currency, credit_note_for
+  )
+  VALUES (
+    p_user_id, p_order_id, v_number, p_folder || '/' || v_number || '.pdf', p_bucket, p_notes, p_status,
+    p_subtotal, p_vat_amount, p_total_amount, p_currency, p_credit_note_for
+  )
+  RETURNING * INTO v_invoice;
+
+  RETURN v_invoice;
+END;
+$$;
+
+-- Complaint photos are private: customers upload into a folder named after their user id
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('complaint-photos', 'complaint-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Customers can upload complaint photos"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'complaint-photos'
+  AND auth.role() = 'authenticated'
+  AND (storage.foldername(name))[1] = auth.uid()::TEXT
+);
+
+CREATE POLICY "Customers can read their own complaint photos"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'complaint-photos'
+  AND (storage.foldername(name))[1] = auth.uid()::TEXT
+);
+
+CREATE POLICY "Admins can read complaint photos"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'complaint-photos'
+  AND EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin')
+);
+
+CREATE TABLE IF NOT EXISTS public.complaints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'approved', 'rejected')),
+  description TEXT,
+  photo_paths TEXT[] NOT NULL DEFAULT '{}', -- in the complaint-photos bucket
+  resolution_notes TEXT,
+  credit_amount NUMERIC(12, 2), -- net of VAT, set on approval
+  credit_note_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL,
+  resolved_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- quantity is in the unit of the order line: its pack, or the product's unit.
+-- stock_action is what approval did with the goods: nothing, back into stock, or written off.
+CREATE TABLE IF NOT EXISTS public.complaint_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  complaint_id UUID NOT NULL REFERENCES public.complaints(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+  quantity NUMERIC NOT NULL CHECK (quantity > 0),
+  reason TEXT NOT NULL CHECK (reason IN ('damaged', 'spoiled', 'missing', 'wrong_item', 'other')),
+  stock_action TEXT CHECK (stock_action IN ('none', 'restock', 'write_off')),
+  credit_amount NUMERIC(12, 2),
+  CONSTRAINT complaint_items_unique_line UNIQUE (complaint_id, order_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_complaints_order ON public.complaints (order_id);
+CREATE INDEX IF NOT EXISTS idx_complaints_status ON public.complaints (status, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_complaints_credit_note ON public.complaints (credit_note_id);
+CREATE INDEX IF NOT EXISTS idx_complaint_items_order_item ON public.complaint_items (order_item_id);
+
+CREATE TRIGGER update_complaints_updated_at
+  BEFORE UPDATE ON public.complaints
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Complaints are opened and resolved through the functions below
+ALTER TABLE public.complaints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.complaint_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers can view their own complaints"
+  ON public.complaints FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view complaints"
+  ON public.complaints FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE POLICY "Customers can view the items of their own complaints"
+  ON public.complaint_items FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.complaints c WHERE c.id = complaint_id AND c.user_id = auth.uid()));
+
+CREATE POLICY "Admins can view complaint items"
+  ON public.complaint_items FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'));
+
+-- The quantity of an order line that was delivered, in the line's unit
+CREATE OR REPLACE FUNCTION public.order_item_delivered_line_quantity(p_item public.order_items)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_item.substitution_status IN ('proposed', 'declined') THEN 0
+    ELSE COALESCE(p_item.fulfilled_quantity, p_item.quantity)
+  END;
+$$;
+
+-- Open a complaint against lines of the caller's completed order. p_items is a list of
+-- {order_item_id, quantity, reason}; a line cannot be complained about beyond what was delivered,
+-- counting its open and approved complaints.
+CREATE OR REPLACE FUNCTION public.open_complaint(
+  p_order_id UUID,
+  p_items JSONB,
+  p_description TEXT DEFAULT NULL,
+  p_photo_paths TEXT[] DEFAULT '{}'
+)
+RETURNS complaints
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+  v_complaint complaints;
+  v_item JSONB;
+  v_order_item order_items;
+  v_product_name TEXT;
+  v_quantity NUMERIC;
+  v_available NUMERIC;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A complaint needs at least one item';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR v_order.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  IF v_order.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only delivered orders can be complained about'
+      USING HINT = 'order_not_delivered';
+  END IF;
+
+  -- Photos must have been uploaded into the customer's own folder
+  IF EXISTS (
+    SELECT 1 FROM unnest(COALESCE(p_photo_paths, '{}')) AS path
+    WHERE split_part(path, '/', 1) <> auth.uid()::TEXT
+  ) THEN
+    RAISE EXCEPTION 'Invalid photo path';
+  END IF;
+
+  INSERT INTO complaints (order_id, user_id, description, photo_paths)
+  VALUES (p_order_id, v_order.user_id, NULLIF(trim(p_description), ''), COALESCE(p_photo_paths, '{}'))
+  RETURNING * INTO v_complaint;
+
+  FOR v_item IN SELECT value FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::NUMERIC;
+
+    SELECT * INTO v_order_item
+    FROM order_items
+    WHERE id = (v_item->>'order_item_id')::UUID AND order_id = p_order_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Order item % is not part of order %', v_item->>'order_item_id', p_order_id;
+    END IF;
+
+    SELECT name_en INTO v_product_name FROM products WHERE id = v_order_item.product_id;
+
+    v_available := order_item_delivered_line_quantity(v_order_item) - COALESCE((
+      SELECT SUM(ci.quantity)
+      FROM complaint_items ci
+      JOIN complaints c ON c.id = ci.complaint_id
+      WHERE ci.order_item_id = v_order_item.id
+        AND c.status IN ('open', 'approved')
+        AND c.id <> v_complaint.id
+    ), 0);
+
+    IF v_quantity IS NULL OR v_quantity <= 0 OR v_quantity > v_available THEN
+      RAISE EXCEPTION 'Invalid complaint quantity for %: % available', v_product_name, v_available
+        USING HINT = 'invalid_complaint_quantity',
+              DETAIL = jsonb_build_object(
+                'order_item_id', v_order_item.id,
+                'product_name', v_product_name,
+                'available', GREATEST(v_available, 0)
+              )::TEXT;
+    END IF;
+
+    INSERT INTO complaint_items (complaint_id, order_item_id, quantity, reason)
+    VALUES (v_complaint.id, v_order_item.id, v_quantity, COALESCE(v_item->>'reason', 'other'));
+  END LOOP;
+
+  RETURN v_complaint;
+END;
+$$;
+
+-- Approve or reject an open complaint. Approval credits each line at what was charged for it
+-- and applies p_stock_actions, a map of complaint item id to 'none', 'restock' or 'write_off':
+-- restocked goods come back as returns; written-off goods are booked back in and out again as
+-- spoilage, so the loss shows in the stock history.
+CREATE OR REPLACE FUNCTION public.resolve_complaint(
+  p_complaint_id UUID,
+  p_approve BOOLEAN,
+  p_stock_actions JSONB DEFAULT '{}',
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS complaints
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_complaint complaints;
+  v_line RECORD;
+  v_action TEXT;
+  v_base_quantity NUMERIC;
+  v_credit NUMERIC;
+  v_note TEXT;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can resolve complaints';
+  END IF;
+
+  SELECT * INTO v_complaint FROM complaints WHERE id = p_complaint_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Complaint % not found', p_complaint_id;
+  END IF;
+
+  IF v_complaint.status <> 'open' THEN
+    RAISE EXCEPTION 'The complaint has already been %', v_complaint.status
+      USING HINT = 'complaint_resolved';
+  END IF;
+
+  IF p_approve THEN
+    v_note := 'Complaint ' || left(p_complaint_id::TEXT, 8);
+
+    FOR v_line IN
+      SELECT ci.id, ci.quantity, oi AS order_item
+      FROM complaint_items ci
+      JOIN order_items oi ON oi.id = ci.order_item_id
+      WHERE ci.complaint_id = p_complaint_id
+      ORDER BY oi.product_id
+    LOOP
+      v_action := COALESCE(p_stock_actions->>v_line.id::TEXT, 'none');
+
+      IF v_action NOT IN ('none', 'restock', 'write_off') THEN
+        RAISE EXCEPTION 'Invalid stock action %', v_action;
+      END IF;
+
+      v_credit := round(
+        order_item_total(v_line.order_item) * v_line.quantity
+          / NULLIF(order_item_delivered_line_quantity(v_line.order_item), 0),
+        2
+      );
+      v_base_quantity := order_item_delivered_quantity(v_line.order_item) * v_line.quantity
+        / NULLIF(order_item_delivered_line_quantity(v_line.order_item), 0);
+
+      IF v_action IN ('restock', 'write_off') THEN
+        PERFORM set_stock_movement_context('return', v_complaint.order_id, v_note);
+
+        UPDATE products
+        SET stock = stock + v_base_quantity, updated_at = NOW()
+        WHERE id = (v_line.order_item).product_id;
+      END IF;
+
+      IF v_action = 'write_off' THEN
+        PERFORM set_stock_movement_context('spoilage', v_complaint.order_id, v_note);
+
+        UPDATE products
+        SET stock = stock - v_base_quantity, updated_at = NOW()
+        WHERE id = (v_line.order_item).product_id;
+      END IF;
+
+      UPDATE complaint_items
+      SET stock_action = v_action, credit_amount = COALESCE(v_credit, 0)
+      WHERE id = v_line.id;
+    END LOOP;
+
+    PERFORM set_stock_movement_context(NULL);
+  END IF;
+
+  UPDATE complaints
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      resolution_notes = NULLIF(trim(p_notes), ''),
+      credit_amount = CASE WHEN p_approve THEN (
+        SELECT COALESCE(SUM(credit_amount), 0) FROM complaint_items WHERE complaint_id = p_complaint_id
+      ) END,
+      resolved_by = auth.uid(),
+      resolved_at = NOW()
+  WHERE id = p_complaint_id
+  RETURNING * INTO v_complaint;
+
+  RETURN v_complaint;
+END;
+$$;
+
+-- Issue the credit note of an approved complaint and link it, or return the one already linked.
+-- The complaint row stays locked until the link is written, so concurrent calls cannot number
+-- two credit notes for the same complaint. The amounts are the credited totals, negative.
+CREATE OR REPLACE FUNCTION public.issue_complaint_credit_note(
+  p_complaint_id UUID,
+  p_bucket TEXT DEFAULT 'invoices',
+  p_subtotal NUMERIC DEFAULT NULL,
+  p_vat_amount NUMERIC DEFAULT NULL,
+  p_total_amount NUMERIC DEFAULT NULL,
+  p_currency TEXT DEFAULT NULL
+)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_complaint complaints;
+  v_original_id UUID;
+  v_credit_note public.invoices;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can issue credit notes';
+  END IF;
+
+  SELECT * INTO v_complaint FROM complaints WHERE id = p_complaint_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Complaint % not found', p_complaint_id;
+  END IF;
+
+  IF v_complaint.credit_note_id IS NOT NULL THEN
+    SELECT * INTO v_credit_note FROM invoices WHERE id = v_complaint.credit_note_id;
+    RETURN v_credit_note;
+  END IF;
+
+  IF v_complaint.status <> 'approved' THEN
+    RAISE EXCEPTION 'Only approved complaints are credited'
+      USING HINT = 'complaint_not_approved';
+  END IF;
+
+  SELECT id INTO v_original_id
+  FROM invoices
+  WHERE order_id = v_complaint.order_id AND credit_note_for IS NULL;
+
+  IF v_original_id IS NULL THEN
+    RAISE EXCEPTION 'Issue the invoice of the order before its credit note'
+      USING HINT = 'order_not_invoiced';
+  END IF;
+
+  v_credit_note := create_numbered_invoice(
+    v_complaint.user_id,
+    v_complaint.user_id::TEXT,
+    p_bucket,
+    v_complaint.order_id,
+    'Complaint #' || left(p_complaint_id::TEXT, 8),
+    'pending',
+    p_subtotal,
+    p_vat_amount,
+    p_total_amount,
+    p_currency,
+    v_original_id
+  );
+
+  UPDATE complaints SET credit_note_id = v_credit_note.id WHERE id = p_complaint_id;
+
+  RETURN v_credit_note;
+END;
+$$;
@@ -0,0 +1,880 @@
+-- Business accounts: the people of one customer business (e.g. a restaurant) share an account,
+-- each with a role. Buyers place orders, approvers also accept the buyers' orders above the
+-- business's approval threshold, which wait in pending_approval until then, and viewers follow
+-- the business's orders without placing any.
+CREATE TABLE IF NOT EXISTS public.businesses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  -- NULL: buyers' orders never need approval
+  approval_threshold NUMERIC(12, 2) CHECK (approval_threshold >= 0),
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_businesses_updated_at ON public.businesses;
+CREATE TRIGGER update_businesses_updated_at
+  BEFORE UPDATE ON public.businesses
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- A user belongs to at most one business
+CREATE TABLE IF NOT EXISTS public.business_members (
+  user_id UUID PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  business_id UUID NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'buyer' CHECK (role IN ('buyer', 'approver', 'viewer')),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_business_members_business ON public.business_members (business_id);
+
+-- Orders are filed under the business of the customer who placed them
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS business_id UUID REFERENCES public.businesses(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS approved_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS approved_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_orders_business ON public.orders (business_id, order_date);
+
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE public.orders
+  ADD CONSTRAINT orders_status_check
+  CHECK (status IN ('pending_approval', 'pending', 'processing', 'completed', 'cancelled')) NOT VALID;
+
+-- The current user's role in a business, NULL when they are not a member. Runs as definer so the
+-- policies below can use it without recursing into the policies of business_members.
+CREATE OR REPLACE FUNCTION public.business_role(p_business_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM business_members WHERE business_id = p_business_id AND user_id = auth.uid();
+$$;
+
+-- The business a user belongs to; definer for the same reason
+CREATE OR REPLACE FUNCTION public.user_business_id(p_user_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT business_id FROM business_members WHERE user_id = p_user_id;
+$$;
+
+-- Whether an order worth p_total (the goods, without the delivery fee) placed for p_user_id has to
+-- be approved: the user is a buyer and the total is above their business's threshold
+CREATE OR REPLACE FUNCTION public.order_needs_approval(p_user_id UUID, p_total NUMERIC)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM business_members m
+    JOIN businesses b ON b.id = m.business_id
+    WHERE m.user_id = p_user_id
+      AND m.role = 'buyer'
+      AND b.approval_threshold IS NOT NULL
+      AND p_total > b.approval_threshold
+  );
+$$;
+
+ALTER TABLE public.businesses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.business_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage businesses"
+  ON public.businesses FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE POLICY "Members can view their business"
+  ON public.businesses FOR SELECT
+  USING (public.business_role(id) IS NOT NULL);
+
+CREATE POLICY "Admins can manage business members"
+  ON public.business_members FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE POLICY "Members can view the members of their business"
+  ON public.business_members FOR SELECT
+  USING (public.business_role(business_id) IS NOT NULL);
+
+CREATE POLICY "Members can view the other members of their business"
+  ON public.users FOR SELECT
+  USING (public.business_role(public.user_business_id(id)) IS NOT NULL);
+
+-- Approvers and viewers see all orders of their business; buyers only their own
+CREATE POLICY "Approvers and viewers can view the orders of their business"
+  ON public.orders FOR SELECT
+  USING (business_id IS NOT NULL AND public.business_role(business_id) IN ('approver', 'viewer'));
+
+CREATE POLICY "Approvers and viewers can view the order items of their business"
+  ON public.order_items FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.orders o
+    WHERE o.id = order_id
+      AND o.business_id IS NOT NULL
+      AND public.business_role(o.business_id) IN ('approver', 'viewer')
+  ));
+
+-- Orders awaiting approval are approved (pending) or rejected (cancelled). Keep in sync with
+-- ORDER_STATUS_TRANSITIONS in order-api.ts
+CREATE OR REPLACE FUNCTION public.order_status_transition_allowed(p_from TEXT, p_to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_from
+    WHEN 'pending_approval' THEN p_to IN ('pending', 'cancelled')
+    WHEN 'pending' THEN p_to IN ('processing', 'cancelled')
+    WHEN 'processing' THEN p_to IN ('pending', 'completed', 'cancelled')
+    ELSE false
+  END;
+$$;
+
+-- Beyond the table, a pending order goes back for approval when an edit raises it above the
+-- threshold (update_order_items); nobody can send an order there by hand
+CREATE OR REPLACE FUNCTION public.check_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+     AND NOT order_status_transition_allowed(OLD.status, NEW.status)
+     AND NOT (OLD.status = 'pending' AND NEW.status = 'pending_approval'
+              AND order_needs_approval(NEW.user_id, NEW.total_amount)) THEN
+    RAISE EXCEPTION 'Cannot change order status from % to %', OLD.status, NEW.status
+      USING HINT = 'invalid_status_transition';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Approvers of the order's business release the stock of the orders awaiting approval they reject
+CREATE OR REPLACE FUNCTION public.release_order_stock(p_order_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  -- Admins and the customer who placed the order can cancel it, approvers the orders they reject
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND v_order.user_id IS DISTINCT FROM auth.uid()
+     AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+     AND NOT (v_order.status = 'pending_approval' AND business_role(v_order.business_id) = 'approver') THEN
+    RAISE EXCEPTION 'Not allowed to cancel order %', p_order_id;
+  END IF;
+
+  IF v_order.stock_status IS DISTINCT FROM 'reserved' THEN
+    RETURN false;
+  END IF;
+
+  PERFORM set_stock_movement_context('order_cancelled', p_order_id);
+
+  UPDATE products p
+  SET reserved_stock = GREATEST(p.reserved_stock - oi.quantity, 0),
+      updated_at = NOW()
+  FROM (
+    SELECT product_id, SUM(base_quantity) AS quantity
+    FROM order_items
+    WHERE order_id = p_order_id
+      AND substitution_status IS DISTINCT FROM 'declined'
+    GROUP BY product_id
+  ) oi
+  WHERE p.id = oi.product_id;
+
+  PERFORM set_stock_movement_context(NULL);
+
+  UPDATE orders SET stock_status = 'released' WHERE id = p_order_id;
+
+  RETURN true;
+END;
+$$;
+
+-- Approvers of the order's business approve or reject the orders awaiting approval, and buyers
+-- may cancel their own while they wait; approving records who approved the order
+CREATE OR REPLACE FUNCTION public.change_order_status(
+  p_order_id UUID,
+  p_status TEXT,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+  v_is_admin BOOLEAN;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  IF v_order.status = p_status THEN
+    RETURN v_order;
+  END IF;
+
+  v_is_admin := auth.role() = 'service_role'
+    OR EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin');
+
+  IF NOT v_is_admin
+     AND NOT (v_order.assigned_driver_id = auth.uid() AND p_status IN ('processing', 'completed'))
+     AND NOT (v_order.user_id = auth.uid() AND v_order.status IN ('pending', 'pending_approval') AND p_status = 'cancelled')
+     AND NOT (v_order.status = 'pending_approval' AND p_status IN ('pending', 'cancelled')
+              AND business_role(v_order.business_id) = 'approver') THEN
+    RAISE EXCEPTION 'Not allowed to change order % to %', p_order_id, p_status;
+  END IF;
+
+  IF NOT order_status_transition_allowed(v_order.status, p_status) THEN
+    RAISE EXCEPTION 'Cannot change order status from % to %', v_order.status, p_status
+      USING HINT = 'invalid_status_transition';
+  END IF;
+
+  IF p_status = 'cancelled' THEN
+    PERFORM release_order_stock(p_order_id);
+  ELSIF p_status = 'completed' THEN
+    PERFORM commit_order_stock(p_order_id);
+  END IF;
+
+  PERFORM set_config('app.status_reason', COALESCE(p_reason, ''), true);
+
+  UPDATE orders
+  SET status = p_status,
+      approved_by = CASE WHEN v_order.status = 'pending_approval' AND p_status = 'pending' THEN auth.uid() ELSE approved_by END,
+      approved_at = CASE WHEN v_order.status = 'pending_approval' AND p_status = 'pending' THEN NOW() ELSE approved_at END,
+      updated_at = NOW()
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  PERFORM set_config('app.status_reason', '', true);
+
+  RETURN v_order;
+END;
+$$;
+
+-- place_order files the order under the customer's business and holds it for approval when the
+-- customer is a buyer above the business's threshold
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_items JSONB,
+  p_user_id UUID DEFAULT NULL,
+  p_delivery_address TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_status TEXT DEFAULT 'pending',
+  p_payment_status TEXT DEFAULT 'pending',
+  p_delivery_date DATE DEFAULT NULL,
+  p_delivery_slot_id UUID DEFAULT NULL,
+  p_delivery_postcode TEXT DEFAULT NULL,
+  p_delivery_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_delivery_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_standing_order_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings RECORD;
+  v_today DATE;
+  v_customer_minimum NUMERIC;
+  v_minimum NUMERIC;
+  v_minimum_source TEXT;
+  v_zone delivery_zones;
+  v_slot delivery_slots;
+  v_delivery_date DATE;
+  v_item JSONB;
+  v_product RECORD;
+  v_pack product_packs;
+  v_quantity NUMERIC;
+  v_base_quantity NUMERIC;
+  v_submitted_price NUMERIC;
+  v_price NUMERIC;
+  v_price_list_id UUID;
+  v_is_admin BOOLEAN;
+  v_total NUMERIC := 0;
+  v_member business_members;
+  v_status TEXT;
+  v_lines JSONB := '[]';
+  v_requested JSONB := '{}';
+  v_line JSONB;
+  v_order orders;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  v_is_admin := auth.role() = 'service_role'
+    OR EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin');
+
+  -- Customers can only place orders for themselves; admins may order on behalf of anyone
+  IF p_user_id IS DISTINCT FROM auth.uid() AND NOT v_is_admin THEN
+    RAISE EXCEPTION 'Not allowed to place orders for another user';
+  END IF;
+
+  -- Orders start out pending and unpaid; only admins may place them in another state
+  IF (COALESCE(p_status, 'pending') <> 'pending' OR COALESCE(p_payment_status, 'pending') <> 'pending')
+     AND NOT v_is_admin THEN
+    RAISE EXCEPTION 'Not allowed to place orders with status % and payment status %', p_status, p_payment_status;
+  END IF;
+
+  SELECT * INTO v_member FROM business_members WHERE user_id = p_user_id;
+
+  -- Viewers of a business account follow its orders but cannot place any
+  IF v_member.role = 'viewer' THEN
+    RAISE EXCEPTION 'Viewers of a business account cannot place orders'
+      USING HINT = 'not_allowed_to_order';
+  END IF;
+
+  IF p_standing_order_id IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM standing_orders WHERE id = p_standing_order_id AND user_id = p_user_id) THEN
+    RAISE EXCEPTION 'Standing order % does not belong to this customer', p_standing_order_id;
+  END IF;
+
+  SELECT order_cutoff_time, delivery_days, min_order_value
+  INTO v_settings
+  FROM settings
+  ORDER BY created_at ASC
+  LIMIT 1;
+
+  v_zone := resolve_delivery_zone(
+    COALESCE(p_delivery_postcode, (SELECT zip_code FROM users WHERE id = p_user_id)),
+    p_delivery_latitude,
+    p_delivery_longitude
+  );
+
+  IF p_delivery_date IS NULL AND p_delivery_slot_id IS NULL THEN
+    v_delivery_date := next_delivery_date(
+      company_now(),
+      COALESCE(v_zone.order_cutoff_time, v_settings.order_cutoff_time),
+      COALESCE(NULLIF(v_zone.delivery_days, '{}'), v_settings.delivery_days)
+    );
+  ELSE
+    v_delivery_date := p_delivery_date;
+
+    -- Lock the slot so concurrent checkouts cannot both take its last place
+    IF p_delivery_slot_id IS NOT NULL THEN
+      SELECT * INTO v_slot FROM delivery_slots WHERE id = p_delivery_slot_id FOR UPDATE;
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1
+      FROM get_delivery_options(NULL, v_zone.id) o
+      WHERE o.delivery_date = p_delivery_date
+        AND o.slot_id IS NOT DISTINCT FROM p_delivery_slot_id
+        AND (o.capacity IS NULL OR o.booked < o.capacity)
+    ) THEN
+      RAISE EXCEPTION 'Delivery on % is no longer available', COALESCE(p_delivery_date::TEXT, 'an unknown date')
+        USING HINT = 'delivery_slot_unavailable',
+              DETAIL = jsonb_build_object(
+                'delivery_date', p_delivery_date,
+                'slot_id', p_delivery_slot_id
+              )::TEXT;
+    END IF;
+  END IF;
+
+  v_today := company_now()::DATE;
+
+  -- Lock products in a stable order so concurrent checkouts cannot deadlock
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items) ORDER BY value->>'product_id'
+  LOOP
+    v_quantity := (v_item->>'quantity')::NUMERIC;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', v_item->>'product_id';
+    END IF;
+
+    SELECT id, name_en, unit, price, stock, reserved_stock, is_active,
+           min_order_quantity, quantity_step, lead_time_days
+    INTO v_product
+    FROM products
+    WHERE id = (v_item->>'product_id')::UUID
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT v_product.is_active THEN
+      RAISE EXCEPTION 'Product % is no longer available', v_item->>'product_id';
+    END IF;
+
+    v_pack := NULL;
+    v_base_quantity := v_quantity;
+
+    IF v_item->>'pack_id' IS NOT NULL THEN
+      SELECT * INTO v_pack
+      FROM product_packs
+      WHERE id = (v_item->>'pack_id')::UUID AND product_id = v_product.id;
+
+      IF NOT FOUND OR NOT v_pack.is_active THEN
+        RAISE EXCEPTION 'Pack % of % is no longer available', v_item->>'pack_id', v_product.name_en;
+      END IF;
+
+      v_base_quantity := v_quantity * v_pack.base_quantity;
+    END IF;
+
+    -- Quantity rules are in the product's base unit, whatever pack it is ordered in
+    IF v_base_quantity < COALESCE(v_product.min_order_quantity, 0)
+       OR (v_product.quantity_step IS NOT NULL AND mod(v_base_quantity, v_product.quantity_step) <> 0) THEN
+      RAISE EXCEPTION 'Invalid quantity % % for %', v_base_quantity, v_product.unit, v_product.name_en
+        USING HINT = 'invalid_quantity',
+              DETAIL = jsonb_build_object(
+                'product_id', v_product.id,
+                'product_name', v_product.name_en,
+                'unit', v_product.unit,
+                'quantity', v_base_quantity,
+                'minimum', v_product.min_order_quantity,
+                'step', v_product.quantity_step
+              )::TEXT;
+    END IF;
+
+    IF v_delivery_date < v_today + v_product.lead_time_days THEN
+      RAISE EXCEPTION '% needs to be ordered % days ahead', v_product.name_en, v_product.lead_time_days
+        USING HINT = 'lead_time',
+              DETAIL = jsonb_build_object(
+                'product_id', v_product.id,
+                'product_name', v_product.name_en,
+                'lead_time_days', v_product.lead_time_days,
+                'earliest_date', v_today + v_product.lead_time_days
+              )::TEXT;
+    END IF;
+
+    SELECT r.price, r.price_list_id
+    INTO v_price, v_price_list_id
+    FROM resolve_line_price(p_user_id, v_product.id, v_pack.id, v_quantity) r;
+
+    v_submitted_price := (v_item->>'unit_price')::NUMERIC;
+
+    IF v_submitted_price IS NOT NULL AND round(v_submitted_price, 2) <> round(v_price, 2) THEN
+      IF v_is_admin THEN
+        v_price := v_submitted_price;
+        v_price_list_id := NULL;
+      ELSE
+        RAISE EXCEPTION 'The price of % has changed to %', v_product.name_en, v_price
+          USING HINT = 'price_changed',
+                DETAIL = jsonb_build_object(
+                  'product_id', v_product.id,
+                  'product_name', v_product.name_en,
+                  'price', v_price,
+                  'submitted', v_submitted_price
+                )::TEXT;
+      END IF;
+    END IF;
+
+    -- Earlier lines of this order for the same product are not reserved yet, so count them here
+    v_product.reserved_stock := v_product.reserved_stock + COALESCE((v_requested->>v_product.id::TEXT)::NUMERIC, 0);
+
+    IF v_product.stock - v_product.reserved_stock < v_base_quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %: % available, % requested',
+        v_product.name_en, v_product.stock - v_product.reserved_stock, v_base_quantity
+        USING HINT = 'insufficient_stock',
+              DETAIL = jsonb_build_object(
+                'product_id', v_product.id,
+                'product_name', v_product.name_en,
+                'available', v_product.stock - v_product.reserved_stock,
+                'requested', v_base_quantity
+              )::TEXT;
+    END IF;
+
+    v_requested := v_requested || jsonb_build_object(
+      v_product.id::TEXT,
+      COALESCE((v_requested->>v_product.id::TEXT)::NUMERIC, 0) + v_base_quantity
+    );
+    v_lines := v_lines || jsonb_build_object(
+      'product_id', v_product.id,
+      'pack_id', v_pack.id,
+      'quantity', v_quantity,
+      'base_quantity', v_base_quantity,
+      'unit_price', v_price,
+      'price_list_id', v_price_list_id
+    );
+
+    v_total := v_total + v_quantity * v_price;
+  END LOOP;
+
+  -- A customer's own minimum replaces the others; otherwise the higher of the zone's and the global one
+  SELECT min_order_value INTO v_customer_minimum FROM users WHERE id = p_user_id;
+
+  IF v_customer_minimum IS NOT NULL THEN
+    v_minimum := v_customer_minimum;
+    v_minimum_source := 'customer';
+  ELSIF v_zone.id IS NOT NULL AND v_zone.min_order_value >= COALESCE(v_settings.min_order_value, 0) THEN
+    v_minimum := v_zone.min_order_value;
+    v_minimum_source := 'zone';
+  ELSE
+    v_minimum := COALESCE(v_settings.min_order_value, 0);
+    v_minimum_source := 'global';
+  END IF;
+
+  IF v_total < v_minimum THEN
+    RAISE EXCEPTION 'The minimum order value is %', v_minimum
+      USING HINT = 'below_minimum_order',
+            DETAIL = jsonb_build_object(
+              'source', v_minimum_source,
+              'zone_name', CASE WHEN v_minimum_source = 'zone' THEN v_zone.name END,
+              'minimum', v_minimum,
+              'total', v_total
+            )::TEXT;
+  END IF;
+
+  -- Orders of buyers above their business's approval threshold wait for an approver, whatever
+  -- status they were placed with; only admins may place them straight into another state.
+  -- The order is created in its final status, so its history starts there.
+  v_status := COALESCE(p_status, 'pending');
+
+  IF (v_status = 'pending' OR NOT v_is_admin) AND order_needs_approval(p_user_id, v_total) THEN
+    v_status := 'pending_approval';
+    PERFORM set_config('app.status_reason', 'Above the approval threshold', true);
+  END IF;
+
+  INSERT INTO orders (
+    user_id, delivery_address, order_date, delivery_date,
+    delivery_slot_id, delivery_window_start, delivery_window_end,
+    delivery_zone_id, delivery_fee, total_amount, status, payment_status, notes, stock_status,
+    standing_order_id, business_id
+  )
+  VALUES (
+    p_user_id, p_delivery_address, NOW(), v_delivery_date,
+    v_slot.id, v_slot.start_time, v_slot.end_time,
+    v_zone.id, COALESCE(v_zone.delivery_fee, 0), v_total, v_status, COALESCE(p_payment_status, 'pending'), p_notes, 'reserved',
+    p_standing_order_id, v_member.business_id
+  )
+  RETURNING * INTO v_order;
+
+  PERFORM set_config('app.status_reason', '', true);
+
+  PERFORM set_stock_movement_context('order_placed', v_order.id);
+
+  -- The products are still locked from the checks above
+  FOR v_line IN SELECT value FROM jsonb_array_elements(v_lines)
+  LOOP
+    UPDATE products
+    SET reserved_stock = reserved_stock + (v_line->>'base_quantity')::NUMERIC,
+        updated_at = NOW()
+    WHERE id = (v_line->>'product_id')::UUID;
+
+    INSERT INTO order_items (order_id, product_id, pack_id, quantity, unit_price, price_list_id)
+    VALUES (
+      v_order.id,
+      (v_line->>'product_id')::UUID,
+      (v_line->>'pack_id')::UUID,
+      (v_line->>'quantity')::NUMERIC,
+      (v_line->>'unit_price')::NUMERIC,
+      (v_line->>'price_list_id')::UUID
+    );
+  END LOOP;
+
+  PERFORM set_stock_movement_context(NULL);
+
+  RETURN to_jsonb(v_order) || jsonb_build_object(
+    'items',
+    (SELECT COALESCE(jsonb_agg(to_jsonb(oi)), '[]'::JSONB) FROM order_items oi WHERE oi.order_id = v_order.id)
+  );
+END;
+$$;
+
+-- Editing an order checks the approval threshold again
+CREATE OR REPLACE FUNCTION public.update_order_items(
+  p_order_id UUID,
+  p_items JSONB,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+  v_is_admin BOOLEAN;
+  v_deadline TIMESTAMPTZ;
+  v_today DATE;
+  v_item JSONB;
+  v_existing order_items;
+  v_found BOOLEAN;
+  v_kept UUID[] := '{}';
+  v_product RECORD;
+  v_pack product_packs;
+  v_quantity NUMERIC;
+  v_base_quantity NUMERIC;
+  v_delta NUMERIC;
+  v_price NUMERIC;
+  v_price_list_id UUID;
+  v_minimum RECORD;
+  v_total_before NUMERIC;
+  v_total NUMERIC;
+  v_status TEXT;
+  v_changes JSONB := '[]'::JSONB;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item; cancel it instead';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  v_is_admin := auth.role() = 'service_role'
+    OR EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin');
+
+  IF v_order.user_id IS DISTINCT FROM auth.uid() AND NOT v_is_admin THEN
+    RAISE EXCEPTION 'Not allowed to change order %', p_order_id;
+  END IF;
+
+  -- Customers change pending orders and those awaiting approval, admins also those being
+  -- processed; nobody after the cutoff, or once picking has short-picked or substituted a line
+  v_deadline := order_edit_deadline(p_order_id);
+
+  IF NOT (v_order.status IN ('pending', 'pending_approval') OR (v_is_admin AND v_order.status = 'processing'))
+     OR v_order.stock_status IS DISTINCT FROM 'reserved'
+     OR NOW() > COALESCE(v_deadline, 'infinity')
+     OR EXISTS (
+       SELECT 1 FROM order_items
+       WHERE order_id = p_order_id AND (fulfilled_quantity IS NOT NULL OR substitute_for IS NOT NULL)
+     ) THEN
+    RAISE EXCEPTION 'Order % can no longer be changed', p_order_id
+      USING HINT = 'order_locked',
+            DETAIL = jsonb_build_object(
+              'status', v_order.status,
+              'deadline', v_deadline
+            )::TEXT;
+  END IF;
+
+  v_today := company_now()::DATE;
+
+  SELECT COALESCE(SUM(order_item_total(oi)), 0) INTO v_total_before
+  FROM order_items oi
+  WHERE oi.order_id = p_order_id;
+
+  PERFORM set_stock_movement_context('order_edited', p_order_id, p_reason);
+
+  -- Lock products in a stable order so concurrent checkouts cannot deadlock
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items) ORDER BY value->>'product_id'
+  LOOP
+    v_quantity := (v_item->>'quantity')::NUMERIC;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', v_item->>'product_id';
+    END IF;
+
+    SELECT id, name_en, unit, stock, reserved_stock, is_active,
+           min_order_quantity, quantity_step, lead_time_days
+    INTO v_product
+    FROM products
+    WHERE id = (v_item->>'product_id')::UUID
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % not found', v_item->>'product_id';
+    END IF;
+
+    -- Lines are matched by id; items without one are new lines. Substitute lines are picking's
+    -- business and cannot be edited here.
+    v_found := v_item->>'id' IS NOT NULL;
+
+    IF v_found THEN
+      SELECT * INTO v_existing
+      FROM order_items
+      WHERE id = (v_item->>'id')::UUID
+        AND order_id = p_order_id
+        AND substitute_for IS NULL;
+
+      IF NOT FOUND
+         OR v_existing.product_id <> v_product.id
+         OR v_existing.pack_id IS DISTINCT FROM (v_item->>'pack_id')::UUID THEN
+        RAISE EXCEPTION 'Order item % is not a line of order %', v_item->>'id', p_order_id;
+      END IF;
+
+      v_kept := v_kept || v_existing.id;
+    END IF;
+
+    CONTINUE WHEN v_found AND v_existing.quantity = v_quantity;
+
+    IF NOT v_product.is_active THEN
+      RAISE EXCEPTION 'Product % is no longer available', v_product.name_en;
+    END IF;
+
+    v_pack := NULL;
+    v_base_quantity := v_quantity;
+
+    IF v_item->>'pack_id' IS NOT NULL THEN
+      SELECT * INTO v_pack
+      FROM product_packs
+      WHERE id = (v_item->>'pack_id')::UUID AND product_id = v_product.id;
+
+      IF NOT FOUND OR NOT v_pack.is_active THEN
+        RAISE EXCEPTION 'Pack % of % is no longer available', v_item->>'pack_id', v_product.name_en;
+      END IF;
+
+      v_base_quantity := v_quantity * v_pack.base_quantity;
+    END IF;
+
+    IF v_base_quantity < COALESCE(v_product.min_order_quantity, 0)
+       OR (v_product.quantity_step IS NOT NULL AND mod(v_base_quantity, v_product.quantity_step) <> 0) THEN
+      RAISE EXCEPTION 'Invalid quantity % % for %', v_base_quantity, v_product.unit, v_product.name_en
+        USING HINT = 'invalid_quantity',
+              DETAIL = jsonb_build_object(
+                'product_id', v_product.id,
+                'product_name', v_product.name_en,
+                'unit', v_product.unit,
+                'quantity', v_base_quantity,
+                'minimum', v_product.min_order_quantity,
+                'step', v_product.quantity_step
+              )::TEXT;
+    END IF;
+
+    v_delta := v_base_quantity - CASE WHEN v_found THEN v_existing.base_quantity ELSE 0 END;
+
+    -- Asking for more of a product with a lead time needs as much notice as a new order
+    IF v_delta > 0 AND v_order.delivery_date < v_today + v_product.lead_time_days THEN
+      RAISE EXCEPTION '% needs to be ordered % days ahead', v_product.name_en, v_product.lead_time_days
+        USING HINT = 'lead_time',
+              DETAIL = jsonb_build_object(
+                'product_id', v_product.id,
+                'product_name', v_product.name_en,
+                'lead_time_days', v_product.lead_time_days,
+                'earliest_date', v_today + v_product.lead_time_days
+              )::TEXT;
+    END IF;
+
+    IF v_delta > 0 AND v_product.stock - v_product.reserved_stock < v_delta THEN
+      RAISE EXCEPTION 'Insufficient stock for %: % available, % requested',
+        v_product.name_en, v_product.stock - v_product.reserved_stock, v_delta
+        USING HINT = 'insufficient_stock',
+              DETAIL = jsonb_build_object(
+                'product_id', v_product.id,
+                'product_name', v_product.name_en,
+                'available', v_product.stock - v_product.reserved_stock,
+                'requested', v_delta
+              )::TEXT;
+    END IF;
+
+    SELECT r.price, r.price_list_id
+    INTO v_price, v_price_list_id
+    FROM resolve_line_price(v_order.user_id, v_product.id, v_pack.id, v_quantity) r;
+
+    IF v_delta <> 0 THEN
+      UPDATE products
+      SET reserved_stock = GREATEST(reserved_stock + v_delta, 0),
+          updated_at = NOW()
+      WHERE id = v_product.id;
+    END IF;
+
+    IF v_found THEN
+      UPDATE order_items
+      SET quantity = v_quantity,
+          unit_price = v_price,
+          price_list_id = v_price_list_id
+      WHERE id = v_existing.id;
+    ELSE
+      INSERT INTO order_items (order_id, product_id, pack_id, quantity, unit_price, price_list_id)
+      VALUES (p_order_id, v_product.id, v_pack.id, v_quantity, v_price, v_price_list_id)
+      RETURNING id INTO v_existing.id;
+
+      v_kept := v_kept || v_existing.id;
+    END IF;
+
+    v_changes := v_changes || jsonb_build_array(jsonb_build_object(
+      'product_name', v_product.name_en,
+      'pack_name', v_pack.name,
+      'from_quantity', CASE WHEN v_found THEN v_existing.quantity ELSE 0 END,
+      'to_quantity', v_quantity
+    ));
+  END LOOP;
+
+  -- Lines left out of the list are removed and their reservation released. Substitute lines are
+  -- left alone: declined ones gave their reservation back when they were declined.
+  FOR v_existing IN
+    SELECT oi.*
+    FROM order_items oi
+    WHERE oi.order_id = p_order_id
+      AND oi.substitute_for IS NULL
+      AND oi.id <> ALL (v_kept)
+    ORDER BY oi.product_id
+  LOOP
+    UPDATE products
+    SET reserved_stock = GREATEST(reserved_stock - v_existing.base_quantity, 0),
+        updated_at = NOW()
+    WHERE id = v_existing.product_id;
+
+    DELETE FROM order_items WHERE id = v_existing.id;
+
+    v_changes := v_changes || jsonb_build_array(jsonb_build_object(
+      'product_name', (SELECT name_en FROM products WHERE id = v_existing.product_id),
+      'pack_name', (SELECT name FROM product_packs WHERE id = v_existing.pack_id),
+      'from_quantity', v_existing.quantity,
+      'to_quantity', 0
+    ));
+  END LOOP;
+
+  PERFORM set_stock_movement_context(NULL);
+
+  IF jsonb_array_length(v_changes) > 0 THEN
+    SELECT COALESCE(SUM(order_item_total(oi)), 0) INTO v_total
+    FROM order_items oi
+    WHERE oi.order_id = p_order_id;
+
+    SELECT * INTO v_minimum FROM resolve_minimum_order(v_order.user_id, v_order.delivery_zone_id);
+
+    IF v_total < v_minimum.minimum THEN
+      RAISE EXCEPTION 'The minimum order value is %', v_minimum.minimum
+        USING HINT = 'below_minimum_order',
+              DETAIL = jsonb_build_object(
+                'source', v_minimum.source,
+                'zone_name', v_minimum.zone_name,
+                'minimum', v_minimum.minimum,
+                'total', v_total
+              )::TEXT;
+    END IF;
+
+    -- Raising a buyer's order above the approval threshold sends it back for approval;
+    -- lowering an order awaiting approval to the threshold releases it
+    v_status := CASE
+      WHEN v_order.status IN ('pending', 'pending_approval') AND v_total > v_total_before
+           AND order_needs_approval(v_order.user_id, v_total) THEN 'pending_approval'
+      WHEN v_order.status = 'pending_approval' AND NOT order_needs_approval(v_order.user_id, v_total) THEN 'pending'
+      ELSE v_order.status
+    END;
+
+    IF v_status <> v_order.status THEN
+      PERFORM set_config('app.status_reason',
+        CASE WHEN v_status = 'pending_approval' THEN 'Above the approval threshold' ELSE 'Within the approval threshold' END,
+        true);
+    END IF;
+
+    UPDATE orders
+    SET total_amount = v_total,
+        status = v_status,
+        updated_at = NOW()
+    WHERE id = p_order_id
+    RETURNING * INTO v_order;
+
+    PERFORM set_config('app.status_reason', '', true);
+
+    INSERT INTO order_status_history (order_id, from_status, to_status, reason, changed_by, changes)
+    VALUES (
+      p_order_id, v_order.status, v_order.status, p_reason, auth.uid(),
+      jsonb_build_object('items', v_changes, 'total_before', v_total_before, 'total_after', v_total)
+    );
+  END IF;
+
+  RETURN to_jsonb(v_order) || jsonb_build_object(
+    'items',
+    (SELECT COALESCE(jsonb_agg(to_jsonb(oi)), '[]'::JSONB) FROM order_items oi WHERE oi.order_id = v_order.id)
+  );
+END;
+$$;
@@ -0,0 +1,15 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    env: {
+      // The browser's clock; the tests put the company in another timezone
+      TZ: 'America/New_York',
+      // supabase.ts refuses to load without them; the tests never reach the database
+      NEXT_PUBLIC_SUPABASE_URL: 'http://localhost:54321',
+      NEXT_PUBLIC_SUPABASE_ANON_KEY: 'test-anon-key',
+      NEXT_PUBLIC_SUPABASE_SERVICE_ROLE_KEY: 'test-service-role-key'
+    }
+  }
+});